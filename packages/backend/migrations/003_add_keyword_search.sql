@@ -0,0 +1,51 @@
+-- Add full-text keyword search over document chunks
+-- Used alongside vector_search for hybrid retrieval (exact identifiers such as "NAVSEA S9086" or "4.2.3")
+
+-- Pre-computed search vector so ranking does not re-parse chunk text on every query
+ALTER TABLE document_chunks
+ADD COLUMN IF NOT EXISTS chunk_tsv tsvector
+  GENERATED ALWAYS AS (to_tsvector('english', coalesce(section_title, '') || ' ' || chunk_text)) STORED;
+
+-- GIN index for fast full-text lookups
+CREATE INDEX IF NOT EXISTS idx_document_chunks_tsv ON document_chunks USING gin (chunk_tsv);
+
+-- Keyword search function (BM25-style ranking via ts_rank_cd, normalized to 0-1)
+CREATE OR REPLACE FUNCTION keyword_search(
+  query_text text,
+  user_id_param text,
+  match_count int DEFAULT 10,
+  document_ids_param text[] DEFAULT NULL
+)
+RETURNS TABLE (
+  chunk_id text,
+  document_id text,
+  chunk_text text,
+  page_number int,
+  section_title text,
+  filename text,
+  keyword_score float
+)
+LANGUAGE sql
+AS $$
+  SELECT
+    dc.chunk_id,
+    dc.document_id,
+    dc.chunk_text,
+    dc.page_number,
+    dc.section_title,
+    ud.filename,
+    -- Normalization 1 damps long chunks, 32 maps rank into 0-1 as rank/(rank+1)
+    ts_rank_cd(dc.chunk_tsv, websearch_to_tsquery('english', query_text), 1 | 32)::float as keyword_score
+  FROM document_chunks dc
+  INNER JOIN user_documents ud ON dc.document_id = ud.document_id
+  WHERE
+    dc.user_id = user_id_param
+    AND dc.chunk_tsv @@ websearch_to_tsquery('english', query_text)
+    AND (document_ids_param IS NULL OR dc.document_id = ANY(document_ids_param))
+  ORDER BY keyword_score DESC
+  LIMIT match_count;
+$$;
+
+-- Grant permissions
+GRANT EXECUTE ON FUNCTION keyword_search TO anon;
+GRANT EXECUTE ON FUNCTION keyword_search TO authenticated;
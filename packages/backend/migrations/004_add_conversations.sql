@@ -0,0 +1,34 @@
+-- Add persisted conversation threads for multi-turn RAG
+-- Each thread belongs to one user; messages alternate user questions and assistant answers
+
+CREATE TABLE IF NOT EXISTS conversations (
+    conversation_id VARCHAR(255) PRIMARY KEY,
+    user_id VARCHAR(255) NOT NULL,
+    title VARCHAR(200),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS conversation_messages (
+    message_id VARCHAR(255) PRIMARY KEY,
+    conversation_id VARCHAR(255) NOT NULL REFERENCES conversations(conversation_id) ON DELETE CASCADE,
+    user_id VARCHAR(255) NOT NULL,
+    role VARCHAR(20) NOT NULL CHECK (role IN ('user', 'assistant')),
+    content TEXT NOT NULL,
+    sources JSONB DEFAULT '[]',
+    rewritten_query TEXT, -- Standalone form of a follow-up question, used for retrieval
+    metadata JSONB DEFAULT '{}',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_conversations_user_id ON conversations(user_id, updated_at DESC);
+CREATE INDEX IF NOT EXISTS idx_conversation_messages_conversation_id ON conversation_messages(conversation_id, created_at);
+
+ALTER TABLE conversations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE conversation_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY IF NOT EXISTS "Users can access their own conversations" ON conversations
+    FOR ALL USING (true); -- For now, allow all access - implement user auth later
+
+CREATE POLICY IF NOT EXISTS "Users can access their own conversation messages" ON conversation_messages
+    FOR ALL USING (true); -- For now, allow all access - implement user auth later
@@ -0,0 +1,100 @@
+-- Track OCR provenance for scanned PDF pages
+-- Chunks recognized by OCR are flagged so citations can warn that the text may contain recognition errors
+
+ALTER TABLE document_chunks
+ADD COLUMN IF NOT EXISTS is_ocr BOOLEAN NOT NULL DEFAULT FALSE,
+ADD COLUMN IF NOT EXISTS ocr_confidence REAL;
+
+-- Per-document page accounting so scanned documents don't look fully indexed
+ALTER TABLE user_documents
+ADD COLUMN IF NOT EXISTS ocr_page_count INTEGER DEFAULT 0,
+ADD COLUMN IF NOT EXISTS empty_page_count INTEGER DEFAULT 0;
+
+-- Search functions return the OCR columns; the return type changes, so drop first
+DROP FUNCTION IF EXISTS vector_search(vector, text, float, int);
+
+CREATE FUNCTION vector_search(
+  query_embedding vector(768),
+  user_id_param text,
+  similarity_threshold float DEFAULT 0.7,
+  match_count int DEFAULT 10
+)
+RETURNS TABLE (
+  chunk_id text,
+  document_id text,
+  chunk_text text,
+  page_number int,
+  section_title text,
+  filename text,
+  is_ocr boolean,
+  ocr_confidence real,
+  similarity_score float
+)
+LANGUAGE sql
+AS $$
+  SELECT
+    dc.chunk_id,
+    dc.document_id,
+    dc.chunk_text,
+    dc.page_number,
+    dc.section_title,
+    ud.filename,
+    dc.is_ocr,
+    dc.ocr_confidence,
+    (1 - (dc.embedding <=> query_embedding)) as similarity_score
+  FROM document_chunks dc
+  INNER JOIN user_documents ud ON dc.document_id = ud.document_id
+  WHERE 
+    dc.user_id = user_id_param
+    AND dc.embedding IS NOT NULL
+    AND (1 - (dc.embedding <=> query_embedding)) >= similarity_threshold
+  ORDER BY dc.embedding <=> query_embedding
+  LIMIT match_count;
+$$;
+
+DROP FUNCTION IF EXISTS keyword_search(text, text, int, text[]);
+
+CREATE FUNCTION keyword_search(
+  query_text text,
+  user_id_param text,
+  match_count int DEFAULT 10,
+  document_ids_param text[] DEFAULT NULL
+)
+RETURNS TABLE (
+  chunk_id text,
+  document_id text,
+  chunk_text text,
+  page_number int,
+  section_title text,
+  filename text,
+  is_ocr boolean,
+  ocr_confidence real,
+  keyword_score float
+)
+LANGUAGE sql
+AS $$
+  SELECT
+    dc.chunk_id,
+    dc.document_id,
+    dc.chunk_text,
+    dc.page_number,
+    dc.section_title,
+    ud.filename,
+    dc.is_ocr,
+    dc.ocr_confidence,
+    ts_rank_cd(dc.chunk_tsv, websearch_to_tsquery('english', query_text), 1 | 32)::float as keyword_score
+  FROM document_chunks dc
+  INNER JOIN user_documents ud ON dc.document_id = ud.document_id
+  WHERE
+    dc.user_id = user_id_param
+    AND dc.chunk_tsv @@ websearch_to_tsquery('english', query_text)
+    AND (document_ids_param IS NULL OR dc.document_id = ANY(document_ids_param))
+  ORDER BY keyword_score DESC
+  LIMIT match_count;
+$$;
+
+-- Grant permissions
+GRANT EXECUTE ON FUNCTION vector_search TO anon;
+GRANT EXECUTE ON FUNCTION vector_search TO authenticated;
+GRANT EXECUTE ON FUNCTION keyword_search TO anon;
+GRANT EXECUTE ON FUNCTION keyword_search TO authenticated;
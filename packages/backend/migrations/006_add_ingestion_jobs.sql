@@ -0,0 +1,62 @@
+-- Durable ingestion job queue
+-- Replaces fire-and-forget background processing so uploads survive restarts and failed stages are retried
+
+CREATE TABLE IF NOT EXISTS ingestion_jobs (
+    job_id VARCHAR(255) PRIMARY KEY,
+    job_type VARCHAR(50) NOT NULL DEFAULT 'ingest_document',
+    document_id VARCHAR(255) NOT NULL REFERENCES user_documents(document_id) ON DELETE CASCADE,
+    user_id VARCHAR(255) NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'queued', -- queued | running | completed | failed | cancelled
+    stage VARCHAR(50),                             -- stage currently (or last) running
+    stage_attempts JSONB NOT NULL DEFAULT '{}',    -- failed attempts per stage
+    max_attempts INTEGER NOT NULL DEFAULT 3,       -- per stage
+    last_error TEXT,
+    next_run_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    locked_by VARCHAR(255),
+    locked_at TIMESTAMP WITH TIME ZONE,
+    heartbeat_at TIMESTAMP WITH TIME ZONE,
+    started_at TIMESTAMP WITH TIME ZONE,
+    completed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ingestion_jobs_status_next_run ON ingestion_jobs(status, next_run_at);
+CREATE INDEX IF NOT EXISTS idx_ingestion_jobs_document_id ON ingestion_jobs(document_id);
+
+-- Atomically claim the next runnable job
+-- Also reclaims running jobs whose worker stopped sending heartbeats (crash or restart mid-stage)
+CREATE OR REPLACE FUNCTION claim_ingestion_job(
+  worker_id_param text,
+  lock_timeout_seconds int DEFAULT 600
+)
+RETURNS SETOF ingestion_jobs
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE ingestion_jobs j
+  SET
+    status = 'running',
+    locked_by = worker_id_param,
+    locked_at = NOW(),
+    heartbeat_at = NOW(),
+    started_at = COALESCE(j.started_at, NOW()),
+    updated_at = NOW()
+  WHERE j.job_id = (
+    SELECT candidate.job_id
+    FROM ingestion_jobs candidate
+    WHERE (candidate.status = 'queued' AND candidate.next_run_at <= NOW())
+       OR (candidate.status = 'running'
+           AND candidate.heartbeat_at < NOW() - make_interval(secs => lock_timeout_seconds))
+    ORDER BY candidate.next_run_at
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING j.*;
+END;
+$$;
+
+-- Grant permissions
+GRANT EXECUTE ON FUNCTION claim_ingestion_job TO anon;
+GRANT EXECUTE ON FUNCTION claim_ingestion_job TO authenticated;
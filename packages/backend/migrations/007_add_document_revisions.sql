@@ -0,0 +1,148 @@
+-- Document revisions and incremental re-indexing
+-- A revised file is uploaded as a new revision of an existing document. Every revision has its own
+-- chunk rows; chunks whose content hash matches the served revision copy its embedding instead of
+-- being re-embedded. Search reads the served revision (current_revision) unless a query pins another.
+
+CREATE TABLE IF NOT EXISTS document_revisions (
+    document_id VARCHAR(255) NOT NULL REFERENCES user_documents(document_id) ON DELETE CASCADE,
+    revision INTEGER NOT NULL,
+    user_id VARCHAR(255) NOT NULL,
+    filename VARCHAR(500) NOT NULL,
+    mime_type VARCHAR(255),
+    file_size BIGINT NOT NULL,
+    file_hash VARCHAR(64) NOT NULL,
+    storage_path TEXT,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending', -- pending | processing | completed | failed | archived
+    total_pages INTEGER DEFAULT 0,
+    total_chunks INTEGER DEFAULT 0,
+    page_hashes JSONB NOT NULL DEFAULT '[]',       -- sha256 of each page's text, in page order
+    pages_changed INTEGER,                         -- pages whose text is not in the previous revision
+    chunks_reused INTEGER,                         -- embeddings copied from the previous revision
+    chunks_embedded INTEGER,                       -- embeddings generated for this revision
+    error_message TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    completed_at TIMESTAMP WITH TIME ZONE,
+    PRIMARY KEY (document_id, revision)
+);
+
+-- current_revision is what search serves; latest_revision is the newest upload (may still be processing)
+ALTER TABLE user_documents
+ADD COLUMN IF NOT EXISTS current_revision INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN IF NOT EXISTS latest_revision INTEGER NOT NULL DEFAULT 1;
+
+ALTER TABLE document_chunks
+ADD COLUMN IF NOT EXISTS revision INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN IF NOT EXISTS content_hash VARCHAR(64);
+
+CREATE INDEX IF NOT EXISTS idx_document_chunks_revision ON document_chunks(document_id, revision);
+CREATE INDEX IF NOT EXISTS idx_document_chunks_content_hash ON document_chunks(document_id, content_hash);
+
+-- Existing documents become revision 1
+INSERT INTO document_revisions (
+    document_id, revision, user_id, filename, mime_type, file_size, file_hash, storage_path,
+    status, total_pages, total_chunks, created_at, completed_at
+)
+SELECT
+    document_id, 1, user_id, filename, mime_type, file_size, file_hash, storage_path,
+    CASE WHEN status = 'completed' THEN 'completed' WHEN status = 'failed' THEN 'failed' ELSE 'pending' END,
+    total_pages, total_chunks, uploaded_at, processing_completed_at
+FROM user_documents
+ON CONFLICT (document_id, revision) DO NOTHING;
+
+-- Search functions filter by revision; the signatures change, so drop first
+-- revision_pins maps document_id -> revision for queries that target a specific revision
+DROP FUNCTION IF EXISTS vector_search(vector, text, float, int);
+
+CREATE FUNCTION vector_search(
+  query_embedding vector(768),
+  user_id_param text,
+  similarity_threshold float DEFAULT 0.7,
+  match_count int DEFAULT 10,
+  revision_pins jsonb DEFAULT NULL
+)
+RETURNS TABLE (
+  chunk_id text,
+  document_id text,
+  chunk_text text,
+  page_number int,
+  section_title text,
+  filename text,
+  is_ocr boolean,
+  ocr_confidence real,
+  revision int,
+  similarity_score float
+)
+LANGUAGE sql
+AS $$
+  SELECT
+    dc.chunk_id,
+    dc.document_id,
+    dc.chunk_text,
+    dc.page_number,
+    dc.section_title,
+    ud.filename,
+    dc.is_ocr,
+    dc.ocr_confidence,
+    dc.revision,
+    (1 - (dc.embedding <=> query_embedding)) as similarity_score
+  FROM document_chunks dc
+  INNER JOIN user_documents ud ON dc.document_id = ud.document_id
+  WHERE
+    dc.user_id = user_id_param
+    AND dc.embedding IS NOT NULL
+    AND dc.revision = COALESCE((revision_pins ->> dc.document_id)::int, ud.current_revision)
+    AND (1 - (dc.embedding <=> query_embedding)) >= similarity_threshold
+  ORDER BY dc.embedding <=> query_embedding
+  LIMIT match_count;
+$$;
+
+DROP FUNCTION IF EXISTS keyword_search(text, text, int, text[]);
+
+CREATE FUNCTION keyword_search(
+  query_text text,
+  user_id_param text,
+  match_count int DEFAULT 10,
+  document_ids_param text[] DEFAULT NULL,
+  revision_pins jsonb DEFAULT NULL
+)
+RETURNS TABLE (
+  chunk_id text,
+  document_id text,
+  chunk_text text,
+  page_number int,
+  section_title text,
+  filename text,
+  is_ocr boolean,
+  ocr_confidence real,
+  revision int,
+  keyword_score float
+)
+LANGUAGE sql
+AS $$
+  SELECT
+    dc.chunk_id,
+    dc.document_id,
+    dc.chunk_text,
+    dc.page_number,
+    dc.section_title,
+    ud.filename,
+    dc.is_ocr,
+    dc.ocr_confidence,
+    dc.revision,
+    ts_rank_cd(dc.chunk_tsv, websearch_to_tsquery('english', query_text), 1 | 32)::float as keyword_score
+  FROM document_chunks dc
+  INNER JOIN user_documents ud ON dc.document_id = ud.document_id
+  WHERE
+    dc.user_id = user_id_param
+    AND dc.chunk_tsv @@ websearch_to_tsquery('english', query_text)
+    AND dc.revision = COALESCE((revision_pins ->> dc.document_id)::int, ud.current_revision)
+    AND (document_ids_param IS NULL OR dc.document_id = ANY(document_ids_param))
+  ORDER BY keyword_score DESC
+  LIMIT match_count;
+$$;
+
+-- Grant permissions
+GRANT EXECUTE ON FUNCTION vector_search TO anon;
+GRANT EXECUTE ON FUNCTION vector_search TO authenticated;
+GRANT EXECUTE ON FUNCTION keyword_search TO anon;
+GRANT EXECUTE ON FUNCTION keyword_search TO authenticated;
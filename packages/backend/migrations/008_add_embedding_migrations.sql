@@ -0,0 +1,230 @@
+-- Embedding model migrations
+-- Chunks are re-embedded with a new provider/model while search keeps serving the old one.
+-- New vectors are staged in chunk_embeddings; activate_embedding_migration copies them into
+-- document_chunks and switches the active model in one transaction. Search filters on
+-- embedding_model, so a query never compares vectors from different models.
+
+-- Active embedding model per scope: '*' is the system default, anything else is a user id
+-- Without a row the EMBEDDING_PROVIDER / EMBEDDING_MODEL environment settings apply
+CREATE TABLE IF NOT EXISTS embedding_model_assignments (
+    scope VARCHAR(255) PRIMARY KEY,
+    provider VARCHAR(20) NOT NULL,
+    model VARCHAR(100) NOT NULL,
+    dimensions INTEGER NOT NULL,
+    activated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS embedding_migrations (
+    migration_id VARCHAR(255) PRIMARY KEY,
+    user_id VARCHAR(255),                          -- NULL migrates every user's chunks
+    source_model VARCHAR(100),
+    target_provider VARCHAR(20) NOT NULL,
+    target_model VARCHAR(100) NOT NULL,
+    target_dimensions INTEGER,                     -- probed from the model when the run starts
+    status VARCHAR(20) NOT NULL DEFAULT 'queued',  -- queued | running | completed | failed | cancelled
+    total_chunks INTEGER NOT NULL DEFAULT 0,
+    processed_chunks INTEGER NOT NULL DEFAULT 0,
+    last_chunk_id VARCHAR(255),                    -- walk cursor, so a resumed run skips finished batches
+    error_message TEXT,
+    locked_by VARCHAR(255),
+    heartbeat_at TIMESTAMP WITH TIME ZONE,
+    started_at TIMESTAMP WITH TIME ZONE,
+    completed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_embedding_migrations_status ON embedding_migrations(status);
+
+-- Staged vectors for the target model; never read by search
+CREATE TABLE IF NOT EXISTS chunk_embeddings (
+    migration_id VARCHAR(255) NOT NULL REFERENCES embedding_migrations(migration_id) ON DELETE CASCADE,
+    chunk_id VARCHAR(255) NOT NULL REFERENCES document_chunks(chunk_id) ON DELETE CASCADE,
+    embedding vector NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (migration_id, chunk_id)
+);
+
+-- HNSW indexes need a fixed dimension, so the column becomes dimension-free and every
+-- dimension in use gets a partial expression index (activation creates new ones)
+DROP INDEX IF EXISTS idx_document_chunks_embedding;
+ALTER TABLE document_chunks ALTER COLUMN embedding TYPE vector;
+
+CREATE INDEX IF NOT EXISTS idx_document_chunks_embedding_768
+ON document_chunks USING hnsw ((embedding::vector(768)) vector_cosine_ops)
+WHERE vector_dims(embedding) = 768;
+
+CREATE INDEX IF NOT EXISTS idx_document_chunks_embedding_model ON document_chunks(user_id, embedding_model);
+
+-- vector_search takes any dimension and an embedding model filter; the signature changes, so drop first
+DROP FUNCTION IF EXISTS vector_search(vector, text, float, int, jsonb);
+
+CREATE FUNCTION vector_search(
+  query_embedding vector,
+  user_id_param text,
+  similarity_threshold float DEFAULT 0.7,
+  match_count int DEFAULT 10,
+  revision_pins jsonb DEFAULT NULL,
+  embedding_model_param text DEFAULT NULL
+)
+RETURNS TABLE (
+  chunk_id text,
+  document_id text,
+  chunk_text text,
+  page_number int,
+  section_title text,
+  filename text,
+  is_ocr boolean,
+  ocr_confidence real,
+  revision int,
+  similarity_score float
+)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  dims int := vector_dims(query_embedding);
+BEGIN
+  -- The dimension is inlined so the planner can match that dimension's partial index
+  RETURN QUERY EXECUTE format($query$
+    SELECT
+      dc.chunk_id::text,
+      dc.document_id::text,
+      dc.chunk_text::text,
+      dc.page_number::int,
+      dc.section_title::text,
+      ud.filename::text,
+      dc.is_ocr::boolean,
+      dc.ocr_confidence::real,
+      dc.revision::int,
+      (1 - (dc.embedding::vector(%1$s) <=> $1::vector(%1$s)))::float AS similarity_score
+    FROM document_chunks dc
+    INNER JOIN user_documents ud ON dc.document_id = ud.document_id
+    WHERE
+      dc.user_id = $2
+      AND dc.embedding IS NOT NULL
+      AND vector_dims(dc.embedding) = %1$s
+      AND ($6::text IS NULL OR dc.embedding_model = $6)
+      AND dc.revision = COALESCE(($5 ->> dc.document_id)::int, ud.current_revision)
+      AND (1 - (dc.embedding::vector(%1$s) <=> $1::vector(%1$s))) >= $3
+    ORDER BY dc.embedding::vector(%1$s) <=> $1::vector(%1$s)
+    LIMIT $4
+  $query$, dims)
+  USING query_embedding, user_id_param, similarity_threshold, match_count, revision_pins, embedding_model_param;
+END;
+$$;
+
+-- Switch a finished migration's scope to the target model in one transaction
+-- Raises MISSING_EMBEDDINGS if chunks were added after the walk; the caller stages them and retries
+CREATE OR REPLACE FUNCTION activate_embedding_migration(migration_id_param text)
+RETURNS int
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  m embedding_migrations%ROWTYPE;
+  missing int;
+  switched int;
+BEGIN
+  SELECT * INTO m FROM embedding_migrations WHERE migration_id = migration_id_param FOR UPDATE;
+  IF NOT FOUND OR m.status <> 'running' THEN
+    RAISE EXCEPTION 'Embedding migration % is not running', migration_id_param;
+  END IF;
+
+  -- Hold off chunk writes so nothing lands between the completeness check and the switch
+  LOCK TABLE document_chunks IN SHARE ROW EXCLUSIVE MODE;
+
+  SELECT count(*) INTO missing
+  FROM document_chunks dc
+  WHERE (m.user_id IS NULL OR dc.user_id = m.user_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM chunk_embeddings ce
+      WHERE ce.migration_id = m.migration_id AND ce.chunk_id = dc.chunk_id
+    );
+
+  IF missing > 0 THEN
+    RAISE EXCEPTION 'MISSING_EMBEDDINGS: % chunks have no staged embedding', missing;
+  END IF;
+
+  -- pgvector can't build HNSW indexes above 2000 dimensions; those searches scan instead
+  IF m.target_dimensions <= 2000 THEN
+    EXECUTE format(
+      'CREATE INDEX IF NOT EXISTS %I ON document_chunks USING hnsw ((embedding::vector(%s)) vector_cosine_ops) WHERE vector_dims(embedding) = %s',
+      'idx_document_chunks_embedding_' || m.target_dimensions, m.target_dimensions, m.target_dimensions
+    );
+  END IF;
+
+  UPDATE document_chunks dc
+  SET embedding = ce.embedding, embedding_model = m.target_model
+  FROM chunk_embeddings ce
+  WHERE ce.migration_id = m.migration_id AND ce.chunk_id = dc.chunk_id;
+  GET DIAGNOSTICS switched = ROW_COUNT;
+
+  UPDATE user_documents
+  SET embedding_model = m.target_model
+  WHERE m.user_id IS NULL OR user_id = m.user_id;
+
+  -- A system-wide migration replaces every per-user assignment
+  IF m.user_id IS NULL THEN
+    DELETE FROM embedding_model_assignments;
+  END IF;
+
+  INSERT INTO embedding_model_assignments (scope, provider, model, dimensions, activated_at)
+  VALUES (COALESCE(m.user_id, '*'), m.target_provider, m.target_model, m.target_dimensions, NOW())
+  ON CONFLICT (scope) DO UPDATE SET
+    provider = EXCLUDED.provider,
+    model = EXCLUDED.model,
+    dimensions = EXCLUDED.dimensions,
+    activated_at = EXCLUDED.activated_at;
+
+  DELETE FROM chunk_embeddings WHERE migration_id = m.migration_id;
+
+  UPDATE embedding_migrations
+  SET status = 'completed',
+      processed_chunks = switched,
+      total_chunks = switched,
+      locked_by = NULL,
+      completed_at = NOW(),
+      updated_at = NOW()
+  WHERE migration_id = m.migration_id;
+
+  RETURN switched;
+END;
+$$;
+
+-- Claim the next runnable migration, reclaiming running ones whose worker stopped heartbeating
+CREATE OR REPLACE FUNCTION claim_embedding_migration(
+  worker_id_param text,
+  lock_timeout_seconds int DEFAULT 600
+)
+RETURNS SETOF embedding_migrations
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE embedding_migrations m
+  SET
+    status = 'running',
+    locked_by = worker_id_param,
+    heartbeat_at = NOW(),
+    started_at = COALESCE(m.started_at, NOW()),
+    updated_at = NOW()
+  WHERE m.migration_id = (
+    SELECT candidate.migration_id
+    FROM embedding_migrations candidate
+    WHERE candidate.status = 'queued'
+       OR (candidate.status = 'running'
+           AND candidate.heartbeat_at < NOW() - make_interval(secs => lock_timeout_seconds))
+    ORDER BY candidate.created_at
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING m.*;
+END;
+$$;
+
+-- Grant permissions
+GRANT EXECUTE ON FUNCTION vector_search TO anon;
+GRANT EXECUTE ON FUNCTION vector_search TO authenticated;
+GRANT EXECUTE ON FUNCTION activate_embedding_migration TO anon;
+GRANT EXECUTE ON FUNCTION activate_embedding_migration TO authenticated;
+GRANT EXECUTE ON FUNCTION claim_embedding_migration TO anon;
+GRANT EXECUTE ON FUNCTION claim_embedding_migration TO authenticated;
@@ -0,0 +1,25 @@
+-- Authentication: local accounts and API keys
+-- user_id is the same identifier every other table stores in user_id; requests no longer pass it
+-- as a trusted parameter, it is taken from the verified session token, API key or OIDC token.
+
+CREATE TABLE IF NOT EXISTS auth_users (
+    user_id VARCHAR(255) PRIMARY KEY,
+    password_hash TEXT,                            -- scrypt$N$r$p$salt$hash; NULL for OIDC-only users
+    role VARCHAR(20) NOT NULL DEFAULT 'user',      -- user | admin
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    last_login_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Only a sha256 of each key is stored; the key itself is shown once when it is created
+CREATE TABLE IF NOT EXISTS api_keys (
+    key_id VARCHAR(255) PRIMARY KEY,
+    user_id VARCHAR(255) NOT NULL REFERENCES auth_users(user_id) ON DELETE CASCADE,
+    name VARCHAR(100) NOT NULL,
+    key_prefix VARCHAR(20) NOT NULL,               -- shown in listings so keys can be told apart
+    key_hash VARCHAR(64) NOT NULL UNIQUE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    last_used_at TIMESTAMP WITH TIME ZONE,
+    revoked_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_user_id ON api_keys(user_id);
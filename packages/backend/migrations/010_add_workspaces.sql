@@ -0,0 +1,174 @@
+-- Shared workspaces
+-- A workspace is a collection of documents shared between members. Documents stay owned by
+-- the user who uploaded them (chunks keep that user_id) and are attached to workspaces, so a
+-- document shared with ten people is stored and embedded once. Read access is resolved inside
+-- vector_search / keyword_search through readable_document_ids, never by filtering afterwards.
+-- Shared chunks only match queries embedded with the same model as the owner's chunks.
+
+CREATE TABLE IF NOT EXISTS workspaces (
+    workspace_id VARCHAR(255) PRIMARY KEY,
+    name VARCHAR(200) NOT NULL,
+    description TEXT,
+    created_by VARCHAR(255) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- owner: manage members and the workspace; editor: attach/detach documents; viewer: read and search
+CREATE TABLE IF NOT EXISTS workspace_members (
+    workspace_id VARCHAR(255) NOT NULL REFERENCES workspaces(workspace_id) ON DELETE CASCADE,
+    user_id VARCHAR(255) NOT NULL,
+    role VARCHAR(20) NOT NULL CHECK (role IN ('owner', 'editor', 'viewer')),
+    added_by VARCHAR(255),
+    added_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (workspace_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_workspace_members_user_id ON workspace_members(user_id);
+
+CREATE TABLE IF NOT EXISTS workspace_documents (
+    workspace_id VARCHAR(255) NOT NULL REFERENCES workspaces(workspace_id) ON DELETE CASCADE,
+    document_id VARCHAR(255) NOT NULL REFERENCES user_documents(document_id) ON DELETE CASCADE,
+    added_by VARCHAR(255) NOT NULL,
+    added_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (workspace_id, document_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_workspace_documents_document_id ON workspace_documents(document_id);
+
+-- Documents a user may read: their own plus those in workspaces they belong to
+-- With workspace_ids_param set, only documents in those workspaces (and only if the user is a member)
+CREATE OR REPLACE FUNCTION readable_document_ids(
+  user_id_param text,
+  workspace_ids_param text[] DEFAULT NULL
+)
+RETURNS TABLE (document_id text)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT ud.document_id::text
+  FROM user_documents ud
+  WHERE workspace_ids_param IS NULL
+    AND ud.user_id = user_id_param
+  UNION
+  SELECT wd.document_id::text
+  FROM workspace_documents wd
+  INNER JOIN workspace_members wm ON wm.workspace_id = wd.workspace_id
+  WHERE wm.user_id = user_id_param
+    AND (workspace_ids_param IS NULL OR wd.workspace_id = ANY(workspace_ids_param));
+$$;
+
+-- Search functions take the document and workspace scope; the signatures change, so drop first
+DROP FUNCTION IF EXISTS vector_search(vector, text, float, int, jsonb, text);
+
+CREATE FUNCTION vector_search(
+  query_embedding vector,
+  user_id_param text,
+  similarity_threshold float DEFAULT 0.7,
+  match_count int DEFAULT 10,
+  revision_pins jsonb DEFAULT NULL,
+  embedding_model_param text DEFAULT NULL,
+  document_ids_param text[] DEFAULT NULL,
+  workspace_ids_param text[] DEFAULT NULL
+)
+RETURNS TABLE (
+  chunk_id text,
+  document_id text,
+  chunk_text text,
+  page_number int,
+  section_title text,
+  filename text,
+  is_ocr boolean,
+  ocr_confidence real,
+  revision int,
+  similarity_score float
+)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  dims int := vector_dims(query_embedding);
+BEGIN
+  -- The dimension is inlined so the planner can match that dimension's partial index
+  RETURN QUERY EXECUTE format($query$
+    SELECT
+      dc.chunk_id::text,
+      dc.document_id::text,
+      dc.chunk_text::text,
+      dc.page_number::int,
+      dc.section_title::text,
+      ud.filename::text,
+      dc.is_ocr::boolean,
+      dc.ocr_confidence::real,
+      dc.revision::int,
+      (1 - (dc.embedding::vector(%1$s) <=> $1::vector(%1$s)))::float AS similarity_score
+    FROM document_chunks dc
+    INNER JOIN user_documents ud ON dc.document_id = ud.document_id
+    WHERE
+      dc.document_id IN (SELECT r.document_id FROM readable_document_ids($2, $8) r)
+      AND ($7::text[] IS NULL OR dc.document_id = ANY($7))
+      AND dc.embedding IS NOT NULL
+      AND vector_dims(dc.embedding) = %1$s
+      AND ($6::text IS NULL OR dc.embedding_model = $6)
+      AND dc.revision = COALESCE(($5 ->> dc.document_id)::int, ud.current_revision)
+      AND (1 - (dc.embedding::vector(%1$s) <=> $1::vector(%1$s))) >= $3
+    ORDER BY dc.embedding::vector(%1$s) <=> $1::vector(%1$s)
+    LIMIT $4
+  $query$, dims)
+  USING query_embedding, user_id_param, similarity_threshold, match_count, revision_pins,
+        embedding_model_param, document_ids_param, workspace_ids_param;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS keyword_search(text, text, int, text[], jsonb);
+
+CREATE FUNCTION keyword_search(
+  query_text text,
+  user_id_param text,
+  match_count int DEFAULT 10,
+  document_ids_param text[] DEFAULT NULL,
+  revision_pins jsonb DEFAULT NULL,
+  workspace_ids_param text[] DEFAULT NULL
+)
+RETURNS TABLE (
+  chunk_id text,
+  document_id text,
+  chunk_text text,
+  page_number int,
+  section_title text,
+  filename text,
+  is_ocr boolean,
+  ocr_confidence real,
+  revision int,
+  keyword_score float
+)
+LANGUAGE sql
+AS $$
+  SELECT
+    dc.chunk_id,
+    dc.document_id,
+    dc.chunk_text,
+    dc.page_number,
+    dc.section_title,
+    ud.filename,
+    dc.is_ocr,
+    dc.ocr_confidence,
+    dc.revision,
+    ts_rank_cd(dc.chunk_tsv, websearch_to_tsquery('english', query_text), 1 | 32)::float as keyword_score
+  FROM document_chunks dc
+  INNER JOIN user_documents ud ON dc.document_id = ud.document_id
+  WHERE
+    dc.document_id IN (SELECT r.document_id FROM readable_document_ids(user_id_param, workspace_ids_param) r)
+    AND dc.chunk_tsv @@ websearch_to_tsquery('english', query_text)
+    AND dc.revision = COALESCE((revision_pins ->> dc.document_id)::int, ud.current_revision)
+    AND (document_ids_param IS NULL OR dc.document_id = ANY(document_ids_param))
+  ORDER BY keyword_score DESC
+  LIMIT match_count;
+$$;
+
+-- Grant permissions
+GRANT EXECUTE ON FUNCTION readable_document_ids TO anon;
+GRANT EXECUTE ON FUNCTION readable_document_ids TO authenticated;
+GRANT EXECUTE ON FUNCTION vector_search TO anon;
+GRANT EXECUTE ON FUNCTION vector_search TO authenticated;
+GRANT EXECUTE ON FUNCTION keyword_search TO anon;
+GRANT EXECUTE ON FUNCTION keyword_search TO authenticated;
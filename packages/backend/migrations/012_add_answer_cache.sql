@@ -0,0 +1,117 @@
+-- Semantic answer cache
+-- Answers are stored with their question embedding in user_queries; a new question whose
+-- embedding is close enough to an earlier one (same user, same request scope, same embedding
+-- model) gets the stored answer instead of a new LLM call. Entries are invalidated by triggers
+-- when a document they cite is deleted or re-indexed, whichever code path does it.
+
+-- user_queries was created with two layouts (src/migrations and migrations/001);
+-- make sure either has the columns RAGService writes
+ALTER TABLE user_queries ADD COLUMN IF NOT EXISTS sources JSONB NOT NULL DEFAULT '[]';
+ALTER TABLE user_queries ADD COLUMN IF NOT EXISTS processing_time_ms INTEGER;
+ALTER TABLE user_queries ADD COLUMN IF NOT EXISTS query_embedding vector;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'user_queries' AND column_name = 'query_id') THEN
+    ALTER TABLE user_queries ALTER COLUMN query_id SET DEFAULT gen_random_uuid()::text;
+  END IF;
+  IF EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'user_queries' AND column_name = 'response_time_ms') THEN
+    ALTER TABLE user_queries ALTER COLUMN response_time_ms SET DEFAULT 0;
+  END IF;
+END $$;
+
+-- Any dimension, like document_chunks.embedding
+ALTER TABLE user_queries ALTER COLUMN query_embedding TYPE vector;
+
+ALTER TABLE user_queries ADD COLUMN IF NOT EXISTS embedding_model VARCHAR(100);
+ALTER TABLE user_queries ADD COLUMN IF NOT EXISTS cache_scope VARCHAR(64); -- Hash of the request options that shape the answer
+ALTER TABLE user_queries ADD COLUMN IF NOT EXISTS cached_response JSONB; -- NULL: not cacheable or invalidated
+ALTER TABLE user_queries ADD COLUMN IF NOT EXISTS cited_document_ids TEXT[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_user_queries_answer_cache
+ON user_queries(user_id, cache_scope, created_at DESC)
+WHERE cached_response IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_user_queries_cited_documents
+ON user_queries USING gin (cited_document_ids)
+WHERE cached_response IS NOT NULL;
+
+-- Closest cached answer for a question. A user has few cached answers per scope, so this
+-- scans them instead of keeping a vector index; the CASE keeps rows of another dimension
+-- from ever reaching the distance operator ($1 because user_queries has a query_embedding column too).
+CREATE OR REPLACE FUNCTION match_cached_answer(
+  query_embedding vector,
+  user_id_param text,
+  cache_scope_param text,
+  embedding_model_param text,
+  similarity_threshold float DEFAULT 0.95,
+  max_age_hours int DEFAULT 24
+)
+RETURNS TABLE (
+  query_text text,
+  cached_response jsonb,
+  cited_document_ids text[],
+  similarity float,
+  created_at timestamptz
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT * FROM (
+    SELECT
+      uq.query_text::text,
+      uq.cached_response,
+      uq.cited_document_ids,
+      CASE
+        WHEN vector_dims(uq.query_embedding) = vector_dims($1)
+        THEN (1 - (uq.query_embedding <=> $1))::float
+      END AS similarity,
+      uq.created_at::timestamptz
+    FROM user_queries uq
+    WHERE
+      uq.user_id = user_id_param
+      AND uq.cache_scope = cache_scope_param
+      AND uq.embedding_model = embedding_model_param
+      AND uq.cached_response IS NOT NULL
+      AND uq.query_embedding IS NOT NULL
+      AND uq.created_at >= NOW() - make_interval(hours => max_age_hours)
+  ) candidates
+  WHERE candidates.similarity >= similarity_threshold
+  ORDER BY candidates.similarity DESC
+  LIMIT 1;
+$$;
+
+-- Drop cached answers that cite a document whose content changed or went away
+CREATE OR REPLACE FUNCTION invalidate_cached_answers()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE user_queries
+  SET cached_response = NULL
+  WHERE cached_response IS NOT NULL
+    AND cited_document_ids @> ARRAY[OLD.document_id::text];
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS invalidate_cached_answers_on_delete ON user_documents;
+CREATE TRIGGER invalidate_cached_answers_on_delete
+AFTER DELETE ON user_documents
+FOR EACH ROW EXECUTE FUNCTION invalidate_cached_answers();
+
+-- Re-indexing clears processing_completed_at when it starts and sets it when it finishes;
+-- a new revision or embedding model also changes what search returns
+DROP TRIGGER IF EXISTS invalidate_cached_answers_on_reindex ON user_documents;
+CREATE TRIGGER invalidate_cached_answers_on_reindex
+AFTER UPDATE OF processing_completed_at, current_revision, embedding_model ON user_documents
+FOR EACH ROW
+WHEN (
+  OLD.processing_completed_at IS DISTINCT FROM NEW.processing_completed_at
+  OR OLD.current_revision IS DISTINCT FROM NEW.current_revision
+  OR OLD.embedding_model IS DISTINCT FROM NEW.embedding_model
+)
+EXECUTE FUNCTION invalidate_cached_answers();
+
+GRANT EXECUTE ON FUNCTION match_cached_answer TO anon;
+GRANT EXECUTE ON FUNCTION match_cached_answer TO authenticated;
@@ -0,0 +1,5 @@
+-- Flag chunks that hold a table extracted from PDF layout (or a Markdown table)
+-- Tables are kept whole, or split by rows under a repeated header, so these chunks read differently from prose
+
+ALTER TABLE document_chunks
+ADD COLUMN IF NOT EXISTS contains_table BOOLEAN NOT NULL DEFAULT FALSE;
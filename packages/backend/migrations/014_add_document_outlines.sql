@@ -0,0 +1,15 @@
+-- Document outlines: the section tree read from PDF bookmarks or table-of-contents pages
+-- One tree per revision, since a revised file can reorganize its sections. Chunks record the
+-- sections enclosing them, outermost first, as [{ number, title, level }].
+
+CREATE TABLE IF NOT EXISTS document_outlines (
+    document_id VARCHAR(255) NOT NULL REFERENCES user_documents(document_id) ON DELETE CASCADE,
+    revision INTEGER NOT NULL,
+    source VARCHAR(20) NOT NULL DEFAULT 'none', -- bookmarks | toc | none
+    sections JSONB NOT NULL DEFAULT '[]',        -- [{ id, number, title, level, pageStart, pageEnd, children }]
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (document_id, revision)
+);
+
+ALTER TABLE document_chunks
+ADD COLUMN IF NOT EXISTS section_hierarchy JSONB;
@@ -0,0 +1,22 @@
+-- Parent-child (small-to-big) retrieval
+-- With CHUNK_PARENT_CHILD=true, small child chunks are embedded and searched while their parent -
+-- the section (or run of a section) they were split from - is what the LLM is given as context.
+-- Parents are not embedded; children point to theirs by parent_index within the same revision.
+
+CREATE TABLE IF NOT EXISTS document_chunk_parents (
+    document_id VARCHAR(255) NOT NULL REFERENCES user_documents(document_id) ON DELETE CASCADE,
+    revision INTEGER NOT NULL DEFAULT 1,
+    parent_index INTEGER NOT NULL,
+    user_id VARCHAR(255) NOT NULL,
+    parent_text TEXT NOT NULL,
+    token_count INTEGER NOT NULL,
+    page_start INTEGER NOT NULL,
+    page_end INTEGER NOT NULL,
+    section_title TEXT,
+    section_hierarchy JSONB,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (document_id, revision, parent_index)
+);
+
+ALTER TABLE document_chunks
+ADD COLUMN IF NOT EXISTS parent_index INTEGER;
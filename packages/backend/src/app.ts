@@ -20,10 +20,19 @@ import listEndpoints from 'express-list-endpoints';
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 import { errorHandler, notFoundHandler, successResponse } from './middleware/errorHandler';
+import { authenticate, authorizeUser, requireAdmin } from './middleware/auth';
+import { resolveDocumentFormat } from './services/document/FormatExtractors';
+import { JobQueueService } from './services/jobs/JobQueueService';
+import { EmbeddingMigrationService } from './services/embedding/EmbeddingMigrationService';
 
 // Import route modules statically like Arya-Chatbot
+import authRouter from './routes/auth';
 import documentsRouter from './routes/documents';
 import queriesRouter from './routes/queries';
+import conversationsRouter from './routes/conversations';
+import workspacesRouter from './routes/workspaces';
+import jobsRouter from './routes/jobs';
+import embeddingsRouter from './routes/embeddings';
 import usersRouter from './routes/users';
 import systemRouter from './routes/system';
 
@@ -59,6 +68,7 @@ export function createApp(): Application {
       'Content-Type', 
       'Accept',
       'Authorization',
+      'X-API-Key',
       'X-Request-ID'
     ]
   };
@@ -74,6 +84,9 @@ export function createApp(): Application {
     ? 'combined' 
     : 'dev';
   
+  // Stream tokens travel as ?access_token=; keep them out of the logs
+  morgan.token('url', (req: Request) => (req.originalUrl || req.url).replace(/([?&]access_token=)[^&]*/g, '$1[redacted]'));
+
   app.use(morgan(logFormat, {
     skip: (req: Request) => {
       // Skip logging for health checks and static files
@@ -100,11 +113,11 @@ export function createApp(): Application {
       files: 1 // Only allow single file upload
     },
     fileFilter: (req, file, cb) => {
-      // Only allow PDF files
-      if (file.mimetype === 'application/pdf') {
+      // Only allow formats the document processor can extract
+      if (resolveDocumentFormat(file.mimetype, file.originalname)) {
         cb(null, true);
       } else {
-        cb(new Error('Only PDF files are allowed'));
+        cb(new Error('Only PDF, DOCX, HTML, Markdown and text files are allowed'));
       }
     }
   });
@@ -131,10 +144,14 @@ export function createApp(): Application {
       description: 'Retrieval-Augmented Generation API for large document collections',
       endpoints: {
         health: '/health',
+        auth: '/api/auth',
         documents: '/api/documents',
         queries: '/api/queries',
+        workspaces: '/api/workspaces',
         users: '/api/users',
-        system: '/api/system'
+        system: '/api/system',
+        jobs: '/api/admin/jobs',
+        embeddings: '/api/admin/embeddings'
       },
       documentation: '/api/docs' // TODO: Add Swagger/OpenAPI docs
     }, 'Welcome to ARYA RAG API'));
@@ -145,18 +162,39 @@ export function createApp(): Application {
   
   // Mount route modules directly like Arya-Chatbot
   console.log('🔗 Mounting API routes...');
+
+  // Everything below needs credentials except sign-in, the API index and health checks
+  apiRouter.use(authenticate({
+    publicPaths: ['/', '/auth/config', '/auth/login', '/auth/register', '/system/health']
+  }));
+
+  apiRouter.use('/auth', authRouter);
+  console.log('✅ Mounted Auth routes on /auth');
   
-  apiRouter.use('/documents', documentsRouter);
+  // authorizeUser scopes userId to the caller; upload routes repeat it after multer parses the body
+  apiRouter.use('/documents', authorizeUser, documentsRouter);
   console.log('✅ Mounted Document routes on /documents');
   
-  apiRouter.use('/queries', queriesRouter);
+  apiRouter.use('/queries', authorizeUser, queriesRouter);
   console.log('✅ Mounted Query routes on /queries');
   
+  apiRouter.use('/conversations', authorizeUser, conversationsRouter);
+  console.log('✅ Mounted Conversation routes on /conversations');
+
+  apiRouter.use('/workspaces', authorizeUser, workspacesRouter);
+  console.log('✅ Mounted Workspace routes on /workspaces');
+  
   apiRouter.use('/users', usersRouter);  
   console.log('✅ Mounted User routes on /users');
   
   apiRouter.use('/system', systemRouter);
   console.log('✅ Mounted System routes on /system');
+  
+  apiRouter.use('/admin/jobs', requireAdmin, jobsRouter);
+  console.log('✅ Mounted Job admin routes on /admin/jobs');
+
+  apiRouter.use('/admin/embeddings', requireAdmin, embeddingsRouter);
+  console.log('✅ Mounted Embedding admin routes on /admin/embeddings');
 
   // API documentation endpoint - automatically lists all available endpoints
   apiRouter.get('/', (req: Request, res: Response) => {
@@ -169,10 +207,15 @@ export function createApp(): Application {
     
     // Group endpoints by category
     const groupedEndpoints = {
+      auth: apiEndpoints.filter(e => e.path.includes('/auth')),
       documents: apiEndpoints.filter(e => e.path.includes('/documents')),
       queries: apiEndpoints.filter(e => e.path.includes('/queries')),
+      conversations: apiEndpoints.filter(e => e.path.includes('/conversations')),
+      workspaces: apiEndpoints.filter(e => e.path.includes('/workspaces')),
       users: apiEndpoints.filter(e => e.path.includes('/users')),
-      system: apiEndpoints.filter(e => e.path.includes('/system'))
+      system: apiEndpoints.filter(e => e.path.includes('/system')),
+      jobs: apiEndpoints.filter(e => e.path.includes('/admin/jobs')),
+      embeddings: apiEndpoints.filter(e => e.path.includes('/admin/embeddings'))
     };
 
     res.json(successResponse({
@@ -186,15 +229,20 @@ export function createApp(): Application {
         all: apiEndpoints
       },
       usage: {
-        authentication: 'None (development mode)', 
+        authentication: process.env.AUTH_ENABLED === 'false'
+          ? 'None (AUTH_ENABLED=false)'
+          : 'Authorization: Bearer <session or OIDC token>, or X-API-Key: <key>',
         contentType: 'application/json',
         rateLimit: process.env.NODE_ENV === 'production' ? '100 requests per 15 minutes' : 'Unlimited (development)',
         documentation: `${req.protocol}://${req.get('host')}/api`
       },
       examples: {
+        login: `POST ${req.protocol}://${req.get('host')}/api/auth/login`,
         listDocuments: `GET ${req.protocol}://${req.get('host')}/api/documents?userId=your-user-id`,
         uploadDocument: `POST ${req.protocol}://${req.get('host')}/api/documents/upload`,
-        processQuery: `POST ${req.protocol}://${req.get('host')}/api/queries/process`
+        ingestionProgress: `GET ${req.protocol}://${req.get('host')}/api/documents/events?userId=your-user-id`,
+        processQuery: `POST ${req.protocol}://${req.get('host')}/api/queries/process`,
+        streamQuery: `POST ${req.protocol}://${req.get('host')}/api/queries/stream`
       }
     }, 'ARYA RAG API - Auto-generated endpoint documentation'));
   });
@@ -241,6 +289,7 @@ export function createApp(): Application {
     app.use('/api', apiLimiter);
     app.use('/api/documents/upload', strictLimiter);
     app.use('/api/queries/process', strictLimiter);
+    app.use('/api/queries/stream', strictLimiter);
   }
 
   // Development middleware
@@ -316,10 +365,15 @@ export class AppConfig {
         const gracefulShutdown = (signal: string) => {
           console.log(`\n📡 Received ${signal}, starting graceful shutdown...`);
           
-          server.close(() => {
-            console.log('✅ HTTP server closed');
-            process.exit(0);
-          });
+          // Hand running ingestion jobs and embedding migrations back so the next start resumes them
+          Promise.all([JobQueueService.getInstance().stop(), EmbeddingMigrationService.getInstance().stop()])
+            .catch(error => console.warn('⚠️  Failed to stop job worker:', error instanceof Error ? error.message : error))
+            .finally(() => {
+              server.close(() => {
+                console.log('✅ HTTP server closed');
+                process.exit(0);
+              });
+            });
 
           // Force close after 10 seconds
           setTimeout(() => {
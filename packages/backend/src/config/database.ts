@@ -35,6 +35,10 @@ export interface Database {
           embedding_model: string;
           error_message?: string;
           tags: string[];
+          ocr_page_count?: number;
+          empty_page_count?: number;
+          current_revision?: number;
+          latest_revision?: number;
           created_at: string;
           updated_at: string;
         };
@@ -53,7 +57,14 @@ export interface Database {
           page_position_start: number;
           page_position_end: number;
           section_title?: string;
-          embedding: number[];
+          is_ocr?: boolean;
+          ocr_confidence?: number | null;
+          contains_table?: boolean;
+          section_hierarchy?: Array<{ number?: string; title: string; level: number }> | null;
+          parent_index?: number | null;
+          revision?: number;
+          content_hash?: string;
+          embedding: number[] | null; // Null when vectors live in a separate vector store
           embedding_model: string;
           created_at: string;
         };
@@ -70,6 +81,10 @@ export interface Database {
           sources: any[];
           confidence_score: number;
           processing_time_ms: number;
+          embedding_model?: string;
+          cache_scope?: string;
+          cached_response?: any | null; // Stored RAGResponse while the answer can be reused
+          cited_document_ids?: string[];
           created_at: string;
         };
         Insert: Omit<Database['public']['Tables']['user_queries']['Row'], 'id' | 'created_at'>;
@@ -196,15 +196,16 @@ RESPONSE FORMAT:
 - Provide exact citations with source, page, and section information
 
 CITATION REQUIREMENTS:
-- CRITICAL: Include inline citations directly in your answer text using format: (Document Name, Page X)
+- CRITICAL: Include inline citations directly in your answer text using the numbered excerpt they come from: [1], [2][3]
 - Also provide structured citations in the "citations" array: {"source": "document_name", "page": 123, "section": "1.2.3"}
 - Every factual claim in your answer MUST be followed by an inline citation
+- Only cite excerpt numbers that appear in the context
 - Only cite sections that directly support your answer
 - If information spans multiple sections, include all relevant citations
 - Mark confidence lower if answer requires inference across multiple sections
 
 EXAMPLE ANSWER FORMAT:
-"The ship's emergency procedures require immediate activation of alarm systems (Emergency Manual, Page 15). All personnel must report to designated stations within 5 minutes of the alarm (Emergency Manual, Page 16)."
+"The ship's emergency procedures require immediate activation of alarm systems [1]. All personnel must report to designated stations within 5 minutes of the alarm [2]."
 
 If the provided context doesn't contain sufficient information to answer the question, respond with a low confidence score and explain what additional information would be needed.`,
 
@@ -223,7 +224,7 @@ STEP FORMATTING:
 - Preserve original numbering (e.g., "1.1.1", "1.1.2")
 - Include any conditional statements or decision points
 - Maintain safety warnings and critical notes exactly as written
-- CRITICAL: Include inline citations in each step using format: (Document Name, Page X)
+- CRITICAL: Include inline citations in each step using the numbered excerpt they come from: [1]
 
 PROCEDURAL ANALYSIS:
 - Identify prerequisites and preparation steps
@@ -232,14 +233,14 @@ PROCEDURAL ANALYSIS:
 - Flag incomplete procedures or missing steps
 
 CITATION REQUIREMENTS:
-- Include inline citations in your answer text using format: (Document Name, Page X)
+- Include inline citations in your answer text using the numbered excerpt they come from: [1]
 - Each step should reference its source with inline citations
 - Also provide structured citations in the "citations" array
 - Ensure every procedural claim is properly cited
 
 EXAMPLE STEP FORMAT:
-"1. Activate the emergency alarm system immediately upon detection of fire (Fire Safety Manual, Page 23)"
-"2. All personnel must evacuate to designated muster stations within 5 minutes (Emergency Procedures, Page 12)"
+"1. Activate the emergency alarm system immediately upon detection of fire [1]"
+"2. All personnel must evacuate to designated muster stations within 5 minutes [2]"
 
 Return structured JSON with complete step lists and accurate section citations for each procedural element.`,
 
@@ -265,13 +266,13 @@ QUALITY ASSURANCE:
 - Flag missing dependencies or incomplete information
 
 CITATION REQUIREMENTS:
-- CRITICAL: Include inline citations in your analysis using format: (Document Name, Page X)
+- CRITICAL: Include inline citations in your analysis using the numbered excerpt they come from: [1], [2][3]
 - Every analytical claim must be supported with source citations
 - Reference specific sections and page numbers for all findings
 - Also provide structured citations in the "citations" array
 
 EXAMPLE ANALYSIS FORMAT:
-"The document structure follows a hierarchical pattern with main sections covering safety protocols (Safety Manual, Page 5) and operational procedures (Operations Guide, Page 12). Cross-references between sections indicate dependencies that must be followed sequentially (Safety Manual, Page 8)."
+"The document structure follows a hierarchical pattern with main sections covering safety protocols [1] and operational procedures [2]. Cross-references between sections indicate dependencies that must be followed sequentially [3]."
 
 Provide comprehensive, structured analysis while maintaining document integrity and military formatting standards.`
 } as const;
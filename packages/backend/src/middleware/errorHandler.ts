@@ -8,6 +8,8 @@
  */
 
 import { Request, Response, NextFunction } from 'express';
+import { SUPPORTED_DOCUMENT_FORMATS, resolveDocumentFormat } from '../services/document/FormatExtractors';
+import { MAX_USER_ID_LENGTH, USER_ID_FORMAT_MESSAGE, USER_ID_PATTERN } from '../utils/userId';
 
 /**
  * Standard API error response format
@@ -68,6 +70,12 @@ export class UnauthorizedError extends APIException {
   }
 }
 
+export class ForbiddenError extends APIException {
+  constructor(message: string = 'Access denied') {
+    super(message, 403, 'FORBIDDEN');
+  }
+}
+
 export class ConflictError extends APIException {
   constructor(message: string, details?: any) {
     super(message, 409, 'CONFLICT', details);
@@ -217,15 +225,15 @@ export function validateRequired(fields: Record<string, any>, requiredFields: st
  */
 export function validateFileUpload(file: Express.Multer.File): void {
   const maxSizeBytes = parseInt(process.env.MAX_FILE_SIZE_MB || '100') * 1024 * 1024;
-  const allowedTypes = ['application/pdf'];
+  const allowedTypes = SUPPORTED_DOCUMENT_FORMATS.flatMap(info => info.mimeTypes);
 
   if (!file) {
     throw new ValidationError('No file uploaded');
   }
 
-  if (!allowedTypes.includes(file.mimetype)) {
+  if (!resolveDocumentFormat(file.mimetype, file.originalname)) {
     throw new ValidationError(
-      'Invalid file type. Only PDF files are allowed.',
+      'Invalid file type. Only PDF, DOCX, HTML, Markdown and text files are allowed.',
       { allowedTypes, receivedType: file.mimetype }
     );
   }
@@ -247,14 +255,12 @@ export function validateUserId(userId: string): void {
   }
 
   // Basic alphanumeric + hyphens validation
-  if (!/^[a-zA-Z0-9-_]+$/.test(userId)) {
-    throw new ValidationError(
-      'User ID can only contain letters, numbers, hyphens, and underscores'
-    );
+  if (!USER_ID_PATTERN.test(userId)) {
+    throw new ValidationError(USER_ID_FORMAT_MESSAGE);
   }
 
-  if (userId.length > 50) {
-    throw new ValidationError('User ID cannot exceed 50 characters');
+  if (userId.length > MAX_USER_ID_LENGTH) {
+    throw new ValidationError(`User ID cannot exceed ${MAX_USER_ID_LENGTH} characters`);
   }
 }
 
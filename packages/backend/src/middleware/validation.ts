@@ -10,6 +10,8 @@
 import { Request, Response, NextFunction } from 'express';
 import Joi from 'joi';
 import { ValidationError } from './errorHandler';
+import { SUPPORTED_DOCUMENT_FORMATS, resolveDocumentFormat } from '../services/document/FormatExtractors';
+import { MAX_USER_ID_LENGTH, USER_ID_FORMAT_MESSAGE, USER_ID_PATTERN } from '../utils/userId';
 
 /**
  * Validation target types
@@ -51,6 +53,20 @@ export function validate(schema: Joi.ObjectSchema, target: ValidationTarget = 'b
   };
 }
 
+/**
+ * The userId format shared by every schema below, registration included
+ */
+const userIdSchema = Joi.string()
+  .pattern(USER_ID_PATTERN)
+  .min(1)
+  .max(MAX_USER_ID_LENGTH)
+  .messages({
+    'string.pattern.base': USER_ID_FORMAT_MESSAGE,
+    'string.min': 'User ID must be at least 1 character long',
+    'string.max': `User ID cannot exceed ${MAX_USER_ID_LENGTH} characters`,
+    'any.required': 'User ID is required'
+  });
+
 /**
  * Common validation schemas
  */
@@ -59,17 +75,7 @@ export const schemas = {
    * User ID parameter validation
    */
   userId: Joi.object({
-    userId: Joi.string()
-      .alphanum()
-      .min(1)
-      .max(50)
-      .required()
-      .messages({
-        'string.alphanum': 'User ID must contain only alphanumeric characters',
-        'string.min': 'User ID must be at least 1 character long',
-        'string.max': 'User ID cannot exceed 50 characters',
-        'any.required': 'User ID is required'
-      })
+    userId: userIdSchema.required()
   }),
 
   /**
@@ -87,6 +93,27 @@ export const schemas = {
       })
   }),
 
+  /**
+   * Document page parameters validation
+   */
+  documentPage: Joi.object({
+    documentId: Joi.string()
+      .min(1)
+      .max(100)
+      .required()
+      .messages({
+        'any.required': 'Document ID is required'
+      }),
+    pageNumber: Joi.number()
+      .integer()
+      .min(1)
+      .required()
+      .messages({
+        'number.min': 'Page numbers start at 1',
+        'any.required': 'Page number is required'
+      })
+  }),
+
   /**
    * Pagination query parameters validation
    */
@@ -117,15 +144,7 @@ export const schemas = {
    * Document upload validation
    */
   documentUpload: Joi.object({
-    userId: Joi.string()
-      .alphanum()
-      .min(1)
-      .max(50)
-      .required()
-      .messages({
-        'string.alphanum': 'User ID must contain only alphanumeric characters',
-        'any.required': 'User ID is required'
-      }),
+    userId: userIdSchema.required(),
     title: Joi.string()
       .min(1)
       .max(200)
@@ -163,15 +182,7 @@ export const schemas = {
         'string.max': 'Query cannot exceed 2000 characters',
         'any.required': 'Query is required'
       }),
-    userId: Joi.string()
-      .alphanum()
-      .min(1)
-      .max(50)
-      .required()
-      .messages({
-        'string.alphanum': 'User ID must contain only alphanumeric characters',
-        'any.required': 'User ID is required'
-      }),
+    userId: userIdSchema.required(),
     documentIds: Joi.array()
       .items(Joi.string().min(1).max(100))
       .max(20)
@@ -197,6 +208,35 @@ export const schemas = {
       .messages({
         'any.only': 'Response style must be one of: concise, detailed, academic, casual'
       }),
+    searchMode: Joi.string()
+      .valid('vector', 'keyword', 'hybrid')
+      .optional()
+      .messages({
+        'any.only': 'Search mode must be one of: vector, keyword, hybrid'
+      }),
+    conversationId: Joi.string()
+      .min(1)
+      .max(100)
+      .optional()
+      .messages({
+        'string.max': 'Conversation ID cannot exceed 100 characters'
+      }),
+    revisions: Joi.object()
+      .pattern(Joi.string().min(1).max(100), Joi.number().integer().min(1))
+      .max(20)
+      .optional()
+      .messages({
+        'object.max': 'Cannot pin revisions for more than 20 documents',
+        'number.base': 'Revision must be a number',
+        'number.min': 'Revision must be at least 1'
+      }),
+    workspaceIds: Joi.array()
+      .items(Joi.string().min(1).max(100))
+      .max(20)
+      .optional()
+      .messages({
+        'array.max': 'Cannot query more than 20 workspaces at once'
+      }),
     includeExcerpts: Joi.boolean()
       .default(true)
       .optional()
@@ -206,18 +246,27 @@ export const schemas = {
   }),
 
   /**
-   * Document search/filter validation
+   * Conversation creation validation
    */
-  documentSearch: Joi.object({
-    userId: Joi.string()
+  createConversation: Joi.object({
+    userId: userIdSchema.required(),
+    title: Joi.string()
       .min(1)
-      .max(100)
-      .required()
+      .max(200)
+      .optional()
       .messages({
-        'string.min': 'User ID must be at least 1 character long',
-        'string.max': 'User ID cannot exceed 100 characters',
-        'any.required': 'userId query parameter is required'
-      }),
+        'string.min': 'Title must be at least 1 character long',
+        'string.max': 'Title cannot exceed 200 characters'
+      })
+  }),
+
+  /**
+   * Document search/filter validation
+   */
+  documentSearch: Joi.object({
+    userId: userIdSchema.required().messages({
+      'any.required': 'userId query parameter is required'
+    }),
     search: Joi.string()
       .max(200)
       .optional()
@@ -258,16 +307,16 @@ export const schemas = {
    */
   userPreferences: Joi.object({
     embeddingProvider: Joi.string()
-      .valid('ollama', 'openai')
+      .valid('ollama', 'openai', 'mock')
       .optional()
       .messages({
-        'any.only': 'Embedding provider must be either ollama or openai'
+        'any.only': 'Embedding provider must be one of ollama, openai or mock'
       }),
     llmProvider: Joi.string()
-      .valid('ollama', 'openai')
+      .valid('ollama', 'openai', 'mock')
       .optional()
       .messages({
-        'any.only': 'LLM provider must be either ollama or openai'
+        'any.only': 'LLM provider must be one of ollama, openai or mock'
       }),
     defaultResponseStyle: Joi.string()
       .valid('concise', 'detailed', 'academic', 'casual')
@@ -331,6 +380,152 @@ export const schemas = {
         'number.min': 'Chunk overlap cannot be negative',
         'number.max': 'Chunk overlap cannot exceed 500 tokens'
       })
+  }),
+
+  /**
+   * Embedding model migration validation
+   */
+  embeddingMigration: Joi.object({
+    provider: Joi.string()
+      .valid('ollama', 'openai', 'mock')
+      .required()
+      .messages({
+        'any.only': 'Embedding provider must be one of ollama, openai or mock',
+        'any.required': 'Embedding provider is required'
+      }),
+    model: Joi.string()
+      .trim()
+      .min(1)
+      .max(100)
+      .required()
+      .messages({
+        'string.empty': 'Embedding model cannot be empty',
+        'any.required': 'Embedding model is required'
+      }),
+    dimensions: Joi.number()
+      .integer()
+      .min(1)
+      .max(4096)
+      .optional()
+      .messages({
+        'number.base': 'Dimensions must be a number',
+        'number.integer': 'Dimensions must be an integer',
+        'number.max': 'Dimensions cannot exceed 4096'
+      }),
+    userId: Joi.string()
+      .trim()
+      .min(1)
+      .max(255)
+      .optional()
+      .messages({
+        'string.empty': 'User ID cannot be empty'
+      })
+  }),
+
+  /**
+   * Login / registration validation
+   */
+  credentials: Joi.object({
+    userId: userIdSchema.required(),
+    password: Joi.string()
+      .min(8)
+      .max(200)
+      .required()
+      .messages({
+        'string.min': 'Password must be at least 8 characters long',
+        'string.max': 'Password cannot exceed 200 characters',
+        'any.required': 'Password is required'
+      })
+  }),
+
+  /**
+   * Account creation by an admin
+   */
+  createAccount: Joi.object({
+    userId: userIdSchema.required(),
+    password: Joi.string()
+      .min(8)
+      .max(200)
+      .required()
+      .messages({
+        'string.min': 'Password must be at least 8 characters long',
+        'string.max': 'Password cannot exceed 200 characters',
+        'any.required': 'Password is required'
+      }),
+    role: Joi.string()
+      .valid('user', 'admin')
+      .default('user')
+      .messages({
+        'any.only': 'Role must be one of: user, admin'
+      })
+  }),
+
+  /**
+   * API key creation validation
+   */
+  createApiKey: Joi.object({
+    name: Joi.string()
+      .trim()
+      .min(1)
+      .max(100)
+      .required()
+      .messages({
+        'string.empty': 'API key name cannot be empty',
+        'string.max': 'API key name cannot exceed 100 characters',
+        'any.required': 'API key name is required'
+      })
+  }),
+
+  /**
+   * Workspace creation / update validation
+   */
+  workspace: Joi.object({
+    userId: userIdSchema.required(),
+    name: Joi.string()
+      .trim()
+      .min(1)
+      .max(200)
+      .required()
+      .messages({
+        'string.empty': 'Workspace name cannot be empty',
+        'string.max': 'Workspace name cannot exceed 200 characters',
+        'any.required': 'Workspace name is required'
+      }),
+    description: Joi.string()
+      .allow('')
+      .max(1000)
+      .optional()
+      .messages({
+        'string.max': 'Description cannot exceed 1000 characters'
+      })
+  }),
+
+  /**
+   * Workspace member validation
+   */
+  workspaceMember: Joi.object({
+    userId: userIdSchema.required(),
+    role: Joi.string()
+      .valid('owner', 'editor', 'viewer')
+      .required()
+      .messages({
+        'any.only': 'Role must be one of: owner, editor, viewer',
+        'any.required': 'Role is required'
+      })
+  }),
+
+  /**
+   * Attach a document to a workspace
+   */
+  workspaceDocument: Joi.object({
+    userId: userIdSchema.required(),
+    documentId: Joi.string()
+      .min(1)
+      .max(100)
+      .required()
+      .messages({
+        'any.required': 'Document ID is required'
+      })
   })
 };
 
@@ -348,12 +543,12 @@ export const customValidations = {
 
     const file = req.file;
     const maxSizeBytes = parseInt(process.env.MAX_FILE_SIZE_MB || '100') * 1024 * 1024;
-    const allowedTypes = ['application/pdf'];
+    const allowedTypes = SUPPORTED_DOCUMENT_FORMATS.flatMap(info => info.mimeTypes);
 
-    // Check file type
-    if (!allowedTypes.includes(file.mimetype)) {
+    // Check file type (extension decides when the browser sends a generic MIME type)
+    if (!resolveDocumentFormat(file.mimetype, file.originalname)) {
       throw new ValidationError(
-        'Invalid file type. Only PDF files are allowed.',
+        'Invalid file type. Only PDF, DOCX, HTML, Markdown and text files are allowed.',
         { 
           allowedTypes, 
           receivedType: file.mimetype,
@@ -424,13 +619,22 @@ export const validators = {
   // Parameter validators
   userId: validate(schemas.userId, 'params'),
   documentId: validate(schemas.documentId, 'params'),
+  documentPage: validate(schemas.documentPage, 'params'),
   
   // Body validators
   documentUpload: validate(schemas.documentUpload, 'body'),
   ragQuery: validate(schemas.ragQuery, 'body'),
+  createConversation: validate(schemas.createConversation, 'body'),
   userPreferences: validate(schemas.userPreferences, 'body'),
   systemConfig: validate(schemas.systemConfig, 'body'),
-  
+  embeddingMigration: validate(schemas.embeddingMigration, 'body'),
+  credentials: validate(schemas.credentials, 'body'),
+  createAccount: validate(schemas.createAccount, 'body'),
+  createApiKey: validate(schemas.createApiKey, 'body'),
+  workspace: validate(schemas.workspace, 'body'),
+  workspaceMember: validate(schemas.workspaceMember, 'body'),
+  workspaceDocument: validate(schemas.workspaceDocument, 'body'),
+
   // Query validators
   pagination: validate(schemas.pagination, 'query', { stripUnknown: false }),
   documentSearch: validate(schemas.documentSearch, 'query'),
@@ -0,0 +1,208 @@
+/**
+ * Authentication Routes
+ *
+ * Local accounts (username/password), session tokens and API keys.
+ * OIDC tokens are verified by the authenticate middleware and need no route here.
+ *
+ * @author ARYA RAG Team
+ */
+
+import { Router, Request, Response } from 'express';
+import { AuthService } from '../services/auth/AuthService';
+import {
+  asyncHandler,
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  UnauthorizedError,
+  successResponse
+} from '../middleware/errorHandler';
+import { validators } from '../middleware/validation';
+import { requireAdmin } from '../middleware/auth';
+
+const router = Router();
+
+/**
+ * Which sign-in methods are available
+ * GET /api/auth/config
+ */
+router.get('/config',
+  asyncHandler(async (req: Request, res: Response) => {
+    const config = await AuthService.getInstance().getConfig();
+
+    res.json(successResponse(config, 'Authentication configuration retrieved'));
+  })
+);
+
+/**
+ * Create your own account and sign in (only when AUTH_ALLOW_REGISTRATION=true)
+ * POST /api/auth/register
+ */
+router.post('/register',
+  validators.credentials,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { userId, password } = req.body;
+    const authService = AuthService.getInstance();
+
+    if (!authService.isRegistrationOpen()) {
+      throw new ForbiddenError('Registration is closed; ask an administrator to create an account for you');
+    }
+
+    if (await authService.getUser(userId)) {
+      throw new ConflictError(`User ${userId} already exists`);
+    }
+
+    if (await authService.hasExistingData(userId)) {
+      throw new ConflictError(`User ${userId} already has documents or conversations; ask an administrator to create this account`);
+    }
+
+    const user = await authService.register(userId, password);
+    const session = authService.issueSession(user);
+
+    res.status(201).json(successResponse(session, 'Account created'));
+  })
+);
+
+/**
+ * Create an account for someone else (admins only); may also create admins
+ * POST /api/auth/accounts
+ */
+router.post('/accounts',
+  requireAdmin,
+  validators.createAccount,
+  asyncHandler(async (req: Request, res: Response) => {
+    if (!req.auth) {
+      throw new UnauthorizedError('Authentication is disabled on this server');
+    }
+
+    const { userId, password, role } = req.body;
+    const authService = AuthService.getInstance();
+
+    if (await authService.getUser(userId)) {
+      throw new ConflictError(`User ${userId} already exists`);
+    }
+
+    const user = await authService.register(userId, password, role);
+
+    console.log(`👤 ${req.auth.userId} created ${role} account ${userId}`);
+
+    res.status(201).json(successResponse(user, 'Account created'));
+  })
+);
+
+/**
+ * Exchange a username and password for a session token
+ * POST /api/auth/login
+ */
+router.post('/login',
+  validators.credentials,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { userId, password } = req.body;
+
+    const session = await AuthService.getInstance().login(userId, password);
+    if (!session) {
+      throw new UnauthorizedError('Invalid username or password');
+    }
+
+    console.log(`🔓 ${userId} signed in`);
+
+    res.json(successResponse(session, 'Signed in'));
+  })
+);
+
+/**
+ * The authenticated caller
+ * GET /api/auth/me
+ */
+router.get('/me',
+  asyncHandler(async (req: Request, res: Response) => {
+    const principal = req.auth;
+    if (!principal) {
+      throw new UnauthorizedError('Authentication is disabled on this server');
+    }
+
+    const user = await AuthService.getInstance().getUser(principal.userId);
+
+    res.json(successResponse({
+      userId: principal.userId,
+      role: principal.role,
+      method: principal.method,
+      createdAt: user?.createdAt,
+      lastLoginAt: user?.lastLoginAt
+    }, 'Current user retrieved'));
+  })
+);
+
+/**
+ * Short-lived token for the ingestion progress stream (EventSource cannot send headers)
+ * POST /api/auth/stream-token
+ */
+router.post('/stream-token',
+  asyncHandler(async (req: Request, res: Response) => {
+    if (!req.auth) {
+      throw new UnauthorizedError('Authentication is disabled on this server');
+    }
+
+    const streamToken = AuthService.getInstance().issueStreamToken(req.auth, 'document-events');
+
+    res.status(201).json(successResponse(streamToken, 'Stream token issued'));
+  })
+);
+
+/**
+ * Create an API key for the caller; the key is only returned in this response
+ * POST /api/auth/api-keys
+ */
+router.post('/api-keys',
+  validators.createApiKey,
+  asyncHandler(async (req: Request, res: Response) => {
+    if (!req.auth) {
+      throw new UnauthorizedError('Authentication is disabled on this server');
+    }
+
+    const apiKey = await AuthService.getInstance().createApiKey(req.auth, req.body.name);
+
+    res.status(201).json(successResponse(apiKey, 'API key created; store it now, it will not be shown again'));
+  })
+);
+
+/**
+ * List the caller's API keys (without the secrets)
+ * GET /api/auth/api-keys
+ */
+router.get('/api-keys',
+  asyncHandler(async (req: Request, res: Response) => {
+    if (!req.auth) {
+      throw new UnauthorizedError('Authentication is disabled on this server');
+    }
+
+    const apiKeys = await AuthService.getInstance().listApiKeys(req.auth.userId);
+
+    res.json(successResponse(apiKeys, `Retrieved ${apiKeys.length} API keys`));
+  })
+);
+
+/**
+ * Revoke one of the caller's API keys
+ * DELETE /api/auth/api-keys/:keyId
+ */
+router.delete('/api-keys/:keyId',
+  asyncHandler(async (req: Request, res: Response) => {
+    if (!req.auth) {
+      throw new UnauthorizedError('Authentication is disabled on this server');
+    }
+
+    const { keyId } = req.params;
+
+    const revoked = await AuthService.getInstance().revokeApiKey(req.auth.userId, keyId);
+    if (!revoked) {
+      throw new NotFoundError('API key', keyId);
+    }
+
+    console.log(`🔒 Revoked API key ${keyId} for ${req.auth.userId}`);
+
+    res.json(successResponse({ keyId, revoked: true }, 'API key revoked'));
+  })
+);
+
+export default router;
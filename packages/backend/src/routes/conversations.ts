@@ -0,0 +1,133 @@
+/**
+ * Conversation API Routes
+ *
+ * Handles conversation threads for multi-turn RAG queries.
+ * Questions are asked through /api/queries with a conversationId; these routes
+ * create, list, load and delete the threads themselves.
+ *
+ * @author ARYA RAG Team
+ */
+
+import { Router, Request, Response } from 'express';
+import { ConversationService } from '../services/conversation/ConversationService';
+import {
+  asyncHandler,
+  ValidationError,
+  NotFoundError,
+  successResponse
+} from '../middleware/errorHandler';
+import { validators } from '../middleware/validation';
+
+const router = Router();
+
+/**
+ * Create a conversation
+ * POST /api/conversations
+ */
+router.post('/',
+  validators.createConversation,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { userId, title } = req.body;
+
+    console.log(`💬 Creating conversation for user: ${userId}`);
+
+    const conversation = await ConversationService.getInstance().createConversation(userId, title);
+
+    res.status(201).json(successResponse(
+      conversation,
+      'Conversation created'
+    ));
+  })
+);
+
+/**
+ * List user's conversations (most recent first)
+ * GET /api/conversations?userId=
+ */
+router.get('/',
+  validators.pagination,
+  asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.query.userId as string;
+    const pageNum = parseInt(req.query.page as string) || 1;
+    const limitNum = parseInt(req.query.limit as string) || 20;
+
+    if (!userId) {
+      throw new ValidationError('userId query parameter is required');
+    }
+
+    console.log(`💬 Listing conversations for user: ${userId}`);
+
+    const { conversations, total } = await ConversationService.getInstance()
+      .listConversations(userId, pageNum, limitNum);
+
+    res.json(successResponse(
+      conversations,
+      `Retrieved ${conversations.length} conversations`,
+      {
+        pagination: {
+          currentPage: pageNum,
+          totalPages: Math.ceil(total / limitNum),
+          totalItems: total,
+          itemsPerPage: limitNum
+        }
+      }
+    ));
+  })
+);
+
+/**
+ * Get a conversation with its messages
+ * GET /api/conversations/:conversationId?userId=
+ */
+router.get('/:conversationId',
+  asyncHandler(async (req: Request, res: Response) => {
+    const { conversationId } = req.params;
+    const userId = req.query.userId as string;
+
+    if (!userId) {
+      throw new ValidationError('userId query parameter is required');
+    }
+
+    const conversation = await ConversationService.getInstance()
+      .getConversationWithMessages(conversationId, userId);
+
+    if (!conversation) {
+      throw new NotFoundError('Conversation', conversationId);
+    }
+
+    res.json(successResponse(
+      conversation,
+      'Conversation retrieved'
+    ));
+  })
+);
+
+/**
+ * Delete a conversation and its messages
+ * DELETE /api/conversations/:conversationId?userId=
+ */
+router.delete('/:conversationId',
+  asyncHandler(async (req: Request, res: Response) => {
+    const { conversationId } = req.params;
+    const userId = req.query.userId as string;
+
+    if (!userId) {
+      throw new ValidationError('userId query parameter is required');
+    }
+
+    console.log(`🗑️ Deleting conversation: ${conversationId}`);
+
+    const deleted = await ConversationService.getInstance().deleteConversation(conversationId, userId);
+
+    if (!deleted) {
+      throw new NotFoundError('Conversation', conversationId);
+    }
+
+    res.json(successResponse(
+      { deleted: true },
+      'Conversation deleted'
+    ));
+  })
+);
+
+export default router;
@@ -18,7 +18,20 @@ import {
   successResponse 
 } from '../middleware/errorHandler';
 import { validators } from '../middleware/validation';
-import { UserDocument, DocumentChunk, ChunkWithEmbedding } from '@arya-rag/types';
+import { authorizeUser } from '../middleware/auth';
+import { resolveDocumentFormat } from '../services/document/FormatExtractors';
+import { DocumentOutline, DocumentPageText, IngestionJob } from '@arya-rag/types';
+import { JobQueueService } from '../services/jobs/JobQueueService';
+import {
+  INGEST_DOCUMENT_JOB,
+  runDocumentIngestionInline
+} from '../services/ingestion/DocumentIngestionPipeline';
+import { IngestionProgressService } from '../services/ingestion/IngestionProgressService';
+import { DocumentRevisionService } from '../services/document/DocumentRevisionService';
+import { DocumentOutlineService } from '../services/document/DocumentOutlineService';
+import { WorkspaceService } from '../services/workspace/WorkspaceService';
+import { reconstructPageText } from '../services/rag/CitationResolver';
+import { VectorStoreFactory } from '../services/vector/VectorStoreFactory';
 
 const router = Router();
 
@@ -58,10 +71,10 @@ const upload = multer({
     files: 1
   },
   fileFilter: (req, file, cb) => {
-    if (file.mimetype === 'application/pdf') {
+    if (resolveDocumentFormat(file.mimetype, file.originalname)) {
       cb(null, true);
     } else {
-      cb(new Error('Only PDF files are allowed'));
+      cb(new Error('Only PDF, DOCX, HTML, Markdown and text files are allowed'));
     }
   }
 });
@@ -72,6 +85,7 @@ const upload = multer({
  */
 router.post('/upload',
   upload.single('document'),
+  authorizeUser,
   validators.fileUpload,
   validators.documentUpload,
   validators.uploadRateLimit,
@@ -115,8 +129,8 @@ router.post('/upload',
       );
     }
 
-    // Step 1: Upload file to Supabase Storage
-    console.log('📤 Uploading file to Supabase Storage...');
+    // Step 1: Upload file to storage
+    console.log('📤 Uploading file to storage...');
     const uploadResult = await storageService.uploadFile(
       file.buffer,
       file.originalname,
@@ -136,7 +150,7 @@ router.post('/upload',
       user_id: userId,
       filename: file.originalname,
       original_name: file.originalname,
-      title: title || file.originalname.replace('.pdf', ''),
+      title: title || file.originalname.replace(/\.[^.]+$/, ''),
       description: description || null,
       mime_type: file.mimetype,
       file_size: file.size,
@@ -175,32 +189,33 @@ router.post('/upload',
       ));
     }
 
-    // Start background processing using stored file
-    console.log(`🚀 UPLOAD COMPLETE - Starting background processing for document: ${documentId}`);
-    console.log(`   📁 File path: ${uploadResult.filePath}`);
-    console.log(`   👤 User ID: ${userId}`);
-    console.log(`   🔧 Embedding model: ${process.env.EMBEDDING_MODEL}`);
-    console.log(`   🤖 Embedding provider: ${process.env.EMBEDDING_PROVIDER}`);
-    
-    // Important: Start background processing immediately (don't await)
-    console.log(`🚀 ATTEMPTING to start background processing for: ${documentId}`);
-    
-    processDocumentInBackground(documentId, userId, uploadResult.filePath!, documentRecord)
-      .then(() => {
-        console.log(`✅ Background processing completed for: ${documentId}`);
-      })
-      .catch(backgroundError => {
-        console.error(`💥 Background processing failed for ${documentId}:`, backgroundError);
+    // Start the revision history; later uploads to this document become revision 2, 3, ...
+    try {
+      await DocumentRevisionService.getInstance().createRevision({
+        documentId,
+        revision: 1,
+        userId,
+        filename: file.originalname,
+        mimeType: file.mimetype,
+        fileSize: file.size,
+        fileHash,
+        storagePath: uploadResult.filePath
       });
-    
-    console.log(`🚀 Background processing started (async) for: ${documentId}`);
+    } catch (revisionError) {
+      console.warn(`⚠️  Revision history unavailable: ${revisionError instanceof Error ? revisionError.message : revisionError}`);
+    }
+
+    // Queue ingestion; the job worker picks it up and survives restarts
+    console.log(`🚀 UPLOAD COMPLETE - Queueing processing for document: ${documentId}`);
+    const job = await queueDocumentIngestion(documentId, userId);
 
     // Return immediate response
     res.status(202).json(successResponse(
       {
         documentId,
+        jobId: job?.jobId,
         status: 'pending',
-        message: 'Document uploaded successfully. Processing started in background.',
+        message: 'Document uploaded successfully. Processing queued.',
         estimatedProcessingTime: `${Math.ceil(file.size / 1024 / 1024 * 2)} minutes`
       },
       'Document upload initiated'
@@ -294,6 +309,49 @@ router.get('/',
   })
 );
 
+/**
+ * Stream ingestion progress for all of a user's documents (Server-Sent Events)
+ * GET /api/documents/events?userId=
+ */
+router.get('/events',
+  asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.query.userId as string;
+
+    if (!userId) {
+      throw new ValidationError('userId query parameter is required');
+    }
+
+    console.log(`📡 Ingestion progress stream opened for user: ${userId}`);
+
+    res.status(200);
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache, no-transform');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no'); // Disable proxy buffering (nginx)
+    res.flushHeaders();
+
+    const progressService = IngestionProgressService.getInstance();
+
+    // Catch up on documents already in flight
+    for (const event of progressService.getActive(userId)) {
+      writeServerSentEvent(res, event.type, event);
+    }
+
+    const unsubscribe = progressService.subscribe(userId, event => {
+      writeServerSentEvent(res, event.type, event);
+    });
+
+    // Comment frames keep proxies from closing an idle connection
+    const keepAlive = setInterval(() => res.write(': keep-alive\n\n'), 25000);
+
+    req.on('close', () => {
+      clearInterval(keepAlive);
+      unsubscribe();
+      console.log(`📡 Ingestion progress stream closed for user: ${userId}`);
+    });
+  })
+);
+
 /**
  * Get document details and status
  * GET /api/documents/:documentId
@@ -352,6 +410,174 @@ router.get('/:documentId',
   })
 );
 
+/**
+ * Upload a new revision of an existing document
+ * Only chunks whose content changed are re-embedded; queries keep using the
+ * current revision until the new one is fully indexed
+ * POST /api/documents/:documentId/revisions
+ */
+router.post('/:documentId/revisions',
+  upload.single('document'),
+  authorizeUser,
+  validators.documentId,
+  validators.fileUpload,
+  validators.documentUpload,
+  validators.uploadRateLimit,
+  asyncHandler(async (req: Request, res: Response) => {
+    await initializeServices();
+
+    const { documentId } = req.params;
+    const { userId } = req.body;
+    const file = req.file!;
+
+    console.log(`📤 Uploading new revision of ${documentId} for user: ${userId}`);
+    console.log(`   File: ${file.originalname} (${(file.size / 1024 / 1024).toFixed(2)}MB)`);
+
+    const db = databaseClient.getClient();
+
+    const { data: doc, error: docError } = await (db as any)
+      .from('user_documents')
+      .select('document_id, status, file_hash, current_revision, latest_revision')
+      .eq('document_id', documentId)
+      .eq('user_id', userId)
+      .single();
+
+    if (docError) {
+      if (docError.code === 'PGRST116') {
+        throw new NotFoundError('Document', documentId);
+      }
+      throw new Error(`Failed to fetch document: ${docError.message}`);
+    }
+
+    if (doc.status === 'pending' || doc.status === 'processing') {
+      throw new ConflictError('Document is still processing; wait for it to finish before uploading a new revision', {
+        documentId,
+        status: doc.status
+      });
+    }
+
+    const fileHash = createHash('sha256').update(file.buffer).digest('hex');
+    if (fileHash === doc.file_hash) {
+      throw new ConflictError('This file is identical to the current revision', {
+        documentId,
+        currentRevision: doc.current_revision || 1
+      });
+    }
+
+    const currentRevision: number = doc.current_revision || 1;
+    const revision: number = (doc.latest_revision || currentRevision) + 1;
+
+    // Revisions above the current one never went live (failed); drop their partial chunks
+    const abandoned = Array.from(
+      { length: revision - 1 - currentRevision },
+      (_, index) => currentRevision + 1 + index
+    );
+    if (abandoned.length > 0) {
+      await vectorStorageService.deleteRevisionChunks(documentId, abandoned);
+    }
+
+    const uploadResult = await storageService.uploadFile(
+      file.buffer,
+      file.originalname,
+      userId,
+      file.mimetype
+    );
+
+    if (!uploadResult.success) {
+      throw new Error(`File storage failed: ${uploadResult.error}`);
+    }
+
+    console.log(`✅ Revision ${revision} stored at: ${uploadResult.filePath}`);
+
+    const revisionRecord = await DocumentRevisionService.getInstance().createRevision({
+      documentId,
+      revision,
+      userId,
+      filename: file.originalname,
+      mimeType: file.mimetype,
+      fileSize: file.size,
+      fileHash,
+      storagePath: uploadResult.filePath
+    });
+
+    const { error: updateError } = await (db as any)
+      .from('user_documents')
+      .update({
+        latest_revision: revision,
+        status: 'pending',
+        processing_stage: null,
+        processing_started_at: null,
+        processing_completed_at: null,
+        error_message: null
+      })
+      .eq('document_id', documentId);
+
+    if (updateError) {
+      throw new Error(`Failed to update document: ${updateError.message}`);
+    }
+
+    console.log(`🚀 Queueing incremental re-index of ${documentId} (revision ${revision})`);
+    const job = await queueDocumentIngestion(documentId, userId);
+
+    res.status(202).json(successResponse(
+      {
+        documentId,
+        revision: revisionRecord.revision,
+        currentRevision,
+        jobId: job?.jobId,
+        status: 'pending',
+        message: `Revision ${revision} uploaded. Unchanged chunks will reuse existing embeddings.`
+      },
+      'Document revision upload initiated'
+    ));
+  })
+);
+
+/**
+ * List a document's revisions, newest first
+ * GET /api/documents/:documentId/revisions
+ */
+router.get('/:documentId/revisions',
+  validators.documentId,
+  asyncHandler(async (req: Request, res: Response) => {
+    await initializeServices();
+
+    const { documentId } = req.params;
+    const userId = req.query.userId as string;
+
+    if (!userId) {
+      throw new ValidationError('userId query parameter is required');
+    }
+
+    const db = databaseClient.getClient();
+
+    const { data: doc, error: docError } = await (db as any)
+      .from('user_documents')
+      .select('document_id, current_revision, latest_revision')
+      .eq('document_id', documentId)
+      .eq('user_id', userId)
+      .single();
+
+    if (docError) {
+      if (docError.code === 'PGRST116') {
+        throw new NotFoundError('Document', documentId);
+      }
+      throw new Error(`Failed to fetch document: ${docError.message}`);
+    }
+
+    const revisions = await DocumentRevisionService.getInstance().listRevisions(documentId);
+
+    res.json(successResponse(
+      revisions,
+      `Retrieved ${revisions.length} revisions`,
+      {
+        currentRevision: doc.current_revision || 1,
+        latestRevision: doc.latest_revision || 1
+      }
+    ));
+  })
+);
+
 /**
  * Get document processing status
  * GET /api/documents/:documentId/status
@@ -373,7 +599,7 @@ router.get('/:documentId/status',
 
     const { data, error } = await (db as any)
       .from('user_documents')
-      .select('status, processing_started_at, processing_completed_at, error_message, total_pages, total_chunks, processing_stage')
+      .select('status, processing_started_at, processing_completed_at, error_message, total_pages, total_chunks, ocr_page_count, empty_page_count, processing_stage')
       .eq('document_id', documentId)
       .eq('user_id', userId)
       .single();
@@ -393,9 +619,22 @@ router.get('/:documentId/status',
       errorMessage: data.error_message,
       totalPages: data.total_pages || 0,
       totalChunks: data.total_chunks || 0,
+      ocrPageCount: data.ocr_page_count || 0,
+      emptyPageCount: data.empty_page_count || 0,
       progress: calculateProcessingProgress(data)
     };
 
+    // Prefer live counters from the ingestion worker when it runs in this process
+    const live = IngestionProgressService.getInstance().getLatest(documentId);
+    if (live && data.status === 'processing') {
+      status.progress = {
+        percentage: live.percentage,
+        stage: live.stage,
+        message: live.message,
+        etaSeconds: live.etaSeconds
+      };
+    }
+
     res.json(successResponse(status, 'Document status retrieved'));
   })
 );
@@ -436,6 +675,15 @@ router.delete('/:documentId',
       throw new Error(`Failed to fetch document: ${fetchError.message}`);
     }
 
+    // Revision rows cascade with the document, so collect their files first
+    const { data: revisionRows } = await (db as any)
+      .from('document_revisions')
+      .select('storage_path')
+      .eq('document_id', documentId);
+    const revisionPaths: string[] = (revisionRows || [])
+      .map((row: any) => row.storage_path)
+      .filter(Boolean);
+
     // Delete document chunks first (foreign key constraint)
     const { error: chunksError } = await (db as any)
       .from('document_chunks')
@@ -446,6 +694,11 @@ router.delete('/:documentId',
       console.warn('Failed to delete document chunks:', chunksError.message);
     }
 
+    // Vectors kept outside the chunk rows (non-pgvector stores)
+    await VectorStoreFactory.getInstance().createVectorStore().delete({ documentId }).catch(error => {
+      console.warn('Failed to delete document vectors:', error instanceof Error ? error.message : error);
+    });
+
     // Delete document record
     const { error: deleteError } = await (db as any)
       .from('user_documents')
@@ -457,28 +710,31 @@ router.delete('/:documentId',
       throw new Error(`Failed to delete document: ${deleteError.message}`);
     }
 
-    // Delete file from Supabase Storage
-    if (doc.storage_path) {
-      console.log(`🗑️ Deleting file from storage: ${doc.storage_path}`);
-      const storageDeleteResult = await storageService.deleteFile(doc.storage_path);
+    // Delete files from storage, including earlier revisions
+    const storagePaths = new Set<string>(doc.storage_path ? [doc.storage_path] : []);
+    revisionPaths.forEach(path => storagePaths.add(path));
+
+    for (const storagePath of storagePaths) {
+      console.log(`🗑️ Deleting file from storage: ${storagePath}`);
+      const storageDeleteResult = await storageService.deleteFile(storagePath);
       
       if (!storageDeleteResult.success) {
         console.warn('⚠️  Failed to delete file from storage:', storageDeleteResult.error);
         // Don't fail the whole operation if storage deletion fails
       } else {
-        console.log(`✅ File deleted from storage: ${doc.storage_path}`);
+        console.log(`✅ File deleted from storage: ${storagePath}`);
       }
     }
 
     res.json(successResponse(
-      { documentId, deleted: true, storageDeleted: !!doc.storage_path },
+      { documentId, deleted: true, storageDeleted: storagePaths.size > 0 },
       'Document deleted successfully'
     ));
   })
 );
 
 /**
- * Download a document file
+ * Download a document file (the current revision unless ?revision= is given)
  * GET /api/documents/:documentId/download
  */
 router.get('/:documentId/download',
@@ -496,29 +752,34 @@ router.get('/:documentId/download',
 
     console.log(`📥 Downloading document: ${documentId}`);
 
-    const db = databaseClient.getClient();
-
-    // Get document info and verify ownership
-    const { data: doc, error: docError } = await (db as any)
-      .from('user_documents')
-      .select('document_id, filename, original_name, storage_path, mime_type, file_size')
-      .eq('document_id', documentId)
-      .eq('user_id', userId)
-      .single();
+    // Workspace members can open shared documents, e.g. to check a cited page
+    const doc = await findReadableDocument(
+      documentId,
+      userId,
+      'document_id, filename, original_name, storage_path, mime_type, file_size, file_hash'
+    );
 
-    if (docError) {
-      if (docError.code === 'PGRST116') {
-        throw new NotFoundError('Document', documentId);
+    if (req.query.revision) {
+      const revisionNumber = parseInt(req.query.revision as string);
+      const revision = Number.isNaN(revisionNumber)
+        ? null
+        : await DocumentRevisionService.getInstance().getRevision(documentId, revisionNumber);
+      if (!revision) {
+        throw new NotFoundError('Revision', req.query.revision as string);
       }
-      throw new Error(`Failed to fetch document: ${docError.message}`);
+
+      doc.storage_path = revision.storagePath;
+      doc.original_name = revision.filename;
+      doc.mime_type = revision.mimeType || doc.mime_type;
+      doc.file_hash = revision.fileHash;
     }
 
     if (!doc.storage_path) {
       throw new Error('Document file not found in storage');
     }
 
-    // Download file from Supabase Storage
-    const downloadResult = await storageService.downloadFile(doc.storage_path);
+    // Download file from storage, verified against the hash recorded at upload
+    const downloadResult = await storageService.downloadFile(doc.storage_path, doc.file_hash);
 
     if (!downloadResult.success || !downloadResult.buffer) {
       throw new Error(`Failed to download file: ${downloadResult.error}`);
@@ -537,8 +798,85 @@ router.get('/:documentId/download',
   })
 );
 
+/**
+ * Get the indexed text of one page, for showing a cited passage in context
+ * Rebuilt from the page's chunks, so citation pageStart/pageEnd offsets index into it directly
+ * GET /api/documents/:documentId/pages/:pageNumber?userId=&revision=
+ */
+router.get('/:documentId/pages/:pageNumber',
+  validators.documentPage,
+  asyncHandler(async (req: Request, res: Response) => {
+    await initializeServices();
+
+    const { documentId } = req.params;
+    const pageNumber = Number(req.params.pageNumber);
+    const userId = req.query.userId as string;
+
+    if (!userId) {
+      throw new ValidationError('userId query parameter is required');
+    }
+
+    const doc = await findReadableDocument(documentId, userId, 'document_id, current_revision');
+    const revision = parseInt(req.query.revision as string) || doc.current_revision || 1;
+
+    const db = databaseClient.getClient();
+    const { data: chunks, error } = await (db as any)
+      .from('document_chunks')
+      .select('chunk_text, page_position_start, page_position_end')
+      .eq('document_id', documentId)
+      .eq('revision', revision)
+      .eq('page_number', pageNumber)
+      .order('chunk_index');
+
+    if (error) {
+      throw new Error(`Failed to fetch page: ${error.message}`);
+    }
+    if (!chunks || chunks.length === 0) {
+      throw new NotFoundError('Page', String(pageNumber));
+    }
+
+    const { text, aligned } = reconstructPageText(chunks.map((chunk: any) => ({
+      chunkText: chunk.chunk_text,
+      pagePositionStart: chunk.page_position_start,
+      pagePositionEnd: chunk.page_position_end
+    })));
+
+    const page: DocumentPageText = { documentId, pageNumber, revision, text, aligned };
+
+    res.json(successResponse(page, `Retrieved page ${pageNumber}`));
+  })
+);
+
+/**
+ * Get the section tree of a document, read from its bookmarks or table of contents
+ * Documents without one (or indexed before outlines were stored) return source 'none' and no sections
+ * GET /api/documents/:documentId/outline?userId=&revision=
+ */
+router.get('/:documentId/outline',
+  validators.documentId,
+  asyncHandler(async (req: Request, res: Response) => {
+    await initializeServices();
+
+    const { documentId } = req.params;
+    const userId = req.query.userId as string;
+
+    if (!userId) {
+      throw new ValidationError('userId query parameter is required');
+    }
+
+    const doc = await findReadableDocument(documentId, userId, 'document_id, current_revision');
+    const revision = parseInt(req.query.revision as string) || doc.current_revision || 1;
+
+    const outline: DocumentOutline = await DocumentOutlineService.getInstance().getOutline(documentId, revision)
+      ?? { documentId, revision, source: 'none', sections: [] };
+
+    res.json(successResponse(outline, `Retrieved outline (${outline.sections.length} top-level sections)`));
+  })
+);
+
 /**
  * Get document chunks (for debugging/inspection)
+ * Returns the current revision's chunks unless ?revision= is given
  * GET /api/documents/:documentId/chunks
  */
 router.get('/:documentId/chunks',
@@ -558,7 +896,7 @@ router.get('/:documentId/chunks',
     // Verify document ownership
     const { data: doc, error: docError } = await (db as any)
       .from('user_documents')
-      .select('document_id')
+      .select('document_id, current_revision')
       .eq('document_id', documentId)
       .eq('user_id', userId)
       .single();
@@ -577,8 +915,9 @@ router.get('/:documentId/chunks',
 
     const { data: chunks, error: chunksError, count } = await (db as any)
       .from('document_chunks')
-      .select('chunk_id, chunk_text, page_number, section_title, chunk_tokens, chunk_index')
+      .select('chunk_id, chunk_text, page_number, section_title, chunk_tokens, chunk_index, revision')
       .eq('document_id', documentId)
+      .eq('revision', parseInt(req.query.revision as string) || doc.current_revision || 1)
       .order('chunk_index')
       .range(offset, offset + limitNum - 1);
 
@@ -604,286 +943,58 @@ router.get('/:documentId/chunks',
 );
 
 /**
- * Background document processing function
+ * Load a document the user may read: their own, or one shared with them through a workspace
+ * Documents the user cannot read are reported as not found
  */
-async function processDocumentInBackground(
-  documentId: string,
-  userId: string,
-  storagePath: string,
-  documentRecord: Partial<UserDocument>
-): Promise<void> {
-  console.log(`🔄 BACKGROUND PROCESSING STARTED for document: ${documentId}`);
-  console.log(`   📋 Document record:`, JSON.stringify(documentRecord, null, 2));
-  console.log(`   🗂️  Storage path: ${storagePath}`);
-  console.log(`   👤 User ID: ${userId}`);
-  
-  // Import services dynamically to avoid initialization issues
-  const { DatabaseClient } = await import('../config/database');
-  const { StorageService } = await import('../services/storage/StorageService');
-  const { EmbeddingServiceFactory } = await import('../services/embedding/EmbeddingServiceFactory');
-  
-  const db = DatabaseClient.getInstance().getClient();
-  const storage = StorageService.getInstance();
-
-  try {
-    console.log(`✅ Database and storage instances created successfully`);
-
-    // Update status to processing with initial stage
-    console.log(`📝 STEP 1: Updating document status to processing with downloading stage`);
-    const statusUpdateResult = await (db as any)
-      .from('user_documents')
-      .update({
-        status: 'processing',
-        processing_started_at: new Date(),
-        processing_stage: 'downloading'
-      })
-      .eq('document_id', documentId);
-      
-    if (statusUpdateResult.error) {
-      throw new Error(`Failed to update document status: ${statusUpdateResult.error.message}`);
-    }
-    console.log(`✅ Status updated to processing/downloading`);
+async function findReadableDocument(documentId: string, userId: string, columns: string): Promise<any> {
+  const db = databaseClient.getClient();
 
-    // Step 1: Download file from storage
-    console.log(`📥 STEP 2: Downloading file from storage: ${storagePath}`);
-    console.log(`   🔍 Storage service instance:`, !!storage);
-    
-    const downloadResult = await storage.downloadFile(storagePath);
-    console.log(`📥 Download result:`, {
-      success: downloadResult.success,
-      hasBuffer: !!downloadResult.buffer,
-      bufferLength: downloadResult.buffer?.length || 0,
-      error: downloadResult.error
-    });
-    
-    if (!downloadResult.success || !downloadResult.buffer) {
-      throw new Error(`Failed to download file from storage: ${downloadResult.error}`);
-    }
-
-    console.log(`✅ File downloaded successfully: ${downloadResult.buffer.length} bytes`);
-
-    // Update stage to extracting
-    console.log(`📝 STEP 3: Updating stage to extracting`);
-    const extractingUpdate = await (db as any)
-      .from('user_documents')
-      .update({
-        processing_stage: 'extracting'
-      })
-      .eq('document_id', documentId);
-      
-    if (extractingUpdate.error) {
-      console.warn(`⚠️  Failed to update stage to extracting: ${extractingUpdate.error.message}`);
-    }
-
-    // Step 2: Extract text from PDF
-    console.log(`📄 STEP 4: Starting PDF text extraction`);
-    console.log(`   📁 Filename: ${documentRecord.filename}`);
-    console.log(`   📊 Buffer size: ${downloadResult.buffer.length} bytes`);
-    
-    const { DocumentProcessor } = await import('../services/document/DocumentProcessor');
-    const documentProcessor = new DocumentProcessor();
-    console.log(`   🔍 Document processor created:`, !!documentProcessor);
-    
-    const extractionResult = await documentProcessor.extractPagesFromBuffer(
-      downloadResult.buffer,
-      documentRecord.filename!
-    );
-    
-    console.log(`📄 Extraction result:`, {
-      success: extractionResult.success,
-      pagesCount: extractionResult.pages?.length || 0,
-      error: extractionResult.error,
-      hasPages: !!extractionResult.pages
-    });
+  const { data: doc, error } = await (db as any)
+    .from('user_documents')
+    .select(`user_id, ${columns}`)
+    .eq('document_id', documentId)
+    .maybeSingle();
 
-    if (!extractionResult.success) {
-      throw new Error(`Text extraction failed: ${extractionResult.error}`);
-    }
-
-    console.log(`✅ Text extraction successful: ${extractionResult.pages.length} pages extracted`);
-
-    // Update stage to chunking
-    await (db as any)
-      .from('user_documents')
-      .update({
-        processing_stage: 'chunking'
-      })
-      .eq('document_id', documentId);
-
-    // Step 3: Chunk the document
-    const { ChunkingService } = await import('../services/chunking/ChunkingService');
-    const chunkingService = new ChunkingService();
-    const chunkingResult = await chunkingService.processPages(
-      extractionResult.pages,
-      documentId,
-      {
-        maxTokensPerChunk: parseInt(process.env.CHUNK_SIZE_TOKENS || '600'),
-        overlapTokens: parseInt(process.env.CHUNK_OVERLAP_TOKENS || '100'),
-        preservePageBoundaries: true
-      }
-    );
-
-    console.log(`✂️  Chunking result:`, {
-      chunksCount: chunkingResult.chunks.length,
-      totalTokens: chunkingResult.totalTokens,
-      processingTime: chunkingResult.processingTime
-    });
-
-    if (!chunkingResult.chunks || chunkingResult.chunks.length === 0) {
-      throw new Error(`Chunking failed: No chunks generated`);
-    }
-
-    console.log(`✂️  Created ${chunkingResult.chunks.length} chunks for ${documentId}`);
-
-    // Update stage to embedding
-    await (db as any)
-      .from('user_documents')
-      .update({
-        processing_stage: 'embedding'
-      })
-      .eq('document_id', documentId);
-
-    // Step 4: Generate embeddings
-    const embeddingFactory = EmbeddingServiceFactory.getInstance();
-    const embeddingService = embeddingFactory.createEmbeddingService();
-
-    const chunksWithEmbeddings: ChunkWithEmbedding[] = [];
-
-    // Process chunks in batches to avoid overwhelming the embedding service
-    const batchSize = parseInt(process.env.EMBEDDING_BATCH_SIZE || '50');
-    
-    for (let i = 0; i < chunkingResult.chunks.length; i += batchSize) {
-      const batch = chunkingResult.chunks.slice(i, i + batchSize);
-      console.log(`🧠 Generating embeddings for batch ${Math.floor(i / batchSize) + 1} (${batch.length} chunks)`);
-
-      const batchEmbeddings = await Promise.all(
-        batch.map(async (chunk) => {
-          const embeddingResponse = await embeddingService.generateEmbedding({
-            text: chunk.chunkText,
-            metadata: {
-              documentId: chunk.documentId,
-              chunkId: chunk.id,
-              pageNumber: chunk.pageNumber
-            }
-          });
-
-          return {
-            ...chunk,
-            embedding: embeddingResponse.embedding
-          };
-        })
-      );
-
-      chunksWithEmbeddings.push(...batchEmbeddings);
-    }
-
-    console.log(`✨ Generated embeddings for ${chunksWithEmbeddings.length} chunks`);
-
-    // Update stage to storing
-    await (db as any)
-      .from('user_documents')
-      .update({
-        processing_stage: 'storing'
-      })
-      .eq('document_id', documentId);
-
-    // Step 5: Store in vector database
-    // Get the actual model name from the first embedding response
-    const actualModelName = chunksWithEmbeddings.length > 0 && chunksWithEmbeddings[0].embeddingResponse?.model 
-      ? chunksWithEmbeddings[0].embeddingResponse.model 
-      : process.env.EMBEDDING_MODEL;
-    
-    console.log(`🤖 Storing with embedding model: ${actualModelName}`);
-    
-    const { VectorStorageService } = await import('../services/vector/VectorStorageService');
-    const vectorStorage = new VectorStorageService();
-    console.log(`💾 STEP 6: Attempting to store chunks in vector database`);
-    console.log(`   📊 Chunks to store: ${chunksWithEmbeddings.length}`);
-    console.log(`   👤 User ID: ${userId}`);
-    console.log(`   📄 Document ID: ${documentId}`);
-    console.log(`   🤖 Embedding model: ${actualModelName}`);
-    
-    const storageResult = await vectorStorage.storeDocumentChunks(
-      chunksWithEmbeddings,
-      documentId,
-      userId,
-      actualModelName
-    );
-
-    console.log(`💾 Vector storage result:`, {
-      success: storageResult.success,
-      storedCount: storageResult.storedCount,
-      failedCount: storageResult.failedCount,
-      errors: storageResult.errors,
-      processingTime: storageResult.processingTime
-    });
+  if (error) {
+    throw new Error(`Failed to fetch document: ${error.message}`);
+  }
+  if (!doc) {
+    throw new NotFoundError('Document', documentId);
+  }
 
-    if (!storageResult.success) {
-      const errorMessage = storageResult.errors && storageResult.errors.length > 0 
-        ? storageResult.errors[0].error 
-        : 'Unknown storage error';
-      throw new Error(`Vector storage failed: ${errorMessage}`);
+  if (doc.user_id !== userId) {
+    const readable = await WorkspaceService.getInstance().filterReadableDocuments(userId, [documentId]);
+    if (readable.length === 0) {
+      throw new NotFoundError('Document', documentId);
     }
+  }
 
-    console.log(`💾 Stored ${storageResult.storedCount} chunks in vector database`);
-
-    // Update document status to completed
-    await (db as any)
-      .from('user_documents')
-      .update({
-        status: 'completed',
-        processing_completed_at: new Date(),
-        total_pages: extractionResult.pages.length,
-        total_chunks: chunkingResult.chunks.length
-      })
-      .eq('document_id', documentId);
-
-    console.log(`✅ Document processing completed: ${documentId}`);
+  return doc;
+}
 
+/**
+ * Queue a document for ingestion
+ * Falls back to processing in this process when the job table is missing (migration 006 not applied)
+ */
+async function queueDocumentIngestion(documentId: string, userId: string): Promise<IngestionJob | null> {
+  try {
+    return await JobQueueService.getInstance().enqueue(INGEST_DOCUMENT_JOB, documentId, userId);
   } catch (error) {
-    console.error(`💥 CRITICAL ERROR - Document processing failed for ${documentId}:`, {
-      error: error instanceof Error ? error.message : 'Unknown error',
-      stack: error instanceof Error ? error.stack : 'No stack trace',
-      documentId,
-      userId,
-      storagePath
-    });
-
-    // Get the current processing stage to show where it failed
-    try {
-      const { data: currentDoc } = await (db as any)
-        .from('user_documents')
-        .select('processing_stage')
-        .eq('document_id', documentId)
-        .single();
+    console.warn(`⚠️  Job queue unavailable, processing ${documentId} in-process: ${error instanceof Error ? error.message : error}`);
 
-      const currentStage = currentDoc?.processing_stage || 'unknown';
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      const stageMessage = `Failed during ${currentStage}: ${errorMessage}`;
+    runDocumentIngestionInline(documentId, userId);
 
-      console.log(`📝 Updating document status to failed at stage: ${currentStage}`);
-      
-      // Update document status to failed with stage info
-      const failedUpdate = await (db as any)
-        .from('user_documents')
-        .update({
-          status: 'failed',
-          error_message: stageMessage,
-          processing_stage: `failed_${currentStage}`
-        })
-        .eq('document_id', documentId);
-        
-      if (failedUpdate.error) {
-        console.error(`💥 Failed to update document status to failed: ${failedUpdate.error.message}`);
-      } else {
-        console.log(`✅ Document status updated to failed`);
-      }
-    } catch (updateError) {
-      console.error(`💥 Error updating failed status: ${updateError instanceof Error ? updateError.message : 'Unknown error'}`);
-    }
+    return null;
   }
 }
 
+/**
+ * Write a single Server-Sent Event frame
+ */
+function writeServerSentEvent(res: Response, event: string, data: unknown): void {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
 /**
  * Calculate processing progress percentage
  */
@@ -891,6 +1002,7 @@ function calculateProcessingProgress(document: any): {
   percentage: number;
   stage: string;
   message: string;
+  etaSeconds?: number;
 } {
   if (document.status === 'completed') {
     return {
@@ -931,7 +1043,7 @@ function calculateProcessingProgress(document: any): {
         return {
           percentage: 30,
           stage: 'extracting',
-          message: 'Extracting text from PDF'
+          message: 'Extracting text from document'
         };
       case 'chunking':
         return {
@@ -952,6 +1064,13 @@ function calculateProcessingProgress(document: any): {
           message: 'Storing in vector database'
         };
       default:
+        if (stage?.startsWith('retrying_')) {
+          return {
+            percentage: 50,
+            stage,
+            message: document.error_message || 'Retrying after a failure'
+          };
+        }
         return {
           percentage: 50,
           stage: 'processing',
@@ -0,0 +1,171 @@
+/**
+ * Embedding Model Admin Routes
+ *
+ * Migrate chunks to a new embedding provider/model for one user or the whole
+ * system. Search keeps serving the current model while a migration runs and
+ * switches to the new one atomically once every chunk is re-embedded.
+ *
+ * @author ARYA RAG Team
+ */
+
+import { Router, Request, Response } from 'express';
+import { EmbeddingMigrationStatus } from '@arya-rag/types';
+import { EmbeddingMigrationService } from '../services/embedding/EmbeddingMigrationService';
+import { EmbeddingModelService } from '../services/embedding/EmbeddingModelService';
+import { VectorStoreFactory } from '../services/vector/VectorStoreFactory';
+import {
+  asyncHandler,
+  ValidationError,
+  NotFoundError,
+  ConflictError,
+  successResponse
+} from '../middleware/errorHandler';
+import { validators } from '../middleware/validation';
+
+const router = Router();
+
+const MIGRATION_STATUSES: EmbeddingMigrationStatus[] = ['queued', 'running', 'completed', 'failed', 'cancelled'];
+
+/**
+ * Active embedding models: the system default and per-user overrides
+ * GET /api/admin/embeddings/models
+ */
+router.get('/models',
+  asyncHandler(async (req: Request, res: Response) => {
+    const assignments = await EmbeddingModelService.getInstance().listAssignments();
+
+    res.json(successResponse(assignments, 'Embedding models retrieved'));
+  })
+);
+
+/**
+ * Start re-embedding a user's chunks (or every chunk) with a new model
+ * POST /api/admin/embeddings/migrations
+ */
+router.post('/migrations',
+  validators.embeddingMigration,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { provider, model, dimensions, userId } = req.body;
+    const migrations = EmbeddingMigrationService.getInstance();
+
+    // Activation swaps the vectors inside document_chunks, so other stores would keep the old ones
+    const store = VectorStoreFactory.getInstance().createVectorStore();
+    if (!store.storesEmbeddingsInChunks) {
+      throw new ValidationError(`Embedding migrations need the pgvector vector store (VECTOR_STORE is ${store.backend}); re-index documents to change models`);
+    }
+
+    const active = await EmbeddingModelService.getInstance().getActiveModel(userId);
+    if (active.provider === provider && active.model === model && (!dimensions || active.dimensions === dimensions)) {
+      throw new ConflictError(`${model} is already the active embedding model${userId ? ` for user ${userId}` : ''}`);
+    }
+
+    const conflict = await migrations.findConflictingMigration(userId);
+    if (conflict) {
+      throw new ConflictError(
+        `Embedding migration ${conflict.migrationId} is already ${conflict.status} for ${conflict.userId ? `user ${conflict.userId}` : 'all users'}`,
+        { migrationId: conflict.migrationId }
+      );
+    }
+
+    const migration = await migrations.startMigration({ provider, model, dimensions, userId });
+
+    res.status(202).json(successResponse(migration, 'Embedding migration queued'));
+  })
+);
+
+/**
+ * List embedding migrations (newest first)
+ * GET /api/admin/embeddings/migrations?status=&userId=
+ */
+router.get('/migrations',
+  asyncHandler(async (req: Request, res: Response) => {
+    const status = req.query.status as EmbeddingMigrationStatus | undefined;
+
+    if (status && !MIGRATION_STATUSES.includes(status)) {
+      throw new ValidationError(`status must be one of: ${MIGRATION_STATUSES.join(', ')}`);
+    }
+
+    const migrations = await EmbeddingMigrationService.getInstance().listMigrations({
+      status,
+      userId: req.query.userId as string | undefined
+    });
+
+    res.json(successResponse(migrations, `Retrieved ${migrations.length} embedding migrations`));
+  })
+);
+
+/**
+ * Get a migration with its progress
+ * GET /api/admin/embeddings/migrations/:migrationId
+ */
+router.get('/migrations/:migrationId',
+  asyncHandler(async (req: Request, res: Response) => {
+    const { migrationId } = req.params;
+
+    const migration = await EmbeddingMigrationService.getInstance().getMigration(migrationId);
+    if (!migration) {
+      throw new NotFoundError('Embedding migration', migrationId);
+    }
+
+    res.json(successResponse(migration, 'Embedding migration retrieved'));
+  })
+);
+
+/**
+ * Retry a failed or cancelled migration
+ * POST /api/admin/embeddings/migrations/:migrationId/retry
+ */
+router.post('/migrations/:migrationId/retry',
+  asyncHandler(async (req: Request, res: Response) => {
+    const { migrationId } = req.params;
+    const migrations = EmbeddingMigrationService.getInstance();
+
+    const existing = await migrations.getMigration(migrationId);
+    if (!existing) {
+      throw new NotFoundError('Embedding migration', migrationId);
+    }
+
+    const conflict = await migrations.findConflictingMigration(existing.userId);
+    if (conflict) {
+      throw new ConflictError(`Embedding migration ${conflict.migrationId} is already ${conflict.status}`, {
+        migrationId: conflict.migrationId
+      });
+    }
+
+    console.log(`🔁 Retrying embedding migration ${migrationId}`);
+
+    const migration = await migrations.retryMigration(migrationId);
+    if (!migration) {
+      throw new ConflictError(`Migration is ${existing.status}; only failed or cancelled migrations can be retried`);
+    }
+
+    res.json(successResponse(migration, 'Embedding migration queued for retry'));
+  })
+);
+
+/**
+ * Cancel a queued or running migration; the current model stays active
+ * POST /api/admin/embeddings/migrations/:migrationId/cancel
+ */
+router.post('/migrations/:migrationId/cancel',
+  asyncHandler(async (req: Request, res: Response) => {
+    const { migrationId } = req.params;
+    const migrations = EmbeddingMigrationService.getInstance();
+
+    const existing = await migrations.getMigration(migrationId);
+    if (!existing) {
+      throw new NotFoundError('Embedding migration', migrationId);
+    }
+
+    console.log(`🛑 Cancelling embedding migration ${migrationId}`);
+
+    const migration = await migrations.cancelMigration(migrationId);
+    if (!migration) {
+      throw new ConflictError(`Migration is ${existing.status}; only queued or running migrations can be cancelled`);
+    }
+
+    res.json(successResponse(migration, 'Embedding migration cancelled'));
+  })
+);
+
+export default router;
@@ -0,0 +1,137 @@
+/**
+ * Ingestion Job Admin Routes
+ *
+ * Inspect and control the durable ingestion queue: list jobs, retry failed
+ * or cancelled jobs (they resume from the stage they stopped at) and cancel
+ * queued or running ones.
+ *
+ * @author ARYA RAG Team
+ */
+
+import { Router, Request, Response } from 'express';
+import { IngestionJobStatus } from '@arya-rag/types';
+import { JobQueueService } from '../services/jobs/JobQueueService';
+import {
+  asyncHandler,
+  ValidationError,
+  NotFoundError,
+  ConflictError,
+  successResponse
+} from '../middleware/errorHandler';
+import { validators } from '../middleware/validation';
+
+const router = Router();
+
+const JOB_STATUSES: IngestionJobStatus[] = ['queued', 'running', 'completed', 'failed', 'cancelled'];
+
+/**
+ * List ingestion jobs (newest first)
+ * GET /api/admin/jobs?status=&documentId=&userId=
+ */
+router.get('/',
+  validators.pagination,
+  asyncHandler(async (req: Request, res: Response) => {
+    const status = req.query.status as IngestionJobStatus | undefined;
+    const pageNum = parseInt(req.query.page as string) || 1;
+    const limitNum = parseInt(req.query.limit as string) || 20;
+
+    if (status && !JOB_STATUSES.includes(status)) {
+      throw new ValidationError(`status must be one of: ${JOB_STATUSES.join(', ')}`);
+    }
+
+    const queue = JobQueueService.getInstance();
+    const [{ jobs, total }, stats] = await Promise.all([
+      queue.listJobs({
+        status,
+        documentId: req.query.documentId as string | undefined,
+        userId: req.query.userId as string | undefined,
+        page: pageNum,
+        limit: limitNum
+      }),
+      queue.getStats()
+    ]);
+
+    res.json(successResponse(
+      jobs,
+      `Retrieved ${jobs.length} jobs`,
+      {
+        stats,
+        pagination: {
+          currentPage: pageNum,
+          totalPages: Math.ceil(total / limitNum),
+          totalItems: total,
+          itemsPerPage: limitNum
+        }
+      }
+    ));
+  })
+);
+
+/**
+ * Get a single job
+ * GET /api/admin/jobs/:jobId
+ */
+router.get('/:jobId',
+  asyncHandler(async (req: Request, res: Response) => {
+    const { jobId } = req.params;
+
+    const job = await JobQueueService.getInstance().getJob(jobId);
+    if (!job) {
+      throw new NotFoundError('Job', jobId);
+    }
+
+    res.json(successResponse(job, 'Job retrieved'));
+  })
+);
+
+/**
+ * Retry a failed or cancelled job
+ * POST /api/admin/jobs/:jobId/retry
+ */
+router.post('/:jobId/retry',
+  asyncHandler(async (req: Request, res: Response) => {
+    const { jobId } = req.params;
+    const queue = JobQueueService.getInstance();
+
+    const existing = await queue.getJob(jobId);
+    if (!existing) {
+      throw new NotFoundError('Job', jobId);
+    }
+
+    console.log(`🔁 Retrying job ${jobId} from stage ${existing.stage || 'start'}`);
+
+    const job = await queue.retryJob(jobId);
+    if (!job) {
+      throw new ConflictError(`Job is ${existing.status}; only failed or cancelled jobs can be retried`);
+    }
+
+    res.json(successResponse(job, 'Job queued for retry'));
+  })
+);
+
+/**
+ * Cancel a queued or running job
+ * POST /api/admin/jobs/:jobId/cancel
+ */
+router.post('/:jobId/cancel',
+  asyncHandler(async (req: Request, res: Response) => {
+    const { jobId } = req.params;
+    const queue = JobQueueService.getInstance();
+
+    const existing = await queue.getJob(jobId);
+    if (!existing) {
+      throw new NotFoundError('Job', jobId);
+    }
+
+    console.log(`🛑 Cancelling job ${jobId}`);
+
+    const job = await queue.cancelJob(jobId);
+    if (!job) {
+      throw new ConflictError(`Job is ${existing.status}; only queued or running jobs can be cancelled`);
+    }
+
+    res.json(successResponse(job, 'Job cancelled'));
+  })
+);
+
+export default router;
@@ -12,11 +12,15 @@ import { Router, Request, Response } from 'express';
 import { 
   asyncHandler, 
   ValidationError, 
+  NotFoundError,
   ServiceUnavailableError,
   successResponse 
 } from '../middleware/errorHandler';
 import { validators } from '../middleware/validation';
-import { RAGRequest, RAGResponse } from '@arya-rag/types';
+import { RAGRequest, RAGResponse, RAGStreamEvent } from '@arya-rag/types';
+import type { SearchMode } from '../services/vector/VectorSearchService';
+import type { RerankerType } from '../services/rag/Reranker';
+import type { GroundingVerifierType } from '../services/rag/GroundingVerifier';
 
 const router = Router();
 
@@ -38,8 +42,20 @@ async function initializeServices() {
         temperature: parseFloat(process.env.RAG_TEMPERATURE || '0.7'),
         maxContextTokens: parseInt(process.env.RAG_MAX_CONTEXT_TOKENS || '3000'),
         includeSourceExcerpts: process.env.RAG_INCLUDE_EXCERPTS !== 'false',
+        enableParentExpansion: process.env.RAG_EXPAND_PARENTS === 'true',
         requireSourceCitations: process.env.RAG_REQUIRE_CITATIONS !== 'false',
-        maxSourcesPerResponse: parseInt(process.env.RAG_MAX_SOURCES || '5')
+        maxSourcesPerResponse: parseInt(process.env.RAG_MAX_SOURCES || '5'),
+        searchMode: (process.env.RAG_SEARCH_MODE || 'vector') as SearchMode,
+        enableReranking: process.env.RAG_ENABLE_RERANKING === 'true',
+        reranker: (process.env.RAG_RERANKER || 'lexical') as RerankerType,
+        rerankTopN: parseInt(process.env.RAG_RERANK_TOP_N || '20'),
+        enableGroundingVerification: process.env.RAG_ENABLE_GROUNDING_CHECK === 'true',
+        groundingVerifier: (process.env.RAG_GROUNDING_VERIFIER || 'lexical') as GroundingVerifierType,
+        maxHistoryTurns: parseInt(process.env.RAG_MAX_HISTORY_TURNS || '3'),
+        enableQueryRewriting: process.env.RAG_ENABLE_QUERY_REWRITING !== 'false',
+        enableAnswerCache: process.env.RAG_ENABLE_ANSWER_CACHE === 'true',
+        answerCacheSimilarity: parseFloat(process.env.RAG_ANSWER_CACHE_SIMILARITY || '0.95'),
+        answerCacheMaxAgeHours: parseInt(process.env.RAG_ANSWER_CACHE_MAX_AGE_HOURS || '24')
       };
 
       ragService = new RAGService(ragConfig);
@@ -66,7 +82,7 @@ router.post('/process',
       await initializeServices();
     }
 
-    const { query, userId, documentIds, maxResults, responseStyle, includeExcerpts } = req.body;
+    const { query, userId, documentIds, maxResults, responseStyle, searchMode, conversationId, revisions, workspaceIds, includeExcerpts } = req.body;
 
     console.log(`🔍 Processing RAG query for user: ${userId}`);
     console.log(`   Query: "${query}"`);
@@ -77,13 +93,29 @@ router.post('/process',
       await verifyDocumentAccess(userId, documentIds);
     }
 
+    if (conversationId) {
+      await verifyConversationAccess(userId, conversationId);
+    }
+
+    if (revisions && Object.keys(revisions).length > 0) {
+      await verifyRevisionPins(userId, revisions);
+    }
+
+    if (workspaceIds && workspaceIds.length > 0) {
+      await verifyWorkspaceAccess(userId, workspaceIds);
+    }
+
     // Build RAG request
     const ragRequest: RAGRequest = {
       query,
       userId,
       documentIds,
       maxResults: maxResults || 10,
-      responseStyle: responseStyle || 'detailed'
+      responseStyle: responseStyle || 'detailed',
+      searchMode,
+      conversationId,
+      revisions,
+      workspaceIds
     };
 
     // Process the query
@@ -119,6 +151,99 @@ router.post('/process',
   })
 );
 
+/**
+ * Process a RAG query and stream the answer as Server-Sent Events
+ * POST /api/queries/stream
+ *
+ * Events: `retrieval` (sources found), `token` (answer text delta),
+ * `complete` (final RAGResponse) or `error`.
+ */
+router.post('/stream',
+  validators.ragQuery,
+  validators.queryRateLimit,
+  asyncHandler(async (req: Request, res: Response) => {
+    // Initialize services if not already done
+    if (!ragService) {
+      await initializeServices();
+    }
+
+    const { query, userId, documentIds, maxResults, responseStyle, searchMode, conversationId, revisions, workspaceIds } = req.body;
+
+    console.log(`🔍 Streaming RAG query for user: ${userId}`);
+    console.log(`   Query: "${query}"`);
+
+    // Verify access before switching to event-stream, so failures still get a JSON error
+    if (documentIds && documentIds.length > 0) {
+      await verifyDocumentAccess(userId, documentIds);
+    }
+
+    if (conversationId) {
+      await verifyConversationAccess(userId, conversationId);
+    }
+
+    if (revisions && Object.keys(revisions).length > 0) {
+      await verifyRevisionPins(userId, revisions);
+    }
+
+    if (workspaceIds && workspaceIds.length > 0) {
+      await verifyWorkspaceAccess(userId, workspaceIds);
+    }
+
+    const ragRequest: RAGRequest = {
+      query,
+      userId,
+      documentIds,
+      maxResults: maxResults || 10,
+      responseStyle: responseStyle || 'detailed',
+      searchMode,
+      conversationId,
+      revisions,
+      workspaceIds
+    };
+
+    res.status(200);
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache, no-transform');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no'); // Disable proxy buffering (nginx)
+    res.flushHeaders();
+
+    let clientDisconnected = false;
+    res.on('close', () => {
+      if (!res.writableEnded) {
+        clientDisconnected = true;
+        console.log(`⚠️ Client disconnected from query stream: ${req.headers['x-request-id']}`);
+      }
+    });
+
+    const stream: AsyncGenerator<RAGStreamEvent, void, unknown> = ragService.streamQuery(ragRequest);
+
+    try {
+      for await (const event of stream) {
+        // Breaking out of the loop also stops LLM generation upstream
+        if (clientDisconnected) break;
+
+        if (event.type === 'complete') {
+          event.response.metadata = {
+            ...event.response.metadata,
+            requestId: req.headers['x-request-id'],
+            timestamp: new Date().toISOString()
+          };
+        }
+
+        writeServerSentEvent(res, event.type, event);
+      }
+    } catch (error) {
+      writeServerSentEvent(res, 'error', {
+        type: 'error',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    } finally {
+      res.end();
+    }
+  })
+);
+
 /**
  * Get query history for a user
  * GET /api/queries/history
@@ -327,6 +452,10 @@ router.get('/test/connectivity',
       configuration: {
         maxSearchResults: process.env.RAG_MAX_SEARCH_RESULTS || '10',
         similarityThreshold: process.env.RAG_SIMILARITY_THRESHOLD || '0.65',
+        searchMode: process.env.RAG_SEARCH_MODE || 'vector',
+        reranker: process.env.RAG_ENABLE_RERANKING === 'true' ? (process.env.RAG_RERANKER || 'lexical') : 'disabled',
+        groundingVerifier: process.env.RAG_ENABLE_GROUNDING_CHECK === 'true' ? (process.env.RAG_GROUNDING_VERIFIER || 'lexical') : 'disabled',
+        answerCache: process.env.RAG_ENABLE_ANSWER_CACHE === 'true' ? `similarity ${process.env.RAG_ANSWER_CACHE_SIMILARITY || '0.95'}` : 'disabled',
         maxResponseTokens: process.env.RAG_MAX_RESPONSE_TOKENS || '1000',
         embeddingProvider: process.env.EMBEDDING_PROVIDER || 'not configured',
         llmProvider: process.env.LLM_PROVIDER || 'not configured'
@@ -389,7 +518,7 @@ router.post('/:queryId/reprocess',
   asyncHandler(async (req: Request, res: Response) => {
     const { queryId } = req.params;
     const userId = req.body.userId;
-    const { maxResults, responseStyle, documentIds } = req.body;
+    const { maxResults, responseStyle, searchMode, documentIds } = req.body;
 
     if (!userId) {
       throw new ValidationError('userId is required');
@@ -417,7 +546,8 @@ router.post('/:queryId/reprocess',
       userId,
       documentIds: documentIds,
       maxResults: maxResults || 10,
-      responseStyle: responseStyle || 'detailed'
+      responseStyle: responseStyle || 'detailed',
+      searchMode
     };
 
     // Process the query
@@ -438,19 +568,10 @@ router.post('/:queryId/reprocess',
  * Helper function to verify user has access to requested documents
  */
 async function verifyDocumentAccess(userId: string, documentIds: string[]): Promise<void> {
-  const db = DatabaseClient.getInstance().getClient();
-
-  const { data, error } = await (db as any)
-    .from('user_documents')
-    .select('document_id')
-    .eq('user_id', userId)
-    .in('document_id', documentIds);
-
-  if (error) {
-    throw new Error(`Failed to verify document access: ${error.message}`);
-  }
+  const { WorkspaceService } = await import('../services/workspace/WorkspaceService');
 
-  const accessibleIds = (data || []).map((doc: any) => doc.document_id);
+  // Own documents and documents shared through a workspace
+  const accessibleIds = await WorkspaceService.getInstance().filterReadableDocuments(userId, documentIds);
   const inaccessibleIds = documentIds.filter(id => !accessibleIds.includes(id));
 
   if (inaccessibleIds.length > 0) {
@@ -464,6 +585,74 @@ async function verifyDocumentAccess(userId: string, documentIds: string[]): Prom
   }
 }
 
+/**
+ * Verify the user is a member of every workspace the query is limited to
+ */
+async function verifyWorkspaceAccess(userId: string, workspaceIds: string[]): Promise<void> {
+  const { WorkspaceService } = await import('../services/workspace/WorkspaceService');
+  const workspaces = WorkspaceService.getInstance();
+
+  for (const workspaceId of workspaceIds) {
+    if (!(await workspaces.getMemberRole(workspaceId, userId))) {
+      throw new NotFoundError('Workspace', workspaceId);
+    }
+  }
+}
+
+/**
+ * Verify pinned revisions belong to the user's documents and still have searchable chunks
+ */
+async function verifyRevisionPins(userId: string, revisions: Record<string, number>): Promise<void> {
+  const documentIds = Object.keys(revisions);
+  await verifyDocumentAccess(userId, documentIds);
+
+  const db = databaseClient.getClient();
+
+  const { data, error } = await (db as any)
+    .from('document_revisions')
+    .select('document_id, revision, status')
+    .in('document_id', documentIds);
+
+  if (error) {
+    throw new Error(`Failed to verify revisions: ${error.message}`);
+  }
+
+  const unavailable = documentIds
+    .filter(documentId => !(data || []).some((row: any) =>
+      row.document_id === documentId && row.revision === revisions[documentId] && row.status === 'completed'
+    ))
+    .map(documentId => ({ documentId, revision: revisions[documentId] }));
+
+  if (unavailable.length > 0) {
+    throw new ValidationError(
+      'Some pinned revisions cannot be queried',
+      {
+        unavailableRevisions: unavailable,
+        message: 'Only completed revisions can be queried; archived revisions no longer have indexed chunks'
+      }
+    );
+  }
+}
+
+/**
+ * Verify the conversation exists and belongs to the user
+ */
+async function verifyConversationAccess(userId: string, conversationId: string): Promise<void> {
+  const { ConversationService } = await import('../services/conversation/ConversationService');
+  const conversation = await ConversationService.getInstance().getConversation(conversationId, userId);
+
+  if (!conversation) {
+    throw new NotFoundError('Conversation', conversationId);
+  }
+}
+
+/**
+ * Write a single Server-Sent Event frame
+ */
+function writeServerSentEvent(res: Response, event: string, data: unknown): void {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
 /**
  * Calculate query analytics from raw data
  */
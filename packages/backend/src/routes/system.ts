@@ -899,6 +899,8 @@ function getSystemConfiguration() {
     version: process.env.npm_package_version || '1.0.0',
     embeddingProvider: process.env.EMBEDDING_PROVIDER || 'not configured',
     llmProvider: process.env.LLM_PROVIDER || 'not configured',
+    vectorStore: process.env.VECTOR_STORE || 'pgvector',
+    fileStorage: process.env.STORAGE_DRIVER || 'supabase',
     embeddingModel: process.env.EMBEDDING_MODEL || 'not configured',
     llmModel: process.env.OLLAMA_LLM_MODEL || process.env.OPENAI_LLM_MODEL || 'not configured',
     chunkSizeTokens: process.env.CHUNK_SIZE_TOKENS || 'not configured',
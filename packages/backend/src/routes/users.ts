@@ -2,13 +2,14 @@
  * User Management API Routes
  * 
  * Handles user preferences, settings, and account management.
- * Provides simple user isolation without complex authentication.
+ * Every route is scoped to the authenticated user.
  * 
  * @author ARYA RAG Team
  */
 
 import { Router, Request, Response } from 'express';
 import { DatabaseClient } from '../config/database';
+import { VectorStoreFactory } from '../services/vector/VectorStoreFactory';
 import { 
   asyncHandler, 
   ValidationError, 
@@ -16,9 +17,13 @@ import {
   successResponse 
 } from '../middleware/errorHandler';
 import { validators } from '../middleware/validation';
+import { authorizeUser } from '../middleware/auth';
 
 const router = Router();
 
+// Users can only read or change their own profile
+router.use('/:userId', authorizeUser);
+
 /**
  * Get user profile and statistics
  * GET /api/users/:userId
@@ -297,6 +302,10 @@ router.delete('/:userId',
         console.warn('Failed to delete chunks:', chunksError.message);
       }
 
+      await VectorStoreFactory.getInstance().createVectorStore().delete({ userId }).catch(error => {
+        console.warn('Failed to delete vectors:', error instanceof Error ? error.message : error);
+      });
+
       // 2. Delete user queries
       const { error: queriesError } = await (db as any)
         .from('user_queries')
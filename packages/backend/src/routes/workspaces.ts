@@ -0,0 +1,240 @@
+/**
+ * Workspace API Routes
+ *
+ * Shared document collections. Owners manage members, editors attach and detach
+ * documents, viewers can read and search them. Queries search every workspace
+ * the user belongs to unless they pass workspaceIds.
+ *
+ * @author ARYA RAG Team
+ */
+
+import { Router, Request, Response } from 'express';
+import { WorkspaceRole } from '@arya-rag/types';
+import { DatabaseClient } from '../config/database';
+import { WorkspaceService, hasWorkspaceRole } from '../services/workspace/WorkspaceService';
+import {
+  asyncHandler,
+  ValidationError,
+  NotFoundError,
+  ForbiddenError,
+  ConflictError,
+  successResponse
+} from '../middleware/errorHandler';
+import { validators } from '../middleware/validation';
+
+const router = Router();
+
+/**
+ * Load the caller's role, treating non-members as if the workspace did not exist
+ */
+async function requireWorkspaceRole(workspaceId: string, userId: string, required: WorkspaceRole): Promise<WorkspaceRole> {
+  const role = await WorkspaceService.getInstance().getMemberRole(workspaceId, userId);
+
+  if (!role) {
+    throw new NotFoundError('Workspace', workspaceId);
+  }
+  if (!hasWorkspaceRole(role, required)) {
+    throw new ForbiddenError(`This action needs the ${required} role in workspace ${workspaceId}; you are a ${role}`);
+  }
+
+  return role;
+}
+
+function requireUserId(req: Request): string {
+  const userId = req.query.userId as string;
+  if (!userId) {
+    throw new ValidationError('userId query parameter is required');
+  }
+  return userId;
+}
+
+/**
+ * Create a workspace; the creator becomes its owner
+ * POST /api/workspaces
+ */
+router.post('/',
+  validators.workspace,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { userId, name, description } = req.body;
+
+    console.log(`🗂️ Creating workspace "${name}" for user: ${userId}`);
+
+    const workspace = await WorkspaceService.getInstance().createWorkspace(userId, name, description);
+
+    res.status(201).json(successResponse(workspace, 'Workspace created'));
+  })
+);
+
+/**
+ * List the workspaces the user belongs to
+ * GET /api/workspaces?userId=
+ */
+router.get('/',
+  asyncHandler(async (req: Request, res: Response) => {
+    const userId = requireUserId(req);
+
+    const workspaces = await WorkspaceService.getInstance().listWorkspaces(userId);
+
+    res.json(successResponse(workspaces, `Retrieved ${workspaces.length} workspaces`));
+  })
+);
+
+/**
+ * Get a workspace with its members and documents
+ * GET /api/workspaces/:workspaceId?userId=
+ */
+router.get('/:workspaceId',
+  asyncHandler(async (req: Request, res: Response) => {
+    const { workspaceId } = req.params;
+    const userId = requireUserId(req);
+
+    const workspace = await WorkspaceService.getInstance().getWorkspace(workspaceId, userId);
+    if (!workspace) {
+      throw new NotFoundError('Workspace', workspaceId);
+    }
+
+    res.json(successResponse(workspace, 'Workspace retrieved'));
+  })
+);
+
+/**
+ * Rename or describe a workspace (owners only)
+ * PUT /api/workspaces/:workspaceId
+ */
+router.put('/:workspaceId',
+  validators.workspace,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { workspaceId } = req.params;
+    const { userId, name, description } = req.body;
+
+    await requireWorkspaceRole(workspaceId, userId, 'owner');
+
+    const workspace = await WorkspaceService.getInstance().updateWorkspace(workspaceId, { name, description });
+
+    res.json(successResponse({ ...workspace, role: 'owner' }, 'Workspace updated'));
+  })
+);
+
+/**
+ * Delete a workspace (owners only); the documents stay with their owners
+ * DELETE /api/workspaces/:workspaceId?userId=
+ */
+router.delete('/:workspaceId',
+  asyncHandler(async (req: Request, res: Response) => {
+    const { workspaceId } = req.params;
+    const userId = requireUserId(req);
+
+    await requireWorkspaceRole(workspaceId, userId, 'owner');
+    await WorkspaceService.getInstance().deleteWorkspace(workspaceId);
+
+    res.json(successResponse({ workspaceId, deleted: true }, 'Workspace deleted'));
+  })
+);
+
+/**
+ * Add a member or change their role (owners only)
+ * PUT /api/workspaces/:workspaceId/members/:memberId
+ */
+router.put('/:workspaceId/members/:memberId',
+  validators.workspaceMember,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { workspaceId, memberId } = req.params;
+    const { userId, role } = req.body;
+    const workspaces = WorkspaceService.getInstance();
+
+    await requireWorkspaceRole(workspaceId, userId, 'owner');
+
+    const currentRole = await workspaces.getMemberRole(workspaceId, memberId);
+    if (currentRole === 'owner' && role !== 'owner' && (await workspaces.countOwners(workspaceId)) <= 1) {
+      throw new ConflictError('A workspace needs at least one owner; add another owner first');
+    }
+
+    console.log(`👥 Setting ${memberId} as ${role} in workspace ${workspaceId}`);
+
+    const member = await workspaces.setMember(workspaceId, memberId, role, userId);
+
+    res.json(successResponse(member, currentRole ? 'Member role updated' : 'Member added'));
+  })
+);
+
+/**
+ * Remove a member (owners), or leave the workspace (any member removing themselves)
+ * DELETE /api/workspaces/:workspaceId/members/:memberId?userId=
+ */
+router.delete('/:workspaceId/members/:memberId',
+  asyncHandler(async (req: Request, res: Response) => {
+    const { workspaceId, memberId } = req.params;
+    const userId = requireUserId(req);
+    const workspaces = WorkspaceService.getInstance();
+
+    await requireWorkspaceRole(workspaceId, userId, memberId === userId ? 'viewer' : 'owner');
+
+    const memberRole = await workspaces.getMemberRole(workspaceId, memberId);
+    if (!memberRole) {
+      throw new NotFoundError('Workspace member', memberId);
+    }
+    if (memberRole === 'owner' && (await workspaces.countOwners(workspaceId)) <= 1) {
+      throw new ConflictError('The last owner cannot leave; delete the workspace or add another owner first');
+    }
+
+    await workspaces.removeMember(workspaceId, memberId);
+
+    res.json(successResponse({ workspaceId, userId: memberId, removed: true }, 'Member removed'));
+  })
+);
+
+/**
+ * Attach one of your own documents to a workspace (editors and owners)
+ * POST /api/workspaces/:workspaceId/documents
+ */
+router.post('/:workspaceId/documents',
+  validators.workspaceDocument,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { workspaceId } = req.params;
+    const { userId, documentId } = req.body;
+
+    await requireWorkspaceRole(workspaceId, userId, 'editor');
+
+    // Only the uploader can share a document
+    const db = DatabaseClient.getInstance().getClient();
+    const { data: document, error } = await (db as any)
+      .from('user_documents')
+      .select('document_id')
+      .eq('document_id', documentId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch document: ${error.message}`);
+    }
+    if (!document) {
+      throw new NotFoundError('Document', documentId);
+    }
+
+    await WorkspaceService.getInstance().addDocument(workspaceId, documentId, userId);
+
+    res.status(201).json(successResponse({ workspaceId, documentId }, 'Document added to workspace'));
+  })
+);
+
+/**
+ * Detach a document from a workspace (editors and owners); the document itself is kept
+ * DELETE /api/workspaces/:workspaceId/documents/:documentId?userId=
+ */
+router.delete('/:workspaceId/documents/:documentId',
+  asyncHandler(async (req: Request, res: Response) => {
+    const { workspaceId, documentId } = req.params;
+    const userId = requireUserId(req);
+
+    await requireWorkspaceRole(workspaceId, userId, 'editor');
+
+    const removed = await WorkspaceService.getInstance().removeDocument(workspaceId, documentId);
+    if (!removed) {
+      throw new NotFoundError('Workspace document', documentId);
+    }
+
+    res.json(successResponse({ workspaceId, documentId, removed: true }, 'Document removed from workspace'));
+  })
+);
+
+export default router;
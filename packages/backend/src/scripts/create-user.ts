@@ -0,0 +1,95 @@
+/**
+ * Create User Script
+ *
+ * Creates a local account from the command line. Self-registration is off by default and
+ * never creates admins, so this is how the first admin is set up; after that, admins can
+ * also create accounts with POST /api/auth/accounts.
+ *
+ * Usage:
+ *   npm run auth:create-user -- --user alice --admin
+ *   echo "$PASSWORD" | npm run auth:create-user -- --user bob
+ *
+ * Options:
+ *   --user <userId>   Account to create (letters, numbers, hyphens and underscores)
+ *   --admin           Create an admin instead of a regular user
+ *
+ * The password is read from AUTH_NEW_USER_PASSWORD or the first line of standard input,
+ * so it does not end up in shell history or the process list.
+ *
+ * @author ARYA RAG Team
+ */
+
+import dotenv from 'dotenv';
+import { createInterface } from 'readline';
+import { AuthService } from '../services/auth/AuthService.js';
+import { isValidUserId, USER_ID_FORMAT_MESSAGE } from '../utils/userId.js';
+
+// Load environment variables
+dotenv.config();
+
+const MIN_PASSWORD_LENGTH = 8;
+
+function parseArgs(argv: string[]): { userId?: string; admin: boolean } {
+  const args: { userId?: string; admin: boolean } = { admin: false };
+
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--admin') {
+      args.admin = true;
+    } else if (argv[i] === '--user' && i + 1 < argv.length) {
+      args.userId = argv[++i];
+    } else {
+      throw new Error(`Unexpected argument: ${argv[i]}`);
+    }
+  }
+
+  return args;
+}
+
+async function readPassword(): Promise<string> {
+  if (process.env.AUTH_NEW_USER_PASSWORD) {
+    return process.env.AUTH_NEW_USER_PASSWORD;
+  }
+
+  if (process.stdin.isTTY) {
+    process.stdout.write('Password: ');
+  }
+
+  const lines = createInterface({ input: process.stdin });
+  for await (const line of lines) {
+    lines.close();
+    return line;
+  }
+
+  return '';
+}
+
+async function createUser() {
+  const { userId, admin } = parseArgs(process.argv.slice(2));
+
+  if (!userId) {
+    throw new Error('--user is required');
+  }
+  if (!isValidUserId(userId)) {
+    throw new Error(USER_ID_FORMAT_MESSAGE);
+  }
+
+  const password = await readPassword();
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    throw new Error(`Password must be at least ${MIN_PASSWORD_LENGTH} characters long`);
+  }
+
+  const authService = AuthService.getInstance();
+  if (await authService.getUser(userId)) {
+    throw new Error(`User ${userId} already exists`);
+  }
+
+  const user = await authService.register(userId, password, admin ? 'admin' : 'user');
+  console.log(`✅ Created ${user.role} account ${user.userId}`);
+}
+
+createUser()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error(`💥 ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  });
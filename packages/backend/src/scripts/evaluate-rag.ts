@@ -0,0 +1,163 @@
+/**
+ * RAG Evaluation Script
+ *
+ * Runs a golden question set through RAGService and writes a JSON and HTML report
+ * with recall@k, MRR, citation accuracy and answer similarity.
+ *
+ * Usage:
+ *   npm run eval -- --user <userId>                        # documents already indexed for the user
+ *   npm run eval -- --index --chunk-size 400 --label small # index the dataset's documents for this run
+ *
+ * Options:
+ *   --dataset <path>         Golden dataset (default: eval/datasets/fire-safety-qa.json)
+ *   --user <userId>          User whose documents are searched (default with --index: a temporary user)
+ *   --index                  Index the dataset documents first and delete them afterwards
+ *   --chunk-size <tokens>    Chunk size used with --index
+ *   --chunk-overlap <tokens> Chunk overlap used with --index
+ *   --config <path>          JSON file with RAGConfig overrides
+ *   --threshold <n>          similarityThreshold
+ *   --max-results <n>        maxSearchResults
+ *   --search-mode <mode>     vector | keyword | hybrid
+ *   --rerank <type>          Enable reranking with this reranker (lexical | llm)
+ *   --k <n>                  Cutoff for recall@k (default: 5)
+ *   --retrieval-only         Skip answer generation
+ *   --label <name>           Run name used in reports
+ *   --baseline <path>        Earlier JSON report to compare against
+ *   --out <dir>              Report directory (default: eval/reports)
+ *
+ * @author ARYA RAG Team
+ */
+
+import dotenv from 'dotenv';
+import { readFileSync } from 'fs';
+import { RAGService, RAGConfig } from '../services/rag/RAGService.js';
+import { RerankerType } from '../services/rag/Reranker.js';
+import { SearchMode } from '../services/vector/VectorSearchService.js';
+import {
+  RAGEvaluator,
+  EvaluationReport,
+  ChunkingSettings,
+  loadEvaluationDataset,
+  indexDatasetDocuments
+} from '../services/evaluation/RAGEvaluator.js';
+import { compareReports, writeEvaluationReport } from '../services/evaluation/EvaluationReportWriter.js';
+
+// Load environment variables
+dotenv.config();
+
+const BOOLEAN_FLAGS = new Set(['index', 'retrieval-only']);
+
+/**
+ * Parse --name value pairs and boolean flags
+ */
+function parseArgs(argv: string[]): Record<string, string | boolean> {
+  const args: Record<string, string | boolean> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const name = argv[i].replace(/^--/, '');
+    if (!argv[i].startsWith('--')) {
+      throw new Error(`Unexpected argument: ${argv[i]}`);
+    }
+
+    if (BOOLEAN_FLAGS.has(name)) {
+      args[name] = true;
+    } else if (i + 1 < argv.length) {
+      args[name] = argv[++i];
+    } else {
+      throw new Error(`Missing value for --${name}`);
+    }
+  }
+
+  return args;
+}
+
+function numberArg(args: Record<string, string | boolean>, name: string): number | undefined {
+  if (args[name] === undefined) {
+    return undefined;
+  }
+
+  const value = Number(args[name]);
+  if (Number.isNaN(value)) {
+    throw new Error(`--${name} must be a number`);
+  }
+  return value;
+}
+
+async function runEvaluation() {
+  console.log('📏 Starting ARYA-RAG Evaluation');
+  console.log('===============================');
+
+  const args = parseArgs(process.argv.slice(2));
+  const dataset = loadEvaluationDataset((args.dataset as string) || 'eval/datasets/fire-safety-qa.json');
+
+  // RAG configuration: file first, then individual flags
+  const ragConfig: Partial<RAGConfig> = args.config
+    ? JSON.parse(readFileSync(args.config as string, 'utf-8'))
+    : {};
+  if (args.threshold !== undefined) ragConfig.similarityThreshold = numberArg(args, 'threshold');
+  if (args['max-results'] !== undefined) ragConfig.maxSearchResults = numberArg(args, 'max-results');
+  if (args['search-mode']) ragConfig.searchMode = args['search-mode'] as SearchMode;
+  if (args.rerank) {
+    ragConfig.enableReranking = true;
+    ragConfig.reranker = args.rerank as RerankerType;
+  }
+
+  const chunking: ChunkingSettings | undefined = args.index
+    ? { chunkSizeTokens: numberArg(args, 'chunk-size'), chunkOverlapTokens: numberArg(args, 'chunk-overlap') }
+    : undefined;
+
+  const userId = (args.user as string) || (args.index ? `eval_${Date.now()}` : '');
+  if (!userId) {
+    throw new Error('--user is required unless --index is given');
+  }
+
+  const baseline: EvaluationReport | undefined = args.baseline
+    ? JSON.parse(readFileSync(args.baseline as string, 'utf-8'))
+    : undefined;
+
+  console.log(`📚 Dataset: ${dataset.name} (${dataset.questions.length} questions)`);
+  console.log(`👤 User: ${userId}`);
+
+  const indexed = args.index ? await indexDatasetDocuments(dataset, userId, chunking) : undefined;
+
+  try {
+    const evaluator = new RAGEvaluator(new RAGService(ragConfig));
+    const report = await evaluator.evaluate(dataset, {
+      userId,
+      documentIds: indexed?.documentIds,
+      k: numberArg(args, 'k'),
+      retrievalOnly: !!args['retrieval-only'],
+      label: args.label as string | undefined,
+      chunking
+    });
+
+    const { jsonPath, htmlPath } = writeEvaluationReport(report, (args.out as string) || 'eval/reports', baseline);
+
+    console.log('\n📊 Evaluation Summary');
+    console.log('=====================');
+    if (baseline) {
+      compareReports(baseline, report).forEach(row => {
+        const delta = row.delta === null ? '' : ` (${row.delta > 0 ? '+' : ''}${row.delta})`;
+        console.log(`   ${row.metric}: ${row.current ?? '–'}${delta}`);
+      });
+    } else {
+      console.log(`   Recall@${report.k}: ${report.summary.recallAtK}`);
+      console.log(`   MRR: ${report.summary.mrr}`);
+      console.log(`   Citation accuracy: ${report.summary.citationAccuracy ?? '–'} (${report.summary.citedAnswers} cited answers)`);
+      console.log(`   Answer similarity: ${report.summary.answerSimilarity ?? '–'}`);
+      console.log(`   Failed questions: ${report.summary.failed}`);
+    }
+    console.log(`\n📄 Report: ${jsonPath}`);
+    console.log(`📄 HTML:   ${htmlPath}`);
+
+  } finally {
+    await indexed?.cleanup();
+  }
+}
+
+runEvaluation()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error(`\n💥 Evaluation failed: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  });
@@ -0,0 +1,208 @@
+/**
+ * Storage Migration Script
+ *
+ * Copies every stored document file (current files and earlier revisions) from one storage
+ * driver to another, keeping the same object paths so the database needs no changes. Each
+ * file is verified against its recorded SHA-256 on download and read back from the target
+ * after the copy. Files already present in the target with the same checksum are skipped,
+ * so an interrupted migration can simply be run again. Switch STORAGE_DRIVER afterwards.
+ *
+ * Usage:
+ *   npm run storage:migrate -- --from supabase --to s3
+ *   npm run storage:migrate -- --from supabase --to local --dry-run
+ *
+ * Options:
+ *   --from <driver>   Source driver: supabase | local | s3
+ *   --to <driver>     Target driver: supabase | local | s3
+ *   --dry-run         List the files that would be copied without copying them
+ *   --overwrite       Replace target files whose checksum differs instead of reporting them
+ *
+ * Each driver is configured from the usual environment variables (SUPABASE_*, STORAGE_LOCAL_PATH, S3_*).
+ *
+ * @author ARYA RAG Team
+ */
+
+import dotenv from 'dotenv';
+import { DatabaseClient } from '../config/database.js';
+import { StorageDriverType } from '../services/storage/StorageDriver.js';
+import { StorageDriverFactory } from '../services/storage/StorageDriverFactory.js';
+import { StorageService } from '../services/storage/StorageService.js';
+
+// Load environment variables
+dotenv.config();
+
+const BOOLEAN_FLAGS = new Set(['dry-run', 'overwrite']);
+const DRIVERS: StorageDriverType[] = ['supabase', 'local', 's3'];
+const PAGE_SIZE = 1000;
+
+interface StoredFile {
+  path: string;
+  checksum?: string;
+  mimeType: string;
+}
+
+/**
+ * Parse --name value pairs and boolean flags
+ */
+function parseArgs(argv: string[]): Record<string, string | boolean> {
+  const args: Record<string, string | boolean> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const name = argv[i].replace(/^--/, '');
+    if (!argv[i].startsWith('--')) {
+      throw new Error(`Unexpected argument: ${argv[i]}`);
+    }
+
+    if (BOOLEAN_FLAGS.has(name)) {
+      args[name] = true;
+    } else if (i + 1 < argv.length) {
+      args[name] = argv[++i];
+    } else {
+      throw new Error(`Missing value for --${name}`);
+    }
+  }
+
+  return args;
+}
+
+function driverArg(args: Record<string, string | boolean>, name: string): StorageDriverType {
+  const driver = args[name] as StorageDriverType;
+  if (!DRIVERS.includes(driver)) {
+    throw new Error(`--${name} must be one of: ${DRIVERS.join(', ')}`);
+  }
+  return driver;
+}
+
+/**
+ * Every file referenced by a document or revision, with the hash recorded at upload
+ */
+async function listStoredFiles(): Promise<StoredFile[]> {
+  const db = DatabaseClient.getInstance().getClient();
+  const files = new Map<string, StoredFile>();
+
+  for (const table of ['user_documents', 'document_revisions']) {
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await (db as any)
+        .from(table)
+        .select('storage_path, file_hash, mime_type')
+        .not('storage_path', 'is', null)
+        .order('storage_path')
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(`Failed to list files from ${table}: ${error.message}`);
+      }
+
+      (data || []).forEach((row: any) => {
+        if (!files.has(row.storage_path)) {
+          files.set(row.storage_path, {
+            path: row.storage_path,
+            checksum: row.file_hash || undefined,
+            mimeType: row.mime_type || 'application/pdf'
+          });
+        }
+      });
+
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+  }
+
+  return Array.from(files.values());
+}
+
+async function runMigration() {
+  console.log('🚚 Starting ARYA-RAG Storage Migration');
+  console.log('======================================');
+
+  const args = parseArgs(process.argv.slice(2));
+  const from = driverArg(args, 'from');
+  const to = driverArg(args, 'to');
+  if (from === to) {
+    throw new Error('--from and --to must be different drivers');
+  }
+
+  const factory = StorageDriverFactory.getInstance();
+  const sourceDriver = factory.createDriver({ driver: from });
+  const targetDriver = factory.createDriver({ driver: to });
+  const source = StorageService.withDriver(sourceDriver);
+  const target = StorageService.withDriver(targetDriver);
+
+  if (!(await sourceDriver.testConnection()) || !(await targetDriver.testConnection())) {
+    throw new Error('Storage drivers are not reachable');
+  }
+
+  const files = await listStoredFiles();
+  console.log(`📚 ${files.length} stored files: ${from} → ${to}${args['dry-run'] ? ' (dry run)' : ''}`);
+
+  let copied = 0;
+  let skipped = 0;
+  const failed: Array<{ path: string; error: string }> = [];
+
+  for (const [index, file] of files.entries()) {
+    const progress = `[${index + 1}/${files.length}]`;
+
+    try {
+      const existing = await targetDriver.statObject(file.path);
+      if (existing && existing.checksum && existing.checksum === file.checksum) {
+        skipped++;
+        console.log(`⏭️  ${progress} ${file.path} already in ${to}`);
+        continue;
+      }
+      if (existing && !args.overwrite) {
+        throw new Error(`A different file already exists in ${to} (use --overwrite to replace it)`);
+      }
+
+      if (args['dry-run']) {
+        copied++;
+        console.log(`📄 ${progress} ${file.path} would be copied`);
+        continue;
+      }
+
+      const download = await source.downloadFile(file.path, file.checksum);
+      if (!download.success || !download.buffer || !download.metadata) {
+        throw new Error(download.error || 'Download failed');
+      }
+
+      await targetDriver.putObject(file.path, download.buffer, {
+        mimeType: file.mimeType,
+        checksum: download.metadata.checksum,
+        overwrite: !!existing
+      });
+
+      // Read the copy back so a truncated or altered upload is caught now, not at the next ingestion
+      const verified = await target.downloadFile(file.path, download.metadata.checksum);
+      if (!verified.success) {
+        throw new Error(`Copy failed verification: ${verified.error}`);
+      }
+
+      copied++;
+      console.log(`✅ ${progress} ${file.path} (${download.buffer.length} bytes)`);
+
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      failed.push({ path: file.path, error: message });
+      console.error(`❌ ${progress} ${file.path}: ${message}`);
+    }
+  }
+
+  console.log('\n📊 Migration Summary');
+  console.log('====================');
+  console.log(`   ${args['dry-run'] ? 'To copy' : 'Copied'}: ${copied}`);
+  console.log(`   Already present: ${skipped}`);
+  console.log(`   Failed: ${failed.length}`);
+  failed.forEach(({ path, error }) => console.log(`   - ${path}: ${error}`));
+
+  if (failed.length > 0) {
+    throw new Error(`${failed.length} files were not migrated`);
+  }
+  if (!args['dry-run']) {
+    console.log(`\n🎉 All files are in ${to}; set STORAGE_DRIVER=${to} to switch`);
+  }
+}
+
+runMigration()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error(`\n💥 Storage migration failed: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  });
@@ -10,6 +10,14 @@
 import dotenv from 'dotenv';
 import { AppConfig } from './app';
 import { DatabaseClient } from './config/database';
+import { JobQueueService } from './services/jobs/JobQueueService';
+import { EmbeddingMigrationService } from './services/embedding/EmbeddingMigrationService';
+import { AuthService } from './services/auth/AuthService';
+import {
+  INGEST_DOCUMENT_JOB,
+  documentIngestionHandler,
+  recoverOrphanedDocuments
+} from './services/ingestion/DocumentIngestionPipeline';
 
 /**
  * Load environment variables
@@ -45,6 +53,9 @@ async function startServer(): Promise<void> {
     
     await app.start(port);
 
+    // Start the ingestion worker after the server is accepting uploads
+    await startIngestionWorker();
+
   } catch (error) {
     console.error('💥 Server startup failed:', error);
     process.exit(1);
@@ -85,9 +96,18 @@ async function validateEnvironment(): Promise<void> {
     throw new Error('OpenAI LLM provider requires OPENAI_API_KEY environment variable');
   }
 
+  if (process.env.STORAGE_DRIVER === 's3' && (!process.env.S3_ACCESS_KEY_ID || !process.env.S3_SECRET_ACCESS_KEY)) {
+    throw new Error('S3 storage driver requires S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY environment variables');
+  }
+
+  // AuthService refuses the example AUTH_JWT_SECRET; fail here rather than on the first request
+  AuthService.getInstance();
+
   console.log('✅ Environment validation passed');
   console.log(`   Embedding Provider: ${embeddingProvider}`);
   console.log(`   LLM Provider: ${llmProvider}`);
+  console.log(`   Vector Store: ${process.env.VECTOR_STORE || 'pgvector'}`);
+  console.log(`   File Storage: ${process.env.STORAGE_DRIVER || 'supabase'}`);
   console.log(`   Database: Supabase (${process.env.SUPABASE_URL?.split('.')[0]}...)`);
 }
 
@@ -116,6 +136,35 @@ async function testDatabaseConnection(): Promise<void> {
   }
 }
 
+/**
+ * Start the durable ingestion job worker and the embedding migration worker
+ * Set INGESTION_WORKER_ENABLED=false to run an API-only instance
+ */
+async function startIngestionWorker(): Promise<void> {
+  if (process.env.INGESTION_WORKER_ENABLED === 'false') {
+    console.log('👷 Ingestion worker disabled (INGESTION_WORKER_ENABLED=false)');
+    return;
+  }
+
+  const queue = JobQueueService.getInstance();
+  queue.registerHandler(INGEST_DOCUMENT_JOB, documentIngestionHandler);
+
+  try {
+    // Documents stuck in pending/processing from before the queue (or a crash) get a job
+    const recovered = await recoverOrphanedDocuments((documentId, userId) =>
+      queue.enqueue(INGEST_DOCUMENT_JOB, documentId, userId)
+    );
+    if (recovered > 0) {
+      console.log(`👷 Queued ${recovered} documents that were left unprocessed`);
+    }
+  } catch (error) {
+    console.warn('⚠️  Could not recover unprocessed documents:', error instanceof Error ? error.message : error);
+  }
+
+  queue.start();
+  EmbeddingMigrationService.getInstance().start();
+}
+
 /**
  * Test AI services availability
  */
@@ -0,0 +1,480 @@
+/**
+ * Authentication Service
+ *
+ * Resolves the caller of a request to a user. Three credential types are accepted:
+ * - Session tokens (HS256 JWTs) issued by POST /api/auth/login for local accounts
+ * - API keys (arya_<prefix>_<secret>), stored as sha256 hashes in api_keys
+ * - Tokens from an external OIDC provider when AUTH_OIDC_ISSUER is configured
+ *
+ * @author ARYA RAG Team
+ */
+
+import { createHash, randomBytes, randomUUID, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { DatabaseClient } from '../../config/database';
+import { ApiKeyInfo, AuthConfig, AuthMethod, AuthRole, AuthSession, AuthUser, CreatedApiKey, StreamToken } from '@arya-rag/types';
+import { signJwt, verifyHmacJwt } from '../../utils/jwt';
+import { isValidUserId, USER_ID_FORMAT_MESSAGE } from '../../utils/userId';
+import { OidcVerifier } from './OidcVerifier';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number, options: { N: number; r: number; p: number }) => Promise<Buffer>;
+
+const TOKEN_ISSUER = 'arya-rag';
+const API_KEY_PREFIX = 'arya';
+const SCRYPT_PARAMS = { N: 16384, r: 8, p: 1 };
+const SCRYPT_KEY_LENGTH = 64;
+const STREAM_TOKEN_TTL_SECONDS = 60;
+
+// The example value from .env.example; anyone who has read it could sign session tokens
+const PLACEHOLDER_JWT_SECRET = 'change-me-to-a-long-random-string';
+
+// Tables whose rows show a userId was in use before accounts existed
+const USER_DATA_TABLES = ['user_documents', 'conversations'];
+
+/**
+ * What a stream token may open; session tokens have no scope
+ */
+export type TokenScope = 'document-events';
+
+/**
+ * The authenticated caller of a request
+ */
+export interface AuthPrincipal {
+  userId: string;
+  role: AuthRole;
+  method: AuthMethod;
+}
+
+export interface AuthServiceConfig {
+  enabled: boolean;
+  jwtSecret: string;
+  tokenTtlSeconds: number;
+  allowRegistration: boolean;
+  adminUsers: string[]; // OIDC users who are admins without a local account
+}
+
+export class AuthService {
+  private static instance: AuthService;
+  private config: AuthServiceConfig;
+  private oidc: OidcVerifier | null;
+
+  private constructor() {
+    const enabled = process.env.AUTH_ENABLED !== 'false';
+    let jwtSecret = process.env.AUTH_JWT_SECRET || '';
+    if (enabled && jwtSecret === PLACEHOLDER_JWT_SECRET) {
+      throw new Error('AUTH_JWT_SECRET is still the example value from .env.example; set it to a long random string (e.g. openssl rand -hex 32)');
+    }
+    if (!jwtSecret) {
+      // Sessions stop working across restarts and between instances, so only acceptable in development
+      jwtSecret = randomBytes(32).toString('hex');
+      console.warn('⚠️ AUTH_JWT_SECRET is not set; using a random secret, sessions end when the server restarts');
+    }
+
+    this.config = {
+      enabled,
+      jwtSecret,
+      tokenTtlSeconds: parseInt(process.env.AUTH_TOKEN_TTL_SECONDS || '86400'),
+      allowRegistration: process.env.AUTH_ALLOW_REGISTRATION === 'true',
+      adminUsers: (process.env.AUTH_ADMIN_USERS || '')
+        .split(',')
+        .map(user => user.trim())
+        .filter(Boolean)
+    };
+    this.oidc = OidcVerifier.fromEnvironment();
+  }
+
+  /**
+   * Get singleton instance of AuthService
+   */
+  public static getInstance(): AuthService {
+    if (!AuthService.instance) {
+      AuthService.instance = new AuthService();
+    }
+    return AuthService.instance;
+  }
+
+  /**
+   * Whether requests must authenticate (AUTH_ENABLED=false turns checks off for local development)
+   */
+  isEnabled(): boolean {
+    return this.config.enabled;
+  }
+
+  /**
+   * What the login screen should offer
+   */
+  async getConfig(): Promise<AuthConfig> {
+    const methods: AuthMethod[] = ['password', 'api_key'];
+    if (this.oidc) {
+      methods.push('oidc');
+    }
+
+    return {
+      enabled: this.config.enabled,
+      methods,
+      registrationOpen: this.isRegistrationOpen(),
+      oidcIssuer: this.oidc?.issuer
+    };
+  }
+
+  /**
+   * Whether anyone may create their own account (AUTH_ALLOW_REGISTRATION=true)
+   * Otherwise admins create accounts (POST /api/auth/accounts, or npm run auth:create-user for the first admin)
+   */
+  isRegistrationOpen(): boolean {
+    return this.config.allowRegistration;
+  }
+
+  // ===== Local accounts =====
+
+  async getUser(userId: string): Promise<AuthUser | null> {
+    const db = DatabaseClient.getInstance().getClient();
+
+    const { data, error } = await (db as any)
+      .from('auth_users')
+      .select('user_id, role, created_at, last_login_at')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load user: ${error.message}`);
+    }
+
+    return data ? this.mapUser(data) : null;
+  }
+
+  /**
+   * Whether a userId already has documents or conversations, e.g. from before sign-in was enabled
+   * Self-registration must not hand that data to whoever claims the name first
+   */
+  async hasExistingData(userId: string): Promise<boolean> {
+    const db = DatabaseClient.getInstance().getClient();
+
+    for (const table of USER_DATA_TABLES) {
+      const { count, error } = await (db as any)
+        .from(table)
+        .select('user_id', { count: 'exact', head: true })
+        .eq('user_id', userId);
+
+      if (error) {
+        throw new Error(`Failed to check existing data in ${table}: ${error.message}`);
+      }
+      if ((count || 0) > 0) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Create a local account
+   * Self-registration always creates users; only admins (or the create-user script) create admins
+   */
+  async register(userId: string, password: string, role: AuthRole = 'user'): Promise<AuthUser> {
+    if (!isValidUserId(userId)) {
+      throw new Error(USER_ID_FORMAT_MESSAGE);
+    }
+
+    const db = DatabaseClient.getInstance().getClient();
+
+    const { data, error } = await (db as any)
+      .from('auth_users')
+      .insert({
+        user_id: userId,
+        password_hash: await this.hashPassword(password),
+        role
+      })
+      .select('user_id, role, created_at, last_login_at')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create user: ${error.message}`);
+    }
+
+    console.log(`👤 Registered ${role} account ${userId}`);
+    return this.mapUser(data);
+  }
+
+  /**
+   * Check a password and issue a session token; null when the credentials are wrong
+   */
+  async login(userId: string, password: string): Promise<AuthSession | null> {
+    const db = DatabaseClient.getInstance().getClient();
+
+    const { data, error } = await (db as any)
+      .from('auth_users')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load user: ${error.message}`);
+    }
+
+    // Hash anyway for unknown users so response time does not reveal which accounts exist
+    const valid = await this.verifyPassword(password, data?.password_hash || null);
+    if (!data || !valid) {
+      return null;
+    }
+
+    await (db as any)
+      .from('auth_users')
+      .update({ last_login_at: new Date().toISOString() })
+      .eq('user_id', userId);
+
+    return this.issueSession(this.mapUser(data));
+  }
+
+  /**
+   * Sign a session token for a user
+   */
+  issueSession(user: AuthUser): AuthSession {
+    const now = Math.floor(Date.now() / 1000);
+    const exp = now + this.config.tokenTtlSeconds;
+
+    const token = signJwt({
+      sub: user.userId,
+      role: user.role,
+      iss: TOKEN_ISSUER,
+      iat: now,
+      exp
+    }, this.config.jwtSecret);
+
+    return {
+      token,
+      expiresAt: new Date(exp * 1000).toISOString(),
+      user
+    };
+  }
+
+  /**
+   * Sign a short-lived token for a stream that cannot send headers (EventSource)
+   * It travels in the query string, so it only opens streams of its scope and expires quickly;
+   * an open stream is not closed when the token expires
+   */
+  issueStreamToken(principal: AuthPrincipal, scope: TokenScope): StreamToken {
+    const now = Math.floor(Date.now() / 1000);
+    const exp = now + STREAM_TOKEN_TTL_SECONDS;
+
+    const token = signJwt({
+      sub: principal.userId,
+      role: principal.role,
+      method: principal.method,
+      scope,
+      iss: TOKEN_ISSUER,
+      iat: now,
+      exp
+    }, this.config.jwtSecret);
+
+    return {
+      token,
+      expiresAt: new Date(exp * 1000).toISOString()
+    };
+  }
+
+  // ===== Credential verification =====
+
+  /**
+   * Verify a bearer token: the OIDC provider's or our own session tokens, or a stream
+   * token when a scope is given
+   * Throws when the token is invalid
+   */
+  async authenticateToken(token: string, scope?: TokenScope): Promise<AuthPrincipal> {
+    if (!scope && this.oidc && this.oidc.isIssuedBy(token)) {
+      const { userId } = await this.oidc.verify(token);
+      const user = await this.getUser(userId);
+
+      return {
+        userId,
+        role: user?.role || (this.config.adminUsers.includes(userId) ? 'admin' : 'user'),
+        method: 'oidc'
+      };
+    }
+
+    const payload = verifyHmacJwt(token, this.config.jwtSecret, { issuer: TOKEN_ISSUER, requireExp: true });
+    if (typeof payload.sub !== 'string') {
+      throw new Error('Session token is missing required claims');
+    }
+
+    // Stream tokens are not session tokens, and session tokens do not belong in URLs
+    if ((payload.scope || undefined) !== scope) {
+      throw new Error(scope ? `Token is not a ${scope} stream token` : 'Stream tokens cannot be used as session tokens');
+    }
+
+    return {
+      userId: payload.sub,
+      role: payload.role === 'admin' ? 'admin' : 'user',
+      method: scope && (payload.method === 'api_key' || payload.method === 'oidc') ? payload.method : 'password'
+    };
+  }
+
+  /**
+   * Resolve an API key to its owner; null for unknown or revoked keys
+   */
+  async authenticateApiKey(key: string): Promise<AuthPrincipal | null> {
+    const db = DatabaseClient.getInstance().getClient();
+
+    const { data, error } = await (db as any)
+      .from('api_keys')
+      .select('key_id, user_id, revoked_at, auth_users(role)')
+      .eq('key_hash', this.hashApiKey(key))
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to look up API key: ${error.message}`);
+    }
+
+    if (!data || data.revoked_at) {
+      return null;
+    }
+
+    // Best effort; a failed timestamp update should not fail the request
+    (db as any)
+      .from('api_keys')
+      .update({ last_used_at: new Date().toISOString() })
+      .eq('key_id', data.key_id)
+      .then(({ error: updateError }: any) => {
+        if (updateError) {
+          console.warn(`⚠️ Failed to record API key use: ${updateError.message}`);
+        }
+      });
+
+    return {
+      userId: data.user_id,
+      role: data.auth_users?.role === 'admin' ? 'admin' : 'user',
+      method: 'api_key'
+    };
+  }
+
+  // ===== API keys =====
+
+  /**
+   * Create an API key for a user; the returned key is not stored and cannot be shown again
+   */
+  async createApiKey(principal: AuthPrincipal, name: string): Promise<CreatedApiKey> {
+    const db = DatabaseClient.getInstance().getClient();
+
+    // OIDC users have no local account until they create their first key
+    if (principal.method === 'oidc') {
+      await (db as any)
+        .from('auth_users')
+        .upsert({ user_id: principal.userId, role: principal.role }, { onConflict: 'user_id', ignoreDuplicates: true });
+    }
+
+    const keyPrefix = randomBytes(4).toString('hex');
+    const key = `${API_KEY_PREFIX}_${keyPrefix}_${randomBytes(24).toString('base64url')}`;
+
+    const { data, error } = await (db as any)
+      .from('api_keys')
+      .insert({
+        key_id: randomUUID(),
+        user_id: principal.userId,
+        name,
+        key_prefix: `${API_KEY_PREFIX}_${keyPrefix}`,
+        key_hash: this.hashApiKey(key)
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create API key: ${error.message}`);
+    }
+
+    console.log(`🔑 Created API key ${data.key_prefix} for ${principal.userId}`);
+    return { ...this.mapApiKey(data), key };
+  }
+
+  async listApiKeys(userId: string): Promise<ApiKeyInfo[]> {
+    const db = DatabaseClient.getInstance().getClient();
+
+    const { data, error } = await (db as any)
+      .from('api_keys')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to list API keys: ${error.message}`);
+    }
+
+    return (data || []).map((row: any) => this.mapApiKey(row));
+  }
+
+  /**
+   * Revoke one of a user's keys; false when the user has no such active key
+   */
+  async revokeApiKey(userId: string, keyId: string): Promise<boolean> {
+    const db = DatabaseClient.getInstance().getClient();
+
+    const { data, error } = await (db as any)
+      .from('api_keys')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('key_id', keyId)
+      .eq('user_id', userId)
+      .is('revoked_at', null)
+      .select('key_id');
+
+    if (error) {
+      throw new Error(`Failed to revoke API key: ${error.message}`);
+    }
+
+    return (data || []).length > 0;
+  }
+
+  // ===== Password hashing =====
+
+  /**
+   * Hash a password as scrypt$N$r$p$salt$hash
+   */
+  async hashPassword(password: string): Promise<string> {
+    const salt = randomBytes(16);
+    const hash = await scryptAsync(password, salt, SCRYPT_KEY_LENGTH, SCRYPT_PARAMS);
+    const { N, r, p } = SCRYPT_PARAMS;
+
+    return `scrypt$${N}$${r}$${p}$${salt.toString('base64')}$${hash.toString('base64')}`;
+  }
+
+  async verifyPassword(password: string, stored: string | null): Promise<boolean> {
+    const parts = stored?.split('$') || [];
+
+    if (parts.length !== 6 || parts[0] !== 'scrypt') {
+      await scryptAsync(password, randomBytes(16), SCRYPT_KEY_LENGTH, SCRYPT_PARAMS);
+      return false;
+    }
+
+    const [, N, r, p, salt, hash] = parts;
+    const expected = Buffer.from(hash, 'base64');
+    const actual = await scryptAsync(password, Buffer.from(salt, 'base64'), expected.length, {
+      N: parseInt(N),
+      r: parseInt(r),
+      p: parseInt(p)
+    });
+
+    return timingSafeEqual(expected, actual);
+  }
+
+  private hashApiKey(key: string): string {
+    return createHash('sha256').update(key).digest('hex');
+  }
+
+  private mapUser(row: any): AuthUser {
+    return {
+      userId: row.user_id,
+      role: row.role === 'admin' ? 'admin' : 'user',
+      createdAt: row.created_at,
+      lastLoginAt: row.last_login_at || undefined
+    };
+  }
+
+  private mapApiKey(row: any): ApiKeyInfo {
+    return {
+      keyId: row.key_id,
+      name: row.name,
+      keyPrefix: row.key_prefix,
+      createdAt: row.created_at,
+      lastUsedAt: row.last_used_at || undefined,
+      revokedAt: row.revoked_at || undefined
+    };
+  }
+}
@@ -0,0 +1,171 @@
+/**
+ * OIDC Token Verifier
+ *
+ * Verifies ID/access tokens issued by an external OpenID Connect provider.
+ * Signing keys come from the provider's JWKS, discovered through
+ * /.well-known/openid-configuration unless AUTH_OIDC_JWKS_URI is set.
+ *
+ * @author ARYA RAG Team
+ */
+
+import { JsonWebKey } from 'crypto';
+import { decodeJwt, verifyAsymmetricSignature, verifyJwtClaims, JwtError, JwtPayload } from '../../utils/jwt';
+import { userIdFromOidcSubject } from '../../utils/userId';
+
+export interface OidcConfig {
+  issuer: string;
+  audience?: string;
+  jwksUri?: string;
+  userClaim: string; // Claim used as the userId
+  jwksCacheTtlMs: number;
+  jwksRefreshCooldownMs: number; // Minimum time between JWKS fetches triggered by an unknown kid
+}
+
+interface JwksKey extends JsonWebKey {
+  kid?: string;
+  use?: string;
+}
+
+export class OidcVerifier {
+  private config: OidcConfig;
+  private keys: JwksKey[] = [];
+  private keysFetchedAt = 0;
+  private lastFetchAttemptAt = 0;
+  private resolvedJwksUri?: string;
+
+  constructor(config: Partial<OidcConfig> & { issuer: string }) {
+    this.config = {
+      userClaim: 'sub',
+      jwksCacheTtlMs: 10 * 60 * 1000,
+      jwksRefreshCooldownMs: 30 * 1000,
+      ...config,
+      issuer: config.issuer.replace(/\/+$/, '')
+    };
+  }
+
+  /**
+   * Build a verifier from AUTH_OIDC_* settings; null when no issuer is configured
+   */
+  static fromEnvironment(): OidcVerifier | null {
+    const issuer = process.env.AUTH_OIDC_ISSUER;
+    if (!issuer) {
+      return null;
+    }
+
+    return new OidcVerifier({
+      issuer,
+      audience: process.env.AUTH_OIDC_AUDIENCE || undefined,
+      jwksUri: process.env.AUTH_OIDC_JWKS_URI || undefined,
+      userClaim: process.env.AUTH_OIDC_USER_CLAIM || 'sub'
+    });
+  }
+
+  get issuer(): string {
+    return this.config.issuer;
+  }
+
+  /**
+   * Whether a token claims to come from this issuer (checked before verifying it)
+   */
+  isIssuedBy(token: string): boolean {
+    try {
+      const { payload } = decodeJwt(token);
+      return typeof payload.iss === 'string' && payload.iss.replace(/\/+$/, '') === this.config.issuer;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Verify signature and claims, returning the userId and the verified payload
+   * The userId is the user claim, mapped onto the userId format when it does not fit
+   */
+  async verify(token: string): Promise<{ userId: string; payload: JwtPayload }> {
+    const decoded = decodeJwt(token);
+    const jwk = await this.getSigningKey(decoded.header.kid);
+
+    verifyAsymmetricSignature(decoded, jwk);
+    verifyJwtClaims(
+      { ...decoded.payload, iss: decoded.payload.iss?.replace(/\/+$/, '') },
+      { issuer: this.config.issuer, audience: this.config.audience, requireExp: true }
+    );
+
+    const subject = decoded.payload[this.config.userClaim];
+    if (typeof subject !== 'string' || subject.length === 0) {
+      throw new JwtError(`Token has no ${this.config.userClaim} claim`);
+    }
+
+    return { userId: userIdFromOidcSubject(this.config.issuer, subject), payload: decoded.payload };
+  }
+
+  /**
+   * Find the key for a kid, refetching the JWKS once if the provider rotated keys
+   * Unknown kids trigger at most one fetch per jwksRefreshCooldownMs, so tokens with made-up
+   * kids cannot make every request call the provider.
+   */
+  private async getSigningKey(kid?: string): Promise<JwksKey> {
+    const expired = Date.now() - this.keysFetchedAt > this.config.jwksCacheTtlMs;
+    if (this.keys.length === 0 || expired) {
+      await this.refreshKeys();
+    }
+
+    let key = this.findKey(kid);
+    const coolingDown = Date.now() - this.lastFetchAttemptAt < this.config.jwksRefreshCooldownMs;
+    if (!key && !expired && !coolingDown) {
+      await this.refreshKeys();
+      key = this.findKey(kid);
+    }
+
+    if (!key) {
+      throw new JwtError(`No signing key found for kid ${kid || '(none)'}`);
+    }
+
+    return key;
+  }
+
+  private findKey(kid?: string): JwksKey | undefined {
+    const signingKeys = this.keys.filter(key => !key.use || key.use === 'sig');
+    if (!kid) {
+      return signingKeys.length === 1 ? signingKeys[0] : undefined;
+    }
+    return signingKeys.find(key => key.kid === kid);
+  }
+
+  private async refreshKeys(): Promise<void> {
+    this.lastFetchAttemptAt = Date.now();
+    const jwksUri = await this.getJwksUri();
+    const response = await fetch(jwksUri);
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch OIDC signing keys: HTTP ${response.status}`);
+    }
+
+    const body = await response.json() as { keys?: JwksKey[] };
+    this.keys = Array.isArray(body.keys) ? body.keys : [];
+    this.keysFetchedAt = Date.now();
+
+    console.log(`🔑 Loaded ${this.keys.length} OIDC signing keys from ${jwksUri}`);
+  }
+
+  private async getJwksUri(): Promise<string> {
+    if (this.config.jwksUri) {
+      return this.config.jwksUri;
+    }
+    if (this.resolvedJwksUri) {
+      return this.resolvedJwksUri;
+    }
+
+    const response = await fetch(`${this.config.issuer}/.well-known/openid-configuration`);
+    if (!response.ok) {
+      throw new Error(`OIDC discovery failed for ${this.config.issuer}: HTTP ${response.status}`);
+    }
+
+    const discovery = await response.json() as { jwks_uri?: string };
+    if (!discovery.jwks_uri) {
+      throw new Error(`OIDC discovery document for ${this.config.issuer} has no jwks_uri`);
+    }
+
+    this.resolvedJwksUri = discovery.jwks_uri;
+    return discovery.jwks_uri;
+  }
+}
@@ -7,13 +7,15 @@
  * @author ARYA RAG Team
  */
 
-import { PageContent, DocumentChunk } from '@arya-rag/types';
+import { PageContent, PageTable, DocumentChunk } from '@arya-rag/types';
 import { 
   countTokens, 
   splitTextAtTokenCount, 
   findSentenceBoundary,
   isWithinTokenLimit,
-  getTokenStats 
+  getTokenStats,
+  getTokenizer,
+  Tokenizer
 } from '../../utils/tokenCounter';
 
 /**
@@ -39,6 +41,10 @@ export const SECTION_PATTERNS = {
   STEP: /^(?:step)\s+(\d+)[\s:]+(.+)/im
 };
 
+// Markdown table rows and the |---| line under the header
+const TABLE_ROW = /^\s*\|.*\|\s*$/;
+const TABLE_SEPARATOR = /^\s*\|(\s*:?-{3,}:?\s*\|)+\s*$/;
+
 export interface ChunkingOptions {
   chunkSizeTokens: number;        // Target size for each chunk (default: 600)
   chunkOverlapTokens: number;     // Overlap between chunks (default: 100)
@@ -57,6 +63,27 @@ export interface ChunkingResult {
   processingTime: number;
 }
 
+export interface ParentChildOptions {
+  childSizeTokens: number;       // Size of the indexed child chunks (default: 200)
+  childOverlapTokens: number;    // Overlap between child chunks (default: 40)
+  maxParentTokens: number;       // Largest parent expanded into the LLM context (default: 1500)
+}
+
+/**
+ * Section-sized span of a document that its child chunks expand to at query time
+ * Not embedded; stored in document_chunk_parents
+ */
+export interface ParentChunk {
+  parentIndex: number;
+  documentId: string;
+  text: string;
+  tokenCount: number;
+  pageStart: number;
+  pageEnd: number;
+  sectionTitle?: string;
+  sectionHierarchy?: DocumentChunk['sectionHierarchy'];
+}
+
 export class ChunkingService {
   private readonly defaultOptions: ChunkingOptions = {
     chunkSizeTokens: process.env.CHUNK_SIZE_TOKENS ? parseInt(process.env.CHUNK_SIZE_TOKENS) : 800,
@@ -68,6 +95,16 @@ export class ChunkingService {
     enhancedMetadata: true
   };
 
+  // Chunks are sized in the embedding model's tokens so they fit its input window
+  protected readonly tokenizer: Tokenizer;
+
+  /**
+   * @param embeddingModel - Model the chunks will be embedded with (default: EMBEDDING_MODEL)
+   */
+  constructor(embeddingModel?: string) {
+    this.tokenizer = getTokenizer(embeddingModel);
+  }
+
   /**
    * Process pages into chunks with intelligent splitting
    * Main entry point for the chunking service
@@ -87,6 +124,7 @@ export class ChunkingService {
     
     console.log(`📄 Starting chunking for document ${documentId}`);
     console.log(`   Configuration: ${JSON.stringify(config)}`);
+    console.log(`   Tokenizer: ${this.tokenizer.name}${this.tokenizer.exact ? '' : ' (approximate)'}`);
 
     const chunks: DocumentChunk[] = [];
     let totalTokens = 0;
@@ -100,13 +138,14 @@ export class ChunkingService {
         chunkIndex,
         config
       );
+      this.markOcrChunks(pageChunks, page);
       
       chunks.push(...pageChunks);
       chunkIndex += pageChunks.length;
       
       // Track token usage
       const pageTokens = pageChunks.reduce((sum, chunk) => {
-        return sum + countTokens(chunk.chunkText);
+        return sum + countTokens(chunk.chunkText, this.tokenizer);
       }, 0);
       totalTokens += pageTokens;
 
@@ -129,6 +168,17 @@ export class ChunkingService {
     };
   }
 
+  /**
+   * Carry a page's OCR provenance onto its chunks so citations can flag it
+   */
+  protected markOcrChunks(chunks: DocumentChunk[], page: PageContent): void {
+    if (!page.ocr) return;
+    chunks.forEach(chunk => {
+      chunk.ocr = true;
+      chunk.ocrConfidence = page.ocrConfidence;
+    });
+  }
+
   /**
    * Chunk a single page respecting token limits and boundaries
    * 
@@ -162,9 +212,11 @@ export class ChunkingService {
       }
     }
 
+    const tables = page.tables ?? findMarkdownTables(page.text);
+
     // If the entire page fits in one chunk, return it as is
-    if (isWithinTokenLimit(page.text, config.chunkSizeTokens)) {
-      chunks.push(this.createEnhancedChunk(
+    if (isWithinTokenLimit(page.text, config.chunkSizeTokens, this.tokenizer)) {
+      const chunk = this.createEnhancedChunk(
         page.text,
         documentId,
         page.pageNumber,
@@ -174,13 +226,46 @@ export class ChunkingService {
         enhancedSectionTitle,
         config,
         detectedSections
-      ));
+      );
+      if (tables.length > 0) {
+        chunk.containsTable = true;
+      }
+      chunks.push(chunk);
       return chunks;
     }
 
-    // Split page into chunks
-    let remainingText = page.text;
-    let currentPosition = 0;
+    // Tables are chunked on their own so rows stay with their header; prose around them is split as usual
+    let chunkIndex = startIndex;
+    for (const span of splitAroundTables(page.text, tables)) {
+      const spanChunks = span.table
+        ? this.chunkTable(page, span.table, documentId, chunkIndex, config, enhancedSectionTitle, detectedSections)
+        : this.chunkText(page, span.start, span.end, documentId, chunkIndex, config, enhancedSectionTitle, detectedSections);
+      chunks.push(...spanChunks);
+      chunkIndex += spanChunks.length;
+    }
+
+    return chunks;
+  }
+
+  /**
+   * Split part of a page into overlapping chunks, preferring sentence boundaries
+   *
+   * @param start - Character offset of the text in the page
+   * @param end - End offset of the text in the page
+   */
+  private chunkText(
+    page: PageContent,
+    start: number,
+    end: number,
+    documentId: string,
+    startIndex: number,
+    config: ChunkingOptions,
+    enhancedSectionTitle: string | undefined,
+    detectedSections: Array<{number: string; title: string; line: number; type: string}>
+  ): DocumentChunk[] {
+    const chunks: DocumentChunk[] = [];
+    let remainingText = page.text.substring(start, end);
+    let currentPosition = start;
     let chunkIndex = startIndex;
     let previousChunkText = '';
 
@@ -196,10 +281,11 @@ export class ChunkingService {
       }
 
       // Determine how much text we can add to reach target chunk size
-      const remainingTokenBudget = config.chunkSizeTokens - countTokens(chunkText);
+      const remainingTokenBudget = config.chunkSizeTokens - countTokens(chunkText, this.tokenizer);
       const [mainContent, leftoverText] = splitTextAtTokenCount(
         remainingText,
-        remainingTokenBudget
+        remainingTokenBudget,
+        this.tokenizer
       );
 
       // If preserving sentences, adjust the split point
@@ -228,7 +314,8 @@ export class ChunkingService {
         page.pageNumber,
         chunkIndex,
         currentPosition,
-        currentPosition + finalContent.length,
+        // The stored chunk text is trimmed; keep its end aligned with the page text
+        currentPosition + finalContent.trimEnd().length,
         enhancedSectionTitle,
         config,
         detectedSections
@@ -250,6 +337,70 @@ export class ChunkingService {
     return chunks;
   }
 
+  /**
+   * Keep a table in one chunk, or split it between rows with the header repeated in every part
+   * A single row larger than the budget stays whole rather than losing its header.
+   */
+  private chunkTable(
+    page: PageContent,
+    table: PageTable,
+    documentId: string,
+    startIndex: number,
+    config: ChunkingOptions,
+    enhancedSectionTitle: string | undefined,
+    detectedSections: Array<{number: string; title: string; line: number; type: string}>
+  ): DocumentChunk[] {
+    const tableText = page.text.substring(table.start, table.end);
+    const header = table.header && tableText.startsWith(table.header) ? table.header : '';
+    const parts: Array<{ text: string; start: number; end: number }> = [];
+
+    if (isWithinTokenLimit(tableText, config.chunkSizeTokens, this.tokenizer)) {
+      parts.push({ text: tableText, start: table.start, end: table.end });
+    } else {
+      const rowBudget = config.chunkSizeTokens - countTokens(header, this.tokenizer);
+      let rows: string[] = [];
+      let rowTokens = 0;
+      // The first part starts with the header itself; later ones start at their first row
+      let partStart = table.start;
+      let rowsStart = table.start + header.length;
+
+      for (const row of tableText.substring(header.length).split('\n')) {
+        const tokens = countTokens(row + '\n', this.tokenizer);
+        if (rows.length > 0 && rowTokens + tokens > rowBudget) {
+          const body = rows.join('\n');
+          parts.push({ text: header + body, start: partStart, end: rowsStart + body.length });
+          rowsStart += body.length + 1;
+          partStart = rowsStart;
+          rows = [];
+          rowTokens = 0;
+        }
+        rows.push(row);
+        rowTokens += tokens;
+      }
+
+      const body = rows.join('\n');
+      if (body.trim()) {
+        parts.push({ text: header + body, start: partStart, end: rowsStart + body.length });
+      }
+    }
+
+    return parts.map((part, i) => {
+      const chunk = this.createEnhancedChunk(
+        part.text.trim(),
+        documentId,
+        page.pageNumber,
+        startIndex + i,
+        part.start,
+        part.end,
+        enhancedSectionTitle,
+        config,
+        detectedSections
+      );
+      chunk.containsTable = true;
+      return chunk;
+    });
+  }
+
   /**
    * Extract overlap text from the end of the previous chunk
    * 
@@ -266,7 +417,7 @@ export class ChunkingService {
     // Build overlap from end of previous chunk
     for (let i = words.length - 1; i >= 0; i--) {
       const testText = words.slice(i).join(' ');
-      const tokens = countTokens(testText);
+      const tokens = countTokens(testText, this.tokenizer);
       
       if (tokens > overlapTokens) {
         break;
@@ -424,7 +575,7 @@ export class ChunkingService {
     const chunkId = `${documentId}-chunk-${chunkIndex}`;
     
     // Calculate token count for this chunk
-    const tokenCount = countTokens(content);
+    const tokenCount = countTokens(content, this.tokenizer);
 
     return {
       id: chunkId,
@@ -496,6 +647,93 @@ export class ChunkingService {
     return baseChunk;
   }
 
+  /**
+   * Split a document into small child chunks for indexing, each pointing to a parent for context
+   * Parents are runs of consecutive chunks in the same section (by sectionHierarchy, or
+   * sectionTitle without an outline), up to maxParentTokens, so a procedure that spans two
+   * chunks of its section comes back whole. Parent text is read from the pages rather than
+   * joined from chunks, so chunk overlap is not repeated.
+   *
+   * @param chunks - Chunks of the document at the regular size, in order
+   * @param pages - The pages they were chunked from
+   * @param documentId - Document identifier
+   * @param options - Child and parent sizes
+   */
+  async createParentChildChunks(
+    chunks: DocumentChunk[],
+    pages: PageContent[],
+    documentId: string,
+    options: ParentChildOptions
+  ): Promise<{ parents: ParentChunk[]; children: DocumentChunk[] }> {
+    const pageText = new Map(pages.map(page => [page.pageNumber, page.text]));
+    const sectionKey = (chunk: DocumentChunk) => chunk.sectionHierarchy?.length
+      ? chunk.sectionHierarchy.map(section => section.title).join('\u0000')
+      : chunk.sectionTitle;
+
+    // Group consecutive chunks of the same section
+    const groups: DocumentChunk[][] = [];
+    let groupTokens = 0;
+    for (const chunk of chunks) {
+      const group = groups[groups.length - 1];
+      const key = sectionKey(chunk);
+      if (group && key !== undefined && key === sectionKey(group[0]) &&
+          groupTokens + chunk.chunkTokens <= options.maxParentTokens) {
+        group.push(chunk);
+        groupTokens += chunk.chunkTokens;
+      } else {
+        groups.push([chunk]);
+        groupTokens = chunk.chunkTokens;
+      }
+    }
+
+    const parents: ParentChunk[] = groups.map((group, parentIndex) => {
+      const first = group[0];
+      const last = group[group.length - 1];
+      const parts: string[] = [];
+      for (let pageNumber = first.pageNumber; pageNumber <= last.pageNumber; pageNumber++) {
+        const text = pageText.get(pageNumber) || '';
+        const start = pageNumber === first.pageNumber ? first.pagePositionStart : 0;
+        const end = pageNumber === last.pageNumber ? last.pagePositionEnd : text.length;
+        parts.push(text.slice(start, end).trim());
+      }
+      const text = parts.filter(Boolean).join('\n\n');
+
+      return {
+        parentIndex,
+        documentId,
+        text,
+        tokenCount: countTokens(text, this.tokenizer),
+        pageStart: first.pageNumber,
+        pageEnd: last.pageNumber,
+        sectionTitle: first.sectionTitle,
+        sectionHierarchy: first.sectionHierarchy
+      };
+    });
+
+    const { chunks: children } = await this.processPages(pages, documentId, {
+      chunkSizeTokens: options.childSizeTokens,
+      chunkOverlapTokens: options.childOverlapTokens
+    });
+
+    // A child belongs to the last parent starting at or before it
+    const starts = groups.map(group => ({ page: group[0].pageNumber, position: group[0].pagePositionStart }));
+    let parentIndex = 0;
+    children.forEach(child => {
+      while (parentIndex + 1 < starts.length && (
+        starts[parentIndex + 1].page < child.pageNumber ||
+        (starts[parentIndex + 1].page === child.pageNumber && starts[parentIndex + 1].position <= child.pagePositionStart)
+      )) {
+        parentIndex++;
+      }
+      child.parentIndex = parentIndex;
+      child.sectionHierarchy = parents[parentIndex]?.sectionHierarchy;
+    });
+
+    console.log(`👪 Parent-child chunks: ${children.length} children under ${parents.length} parents`);
+
+    return { parents, children };
+  }
+
   /**
    * Validate chunking results for quality assurance
    * 
@@ -539,7 +777,7 @@ export class ChunkingService {
     }
 
     // Calculate statistics
-    const tokenCounts = chunks.map(c => c.chunkTokens || countTokens(c.chunkText));
+    const tokenCounts = chunks.map(c => c.chunkTokens || countTokens(c.chunkText, this.tokenizer));
     const avgTokens = tokenCounts.reduce((a, b) => a + b, 0) / tokenCounts.length;
     const minTokens = Math.min(...tokenCounts);
     const maxTokens = Math.max(...tokenCounts);
@@ -606,4 +844,59 @@ export class ChunkingService {
     const documentId = chunks[0]?.documentId || 'unknown';
     return this.processPages(pages, documentId, newOptions);
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Markdown tables in page text, for pages that come without table offsets (Markdown documents)
+ */
+function findMarkdownTables(text: string): PageTable[] {
+  const tables: PageTable[] = [];
+  const lines = text.split('\n');
+  const offsets: number[] = [];
+  lines.reduce((offset, line) => {
+    offsets.push(offset);
+    return offset + line.length + 1;
+  }, 0);
+
+  for (let i = 0; i + 1 < lines.length; i++) {
+    if (!TABLE_ROW.test(lines[i]) || !TABLE_SEPARATOR.test(lines[i + 1])) continue;
+
+    let last = i + 1;
+    while (last + 1 < lines.length && TABLE_ROW.test(lines[last + 1])) last++;
+
+    tables.push({
+      start: offsets[i],
+      end: offsets[last] + lines[last].length,
+      header: `${lines[i]}\n${lines[i + 1]}\n`
+    });
+    i = last;
+  }
+
+  return tables;
+}
+
+/**
+ * Cut page text into table spans and the prose spans between them
+ */
+function splitAroundTables(text: string, tables: PageTable[]): Array<{ start: number; end: number; table?: PageTable }> {
+  const spans: Array<{ start: number; end: number; table?: PageTable }> = [];
+  let position = 0;
+
+  for (const table of [...tables].sort((a, b) => a.start - b.start)) {
+    if (table.start < position || table.end > text.length) continue;
+    pushProse(spans, text, position, table.start);
+    spans.push({ start: table.start, end: table.end, table });
+    position = table.end;
+  }
+  pushProse(spans, text, position, text.length);
+
+  return spans;
+}
+
+function pushProse(spans: Array<{ start: number; end: number }>, text: string, start: number, end: number): void {
+  const prose = text.substring(start, end);
+  if (prose.trim()) {
+    // Start at the first word so chunk positions point at text, not the break before it
+    spans.push({ start: start + prose.length - prose.trimStart().length, end });
+  }
+}
@@ -7,9 +7,10 @@
  * @author ARYA RAG Team
  */
 
-import { PageContent, DocumentChunk } from '@arya-rag/types';
+import { PageContent, DocumentChunk, OutlineSection } from '@arya-rag/types';
 import { ChunkingService, ChunkingOptions, ChunkingResult, SECTION_PATTERNS } from './ChunkingService';
 import { countTokens, splitTextAtTokenCount } from '../../utils/tokenCounter';
+import { findChunkSections } from '../document/DocumentOutline';
 
 /**
  * Section hierarchy information
@@ -18,7 +19,7 @@ export interface SectionInfo {
   number: string;
   title: string;
   level: number;
-  type: 'hierarchical' | 'chapter' | 'appendix' | 'letter' | 'roman' | 'step';
+  type: 'hierarchical' | 'chapter' | 'appendix' | 'letter' | 'roman' | 'step' | 'outline';
   parentSection?: string;
 }
 
@@ -41,6 +42,7 @@ export interface HierarchicalChunkingOptions extends ChunkingOptions {
   minSectionLength: number;
   extractCrossReferences: boolean;
   identifyProcedures: boolean;
+  outline?: OutlineSection[]; // Section tree from the document's bookmarks or table of contents
 }
 
 export class HierarchicalChunkingService extends ChunkingService {
@@ -79,6 +81,7 @@ export class HierarchicalChunkingService extends ChunkingService {
     console.log(`📊 Starting hierarchical chunking for document ${documentId}`);
     console.log(`   Hierarchy preservation: ${config.preserveHierarchy}`);
     console.log(`   Cross-reference extraction: ${config.extractCrossReferences}`);
+    console.log(`   Tokenizer: ${this.tokenizer.name}${this.tokenizer.exact ? '' : ' (approximate)'}`);
 
     // First, analyze document structure
     const sectionMap = this.analyzeDocumentStructure(pages);
@@ -97,18 +100,24 @@ export class HierarchicalChunkingService extends ChunkingService {
         config,
         sectionMap
       );
+      this.markOcrChunks(pageChunks, page);
       
       hierarchicalChunks.push(...pageChunks);
       chunkIndex += pageChunks.length;
       
       const pageTokens = pageChunks.reduce((sum, chunk) => 
-        sum + countTokens(chunk.chunkText), 0
+        sum + countTokens(chunk.chunkText, this.tokenizer), 0
       );
       totalTokens += pageTokens;
 
       console.log(`   ✓ Page ${page.pageNumber}: ${pageChunks.length} hierarchical chunks, ${pageTokens} tokens`);
     }
 
+    // A declared outline is more reliable than sections inferred from numbering patterns
+    if (config.outline?.length) {
+      this.applyOutline(hierarchicalChunks, config.outline, pages, sectionMap);
+    }
+
     const processingTime = Date.now() - startTime;
     const avgTokensPerChunk = hierarchicalChunks.length > 0 ? totalTokens / hierarchicalChunks.length : 0;
 
@@ -124,9 +133,12 @@ export class HierarchicalChunkingService extends ChunkingService {
       pagePositionStart: chunk.pagePositionStart,
       pagePositionEnd: chunk.pagePositionEnd,
       sectionTitle: chunk.sectionTitle,
+      sectionHierarchy: config.outline?.length ? chunk.sectionHierarchy : undefined,
       embedding: chunk.embedding,
       embeddingModel: chunk.embeddingModel,
-      createdAt: chunk.createdAt
+      createdAt: chunk.createdAt,
+      ocr: chunk.ocr,
+      ocrConfidence: chunk.ocrConfidence
     }));
 
     console.log(`✅ Hierarchical chunking complete for ${documentId}`);
@@ -144,6 +156,33 @@ export class HierarchicalChunkingService extends ChunkingService {
     };
   }
 
+  /**
+   * Replace inferred section hierarchies with the document outline
+   * Chunks outside every outline section keep their inferred hierarchy.
+   */
+  private applyOutline(
+    chunks: HierarchicalChunk[],
+    outline: OutlineSection[],
+    pages: PageContent[],
+    sectionMap: Map<string, SectionInfo>
+  ): void {
+    const toSectionInfo = (path: OutlineSection[]): SectionInfo[] => path.map((section, i) => ({
+      number: section.number || section.id,
+      title: section.title,
+      level: section.level,
+      type: 'outline',
+      parentSection: i > 0 ? path[i - 1].number || path[i - 1].id : undefined
+    }));
+
+    findChunkSections(chunks, outline, pages).forEach((path, i) => {
+      if (!path) return;
+      const hierarchy = toSectionInfo(path);
+      hierarchy.forEach(section => sectionMap.set(section.number, section));
+      chunks[i].sectionHierarchy = hierarchy;
+      chunks[i].sectionTitle = path[path.length - 1].title;
+    });
+  }
+
   /**
    * Analyze document structure to build section hierarchy map
    * 
@@ -332,7 +371,7 @@ export class HierarchicalChunkingService extends ChunkingService {
       if (!sectionText) continue;
 
       // Check if section is too large and needs sub-chunking
-      const tokenCount = countTokens(sectionText);
+      const tokenCount = countTokens(sectionText, this.tokenizer);
       
       if (tokenCount <= config.chunkSizeTokens) {
         // Section fits in one chunk
@@ -404,8 +443,8 @@ export class HierarchicalChunkingService extends ChunkingService {
       }
 
       // Add new content to reach target size
-      const remainingBudget = config.chunkSizeTokens - countTokens(chunkText);
-      const [mainContent, leftoverText] = splitTextAtTokenCount(remainingText, remainingBudget);
+      const remainingBudget = config.chunkSizeTokens - countTokens(chunkText, this.tokenizer);
+      const [mainContent, leftoverText] = splitTextAtTokenCount(remainingText, remainingBudget, this.tokenizer);
 
       chunkText += mainContent;
 
@@ -448,7 +487,7 @@ export class HierarchicalChunkingService extends ChunkingService {
       if (!sentence) continue;
 
       const testText = sentence + (i < sentences.length - 1 ? '.' : '');
-      const testTokens = countTokens(testText);
+      const testTokens = countTokens(testText, this.tokenizer);
 
       if (tokenCount + testTokens > overlapTokens) break;
 
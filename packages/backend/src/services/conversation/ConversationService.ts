@@ -0,0 +1,273 @@
+/**
+ * Conversation Service
+ *
+ * Persists multi-turn conversation threads and their messages.
+ * RAGService reads recent turns from here to resolve follow-up questions.
+ *
+ * @author ARYA RAG Team
+ */
+
+import { randomUUID } from 'crypto';
+import { DatabaseClient } from '../../config/database';
+import { Conversation, ConversationMessage, ConversationWithMessages, DocumentSource } from '@arya-rag/types';
+
+export interface ConversationTurnInput {
+  question: string;
+  answer: string;
+  sources?: DocumentSource[];
+  rewrittenQuery?: string;
+  metadata?: Record<string, any>;
+}
+
+// Longest title derived from the first question
+const MAX_TITLE_LENGTH = 80;
+
+/**
+ * Conversation Service for conversation threads stored in Postgres
+ */
+export class ConversationService {
+  private static instance: ConversationService;
+
+  private constructor() {}
+
+  /**
+   * Get singleton instance of ConversationService
+   */
+  public static getInstance(): ConversationService {
+    if (!ConversationService.instance) {
+      ConversationService.instance = new ConversationService();
+    }
+    return ConversationService.instance;
+  }
+
+  /**
+   * Create a new conversation thread
+   */
+  async createConversation(userId: string, title?: string): Promise<Conversation> {
+    const db = DatabaseClient.getInstance().getClient();
+    const now = new Date().toISOString();
+
+    const { data, error } = await (db as any)
+      .from('conversations')
+      .insert({
+        conversation_id: `conv_${randomUUID()}`,
+        user_id: userId,
+        title: title?.trim() || null,
+        created_at: now,
+        updated_at: now
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create conversation: ${error.message}`);
+    }
+
+    return this.mapConversation(data);
+  }
+
+  /**
+   * List a user's conversations, most recently active first
+   */
+  async listConversations(
+    userId: string,
+    page: number = 1,
+    limit: number = 20
+  ): Promise<{ conversations: Conversation[]; total: number }> {
+    const db = DatabaseClient.getInstance().getClient();
+    const offset = (page - 1) * limit;
+
+    const { data, error, count } = await (db as any)
+      .from('conversations')
+      .select('*', { count: 'exact' })
+      .eq('user_id', userId)
+      .order('updated_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      throw new Error(`Failed to list conversations: ${error.message}`);
+    }
+
+    return {
+      conversations: (data || []).map((row: any) => this.mapConversation(row)),
+      total: count || 0
+    };
+  }
+
+  /**
+   * Get a conversation owned by the user, or null if it does not exist
+   */
+  async getConversation(conversationId: string, userId: string): Promise<Conversation | null> {
+    const db = DatabaseClient.getInstance().getClient();
+
+    const { data, error } = await (db as any)
+      .from('conversations')
+      .select('*')
+      .eq('conversation_id', conversationId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch conversation: ${error.message}`);
+    }
+
+    return data ? this.mapConversation(data) : null;
+  }
+
+  /**
+   * Get a conversation with all of its messages in chronological order
+   */
+  async getConversationWithMessages(conversationId: string, userId: string): Promise<ConversationWithMessages | null> {
+    const conversation = await this.getConversation(conversationId, userId);
+    if (!conversation) {
+      return null;
+    }
+
+    const db = DatabaseClient.getInstance().getClient();
+
+    const { data, error } = await (db as any)
+      .from('conversation_messages')
+      .select('*')
+      .eq('conversation_id', conversationId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch conversation messages: ${error.message}`);
+    }
+
+    return {
+      ...conversation,
+      messages: (data || []).map((row: any) => this.mapMessage(row))
+    };
+  }
+
+  /**
+   * Get the most recent messages of a conversation in chronological order
+   */
+  async getRecentMessages(conversationId: string, userId: string, limit: number): Promise<ConversationMessage[]> {
+    const db = DatabaseClient.getInstance().getClient();
+
+    const { data, error } = await (db as any)
+      .from('conversation_messages')
+      .select('*')
+      .eq('conversation_id', conversationId)
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to fetch recent messages: ${error.message}`);
+    }
+
+    return (data || []).map((row: any) => this.mapMessage(row)).reverse();
+  }
+
+  /**
+   * Append a question/answer turn and bump the conversation's activity time
+   * Untitled conversations are named after their first question
+   */
+  async appendTurn(conversationId: string, userId: string, turn: ConversationTurnInput): Promise<void> {
+    const conversation = await this.getConversation(conversationId, userId);
+    if (!conversation) {
+      throw new Error(`Conversation not found: ${conversationId}`);
+    }
+
+    const db = DatabaseClient.getInstance().getClient();
+    const askedAt = new Date();
+    // Keep the answer strictly after the question so ordering by created_at is stable
+    const answeredAt = new Date(askedAt.getTime() + 1);
+
+    const { error: insertError } = await (db as any)
+      .from('conversation_messages')
+      .insert([
+        {
+          message_id: `msg_${randomUUID()}`,
+          conversation_id: conversationId,
+          user_id: userId,
+          role: 'user',
+          content: turn.question,
+          rewritten_query: turn.rewrittenQuery !== turn.question ? turn.rewrittenQuery : null,
+          created_at: askedAt.toISOString()
+        },
+        {
+          message_id: `msg_${randomUUID()}`,
+          conversation_id: conversationId,
+          user_id: userId,
+          role: 'assistant',
+          content: turn.answer,
+          sources: turn.sources || [],
+          metadata: turn.metadata || {},
+          created_at: answeredAt.toISOString()
+        }
+      ]);
+
+    if (insertError) {
+      throw new Error(`Failed to save conversation turn: ${insertError.message}`);
+    }
+
+    const { error: updateError } = await (db as any)
+      .from('conversations')
+      .update({
+        updated_at: answeredAt.toISOString(),
+        ...(conversation.title ? {} : { title: this.buildTitle(turn.question) })
+      })
+      .eq('conversation_id', conversationId);
+
+    if (updateError) {
+      console.warn(`⚠️ Failed to update conversation ${conversationId}: ${updateError.message}`);
+    }
+  }
+
+  /**
+   * Delete a conversation and its messages
+   * @returns false if the conversation does not exist for this user
+   */
+  async deleteConversation(conversationId: string, userId: string): Promise<boolean> {
+    const db = DatabaseClient.getInstance().getClient();
+
+    const { data, error } = await (db as any)
+      .from('conversations')
+      .delete()
+      .eq('conversation_id', conversationId)
+      .eq('user_id', userId)
+      .select('conversation_id');
+
+    if (error) {
+      throw new Error(`Failed to delete conversation: ${error.message}`);
+    }
+
+    return (data || []).length > 0;
+  }
+
+  /**
+   * Derive a short title from a question
+   */
+  private buildTitle(question: string): string {
+    const singleLine = question.replace(/\s+/g, ' ').trim();
+    return singleLine.length > MAX_TITLE_LENGTH
+      ? `${singleLine.substring(0, MAX_TITLE_LENGTH - 3)}...`
+      : singleLine;
+  }
+
+  private mapConversation(row: any): Conversation {
+    return {
+      conversationId: row.conversation_id,
+      userId: row.user_id,
+      title: row.title || '',
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+
+  private mapMessage(row: any): ConversationMessage {
+    return {
+      messageId: row.message_id,
+      conversationId: row.conversation_id,
+      role: row.role,
+      content: row.content,
+      sources: row.sources || [],
+      rewrittenQuery: row.rewritten_query || undefined,
+      createdAt: row.created_at
+    };
+  }
+}
@@ -0,0 +1,291 @@
+/**
+ * Document Outline
+ *
+ * Builds a document's section tree from PDF bookmarks or, when a PDF has none, from its
+ * table-of-contents pages. Both become the same canonical tree with page ranges, which
+ * is stored per revision and used to place every chunk in its enclosing sections.
+ * Unlike SECTION_PATTERNS this does not depend on how the sections are numbered.
+ *
+ * @author ARYA RAG Team
+ */
+
+import { DocumentChunk, DocumentOutlineSource, OutlineSection, PageContent } from '@arya-rag/types';
+import { PageLayout } from './PdfLayout';
+
+/**
+ * A section heading in document order, before it is placed in the tree
+ */
+export interface OutlineEntry {
+  title: string;
+  level: number; // Nesting depth in the source; only relative values matter
+  page: number; // Physical page, 1-based
+}
+
+// Pages searched for a table of contents, and at most how many entries an outline keeps
+export const TOC_SCAN_PAGES = 20;
+const MAX_OUTLINE_ENTRIES = 2000;
+const TOC_HEADING = /^(table of )?contents$/i;
+// A title, an optional dot leader and the printed page number
+const TOC_LINE = /^(.*?[^\s.·…_])(?:\s*[.·…_]{2,}\s*|\s+)(\d{1,4})$/;
+// A continuation page must look like a table of contents throughout
+const MIN_TOC_LINE_SHARE = 0.5;
+// Entries used to work out how printed page numbers map to physical pages
+const PAGE_OFFSET_SAMPLES = 20;
+const MAX_PAGE_OFFSET = 40;
+
+const NUMBERED_TITLE: Array<{ pattern: RegExp; depth?: (number: string) => number }> = [
+  { pattern: /^(?:chapter|part)\s+(\d+|[IVXLC]+)\b[.:]?\s*/i, depth: () => 0 },
+  { pattern: /^(?:appendix|annex)\s+([A-Z]|\d+)\b[.:]?\s*/i, depth: () => 0 },
+  { pattern: /^(\d+(?:\.\d+)*)\.?\s+/, depth: number => number.split('.').length - 1 },
+  { pattern: /^([A-Z]|[IVX]+)[.)]\s+/ }
+];
+
+/**
+ * Section number at the start of a heading, and its depth when the numbering implies one
+ */
+export function parseSectionNumber(title: string): { number?: string; depth?: number } {
+  for (const { pattern, depth } of NUMBERED_TITLE) {
+    const match = title.match(pattern);
+    if (match) {
+      return { number: match[1], depth: depth?.(match[1]) };
+    }
+  }
+  return {};
+}
+
+/**
+ * Outline entries from PDF bookmarks; entries whose destination cannot be resolved are skipped
+ *
+ * @param pdf - pdf.js document proxy
+ */
+export async function readPdfBookmarks(pdf: any): Promise<OutlineEntry[]> {
+  const outline = await pdf.getOutline();
+  const entries: OutlineEntry[] = [];
+
+  const visit = async (items: any[], level: number): Promise<void> => {
+    for (const item of items) {
+      if (entries.length >= MAX_OUTLINE_ENTRIES) return;
+
+      const title = String(item.title || '').replace(/\s+/g, ' ').trim();
+      const page = await resolveDestination(pdf, item.dest);
+      if (title && page) {
+        entries.push({ title, level, page });
+      }
+      if (item.items?.length) {
+        await visit(item.items, level + 1);
+      }
+    }
+  };
+  await visit(outline || [], 0);
+
+  return entries;
+}
+
+async function resolveDestination(pdf: any, dest: unknown): Promise<number | undefined> {
+  try {
+    const explicit = typeof dest === 'string' ? await pdf.getDestination(dest) : dest;
+    if (!Array.isArray(explicit) || explicit.length === 0) {
+      return undefined;
+    }
+    const target = explicit[0];
+    const index = typeof target === 'number' ? target : await pdf.getPageIndex(target);
+    return index + 1;
+  } catch {
+    // Broken or external destinations
+    return undefined;
+  }
+}
+
+/**
+ * Outline entries from table-of-contents pages
+ * The first page must be headed "Contents" (or "Table of Contents"); following pages continue it
+ * while most of their lines are entries. Printed page numbers are mapped to physical pages by
+ * finding entry titles in the page text.
+ *
+ * @param layouts - Layouts of the first pages of the document, in page order
+ * @param pages - Extracted pages, to locate entries
+ */
+export function parseTableOfContents(layouts: PageLayout[], pages: PageContent[]): OutlineEntry[] {
+  const entries: Array<{ title: string; printed: number; x: number; depth?: number }> = [];
+  let tocPages = 0;
+  let lastTocPage = -1;
+
+  for (const [index, layout] of layouts.slice(0, TOC_SCAN_PAGES).entries()) {
+    const lines = layout.lines.map(line => ({
+      text: line.cells.map(cell => cell.text).join(' ').replace(/\s+/g, ' ').trim(),
+      x: line.cells[0]?.x0 ?? 0
+    }));
+    const headed = lines.slice(0, 3).some(line => TOC_HEADING.test(line.text));
+    const matches = lines
+      .map(line => ({ line, match: line.text.match(TOC_LINE) }))
+      .filter(({ match }) => match && !TOC_HEADING.test(match[1]));
+
+    const continues = lastTocPage === index - 1 && matches.length >= MIN_TOC_LINE_SHARE * lines.length;
+    if (!(headed && matches.length > 0) && !(tocPages > 0 && continues)) {
+      if (tocPages > 0) break;
+      continue;
+    }
+
+    tocPages++;
+    lastTocPage = index;
+    matches.forEach(({ line, match }) => {
+      const title = match![1].replace(/[\s.·…_]+$/, '');
+      entries.push({ title, printed: parseInt(match![2]), x: line.x, depth: parseSectionNumber(title).depth });
+    });
+  }
+
+  if (entries.length === 0) {
+    return [];
+  }
+
+  // Unnumbered entries nest by indentation
+  const indents = Array.from(new Set(entries.map(entry => Math.round(entry.x / 4)))).sort((a, b) => a - b);
+  const offset = findPageOffset(entries, pages, lastTocPage + 1);
+
+  return entries.slice(0, MAX_OUTLINE_ENTRIES).map(entry => ({
+    title: entry.title,
+    level: entry.depth ?? indents.indexOf(Math.round(entry.x / 4)),
+    page: Math.min(Math.max(entry.printed + offset, 1), Math.max(pages.length, 1))
+  }));
+}
+
+/**
+ * Most common difference between where entry titles are found and their printed page numbers
+ * (front matter is usually numbered separately)
+ */
+function findPageOffset(entries: Array<{ title: string; printed: number }>, pages: PageContent[], firstBodyPage: number): number {
+  const counts = new Map<number, number>();
+
+  for (const entry of entries.slice(0, PAGE_OFFSET_SAMPLES)) {
+    const title = normalize(entry.title);
+    const first = Math.max(firstBodyPage + 1, entry.printed - MAX_PAGE_OFFSET);
+    const found = pages.find(page =>
+      page.pageNumber >= first &&
+      page.pageNumber <= entry.printed + MAX_PAGE_OFFSET &&
+      normalize(page.text).includes(title)
+    );
+    if (found) {
+      const offset = found.pageNumber - entry.printed;
+      counts.set(offset, (counts.get(offset) || 0) + 1);
+    }
+  }
+
+  return Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0]?.[0] ?? 0;
+}
+
+/**
+ * Canonical section tree from entries in document order
+ * A section ends where the next section at the same or a higher level begins.
+ */
+export function buildOutline(entries: OutlineEntry[], totalPages: number): OutlineSection[] {
+  const roots: OutlineSection[] = [];
+  const stack: Array<{ section: OutlineSection; sourceLevel: number }> = [];
+  const ordered: OutlineSection[] = [];
+
+  for (const entry of entries) {
+    while (stack.length > 0 && stack[stack.length - 1].sourceLevel >= entry.level) {
+      stack.pop();
+    }
+
+    const parent = stack[stack.length - 1]?.section;
+    const siblings = parent ? parent.children : roots;
+    const section: OutlineSection = {
+      id: parent ? `${parent.id}.${siblings.length + 1}` : String(siblings.length + 1),
+      title: entry.title,
+      number: parseSectionNumber(entry.title).number,
+      level: stack.length,
+      pageStart: Math.min(Math.max(entry.page, 1), totalPages),
+      pageEnd: totalPages,
+      children: []
+    };
+
+    siblings.push(section);
+    stack.push({ section, sourceLevel: entry.level });
+    ordered.push(section);
+  }
+
+  ordered.forEach((section, i) => {
+    const next = ordered.slice(i + 1).find(candidate => candidate.level <= section.level);
+    if (next) {
+      section.pageEnd = Math.max(section.pageStart, next.pageStart - 1);
+    }
+  });
+
+  return roots;
+}
+
+/**
+ * Build the outline of a PDF: bookmarks first, then table-of-contents pages
+ *
+ * @param pdf - pdf.js document proxy
+ * @param layouts - Layouts of the document's first pages, for the table of contents
+ * @param pages - Extracted pages
+ */
+export async function buildPdfOutline(
+  pdf: any,
+  layouts: PageLayout[],
+  pages: PageContent[]
+): Promise<{ source: DocumentOutlineSource; sections: OutlineSection[] }> {
+  const bookmarks = await readPdfBookmarks(pdf);
+  if (bookmarks.length > 0) {
+    return { source: 'bookmarks', sections: buildOutline(bookmarks, pages.length) };
+  }
+
+  const toc = parseTableOfContents(layouts, pages);
+  if (toc.length > 0) {
+    return { source: 'toc', sections: buildOutline(toc, pages.length) };
+  }
+
+  return { source: 'none', sections: [] };
+}
+
+/**
+ * Sections enclosing each chunk, outermost first
+ * A section starts where its title appears on its first page (the top of the page if the
+ * title is not found); a chunk belongs to the last section starting before its end.
+ */
+export function findChunkSections(
+  chunks: DocumentChunk[],
+  sections: OutlineSection[],
+  pages: PageContent[]
+): Array<OutlineSection[] | undefined> {
+  const pageText = new Map(pages.map(page => [page.pageNumber, normalize(page.text)]));
+
+  const starts: Array<{ page: number; offset: number; path: OutlineSection[] }> = [];
+  const visit = (nodes: OutlineSection[], parents: OutlineSection[]) => {
+    nodes.forEach(section => {
+      const path = [...parents, section];
+      const text = pageText.get(section.pageStart) || '';
+      const offset = text.indexOf(normalize(section.title));
+      starts.push({ page: section.pageStart, offset: Math.max(offset, 0), path });
+      visit(section.children, path);
+    });
+  };
+  visit(sections, []);
+  starts.sort((a, b) => a.page - b.page || a.offset - b.offset);
+
+  return chunks.map(chunk => {
+    const chunkEnd = chunk.pagePositionEnd ?? Infinity;
+    let current: OutlineSection[] | undefined;
+    for (const start of starts) {
+      if (start.page > chunk.pageNumber || (start.page === chunk.pageNumber && start.offset >= chunkEnd)) break;
+      current = start.path;
+    }
+    return current;
+  });
+}
+
+/**
+ * Set sectionHierarchy, and the innermost section as sectionTitle, on chunks from the outline
+ */
+export function assignSectionHierarchy(chunks: DocumentChunk[], sections: OutlineSection[], pages: PageContent[]): void {
+  findChunkSections(chunks, sections, pages).forEach((path, i) => {
+    if (!path) return;
+    chunks[i].sectionHierarchy = path.map(({ number, title, level }) => ({ number, title, level }));
+    chunks[i].sectionTitle = path[path.length - 1].title;
+  });
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ').trim();
+}
@@ -0,0 +1,77 @@
+/**
+ * Document Outline Service
+ *
+ * Stores the section tree of each document revision (see DocumentOutline) in the
+ * document_outlines table, for the outline endpoint.
+ *
+ * @author ARYA RAG Team
+ */
+
+import { DatabaseClient } from '../../config/database';
+import { DocumentOutline, DocumentOutlineSource, OutlineSection } from '@arya-rag/types';
+
+/**
+ * Document Outline Service backed by the document_outlines table
+ */
+export class DocumentOutlineService {
+  private static instance: DocumentOutlineService;
+
+  private constructor() {}
+
+  /**
+   * Get singleton instance of DocumentOutlineService
+   */
+  public static getInstance(): DocumentOutlineService {
+    if (!DocumentOutlineService.instance) {
+      DocumentOutlineService.instance = new DocumentOutlineService();
+    }
+    return DocumentOutlineService.instance;
+  }
+
+  /**
+   * Save (or replace) the outline of a revision
+   */
+  async saveOutline(
+    documentId: string,
+    revision: number,
+    outline: { source: DocumentOutlineSource; sections: OutlineSection[] }
+  ): Promise<void> {
+    const db = DatabaseClient.getInstance().getClient();
+
+    const { error } = await (db as any)
+      .from('document_outlines')
+      .upsert({
+        document_id: documentId,
+        revision,
+        source: outline.source,
+        sections: outline.sections,
+        created_at: new Date().toISOString()
+      }, { onConflict: 'document_id,revision' });
+
+    if (error) {
+      throw new Error(`Failed to save outline: ${error.message}`);
+    }
+  }
+
+  /**
+   * Get the outline of a revision, or null when none was stored
+   */
+  async getOutline(documentId: string, revision: number): Promise<DocumentOutline | null> {
+    const db = DatabaseClient.getInstance().getClient();
+
+    const { data, error } = await (db as any)
+      .from('document_outlines')
+      .select('*')
+      .eq('document_id', documentId)
+      .eq('revision', revision)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch outline: ${error.message}`);
+    }
+
+    return data
+      ? { documentId: data.document_id, revision: data.revision, source: data.source, sections: data.sections || [] }
+      : null;
+  }
+}
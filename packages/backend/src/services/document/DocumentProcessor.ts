@@ -3,14 +3,28 @@
  * 
  * Handles large PDF processing with page boundary preservation for accurate citations.
  * Designed for documents up to 1000 pages with precise page number tracking.
+ * DOCX, HTML, Markdown and text files go through the format extractor registry.
  * 
  * @author ARYA RAG Team
  */
 
 import { createHash } from 'crypto';
-import { PageContent, DocumentChunk } from '@arya-rag/types';
+import { PageContent, DocumentChunk, DocumentOutlineSource, OutlineSection } from '@arya-rag/types';
 // Use unpdf instead of pdf-parse - following Arya-Chatbot approach
-import { extractText, getDocumentProxy } from 'unpdf';
+import { extractText, getDocumentProxy, getResolvedPDFJS, renderPageAsImage } from 'unpdf';
+import { OcrProvider, OcrProviderType, createOcrProvider } from './OcrProviders';
+import { PageLayout, ReadingOrder, TableFormat, analyzePage, findRunningText, layoutPageText } from './PdfLayout';
+import { TOC_SCAN_PAGES, buildPdfOutline } from './DocumentOutline';
+import {
+  DocumentFormat,
+  FormatExtractor,
+  SUPPORTED_DOCUMENT_FORMATS,
+  resolveDocumentFormat,
+  DocxExtractor,
+  HtmlExtractor,
+  MarkdownExtractor,
+  TextExtractor
+} from './FormatExtractors';
 
 export interface DocumentProcessingResult {
   success: boolean;
@@ -28,9 +42,68 @@ export interface ProcessingOptions {
   maxPages?: number; // For testing with smaller docs
 }
 
+export interface DocumentProcessorOptions {
+  ocrProvider?: OcrProvider | null; // null disables OCR; defaults to OCR_PROVIDER
+  ocrMinTextChars?: number; // Pages with less text than this are OCR candidates
+  ocrRenderScale?: number; // Render scale for OCR images (2 = ~144 DPI)
+  onPageExtracted?: (pagesExtracted: number, totalPages: number) => void; // Progress callback
+  tableFormat?: TableFormat; // How detected PDF tables are written; 'none' joins them like prose
+  readingOrder?: ReadingOrder; // 'columns' reads multi-column PDF pages column by column
+  stripRunningText?: boolean; // Remove running headers, footers and page numbers from PDF pages
+}
+
 export class DocumentProcessor {
   private readonly MAX_FILE_SIZE = 100 * 1024 * 1024; // 100MB for large documents
   private readonly MAX_PAGES = 2000; // Safety limit
+  private extractors: Map<DocumentFormat, FormatExtractor> = new Map();
+  private ocrProvider: OcrProvider | null;
+  private ocrMinTextChars: number;
+  private ocrRenderScale: number;
+  private onPageExtracted?: (pagesExtracted: number, totalPages: number) => void;
+  private tableFormat: TableFormat;
+  private readingOrder: ReadingOrder;
+  private stripRunningText: boolean;
+
+  constructor(options: DocumentProcessorOptions = {}) {
+    this.ocrProvider = options.ocrProvider !== undefined
+      ? options.ocrProvider
+      : createOcrProvider((process.env.OCR_PROVIDER || 'tesseract-wasm') as OcrProviderType, {
+          language: process.env.OCR_LANGUAGE,
+          tesseractPath: process.env.TESSERACT_PATH
+        });
+    this.ocrMinTextChars = options.ocrMinTextChars ?? parseInt(process.env.OCR_MIN_TEXT_CHARS || '20');
+    this.ocrRenderScale = options.ocrRenderScale ?? parseFloat(process.env.OCR_RENDER_SCALE || '2');
+    this.onPageExtracted = options.onPageExtracted;
+    this.tableFormat = options.tableFormat ?? (process.env.PDF_TABLE_FORMAT || 'markdown') as TableFormat;
+    this.readingOrder = options.readingOrder ?? (process.env.PDF_READING_ORDER || 'columns') as ReadingOrder;
+    this.stripRunningText = options.stripRunningText ?? process.env.PDF_STRIP_RUNNING_TEXT !== 'false';
+
+    const pdfFormat = SUPPORTED_DOCUMENT_FORMATS.find(info => info.format === 'pdf')!;
+    this.registerExtractor({
+      ...pdfFormat,
+      extract: (buffer: Buffer) => this.extractTextWithPages(buffer),
+      extractOutline: (buffer: Buffer, pages: PageContent[]) => this.extractPdfOutline(buffer, pages)
+    });
+    this.registerExtractor(new DocxExtractor());
+    this.registerExtractor(new HtmlExtractor());
+    this.registerExtractor(new MarkdownExtractor());
+    this.registerExtractor(new TextExtractor());
+  }
+
+  /**
+   * Register (or replace) the extractor for a document format
+   */
+  registerExtractor(extractor: FormatExtractor): void {
+    this.extractors.set(extractor.format, extractor);
+  }
+
+  /**
+   * Find the extractor for a file, by extension first and MIME type second
+   */
+  getExtractor(filename: string, mimeType?: string): FormatExtractor | undefined {
+    const format = resolveDocumentFormat(mimeType, filename);
+    return format ? this.extractors.get(format) : undefined;
+  }
 
   /**
    * Process a large PDF with page boundary preservation
@@ -117,6 +190,7 @@ export class DocumentProcessor {
   /**
    * Extract text from PDF while preserving page boundaries
    * This is crucial for accurate page citations
+   * Text pages are laid out once every page is read, since running headers are found across pages.
    */
   async extractTextWithPages(buffer: Buffer): Promise<PageContent[]> {
     try {
@@ -130,6 +204,8 @@ export class DocumentProcessor {
       
       // Extract text from each page individually to preserve page boundaries
       const pages: PageContent[] = [];
+      const layouts = new Map<number, PageLayout>();
+      let ocrAvailable = this.ocrProvider !== null;
       
       for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
         try {
@@ -139,26 +215,33 @@ export class DocumentProcessor {
           // Extract text from this specific page
           const textContent = await page.getTextContent();
           
-          // Combine all text items from the page
-          let pageText = '';
-          textContent.items.forEach((item: any) => {
-            if (item.str) {
-              pageText += item.str + ' ';
+          const layout = analyzePage(textContent.items, page.view);
+          const pageText = layout.items.map(item => item.text).join(' ').trim();
+
+          // Scanned pages have no text layer - recognize them instead
+          if (ocrAvailable && pageText.length < this.ocrMinTextChars && await this.hasImages(page)) {
+            try {
+              const ocrPage = await this.ocrPage(pdf, pageNum);
+              if (ocrPage.text.length > pageText.length) {
+                pages.push(ocrPage);
+                console.log(`   ✓ OCR page ${pageNum}: ${ocrPage.text.length} characters (confidence ${(ocrPage.ocrConfidence! * 100).toFixed(0)}%)`);
+                this.onPageExtracted?.(pageNum, pdf.numPages);
+                continue;
+              }
+            } catch (ocrError) {
+              // Usually a missing binary or language data; don't retry for every page
+              console.warn(`   ⚠️  OCR failed on page ${pageNum}, disabling OCR for this document: ${ocrError instanceof Error ? ocrError.message : ocrError}`);
+              ocrAvailable = false;
             }
-          });
-          
-          // Clean up the text
-          pageText = pageText.trim();
-          
-          if (pageText) {
-            pages.push({
-              pageNumber: pageNum,
-              text: pageText,
-              sectionTitle: undefined
-            });
           }
           
-          console.log(`   ✓ Extracted page ${pageNum}: ${pageText.length} characters`);
+          // Empty pages are kept so page numbering and counts stay accurate; text is filled in below
+          pages.push({
+            pageNumber: pageNum,
+            text: '',
+            sectionTitle: undefined
+          });
+          layouts.set(pageNum, layout);
           
         } catch (pageError) {
           console.warn(`   ⚠️  Failed to extract page ${pageNum}:`, pageError.message);
@@ -169,9 +252,38 @@ export class DocumentProcessor {
             sectionTitle: undefined
           });
         }
+
+        this.onPageExtracted?.(pageNum, pdf.numPages);
       }
       
-      console.log(`✅ Successfully extracted ${pages.length} pages using unpdf`);
+      await this.ocrProvider?.dispose?.();
+
+      // Lay out text pages: strip running headers and footers, read columns in order, render tables
+      const textPages = pages.filter(page => layouts.has(page.pageNumber));
+      const runningText = this.stripRunningText
+        ? findRunningText(textPages.map(page => layouts.get(page.pageNumber)!))
+        : [];
+
+      textPages.forEach((page, i) => {
+        const running = runningText[i];
+        const { text, tables } = layoutPageText(layouts.get(page.pageNumber)!, {
+          tableFormat: this.tableFormat,
+          readingOrder: this.readingOrder,
+          skip: running?.items
+        });
+
+        page.text = text;
+        if (tables.length > 0) page.tables = tables;
+        if (running?.header) page.runningHeader = running.header;
+        if (running?.footer) page.runningFooter = running.footer;
+        // The running chapter title is the page's section
+        page.sectionTitle = running?.title;
+
+        console.log(`   ${text ? '✓' : '⚠️ '} Extracted page ${page.pageNumber}: ${text.length} characters${tables.length > 0 ? `, ${tables.length} table(s)` : ''}`);
+      });
+
+      const ocrPages = pages.filter(page => page.ocr).length;
+      console.log(`✅ Successfully extracted ${pages.length} pages using unpdf${ocrPages > 0 ? ` (${ocrPages} via OCR)` : ''}`);
       return pages;
       
     } catch (error) {
@@ -181,22 +293,54 @@ export class DocumentProcessor {
   }
 
   /**
-   * Wrapper method for backward compatibility with routes
-   * Routes expect this method name, but we use extractTextWithPages internally
+   * Extract pages from any supported document format
+   * PDFs keep their physical pages; other formats are split into logical pages by section
    */
-  async extractPagesFromBuffer(buffer: Buffer, filename: string): Promise<{
+  async extractPagesFromBuffer(buffer: Buffer, filename: string, mimeType?: string): Promise<{
     success: boolean;
     pages: PageContent[];
+    outline: { source: DocumentOutlineSource; sections: OutlineSection[] };
     error?: string;
   }> {
+    let outline: { source: DocumentOutlineSource; sections: OutlineSection[] } = { source: 'none', sections: [] };
+
     try {
-      console.log(`📄 Extracting text from PDF: ${filename}`);
-      const pages = await this.extractTextWithPages(buffer);
+      const extractor = this.getExtractor(filename, mimeType);
+      if (!extractor) {
+        throw new Error(`Unsupported document type: ${mimeType || 'unknown'} (${filename})`);
+      }
+
+      console.log(`📄 Extracting text from ${extractor.format.toUpperCase()}: ${filename}`);
+      const pages = await extractor.extract(buffer);
+      if (extractor.format !== 'pdf') {
+        // Other formats are converted in one pass; report them as a single step
+        this.onPageExtracted?.(pages.length, pages.length);
+      }
+
+      if (!pages.some(page => page.text.trim().length > 0)) {
+        throw new Error('No extractable text found in document');
+      }
+      if (pages.length > this.MAX_PAGES) {
+        throw new Error(`Document has ${pages.length} pages. Maximum is ${this.MAX_PAGES}`);
+      }
+
+      // The outline is optional; without one chunks keep their inferred sections
+      if (extractor.extractOutline) {
+        try {
+          outline = await extractor.extractOutline(buffer, pages);
+          if (outline.sections.length > 0) {
+            console.log(`📑 Document outline from ${outline.source}: ${outline.sections.length} top-level section(s)`);
+          }
+        } catch (outlineError) {
+          console.warn(`⚠️ Could not read document outline: ${outlineError instanceof Error ? outlineError.message : outlineError}`);
+        }
+      }
       
       console.log(`✅ Successfully extracted ${pages.length} pages from ${filename}`);
       return {
         success: true,
-        pages
+        pages,
+        outline
       };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown extraction error';
@@ -205,11 +349,66 @@ export class DocumentProcessor {
       return {
         success: false,
         pages: [],
+        outline,
         error: errorMessage
       };
     }
   }
 
+  /**
+   * Read the section tree of a PDF from its bookmarks, or its table of contents when it has none
+   */
+  async extractPdfOutline(buffer: Buffer, pages: PageContent[]): Promise<{ source: DocumentOutlineSource; sections: OutlineSection[] }> {
+    const pdf = await getDocumentProxy(new Uint8Array(buffer));
+
+    // A table of contents is near the front; lay out only those pages
+    const layouts: PageLayout[] = [];
+    for (let pageNum = 1; pageNum <= Math.min(pdf.numPages, TOC_SCAN_PAGES); pageNum++) {
+      const page = await pdf.getPage(pageNum);
+      layouts.push(analyzePage((await page.getTextContent()).items, page.view));
+    }
+
+    return buildPdfOutline(pdf, layouts, pages);
+  }
+
+  /**
+   * Check whether a page paints any images (a scanned page is one big image)
+   */
+  private async hasImages(page: any): Promise<boolean> {
+    const { OPS } = await getResolvedPDFJS();
+    const imageOps = new Set([
+      OPS.paintImageXObject,
+      OPS.paintInlineImageXObject,
+      OPS.paintImageMaskXObject,
+      OPS.paintImageXObjectRepeat
+    ]);
+    const operatorList = await page.getOperatorList();
+    // pdf.js returns an empty list when it cannot parse the page; let OCR decide then
+    if (operatorList.fnArray.length === 0) {
+      return true;
+    }
+    return operatorList.fnArray.some((op: number) => imageOps.has(op));
+  }
+
+  /**
+   * Render a page to PNG and run it through the OCR provider
+   */
+  private async ocrPage(pdf: any, pageNum: number): Promise<PageContent> {
+    const image = await renderPageAsImage(pdf, pageNum, {
+      canvasImport: () => import('@napi-rs/canvas'),
+      scale: this.ocrRenderScale
+    });
+    const result = await this.ocrProvider!.recognize(Buffer.from(image));
+
+    return {
+      pageNumber: pageNum,
+      text: result.text.trim(),
+      sectionTitle: undefined,
+      ocr: true,
+      ocrConfidence: Math.round(result.confidence * 100) / 100
+    };
+  }
+
   /**
    * Alternative method to extract pages individually using unpdf
    */
@@ -0,0 +1,242 @@
+/**
+ * Document Revision Service
+ *
+ * Revision history for documents that are replaced with a new file.
+ * Each revision records its source file, page hashes and how much of the
+ * previous revision it reused. The ingestion pipeline diffs revisions by
+ * content hash so only changed chunks are re-embedded.
+ *
+ * @author ARYA RAG Team
+ */
+
+import { createHash } from 'crypto';
+import { DatabaseClient } from '../../config/database';
+import { DocumentRevision } from '@arya-rag/types';
+
+/**
+ * Revision row with the fields ingestion needs but the API does not expose
+ */
+export interface DocumentRevisionRecord extends DocumentRevision {
+  userId: string;
+  mimeType?: string;
+  storagePath?: string;
+  pageHashes: string[];
+}
+
+export interface CreateRevisionInput {
+  documentId: string;
+  revision: number;
+  userId: string;
+  filename: string;
+  mimeType: string;
+  fileSize: number;
+  fileHash: string;
+  storagePath?: string;
+}
+
+export interface RevisionIndexStats {
+  totalPages: number;
+  totalChunks: number;
+  pageHashes: string[];
+  pagesChanged?: number;
+  chunksReused?: number;
+  chunksEmbedded?: number;
+}
+
+/**
+ * sha256 of page or chunk text, used to match content across revisions
+ */
+export function hashContent(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+/**
+ * Count pages whose text does not appear anywhere in the previous revision
+ * Matching by hash rather than position means inserted or removed pages don't mark later pages as changed
+ */
+export function countChangedPages(previousPageHashes: string[], pageHashes: string[]): number {
+  const previous = new Set(previousPageHashes);
+  return pageHashes.filter(hash => !previous.has(hash)).length;
+}
+
+/**
+ * Document Revision Service backed by the document_revisions table
+ */
+export class DocumentRevisionService {
+  private static instance: DocumentRevisionService;
+
+  private constructor() {}
+
+  /**
+   * Get singleton instance of DocumentRevisionService
+   */
+  public static getInstance(): DocumentRevisionService {
+    if (!DocumentRevisionService.instance) {
+      DocumentRevisionService.instance = new DocumentRevisionService();
+    }
+    return DocumentRevisionService.instance;
+  }
+
+  /**
+   * Record a newly uploaded revision (pending until ingestion completes)
+   */
+  async createRevision(input: CreateRevisionInput): Promise<DocumentRevisionRecord> {
+    const db = DatabaseClient.getInstance().getClient();
+
+    const { data, error } = await (db as any)
+      .from('document_revisions')
+      .insert({
+        document_id: input.documentId,
+        revision: input.revision,
+        user_id: input.userId,
+        filename: input.filename,
+        mime_type: input.mimeType,
+        file_size: input.fileSize,
+        file_hash: input.fileHash,
+        storage_path: input.storagePath || null,
+        status: 'pending',
+        created_at: new Date().toISOString()
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create revision: ${error.message}`);
+    }
+
+    return this.mapRevision(data);
+  }
+
+  /**
+   * List a document's revisions, newest first
+   */
+  async listRevisions(documentId: string): Promise<DocumentRevision[]> {
+    const db = DatabaseClient.getInstance().getClient();
+
+    const { data, error } = await (db as any)
+      .from('document_revisions')
+      .select('*')
+      .eq('document_id', documentId)
+      .order('revision', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to list revisions: ${error.message}`);
+    }
+
+    return (data || []).map((row: any) => {
+      const { userId, mimeType, storagePath, pageHashes, ...revision } = this.mapRevision(row);
+      return revision;
+    });
+  }
+
+  /**
+   * Get a single revision
+   */
+  async getRevision(documentId: string, revision: number): Promise<DocumentRevisionRecord | null> {
+    const db = DatabaseClient.getInstance().getClient();
+
+    const { data, error } = await (db as any)
+      .from('document_revisions')
+      .select('*')
+      .eq('document_id', documentId)
+      .eq('revision', revision)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch revision: ${error.message}`);
+    }
+
+    return data ? this.mapRevision(data) : null;
+  }
+
+  /**
+   * Mark a revision as being processed
+   */
+  async markProcessing(documentId: string, revision: number): Promise<void> {
+    await this.updateRevision(documentId, revision, { status: 'processing', error_message: null });
+  }
+
+  /**
+   * Record the result of indexing a revision
+   */
+  async completeRevision(documentId: string, revision: number, stats: RevisionIndexStats): Promise<void> {
+    await this.updateRevision(documentId, revision, {
+      status: 'completed',
+      total_pages: stats.totalPages,
+      total_chunks: stats.totalChunks,
+      page_hashes: stats.pageHashes,
+      pages_changed: stats.pagesChanged ?? null,
+      chunks_reused: stats.chunksReused ?? null,
+      chunks_embedded: stats.chunksEmbedded ?? null,
+      error_message: null,
+      completed_at: new Date().toISOString()
+    });
+  }
+
+  /**
+   * Record a revision that failed to index
+   */
+  async failRevision(documentId: string, revision: number, errorMessage: string): Promise<void> {
+    await this.updateRevision(documentId, revision, { status: 'failed', error_message: errorMessage });
+  }
+
+  /**
+   * Archive completed revisions up to and including a revision number
+   * Archived revisions stay in the history but their chunks are deleted by the caller
+   * @returns The revision numbers that were archived
+   */
+  async archiveRevisionsUpTo(documentId: string, revision: number): Promise<number[]> {
+    const db = DatabaseClient.getInstance().getClient();
+
+    const { data, error } = await (db as any)
+      .from('document_revisions')
+      .update({ status: 'archived' })
+      .eq('document_id', documentId)
+      .eq('status', 'completed')
+      .lte('revision', revision)
+      .select('revision');
+
+    if (error) {
+      throw new Error(`Failed to archive revisions: ${error.message}`);
+    }
+
+    return (data || []).map((row: any) => row.revision);
+  }
+
+  private async updateRevision(documentId: string, revision: number, fields: Record<string, any>): Promise<void> {
+    const db = DatabaseClient.getInstance().getClient();
+
+    const { error } = await (db as any)
+      .from('document_revisions')
+      .update(fields)
+      .eq('document_id', documentId)
+      .eq('revision', revision);
+
+    if (error) {
+      throw new Error(`Failed to update revision ${revision}: ${error.message}`);
+    }
+  }
+
+  private mapRevision(row: any): DocumentRevisionRecord {
+    return {
+      documentId: row.document_id,
+      revision: row.revision,
+      userId: row.user_id,
+      filename: row.filename,
+      mimeType: row.mime_type || undefined,
+      fileSize: row.file_size,
+      fileHash: row.file_hash,
+      storagePath: row.storage_path || undefined,
+      status: row.status,
+      totalPages: row.total_pages || 0,
+      totalChunks: row.total_chunks || 0,
+      pageHashes: row.page_hashes || [],
+      pagesChanged: row.pages_changed ?? undefined,
+      chunksReused: row.chunks_reused ?? undefined,
+      chunksEmbedded: row.chunks_embedded ?? undefined,
+      errorMessage: row.error_message || undefined,
+      createdAt: row.created_at,
+      completedAt: row.completed_at || undefined
+    };
+  }
+}
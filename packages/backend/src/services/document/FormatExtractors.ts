@@ -0,0 +1,270 @@
+/**
+ * Format Extractors for non-PDF documents
+ *
+ * Convert DOCX, HTML, Markdown and plain text into the same PageContent[] the PDF
+ * path produces. These formats have no physical pages, so each heading starts a
+ * logical page and long sections are split at paragraph boundaries. Page numbers
+ * in citations then refer to these logical pages.
+ *
+ * @author ARYA RAG Team
+ */
+
+import { parse, HTMLElement, Node, NodeType } from 'node-html-parser';
+import { DocumentOutlineSource, OutlineSection, PageContent } from '@arya-rag/types';
+
+export type DocumentFormat = 'pdf' | 'docx' | 'html' | 'markdown' | 'text';
+
+export interface DocumentFormatInfo {
+  format: DocumentFormat;
+  mimeTypes: string[];
+  extensions: string[];
+}
+
+/**
+ * Extracts page-structured text from one document format
+ */
+export interface FormatExtractor extends DocumentFormatInfo {
+  extract(buffer: Buffer): Promise<PageContent[]>;
+  /** Section tree declared by the document itself, for formats that have one */
+  extractOutline?(buffer: Buffer, pages: PageContent[]): Promise<{ source: DocumentOutlineSource; sections: OutlineSection[] }>;
+}
+
+/**
+ * Every format the ingestion pipeline accepts
+ */
+export const SUPPORTED_DOCUMENT_FORMATS: DocumentFormatInfo[] = [
+  { format: 'pdf', mimeTypes: ['application/pdf'], extensions: ['.pdf'] },
+  {
+    format: 'docx',
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+    extensions: ['.docx']
+  },
+  { format: 'html', mimeTypes: ['text/html', 'application/xhtml+xml'], extensions: ['.html', '.htm', '.xhtml'] },
+  { format: 'markdown', mimeTypes: ['text/markdown', 'text/x-markdown'], extensions: ['.md', '.markdown'] },
+  { format: 'text', mimeTypes: ['text/plain'], extensions: ['.txt'] }
+];
+
+/**
+ * Resolve a document format from filename and MIME type
+ * Extension wins because browsers often send text/plain or octet-stream for Markdown
+ */
+export function resolveDocumentFormat(mimeType: string | undefined, filename: string): DocumentFormat | undefined {
+  const extension = filename.toLowerCase().match(/\.[a-z0-9]+$/)?.[0];
+
+  const byExtension = extension
+    ? SUPPORTED_DOCUMENT_FORMATS.find(info => info.extensions.includes(extension))
+    : undefined;
+  if (byExtension) {
+    return byExtension.format;
+  }
+
+  return SUPPORTED_DOCUMENT_FORMATS.find(info => mimeType && info.mimeTypes.includes(mimeType))?.format;
+}
+
+// Logical pages are kept near the size of a dense PDF page so chunk sizes stay comparable
+const MAX_LOGICAL_PAGE_CHARS = 3000;
+
+interface Section {
+  title?: string;
+  paragraphs: string[];
+}
+
+/**
+ * Convert heading-delimited sections into logical pages
+ * Sections longer than MAX_LOGICAL_PAGE_CHARS continue on the next page with the same title
+ */
+export function sectionsToPages(sections: Section[]): PageContent[] {
+  const pages: PageContent[] = [];
+
+  for (const section of sections) {
+    let pageText = '';
+
+    for (const paragraph of section.paragraphs) {
+      if (pageText && pageText.length + paragraph.length > MAX_LOGICAL_PAGE_CHARS) {
+        pages.push({ pageNumber: pages.length + 1, text: pageText, sectionTitle: section.title });
+        pageText = '';
+      }
+      pageText = pageText ? `${pageText}\n\n${paragraph}` : paragraph;
+    }
+
+    if (pageText) {
+      // Repeat the heading in the text so it is searchable alongside the body
+      const text = section.title && pages[pages.length - 1]?.sectionTitle !== section.title
+        ? `${section.title}\n\n${pageText}`
+        : pageText;
+      pages.push({ pageNumber: pages.length + 1, text, sectionTitle: section.title });
+    }
+  }
+
+  return pages;
+}
+
+/**
+ * Split plain text into paragraphs on blank lines
+ */
+function splitParagraphs(text: string): string[] {
+  return text
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.replace(/[ \t]+/g, ' ').trim())
+    .filter(paragraph => paragraph.length > 0);
+}
+
+// Elements whose content is never document text
+const SKIPPED_TAGS = new Set(['script', 'style', 'noscript', 'template', 'svg', 'head', 'nav']);
+
+// Elements that end a paragraph
+const BLOCK_TAGS = new Set([
+  'p', 'div', 'section', 'article', 'main', 'aside', 'header', 'footer', 'li', 'ul', 'ol',
+  'table', 'tr', 'thead', 'tbody', 'blockquote', 'pre', 'dl', 'dt', 'dd', 'figure', 'figcaption', 'br', 'hr'
+]);
+
+// Headings that start a new logical page; h4-h6 stay inline with their section
+const SECTION_HEADING = /^h[1-3]$/;
+
+/**
+ * HTML extractor (also used for DOCX after conversion to HTML)
+ */
+export class HtmlExtractor implements FormatExtractor {
+  readonly format = 'html' as const;
+  readonly mimeTypes = SUPPORTED_DOCUMENT_FORMATS.find(info => info.format === 'html')!.mimeTypes;
+  readonly extensions = SUPPORTED_DOCUMENT_FORMATS.find(info => info.format === 'html')!.extensions;
+
+  async extract(buffer: Buffer): Promise<PageContent[]> {
+    return this.extractFromHtml(buffer.toString('utf-8'));
+  }
+
+  extractFromHtml(html: string): PageContent[] {
+    const root = parse(html);
+    const body = root.querySelector('body') || root;
+
+    const sections: Section[] = [{ paragraphs: [] }];
+    let paragraph = '';
+
+    const flush = () => {
+      const text = paragraph.replace(/\s+/g, ' ').trim();
+      if (text) {
+        sections[sections.length - 1].paragraphs.push(text);
+      }
+      paragraph = '';
+    };
+
+    const walk = (node: Node) => {
+      for (const child of node.childNodes) {
+        if (child.nodeType === NodeType.TEXT_NODE) {
+          paragraph += child.text;
+          continue;
+        }
+        if (child.nodeType !== NodeType.ELEMENT_NODE) {
+          continue;
+        }
+
+        const element = child as HTMLElement;
+        const tag = element.tagName.toLowerCase();
+
+        if (SKIPPED_TAGS.has(tag)) {
+          continue;
+        }
+
+        if (SECTION_HEADING.test(tag)) {
+          flush();
+          sections.push({ title: element.text.replace(/\s+/g, ' ').trim() || undefined, paragraphs: [] });
+          continue;
+        }
+
+        if (tag === 'td' || tag === 'th') {
+          // Keep table rows on one line: "cell | cell | cell"
+          paragraph += paragraph.trim() ? ' | ' : '';
+          walk(element);
+          continue;
+        }
+
+        if (BLOCK_TAGS.has(tag) || /^h[4-6]$/.test(tag)) {
+          flush();
+          walk(element);
+          flush();
+          continue;
+        }
+
+        walk(element);
+      }
+    };
+
+    walk(body);
+    flush();
+
+    return sectionsToPages(sections);
+  }
+}
+
+/**
+ * DOCX extractor - converts to HTML with mammoth so Word headings become sections
+ */
+export class DocxExtractor implements FormatExtractor {
+  readonly format = 'docx' as const;
+  readonly mimeTypes = SUPPORTED_DOCUMENT_FORMATS.find(info => info.format === 'docx')!.mimeTypes;
+  readonly extensions = SUPPORTED_DOCUMENT_FORMATS.find(info => info.format === 'docx')!.extensions;
+  private htmlExtractor = new HtmlExtractor();
+
+  async extract(buffer: Buffer): Promise<PageContent[]> {
+    const mammoth = await import('mammoth');
+    const result = await mammoth.convertToHtml({ buffer });
+
+    if (result.messages.length > 0) {
+      console.log(`   ⚠️  DOCX conversion reported ${result.messages.length} warnings`);
+    }
+
+    return this.htmlExtractor.extractFromHtml(result.value);
+  }
+}
+
+/**
+ * Markdown extractor - ATX headings (#, ##, ###) start new sections
+ */
+export class MarkdownExtractor implements FormatExtractor {
+  readonly format = 'markdown' as const;
+  readonly mimeTypes = SUPPORTED_DOCUMENT_FORMATS.find(info => info.format === 'markdown')!.mimeTypes;
+  readonly extensions = SUPPORTED_DOCUMENT_FORMATS.find(info => info.format === 'markdown')!.extensions;
+
+  async extract(buffer: Buffer): Promise<PageContent[]> {
+    const lines = buffer.toString('utf-8').replace(/\r\n/g, '\n').split('\n');
+
+    const sections: { title?: string; body: string[] }[] = [{ body: [] }];
+    let inCodeFence = false;
+
+    for (const line of lines) {
+      if (/^\s*(```|~~~)/.test(line)) {
+        inCodeFence = !inCodeFence;
+      }
+
+      const heading = !inCodeFence ? line.match(/^#{1,3}\s+(.+?)\s*#*\s*$/) : null;
+      if (heading) {
+        sections.push({ title: heading[1], body: [] });
+      } else {
+        sections[sections.length - 1].body.push(line);
+      }
+    }
+
+    return sectionsToPages(sections.map(section => ({
+      title: section.title,
+      paragraphs: splitParagraphs(section.body.join('\n'))
+    })));
+  }
+}
+
+/**
+ * Plain text extractor - paragraphs grouped into logical pages
+ * Form feeds (common in exported manuals) force a page break
+ */
+export class TextExtractor implements FormatExtractor {
+  readonly format = 'text' as const;
+  readonly mimeTypes = SUPPORTED_DOCUMENT_FORMATS.find(info => info.format === 'text')!.mimeTypes;
+  readonly extensions = SUPPORTED_DOCUMENT_FORMATS.find(info => info.format === 'text')!.extensions;
+
+  async extract(buffer: Buffer): Promise<PageContent[]> {
+    const text = buffer.toString('utf-8').replace(/\r\n/g, '\n');
+
+    return sectionsToPages(text.split('\f').map(page => ({
+      paragraphs: splitParagraphs(page)
+    })));
+  }
+}
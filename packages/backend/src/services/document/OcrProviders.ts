@@ -0,0 +1,178 @@
+/**
+ * OCR Providers for scanned PDF pages
+ *
+ * DocumentProcessor renders pages that have no text layer to PNG and hands them to
+ * an OCR provider. Providers are pluggable: a local Tesseract binary, the Tesseract
+ * WASM build (no system install needed), or none to disable OCR.
+ *
+ * @author ARYA RAG Team
+ */
+
+import { spawn } from 'child_process';
+
+export type OcrProviderType = 'tesseract' | 'tesseract-wasm' | 'none';
+
+export interface OcrResult {
+  text: string;
+  confidence: number; // 0-1, mean word confidence reported by the engine
+}
+
+/**
+ * Recognizes text in a rendered page image
+ */
+export interface OcrProvider {
+  readonly name: string;
+  recognize(image: Buffer): Promise<OcrResult>;
+  dispose?(): Promise<void>;
+}
+
+export interface OcrProviderOptions {
+  language?: string;
+  tesseractPath?: string;
+  timeoutMs?: number;
+}
+
+/**
+ * Local Tesseract binary (tesseract 4+), invoked once per page
+ * Reads the PNG from stdin and parses TSV output for per-word confidence
+ */
+export class TesseractCliOcrProvider implements OcrProvider {
+  readonly name = 'tesseract';
+  private binaryPath: string;
+  private language: string;
+  private timeoutMs: number;
+
+  constructor(options: OcrProviderOptions = {}) {
+    this.binaryPath = options.tesseractPath || 'tesseract';
+    this.language = options.language || 'eng';
+    this.timeoutMs = options.timeoutMs || 60000;
+  }
+
+  async recognize(image: Buffer): Promise<OcrResult> {
+    const tsv = await this.run(['stdin', 'stdout', '-l', this.language, 'tsv'], image);
+    return this.parseTsv(tsv);
+  }
+
+  private run(args: string[], input: Buffer): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const child = spawn(this.binaryPath, args, { stdio: ['pipe', 'pipe', 'pipe'] });
+      let stdout = '';
+      let stderr = '';
+
+      const timer = setTimeout(() => {
+        child.kill();
+        reject(new Error(`Tesseract timed out after ${this.timeoutMs}ms`));
+      }, this.timeoutMs);
+
+      child.stdout.on('data', data => { stdout += data.toString(); });
+      child.stderr.on('data', data => { stderr += data.toString(); });
+      child.on('error', error => {
+        clearTimeout(timer);
+        reject(new Error(`Failed to run ${this.binaryPath}: ${error.message}`));
+      });
+      child.on('close', code => {
+        clearTimeout(timer);
+        if (code === 0) {
+          resolve(stdout);
+        } else {
+          reject(new Error(`Tesseract exited with code ${code}: ${stderr.trim()}`));
+        }
+      });
+
+      child.stdin.end(input);
+    });
+  }
+
+  /**
+   * Rebuild text from TSV word rows (level 5), keeping line and paragraph breaks
+   */
+  private parseTsv(tsv: string): OcrResult {
+    const lines: string[] = [];
+    const confidences: number[] = [];
+    let currentKey = '';
+    let currentLine: string[] = [];
+
+    for (const row of tsv.split('\n').slice(1)) {
+      const columns = row.split('\t');
+      if (columns.length < 12 || columns[0] !== '5') continue;
+
+      const [, , block, paragraph, line] = columns;
+      const confidence = parseFloat(columns[10]);
+      const word = columns[11].trim();
+      if (!word) continue;
+
+      const key = `${block}.${paragraph}.${line}`;
+      if (key !== currentKey && currentLine.length > 0) {
+        lines.push(currentLine.join(' '));
+        currentLine = [];
+      }
+      currentKey = key;
+      currentLine.push(word);
+
+      if (confidence >= 0) {
+        confidences.push(confidence);
+      }
+    }
+    if (currentLine.length > 0) {
+      lines.push(currentLine.join(' '));
+    }
+
+    return {
+      text: lines.join('\n'),
+      confidence: confidences.length > 0
+        ? confidences.reduce((sum, c) => sum + c, 0) / confidences.length / 100
+        : 0
+    };
+  }
+}
+
+/**
+ * Tesseract WASM build via tesseract.js
+ * One worker is created lazily and reused for every page
+ */
+export class TesseractWasmOcrProvider implements OcrProvider {
+  readonly name = 'tesseract-wasm';
+  private language: string;
+  private worker: any = null;
+
+  constructor(options: OcrProviderOptions = {}) {
+    this.language = options.language || 'eng';
+  }
+
+  async recognize(image: Buffer): Promise<OcrResult> {
+    if (!this.worker) {
+      const { createWorker } = await import('tesseract.js');
+      this.worker = await createWorker(this.language);
+    }
+
+    const { data } = await this.worker.recognize(image);
+    return {
+      text: (data.text || '').trim(),
+      confidence: (data.confidence || 0) / 100
+    };
+  }
+
+  async dispose(): Promise<void> {
+    if (this.worker) {
+      await this.worker.terminate();
+      this.worker = null;
+    }
+  }
+}
+
+/**
+ * Create an OCR provider by type
+ * Returns null for 'none' so callers can skip page rendering entirely
+ */
+export function createOcrProvider(type: OcrProviderType, options: OcrProviderOptions = {}): OcrProvider | null {
+  switch (type) {
+    case 'tesseract':
+      return new TesseractCliOcrProvider(options);
+    case 'tesseract-wasm':
+      return new TesseractWasmOcrProvider(options);
+    case 'none':
+      return null;
+    default:
+      throw new Error(`Unsupported OCR provider: ${type}`);
+  }
+}
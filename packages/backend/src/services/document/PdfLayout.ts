@@ -0,0 +1,507 @@
+/**
+ * PDF Layout Analysis
+ *
+ * pdf.js returns a page as positioned text items in content-stream order. Joining them with
+ * spaces is fine for single-column prose but interleaves multi-column pages, turns tables into
+ * word soup and repeats running headers in every chunk. Items are grouped into lines by
+ * baseline and into cells by horizontal gaps, then:
+ * - lines repeated at the top or bottom of many pages are stripped as running headers/footers
+ * - runs of lines whose cells line up in columns are emitted as tables: Markdown, or one
+ *   "Header: value" line per row
+ * - pages with a column gutter are read column by column
+ *
+ * @author ARYA RAG Team
+ */
+
+import { PageTable } from '@arya-rag/types';
+
+export type TableFormat = 'markdown' | 'rows' | 'none';
+export type ReadingOrder = 'columns' | 'stream';
+
+/**
+ * A text item in PDF user space (origin bottom-left, y grows upward)
+ */
+export interface LayoutItem {
+  index: number; // Position in the page's text content
+  text: string;
+  x: number;
+  y: number; // Baseline
+  width: number;
+  height: number; // Font size
+}
+
+export interface LayoutCell {
+  text: string;
+  x0: number;
+  x1: number;
+  items: number[];
+}
+
+export interface LayoutLine {
+  y: number;
+  height: number;
+  cells: LayoutCell[];
+}
+
+export interface LayoutTable {
+  rows: string[][]; // First row is the header
+  items: Set<number>;
+}
+
+export interface PageLayout {
+  items: LayoutItem[];
+  lines: LayoutLine[]; // Top to bottom
+  top: number; // Page box edges in user space
+  bottom: number;
+}
+
+/**
+ * Running header and footer lines found on a page
+ */
+export interface RunningText {
+  header: string;
+  footer: string;
+  title?: string; // Header without page numbers, e.g. the running chapter title
+  items: Set<number>;
+}
+
+export interface PageTextOptions {
+  tableFormat: TableFormat;
+  readingOrder: ReadingOrder;
+  skip?: Set<number>; // Items left out of the text (running headers and footers)
+}
+
+// Items whose baselines differ by less than this many em share a line
+const LINE_TOLERANCE_EM = 0.5;
+// A horizontal gap wider than this many em starts a new cell
+const CELL_GAP_EM = 1.0;
+// A vertical gap wider than this many em ends a table
+const ROW_GAP_EM = 2.5;
+const MIN_TABLE_ROWS = 3;
+const MIN_TABLE_COLUMNS = 2;
+// At least one column must hold short values; two columns of long lines are prose
+const MAX_AVERAGE_CELL_WORDS = 3;
+// Running headers and footers: the outer share of the page height they sit in, how many
+// lines are checked at each edge, the gap (in em) setting them apart from the body, and on
+// how many pages the same text must appear
+const RUNNING_TEXT_BAND = 0.12;
+const RUNNING_TEXT_LINES = 2;
+const RUNNING_TEXT_GAP_EM = 1.5;
+const MIN_RUNNING_TEXT_PAGES = 3;
+// Share of lines that may cross a column gutter (titles and figures spanning the columns)
+const MAX_GUTTER_CROSSINGS = 0.1;
+const MIN_GUTTER_EM = 1.0;
+const MIN_COLUMN_LINES = 3;
+const PAGE_NUMBER = /^(page\s+)?(\d+|x{0,3}(ix|iv|v?i{0,3}))(\s*(of|\/)\s*\d+)?$/i;
+// Page numbers inside header text: "page n (of m)" anywhere, or a number at either end
+const PAGE_NUMBER_IN_TEXT = /page\s+\d+(\s*(of|\/)\s*\d+)?|^\d+\b|\b\d+$/gi;
+
+/**
+ * Positioned items from pdf.js text content; marked-content entries become empty items
+ * so indices stay aligned with textContent.items
+ */
+export function toLayoutItems(items: any[]): LayoutItem[] {
+  return items.map((item, index) => {
+    const transform: number[] = item.transform || [1, 0, 0, 1, 0, 0];
+    return {
+      index,
+      text: typeof item.str === 'string' ? item.str : '',
+      x: transform[4],
+      y: transform[5],
+      width: item.width || 0,
+      height: item.height || Math.hypot(transform[2], transform[3]) || 1
+    };
+  });
+}
+
+/**
+ * Items and lines of a page
+ *
+ * @param view - Page box from pdf.js ([x0, y0, x1, y1]); defaults to the extent of the text
+ */
+export function analyzePage(items: any[], view?: number[]): PageLayout {
+  const layoutItems = toLayoutItems(items);
+  const lines = groupLines(layoutItems);
+  return {
+    items: layoutItems,
+    lines,
+    top: view ? view[3] : Math.max(...lines.map(line => line.y + line.height), 0),
+    bottom: view ? view[1] : Math.min(...lines.map(line => line.y), 0)
+  };
+}
+
+/**
+ * Group items into lines, top to bottom, and split each line into cells at wide gaps
+ */
+export function groupLines(items: LayoutItem[]): LayoutLine[] {
+  const visible = items
+    .filter(item => item.text.trim().length > 0)
+    .sort((a, b) => b.y - a.y || a.x - b.x);
+
+  const lineItems: LayoutItem[][] = [];
+  for (const item of visible) {
+    const line = lineItems[lineItems.length - 1];
+    if (line && Math.abs(line[0].y - item.y) < LINE_TOLERANCE_EM * Math.max(line[0].height, item.height)) {
+      line.push(item);
+    } else {
+      lineItems.push([item]);
+    }
+  }
+
+  return lineItems.map(line => {
+    line.sort((a, b) => a.x - b.x);
+    const height = Math.max(...line.map(item => item.height));
+    const cells: LayoutCell[] = [];
+
+    for (const item of line) {
+      const cell = cells[cells.length - 1];
+      const gap = cell ? item.x - cell.x1 : Infinity;
+      if (cell && gap <= CELL_GAP_EM * height) {
+        // pdf.js splits words across items; only a visible gap is a space
+        cell.text += (gap > 0.1 * height && !cell.text.endsWith(' ') ? ' ' : '') + item.text;
+        cell.x1 = Math.max(cell.x1, item.x + item.width);
+        cell.items.push(item.index);
+      } else {
+        cells.push({ text: item.text, x0: item.x, x1: item.x + item.width, items: [item.index] });
+      }
+    }
+
+    cells.forEach(cell => { cell.text = cell.text.replace(/\s+/g, ' ').trim(); });
+    return { y: line[0].y, height, cells };
+  });
+}
+
+interface Column {
+  x0: number;
+  x1: number;
+}
+
+interface TableRun {
+  columns: Column[];
+  rows: Array<Map<Column, string>>;
+  items: number[];
+  lastLine: LayoutLine;
+}
+
+/**
+ * Find runs of lines whose cells line up in columns
+ * Lines with a single cell under a later column continue the wrapped cell above them.
+ */
+export function detectTables(lines: LayoutLine[]): LayoutTable[] {
+  const tables: LayoutTable[] = [];
+  let run: TableRun | null = null;
+
+  for (const line of lines) {
+    if (run && run.lastLine.y - line.y > ROW_GAP_EM * Math.max(line.height, run.lastLine.height)) {
+      run = closeRun(run, tables);
+    }
+
+    if (line.cells.length >= MIN_TABLE_COLUMNS) {
+      const row = run ? assignColumns(run.columns, line.cells) : null;
+      if (run && row) {
+        run.rows.push(row);
+      } else {
+        closeRun(run, tables);
+        const columns = line.cells.map(cell => ({ x0: cell.x0, x1: cell.x1 }));
+        run = { columns, rows: [new Map(columns.map((column, i) => [column, line.cells[i].text]))], items: [], lastLine: line };
+      }
+      run.items.push(...line.cells.flatMap(cell => cell.items));
+      run.lastLine = line;
+      continue;
+    }
+
+    const cell = line.cells[0];
+    const column = run?.columns.find(candidate => overlaps(candidate, cell));
+    if (run && column && column !== leftmost(run.columns)) {
+      const row = run.rows[run.rows.length - 1];
+      row.set(column, [row.get(column), cell.text].filter(Boolean).join(' '));
+      widen(column, cell);
+      run.items.push(...cell.items);
+      run.lastLine = line;
+    } else {
+      run = closeRun(run, tables);
+    }
+  }
+  closeRun(run, tables);
+
+  return tables;
+}
+
+/**
+ * Map a line's cells onto existing columns; cells clear of every column open new ones
+ * Returns null when a cell spans two columns, two cells share one, or nothing lines up.
+ */
+function assignColumns(columns: Column[], cells: LayoutCell[]): Map<Column, string> | null {
+  const placed: Array<[Column, LayoutCell]> = [];
+  const added: Column[] = [];
+
+  for (const cell of cells) {
+    const hits = columns.filter(column => overlaps(column, cell));
+    if (hits.length > 1 || (hits.length === 1 && placed.some(([column]) => column === hits[0]))) {
+      return null;
+    }
+    if (hits.length === 1) {
+      placed.push([hits[0], cell]);
+    } else {
+      const column = { x0: cell.x0, x1: cell.x1 };
+      added.push(column);
+      placed.push([column, cell]);
+    }
+  }
+  if (added.length === cells.length) {
+    return null;
+  }
+
+  placed.forEach(([column, cell]) => widen(column, cell));
+  columns.push(...added);
+  return new Map(placed.map(([column, cell]) => [column, cell.text]));
+}
+
+/**
+ * Keep a finished run if it looks like a table; always returns null for the caller's run
+ */
+function closeRun(run: TableRun | null, tables: LayoutTable[]): null {
+  const table = run ? finishRun(run) : null;
+  if (table) {
+    tables.push(table);
+  }
+  return null;
+}
+
+function finishRun(run: TableRun): LayoutTable | null {
+  const columns = [...run.columns].sort((a, b) => a.x0 - b.x0);
+  if (run.rows.length < MIN_TABLE_ROWS || columns.length < MIN_TABLE_COLUMNS) {
+    return null;
+  }
+
+  const rows = run.rows.map(row => columns.map(column => row.get(column) || ''));
+  const hasShortColumn = columns.some((_, i) => {
+    const values = rows.map(row => row[i]).filter(Boolean);
+    const words = values.reduce((sum, value) => sum + value.split(' ').length, 0);
+    return values.length > 0 && words / values.length <= MAX_AVERAGE_CELL_WORDS;
+  });
+  if (!hasShortColumn) {
+    return null;
+  }
+
+  return { rows, items: new Set(run.items) };
+}
+
+function overlaps(column: Column, cell: { x0: number; x1: number }): boolean {
+  return cell.x0 < column.x1 && cell.x1 > column.x0;
+}
+
+function widen(column: Column, cell: LayoutCell): void {
+  column.x0 = Math.min(column.x0, cell.x0);
+  column.x1 = Math.max(column.x1, cell.x1);
+}
+
+function leftmost(columns: Column[]): Column {
+  return columns.reduce((left, column) => (column.x0 < left.x0 ? column : left));
+}
+
+/**
+ * Render table rows as text
+ *
+ * @returns The table text and the header lines to repeat when it is split ('' for rows)
+ */
+export function renderTable(rows: string[][], format: Exclude<TableFormat, 'none'>): { text: string; header: string } {
+  const [header, ...body] = rows;
+
+  if (format === 'rows') {
+    const names = header.map((name, i) => name || `Column ${i + 1}`);
+    const text = body
+      .map(row => row.map((value, i) => (value ? `${names[i]}: ${value}` : '')).filter(Boolean).join('; '))
+      .filter(Boolean)
+      .join('\n');
+    return { text, header: '' };
+  }
+
+  const toLine = (row: string[]) => `| ${row.map(value => value.replace(/\|/g, '\\|')).join(' | ')} |`;
+  const headerText = `${toLine(header)}\n${toLine(header.map(() => '---'))}\n`;
+  return { text: headerText + body.map(toLine).join('\n'), header: headerText };
+}
+
+/**
+ * Find running headers and footers: lines near the top or bottom edge, set apart from the
+ * body by a gap, whose text (page numbers masked) appears at the same edge on several pages
+ *
+ * @returns One entry per page, in the order given
+ */
+export function findRunningText(pages: PageLayout[]): RunningText[] {
+  const candidates = pages.map(page => {
+    const band = RUNNING_TEXT_BAND * (page.top - page.bottom);
+    return {
+      header: edgeBlock(page.lines).filter(line => line.y >= page.top - band),
+      footer: edgeBlock([...page.lines].reverse()).filter(line => line.y <= page.bottom + band)
+    };
+  });
+
+  const pagesByKey = new Map<string, Set<number>>();
+  candidates.forEach(({ header, footer }, pageIndex) => {
+    const keys = [...header.map(line => `header:${runningTextKey(line)}`), ...footer.map(line => `footer:${runningTextKey(line)}`)];
+    keys.forEach(key => pagesByKey.set(key, (pagesByKey.get(key) || new Set()).add(pageIndex)));
+  });
+  const repeated = (edge: string, line: LayoutLine) =>
+    (pagesByKey.get(`${edge}:${runningTextKey(line)}`)?.size || 0) >= MIN_RUNNING_TEXT_PAGES;
+
+  return candidates.map(({ header, footer }) => {
+    const headerLines = header.filter(line => repeated('header', line));
+    const footerLines = footer.filter(line => repeated('footer', line)).filter(line => !headerLines.includes(line));
+    const title = headerLines
+      .flatMap(line => line.cells.map(cell => cell.text))
+      .filter(text => !isPageNumber(text))
+      .join(' ');
+
+    return {
+      header: lineText(headerLines),
+      footer: lineText(footerLines),
+      title: title || undefined,
+      items: new Set([...headerLines, ...footerLines].flatMap(line => line.cells.flatMap(cell => cell.items)))
+    };
+  });
+}
+
+/**
+ * Lines at one edge of the page up to the first wide gap; none when the edge runs straight into the body
+ */
+function edgeBlock(lines: LayoutLine[]): LayoutLine[] {
+  for (let i = 0; i < Math.min(RUNNING_TEXT_LINES, lines.length - 1); i++) {
+    if (Math.abs(lines[i].y - lines[i + 1].y) > RUNNING_TEXT_GAP_EM * Math.max(lines[i].height, lines[i + 1].height)) {
+      return lines.slice(0, i + 1);
+    }
+  }
+  return [];
+}
+
+function runningTextKey(line: LayoutLine): string {
+  return line.cells
+    .map(cell => (isPageNumber(cell.text) ? '#' : cell.text.toLowerCase().replace(PAGE_NUMBER_IN_TEXT, '#')))
+    .join(' | ');
+}
+
+function isPageNumber(text: string): boolean {
+  return PAGE_NUMBER.test(text.replace(/[-–—]/g, '').trim());
+}
+
+function lineText(lines: LayoutLine[]): string {
+  return lines.map(line => line.cells.map(cell => cell.text).join(' ')).join('\n');
+}
+
+/**
+ * Vertical gutters between text columns: x ranges that (almost) no line crosses, with
+ * prose on every side
+ */
+function findGutters(lines: LayoutLine[]): Column[] {
+  const cells = lines.flatMap(line => line.cells);
+  if (lines.length < 2 * MIN_COLUMN_LINES) {
+    return [];
+  }
+
+  const em = [...lines.map(line => line.height)].sort((a, b) => a - b)[Math.floor(lines.length / 2)];
+  const allowedCrossings = Math.max(1, Math.floor(MAX_GUTTER_CROSSINGS * lines.length));
+  const edges = Array.from(new Set(cells.flatMap(cell => [cell.x0, cell.x1]))).sort((a, b) => a - b);
+
+  const gutters: Column[] = [];
+  let open: Column | null = null;
+  for (let i = 0; i + 1 < edges.length; i++) {
+    const middle = (edges[i] + edges[i + 1]) / 2;
+    const crossings = lines.filter(line => line.cells.some(cell => cell.x0 < middle && cell.x1 > middle)).length;
+    if (crossings <= allowedCrossings) {
+      open = open || { x0: edges[i], x1: edges[i + 1] };
+      open.x1 = edges[i + 1];
+    } else if (open) {
+      gutters.push(open);
+      open = null;
+    }
+  }
+  // A range still open at the right edge is margin, not a gutter
+  const wide = gutters.filter(gutter => gutter.x1 - gutter.x0 >= MIN_GUTTER_EM * em);
+  if (wide.length === 0) {
+    return [];
+  }
+
+  // Every column must hold prose; short cells side by side are a table or a form
+  const columns = Array.from({ length: wide.length + 1 }, () => [] as LayoutCell[]);
+  cells
+    .filter(cell => !wide.some(gutter => crosses(cell, gutter)))
+    .forEach(cell => columns[wide.filter(gutter => gutter.x1 <= cell.x0).length].push(cell));
+  const prose = columns.every(column =>
+    column.length >= MIN_COLUMN_LINES &&
+    column.reduce((sum, cell) => sum + cell.text.split(' ').length, 0) / column.length > MAX_AVERAGE_CELL_WORDS
+  );
+
+  return prose ? wide : [];
+}
+
+/**
+ * Item indices in reading order: between lines that span the gutters, each column is read
+ * top to bottom before the next
+ */
+function columnOrder(lines: LayoutLine[], gutters: Column[]): number[] {
+  const order: number[] = [];
+  let band: LayoutCell[][] = gutters.map(() => []).concat([[]]);
+  const flush = () => {
+    band.forEach(column => column.forEach(cell => order.push(...cell.items)));
+    band = band.map(() => []);
+  };
+
+  for (const line of lines) {
+    if (line.cells.some(cell => gutters.some(gutter => crosses(cell, gutter)))) {
+      flush();
+      line.cells.forEach(cell => order.push(...cell.items));
+    } else {
+      line.cells.forEach(cell => band[gutters.filter(gutter => gutter.x1 <= cell.x0).length].push(cell));
+    }
+  }
+  flush();
+
+  return order;
+}
+
+function crosses(cell: LayoutCell, gutter: Column): boolean {
+  return cell.x0 < gutter.x1 && cell.x1 > gutter.x0;
+}
+
+/**
+ * Page text with tables rendered in place
+ * Single-column text is joined exactly as pdf.js returns it: each item followed by a space.
+ */
+export function layoutPageText(page: PageLayout, options: PageTextOptions): { text: string; tables: PageTable[] } {
+  const skip = options.skip || new Set<number>();
+  const lines = skip.size > 0
+    ? page.lines.filter(line => !line.cells.some(cell => cell.items.some(index => skip.has(index))))
+    : page.lines;
+
+  const detected = options.tableFormat === 'none' ? [] : detectTables(lines);
+  const tableItems = new Set(detected.flatMap(table => Array.from(table.items)));
+  const gutters = options.readingOrder === 'columns'
+    ? findGutters(lines.filter(line => !line.cells.some(cell => cell.items.some(index => tableItems.has(index)))))
+    : [];
+  const order = gutters.length > 0 ? columnOrder(lines, gutters) : page.items.map(item => item.index);
+
+  const tables: PageTable[] = [];
+  const emitted = new Set<LayoutTable>();
+  let text = '';
+
+  for (const index of order) {
+    const item = page.items[index];
+    const table = tableItems.has(index) ? detected.find(candidate => candidate.items.has(index))! : undefined;
+    if (table && options.tableFormat !== 'none' && !emitted.has(table)) {
+      const rendered = renderTable(table.rows, options.tableFormat);
+      text = text.trimEnd();
+      text += text ? '\n\n' : '';
+      tables.push({ start: text.length, end: text.length + rendered.text.length, header: rendered.header });
+      text += rendered.text + '\n\n';
+      emitted.add(table);
+    } else if (!table && !skip.has(index) && item.text) {
+      text += item.text + ' ';
+    }
+  }
+
+  const leading = text.length - text.trimStart().length;
+  return {
+    text: text.trim(),
+    tables: tables.map(table => ({ ...table, start: table.start - leading, end: table.end - leading }))
+  };
+}
@@ -0,0 +1,586 @@
+/**
+ * Embedding Migration Service
+ *
+ * Re-embeds every chunk of one user (or the whole system) with a new provider/model.
+ * New vectors are staged in chunk_embeddings while search keeps serving the current model;
+ * once every chunk has a staged vector, activate_embedding_migration copies them into
+ * document_chunks and switches the active model in a single transaction.
+ *
+ * Migrations are durable: a worker claims them (claim_embedding_migration RPC), records a
+ * cursor after each batch and heartbeats, so a restarted server resumes where it stopped.
+ *
+ * @author ARYA RAG Team
+ */
+
+import { randomUUID } from 'crypto';
+import { hostname } from 'os';
+import { DatabaseClient } from '../../config/database';
+import { EmbeddingMigration, EmbeddingMigrationStatus } from '@arya-rag/types';
+import { EmbeddingService } from './EmbeddingService';
+import { EmbeddingModelService } from './EmbeddingModelService';
+
+export interface EmbeddingMigrationConfig {
+  batchSize: number;
+  pollIntervalMs: number;
+  lockTimeoutSeconds: number; // Running migrations without a heartbeat for this long are reclaimed
+  maxActivationAttempts: number; // Catch-up passes for chunks added while the walk was running
+}
+
+export interface StartEmbeddingMigrationInput {
+  provider: EmbeddingMigration['targetProvider'];
+  model: string;
+  dimensions?: number;
+  userId?: string; // Omit to migrate every user
+}
+
+/**
+ * Thrown from heartbeat when a migration was cancelled or reclaimed by another worker
+ */
+class MigrationStoppedError extends Error {
+  constructor(migrationId: string) {
+    super(`Embedding migration ${migrationId} is no longer owned by this worker`);
+    this.name = 'MigrationStoppedError';
+  }
+}
+
+const ACTIVE_STATUSES: EmbeddingMigrationStatus[] = ['queued', 'running'];
+
+export class EmbeddingMigrationService {
+  private static instance: EmbeddingMigrationService;
+  private config: EmbeddingMigrationConfig;
+  private workerId: string;
+  private current: string | null = null;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private polling = false;
+
+  private constructor(config: Partial<EmbeddingMigrationConfig> = {}) {
+    this.config = {
+      batchSize: parseInt(process.env.EMBEDDING_MIGRATION_BATCH_SIZE || '100'),
+      pollIntervalMs: parseInt(process.env.EMBEDDING_MIGRATION_POLL_INTERVAL_MS || '10000'),
+      lockTimeoutSeconds: parseInt(process.env.EMBEDDING_MIGRATION_LOCK_TIMEOUT_SECONDS || '600'),
+      maxActivationAttempts: 5,
+      ...config
+    };
+    this.workerId = `${hostname()}:${process.pid}:${randomUUID().substring(0, 8)}`;
+  }
+
+  /**
+   * Get singleton instance of EmbeddingMigrationService
+   */
+  public static getInstance(): EmbeddingMigrationService {
+    if (!EmbeddingMigrationService.instance) {
+      EmbeddingMigrationService.instance = new EmbeddingMigrationService();
+    }
+    return EmbeddingMigrationService.instance;
+  }
+
+  /**
+   * Queue a migration to a new model
+   * Callers check findConflictingMigration first; overlapping migrations would race at activation
+   */
+  async startMigration(input: StartEmbeddingMigrationInput): Promise<EmbeddingMigration> {
+    const db = DatabaseClient.getInstance().getClient();
+    const sourceModel = await EmbeddingModelService.getInstance().getActiveModel(input.userId);
+
+    const { data, error } = await (db as any)
+      .from('embedding_migrations')
+      .insert({
+        migration_id: `emb_${randomUUID()}`,
+        user_id: input.userId || null,
+        source_model: sourceModel.model || null,
+        target_provider: input.provider,
+        target_model: input.model,
+        target_dimensions: input.dimensions || null,
+        status: 'queued',
+        total_chunks: await this.countChunks(input.userId),
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to start embedding migration: ${error.message}`);
+    }
+
+    console.log(`📥 Queued embedding migration ${data.migration_id}: ${sourceModel.model || 'unknown'} → ${input.model} (${input.userId ? `user ${input.userId}` : 'all users'})`);
+
+    if (this.pollTimer) {
+      setImmediate(() => this.poll());
+    }
+
+    return this.mapMigration(data);
+  }
+
+  /**
+   * Active migration that overlaps the given scope, if any
+   * A system-wide migration overlaps everything; a user migration overlaps that user and system-wide ones
+   */
+  async findConflictingMigration(userId?: string): Promise<EmbeddingMigration | null> {
+    const db = DatabaseClient.getInstance().getClient();
+
+    const { data, error } = await (db as any)
+      .from('embedding_migrations')
+      .select('*')
+      .in('status', ACTIVE_STATUSES);
+
+    if (error) {
+      throw new Error(`Failed to check active migrations: ${error.message}`);
+    }
+
+    const conflict = (data || []).find((row: any) =>
+      !userId || !row.user_id || row.user_id === userId
+    );
+
+    return conflict ? this.mapMigration(conflict) : null;
+  }
+
+  /**
+   * List migrations, newest first
+   */
+  async listMigrations(filters: { status?: EmbeddingMigrationStatus; userId?: string } = {}): Promise<EmbeddingMigration[]> {
+    const db = DatabaseClient.getInstance().getClient();
+
+    let query = (db as any)
+      .from('embedding_migrations')
+      .select('*');
+
+    if (filters.status) query = query.eq('status', filters.status);
+    if (filters.userId) query = query.eq('user_id', filters.userId);
+
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .limit(50);
+
+    if (error) {
+      throw new Error(`Failed to list embedding migrations: ${error.message}`);
+    }
+
+    return (data || []).map((row: any) => this.mapMigration(row));
+  }
+
+  /**
+   * Get a migration by ID, or null if it does not exist
+   */
+  async getMigration(migrationId: string): Promise<EmbeddingMigration | null> {
+    const db = DatabaseClient.getInstance().getClient();
+
+    const { data, error } = await (db as any)
+      .from('embedding_migrations')
+      .select('*')
+      .eq('migration_id', migrationId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch embedding migration: ${error.message}`);
+    }
+
+    return data ? this.mapMigration(data) : null;
+  }
+
+  /**
+   * Cancel a queued or running migration and discard its staged embeddings
+   * Search is unaffected: it never read the staged vectors
+   * @returns null if the migration is not active
+   */
+  async cancelMigration(migrationId: string): Promise<EmbeddingMigration | null> {
+    const db = DatabaseClient.getInstance().getClient();
+
+    const { data, error } = await (db as any)
+      .from('embedding_migrations')
+      .update({
+        status: 'cancelled',
+        error_message: 'Cancelled by administrator',
+        processed_chunks: 0,
+        last_chunk_id: null,
+        locked_by: null,
+        completed_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      })
+      .eq('migration_id', migrationId)
+      .in('status', ACTIVE_STATUSES)
+      .select();
+
+    if (error) {
+      throw new Error(`Failed to cancel embedding migration: ${error.message}`);
+    }
+    if (!data || data.length === 0) {
+      return null;
+    }
+
+    await this.discardStagedEmbeddings(migrationId);
+
+    return this.mapMigration(data[0]);
+  }
+
+  /**
+   * Requeue a failed or cancelled migration
+   * Failed migrations resume from their cursor; cancelled ones start over
+   * @returns null if the migration is not in a retryable state
+   */
+  async retryMigration(migrationId: string): Promise<EmbeddingMigration | null> {
+    const db = DatabaseClient.getInstance().getClient();
+
+    const { data, error } = await (db as any)
+      .from('embedding_migrations')
+      .update({
+        status: 'queued',
+        error_message: null,
+        locked_by: null,
+        completed_at: null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('migration_id', migrationId)
+      .in('status', ['failed', 'cancelled'])
+      .select();
+
+    if (error) {
+      throw new Error(`Failed to retry embedding migration: ${error.message}`);
+    }
+    if (!data || data.length === 0) {
+      return null;
+    }
+
+    if (this.pollTimer) {
+      setImmediate(() => this.poll());
+    }
+
+    return this.mapMigration(data[0]);
+  }
+
+  /**
+   * Start polling for migrations
+   */
+  start(): void {
+    if (this.pollTimer) {
+      return;
+    }
+
+    console.log(`🔁 Embedding migration worker ${this.workerId} started`);
+    this.pollTimer = setInterval(() => this.poll(), this.config.pollIntervalMs);
+    setImmediate(() => this.poll());
+  }
+
+  /**
+   * Stop polling and hand a running migration back to the queue; the next worker resumes from its cursor
+   */
+  async stop(): Promise<void> {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+
+    if (!this.current) {
+      return;
+    }
+
+    const db = DatabaseClient.getInstance().getClient();
+    const { error } = await (db as any)
+      .from('embedding_migrations')
+      .update({ status: 'queued', locked_by: null, updated_at: new Date().toISOString() })
+      .eq('migration_id', this.current)
+      .eq('locked_by', this.workerId)
+      .eq('status', 'running');
+
+    if (error) {
+      console.warn(`⚠️ Failed to release embedding migration ${this.current}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Claim and run one migration at a time; re-embedding is already bound by the provider
+   */
+  private async poll(): Promise<void> {
+    if (this.polling || this.current) {
+      return;
+    }
+    this.polling = true;
+
+    try {
+      const db = DatabaseClient.getInstance().getClient();
+      const { data, error } = await (db as any).rpc('claim_embedding_migration', {
+        worker_id_param: this.workerId,
+        lock_timeout_seconds: this.config.lockTimeoutSeconds
+      });
+
+      if (error) {
+        throw new Error(`Failed to claim embedding migration: ${error.message}`);
+      }
+
+      const row = Array.isArray(data) ? data[0] : data;
+      if (row) {
+        this.current = row.migration_id;
+        this.execute(row).finally(() => {
+          this.current = null;
+        });
+      }
+    } catch (error) {
+      console.error(`❌ Embedding migration poll failed: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Run a claimed migration and record the outcome
+   */
+  private async execute(row: any): Promise<void> {
+    const migrationId: string = row.migration_id;
+    console.log(`🔁 Running embedding migration ${migrationId} → ${row.target_provider}/${row.target_model}${row.last_chunk_id ? ', resuming' : ''}`);
+
+    try {
+      const service = EmbeddingModelService.getInstance().createEmbeddingService({
+        provider: row.target_provider,
+        model: row.target_model,
+        dimensions: row.target_dimensions || undefined
+      });
+
+      let dimensions: number = row.target_dimensions;
+      if (!dimensions) {
+        const probe = await service.generateEmbedding({ text: 'dimension probe' });
+        dimensions = probe.embedding.length;
+        await this.heartbeat(migrationId, { target_dimensions: dimensions });
+      }
+
+      await this.heartbeat(migrationId, { total_chunks: await this.countChunks(row.user_id || undefined) });
+
+      const processed = await this.stageEmbeddings(row, service, dimensions, {
+        cursor: row.last_chunk_id || undefined,
+        processed: row.processed_chunks || 0
+      });
+
+      const switched = await this.activate(row, service, dimensions, processed);
+      console.log(`✅ Embedding migration ${migrationId} completed: ${switched} chunks now use ${row.target_model}`);
+
+    } catch (error) {
+      if (error instanceof MigrationStoppedError) {
+        console.log(`🛑 Embedding migration ${migrationId} stopped (cancelled or reclaimed)`);
+        return;
+      }
+
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`❌ Embedding migration ${migrationId} failed: ${message}`);
+
+      const db = DatabaseClient.getInstance().getClient();
+      await (db as any)
+        .from('embedding_migrations')
+        .update({
+          status: 'failed',
+          error_message: message,
+          locked_by: null,
+          completed_at: new Date().toISOString(),
+          updated_at: new Date().toISOString()
+        })
+        .eq('migration_id', migrationId)
+        .eq('locked_by', this.workerId);
+    }
+  }
+
+  /**
+   * Switch to the new model, staging any chunks that were added since the walk passed them
+   */
+  private async activate(row: any, service: EmbeddingService, dimensions: number, processed: number): Promise<number> {
+    const db = DatabaseClient.getInstance().getClient();
+
+    for (let attempt = 1; attempt <= this.config.maxActivationAttempts; attempt++) {
+      // Re-check ownership right before switching; a cancelled migration must not activate
+      await this.heartbeat(row.migration_id, {});
+
+      const { data, error } = await (db as any).rpc('activate_embedding_migration', {
+        migration_id_param: row.migration_id
+      });
+
+      if (!error) {
+        return typeof data === 'number' ? data : processed;
+      }
+      if (!error.message?.includes('MISSING_EMBEDDINGS')) {
+        throw new Error(`Activation failed: ${error.message}`);
+      }
+
+      console.log(`🔁 ${error.message}; staging chunks added during the migration (attempt ${attempt})`);
+      processed = await this.stageEmbeddings(row, service, dimensions, {
+        processed,
+        since: row.started_at || row.created_at
+      });
+    }
+
+    throw new Error(`Chunks kept being added during activation after ${this.config.maxActivationAttempts} attempts`);
+  }
+
+  /**
+   * Walk the scope's chunks in chunk_id order and stage an embedding for each one that lacks it
+   * @returns Total chunks processed so far
+   */
+  private async stageEmbeddings(
+    row: any,
+    service: EmbeddingService,
+    dimensions: number,
+    options: { cursor?: string; processed: number; since?: string }
+  ): Promise<number> {
+    const db = DatabaseClient.getInstance().getClient();
+    let cursor = options.cursor;
+    let processed = options.processed;
+
+    while (true) {
+      let query = (db as any)
+        .from('document_chunks')
+        .select('chunk_id, chunk_text')
+        .order('chunk_id', { ascending: true })
+        .limit(this.config.batchSize);
+
+      if (row.user_id) query = query.eq('user_id', row.user_id);
+      if (cursor) query = query.gt('chunk_id', cursor);
+      if (options.since) query = query.gte('created_at', options.since);
+
+      const { data: chunks, error } = await query;
+      if (error) {
+        throw new Error(`Failed to read chunks: ${error.message}`);
+      }
+      if (!chunks || chunks.length === 0) {
+        return processed;
+      }
+
+      // A resumed run may have staged part of this batch before it stopped
+      const { data: staged, error: stagedError } = await (db as any)
+        .from('chunk_embeddings')
+        .select('chunk_id')
+        .eq('migration_id', row.migration_id)
+        .in('chunk_id', chunks.map((chunk: any) => chunk.chunk_id));
+
+      if (stagedError) {
+        throw new Error(`Failed to read staged embeddings: ${stagedError.message}`);
+      }
+
+      const stagedIds = new Set((staged || []).map((s: any) => s.chunk_id));
+      const pending = chunks.filter((chunk: any) => !stagedIds.has(chunk.chunk_id));
+
+      if (pending.length > 0) {
+        const response = await service.generateBatchEmbeddings({
+          texts: pending.map((chunk: any) => ({ text: chunk.chunk_text, metadata: { chunkId: chunk.chunk_id } })),
+          batchId: row.migration_id
+        });
+
+        if (response.errors?.length) {
+          throw new Error(`Embedding failed for chunk ${pending[response.errors[0].index]?.chunk_id}: ${response.errors[0].error}`);
+        }
+        if (response.embeddings.length !== pending.length) {
+          throw new Error(`Embedding batch returned ${response.embeddings.length} vectors for ${pending.length} chunks`);
+        }
+
+        const rows = pending.map((chunk: any, index: number) => {
+          const embedding = response.embeddings[index].embedding;
+          if (embedding.length !== dimensions) {
+            throw new Error(`Model returned ${embedding.length} dimensions, expected ${dimensions}`);
+          }
+          return { migration_id: row.migration_id, chunk_id: chunk.chunk_id, embedding };
+        });
+
+        const { error: insertError } = await (db as any)
+          .from('chunk_embeddings')
+          .upsert(rows, { onConflict: 'migration_id,chunk_id' });
+
+        if (insertError) {
+          throw new Error(`Failed to stage embeddings: ${insertError.message}`);
+        }
+      }
+
+      processed += pending.length;
+      cursor = chunks[chunks.length - 1].chunk_id;
+
+      // Catch-up passes don't move the cursor of the main walk
+      await this.heartbeat(row.migration_id, options.since
+        ? { processed_chunks: processed }
+        : { processed_chunks: processed, last_chunk_id: cursor });
+
+      console.log(`🧠 Embedding migration ${row.migration_id}: ${processed} chunks staged`);
+    }
+  }
+
+  /**
+   * Record progress while this worker still owns the migration
+   * @throws MigrationStoppedError if it was cancelled or reclaimed
+   */
+  private async heartbeat(migrationId: string, fields: Record<string, any>): Promise<void> {
+    const db = DatabaseClient.getInstance().getClient();
+
+    const { data, error } = await (db as any)
+      .from('embedding_migrations')
+      .update({ ...fields, heartbeat_at: new Date().toISOString(), updated_at: new Date().toISOString() })
+      .eq('migration_id', migrationId)
+      .eq('locked_by', this.workerId)
+      .eq('status', 'running')
+      .select('migration_id');
+
+    if (error) {
+      console.warn(`⚠️ Heartbeat failed for embedding migration ${migrationId}: ${error.message}`);
+      return;
+    }
+    if (!data || data.length === 0) {
+      throw new MigrationStoppedError(migrationId);
+    }
+  }
+
+  private async countChunks(userId?: string): Promise<number> {
+    const db = DatabaseClient.getInstance().getClient();
+
+    let query = (db as any)
+      .from('document_chunks')
+      .select('*', { count: 'exact', head: true });
+    if (userId) query = query.eq('user_id', userId);
+
+    const { count, error } = await query;
+    if (error) {
+      throw new Error(`Failed to count chunks: ${error.message}`);
+    }
+
+    return count || 0;
+  }
+
+  private async discardStagedEmbeddings(migrationId: string): Promise<void> {
+    const db = DatabaseClient.getInstance().getClient();
+
+    const { error } = await (db as any)
+      .from('chunk_embeddings')
+      .delete()
+      .eq('migration_id', migrationId);
+
+    if (error) {
+      console.warn(`⚠️ Failed to discard staged embeddings for ${migrationId}: ${error.message}`);
+    }
+  }
+
+  private mapMigration(row: any): EmbeddingMigration {
+    const totalChunks = row.total_chunks || 0;
+    const processedChunks = row.processed_chunks || 0;
+
+    // Chunks added mid-run can push processed past the initial count; 100% means activated
+    const percentage = row.status === 'completed'
+      ? 100
+      : totalChunks > 0 ? Math.min(99, Math.round((processedChunks / totalChunks) * 100)) : 0;
+
+    let etaSeconds: number | undefined;
+    if (row.status === 'running' && row.started_at && processedChunks > 0 && totalChunks > processedChunks) {
+      const elapsedSeconds = (Date.now() - new Date(row.started_at).getTime()) / 1000;
+      etaSeconds = Math.round((elapsedSeconds / processedChunks) * (totalChunks - processedChunks));
+    }
+
+    return {
+      migrationId: row.migration_id,
+      userId: row.user_id || undefined,
+      sourceModel: row.source_model || undefined,
+      targetProvider: row.target_provider,
+      targetModel: row.target_model,
+      targetDimensions: row.target_dimensions || undefined,
+      status: row.status,
+      totalChunks,
+      processedChunks,
+      percentage,
+      etaSeconds,
+      errorMessage: row.error_message || undefined,
+      startedAt: row.started_at || undefined,
+      completedAt: row.completed_at || undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+}
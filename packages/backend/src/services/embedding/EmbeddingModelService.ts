@@ -0,0 +1,145 @@
+/**
+ * Embedding Model Service
+ *
+ * Resolves the embedding provider/model that is active for a user.
+ * Embedding migrations switch the model per user or system-wide (embedding_model_assignments);
+ * without an assignment the EMBEDDING_PROVIDER / EMBEDDING_MODEL settings apply.
+ * Ingestion and queries both resolve their model here, so a user's chunks and
+ * query vectors always come from the same model.
+ *
+ * @author ARYA RAG Team
+ */
+
+import { DatabaseClient } from '../../config/database';
+import { ActiveEmbeddingModel } from '@arya-rag/types';
+import { EmbeddingService, EmbeddingProvider, EMBEDDING_MODELS, EmbeddingModel } from './EmbeddingService';
+import { EmbeddingServiceFactory } from './EmbeddingServiceFactory';
+
+/**
+ * Assignment scope for the system default model
+ */
+export const SYSTEM_EMBEDDING_SCOPE = '*';
+
+export interface EmbeddingModelAssignment extends ActiveEmbeddingModel {
+  userId?: string; // Set for per-user assignments
+}
+
+export class EmbeddingModelService {
+  private static instance: EmbeddingModelService;
+
+  private constructor() {}
+
+  /**
+   * Get singleton instance of EmbeddingModelService
+   */
+  public static getInstance(): EmbeddingModelService {
+    if (!EmbeddingModelService.instance) {
+      EmbeddingModelService.instance = new EmbeddingModelService();
+    }
+    return EmbeddingModelService.instance;
+  }
+
+  /**
+   * Active model for a user: their own assignment, then the system assignment, then the environment
+   * Pass no user to get the system-wide model
+   */
+  async getActiveModel(userId?: string): Promise<ActiveEmbeddingModel> {
+    const db = DatabaseClient.getInstance().getClient();
+    const scopes = userId ? [userId, SYSTEM_EMBEDDING_SCOPE] : [SYSTEM_EMBEDDING_SCOPE];
+
+    const { data, error } = await (db as any)
+      .from('embedding_model_assignments')
+      .select('*')
+      .in('scope', scopes);
+
+    if (error) {
+      // Falling back is safe: search only matches chunks embedded with the model it is given
+      console.warn(`⚠️ Failed to load embedding model assignment, using environment model: ${error.message}`);
+      return this.getEnvironmentModel();
+    }
+
+    const rows = data || [];
+    const row = rows.find((r: any) => r.scope === userId) || rows.find((r: any) => r.scope === SYSTEM_EMBEDDING_SCOPE);
+
+    return row ? this.mapAssignment(row) : this.getEnvironmentModel();
+  }
+
+  /**
+   * Embedding service for the model that is active for a user
+   */
+  async getEmbeddingService(userId?: string): Promise<EmbeddingService> {
+    return this.createEmbeddingService(await this.getActiveModel(userId));
+  }
+
+  /**
+   * Embedding service for a specific model
+   * The environment model goes through the factory defaults so it shares the cached instance
+   */
+  createEmbeddingService(model: Pick<ActiveEmbeddingModel, 'provider' | 'model' | 'dimensions'> & { scope?: ActiveEmbeddingModel['scope'] }): EmbeddingService {
+    const factory = EmbeddingServiceFactory.getInstance();
+
+    if (model.scope === 'environment') {
+      return factory.createEmbeddingService();
+    }
+
+    return factory.createEmbeddingService({
+      provider: model.provider as EmbeddingProvider,
+      model: model.model,
+      dimensions: model.dimensions
+    });
+  }
+
+  /**
+   * Model configured through environment variables
+   */
+  getEnvironmentModel(): ActiveEmbeddingModel {
+    const model = process.env.EMBEDDING_MODEL || '';
+    const knownModel = EMBEDDING_MODELS[model as EmbeddingModel];
+    const dimensions = process.env.EMBEDDING_DIMENSIONS
+      ? parseInt(process.env.EMBEDDING_DIMENSIONS)
+      : knownModel?.dimensions;
+
+    return {
+      provider: (process.env.EMBEDDING_PROVIDER || 'ollama') as ActiveEmbeddingModel['provider'],
+      model,
+      dimensions,
+      scope: 'environment'
+    };
+  }
+
+  /**
+   * System model plus every per-user assignment
+   */
+  async listAssignments(): Promise<{ system: ActiveEmbeddingModel; users: EmbeddingModelAssignment[] }> {
+    const db = DatabaseClient.getInstance().getClient();
+
+    const { data, error } = await (db as any)
+      .from('embedding_model_assignments')
+      .select('*')
+      .order('activated_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to list embedding model assignments: ${error.message}`);
+    }
+
+    const rows = data || [];
+    const systemRow = rows.find((row: any) => row.scope === SYSTEM_EMBEDDING_SCOPE);
+
+    return {
+      system: systemRow ? this.mapAssignment(systemRow) : this.getEnvironmentModel(),
+      users: rows
+        .filter((row: any) => row.scope !== SYSTEM_EMBEDDING_SCOPE)
+        .map((row: any) => ({ ...this.mapAssignment(row), userId: row.scope }))
+    };
+  }
+
+  private mapAssignment(row: any): ActiveEmbeddingModel {
+    return {
+      provider: row.provider,
+      model: row.model,
+      dimensions: row.dimensions,
+      scope: row.scope === SYSTEM_EMBEDDING_SCOPE ? 'system' : 'user',
+      activatedAt: row.activated_at
+    };
+  }
+}
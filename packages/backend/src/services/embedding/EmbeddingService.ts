@@ -2,7 +2,7 @@
  * Embedding Service Interface
  * 
  * Defines the contract for embedding generation services.
- * Supports both local (Ollama) and cloud (OpenAI) providers with consistent interface.
+ * Supports local (Ollama), cloud (OpenAI) and in-process mock providers with consistent interface.
  * 
  * @author ARYA RAG Team
  */
@@ -104,6 +104,13 @@ export abstract class EmbeddingService {
     provider: string;
   }>;
 
+  /**
+   * Name of the configured model, as recorded in document_chunks.embedding_model
+   */
+  getModelName(): string {
+    return this.config.model;
+  }
+
   /**
    * Get current service statistics
    */
@@ -224,7 +231,7 @@ export abstract class EmbeddingService {
 /**
  * Embedding service provider types
  */
-export type EmbeddingProvider = 'ollama' | 'openai';
+export type EmbeddingProvider = 'ollama' | 'openai' | 'mock';
 
 /**
  * Configuration for different providers
@@ -241,6 +248,12 @@ export const EMBEDDING_CONFIGS: Record<EmbeddingProvider, Partial<EmbeddingServi
     maxRetries: 5,
     retryDelayMs: 2000,
     timeoutMs: 60000
+  },
+  mock: {
+    maxBatchSize: 100,
+    maxRetries: 0,      // Computed in-process, nothing to retry
+    retryDelayMs: 0,
+    timeoutMs: 5000
   }
 };
 
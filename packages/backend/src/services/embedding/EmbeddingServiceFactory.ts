@@ -2,7 +2,8 @@
  * Embedding Service Factory
  * 
  * Factory class for creating embedding service instances based on configuration.
- * Enables easy switching between Ollama (local) and OpenAI (cloud) providers.
+ * Enables easy switching between Ollama (local) and OpenAI (cloud) providers,
+ * plus an in-process mock provider for tests and offline runs.
  * 
  * @author ARYA RAG Team
  */
@@ -10,10 +11,12 @@
 import { EmbeddingService, EmbeddingProvider } from './EmbeddingService';
 import { OllamaEmbeddingService, OllamaEmbeddingConfig } from './OllamaEmbeddingService';
 import { OpenAIEmbeddingService, OpenAIEmbeddingConfig } from './OpenAIEmbeddingService';
+import { MockEmbeddingService, MockEmbeddingConfig, MOCK_EMBEDDING_MODEL } from './MockEmbeddingService';
 
 export interface EmbeddingFactoryConfig {
   provider: EmbeddingProvider;
   model?: string;
+  dimensions?: number; // OpenAI v3 models can return reduced dimensions
   
   // Ollama specific
   ollamaBaseUrl?: string;
@@ -69,6 +72,10 @@ export class EmbeddingServiceFactory {
       case 'openai':
         service = this.createOpenAIService(finalConfig);
         break;
+
+      case 'mock':
+        service = this.createMockService(finalConfig);
+        break;
         
       default:
         throw new Error(`Unsupported embedding provider: ${finalConfig.provider}`);
@@ -106,6 +113,7 @@ export class EmbeddingServiceFactory {
       apiKey: config.openaiApiKey,
       model: config.model,
       organization: config.openaiOrganization,
+      ...(config.dimensions !== undefined && { dimensions: config.dimensions }),
       // Only pass these values if they're defined, let the service use its defaults otherwise
       ...(config.maxBatchSize !== undefined && { maxBatchSize: config.maxBatchSize }),
       ...(config.maxRetries !== undefined && { maxRetries: config.maxRetries }),
@@ -116,6 +124,19 @@ export class EmbeddingServiceFactory {
     return new OpenAIEmbeddingService(openaiConfig);
   }
 
+  /**
+   * Create mock embedding service
+   */
+  private createMockService(config: EmbeddingFactoryConfig): MockEmbeddingService {
+    const mockConfig: Partial<MockEmbeddingConfig> = {
+      model: config.model,
+      ...(config.dimensions !== undefined && { dimensions: config.dimensions }),
+      ...(config.maxBatchSize !== undefined && { maxBatchSize: config.maxBatchSize })
+    };
+
+    return new MockEmbeddingService(mockConfig);
+  }
+
   /**
    * Resolve configuration from environment variables and defaults
    */
@@ -128,6 +149,7 @@ export class EmbeddingServiceFactory {
     const resolved: EmbeddingFactoryConfig = {
       provider,
       model: config?.model || this.getDefaultModel(provider),
+      dimensions: config?.dimensions,
       maxBatchSize: config?.maxBatchSize,
       maxRetries: config?.maxRetries,
       retryDelayMs: config?.retryDelayMs,
@@ -157,8 +179,11 @@ export class EmbeddingServiceFactory {
    * Get default model for a provider - now uses unified EMBEDDING_MODEL
    */
   private getDefaultModel(provider: EmbeddingProvider): string {
-    // Use unified EMBEDDING_MODEL env var - required
+    // Use unified EMBEDDING_MODEL env var - required except for the mock provider
     const modelFromEnv = process.env.EMBEDDING_MODEL;
+    if (provider === 'mock') {
+      return modelFromEnv || MOCK_EMBEDDING_MODEL;
+    }
     if (!modelFromEnv) {
       throw new Error('EMBEDDING_MODEL environment variable is required');
     }
@@ -172,6 +197,7 @@ export class EmbeddingServiceFactory {
     const keyParts = [
       config.provider,
       config.model,
+      config.dimensions,
       config.ollamaBaseUrl,
       config.openaiApiKey?.substring(0, 10), // Only use first 10 chars of API key
       config.maxBatchSize,
@@ -0,0 +1,178 @@
+/**
+ * Mock Embedding Service
+ *
+ * Deterministic embeddings computed in-process, for tests and machines without a
+ * model server. Texts are hashed into a fixed-size vector from their content terms
+ * (feature hashing), so texts that share words get a high cosine similarity and the
+ * same text always gets the same vector.
+ *
+ * @author ARYA RAG Team
+ */
+
+import {
+  EmbeddingService,
+  EmbeddingRequest,
+  EmbeddingResponse,
+  BatchEmbeddingRequest,
+  BatchEmbeddingResponse,
+  EmbeddingServiceConfig,
+  EMBEDDING_CONFIGS
+} from './EmbeddingService';
+import { STOP_WORDS } from '../rag/Reranker';
+import { countTokens, getTokenizer } from '../../utils/tokenCounter';
+
+export const MOCK_EMBEDDING_MODEL = 'mock-hash-embedding';
+
+// Adjacent term pairs add word-order information at a lower weight than single terms
+const BIGRAM_WEIGHT = 0.5;
+
+export interface MockEmbeddingConfig extends EmbeddingServiceConfig {
+  dimensions: number;
+}
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Lower-cased content terms with plural and verb endings folded, in text order
+ */
+function embeddingTerms(text: string): string[] {
+  const terms = text.toLowerCase().match(/[a-z0-9]+/g) || [];
+  return terms
+    .filter(term => !STOP_WORDS.has(term))
+    .map(term => /\d/.test(term) || term.length <= 4 ? term : term.replace(/(?:ing|ed|es|s)$/, ''));
+}
+
+/**
+ * Hash a text into a unit-length vector
+ * Each term adds a signed weight to one dimension; repeated terms grow sublinearly.
+ */
+export function hashEmbedding(text: string, dimensions: number): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+  const terms = embeddingTerms(text);
+  const features = new Map<string, number>();
+
+  const addFeature = (feature: string, weight: number) => {
+    features.set(feature, (features.get(feature) || 0) + weight);
+  };
+
+  terms.forEach((term, i) => {
+    addFeature(term, 1);
+    if (i > 0) {
+      addFeature(`${terms[i - 1]} ${term}`, BIGRAM_WEIGHT);
+    }
+  });
+
+  // Text made only of stop words still gets a stable, non-zero vector
+  if (features.size === 0) {
+    addFeature(text.trim().toLowerCase(), 1);
+  }
+
+  features.forEach((weight, feature) => {
+    const hash = fnv1a(feature);
+    const sign = hash & 0x80000000 ? -1 : 1;
+    vector[hash % dimensions] += sign * (1 + Math.log(weight));
+  });
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+  return vector.map(value => value / norm);
+}
+
+export class MockEmbeddingService extends EmbeddingService {
+  constructor(config: Partial<MockEmbeddingConfig> = {}) {
+    const defaultConfig = {
+      ...EMBEDDING_CONFIGS.mock,
+      model: process.env.EMBEDDING_MODEL || MOCK_EMBEDDING_MODEL,
+      // Match the vector column so mock embeddings can be stored like real ones
+      dimensions: parseInt(process.env.EMBEDDING_DIMENSIONS || '768')
+    } as MockEmbeddingConfig;
+
+    super({ ...defaultConfig, ...config });
+
+    console.log(`🧪 Mock Embedding Service: ${this.config.model} (${this.config.dimensions}D)`);
+  }
+
+  /**
+   * Generate a hashed embedding for a single text
+   */
+  async generateEmbedding(request: EmbeddingRequest): Promise<EmbeddingResponse> {
+    this.validateText(request.text);
+
+    const startTime = Date.now();
+    const dimensions = this.config.dimensions || 768;
+    const embedding = hashEmbedding(request.text, dimensions);
+    const tokenCount = countTokens(request.text, getTokenizer(this.config.model));
+
+    this.updateStats(tokenCount, Date.now() - startTime, false);
+
+    return {
+      embedding,
+      tokenCount,
+      model: this.config.model,
+      dimensions
+    };
+  }
+
+  /**
+   * Generate hashed embeddings for multiple texts
+   */
+  async generateBatchEmbeddings(request: BatchEmbeddingRequest): Promise<BatchEmbeddingResponse> {
+    const startTime = Date.now();
+    const embeddings: EmbeddingResponse[] = [];
+    const errors: BatchEmbeddingResponse['errors'] = [];
+
+    for (const [index, embeddingRequest] of request.texts.entries()) {
+      try {
+        embeddings.push(await this.generateEmbedding(embeddingRequest));
+      } catch (error) {
+        errors.push({
+          index,
+          error: error instanceof Error ? error.message : String(error),
+          text: embeddingRequest.text.substring(0, 100)
+        });
+      }
+    }
+
+    return {
+      embeddings,
+      totalTokens: embeddings.reduce((sum, embedding) => sum + (embedding.tokenCount || 0), 0),
+      processingTime: Date.now() - startTime,
+      model: this.config.model,
+      batchId: request.batchId,
+      errors: errors.length > 0 ? errors : undefined
+    };
+  }
+
+  /**
+   * Always available; nothing to connect to
+   */
+  async testConnection(): Promise<boolean> {
+    return true;
+  }
+
+  /**
+   * Get model information
+   */
+  async getModelInfo(): Promise<{
+    name: string;
+    dimensions: number;
+    maxTokens: number;
+    provider: string;
+  }> {
+    return {
+      name: this.config.model,
+      dimensions: this.config.dimensions || 768,
+      maxTokens: 8192,
+      provider: 'mock'
+    };
+  }
+}
@@ -16,7 +16,7 @@ import {
   EmbeddingServiceConfig,
   EMBEDDING_CONFIGS
 } from './EmbeddingService';
-import { countTokens } from '../../utils/tokenCounter';
+import { countTokens, getTokenizer } from '../../utils/tokenCounter';
 
 interface OllamaEmbeddingRequest {
   model: string;
@@ -105,7 +105,7 @@ export class OllamaEmbeddingService extends EmbeddingService {
         `Generate embedding for text (${request.text.length} chars)`
       );
 
-      const tokenCount = countTokens(request.text);
+      const tokenCount = countTokens(request.text, getTokenizer(this.config.model));
       const processingTime = Date.now() - startTime;
       
       this.updateStats(tokenCount, processingTime, false);
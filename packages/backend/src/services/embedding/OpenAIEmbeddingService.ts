@@ -18,7 +18,7 @@ import {
   EMBEDDING_CONFIGS,
   EMBEDDING_MODELS
 } from './EmbeddingService';
-import { countTokens } from '../../utils/tokenCounter';
+import { countTokens, getTokenizer } from '../../utils/tokenCounter';
 
 export interface OpenAIEmbeddingConfig extends EmbeddingServiceConfig {
   apiKey: string;
@@ -114,7 +114,7 @@ export class OpenAIEmbeddingService extends EmbeddingService {
       const response = await this.client.embeddings.create(apiParams);
       
       const firstEmbedding = response.data[0].embedding;
-      const tokenCount = countTokens(request.text);
+      const tokenCount = countTokens(request.text, getTokenizer(this.config.model));
       const processingTime = Date.now() - startTime;
       
       // Basic validation
@@ -177,7 +177,7 @@ export class OpenAIEmbeddingService extends EmbeddingService {
         // Process successful responses
         response.data.forEach((embeddingData, index) => {
           const originalRequest = batch[index];
-          const tokenCount = countTokens(originalRequest.text);
+          const tokenCount = countTokens(originalRequest.text, getTokenizer(this.config.model));
           
           embeddings.push({
             embedding: embeddingData.embedding,
@@ -0,0 +1,92 @@
+/**
+ * Metrics for offline RAG evaluation
+ *
+ * Retrieval is scored on pages rather than chunks, so results stay comparable when
+ * chunk size changes: a golden question names the pages that answer it, and any chunk
+ * from one of those pages counts as a hit. Answers are scored lexically against the
+ * expected answer, which keeps runs deterministic and free of model calls.
+ *
+ * @author ARYA RAG Team
+ */
+
+import { sameDocument } from '../rag/CitationResolver';
+import { tokenizeTerms } from '../rag/Reranker';
+
+export interface ExpectedSource {
+  document: string; // Filename, matched loosely (case and extension are ignored)
+  page: number;
+}
+
+export interface PageReference {
+  documentName: string;
+  pageNumber: number;
+}
+
+function matchesExpected(page: PageReference, expected: ExpectedSource): boolean {
+  return page.pageNumber === expected.page && sameDocument(page.documentName, expected.document);
+}
+
+/**
+ * Whether a retrieved or cited page is one of the expected pages
+ */
+export function isRelevantPage(page: PageReference, expected: ExpectedSource[]): boolean {
+  return expected.some(source => matchesExpected(page, source));
+}
+
+/**
+ * Fraction of the expected pages found among the top k results
+ */
+export function recallAtK(ranked: PageReference[], expected: ExpectedSource[], k: number): number {
+  if (expected.length === 0) {
+    return 1;
+  }
+
+  const topK = ranked.slice(0, k);
+  const found = expected.filter(source => topK.some(page => matchesExpected(page, source))).length;
+  return found / expected.length;
+}
+
+/**
+ * 1 / rank of the first result on an expected page, or 0 when none was retrieved
+ */
+export function reciprocalRank(ranked: PageReference[], expected: ExpectedSource[]): number {
+  const rank = ranked.findIndex(page => isRelevantPage(page, expected));
+  return rank === -1 ? 0 : 1 / (rank + 1);
+}
+
+/**
+ * Citations in an answer that point at an expected page
+ */
+export function scoreCitations(cited: PageReference[], expected: ExpectedSource[]): { correct: number; total: number } {
+  return {
+    correct: cited.filter(page => isRelevantPage(page, expected)).length,
+    total: cited.length
+  };
+}
+
+/**
+ * Term overlap between a generated and an expected answer
+ * f1 balances precision and recall; recall is the share of expected terms the answer
+ * contains, which is fairer to answers that add context around the expected fact.
+ */
+export function answerSimilarity(answer: string, expectedAnswer: string): { f1: number; recall: number } {
+  const answerTerms = tokenizeTerms(answer.replace(/\[\d+\]/g, ' '));
+  const expectedTerms = tokenizeTerms(expectedAnswer);
+
+  if (answerTerms.size === 0 || expectedTerms.size === 0) {
+    return { f1: 0, recall: 0 };
+  }
+
+  let overlap = 0;
+  expectedTerms.forEach(term => {
+    if (answerTerms.has(term)) overlap++;
+  });
+
+  const precision = overlap / answerTerms.size;
+  const recall = overlap / expectedTerms.size;
+
+  return {
+    f1: overlap === 0 ? 0 : (2 * precision * recall) / (precision + recall),
+    recall
+  };
+}
@@ -0,0 +1,154 @@
+/**
+ * JSON and HTML output for evaluation runs
+ *
+ * The JSON report is the comparable artifact: pass an earlier one as the baseline
+ * and the HTML report shows the change of every metric next to the new values.
+ *
+ * @author ARYA RAG Team
+ */
+
+import { mkdirSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { EvaluationReport, EvaluationSummary } from './RAGEvaluator';
+
+export interface MetricComparison {
+  metric: string;
+  baseline: number | null;
+  current: number | null;
+  delta: number | null;
+  higherIsBetter: boolean;
+}
+
+const COMPARED_METRICS: Array<{ key: keyof EvaluationSummary; label: (report: EvaluationReport) => string; higherIsBetter: boolean }> = [
+  { key: 'recallAtK', label: report => `Recall@${report.k}`, higherIsBetter: true },
+  { key: 'mrr', label: () => 'MRR', higherIsBetter: true },
+  { key: 'citationAccuracy', label: () => 'Citation accuracy', higherIsBetter: true },
+  { key: 'answerSimilarity', label: () => 'Answer similarity (F1)', higherIsBetter: true },
+  { key: 'answerRecall', label: () => 'Answer term recall', higherIsBetter: true },
+  { key: 'avgResponseTime', label: () => 'Avg response time (ms)', higherIsBetter: false },
+  { key: 'failed', label: () => 'Failed questions', higherIsBetter: false }
+];
+
+/**
+ * Compare the summary metrics of two runs
+ */
+export function compareReports(baseline: EvaluationReport, current: EvaluationReport): MetricComparison[] {
+  return COMPARED_METRICS.map(({ key, label, higherIsBetter }) => {
+    const before = baseline.summary[key] as number | null;
+    const after = current.summary[key] as number | null;
+
+    return {
+      metric: label(current),
+      baseline: before,
+      current: after,
+      delta: before !== null && after !== null ? Math.round((after - before) * 1000) / 1000 : null,
+      higherIsBetter
+    };
+  });
+}
+
+/**
+ * Write the report as JSON and HTML; returns the file paths
+ */
+export function writeEvaluationReport(
+  report: EvaluationReport,
+  outputDir: string,
+  baseline?: EvaluationReport
+): { jsonPath: string; htmlPath: string } {
+  mkdirSync(outputDir, { recursive: true });
+
+  const stamp = report.createdAt.replace(/[:.]/g, '-');
+  const name = `${report.dataset}-${report.label}-${stamp}`.replace(/[^a-zA-Z0-9._-]/g, '_');
+  const jsonPath = join(outputDir, `${name}.json`);
+  const htmlPath = join(outputDir, `${name}.html`);
+
+  writeFileSync(jsonPath, JSON.stringify(report, null, 2));
+  writeFileSync(htmlPath, renderEvaluationHtml(report, baseline));
+
+  return { jsonPath, htmlPath };
+}
+
+const escapeHtml = (value: unknown): string =>
+  String(value ?? '').replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[char] as string));
+
+const formatMetric = (value: number | null | undefined): string =>
+  value === null || value === undefined ? '–' : Number.isInteger(value) ? String(value) : value.toFixed(3);
+
+/**
+ * Render a self-contained HTML report
+ */
+export function renderEvaluationHtml(report: EvaluationReport, baseline?: EvaluationReport): string {
+  const comparison = baseline ? compareReports(baseline, report) : null;
+
+  const summaryRows = comparison
+    ? comparison.map(row => {
+        const improved = row.delta !== null && row.delta !== 0 && (row.delta > 0) === row.higherIsBetter;
+        const deltaClass = row.delta === null || row.delta === 0 ? '' : improved ? 'better' : 'worse';
+        return `<tr><td>${escapeHtml(row.metric)}</td><td>${formatMetric(row.baseline)}</td><td>${formatMetric(row.current)}</td>` +
+          `<td class="${deltaClass}">${row.delta !== null && row.delta > 0 ? '+' : ''}${formatMetric(row.delta)}</td></tr>`;
+      }).join('\n')
+    : COMPARED_METRICS.map(({ key, label }) =>
+        `<tr><td>${escapeHtml(label(report))}</td><td>${formatMetric(report.summary[key] as number | null)}</td></tr>`
+      ).join('\n');
+
+  const questionRows = report.results.map(result => {
+    const topPages = result.retrieved
+      .slice(0, report.k)
+      .map(page => `${escapeHtml(page.documentName)} p.${page.pageNumber}`)
+      .join('<br>');
+    const expected = result.expectedSources.map(source => `${escapeHtml(source.document)} p.${source.page}`).join('<br>');
+    const citations = result.citations ? `${result.citations.correct}/${result.citations.total}` : '–';
+
+    return `<tr class="${result.error ? 'failed' : ''}">
+  <td>${escapeHtml(result.id)}</td>
+  <td>${escapeHtml(result.question)}<div class="expected">Expected: ${escapeHtml(result.expectedAnswer)}</div></td>
+  <td>${expected}</td>
+  <td>${topPages}</td>
+  <td>${formatMetric(result.recallAtK)}</td>
+  <td>${formatMetric(result.reciprocalRank)}</td>
+  <td>${citations}</td>
+  <td>${formatMetric(result.answerSimilarity)}</td>
+  <td class="answer">${result.error ? `Error: ${escapeHtml(result.error)}` : escapeHtml(result.answer ?? '')}</td>
+</tr>`;
+  }).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>RAG evaluation: ${escapeHtml(report.dataset)} (${escapeHtml(report.label)})</title>
+<style>
+  body { font-family: system-ui, sans-serif; margin: 2rem; color: #1f2937; }
+  table { border-collapse: collapse; margin-bottom: 2rem; }
+  th, td { border: 1px solid #d1d5db; padding: 0.4rem 0.6rem; text-align: left; vertical-align: top; font-size: 0.85rem; }
+  th { background: #f3f4f6; }
+  .better { color: #047857; font-weight: 600; }
+  .worse { color: #b91c1c; font-weight: 600; }
+  .failed { background: #fef2f2; }
+  .expected { color: #6b7280; margin-top: 0.25rem; }
+  .answer { max-width: 32rem; white-space: pre-wrap; }
+  pre { background: #f9fafb; padding: 1rem; overflow-x: auto; font-size: 0.8rem; }
+</style>
+</head>
+<body>
+<h1>RAG evaluation: ${escapeHtml(report.dataset)}</h1>
+<p>Run <strong>${escapeHtml(report.label)}</strong> at ${escapeHtml(report.createdAt)}, ${report.summary.questions} questions${report.retrievalOnly ? ', retrieval only' : ''}${baseline ? `, compared with <strong>${escapeHtml(baseline.label)}</strong> (${escapeHtml(baseline.createdAt)})` : ''}.</p>
+
+<h2>Summary</h2>
+<table>
+<tr><th>Metric</th>${comparison ? '<th>Baseline</th><th>Current</th><th>Change</th>' : '<th>Value</th>'}</tr>
+${summaryRows}
+</table>
+
+<h2>Questions</h2>
+<table>
+<tr><th>ID</th><th>Question</th><th>Expected pages</th><th>Top ${report.k} retrieved</th><th>Recall@${report.k}</th><th>RR</th><th>Citations correct</th><th>Similarity</th><th>Answer</th></tr>
+${questionRows}
+</table>
+
+<h2>Configuration</h2>
+<pre>${escapeHtml(JSON.stringify(report.config, null, 2))}</pre>
+</body>
+</html>
+`;
+}
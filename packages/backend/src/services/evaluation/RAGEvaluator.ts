@@ -0,0 +1,364 @@
+/**
+ * Offline RAG evaluation against golden question sets
+ *
+ * A dataset lists source documents and questions with their expected answer and the
+ * pages that answer them. Every question is run through RAGService twice: once for
+ * the ranked retrieval (recall@k, MRR) and once as a full query (citation accuracy,
+ * answer similarity). Reports record the effective configuration so runs with
+ * different chunk sizes or thresholds can be compared side by side.
+ *
+ * @author ARYA RAG Team
+ */
+
+import { readFileSync } from 'fs';
+import { basename, dirname, resolve } from 'path';
+import { createHash } from 'crypto';
+import { IngestionJob } from '@arya-rag/types';
+import { DatabaseClient } from '../../config/database';
+import { RAGService, RAGConfig } from '../rag/RAGService';
+import { StorageService } from '../storage/StorageService';
+import { SUPPORTED_DOCUMENT_FORMATS } from '../document/FormatExtractors';
+import { runDocumentIngestion } from '../ingestion/DocumentIngestionPipeline';
+import { JobContext } from '../jobs/JobQueueService';
+import { sameDocument } from '../rag/CitationResolver';
+import { VectorStoreFactory } from '../vector/VectorStoreFactory';
+import { relevanceScore } from '../vector/VectorSearchService';
+import {
+  ExpectedSource,
+  PageReference,
+  answerSimilarity,
+  recallAtK,
+  reciprocalRank,
+  scoreCitations
+} from './EvaluationMetrics';
+
+export interface EvaluationQuestion {
+  id: string;
+  question: string;
+  expectedAnswer: string;
+  expectedSources: ExpectedSource[];
+}
+
+export interface EvaluationDataset {
+  name: string;
+  description?: string;
+  documents: Array<{ name: string; path: string }>; // Paths are relative to the dataset file
+  questions: EvaluationQuestion[];
+}
+
+export interface ChunkingSettings {
+  chunkSizeTokens?: number;
+  chunkOverlapTokens?: number;
+}
+
+export interface EvaluationOptions {
+  userId: string;
+  documentIds?: string[]; // Documents to search; by default the dataset's documents found for the user
+  k?: number;             // Cutoff for recall@k (default: 5)
+  retrievalOnly?: boolean; // Skip answer generation: only recall@k and MRR are computed
+  label?: string;         // Run name shown in reports
+  chunking?: ChunkingSettings; // Recorded in the report when the documents were indexed for this run
+}
+
+export interface QuestionResult {
+  id: string;
+  question: string;
+  expectedAnswer: string;
+  expectedSources: ExpectedSource[];
+  retrieved: Array<PageReference & { score: number }>;
+  recallAtK: number;
+  reciprocalRank: number;
+  answer?: string;
+  citations?: { correct: number; total: number };
+  answerSimilarity?: number; // Term F1 against the expected answer
+  answerRecall?: number;     // Share of expected answer terms present in the answer
+  confidence?: number;
+  responseTime?: number;
+  error?: string;
+}
+
+export interface EvaluationSummary {
+  questions: number;
+  failed: number;
+  recallAtK: number;
+  mrr: number;
+  citationAccuracy: number | null; // Correct citations / all citations; null when nothing was cited
+  citedAnswers: number;            // Answers with at least one inline citation
+  answerSimilarity: number | null;
+  answerRecall: number | null;
+  avgResponseTime: number | null;
+}
+
+export interface EvaluationReport {
+  dataset: string;
+  label: string;
+  createdAt: string;
+  k: number;
+  retrievalOnly: boolean;
+  config: {
+    rag: RAGConfig;
+    chunking?: ChunkingSettings;
+  };
+  summary: EvaluationSummary;
+  results: QuestionResult[];
+}
+
+/**
+ * Load and validate a dataset; document paths are resolved against the dataset's directory
+ */
+export function loadEvaluationDataset(path: string): EvaluationDataset {
+  const dataset = JSON.parse(readFileSync(path, 'utf-8')) as EvaluationDataset;
+
+  if (!dataset.name || !Array.isArray(dataset.questions) || dataset.questions.length === 0) {
+    throw new Error(`Invalid dataset ${path}: name and at least one question are required`);
+  }
+
+  dataset.questions.forEach((question, index) => {
+    if (!question.id || !question.question || !question.expectedAnswer || !question.expectedSources?.length) {
+      throw new Error(`Invalid question ${question.id || `#${index + 1}`} in ${path}: id, question, expectedAnswer and expectedSources are required`);
+    }
+  });
+
+  return {
+    ...dataset,
+    documents: (dataset.documents || []).map(document => ({
+      name: document.name || basename(document.path),
+      path: resolve(dirname(path), document.path)
+    }))
+  };
+}
+
+export class RAGEvaluator {
+  private ragService: RAGService;
+
+  constructor(ragService: RAGService) {
+    this.ragService = ragService;
+  }
+
+  /**
+   * Run every question of a dataset and summarize the results
+   * Questions run one at a time so latency figures are not skewed by contention.
+   */
+  async evaluate(dataset: EvaluationDataset, options: EvaluationOptions): Promise<EvaluationReport> {
+    const k = options.k || 5;
+    const documentIds = options.documentIds || await findDatasetDocuments(dataset, options.userId);
+
+    console.log(`📏 Evaluating ${dataset.questions.length} questions from "${dataset.name}" (recall@${k}, ${documentIds.length} documents)`);
+
+    const results: QuestionResult[] = [];
+    for (const question of dataset.questions) {
+      const result = await this.evaluateQuestion(question, options, documentIds, k);
+      results.push(result);
+
+      console.log(`   ${result.error ? '❌' : '✅'} ${question.id}: recall@${k} ${result.recallAtK.toFixed(2)}, RR ${result.reciprocalRank.toFixed(2)}${result.answerSimilarity !== undefined ? `, similarity ${result.answerSimilarity.toFixed(2)}` : ''}`);
+    }
+
+    return {
+      dataset: dataset.name,
+      label: options.label || 'default',
+      createdAt: new Date().toISOString(),
+      k,
+      retrievalOnly: !!options.retrievalOnly,
+      config: {
+        rag: this.ragService.getConfig(),
+        chunking: options.chunking
+      },
+      summary: summarize(results),
+      results
+    };
+  }
+
+  private async evaluateQuestion(
+    question: EvaluationQuestion,
+    options: EvaluationOptions,
+    documentIds: string[],
+    k: number
+  ): Promise<QuestionResult> {
+    const request = { query: question.question, userId: options.userId, documentIds };
+    const result: QuestionResult = {
+      id: question.id,
+      question: question.question,
+      expectedAnswer: question.expectedAnswer,
+      expectedSources: question.expectedSources,
+      retrieved: [],
+      recallAtK: 0,
+      reciprocalRank: 0
+    };
+
+    try {
+      // Retrieve at least k results so recall@k is not capped by maxSearchResults
+      const maxResults = Math.max(k, this.ragService.getConfig().maxSearchResults);
+      const retrieved = await this.ragService.retrieve({ ...request, maxResults });
+
+      result.retrieved = retrieved.map(chunk => ({
+        documentName: chunk.documentName,
+        pageNumber: chunk.pageNumber,
+        score: Math.round(relevanceScore(chunk) * 1000) / 1000
+      }));
+      result.recallAtK = recallAtK(result.retrieved, question.expectedSources, k);
+      result.reciprocalRank = reciprocalRank(result.retrieved, question.expectedSources);
+
+      if (options.retrievalOnly) {
+        return result;
+      }
+
+      const response = await this.ragService.processQuery(request);
+      if (response.metadata?.error) {
+        throw new Error(response.metadata.error);
+      }
+
+      const similarity = answerSimilarity(response.answer, question.expectedAnswer);
+
+      result.answer = response.answer;
+      result.citations = scoreCitations(response.citations || [], question.expectedSources);
+      result.answerSimilarity = Math.round(similarity.f1 * 1000) / 1000;
+      result.answerRecall = Math.round(similarity.recall * 1000) / 1000;
+      result.confidence = response.confidence;
+      result.responseTime = response.responseTime;
+
+    } catch (error) {
+      result.error = error instanceof Error ? error.message : String(error);
+    }
+
+    return result;
+  }
+}
+
+/**
+ * Average the per-question metrics
+ * Failed questions count as zero for retrieval and are left out of answer metrics.
+ */
+function summarize(results: QuestionResult[]): EvaluationSummary {
+  const mean = (values: number[]): number | null =>
+    values.length > 0 ? Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 1000) / 1000 : null;
+
+  const answered = results.filter(result => result.answer !== undefined);
+  const citations = answered.reduce(
+    (totals, result) => ({
+      correct: totals.correct + (result.citations?.correct || 0),
+      total: totals.total + (result.citations?.total || 0)
+    }),
+    { correct: 0, total: 0 }
+  );
+
+  return {
+    questions: results.length,
+    failed: results.filter(result => result.error).length,
+    recallAtK: mean(results.map(result => result.recallAtK)) ?? 0,
+    mrr: mean(results.map(result => result.reciprocalRank)) ?? 0,
+    citationAccuracy: citations.total > 0 ? Math.round((citations.correct / citations.total) * 1000) / 1000 : null,
+    citedAnswers: answered.filter(result => (result.citations?.total || 0) > 0).length,
+    answerSimilarity: mean(answered.map(result => result.answerSimilarity || 0)),
+    answerRecall: mean(answered.map(result => result.answerRecall || 0)),
+    avgResponseTime: mean(answered.map(result => result.responseTime || 0))
+  };
+}
+
+/**
+ * The user's completed documents whose filename matches a dataset document
+ */
+async function findDatasetDocuments(dataset: EvaluationDataset, userId: string): Promise<string[]> {
+  const db = DatabaseClient.getInstance().getClient();
+  const { data, error } = await (db as any)
+    .from('user_documents')
+    .select('document_id, original_name, filename')
+    .eq('user_id', userId)
+    .eq('status', 'completed');
+
+  if (error) {
+    throw new Error(`Failed to list documents: ${error.message}`);
+  }
+
+  const documentIds = (data || [])
+    .filter((row: any) => dataset.documents.some(document =>
+      sameDocument(row.original_name || row.filename, document.name)
+    ))
+    .map((row: any) => row.document_id as string);
+
+  if (documentIds.length === 0) {
+    throw new Error(`None of the dataset documents (${dataset.documents.map(document => document.name).join(', ')}) are indexed for ${userId}; index them first`);
+  }
+
+  return documentIds;
+}
+
+/**
+ * Index the dataset's documents for a user with the given chunking, through the regular pipeline
+ * Returns the new document IDs and a cleanup function that deletes the documents again.
+ */
+export async function indexDatasetDocuments(
+  dataset: EvaluationDataset,
+  userId: string,
+  chunking: ChunkingSettings = {}
+): Promise<{ documentIds: string[]; cleanup: () => Promise<void> }> {
+  const db = DatabaseClient.getInstance().getClient();
+  const storage = StorageService.getInstance();
+  const indexed: Array<{ documentId: string; storagePath: string }> = [];
+
+  const cleanup = async () => {
+    for (const { documentId, storagePath } of indexed) {
+      await (db as any).from('document_chunks').delete().eq('document_id', documentId);
+      await VectorStoreFactory.getInstance().createVectorStore().delete({ documentId });
+      await (db as any).from('user_documents').delete().eq('document_id', documentId);
+      await storage.deleteFile(storagePath);
+    }
+    console.log(`🧹 Removed ${indexed.length} evaluation documents`);
+  };
+
+  try {
+    for (const [index, document] of dataset.documents.entries()) {
+      const buffer = readFileSync(document.path);
+      const extension = document.name.toLowerCase().match(/\.[a-z0-9]+$/)?.[0];
+      const mimeType = SUPPORTED_DOCUMENT_FORMATS.find(format => extension && format.extensions.includes(extension))?.mimeTypes[0];
+      if (!mimeType) {
+        throw new Error(`Unsupported dataset document: ${document.name}`);
+      }
+
+      const upload = await storage.uploadFile(buffer, document.name, userId, mimeType);
+      if (!upload.success || !upload.filePath) {
+        throw new Error(`Failed to store ${document.name}: ${upload.error}`);
+      }
+
+      const documentId = `doc_${userId}_${Date.now()}_${index}`;
+      indexed.push({ documentId, storagePath: upload.filePath });
+
+      const { error } = await (db as any)
+        .from('user_documents')
+        .insert({
+          document_id: documentId,
+          user_id: userId,
+          filename: document.name,
+          original_name: document.name,
+          title: document.name.replace(/\.[^.]+$/, ''),
+          mime_type: mimeType,
+          file_size: buffer.length,
+          file_hash: createHash('sha256').update(buffer).digest('hex'),
+          uploaded_at: new Date().toISOString(),
+          status: 'pending',
+          total_pages: 0,
+          total_chunks: 0,
+          storage_path: upload.filePath
+        });
+
+      if (error) {
+        throw new Error(`Failed to create document ${document.name}: ${error.message}`);
+      }
+
+      console.log(`📚 Indexing ${document.name} for evaluation (chunk size ${chunking.chunkSizeTokens ?? 'default'}, overlap ${chunking.chunkOverlapTokens ?? 'default'})`);
+
+      // Runs in this process, like inline ingestion, so the run finishes before questions are asked
+      const job = { documentId, userId, stageAttempts: {}, maxAttempts: 1 } as unknown as IngestionJob;
+      const context: JobContext = {
+        job,
+        setStage: async (stage: string) => { job.stage = stage; },
+        heartbeat: async () => {}
+      };
+      await runDocumentIngestion(documentId, userId, context, chunking);
+    }
+  } catch (error) {
+    await cleanup();
+    throw error;
+  }
+
+  return { documentIds: indexed.map(document => document.documentId), cleanup };
+}
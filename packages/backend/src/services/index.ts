@@ -22,6 +22,8 @@ export { EmbeddingService } from './embedding/EmbeddingService';
 export { OllamaEmbeddingService } from './embedding/OllamaEmbeddingService';
 export { OpenAIEmbeddingService } from './embedding/OpenAIEmbeddingService';
 export { EmbeddingServiceFactory } from './embedding/EmbeddingServiceFactory';
+export { EmbeddingModelService } from './embedding/EmbeddingModelService';
+export { EmbeddingMigrationService } from './embedding/EmbeddingMigrationService';
 
 export type {
   EmbeddingRequest,
@@ -55,6 +57,7 @@ export type {
   DocumentStorageStats,
   VectorSearchConfig,
   SearchOptions,
+  SearchMode,
   ExtendedSearchResult,
   SearchStats
 } from './vector';
@@ -69,7 +72,9 @@ export {
   splitTextAtTokenCount, 
   findSentenceBoundary,
   getTokenStats,
-  isWithinTokenLimit
+  isWithinTokenLimit,
+  getTokenizer
 } from '../utils/tokenCounter';
 
-export type { TokenStats } from '../utils/tokenCounter';
\ No newline at end of file
+export type { TokenStats, Tokenizer } from '../utils/tokenCounter';
+export { TokenizerRegistry } from '../utils/tokenizers/TokenizerRegistry';
\ No newline at end of file
@@ -0,0 +1,514 @@
+/**
+ * Document Ingestion Pipeline
+ *
+ * Download → extract → chunk → embed → store, run as a durable job.
+ * Each stage is recorded in user_documents.processing_stage and on the job.
+ * Embeddings are stored batch by batch, so a job resumed after a restart or a
+ * failed attempt skips chunks that were already stored instead of re-embedding
+ * the whole document. Extraction and chunking are deterministic and re-run to
+ * rebuild the chunk list.
+ *
+ * A new revision of an existing document copies the embeddings of unchanged
+ * chunks (matched by content hash) from the revision being served, so fixing a
+ * typo only re-embeds the chunks around it. Fine-grained progress is published
+ * to the owner's channel on IngestionProgressService as the run advances.
+ *
+ * @author ARYA RAG Team
+ */
+
+import { ChunkWithEmbedding, IngestionJob, PageContent } from '@arya-rag/types';
+import { DatabaseClient } from '../../config/database';
+import { StorageService } from '../storage/StorageService';
+import { DocumentProcessor } from '../document/DocumentProcessor';
+import { ChunkingService, ChunkingOptions, ParentChunk } from '../chunking/ChunkingService';
+import { EmbeddingModelService } from '../embedding/EmbeddingModelService';
+import { VectorStorageService } from '../vector/VectorStorageService';
+import {
+  DocumentRevisionService,
+  countChangedPages,
+  hashContent
+} from '../document/DocumentRevisionService';
+import { DocumentOutlineService } from '../document/DocumentOutlineService';
+import { assignSectionHierarchy } from '../document/DocumentOutline';
+import { JobContext, JobHandler, JobCancelledError } from '../jobs/JobQueueService';
+import {
+  IngestionProgressService,
+  IngestionProgressTracker,
+  publishIngestionFailure
+} from './IngestionProgressService';
+
+export const INGEST_DOCUMENT_JOB = 'ingest_document';
+
+export type IngestionStage = 'downloading' | 'extracting' | 'chunking' | 'embedding' | 'storing';
+
+/**
+ * Run the full ingestion pipeline for a stored document
+ * Indexes the document's latest revision; search switches to it only once it is complete
+ * Chunk size and overlap default to CHUNK_SIZE_TOKENS / CHUNK_OVERLAP_TOKENS; the evaluation
+ * harness overrides them to compare chunking settings.
+ */
+export async function runDocumentIngestion(
+  documentId: string,
+  userId: string,
+  context: JobContext,
+  chunking: Partial<Pick<ChunkingOptions, 'chunkSizeTokens' | 'chunkOverlapTokens'>> = {}
+): Promise<void> {
+  const db = DatabaseClient.getInstance().getClient();
+  const revisionService = DocumentRevisionService.getInstance();
+
+  const { data: document, error: documentError } = await (db as any)
+    .from('user_documents')
+    .select('document_id, filename, mime_type, storage_path, file_size, file_hash, processing_started_at, current_revision, latest_revision')
+    .eq('document_id', documentId)
+    .eq('user_id', userId)
+    .single();
+
+  if (documentError || !document) {
+    throw new Error(`Document not found: ${documentId}`);
+  }
+
+  // A new revision reuses embeddings from the revision currently being served
+  const revision: number = document.latest_revision || 1;
+  const baseRevision: number = document.current_revision || 1;
+  const isNewRevision = revision > baseRevision;
+
+  const revisionRecord = await revisionService.getRevision(documentId, revision);
+  const source = {
+    filename: revisionRecord?.filename || document.filename,
+    mimeType: revisionRecord?.mimeType || document.mime_type,
+    storagePath: revisionRecord?.storagePath || document.storage_path,
+    fileSize: revisionRecord?.fileSize ?? document.file_size,
+    fileHash: revisionRecord?.fileHash || document.file_hash
+  };
+
+  if (!source.storagePath) {
+    throw new Error(`Document ${documentId} has no stored file`);
+  }
+  if (revisionRecord) {
+    await revisionService.markProcessing(documentId, revision);
+  }
+
+  const progress = new IngestionProgressTracker(documentId, userId, context.job.jobId);
+
+  const enterStage = async (stage: IngestionStage) => {
+    await context.setStage(stage);
+    progress.stage(stage);
+    const { error } = await (db as any)
+      .from('user_documents')
+      .update({
+        status: 'processing',
+        processing_stage: stage,
+        ...(document.processing_started_at ? {} : { processing_started_at: new Date().toISOString() })
+      })
+      .eq('document_id', documentId);
+
+    if (error) {
+      console.warn(`⚠️  Failed to update stage to ${stage}: ${error.message}`);
+    }
+  };
+
+  console.log(`🔄 Ingesting document ${documentId} (${source.filename}), revision ${revision}`);
+
+  // Stage 1: Download file from storage
+  await enterStage('downloading');
+  const downloadResult = await StorageService.getInstance().downloadFile(source.storagePath, source.fileHash);
+  if (!downloadResult.success || !downloadResult.buffer) {
+    throw new Error(`Failed to download file from storage: ${downloadResult.error}`);
+  }
+  console.log(`📥 Downloaded ${downloadResult.buffer.length} bytes`);
+
+  // Stage 2: Extract text (PDF pages or logical pages for other formats)
+  await enterStage('extracting');
+  const documentProcessor = new DocumentProcessor({
+    onPageExtracted: (pagesExtracted, totalPages) => progress.pagesExtracted(pagesExtracted, totalPages)
+  });
+  const extractionResult = await documentProcessor.extractPagesFromBuffer(
+    downloadResult.buffer,
+    source.filename,
+    source.mimeType
+  );
+  if (!extractionResult.success) {
+    throw new Error(`Text extraction failed: ${extractionResult.error}`);
+  }
+
+  const ocrPageCount = extractionResult.pages.filter((page: PageContent) => page.ocr).length;
+  const emptyPageCount = extractionResult.pages.filter((page: PageContent) => !page.text.trim()).length;
+  const pageHashes = extractionResult.pages.map((page: PageContent) => hashContent(page.text));
+  console.log(`📄 Extracted ${extractionResult.pages.length} pages`);
+  if (ocrPageCount > 0 || emptyPageCount > 0) {
+    console.log(`   🔎 OCR pages: ${ocrPageCount}, pages without text: ${emptyPageCount}`);
+  }
+
+  let pagesChanged: number | undefined;
+  if (isNewRevision) {
+    const baseRecord = await revisionService.getRevision(documentId, baseRevision);
+    if (baseRecord?.pageHashes.length) {
+      pagesChanged = countChangedPages(baseRecord.pageHashes, pageHashes);
+      console.log(`   🔀 ${pagesChanged}/${pageHashes.length} pages changed since revision ${baseRevision}`);
+    }
+  }
+
+  // The user's active model, which may differ from the environment after an embedding migration;
+  // chunks are sized in its tokens
+  const embeddingModels = EmbeddingModelService.getInstance();
+  const embeddingService = await embeddingModels.getEmbeddingService(userId);
+  let embeddingModel = embeddingService.getModelName() || process.env.EMBEDDING_MODEL || '';
+
+  // Stage 3: Chunk the document
+  await enterStage('chunking');
+  const chunkingService = new ChunkingService(embeddingModel);
+  const chunkingResult = await chunkingService.processPages(
+    extractionResult.pages,
+    documentId,
+    {
+      chunkSizeTokens: chunking.chunkSizeTokens ?? parseInt(process.env.CHUNK_SIZE_TOKENS || '600'),
+      chunkOverlapTokens: chunking.chunkOverlapTokens ?? parseInt(process.env.CHUNK_OVERLAP_TOKENS || '100'),
+      preservePageBoundaries: true
+    }
+  );
+  if (!chunkingResult.chunks || chunkingResult.chunks.length === 0) {
+    throw new Error('Chunking failed: No chunks generated');
+  }
+
+  // The document's own outline places chunks in its sections
+  const outline = extractionResult.outline;
+  if (outline.sections.length > 0) {
+    assignSectionHierarchy(chunkingResult.chunks, outline.sections, extractionResult.pages);
+  }
+
+  // Parent-child indexing: small children are embedded for precise matching, and queries expand
+  // them to their section-sized parent
+  let indexedChunks = chunkingResult.chunks;
+  let parents: ParentChunk[] = [];
+  if (process.env.CHUNK_PARENT_CHILD === 'true') {
+    ({ parents, children: indexedChunks } = await chunkingService.createParentChildChunks(
+      chunkingResult.chunks,
+      extractionResult.pages,
+      documentId,
+      {
+        childSizeTokens: parseInt(process.env.CHILD_CHUNK_SIZE_TOKENS || '200'),
+        childOverlapTokens: parseInt(process.env.CHILD_CHUNK_OVERLAP_TOKENS || '40'),
+        maxParentTokens: parseInt(process.env.PARENT_CHUNK_MAX_TOKENS || '1500')
+      }
+    ));
+    if (outline.sections.length > 0) {
+      assignSectionHierarchy(indexedChunks, outline.sections, extractionResult.pages);
+    }
+  }
+
+  // Chunk IDs must be unique across revisions; revision 1 keeps the original ID scheme
+  const chunks = indexedChunks.map(chunk => ({
+    ...chunk,
+    id: revision > 1 ? `${documentId}-r${revision}-chunk-${chunk.chunkIndex}` : chunk.id,
+    revision,
+    contentHash: hashContent(chunk.chunkText)
+  }));
+  console.log(`✂️  Created ${chunks.length} chunks`);
+  progress.chunksCreated(chunks.length);
+
+  // Stage 4: Embed and store batch by batch so progress survives restarts
+  await enterStage('embedding');
+  const vectorStorage = new VectorStorageService();
+  if (parents.length > 0) {
+    await vectorStorage.storeParentChunks(parents, documentId, userId, revision);
+  }
+  const storedIndexes = await vectorStorage.getStoredChunkIndexes(documentId, revision);
+  const pendingChunks = chunks.filter(chunk => !storedIndexes.has(chunk.chunkIndex));
+
+  if (storedIndexes.size > 0) {
+    console.log(`⏩ Resuming embedding: ${storedIndexes.size} chunks already stored, ${pendingChunks.length} remaining`);
+  }
+
+  const totalChunks = chunks.length;
+  let embeddingsDone = totalChunks - pendingChunks.length;
+  let chunksReused = 0;
+  let chunksEmbedded = 0;
+  progress.embeddingsDone(embeddingsDone, totalChunks);
+
+  const batchSize = parseInt(process.env.EMBEDDING_BATCH_SIZE || '50');
+
+  for (let i = 0; i < pendingChunks.length; i += batchSize) {
+    const batch = pendingChunks.slice(i, i + batchSize);
+
+    // Unchanged chunks copy their embedding from the served revision
+    const reusable = isNewRevision
+      ? await vectorStorage.getEmbeddingsByContentHash(
+          documentId,
+          baseRevision,
+          batch.map(chunk => chunk.contentHash),
+          embeddingModel
+        )
+      : new Map<string, number[]>();
+
+    console.log(`🧠 Embedding batch ${Math.floor(i / batchSize) + 1}/${Math.ceil(pendingChunks.length / batchSize)} (${batch.length} chunks, ${batch.filter(chunk => reusable.has(chunk.contentHash)).length} unchanged)`);
+
+    const batchWithEmbeddings: ChunkWithEmbedding[] = await Promise.all(
+      batch.map(async chunk => {
+        const existing = reusable.get(chunk.contentHash);
+        if (existing) {
+          chunksReused++;
+          return { ...chunk, embedding: existing };
+        }
+
+        const embeddingResponse = await embeddingService.generateEmbedding({
+          text: chunk.chunkText,
+          metadata: {
+            documentId: chunk.documentId,
+            chunkId: chunk.id,
+            pageNumber: chunk.pageNumber
+          }
+        });
+        embeddingModel = embeddingResponse.model || embeddingModel;
+        chunksEmbedded++;
+
+        return { ...chunk, embedding: embeddingResponse.embedding };
+      })
+    );
+
+    const storageResult = await vectorStorage.storeDocumentChunks(
+      batchWithEmbeddings,
+      documentId,
+      userId,
+      embeddingModel,
+      false
+    );
+    if (!storageResult.success) {
+      const errorMessage = storageResult.errors?.[0]?.error || 'Unknown storage error';
+      throw new Error(`Vector storage failed: ${errorMessage}`);
+    }
+
+    embeddingsDone += batch.length;
+    progress.embeddingsDone(embeddingsDone, totalChunks);
+
+    // Also surfaces cancellation between batches
+    await context.heartbeat();
+  }
+
+  if (isNewRevision) {
+    console.log(`♻️  Revision ${revision}: ${chunksReused} embeddings reused, ${chunksEmbedded} generated`);
+  }
+
+  // Stage 5: Verify everything is stored, then switch search to this revision
+  await enterStage('storing');
+  const finalIndexes = await vectorStorage.getStoredChunkIndexes(documentId, revision);
+  const missing = chunks.filter(chunk => !finalIndexes.has(chunk.chunkIndex)).length;
+  if (missing > 0) {
+    throw new Error(`Vector storage incomplete: ${missing} chunks missing`);
+  }
+
+  // An embedding migration that activated mid-run left this run's chunks on the old model, where search
+  // no longer looks; drop them so the retry embeds with the new one
+  const activeModel = await embeddingModels.getActiveModel(userId);
+  if (activeModel.model && activeModel.model !== embeddingModel) {
+    await vectorStorage.deleteChunksByModel(documentId, revision, embeddingModel);
+    throw new Error(`Embedding model switched to ${activeModel.model} during ingestion`);
+  }
+
+  try {
+    await DocumentOutlineService.getInstance().saveOutline(documentId, revision, outline);
+  } catch (outlineError) {
+    // The outline is a navigation aid; the document is searchable without it
+    console.warn(`⚠️  ${outlineError instanceof Error ? outlineError.message : outlineError}`);
+  }
+
+  const { error: completeError } = await (db as any)
+    .from('user_documents')
+    .update({
+      status: 'completed',
+      processing_stage: 'completed',
+      processing_completed_at: new Date().toISOString(),
+      error_message: null,
+      total_pages: extractionResult.pages.length,
+      total_chunks: chunks.length,
+      ocr_page_count: ocrPageCount,
+      empty_page_count: emptyPageCount,
+      current_revision: revision,
+      embedding_model: embeddingModel,
+      filename: source.filename,
+      mime_type: source.mimeType,
+      storage_path: source.storagePath,
+      file_size: source.fileSize,
+      file_hash: source.fileHash
+    })
+    .eq('document_id', documentId);
+
+  if (completeError) {
+    throw new Error(`Failed to mark document completed: ${completeError.message}`);
+  }
+
+  if (revisionRecord) {
+    // Counts only cover this run when a resumed job had already stored some chunks
+    await revisionService.completeRevision(documentId, revision, {
+      totalPages: extractionResult.pages.length,
+      totalChunks: chunks.length,
+      pageHashes,
+      pagesChanged,
+      chunksReused: isNewRevision ? chunksReused : undefined,
+      chunksEmbedded: isNewRevision ? chunksEmbedded : undefined
+    });
+  }
+
+  if (isNewRevision) {
+    await pruneRevisions(documentId, revision, vectorStorage);
+  }
+
+  progress.complete(extractionResult.pages.length, chunks.length);
+  console.log(`✅ Document processing completed: ${documentId} (revision ${revision})`);
+}
+
+/**
+ * Drop chunks of revisions older than the retention window
+ * Their history rows are kept (archived) but they can no longer be queried
+ */
+async function pruneRevisions(documentId: string, revision: number, vectorStorage: VectorStorageService): Promise<void> {
+  const retention = Math.max(1, parseInt(process.env.DOCUMENT_REVISION_RETENTION || '3'));
+  const cutoff = revision - retention;
+  if (cutoff < 1) {
+    return;
+  }
+
+  try {
+    const archived = await DocumentRevisionService.getInstance().archiveRevisionsUpTo(documentId, cutoff);
+    await vectorStorage.deleteRevisionChunks(documentId, archived);
+  } catch (error) {
+    // The new revision is already live; stale chunks are filtered out of search anyway
+    console.warn(`⚠️  Failed to prune old revisions of ${documentId}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/**
+ * Record a failure on the document so the UI shows where it stopped
+ */
+async function markDocument(documentId: string, fields: Record<string, any>): Promise<void> {
+  const db = DatabaseClient.getInstance().getClient();
+
+  const { error } = await (db as any)
+    .from('user_documents')
+    .update(fields)
+    .eq('document_id', documentId);
+
+  if (error) {
+    console.error(`💥 Failed to update document ${documentId}: ${error.message}`);
+  }
+}
+
+/**
+ * Job handler registered with JobQueueService for INGEST_DOCUMENT_JOB
+ */
+export const documentIngestionHandler: JobHandler = {
+  run: (job: IngestionJob, context: JobContext) => runDocumentIngestion(job.documentId, job.userId, context),
+
+  onRetryScheduled: async (job, error, attempt, nextRunAt) => {
+    const message = `Retrying ${job.stage || 'startup'} (attempt ${attempt + 1}/${job.maxAttempts}) at ${nextRunAt.toISOString()}: ${error.message}`;
+
+    await markDocument(job.documentId, {
+      status: 'processing',
+      processing_stage: `retrying_${job.stage || 'startup'}`,
+      error_message: message
+    });
+
+    // Keep the counters from the failed attempt so the progress bar doesn't reset
+    const progressService = IngestionProgressService.getInstance();
+    const latest = progressService.getLatest(job.documentId);
+    progressService.publish(job.userId, {
+      ...latest,
+      type: 'progress',
+      documentId: job.documentId,
+      jobId: job.jobId,
+      stage: `retrying_${job.stage || 'startup'}`,
+      percentage: latest?.percentage || 0,
+      message,
+      etaSeconds: undefined,
+      timestamp: new Date().toISOString()
+    });
+  },
+
+  onFailed: async (job, error) => {
+    const stage = job.stage || 'startup';
+    const cancelled = error instanceof JobCancelledError;
+    const processingStage = cancelled ? 'cancelled' : `failed_${stage}`;
+    const message = cancelled ? `Processing cancelled during ${stage}` : `Failed during ${stage}: ${error.message}`;
+
+    const db = DatabaseClient.getInstance().getClient();
+    const { data: document } = await (db as any)
+      .from('user_documents')
+      .select('current_revision, latest_revision')
+      .eq('document_id', job.documentId)
+      .maybeSingle();
+
+    const revision: number = document?.latest_revision || 1;
+    try {
+      await DocumentRevisionService.getInstance().failRevision(job.documentId, revision, message);
+    } catch (revisionError) {
+      console.warn(`⚠️  ${revisionError instanceof Error ? revisionError.message : revisionError}`);
+    }
+
+    if (document && revision > (document.current_revision || 1)) {
+      // Only the new revision failed; the previous one is still complete and served to queries
+      await markDocument(job.documentId, {
+        status: 'completed',
+        processing_stage: 'completed',
+        error_message: `Revision ${revision}: ${message}`
+      });
+    } else {
+      await markDocument(job.documentId, {
+        status: 'failed',
+        processing_stage: processingStage,
+        error_message: message
+      });
+    }
+
+    publishIngestionFailure(job.userId, job.documentId, processingStage, message, job.jobId);
+  }
+};
+
+/**
+ * Run ingestion in this process without the queue (no retries or resume)
+ * Used when the ingestion_jobs table is not available
+ */
+export function runDocumentIngestionInline(documentId: string, userId: string): void {
+  const job = { documentId, userId, stageAttempts: {}, maxAttempts: 1 } as unknown as IngestionJob;
+  const context: JobContext = {
+    job,
+    setStage: async (stage: string) => { job.stage = stage; },
+    heartbeat: async () => {}
+  };
+
+  runDocumentIngestion(documentId, userId, context)
+    .catch(error => documentIngestionHandler.onFailed!(job, error instanceof Error ? error : new Error(String(error))));
+}
+
+/**
+ * Queue documents left pending/processing without an active job
+ * (uploads from before the queue existed, or jobs lost to a crash before insert)
+ */
+export async function recoverOrphanedDocuments(
+  enqueue: (documentId: string, userId: string) => Promise<unknown>
+): Promise<number> {
+  const db = DatabaseClient.getInstance().getClient();
+
+  const { data: documents, error } = await (db as any)
+    .from('user_documents')
+    .select('document_id, user_id')
+    .in('status', ['pending', 'processing'])
+    .limit(500);
+
+  if (error || !documents || documents.length === 0) {
+    return 0;
+  }
+
+  const { data: activeJobs } = await (db as any)
+    .from('ingestion_jobs')
+    .select('document_id')
+    .in('document_id', documents.map((doc: any) => doc.document_id))
+    .in('status', ['queued', 'running']);
+
+  const withJobs = new Set((activeJobs || []).map((job: any) => job.document_id));
+  const orphans = documents.filter((doc: any) => !withJobs.has(doc.document_id));
+
+  for (const doc of orphans) {
+    await enqueue(doc.document_id, doc.user_id);
+  }
+
+  return orphans.length;
+}
@@ -0,0 +1,247 @@
+/**
+ * Ingestion Progress Service
+ *
+ * Per-user channel for fine-grained ingestion progress (pages extracted, chunks
+ * created, embeddings done, ETA). The pipeline publishes through an
+ * IngestionProgressTracker; GET /api/documents/events streams the channel to
+ * the browser over Server-Sent Events.
+ *
+ * Events are delivered in-process: subscribers only see documents processed by
+ * the ingestion worker running in the same server. The status endpoint remains
+ * the fallback for deployments that run workers separately.
+ *
+ * @author ARYA RAG Team
+ */
+
+import { EventEmitter } from 'events';
+import { IngestionProgressEvent } from '@arya-rag/types';
+
+export type IngestionProgressListener = (event: IngestionProgressEvent) => void;
+
+// Share of the overall progress bar covered by each pipeline stage
+const STAGE_RANGES: Record<string, [number, number]> = {
+  downloading: [0, 5],
+  extracting: [5, 45],
+  chunking: [45, 50],
+  embedding: [50, 95],
+  storing: [95, 100]
+};
+
+// Minimum gap between events for the same stage, so large documents don't flood clients
+const MIN_PUBLISH_INTERVAL_MS = 500;
+
+// ETA is only reported once this much progress has been measured in the current run
+const MIN_ETA_PROGRESS = 2;
+const MIN_ETA_ELAPSED_MS = 2000;
+
+/**
+ * Ingestion Progress Service - in-process pub/sub keyed by user
+ */
+export class IngestionProgressService {
+  private static instance: IngestionProgressService;
+  private emitter: EventEmitter;
+  private latest: Map<string, { userId: string; event: IngestionProgressEvent }> = new Map();
+
+  private constructor() {
+    this.emitter = new EventEmitter();
+    // One listener per open browser tab
+    this.emitter.setMaxListeners(0);
+  }
+
+  /**
+   * Get singleton instance of IngestionProgressService
+   */
+  public static getInstance(): IngestionProgressService {
+    if (!IngestionProgressService.instance) {
+      IngestionProgressService.instance = new IngestionProgressService();
+    }
+    return IngestionProgressService.instance;
+  }
+
+  /**
+   * Publish an event to the document owner's channel
+   * The latest event per in-flight document is kept for clients that connect later
+   */
+  publish(userId: string, event: IngestionProgressEvent): void {
+    if (event.type === 'progress') {
+      this.latest.set(event.documentId, { userId, event });
+    } else {
+      this.latest.delete(event.documentId);
+    }
+
+    this.emitter.emit(`user:${userId}`, event);
+  }
+
+  /**
+   * Subscribe to a user's channel
+   * @returns Function that removes the listener
+   */
+  subscribe(userId: string, listener: IngestionProgressListener): () => void {
+    const channel = `user:${userId}`;
+    this.emitter.on(channel, listener);
+    return () => {
+      this.emitter.off(channel, listener);
+    };
+  }
+
+  /**
+   * Latest progress for a document that is still being processed
+   */
+  getLatest(documentId: string): IngestionProgressEvent | undefined {
+    return this.latest.get(documentId)?.event;
+  }
+
+  /**
+   * Latest progress for every in-flight document owned by a user
+   */
+  getActive(userId: string): IngestionProgressEvent[] {
+    return Array.from(this.latest.values())
+      .filter(entry => entry.userId === userId)
+      .map(entry => entry.event);
+  }
+}
+
+/**
+ * Tracks one ingestion run and turns stage counters into progress events
+ */
+export class IngestionProgressTracker {
+  private documentId: string;
+  private userId: string;
+  private jobId?: string;
+  private service: IngestionProgressService;
+  private currentStage = 'queued';
+  private counters: Partial<IngestionProgressEvent> = {};
+  private lastPublishedAt = 0;
+  private runStartedAt = Date.now();
+  private runStartPercentage?: number;
+
+  constructor(documentId: string, userId: string, jobId?: string) {
+    this.documentId = documentId;
+    this.userId = userId;
+    this.jobId = jobId;
+    this.service = IngestionProgressService.getInstance();
+  }
+
+  /**
+   * Enter a pipeline stage (always published)
+   */
+  stage(stage: string): void {
+    this.currentStage = stage;
+    this.publish(0, true);
+  }
+
+  pagesExtracted(done: number, total: number): void {
+    this.counters.pagesExtracted = done;
+    this.counters.totalPages = total;
+    this.publish(total > 0 ? done / total : 0, done === total);
+  }
+
+  chunksCreated(count: number): void {
+    this.counters.chunksCreated = count;
+    this.counters.totalChunks = count;
+    this.publish(1, true);
+  }
+
+  embeddingsDone(done: number, total: number): void {
+    this.counters.embeddingsDone = done;
+    this.counters.totalChunks = total;
+    this.publish(total > 0 ? done / total : 0, done === total);
+  }
+
+  /**
+   * Publish the terminal event once the document is ready for queries
+   */
+  complete(totalPages: number, totalChunks: number): void {
+    this.service.publish(this.userId, {
+      type: 'completed',
+      documentId: this.documentId,
+      jobId: this.jobId,
+      stage: 'completed',
+      percentage: 100,
+      message: 'Document ready for queries',
+      ...this.counters,
+      totalPages,
+      totalChunks,
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  private publish(stageFraction: number, force: boolean): void {
+    const now = Date.now();
+    if (!force && now - this.lastPublishedAt < MIN_PUBLISH_INTERVAL_MS) {
+      return;
+    }
+    this.lastPublishedAt = now;
+
+    const [start, end] = STAGE_RANGES[this.currentStage] || [0, 0];
+    const percentage = Math.round(start + (end - start) * Math.min(Math.max(stageFraction, 0), 1));
+
+    // Resumed runs start part-way through, so measure the rate from where this run began
+    if (this.runStartPercentage === undefined) {
+      this.runStartPercentage = percentage;
+    }
+    const gained = percentage - this.runStartPercentage;
+    const elapsedMs = now - this.runStartedAt;
+    const etaSeconds = gained >= MIN_ETA_PROGRESS && elapsedMs >= MIN_ETA_ELAPSED_MS
+      ? Math.round((elapsedMs / 1000) * (100 - percentage) / gained)
+      : undefined;
+
+    this.service.publish(this.userId, {
+      type: 'progress',
+      documentId: this.documentId,
+      jobId: this.jobId,
+      stage: this.currentStage,
+      percentage,
+      message: this.describe(),
+      ...this.counters,
+      etaSeconds,
+      timestamp: new Date(now).toISOString()
+    });
+  }
+
+  private describe(): string {
+    const { pagesExtracted, totalPages, chunksCreated, embeddingsDone, totalChunks } = this.counters;
+
+    switch (this.currentStage) {
+      case 'downloading':
+        return 'Downloading file from storage';
+      case 'extracting':
+        return totalPages
+          ? `Extracting text: ${pagesExtracted}/${totalPages} pages`
+          : 'Extracting text from document';
+      case 'chunking':
+        return chunksCreated
+          ? `Created ${chunksCreated} chunks`
+          : 'Breaking document into chunks';
+      case 'embedding':
+        return totalChunks
+          ? `Generating embeddings: ${embeddingsDone || 0}/${totalChunks} chunks`
+          : 'Generating embeddings';
+      case 'storing':
+        return 'Verifying stored chunks';
+      default:
+        return 'Processing document';
+    }
+  }
+}
+
+/**
+ * Publish a terminal failure (or cancellation) for a document
+ */
+export function publishIngestionFailure(
+  userId: string,
+  documentId: string,
+  stage: string,
+  message: string,
+  jobId?: string
+): void {
+  IngestionProgressService.getInstance().publish(userId, {
+    type: 'failed',
+    documentId,
+    jobId,
+    stage,
+    percentage: 0,
+    message,
+    timestamp: new Date().toISOString()
+  });
+}
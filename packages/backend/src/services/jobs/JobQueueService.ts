@@ -0,0 +1,578 @@
+/**
+ * Job Queue Service
+ *
+ * Durable background job queue backed by the ingestion_jobs table.
+ * Workers claim jobs with SELECT ... FOR UPDATE SKIP LOCKED (claim_ingestion_job RPC),
+ * send heartbeats while running, and retry failed stages with exponential backoff.
+ * Jobs whose worker dies stop heartbeating and are reclaimed by the next poll.
+ *
+ * @author ARYA RAG Team
+ */
+
+import { randomUUID } from 'crypto';
+import { hostname } from 'os';
+import { DatabaseClient } from '../../config/database';
+import { IngestionJob, IngestionJobStatus } from '@arya-rag/types';
+
+export interface JobQueueConfig {
+  concurrency: number;
+  pollIntervalMs: number;
+  maxAttempts: number; // Per stage
+  retryBaseDelayMs: number;
+  retryMaxDelayMs: number;
+  lockTimeoutSeconds: number; // Running jobs without a heartbeat for this long are reclaimed
+}
+
+/**
+ * Passed to handlers so they can report progress
+ */
+export interface JobContext {
+  job: IngestionJob;
+  /** Record the stage being entered; also a heartbeat */
+  setStage(stage: string): Promise<void>;
+  /** Refresh the lock; throws JobCancelledError if the job was cancelled */
+  heartbeat(): Promise<void>;
+}
+
+export interface JobHandler {
+  run(job: IngestionJob, context: JobContext): Promise<void>;
+  /** Called once when a job fails for good (attempts exhausted or cancelled) */
+  onFailed?(job: IngestionJob, error: Error): Promise<void>;
+  /** Called when a failed stage is scheduled for another attempt */
+  onRetryScheduled?(job: IngestionJob, error: Error, attempt: number, nextRunAt: Date): Promise<void>;
+}
+
+/**
+ * Thrown from heartbeat() when an admin cancels a running job
+ */
+export class JobCancelledError extends Error {
+  constructor(jobId: string) {
+    super(`Job ${jobId} was cancelled`);
+    this.name = 'JobCancelledError';
+  }
+}
+
+/**
+ * Thrown from heartbeat() when another worker reclaimed a stalled job
+ */
+class JobLockLostError extends Error {
+  constructor(jobId: string) {
+    super(`Lost lock on job ${jobId}`);
+    this.name = 'JobLockLostError';
+  }
+}
+
+const ACTIVE_STATUSES: IngestionJobStatus[] = ['queued', 'running'];
+
+export class JobQueueService {
+  private static instance: JobQueueService;
+  private config: JobQueueConfig;
+  private handlers: Map<string, JobHandler> = new Map();
+  private workerId: string;
+  private running: Set<string> = new Set();
+  private pollTimer: NodeJS.Timeout | null = null;
+  private polling = false;
+
+  private constructor(config: Partial<JobQueueConfig> = {}) {
+    this.config = {
+      concurrency: parseInt(process.env.INGESTION_WORKER_CONCURRENCY || '2'),
+      pollIntervalMs: parseInt(process.env.INGESTION_POLL_INTERVAL_MS || '2000'),
+      maxAttempts: parseInt(process.env.INGESTION_MAX_ATTEMPTS || '3'),
+      retryBaseDelayMs: parseInt(process.env.INGESTION_RETRY_BASE_DELAY_MS || '5000'),
+      retryMaxDelayMs: 10 * 60 * 1000,
+      lockTimeoutSeconds: parseInt(process.env.INGESTION_JOB_LOCK_TIMEOUT_SECONDS || '600'),
+      ...config
+    };
+    this.workerId = `${hostname()}:${process.pid}:${randomUUID().substring(0, 8)}`;
+  }
+
+  /**
+   * Get singleton instance of JobQueueService
+   */
+  public static getInstance(): JobQueueService {
+    if (!JobQueueService.instance) {
+      JobQueueService.instance = new JobQueueService();
+    }
+    return JobQueueService.instance;
+  }
+
+  /**
+   * Register the handler for a job type
+   */
+  registerHandler(jobType: string, handler: JobHandler): void {
+    this.handlers.set(jobType, handler);
+  }
+
+  /**
+   * Queue a job for a document
+   * Returns the existing job if one is already queued or running for the document
+   */
+  async enqueue(jobType: string, documentId: string, userId: string): Promise<IngestionJob> {
+    const db = DatabaseClient.getInstance().getClient();
+
+    const { data: existing, error: existingError } = await (db as any)
+      .from('ingestion_jobs')
+      .select('*')
+      .eq('document_id', documentId)
+      .eq('job_type', jobType)
+      .in('status', ACTIVE_STATUSES)
+      .limit(1);
+
+    if (existingError) {
+      throw new Error(`Failed to check existing jobs: ${existingError.message}`);
+    }
+    if (existing && existing.length > 0) {
+      return this.mapJob(existing[0]);
+    }
+
+    const { data, error } = await (db as any)
+      .from('ingestion_jobs')
+      .insert({
+        job_id: `job_${randomUUID()}`,
+        job_type: jobType,
+        document_id: documentId,
+        user_id: userId,
+        status: 'queued',
+        max_attempts: this.config.maxAttempts,
+        next_run_at: new Date().toISOString()
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to enqueue job: ${error.message}`);
+    }
+
+    console.log(`📥 Queued ${jobType} job for document ${documentId}`);
+
+    // Pick it up right away rather than waiting for the next poll
+    if (this.pollTimer) {
+      setImmediate(() => this.poll());
+    }
+
+    return this.mapJob(data);
+  }
+
+  /**
+   * List jobs, newest first
+   */
+  async listJobs(filters: {
+    status?: IngestionJobStatus;
+    documentId?: string;
+    userId?: string;
+    page?: number;
+    limit?: number;
+  } = {}): Promise<{ jobs: IngestionJob[]; total: number }> {
+    const db = DatabaseClient.getInstance().getClient();
+    const page = filters.page || 1;
+    const limit = filters.limit || 20;
+    const offset = (page - 1) * limit;
+
+    let query = (db as any)
+      .from('ingestion_jobs')
+      .select('*', { count: 'exact' });
+
+    if (filters.status) query = query.eq('status', filters.status);
+    if (filters.documentId) query = query.eq('document_id', filters.documentId);
+    if (filters.userId) query = query.eq('user_id', filters.userId);
+
+    const { data, error, count } = await query
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      throw new Error(`Failed to list jobs: ${error.message}`);
+    }
+
+    return {
+      jobs: (data || []).map((row: any) => this.mapJob(row)),
+      total: count || 0
+    };
+  }
+
+  /**
+   * Get a job by ID, or null if it does not exist
+   */
+  async getJob(jobId: string): Promise<IngestionJob | null> {
+    const db = DatabaseClient.getInstance().getClient();
+
+    const { data, error } = await (db as any)
+      .from('ingestion_jobs')
+      .select('*')
+      .eq('job_id', jobId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch job: ${error.message}`);
+    }
+
+    return data ? this.mapJob(data) : null;
+  }
+
+  /**
+   * Requeue a failed or cancelled job; it resumes from the stage it stopped at
+   * @returns null if the job is not in a retryable state
+   */
+  async retryJob(jobId: string): Promise<IngestionJob | null> {
+    const db = DatabaseClient.getInstance().getClient();
+
+    const { data, error } = await (db as any)
+      .from('ingestion_jobs')
+      .update({
+        status: 'queued',
+        stage_attempts: {},
+        last_error: null,
+        next_run_at: new Date().toISOString(),
+        locked_by: null,
+        locked_at: null,
+        completed_at: null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('job_id', jobId)
+      .in('status', ['failed', 'cancelled'])
+      .select();
+
+    if (error) {
+      throw new Error(`Failed to retry job: ${error.message}`);
+    }
+
+    return data && data.length > 0 ? this.mapJob(data[0]) : null;
+  }
+
+  /**
+   * Cancel a queued or running job
+   * Running jobs stop at their next heartbeat
+   * @returns null if the job is not active
+   */
+  async cancelJob(jobId: string): Promise<IngestionJob | null> {
+    const db = DatabaseClient.getInstance().getClient();
+
+    const { data, error } = await (db as any)
+      .from('ingestion_jobs')
+      .update({
+        status: 'cancelled',
+        last_error: 'Cancelled by administrator',
+        completed_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      })
+      .eq('job_id', jobId)
+      .in('status', ACTIVE_STATUSES)
+      .select();
+
+    if (error) {
+      throw new Error(`Failed to cancel job: ${error.message}`);
+    }
+    if (!data || data.length === 0) {
+      return null;
+    }
+
+    const job = this.mapJob(data[0]);
+
+    // Queued jobs never reach a handler and cancelled jobs are never reclaimed, so notify it here
+    // unless a live worker holds the job; that worker is notified at its next heartbeat
+    if (job.lockedBy === undefined || this.isStalled(job)) {
+      await this.notifyFailed(job, new JobCancelledError(jobId));
+    }
+
+    return job;
+  }
+
+  /**
+   * Whether a running job's worker has stopped heartbeating (it would be reclaimed by the next poll)
+   */
+  private isStalled(job: IngestionJob): boolean {
+    const lastSeen = job.heartbeatAt || job.startedAt;
+    return !lastSeen || Date.now() - new Date(lastSeen).getTime() > this.config.lockTimeoutSeconds * 1000;
+  }
+
+  /**
+   * Start polling for jobs
+   */
+  start(): void {
+    if (this.pollTimer) {
+      return;
+    }
+
+    console.log(`👷 Job worker ${this.workerId} started (concurrency: ${this.config.concurrency})`);
+    this.pollTimer = setInterval(() => this.poll(), this.config.pollIntervalMs);
+    setImmediate(() => this.poll());
+  }
+
+  /**
+   * Stop polling and hand running jobs back to the queue
+   * Their handlers are abandoned; the next worker resumes from the recorded stage
+   */
+  async stop(): Promise<void> {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+
+    if (this.running.size === 0) {
+      return;
+    }
+
+    const db = DatabaseClient.getInstance().getClient();
+    const { error } = await (db as any)
+      .from('ingestion_jobs')
+      .update({
+        status: 'queued',
+        locked_by: null,
+        locked_at: null,
+        next_run_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      })
+      .in('job_id', Array.from(this.running))
+      .eq('status', 'running');
+
+    if (error) {
+      console.warn(`⚠️ Failed to release running jobs: ${error.message}`);
+    } else {
+      console.log(`👷 Released ${this.running.size} running jobs back to the queue`);
+    }
+  }
+
+  /**
+   * Queue and worker statistics
+   */
+  async getStats(): Promise<Record<IngestionJobStatus, number> & { runningOnThisWorker: number }> {
+    const db = DatabaseClient.getInstance().getClient();
+    const statuses: IngestionJobStatus[] = ['queued', 'running', 'completed', 'failed', 'cancelled'];
+
+    const counts = await Promise.all(statuses.map(async status => {
+      const { count } = await (db as any)
+        .from('ingestion_jobs')
+        .select('*', { count: 'exact', head: true })
+        .eq('status', status);
+      return [status, count || 0] as const;
+    }));
+
+    return {
+      ...Object.fromEntries(counts) as Record<IngestionJobStatus, number>,
+      runningOnThisWorker: this.running.size
+    };
+  }
+
+  /**
+   * Claim jobs until the concurrency limit is reached
+   */
+  private async poll(): Promise<void> {
+    if (this.polling) {
+      return;
+    }
+    this.polling = true;
+
+    try {
+      while (this.running.size < this.config.concurrency) {
+        const job = await this.claimNext();
+        if (!job) break;
+
+        this.running.add(job.jobId);
+        this.execute(job).finally(() => {
+          this.running.delete(job.jobId);
+        });
+      }
+    } catch (error) {
+      console.error(`❌ Job poll failed: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async claimNext(): Promise<IngestionJob | null> {
+    const db = DatabaseClient.getInstance().getClient();
+
+    const { data, error } = await (db as any).rpc('claim_ingestion_job', {
+      worker_id_param: this.workerId,
+      lock_timeout_seconds: this.config.lockTimeoutSeconds
+    });
+
+    if (error) {
+      throw new Error(`Failed to claim job: ${error.message}`);
+    }
+
+    const row = Array.isArray(data) ? data[0] : data;
+    return row ? this.mapJob(row) : null;
+  }
+
+  /**
+   * Run one claimed job and record the outcome
+   */
+  private async execute(job: IngestionJob): Promise<void> {
+    const handler = this.handlers.get(job.jobType);
+    if (!handler) {
+      await this.updateJob(job.jobId, {
+        status: 'failed',
+        last_error: `No handler registered for job type: ${job.jobType}`,
+        completed_at: new Date().toISOString()
+      });
+      return;
+    }
+
+    console.log(`👷 Running job ${job.jobId} (${job.jobType}) for document ${job.documentId}${job.stage ? `, resuming at ${job.stage}` : ''}`);
+
+    const context = this.createContext(job);
+
+    // Keep the lock alive during long stages (OCR, large embedding batches) that can't heartbeat themselves;
+    // cancellation is still only acted on at the handler's own heartbeats
+    const keepAlive = setInterval(() => {
+      context.heartbeat().catch(() => {});
+    }, (this.config.lockTimeoutSeconds * 1000) / 3);
+
+    try {
+      await handler.run(job, context);
+
+      await this.updateJob(job.jobId, {
+        status: 'completed',
+        last_error: null,
+        locked_by: null,
+        locked_at: null,
+        completed_at: new Date().toISOString()
+      });
+      console.log(`✅ Job ${job.jobId} completed`);
+
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+
+      if (err instanceof JobCancelledError) {
+        console.log(`🛑 Job ${job.jobId} cancelled during ${job.stage || 'startup'}`);
+        await this.notifyFailed(job, err);
+        return;
+      }
+      if (err instanceof JobLockLostError) {
+        console.warn(`⚠️ Job ${job.jobId} was reclaimed by another worker, abandoning this run`);
+        return;
+      }
+
+      await this.handleFailure(job, handler, err);
+    } finally {
+      clearInterval(keepAlive);
+    }
+  }
+
+  /**
+   * Count the failure against the current stage and either reschedule or give up
+   */
+  private async handleFailure(job: IngestionJob, handler: JobHandler, error: Error): Promise<void> {
+    const stage = job.stage || 'startup';
+    const attempt = (job.stageAttempts[stage] || 0) + 1;
+    const stageAttempts = { ...job.stageAttempts, [stage]: attempt };
+
+    if (attempt < job.maxAttempts) {
+      const delay = Math.min(
+        this.config.retryBaseDelayMs * Math.pow(2, attempt - 1),
+        this.config.retryMaxDelayMs
+      );
+      const nextRunAt = new Date(Date.now() + delay);
+
+      console.warn(`⚠️ Job ${job.jobId} failed at ${stage} (attempt ${attempt}/${job.maxAttempts}), retrying in ${Math.round(delay / 1000)}s: ${error.message}`);
+
+      await this.updateJob(job.jobId, {
+        status: 'queued',
+        stage_attempts: stageAttempts,
+        last_error: error.message,
+        locked_by: null,
+        locked_at: null,
+        next_run_at: nextRunAt.toISOString()
+      });
+
+      try {
+        await handler.onRetryScheduled?.({ ...job, stageAttempts }, error, attempt, nextRunAt);
+      } catch (hookError) {
+        console.warn(`⚠️ Retry hook failed for job ${job.jobId}: ${hookError instanceof Error ? hookError.message : hookError}`);
+      }
+      return;
+    }
+
+    console.error(`❌ Job ${job.jobId} failed at ${stage} after ${attempt} attempts: ${error.message}`);
+
+    await this.updateJob(job.jobId, {
+      status: 'failed',
+      stage_attempts: stageAttempts,
+      last_error: error.message,
+      locked_by: null,
+      completed_at: new Date().toISOString()
+    });
+
+    await this.notifyFailed({ ...job, stageAttempts, lastError: error.message }, error);
+  }
+
+  private async notifyFailed(job: IngestionJob, error: Error): Promise<void> {
+    try {
+      await this.handlers.get(job.jobType)?.onFailed?.(job, error);
+    } catch (hookError) {
+      console.warn(`⚠️ Failure hook failed for job ${job.jobId}: ${hookError instanceof Error ? hookError.message : hookError}`);
+    }
+  }
+
+  private createContext(job: IngestionJob): JobContext {
+    const heartbeat = async (fields: Record<string, any> = {}) => {
+      const db = DatabaseClient.getInstance().getClient();
+
+      // Only touch the job while this worker still owns it and it is running
+      const { data, error } = await (db as any)
+        .from('ingestion_jobs')
+        .update({ heartbeat_at: new Date().toISOString(), updated_at: new Date().toISOString(), ...fields })
+        .eq('job_id', job.jobId)
+        .eq('locked_by', this.workerId)
+        .eq('status', 'running')
+        .select('job_id');
+
+      if (error) {
+        console.warn(`⚠️ Heartbeat failed for job ${job.jobId}: ${error.message}`);
+        return;
+      }
+      if (!data || data.length === 0) {
+        const current = await this.getJob(job.jobId);
+        if (!current || current.status === 'cancelled') {
+          throw new JobCancelledError(job.jobId);
+        }
+        // Reclaimed by another worker after this one stalled
+        throw new JobLockLostError(job.jobId);
+      }
+    };
+
+    return {
+      job,
+      setStage: async (stage: string) => {
+        job.stage = stage;
+        await heartbeat({ stage });
+      },
+      heartbeat: () => heartbeat()
+    };
+  }
+
+  private async updateJob(jobId: string, fields: Record<string, any>): Promise<void> {
+    const db = DatabaseClient.getInstance().getClient();
+
+    const { error } = await (db as any)
+      .from('ingestion_jobs')
+      .update({ ...fields, updated_at: new Date().toISOString() })
+      .eq('job_id', jobId);
+
+    if (error) {
+      console.error(`❌ Failed to update job ${jobId}: ${error.message}`);
+    }
+  }
+
+  private mapJob(row: any): IngestionJob {
+    return {
+      jobId: row.job_id,
+      jobType: row.job_type,
+      documentId: row.document_id,
+      userId: row.user_id,
+      status: row.status,
+      stage: row.stage || undefined,
+      stageAttempts: row.stage_attempts || {},
+      maxAttempts: row.max_attempts,
+      lastError: row.last_error || undefined,
+      nextRunAt: row.next_run_at,
+      lockedBy: row.locked_by || undefined,
+      heartbeatAt: row.heartbeat_at || undefined,
+      startedAt: row.started_at || undefined,
+      completedAt: row.completed_at || undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+}
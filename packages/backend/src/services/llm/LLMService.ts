@@ -2,11 +2,13 @@
  * LLM Service Interface
  * 
  * Defines the contract for language model services in the RAG system.
- * Supports both local (Ollama) and cloud (OpenAI) providers with consistent interface.
+ * Supports local (Ollama), cloud (OpenAI) and in-process mock providers with consistent interface.
  * 
  * @author ARYA RAG Team
  */
 
+import { countTokens, splitTextAtTokenCount, getTokenizer } from '../../utils/tokenCounter';
+
 export interface LLMRequest {
   prompt: string;
   maxTokens?: number;
@@ -33,7 +35,7 @@ export interface LLMResponse {
 }
 
 export interface LLMStreamResponse {
-  text: string;
+  text: string;         // Text generated since the previous chunk (not cumulative)
   isComplete: boolean;
   finishReason?: LLMResponse['finishReason'];
   usage?: LLMResponse['usage'];
@@ -100,6 +102,13 @@ export abstract class LLMService {
     provider: string;
   }>;
 
+  /**
+   * Name of the configured model
+   */
+  getModelName(): string {
+    return this.config.model;
+  }
+
   /**
    * Get current service statistics
    */
@@ -215,12 +224,10 @@ export abstract class LLMService {
   }
 
   /**
-   * Count tokens in text (approximation for non-OpenAI models)
+   * Count tokens in text with the model's tokenizer (approximate when its vocabulary is not available locally)
    */
   protected estimateTokens(text: string): number {
-    // Rough estimation: 1 token ≈ 4 characters for English text
-    // More accurate counting would require model-specific tokenizers
-    return Math.ceil(text.length / 4);
+    return countTokens(text, getTokenizer(this.config.model));
   }
 
   /**
@@ -233,16 +240,8 @@ export abstract class LLMService {
       return prompt;
     }
 
-    // Truncate to approximate character limit
-    const maxChars = maxTokens * 4;
-    const truncated = prompt.substring(0, maxChars);
-    
-    // Try to truncate at word boundary
-    const lastSpace = truncated.lastIndexOf(' ');
-    if (lastSpace > maxChars * 0.8) { // If we can preserve 80% of content
-      return truncated.substring(0, lastSpace) + '...';
-    }
-    
+    // Truncate at a word boundary
+    const [truncated] = splitTextAtTokenCount(prompt, maxTokens, getTokenizer(this.config.model));
     return truncated + '...';
   }
 }
@@ -250,7 +249,7 @@ export abstract class LLMService {
 /**
  * LLM service provider types
  */
-export type LLMProvider = 'ollama' | 'openai';
+export type LLMProvider = 'ollama' | 'openai' | 'mock';
 
 /**
  * Configuration for different providers
@@ -269,6 +268,13 @@ export const LLM_CONFIGS: Record<LLMProvider, Partial<LLMServiceConfig>> = {
     maxRetries: 5,
     retryDelayMs: 2000,
     timeoutMs: 60000
+  },
+  mock: {
+    maxTokens: 4096,
+    temperature: 0,     // Output does not depend on temperature
+    maxRetries: 0,      // Computed in-process, nothing to retry
+    retryDelayMs: 0,
+    timeoutMs: 5000
   }
 };
 
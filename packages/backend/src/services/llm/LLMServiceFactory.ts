@@ -2,7 +2,8 @@
  * LLM Service Factory
  * 
  * Factory class for creating LLM service instances based on configuration.
- * Enables easy switching between Ollama (local) and OpenAI (cloud) providers.
+ * Enables easy switching between Ollama (local) and OpenAI (cloud) providers,
+ * plus an in-process mock provider for tests and offline runs.
  * 
  * @author ARYA RAG Team
  */
@@ -10,6 +11,7 @@
 import { LLMService, LLMProvider } from './LLMService';
 import { OllamaLLMService, OllamaLLMConfig } from './OllamaLLMService';
 import { OpenAILLMService, OpenAILLMConfig } from './OpenAILLMService';
+import { MockLLMService, MockLLMConfig, MOCK_LLM_MODEL } from './MockLLMService';
 
 export interface LLMFactoryConfig {
   provider: LLMProvider;
@@ -70,6 +72,10 @@ export class LLMServiceFactory {
       case 'openai':
         service = this.createOpenAIService(finalConfig);
         break;
+
+      case 'mock':
+        service = this.createMockService(finalConfig);
+        break;
         
       default:
         throw new Error(`Unsupported LLM provider: ${finalConfig.provider}`);
@@ -117,6 +123,18 @@ export class LLMServiceFactory {
     return new OpenAILLMService(openaiConfig);
   }
 
+  /**
+   * Create mock LLM service
+   */
+  private createMockService(config: LLMFactoryConfig): MockLLMService {
+    const mockConfig: Partial<MockLLMConfig> = {
+      model: config.model,
+      ...(config.maxTokens !== undefined && { maxTokens: config.maxTokens })
+    };
+
+    return new MockLLMService(mockConfig);
+  }
+
   /**
    * Resolve configuration from environment variables and defaults
    */
@@ -172,6 +190,8 @@ export class LLMServiceFactory {
           throw new Error('OPENAI_LLM_MODEL environment variable is required when using openai provider');
         }
         return openaiModel;
+      case 'mock':
+        return process.env.MOCK_LLM_MODEL || MOCK_LLM_MODEL;
       default:
         throw new Error(`Unknown provider: ${provider}`);
     }
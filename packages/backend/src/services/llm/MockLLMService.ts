@@ -0,0 +1,219 @@
+/**
+ * Mock LLM Service
+ *
+ * Deterministic completions computed in-process, for tests and machines without a
+ * model server. Scripted responses (regex on the question) take precedence; RAG
+ * prompts are otherwise answered extractively by quoting the context sentences that
+ * share the most terms with the question, cited with their [n] excerpt numbers.
+ *
+ * @author ARYA RAG Team
+ */
+
+import { readFileSync } from 'fs';
+import {
+  LLMService,
+  LLMRequest,
+  LLMResponse,
+  LLMStreamResponse,
+  LLMServiceConfig,
+  LLM_CONFIGS
+} from './LLMService';
+import { splitIntoClaims } from '../rag/GroundingVerifier';
+import { tokenizeTerms } from '../rag/Reranker';
+
+export const MOCK_LLM_MODEL = 'mock-extractive';
+
+const NO_ANSWER = 'The provided documents do not contain information about this.';
+
+export interface MockLLMScriptEntry {
+  match: string;    // Case-insensitive regular expression tested against the question (or the whole prompt)
+  response: string;
+}
+
+export interface MockLLMConfig extends LLMServiceConfig {
+  script: MockLLMScriptEntry[];
+}
+
+interface ContextExcerpt {
+  marker: number;
+  content: string;
+}
+
+/**
+ * Load scripted responses from the JSON file named by MOCK_LLM_SCRIPT, if set
+ */
+function loadScriptFromEnvironment(): MockLLMScriptEntry[] {
+  const path = process.env.MOCK_LLM_SCRIPT;
+  if (!path) {
+    return [];
+  }
+
+  const script = JSON.parse(readFileSync(path, 'utf-8'));
+  if (!Array.isArray(script) || script.some(entry => typeof entry?.match !== 'string' || typeof entry?.response !== 'string')) {
+    throw new Error(`MOCK_LLM_SCRIPT must be a JSON array of { "match": string, "response": string }: ${path}`);
+  }
+  return script;
+}
+
+/**
+ * Numbered context excerpts ("[n] Document: ...\nContent: ...") in a RAG prompt
+ */
+function parseExcerpts(prompt: string): ContextExcerpt[] {
+  const markers = [...prompt.matchAll(/^\[(\d+)\] /gm)];
+
+  return markers.map((match, i) => {
+    let block = prompt.slice(match.index, i + 1 < markers.length ? markers[i + 1].index : prompt.length);
+
+    const end = block.search(/\n\n(?:Previous conversation:|Question:)/);
+    if (end !== -1) {
+      block = block.slice(0, end);
+    }
+
+    const contentStart = block.indexOf('Content:');
+    const content = contentStart !== -1
+      ? block.slice(contentStart + 'Content:'.length)
+      : block.slice(block.indexOf('\n') + 1);
+
+    return { marker: parseInt(match[1], 10), content: content.trim() };
+  });
+}
+
+export class MockLLMService extends LLMService {
+  private script: MockLLMScriptEntry[];
+
+  constructor(config: Partial<MockLLMConfig> = {}) {
+    const { script, ...serviceConfig } = config;
+    const defaultConfig = {
+      ...LLM_CONFIGS.mock,
+      model: MOCK_LLM_MODEL
+    } as LLMServiceConfig;
+
+    super({ ...defaultConfig, ...serviceConfig });
+    this.script = script ?? loadScriptFromEnvironment();
+
+    console.log(`🧪 Mock LLM Service: ${this.config.model}${this.script.length > 0 ? ` (${this.script.length} scripted responses)` : ''}`);
+  }
+
+  /**
+   * Generate a completion without calling a model
+   */
+  async generateCompletion(request: LLMRequest): Promise<LLMResponse> {
+    this.validateRequest(request);
+
+    const startTime = Date.now();
+    const text = this.respond(request.prompt);
+    const usage = {
+      promptTokens: this.estimateTokens(`${request.systemPrompt || ''}${request.prompt}`),
+      completionTokens: this.estimateTokens(text),
+      totalTokens: 0
+    };
+    usage.totalTokens = usage.promptTokens + usage.completionTokens;
+
+    const processingTime = Date.now() - startTime;
+    this.updateStats(usage, processingTime, false, 0);
+
+    return {
+      text,
+      finishReason: 'completed',
+      usage,
+      model: this.config.model,
+      processingTime
+    };
+  }
+
+  /**
+   * Stream the same completion word by word
+   */
+  async generateStreamingCompletion(
+    request: LLMRequest
+  ): Promise<AsyncGenerator<LLMStreamResponse, void, unknown>> {
+    const response = await this.generateCompletion(request);
+
+    async function* stream(): AsyncGenerator<LLMStreamResponse, void, unknown> {
+      const words = response.text.match(/\S+\s*/g) || [];
+      for (const word of words) {
+        yield { text: word, isComplete: false };
+      }
+      yield { text: '', isComplete: true, finishReason: 'completed', usage: response.usage };
+    }
+
+    return stream();
+  }
+
+  /**
+   * Always available; nothing to connect to
+   */
+  async testConnection(): Promise<boolean> {
+    return true;
+  }
+
+  /**
+   * Get model information
+   */
+  async getModelInfo(): Promise<{
+    name: string;
+    maxTokens: number;
+    supportsStreaming: boolean;
+    provider: string;
+  }> {
+    return {
+      name: this.config.model,
+      maxTokens: this.config.maxTokens,
+      supportsStreaming: true,
+      provider: 'mock'
+    };
+  }
+
+  private respond(prompt: string): string {
+    const question = [...prompt.matchAll(/^(?:Follow-up question|Question):\s*(.+)$/gm)].pop()?.[1].trim();
+
+    const scripted = this.script.find(entry => new RegExp(entry.match, 'i').test(question || prompt));
+    if (scripted) {
+      return scripted.response;
+    }
+
+    // Query rewriting: treat every follow-up as already standalone
+    if (/^Follow-up question:/m.test(prompt) && question) {
+      return question;
+    }
+
+    const excerpts = parseExcerpts(prompt);
+    if (!question || excerpts.length === 0) {
+      return NO_ANSWER;
+    }
+
+    return this.extractAnswer(question, excerpts);
+  }
+
+  /**
+   * Quote the context sentence that best matches the question and the sentence after it
+   * (in Q&A documents the answer usually follows the matching question)
+   */
+  private extractAnswer(question: string, excerpts: ContextExcerpt[]): string {
+    const questionTerms = tokenizeTerms(question);
+    let best: { excerpt: ContextExcerpt; sentences: string[]; index: number; score: number } | null = null;
+
+    for (const excerpt of excerpts) {
+      const sentences = splitIntoClaims(excerpt.content).map(sentence => sentence.text);
+
+      for (const [index, sentence] of sentences.entries()) {
+        const sentenceTerms = tokenizeTerms(sentence);
+        const score = [...questionTerms].filter(term => sentenceTerms.has(term)).length;
+
+        if (score > 0 && (!best || score > best.score)) {
+          best = { excerpt, sentences, index, score };
+        }
+      }
+    }
+
+    if (!best) {
+      return NO_ANSWER;
+    }
+
+    const { excerpt, sentences, index } = best;
+    return sentences
+      .slice(index, index + 2)
+      .map(sentence => `${sentence} [${excerpt.marker}]`)
+      .join(' ');
+  }
+}
@@ -11,6 +11,7 @@ import {
   LLMService, 
   LLMRequest, 
   LLMResponse, 
+  LLMStreamResponse,
   LLMServiceConfig,
   LLM_CONFIGS
 } from './LLMService';
@@ -226,6 +227,72 @@ export class OllamaLLMService extends LLMService {
     }
   }
 
+  /**
+   * Generate streaming completion using Ollama
+   * Yields text deltas as Ollama produces them; the final chunk carries usage
+   */
+  async generateStreamingCompletion(
+    request: LLMRequest
+  ): Promise<AsyncGenerator<LLMStreamResponse, void, unknown>> {
+    this.validateRequest(request);
+
+    if (!this.baseUrl) {
+      throw new Error('Ollama base URL is not configured');
+    }
+
+    const startTime = Date.now();
+    const requestBody = this.buildGenerateRequest(request, false, true);
+
+    console.log(`🔗 Opening Ollama stream to: ${this.baseUrl}/api/generate`);
+
+    // Timeout only covers the wait for response headers, not the whole generation
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.config.timeoutMs);
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}/api/generate`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(requestBody),
+        signal: controller.signal
+      });
+    } catch (error) {
+      clearTimeout(timeoutId);
+      this.updateStats(
+        { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+        Date.now() - startTime,
+        true
+      );
+
+      if (error instanceof Error && error.name === 'AbortError') {
+        throw new Error(`Ollama request timed out after ${this.config.timeoutMs}ms`);
+      }
+      throw new Error(`Failed to connect to Ollama server at ${this.baseUrl}. Is Ollama running?`);
+    }
+
+    clearTimeout(timeoutId);
+
+    if (!response.ok || !response.body) {
+      let errorText = '';
+      try {
+        errorText = await response.text();
+      } catch (e) {
+        errorText = 'Unable to read error response';
+      }
+      this.updateStats(
+        { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+        Date.now() - startTime,
+        true
+      );
+      throw new Error(`Ollama API error (${response.status} ${response.statusText}): ${errorText}`);
+    }
+
+    return this.readOllamaStream(response.body, request, startTime);
+  }
+
   /**
    * Test connection to Ollama server
    */
@@ -304,44 +371,12 @@ export class OllamaLLMService extends LLMService {
     request: LLMRequest, 
     useJsonFormat: boolean = false
   ): Promise<OllamaGenerateResponse> {
-    const ollamaConfig = this.config as OllamaLLMConfig;
-    
     // Validate base URL first
     if (!this.baseUrl) {
       throw new Error('Ollama base URL is not configured');
     }
-    
-    // Build options with Mistral optimizations if enabled
-    const options: any = {
-      temperature: request.temperature || this.config.temperature,
-      num_predict: request.maxTokens || this.config.maxTokens,
-      stop: request.stopSequences || []
-    };
 
-    // Add Mistral-specific optimizations
-    if (ollamaConfig.mistralOptimized) {
-      options.num_ctx = ollamaConfig.contextWindow || MISTRAL_7B_CONFIG.contextWindow;
-      options.top_p = Number(process.env.MISTRAL_TOP_P) || MISTRAL_7B_CONFIG.topP;
-      options.top_k = Number(process.env.MISTRAL_TOP_K) || MISTRAL_7B_CONFIG.topK;
-      options.repeat_penalty = Number(process.env.MISTRAL_REPEAT_PENALTY) || MISTRAL_7B_CONFIG.ollamaOptions.repeat_penalty;
-      options.mirostat = Number(process.env.MISTRAL_MIROSTAT) || MISTRAL_7B_CONFIG.ollamaOptions.mirostat;
-      options.mirostat_eta = MISTRAL_7B_CONFIG.ollamaOptions.mirostat_eta;
-      options.mirostat_tau = MISTRAL_7B_CONFIG.ollamaOptions.mirostat_tau;
-      
-      // Use consistent seed for reproducible results in development
-      if (process.env.NODE_ENV === 'development') {
-        options.seed = MISTRAL_7B_CONFIG.ollamaOptions.seed;
-      }
-    }
-
-    const requestBody: OllamaGenerateRequest = {
-      model: this.config.model,
-      prompt: request.prompt,
-      system: request.systemPrompt,
-      options,
-      stream: false, // For now, use non-streaming mode
-      ...(useJsonFormat && { format: 'json' }) // Enable JSON formatting if requested
-    };
+    const requestBody = this.buildGenerateRequest(request, useJsonFormat, false);
 
     console.log(`🔗 Making Ollama request to: ${this.baseUrl}/api/generate`);
     console.log(`🔗 Request model: ${this.config.model}`);
@@ -400,6 +435,121 @@ export class OllamaLLMService extends LLMService {
     }
   }
 
+  /**
+   * Build the /api/generate request body with Mistral optimizations if enabled
+   */
+  private buildGenerateRequest(
+    request: LLMRequest,
+    useJsonFormat: boolean,
+    stream: boolean
+  ): OllamaGenerateRequest {
+    const ollamaConfig = this.config as OllamaLLMConfig;
+
+    // Build options with Mistral optimizations if enabled
+    const options: any = {
+      temperature: request.temperature || this.config.temperature,
+      num_predict: request.maxTokens || this.config.maxTokens,
+      stop: request.stopSequences || []
+    };
+
+    // Add Mistral-specific optimizations
+    if (ollamaConfig.mistralOptimized) {
+      options.num_ctx = ollamaConfig.contextWindow || MISTRAL_7B_CONFIG.contextWindow;
+      options.top_p = Number(process.env.MISTRAL_TOP_P) || MISTRAL_7B_CONFIG.topP;
+      options.top_k = Number(process.env.MISTRAL_TOP_K) || MISTRAL_7B_CONFIG.topK;
+      options.repeat_penalty = Number(process.env.MISTRAL_REPEAT_PENALTY) || MISTRAL_7B_CONFIG.ollamaOptions.repeat_penalty;
+      options.mirostat = Number(process.env.MISTRAL_MIROSTAT) || MISTRAL_7B_CONFIG.ollamaOptions.mirostat;
+      options.mirostat_eta = MISTRAL_7B_CONFIG.ollamaOptions.mirostat_eta;
+      options.mirostat_tau = MISTRAL_7B_CONFIG.ollamaOptions.mirostat_tau;
+      
+      // Use consistent seed for reproducible results in development
+      if (process.env.NODE_ENV === 'development') {
+        options.seed = MISTRAL_7B_CONFIG.ollamaOptions.seed;
+      }
+    }
+
+    return {
+      model: this.config.model,
+      prompt: request.prompt,
+      system: request.systemPrompt,
+      options,
+      stream,
+      ...(useJsonFormat && { format: 'json' }) // Enable JSON formatting if requested
+    };
+  }
+
+  /**
+   * Parse Ollama's newline-delimited JSON stream into LLM stream chunks
+   */
+  private async *readOllamaStream(
+    body: ReadableStream<Uint8Array>,
+    request: LLMRequest,
+    startTime: number
+  ): AsyncGenerator<LLMStreamResponse, void, unknown> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let generatedText = '';
+
+    try {
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) {
+          throw new Error('Ollama stream ended before generation completed');
+        }
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+          if (!line.trim()) continue;
+
+          const chunk = JSON.parse(line) as OllamaGenerateResponse & { error?: string };
+          if (chunk.error) {
+            throw new Error(`Ollama stream error: ${chunk.error}`);
+          }
+
+          generatedText += chunk.response || '';
+
+          if (!chunk.done) {
+            yield { text: chunk.response || '', isComplete: false };
+            continue;
+          }
+
+          const promptTokens = chunk.prompt_eval_count || this.estimateTokens(request.prompt);
+          const completionTokens = chunk.eval_count || this.estimateTokens(generatedText);
+          const usage = {
+            promptTokens,
+            completionTokens,
+            totalTokens: promptTokens + completionTokens
+          };
+
+          this.updateStats(usage, Date.now() - startTime, false);
+          console.log(`✅ Ollama stream completed: ${generatedText.length} characters`);
+
+          yield {
+            text: chunk.response || '',
+            isComplete: true,
+            finishReason: 'completed',
+            usage
+          };
+          return;
+        }
+      }
+    } catch (error) {
+      this.updateStats(
+        { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+        Date.now() - startTime,
+        true
+      );
+      throw error;
+    } finally {
+      // Releases the HTTP connection, also when the consumer stops iterating early
+      reader.cancel().catch(() => undefined);
+    }
+  }
+
   /**
    * Check if Ollama server is running and model is available
    */
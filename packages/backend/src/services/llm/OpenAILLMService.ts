@@ -12,6 +12,7 @@ import {
   LLMService, 
   LLMRequest, 
   LLMResponse, 
+  LLMStreamResponse,
   LLMServiceConfig,
   LLM_CONFIGS
 } from './LLMService';
@@ -169,6 +170,45 @@ export class OpenAILLMService extends LLMService {
     }
   }
 
+  /**
+   * Generate streaming completion using OpenAI
+   * Yields text deltas as they arrive; the final chunk carries usage
+   */
+  async generateStreamingCompletion(
+    request: LLMRequest
+  ): Promise<AsyncGenerator<LLMStreamResponse, void, unknown>> {
+    this.validateRequest(request);
+
+    const startTime = Date.now();
+
+    try {
+      const stream = await this.withRetry(
+        () => this.client.chat.completions.create({
+          model: this.config.model,
+          messages: this.buildMessages(request),
+          max_tokens: request.maxTokens || this.config.maxTokens,
+          temperature: request.temperature || this.config.temperature,
+          stop: request.stopSequences,
+          user: request.metadata?.userId,
+          stream: true,
+          stream_options: { include_usage: true }
+        }),
+        `Open completion stream for ${request.prompt.length} char prompt`
+      );
+
+      return this.readOpenAIStream(stream, startTime);
+
+    } catch (error) {
+      this.updateStats(
+        { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+        Date.now() - startTime,
+        true
+      );
+
+      throw new Error(`OpenAI streaming completion failed: ${error instanceof Error ? error.message : JSON.stringify(error)}`);
+    }
+  }
+
   /**
    * Test connection to OpenAI API
    */
@@ -232,18 +272,9 @@ export class OpenAILLMService extends LLMService {
         temperature: request.temperature || this.config.temperature
       });
 
-      // Prepare messages
-      const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [];
-      
-      if (request.systemPrompt) {
-        messages.push({ role: 'system', content: request.systemPrompt });
-      }
-      
-      messages.push({ role: 'user', content: request.prompt });
-
       const response = await this.client.chat.completions.create({
         model: this.config.model,
-        messages,
+        messages: this.buildMessages(request),
         max_tokens: request.maxTokens || this.config.maxTokens,
         temperature: request.temperature || this.config.temperature,
         stop: request.stopSequences,
@@ -284,6 +315,71 @@ export class OpenAILLMService extends LLMService {
     }
   }
 
+  /**
+   * Convert OpenAI stream chunks into LLM stream chunks
+   */
+  private async *readOpenAIStream(
+    stream: AsyncIterable<OpenAI.Chat.Completions.ChatCompletionChunk>,
+    startTime: number
+  ): AsyncGenerator<LLMStreamResponse, void, unknown> {
+    let finishReason: LLMResponse['finishReason'] = 'completed';
+
+    try {
+      for await (const chunk of stream) {
+        const choice = chunk.choices[0];
+
+        if (choice?.finish_reason) {
+          finishReason = this.mapFinishReason(choice.finish_reason);
+        }
+
+        if (choice?.delta?.content) {
+          yield { text: choice.delta.content, isComplete: false };
+        }
+
+        // With include_usage, the last chunk has no choices and carries token counts
+        if (chunk.usage) {
+          const usage = {
+            promptTokens: chunk.usage.prompt_tokens,
+            completionTokens: chunk.usage.completion_tokens,
+            totalTokens: chunk.usage.total_tokens
+          };
+          const cost = this.calculateCost(usage.promptTokens, usage.completionTokens);
+          this.updateStats(usage, Date.now() - startTime, false, cost);
+
+          yield { text: '', isComplete: true, finishReason, usage };
+          return;
+        }
+      }
+
+      // Stream closed without a usage chunk (e.g. OpenAI-compatible servers)
+      this.updateStats({ promptTokens: 0, completionTokens: 0, totalTokens: 0 }, Date.now() - startTime, false);
+      yield { text: '', isComplete: true, finishReason };
+
+    } catch (error) {
+      this.updateStats(
+        { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+        Date.now() - startTime,
+        true
+      );
+      throw new Error(`OpenAI stream failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Build chat messages from system and user prompts
+   */
+  private buildMessages(request: LLMRequest): OpenAI.Chat.Completions.ChatCompletionMessageParam[] {
+    const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [];
+
+    if (request.systemPrompt) {
+      messages.push({ role: 'system', content: request.systemPrompt });
+    }
+
+    messages.push({ role: 'user', content: request.prompt });
+
+    return messages;
+  }
+
   /**
    * Map OpenAI finish reasons to our standard format
    */
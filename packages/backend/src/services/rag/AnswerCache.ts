@@ -0,0 +1,158 @@
+/**
+ * Semantic answer cache
+ *
+ * Reuses a stored RAG answer when a user asks a question whose embedding is close enough to
+ * one answered before, skipping search and the LLM call. Answers live in user_queries next
+ * to the question embedding; match_cached_answer finds the closest one and database triggers
+ * invalidate entries when a document they cite is deleted or re-indexed (migration 012).
+ *
+ * Only answers to requests with the same scope are reused: the options that change what is
+ * searched or how the answer is written (documents, workspaces, revision pins, response
+ * style, search mode, result count) are hashed into the entry's cache_scope.
+ *
+ * @author ARYA RAG Team
+ */
+
+import { createHash } from 'crypto';
+import { RAGRequest, RAGResponse } from '@arya-rag/types';
+import { DatabaseClient } from '../../config/database';
+
+export interface AnswerCacheConfig {
+  similarityThreshold: number; // Minimum cosine similarity between the two questions
+  maxAgeHours: number;
+}
+
+export interface CachedAnswer {
+  response: RAGResponse;
+  cachedQuery: string;
+  similarity: number;
+  cachedAt: string;
+}
+
+/**
+ * Columns that make a user_queries row a cache entry
+ */
+export interface AnswerCacheColumns {
+  query_embedding: number[];
+  embedding_model: string;
+  cache_scope: string;
+  cached_response: RAGResponse | null;
+  cited_document_ids: string[];
+}
+
+export class AnswerCache {
+  private config: AnswerCacheConfig;
+
+  constructor(config: Partial<AnswerCacheConfig> = {}) {
+    this.config = {
+      similarityThreshold: config.similarityThreshold ?? 0.95,
+      maxAgeHours: config.maxAgeHours ?? 24
+    };
+  }
+
+  /**
+   * Hash of the request options a cached answer must share with the new request
+   */
+  scopeFor(request: RAGRequest, variant: string): string {
+    const scope = {
+      variant,
+      documentIds: [...(request.documentIds || [])].sort(),
+      workspaceIds: [...(request.workspaceIds || [])].sort(),
+      revisions: Object.entries(request.revisions || {}).sort(([a], [b]) => a.localeCompare(b)),
+      responseStyle: request.responseStyle || null,
+      searchMode: request.searchMode || null,
+      maxResults: request.maxResults || null
+    };
+    return createHash('sha256').update(JSON.stringify(scope)).digest('hex');
+  }
+
+  /**
+   * Closest cached answer above the similarity threshold whose cited documents the user can still read
+   * Returns null on a miss or when the lookup fails; the query is then answered normally.
+   */
+  async lookup(
+    request: RAGRequest,
+    queryEmbedding: number[],
+    embeddingModel: string,
+    scope: string
+  ): Promise<CachedAnswer | null> {
+    try {
+      const db = DatabaseClient.getInstance().getClient();
+
+      const { data, error } = await (db as any).rpc('match_cached_answer', {
+        query_embedding: queryEmbedding,
+        user_id_param: request.userId,
+        cache_scope_param: scope,
+        embedding_model_param: embeddingModel,
+        similarity_threshold: this.config.similarityThreshold,
+        max_age_hours: this.config.maxAgeHours
+      });
+
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      const match = data?.[0];
+      if (!match) {
+        return null;
+      }
+
+      // Workspace access can be revoked without the cited documents changing
+      if (match.cited_document_ids.length > 0) {
+        const { data: readable, error: readableError } = await (db as any)
+          .rpc('readable_document_ids', {
+            user_id_param: request.userId,
+            workspace_ids_param: request.workspaceIds?.length ? request.workspaceIds : null
+          })
+          .in('document_id', match.cited_document_ids);
+
+        if (readableError) {
+          throw new Error(readableError.message);
+        }
+        if ((readable || []).length < match.cited_document_ids.length) {
+          return null;
+        }
+      }
+
+      return {
+        response: match.cached_response,
+        cachedQuery: match.query_text,
+        similarity: match.similarity,
+        cachedAt: match.created_at
+      };
+
+    } catch (error) {
+      console.warn(`⚠️ Answer cache lookup failed: ${error instanceof Error ? error.message : error}`);
+      return null;
+    }
+  }
+
+  /**
+   * user_queries columns for a new answer; only answers backed by sources are stored for reuse
+   * The entry depends on every document in the context, not only the listed sources (capped
+   * at maxSourcesPerResponse): inline citations can point at any excerpt.
+   *
+   * @param contextDocumentIds - Documents of the excerpts the answer was generated from
+   */
+  columnsFor(
+    response: RAGResponse,
+    queryEmbedding: number[],
+    embeddingModel: string,
+    scope: string,
+    contextDocumentIds: string[] = []
+  ): AnswerCacheColumns {
+    const cacheable = response.sources.length > 0 && !response.metadata?.error;
+
+    return {
+      query_embedding: queryEmbedding,
+      embedding_model: embeddingModel,
+      cache_scope: scope,
+      cached_response: cacheable ? response : null,
+      cited_document_ids: Array.from(new Set([
+        ...contextDocumentIds,
+        ...(response.citations || []).map(citation => citation.documentId),
+        ...response.sources.map(source => source.documentId)
+      ].filter((id): id is string => !!id)))
+    };
+  }
+}
@@ -0,0 +1,220 @@
+/**
+ * Inline citation resolution for RAG answers
+ *
+ * Context excerpts are numbered [1]..[n] in the prompt. After generation every marker in
+ * the answer is resolved to the chunk it points at and to the sentence of that chunk that
+ * best supports the cited statement, with its character span on the page. Citations that
+ * point outside the retrieved context are removed from the answer and reported.
+ *
+ * For matches expanded to their parent section the sentence is looked up in the parent text,
+ * which is what the LLM read. Only the matched child's position on the page is stored, so a
+ * sentence outside the child gets no page span.
+ *
+ * @author ARYA RAG Team
+ */
+
+import { InlineCitation, RejectedCitation } from '@arya-rag/types';
+import { ExtendedSearchResult } from '../vector/VectorSearchService';
+import { splitIntoClaims } from './GroundingVerifier';
+import { tokenizeTerms } from './Reranker';
+
+export interface CitationResolution {
+  answer: string;
+  citations: InlineCitation[];
+  rejected: RejectedCitation[];
+}
+
+// [1], [2, 3] - but not markdown links such as [1](https://...)
+const MARKER_PATTERN = /[ \t]?\[(\d+(?:\s*,\s*\d+)*)\](?!\()/g;
+
+// (Fire_Safety_QA.pdf, Page 3) - the format older prompts asked for
+const PAGE_CITATION_PATTERN = /[ \t]?\(([^()]+?),\s*(?:Page|p\.)\s*(\d+)\)/gi;
+
+/**
+ * Validate the citations in an answer and resolve each [n] marker against the context
+ * Page citations to retrieved pages become [n] markers so every citation resolves the same way.
+ */
+export function resolveCitations(answer: string, contextResults: ExtendedSearchResult[]): CitationResolution {
+  const rejected: RejectedCitation[] = [];
+
+  const validated = answer
+    .replace(MARKER_PATTERN, (match: string, numbers: string) => {
+      const lead = match.startsWith('[') ? '' : match[0];
+      const markers = numbers.split(',').map(n => parseInt(n.trim(), 10));
+      const valid = markers.filter(n => n >= 1 && n <= contextResults.length);
+
+      markers
+        .filter(n => !valid.includes(n))
+        .forEach(n => rejected.push({ citation: `[${n}]`, reason: `Source ${n} is not in the retrieved context` }));
+
+      return valid.length > 0 ? `${lead}${valid.map(n => `[${n}]`).join('')}` : '';
+    })
+    .replace(PAGE_CITATION_PATTERN, (match: string, documentName: string, page: string) => {
+      const lead = match.startsWith('(') ? '' : match[0];
+      const index = contextResults.findIndex(result =>
+        sameDocument(result.documentName, documentName) && result.pageNumber === parseInt(page, 10)
+      );
+
+      if (index === -1) {
+        rejected.push({ citation: match.trim(), reason: `Page ${page} of ${documentName.trim()} is not in the retrieved context` });
+        return '';
+      }
+
+      return `${lead}[${index + 1}]`;
+    });
+
+  const citations: InlineCitation[] = [];
+  const markers = /\[(\d+)\](?!\()/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = markers.exec(validated)) !== null) {
+    const marker = parseInt(match[1], 10);
+    const result = contextResults[marker - 1];
+    const statement = citedStatement(validated, match.index);
+    const text = result.parentText || result.chunkText;
+    const quote = findSupportingSpan(statement, text);
+
+    citations.push({
+      marker,
+      start: match.index,
+      end: match.index + match[0].length,
+      chunkId: result.chunkId,
+      documentId: result.documentId,
+      documentName: result.documentName,
+      pageNumber: result.pageNumber,
+      revision: result.revision,
+      quote: text.slice(quote.start, quote.end),
+      ...toPageSpan(result, quote)
+    });
+  }
+
+  return { answer: validated, citations, rejected };
+}
+
+/**
+ * Compare document names loosely; models often drop the extension or change case
+ */
+export function sameDocument(retrieved: string, cited: string): boolean {
+  const normalize = (name: string) => name.trim().toLowerCase().replace(/\.[a-z0-9]+$/, '');
+  return normalize(retrieved) === normalize(cited);
+}
+
+/**
+ * The statement a marker cites: the sentence it follows, without other markers
+ */
+function citedStatement(answer: string, markerIndex: number): string {
+  // Skip the marker's own sentence end and any markers directly before it ("... fire.[1][2]")
+  const before = answer.slice(0, markerIndex).replace(/(?:\s*\[\d+\])*\s*[.!?]?\s*$/, '');
+  const boundary = Math.max(
+    before.lastIndexOf('\n'),
+    ...['. ', '! ', '? '].map(end => before.lastIndexOf(end))
+  );
+
+  return before.slice(boundary + 1).replace(/\[\d+\]/g, '').trim();
+}
+
+/**
+ * Offsets in the text of the sentence sharing the most terms with the statement
+ * Falls back to the whole text when no sentence shares any term
+ */
+function findSupportingSpan(statement: string, text: string): { start: number; end: number } {
+  const statementTerms = tokenizeTerms(statement);
+  let best = { start: 0, end: text.length };
+  let bestOverlap = 0;
+
+  splitIntoClaims(text).forEach(sentence => {
+    const sentenceTerms = tokenizeTerms(sentence.text);
+    let overlap = 0;
+    statementTerms.forEach(term => {
+      if (sentenceTerms.has(term)) overlap++;
+    });
+
+    if (overlap > bestOverlap) {
+      bestOverlap = overlap;
+      best = { start: sentence.start, end: sentence.end };
+    }
+  });
+
+  return best;
+}
+
+/**
+ * Map chunk offsets to page offsets
+ * The stored span covers the chunk's own text, which ends the chunk; any overlap carried over
+ * from the previous chunk comes before it, so offsets are aligned from the end.
+ */
+function toPageSpan(result: ExtendedSearchResult, span: { start: number; end: number }): { pageStart?: number; pageEnd?: number } {
+  if (result.pagePositionEnd === undefined || result.pagePositionEnd <= 0) {
+    return {};
+  }
+
+  if (result.parentText) {
+    return toPageSpanInParent(result, result.parentText, span);
+  }
+
+  const shift = result.pagePositionEnd - result.chunkText.length;
+  return {
+    pageStart: Math.max(0, span.start + shift),
+    pageEnd: Math.max(0, span.end + shift)
+  };
+}
+
+/**
+ * Map parent-text offsets to page offsets through the matched child's own span
+ * The child's own text is found in the parent; spans outside it have no known page position.
+ */
+function toPageSpanInParent(
+  result: ExtendedSearchResult,
+  parentText: string,
+  span: { start: number; end: number }
+): { pageStart?: number; pageEnd?: number } {
+  if (result.pagePositionStart === undefined || result.pagePositionEnd === undefined) {
+    return {};
+  }
+
+  const ownLength = result.pagePositionEnd - result.pagePositionStart;
+  if (ownLength <= 0 || ownLength > result.chunkText.length) {
+    return {};
+  }
+
+  const ownStart = parentText.indexOf(result.chunkText.slice(result.chunkText.length - ownLength));
+  if (ownStart === -1 || span.start < ownStart || span.end > ownStart + ownLength) {
+    return {};
+  }
+
+  return {
+    pageStart: result.pagePositionStart + span.start - ownStart,
+    pageEnd: result.pagePositionStart + span.end - ownStart
+  };
+}
+
+/**
+ * Rebuild a page's text from its chunks, using the same end-aligned offsets as citations
+ * Each chunk contributes only its own span, so overlap text is not repeated; whitespace
+ * trimmed off chunk edges comes back as spaces. Returns aligned: false (texts joined in
+ * order) when the chunks have no stored positions.
+ */
+export function reconstructPageText(
+  chunks: Array<{ chunkText: string; pagePositionStart?: number; pagePositionEnd?: number }>
+): { text: string; aligned: boolean } {
+  const positioned = chunks.filter(chunk => (chunk.pagePositionEnd || 0) > 0);
+  if (positioned.length === 0 || positioned.length < chunks.length) {
+    return { text: chunks.map(chunk => chunk.chunkText).join('\n\n'), aligned: false };
+  }
+
+  let text = '';
+  [...positioned]
+    .sort((a, b) => (a.pagePositionEnd || 0) - (b.pagePositionEnd || 0))
+    .forEach(chunk => {
+      const end = chunk.pagePositionEnd || 0;
+      const shift = end - chunk.chunkText.length;
+      const ownStart = Math.max(chunk.pagePositionStart || 0, shift, text.length);
+      if (ownStart >= end) {
+        return;
+      }
+
+      text = text.padEnd(ownStart, ' ') + chunk.chunkText.slice(ownStart - shift);
+    });
+
+  return { text, aligned: true };
+}
@@ -0,0 +1,305 @@
+/**
+ * Grounding verification for RAG answers
+ *
+ * Splits a generated answer into sentence-level claims and checks each one against
+ * the retrieved chunks, so statements the sources do not back can be flagged to the
+ * user instead of being presented with the same weight as cited facts.
+ *
+ * @author ARYA RAG Team
+ */
+
+import { ClaimSupport, ClaimSupportStatus, GroundingReport } from '@arya-rag/types';
+import { LLMService } from '../llm/LLMService';
+import { ExtendedSearchResult } from '../vector/VectorSearchService';
+import { tokenizeTerms } from './Reranker';
+
+export type GroundingVerifierType = 'lexical' | 'llm';
+
+/**
+ * Checks an answer against the chunks it was generated from
+ */
+export interface GroundingVerifier {
+  readonly name: GroundingVerifierType;
+  verify(answer: string, chunks: ExtendedSearchResult[]): Promise<GroundingReport>;
+}
+
+export interface AnswerClaim {
+  text: string;
+  start: number;
+  end: number;
+}
+
+// Fragments with fewer content terms ("See below.", "1.") are not checked
+const MIN_CLAIM_TERMS = 3;
+
+// Citation markers are not part of the claim: (Page 3), (Source: file.pdf, Page 3), [1]
+const CITATION_PATTERN = /\([^()]*\b(?:page|pages|source|p\.)[^()]*\)|\[[^\]]*\]/gi;
+
+/**
+ * Split an answer into sentence claims with their character offsets
+ * Markdown headings, lead-in lines ending in ':' and short fragments are skipped.
+ */
+export function splitIntoClaims(answer: string): AnswerClaim[] {
+  const claims: AnswerClaim[] = [];
+  const boundary = /[.!?]+(?=\s|$)|\n/g;
+
+  const addClaim = (from: number, to: number) => {
+    const raw = answer.slice(from, to);
+    // Offsets exclude list and quote markers so they cover only the sentence itself
+    const lead = raw.match(/^\s*(?:>\s*)*(?:(?:[-*+]|\d+[.)])\s+)?/)?.[0].length || 0;
+    const start = from + lead;
+    const end = Math.max(start, to - (raw.length - raw.trimEnd().length));
+    const text = answer.slice(start, end);
+
+    if (!text || /^#{1,6}\s/.test(text) || text.endsWith(':')) {
+      return;
+    }
+    if (claimTerms(text).size < MIN_CLAIM_TERMS) {
+      return;
+    }
+
+    claims.push({ text, start, end });
+  };
+
+  let from = 0;
+  let match: RegExpExecArray | null;
+  while ((match = boundary.exec(answer)) !== null) {
+    addClaim(from, match[0] === '\n' ? match.index : match.index + match[0].length);
+    from = match.index + match[0].length;
+  }
+  addClaim(from, answer.length);
+
+  return claims;
+}
+
+/**
+ * Content terms of a claim, without emphasis and citation markers
+ */
+function claimTerms(text: string): Set<string> {
+  const cleaned = text
+    .replace(CITATION_PATTERN, ' ')
+    .replace(/[*_`]/g, '');
+  return stemTerms(tokenizeTerms(cleaned));
+}
+
+/**
+ * Fold plural and verb endings so "extinguishers" matches "extinguisher"
+ * Numbers and short terms are kept as-is.
+ */
+function stemTerms(terms: Set<string>): Set<string> {
+  const stemmed = new Set<string>();
+  terms.forEach(term => {
+    stemmed.add(/\d/.test(term) || term.length <= 4 ? term : term.replace(/(?:ing|ed|es|s)$/, ''));
+  });
+  return stemmed;
+}
+
+interface RankedChunk {
+  chunk: ExtendedSearchResult;
+  score: number;
+}
+
+export interface ClaimAssessment {
+  claim: ClaimSupport;
+  ranked: RankedChunk[]; // Chunks by lexical support, best first
+}
+
+/**
+ * Deterministic lexical verifier
+ * A claim's score is the fraction of its content terms found in the best chunk. Every
+ * number in the claim (doses, distances, step counts) must appear in that chunk too;
+ * each missing number scales the score down, since a wrong figure is the costliest error.
+ */
+export class LexicalGroundingVerifier implements GroundingVerifier {
+  readonly name = 'lexical';
+  private supportedThreshold: number;
+  private partialThreshold: number;
+
+  constructor(supportedThreshold: number = 0.7, partialThreshold: number = 0.4) {
+    this.supportedThreshold = supportedThreshold;
+    this.partialThreshold = partialThreshold;
+  }
+
+  async verify(answer: string, chunks: ExtendedSearchResult[]): Promise<GroundingReport> {
+    const claims = this.assess(answer, chunks).map(assessment => assessment.claim);
+    return buildReport(this.name, claims);
+  }
+
+  /**
+   * Score every claim against every chunk
+   */
+  assess(answer: string, chunks: ExtendedSearchResult[]): ClaimAssessment[] {
+    const chunkTerms = chunks.map(chunk => stemTerms(tokenizeTerms(`${chunk.sectionTitle || ''} ${chunk.chunkText}`)));
+
+    return splitIntoClaims(answer).map((claim, index) => {
+      const terms = claimTerms(claim.text);
+
+      const ranked = chunks
+        .map((chunk, i) => ({ chunk, score: this.coverage(terms, chunkTerms[i]) }))
+        .sort((a, b) => b.score - a.score);
+
+      const score = ranked.length > 0 ? ranked[0].score : 0;
+
+      return {
+        claim: {
+          index,
+          text: claim.text,
+          start: claim.start,
+          end: claim.end,
+          status: this.statusFor(score),
+          score: Math.round(score * 1000) / 1000,
+          sources: ranked
+            .filter(candidate => candidate.score >= this.partialThreshold)
+            .slice(0, 3)
+            .map(candidate => toClaimSource(candidate))
+        },
+        ranked
+      };
+    });
+  }
+
+  private coverage(claimTerms: Set<string>, chunkTerms: Set<string>): number {
+    if (claimTerms.size === 0) {
+      return 0;
+    }
+
+    let matched = 0;
+    let numbers = 0;
+    let missingNumbers = 0;
+    claimTerms.forEach(term => {
+      const found = chunkTerms.has(term);
+      if (found) matched++;
+      if (/\d/.test(term)) {
+        numbers++;
+        if (!found) missingNumbers++;
+      }
+    });
+
+    const coverage = matched / claimTerms.size;
+    return numbers > 0 ? coverage * ((numbers - missingNumbers) / numbers) : coverage;
+  }
+
+  private statusFor(score: number): ClaimSupportStatus {
+    if (score >= this.supportedThreshold) return 'supported';
+    if (score >= this.partialThreshold) return 'partial';
+    return 'unsupported';
+  }
+}
+
+/**
+ * LLM-as-judge verifier
+ * Asks the configured LLM whether each claim is stated in its best lexical matches.
+ * This catches paraphrases the lexical check misses and contradictions it cannot see
+ * ("do not use water" vs "use water"). Claims the judge cannot rate keep the lexical status.
+ */
+export class LLMJudgeGroundingVerifier implements GroundingVerifier {
+  readonly name = 'llm';
+  private llmService: LLMService;
+  private lexical: LexicalGroundingVerifier;
+  private concurrency: number;
+  private passagesPerClaim: number;
+  private maxPassageChars: number;
+
+  constructor(
+    llmService: LLMService,
+    concurrency: number = 4,
+    passagesPerClaim: number = 3,
+    maxPassageChars: number = 1200
+  ) {
+    this.llmService = llmService;
+    this.lexical = new LexicalGroundingVerifier();
+    this.concurrency = concurrency;
+    this.passagesPerClaim = passagesPerClaim;
+    this.maxPassageChars = maxPassageChars;
+  }
+
+  async verify(answer: string, chunks: ExtendedSearchResult[]): Promise<GroundingReport> {
+    const assessments = this.lexical.assess(answer, chunks);
+    const claims: ClaimSupport[] = new Array(assessments.length);
+
+    // Judge in small batches to avoid flooding a local model
+    for (let i = 0; i < assessments.length; i += this.concurrency) {
+      const batch = assessments.slice(i, i + this.concurrency);
+      const judged = await Promise.all(batch.map(assessment => this.judge(assessment)));
+      judged.forEach((claim, j) => {
+        claims[i + j] = claim;
+      });
+    }
+
+    return buildReport(this.name, claims);
+  }
+
+  private async judge({ claim, ranked }: ClaimAssessment): Promise<ClaimSupport> {
+    const passages = ranked.slice(0, this.passagesPerClaim);
+    if (passages.length === 0) {
+      return claim;
+    }
+
+    const passageText = passages
+      .map((passage, i) => `[${i + 1}] (${passage.chunk.documentName}, page ${passage.chunk.pageNumber})\n${passage.chunk.chunkText.substring(0, this.maxPassageChars)}`)
+      .join('\n\n');
+
+    try {
+      const response = await this.llmService.generateCompletion({
+        systemPrompt: 'You check answers against source passages. Reply with exactly one word: SUPPORTED, PARTIAL or UNSUPPORTED.',
+        prompt: `Passages:\n${passageText}\n\nSentence: ${claim.text}\n\nIs every fact in the sentence stated in the passages? SUPPORTED = all of it, PARTIAL = some of it, UNSUPPORTED = none of it or the passages contradict it.`,
+        maxTokens: 5,
+        temperature: 0
+      });
+
+      const verdict = response.text.match(/\b(SUPPORTED|PARTIAL|UNSUPPORTED)\b/i)?.[1]?.toLowerCase() as ClaimSupportStatus | undefined;
+      if (!verdict) {
+        return claim;
+      }
+
+      return {
+        ...claim,
+        status: verdict,
+        // The judge saw these passages, so they back the claim even if few words overlap
+        sources: verdict === 'unsupported' ? [] : passages.map(passage => toClaimSource(passage))
+      };
+
+    } catch (error) {
+      console.warn(`⚠️ Grounding judge failed for claim ${claim.index}: ${error instanceof Error ? error.message : error}`);
+      return claim;
+    }
+  }
+}
+
+function toClaimSource({ chunk, score }: RankedChunk): ClaimSupport['sources'][number] {
+  return {
+    chunkId: chunk.chunkId,
+    documentName: chunk.documentName,
+    pageNumber: chunk.pageNumber,
+    score: Math.round(score * 1000) / 1000
+  };
+}
+
+/**
+ * Summarize claims; partially supported claims count half
+ */
+function buildReport(verifier: GroundingVerifierType, claims: ClaimSupport[]): GroundingReport {
+  const supported = claims.filter(claim => claim.status === 'supported').length;
+  const partial = claims.filter(claim => claim.status === 'partial').length;
+
+  return {
+    verifier,
+    supportedRatio: claims.length > 0 ? (supported + partial * 0.5) / claims.length : 1,
+    unsupportedCount: claims.filter(claim => claim.status === 'unsupported').length,
+    claims
+  };
+}
+
+/**
+ * Create a grounding verifier by type
+ */
+export function createGroundingVerifier(type: GroundingVerifierType, llmService: LLMService): GroundingVerifier {
+  switch (type) {
+    case 'llm':
+      return new LLMJudgeGroundingVerifier(llmService);
+    case 'lexical':
+      return new LexicalGroundingVerifier();
+    default:
+      throw new Error(`Unsupported grounding verifier: ${type}`);
+  }
+}
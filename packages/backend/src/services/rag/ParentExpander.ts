@@ -0,0 +1,108 @@
+/**
+ * Parent Expander
+ *
+ * Small-to-big retrieval for documents indexed parent-child (CHUNK_PARENT_CHILD=true):
+ * search matches small child chunks, and each match is given to the LLM as its parent -
+ * the section, or run of a section, it was split from - so a procedure is not cut off at
+ * the end of the matched chunk. Several matches under one parent become one context entry.
+ *
+ * The child's own text, page and offsets stay on the result for sources and citation spans;
+ * the context and citation quotes use parentText. Parents are read through the search
+ * service, which owns chunk reads like VectorStorageService owns chunk writes.
+ *
+ * @author ARYA RAG Team
+ */
+
+import { ExtendedSearchResult, VectorSearchService } from '../vector/VectorSearchService';
+import { countTokens, Tokenizer } from '../../utils/tokenCounter';
+
+/**
+ * Replace matched children with their parents, best match first, within a token budget
+ * A parent is expanded only if the remaining matches still fit next to it, so expansion never
+ * pushes another match out of the context; otherwise the child is kept as it is. Later children
+ * of an expanded parent are dropped from the results, since the parent already holds them.
+ *
+ * @param results - Search results, best first
+ * @param parentKeys - chunkId -> key of the chunk's parent, for children
+ * @param parents - Parent key -> parent text
+ * @param maxTokens - Context budget (maxContextTokens)
+ * @param tokenizer - The LLM's tokenizer (parents were sized in the embedding model's tokens)
+ */
+export function expandToParents(
+  results: ExtendedSearchResult[],
+  parentKeys: Map<string, string>,
+  parents: Map<string, string>,
+  maxTokens: number,
+  tokenizer?: Tokenizer
+): ExtendedSearchResult[] {
+  const childTokens = results.map(result => countTokens(result.chunkText, tokenizer));
+  const expanded = new Map<string, ExtendedSearchResult>();
+  const notExpanded = new Set<string>();
+  const output: ExtendedSearchResult[] = [];
+  let usedTokens = 0;
+
+  results.forEach((result, i) => {
+    const key = parentKeys.get(result.chunkId);
+    const parentResult = key ? expanded.get(key) : undefined;
+    if (parentResult) {
+      parentResult.matchedChildren = (parentResult.matchedChildren || 1) + 1;
+      return;
+    }
+
+    const parent = key && !notExpanded.has(key) ? parents.get(key) : undefined;
+    if (key && parent) {
+      const parentTokens = countTokens(parent, tokenizer);
+      // Room for every later match that would not be merged into this parent or one already expanded
+      const reserved = results.slice(i + 1).reduce((sum, later, j) => {
+        const laterKey = parentKeys.get(later.chunkId);
+        return laterKey && (laterKey === key || expanded.has(laterKey)) ? sum : sum + childTokens[i + 1 + j];
+      }, 0);
+
+      if (usedTokens + parentTokens + reserved <= maxTokens) {
+        const withParent = { ...result, parentText: parent, matchedChildren: 1 };
+        expanded.set(key, withParent);
+        output.push(withParent);
+        usedTokens += parentTokens;
+        return;
+      }
+      // Siblings would repeat what this child leaves out; keep them as children too
+      notExpanded.add(key);
+    }
+
+    output.push(result);
+    usedTokens += childTokens[i];
+  });
+
+  return output;
+}
+
+export class ParentExpander {
+  private searchService: VectorSearchService;
+
+  constructor(searchService: VectorSearchService) {
+    this.searchService = searchService;
+  }
+
+  /**
+   * Expand child chunks among search results to their parents
+   * Results from documents indexed without parents are returned unchanged.
+   */
+  async expand(results: ExtendedSearchResult[], maxTokens: number, tokenizer?: Tokenizer): Promise<ExtendedSearchResult[]> {
+    if (results.length === 0) {
+      return results;
+    }
+
+    const { parentKeys, parents } = await this.searchService.getChunkParents(results.map(result => result.chunkId));
+    if (parentKeys.size === 0) {
+      return results;
+    }
+
+    const expanded = expandToParents(results, parentKeys, parents, maxTokens, tokenizer);
+    const expandedCount = expanded.filter(result => result.parentText).length;
+    if (expandedCount > 0) {
+      console.log(`👪 Expanded ${expandedCount} match(es) to their parent section (${results.length - expanded.length} sibling match(es) merged)`);
+    }
+
+    return expanded;
+  }
+}
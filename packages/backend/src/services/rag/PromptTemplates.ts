@@ -8,6 +8,7 @@
  */
 
 import { MISTRAL_SYSTEM_PROMPTS, RESPONSE_SCHEMAS, QUERY_PATTERNS } from '../../config/mistral-config';
+import { countTokens, splitTextAtTokenCount, Tokenizer } from '../../utils/tokenCounter';
 
 /**
  * Query classification result
@@ -253,7 +254,7 @@ QUERY: ${query}
 Answer the question based on the provided context. Return ONLY valid JSON with the following structure:
 
 {
-  "answer": "your answer with inline citations like (Document Name, Page X)",
+  "answer": "your answer with inline citations like [1]",
   "confidence": 0.8,
   "sections": ["section numbers referenced"],
   "citations": [
@@ -366,13 +367,11 @@ Focus on accuracy and completeness while staying grounded in the source material
    * 
    * @param prompt - Full prompt text
    * @param maxTokens - Maximum token limit
+   * @param tokenizer - Tokenizer of the LLM the prompt is for
    * @returns Optimized prompt that fits within limits
    */
-  optimizePromptLength(prompt: string, maxTokens: number): string {
-    // Rough token estimation (4 characters per token)
-    const estimatedTokens = Math.ceil(prompt.length / 4);
-    
-    if (estimatedTokens <= maxTokens) {
+  optimizePromptLength(prompt: string, maxTokens: number, tokenizer: Tokenizer): string {
+    if (countTokens(prompt, tokenizer) <= maxTokens) {
       return prompt;
     }
 
@@ -383,16 +382,16 @@ Focus on accuracy and completeness while staying grounded in the source material
     }
 
     const [contextSection, querySection] = sections;
-    const queryPartTokens = Math.ceil(querySection.length / 4);
+    const queryPartTokens = countTokens(querySection, tokenizer);
     const availableForContext = maxTokens - queryPartTokens - 100; // 100 token buffer
 
     if (availableForContext <= 0) {
       return prompt; // Query too long, can't truncate safely
     }
 
-    const maxContextChars = availableForContext * 4;
-    const truncatedContext = contextSection.length > maxContextChars 
-      ? contextSection.substring(0, maxContextChars) + '\n\n[... context truncated for length ...]'
+    const [keptContext, droppedContext] = splitTextAtTokenCount(contextSection, availableForContext, tokenizer);
+    const truncatedContext = droppedContext
+      ? keptContext + '\n\n[... context truncated for length ...]'
       : contextSection;
 
     return truncatedContext + '\n\nQUERY:' + querySection;
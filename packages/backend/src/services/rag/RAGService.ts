@@ -7,20 +7,46 @@
  * @author ARYA RAG Team
  */
 
-import { LLMService } from '../llm/LLMService';
+import { LLMService, LLMStreamResponse } from '../llm/LLMService';
 import { LLMServiceFactory } from '../llm/LLMServiceFactory';
 import { EmbeddingService } from '../embedding/EmbeddingService';
-import { EmbeddingServiceFactory } from '../embedding/EmbeddingServiceFactory';
-import { VectorSearchService } from '../vector/VectorSearchService';
+import { EmbeddingModelService } from '../embedding/EmbeddingModelService';
+import { VectorSearchService, SearchMode, ExtendedSearchResult, relevanceScore } from '../vector/VectorSearchService';
 import { DatabaseClient } from '../../config/database';
-import { RAGRequest, RAGResponse, SourceReference, DocumentSource } from '@arya-rag/types';
+import { RAGRequest, RAGResponse, RAGStreamEvent, SourceReference, DocumentSource, ConversationMessage, RejectedCitation } from '@arya-rag/types';
 import { OllamaLLMService } from '../llm/OllamaLLMService';
 import { promptTemplateManager, QueryClassification, PromptConfig } from './PromptTemplates';
+import { Reranker, RerankerType, createReranker } from './Reranker';
+import { GroundingVerifier, GroundingVerifierType, createGroundingVerifier } from './GroundingVerifier';
+import { resolveCitations } from './CitationResolver';
+import { ConversationService } from '../conversation/ConversationService';
+import { AnswerCache } from './AnswerCache';
+import { ParentExpander } from './ParentExpander';
+import { countTokens, getTokenizer } from '../../utils/tokenCounter';
 
 export interface RAGConfig {
   // Search configuration
   maxSearchResults: number;
   similarityThreshold: number;
+  searchMode: SearchMode;
+  
+  // Reranking configuration
+  enableReranking: boolean;
+  reranker: RerankerType;
+  rerankTopN: number;           // Candidates retrieved and rescored before keeping maxResults
+  
+  // Grounding configuration
+  enableGroundingVerification: boolean; // Check each answer sentence against the retrieved chunks
+  groundingVerifier: GroundingVerifierType;
+  
+  // Conversation configuration
+  maxHistoryTurns: number;      // Prior question/answer pairs used for rewriting and prompting
+  enableQueryRewriting: boolean;
+  
+  // Answer cache configuration
+  enableAnswerCache: boolean;   // Reuse answers to semantically equivalent earlier questions
+  answerCacheSimilarity: number; // Minimum similarity between the two questions' embeddings
+  answerCacheMaxAgeHours: number;
   
   // Generation configuration
   maxResponseTokens: number;
@@ -29,6 +55,7 @@ export interface RAGConfig {
   // Context configuration
   maxContextTokens: number;
   includeSourceExcerpts: boolean;
+  enableParentExpansion: boolean; // Give the LLM the parent section of matched child chunks (parent-child indexing)
   
   // Citation configuration
   requireSourceCitations: boolean;
@@ -41,6 +68,14 @@ export interface RAGConfig {
   enablePromptOptimization: boolean;
 }
 
+/**
+ * Query vector plus the model that produced it, so search only matches chunks from the same model
+ */
+interface QueryEmbedding {
+  embedding: number[];
+  model: string;
+}
+
 export interface RAGStats {
   totalQueries: number;
   avgResponseTime: number;
@@ -48,12 +83,18 @@ export interface RAGStats {
   avgGenerationTime: number;
   avgSourcesPerResponse: number;
   successRate: number;
+  cacheHits: number;
 }
 
 export class RAGService {
   private llmService: LLMService;
-  private embeddingService: EmbeddingService;
+  private embeddingService?: EmbeddingService; // Fixed service; otherwise each user's active model is used
   private searchService: VectorSearchService;
+  private reranker?: Reranker;
+  private groundingVerifier?: GroundingVerifier;
+  private answerCache?: AnswerCache;
+  private parentExpander?: ParentExpander;
+  private conversationService: ConversationService;
   private config: RAGConfig;
   private stats: RAGStats;
 
@@ -70,10 +111,22 @@ export class RAGService {
     this.config = {
       maxSearchResults: config.maxSearchResults || 10,
       similarityThreshold: config.similarityThreshold || 0.65,
+      searchMode: config.searchMode || 'vector',
+      enableReranking: config.enableReranking ?? false,
+      reranker: config.reranker || 'lexical',
+      rerankTopN: config.rerankTopN || 20,
+      enableGroundingVerification: config.enableGroundingVerification ?? false,
+      groundingVerifier: config.groundingVerifier || 'lexical',
+      maxHistoryTurns: config.maxHistoryTurns ?? 3,
+      enableQueryRewriting: config.enableQueryRewriting ?? true,
+      enableAnswerCache: config.enableAnswerCache ?? false,
+      answerCacheSimilarity: config.answerCacheSimilarity || 0.95,
+      answerCacheMaxAgeHours: config.answerCacheMaxAgeHours || 24,
       maxResponseTokens: config.maxResponseTokens || (usingOllama ? 3000 : 1000),
       temperature: config.temperature || (usingOllama ? 0.1 : 0.7),
       maxContextTokens: config.maxContextTokens || (usingOllama ? 5000 : 3000),
       includeSourceExcerpts: config.includeSourceExcerpts ?? true,
+      enableParentExpansion: config.enableParentExpansion ?? false,
       requireSourceCitations: config.requireSourceCitations ?? true,
       maxSourcesPerResponse: config.maxSourcesPerResponse || 5,
       enableStructuredResponses: config.enableStructuredResponses ?? false,
@@ -84,15 +137,35 @@ export class RAGService {
 
     // Initialize services
     this.llmService = llmService || LLMServiceFactory.createFromEnvironment();
-    this.embeddingService = embeddingService || EmbeddingServiceFactory.createFromEnvironment();
+    this.embeddingService = embeddingService;
     this.searchService = searchService || new VectorSearchService();
+    if (this.config.enableReranking) {
+      this.reranker = createReranker(this.config.reranker, this.llmService);
+    }
+    if (this.config.enableGroundingVerification) {
+      this.groundingVerifier = createGroundingVerifier(this.config.groundingVerifier, this.llmService);
+    }
+    if (this.config.enableAnswerCache) {
+      this.answerCache = new AnswerCache({
+        similarityThreshold: this.config.answerCacheSimilarity,
+        maxAgeHours: this.config.answerCacheMaxAgeHours
+      });
+    }
+    if (this.config.enableParentExpansion) {
+      this.parentExpander = new ParentExpander(this.searchService);
+    }
+    this.conversationService = ConversationService.getInstance();
 
     // Log RAG configuration
-    const embeddingModel = ('config' in this.embeddingService) ? (this.embeddingService as any).config?.model : 'unknown';
+    const embeddingModel = this.embeddingService ? this.embeddingService.getModelName() : 'active embedding model per user';
     console.log(`🔍 RAG Service: ${embeddingModel} + ${this.llmService.constructor.name}`);
     console.log(`   Enhanced features: ${this.config.enableStructuredResponses ? 'Enabled' : 'Disabled'}`);
     console.log(`   Query classification: ${this.config.useQueryClassification ? 'Enabled' : 'Disabled'}`);
     console.log(`   JSON format: ${this.config.enforceJsonFormat ? 'Enabled' : 'Disabled'}`);
+    console.log(`   Reranking: ${this.reranker ? `${this.reranker.name} (top ${this.config.rerankTopN})` : 'Disabled'}`);
+    console.log(`   Grounding check: ${this.groundingVerifier ? this.groundingVerifier.name : 'Disabled'}`);
+    console.log(`   Answer cache: ${this.answerCache ? `similarity ≥ ${this.config.answerCacheSimilarity}, ${this.config.answerCacheMaxAgeHours}h` : 'Disabled'}`);
+    console.log(`   Parent expansion: ${this.parentExpander ? 'Enabled' : 'Disabled'}`);
 
     // Initialize stats
     this.stats = {
@@ -101,7 +174,8 @@ export class RAGService {
       avgSearchTime: 0,
       avgGenerationTime: 0,
       avgSourcesPerResponse: 0,
-      successRate: 1.0
+      successRate: 1.0,
+      cacheHits: 0
     };
 
   }
@@ -127,40 +201,53 @@ export class RAGService {
         console.log(`   Query type: ${queryClassification.type} (confidence: ${(queryClassification.confidence * 100).toFixed(1)}%)`);
       }
 
-      // Step 2: Generate query embedding
+      // Step 2: Resolve follow-up questions against the conversation
+      const conversation = await this.resolveConversation(request);
+
+      // Step 3: Generate query embedding
       const embeddingStart = Date.now();
-      const queryEmbedding = await this.generateQueryEmbedding(request.query);
+      const queryEmbedding = await this.generateQueryEmbedding(conversation.standaloneQuery, request.userId);
       const embeddingTime = Date.now() - embeddingStart;
+
+      const cacheScope = this.answerCache?.scopeFor(request, 'structured');
+      const cachedResponse = await this.findCachedAnswer(request, queryEmbedding, cacheScope, startTime);
+      if (cachedResponse) {
+        await this.recordCachedAnswer(request, cachedResponse, conversation.standaloneQuery);
+        return { ...cachedResponse, promptType: queryClassification?.type || 'general' };
+      }
       
-      // Step 3: Search for relevant chunks
+      // Step 4: Search for relevant chunks
       const searchStart = Date.now();
-      const searchResults = await this.searchRelevantChunks(
+      const searchResults = await this.expandParents(await this.searchRelevantChunks(
         queryEmbedding,
         request.userId,
         request.documentIds,
         request.maxResults || this.config.maxSearchResults,
-        request.query
-      );
+        conversation.standaloneQuery,
+        request.searchMode,
+        request.revisions,
+        request.workspaceIds
+      ));
       const searchTime = Date.now() - searchStart;
       
-      // Step 4: Prepare enhanced context
-      const context = this.prepareEnhancedContext(searchResults, queryClassification);
+      // Step 5: Prepare enhanced context; only the excerpts that fit can be cited
+      const { context, included } = this.prepareEnhancedContext(searchResults, queryClassification);
       
-      // Step 5: Generate structured response
+      // Step 6: Generate structured response (standalone query carries the conversation context)
       const generationStart = Date.now();
       const llmResponse = await this.generateStructuredResponse(
-        request.query,
+        conversation.standaloneQuery,
         context,
         queryClassification,
         request.responseStyle
       );
       const generationTime = Date.now() - generationStart;
       
-      // Step 6: Format enhanced response
+      // Step 7: Format enhanced response
       const response = this.formatEnhancedRAGResponse(
         request,
         llmResponse,
-        searchResults,
+        included,
         {
           searchTime,
           generationTime,
@@ -169,12 +256,14 @@ export class RAGService {
         },
         queryClassification
       );
+      await this.verifyGrounding(response, included);
 
       // Update statistics
       this.updateStats(response, searchTime, generationTime, true);
 
       // Save query to database
-      await this.saveQueryToDatabase(request, response);
+      await this.saveQueryToDatabase(request, response, queryEmbedding, cacheScope, included);
+      await this.recordConversationTurn(request, response, conversation.standaloneQuery);
 
       console.log(`✅ Enhanced RAG query completed in ${Date.now() - startTime}ms`);
       console.log(`   Query type: ${queryClassification?.type || 'general'}`);
@@ -225,39 +314,53 @@ export class RAGService {
     try {
       console.log(`🔍 RAG query: "${request.query.substring(0, 100)}${request.query.length > 100 ? '...' : ''}"`);
       
-      // Step 1: Generate query embedding
+      // Step 1: Resolve follow-up questions against the conversation
+      const conversation = await this.resolveConversation(request);
+
+      // Step 2: Generate query embedding
       const embeddingStart = Date.now();
-      const queryEmbedding = await this.generateQueryEmbedding(request.query);
+      const queryEmbedding = await this.generateQueryEmbedding(conversation.standaloneQuery, request.userId);
       const embeddingTime = Date.now() - embeddingStart;
+
+      const cacheScope = this.answerCache?.scopeFor(request, 'standard');
+      const cachedResponse = await this.findCachedAnswer(request, queryEmbedding, cacheScope, startTime);
+      if (cachedResponse) {
+        await this.recordCachedAnswer(request, cachedResponse, conversation.standaloneQuery);
+        return cachedResponse;
+      }
       
-      // Step 2: Search for relevant chunks
+      // Step 3: Search for relevant chunks
       const searchStart = Date.now();
-      const searchResults = await this.searchRelevantChunks(
+      const searchResults = await this.expandParents(await this.searchRelevantChunks(
         queryEmbedding,
         request.userId,
         request.documentIds,
         request.maxResults || this.config.maxSearchResults,
-        request.query
-      );
+        conversation.standaloneQuery,
+        request.searchMode,
+        request.revisions,
+        request.workspaceIds
+      ));
       const searchTime = Date.now() - searchStart;
       
-      // Step 3: Prepare context from search results
-      const context = this.prepareContext(searchResults);
+      // Step 4: Prepare context from search results; only the excerpts that fit can be cited
+      const { context, included } = this.prepareContext(searchResults);
       
-      // Step 4: Generate response with LLM
+      // Step 5: Generate response with LLM
       const generationStart = Date.now();
       const llmResponse = await this.generateResponse(
         request.query,
         context,
-        request.responseStyle
+        request.responseStyle,
+        conversation.history
       );
       const generationTime = Date.now() - generationStart;
       
-      // Step 5: Format response with citations
+      // Step 6: Format response with citations
       const response = this.formatRAGResponse(
         request,
         llmResponse,
-        searchResults,
+        included,
         {
           searchTime,
           generationTime,
@@ -266,11 +369,15 @@ export class RAGService {
         }
       );
 
+      // Step 7: Check each sentence of the answer against the retrieved chunks
+      await this.verifyGrounding(response, included);
+
       // Update statistics
       this.updateStats(response, searchTime, generationTime, true);
 
-      // Save query to database for analytics
-      await this.saveQueryToDatabase(request, response);
+      // Save query to database for analytics (and the answer cache)
+      await this.saveQueryToDatabase(request, response, queryEmbedding, cacheScope, included);
+      await this.recordConversationTurn(request, response, conversation.standaloneQuery);
 
       console.log(`✅ RAG query completed in ${Date.now() - startTime}ms`);
       console.log(`   Sources found: ${response.sources.length}`);
@@ -299,47 +406,410 @@ export class RAGService {
   }
 
   /**
-   * Generate embedding for the user query
+   * Retrieve the chunks a query would be answered from, best first, without generating an answer
+   * Applies the same threshold and reranking as a query; conversation context is not used
    */
-  private async generateQueryEmbedding(query: string): Promise<number[]> {
-    const response = await this.embeddingService.generateEmbedding({
+  async retrieve(request: RAGRequest): Promise<ExtendedSearchResult[]> {
+    const queryEmbedding = await this.generateQueryEmbedding(request.query, request.userId);
+
+    return this.searchRelevantChunks(
+      queryEmbedding,
+      request.userId,
+      request.documentIds,
+      request.maxResults || this.config.maxSearchResults,
+      request.query,
+      request.searchMode,
+      request.revisions,
+      request.workspaceIds
+    );
+  }
+
+  /**
+   * Process RAG query as a stream of events
+   * Emits retrieval results first, then answer tokens as the LLM produces them,
+   * then the final response with sources and confidence.
+   * Structured JSON responses are not streamed; this always uses the standard prompt.
+   */
+  async *streamQuery(request: RAGRequest): AsyncGenerator<RAGStreamEvent, void, unknown> {
+    const startTime = Date.now();
+
+    try {
+      console.log(`🔍 Streaming RAG query: "${request.query.substring(0, 100)}${request.query.length > 100 ? '...' : ''}"`);
+
+      // Step 1: Resolve follow-up questions against the conversation
+      const conversation = await this.resolveConversation(request);
+
+      // Step 2: Generate query embedding
+      const embeddingStart = Date.now();
+      const queryEmbedding = await this.generateQueryEmbedding(conversation.standaloneQuery, request.userId);
+      const embeddingTime = Date.now() - embeddingStart;
+
+      const cacheScope = this.answerCache?.scopeFor(request, 'standard');
+      const cachedResponse = await this.findCachedAnswer(request, queryEmbedding, cacheScope, startTime);
+      if (cachedResponse) {
+        yield {
+          type: 'retrieval',
+          sources: cachedResponse.sources,
+          totalSourcesFound: cachedResponse.totalSourcesFound ?? cachedResponse.sources.length,
+          searchTime: 0
+        };
+        yield { type: 'token', text: cachedResponse.answer };
+
+        cachedResponse.metadata = { ...cachedResponse.metadata, streamed: true };
+        await this.recordCachedAnswer(request, cachedResponse, conversation.standaloneQuery);
+        yield { type: 'complete', response: cachedResponse };
+        return;
+      }
+
+      // Step 3: Search for relevant chunks
+      const searchStart = Date.now();
+      const searchResults = await this.expandParents(await this.searchRelevantChunks(
+        queryEmbedding,
+        request.userId,
+        request.documentIds,
+        request.maxResults || this.config.maxSearchResults,
+        conversation.standaloneQuery,
+        request.searchMode,
+        request.revisions,
+        request.workspaceIds
+      ));
+      const searchTime = Date.now() - searchStart;
+
+      // Step 4: Prepare context from search results; only the excerpts that fit can be cited
+      const { context, included } = this.prepareContext(searchResults);
+
+      yield {
+        type: 'retrieval',
+        sources: this.buildSources(included),
+        totalSourcesFound: searchResults.length,
+        searchTime
+      };
+
+      // Step 5: Stream response tokens from LLM
+      const generationStart = Date.now();
+      let answerText = '';
+      let usage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+
+      for await (const chunk of this.streamResponse(request.query, context, request.responseStyle, conversation.history)) {
+        if (chunk.text) {
+          answerText += chunk.text;
+          yield { type: 'token', text: chunk.text };
+        }
+        if (chunk.usage) {
+          usage = chunk.usage;
+        }
+      }
+      const generationTime = Date.now() - generationStart;
+
+      // Step 6: Format response with citations
+      const response = this.formatRAGResponse(
+        request,
+        { text: answerText, usage },
+        included,
+        {
+          searchTime,
+          generationTime,
+          embeddingTime,
+          totalTime: Date.now() - startTime
+        }
+      );
+      response.metadata = { ...response.metadata, streamed: true };
+      await this.verifyGrounding(response, included);
+
+      this.updateStats(response, searchTime, generationTime, true);
+      await this.saveQueryToDatabase(request, response, queryEmbedding, cacheScope, included);
+      await this.recordConversationTurn(request, response, conversation.standaloneQuery);
+
+      console.log(`✅ Streaming RAG query completed in ${Date.now() - startTime}ms`);
+
+      yield { type: 'complete', response };
+
+    } catch (error) {
+      this.updateStats(null, 0, 0, false);
+
+      console.error(`❌ Streaming RAG query failed: ${error instanceof Error ? error.message : error}`);
+
+      yield {
+        type: 'error',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Load recent conversation turns and rewrite a follow-up into a standalone query
+   * Without a conversation (or prior turns) the query is used as-is
+   */
+  private async resolveConversation(request: RAGRequest): Promise<{
+    history: ConversationMessage[];
+    standaloneQuery: string;
+  }> {
+    if (!request.conversationId || this.config.maxHistoryTurns <= 0) {
+      return { history: [], standaloneQuery: request.query };
+    }
+
+    const history = await this.conversationService.getRecentMessages(
+      request.conversationId,
+      request.userId,
+      this.config.maxHistoryTurns * 2
+    );
+
+    if (history.length === 0 || !this.config.enableQueryRewriting) {
+      return { history, standaloneQuery: request.query };
+    }
+
+    const standaloneQuery = await this.rewriteFollowUpQuery(request.query, history);
+    if (standaloneQuery !== request.query) {
+      console.log(`   Rewritten query: "${standaloneQuery}"`);
+    }
+
+    return { history, standaloneQuery };
+  }
+
+  /**
+   * Rewrite a follow-up question into a standalone question using prior turns
+   * Falls back to the original question if the LLM call fails or returns nothing usable
+   */
+  private async rewriteFollowUpQuery(query: string, history: ConversationMessage[]): Promise<string> {
+    try {
+      const response = await this.llmService.generateCompletion({
+        systemPrompt: 'You rewrite follow-up questions so they can be understood without the conversation. Reply with the rewritten question only.',
+        prompt: `Conversation:
+${this.formatConversationHistory(history)}
+
+Follow-up question: ${query}
+
+Rewrite the follow-up question as a standalone question. Resolve references such as "it", "that" or "step 3" using the conversation, and keep document names, section numbers and identifiers exactly as written. If the question is already standalone, return it unchanged.`,
+        maxTokens: 100,
+        temperature: 0
+      });
+
+      const rewritten = response.text.trim().split('\n')[0].replace(/^["']|["']$/g, '').trim();
+      return rewritten.length > 0 && rewritten.length <= 1000 ? rewritten : query;
+
+    } catch (error) {
+      console.warn(`⚠️ Query rewriting failed, using original query: ${error instanceof Error ? error.message : error}`);
+      return query;
+    }
+  }
+
+  /**
+   * Format conversation messages as a transcript, trimming long answers
+   */
+  private formatConversationHistory(history: ConversationMessage[]): string {
+    return history.map(message => {
+      // [n] markers in earlier answers refer to that turn's context, not this one
+      const text = message.role === 'assistant' ? message.content.replace(/\[\d+\]/g, '') : message.content;
+      const content = message.role === 'assistant' && text.length > 600
+        ? `${text.substring(0, 600)}...`
+        : text;
+      return `${message.role === 'user' ? 'User' : 'Assistant'}: ${content}`;
+    }).join('\n');
+  }
+
+  /**
+   * Persist the question/answer turn to its conversation and tag the response with it
+   */
+  private async recordConversationTurn(
+    request: RAGRequest,
+    response: RAGResponse,
+    standaloneQuery: string
+  ): Promise<void> {
+    if (!request.conversationId) {
+      return;
+    }
+
+    response.metadata = {
+      ...response.metadata,
+      conversationId: request.conversationId,
+      standaloneQuery
+    };
+
+    try {
+      await this.conversationService.appendTurn(request.conversationId, request.userId, {
+        question: request.query,
+        answer: response.answer,
+        sources: response.sources,
+        rewrittenQuery: standaloneQuery,
+        metadata: { confidence: response.confidence }
+      });
+    } catch (error) {
+      console.error('Failed to save conversation turn:', error);
+      // Don't throw - the answer is still valid
+    }
+  }
+
+  /**
+   * Stored answer to an equivalent earlier question, flagged as cached, or null on a miss
+   */
+  private async findCachedAnswer(
+    request: RAGRequest,
+    queryEmbedding: QueryEmbedding,
+    cacheScope: string | undefined,
+    startTime: number
+  ): Promise<RAGResponse | null> {
+    if (!this.answerCache || !cacheScope) {
+      return null;
+    }
+
+    const cached = await this.answerCache.lookup(request, queryEmbedding.embedding, queryEmbedding.model, cacheScope);
+    if (!cached) {
+      return null;
+    }
+
+    const processingTime = Date.now() - startTime;
+    console.log(`♻️  Answer cache hit (similarity ${cached.similarity.toFixed(3)}): "${cached.cachedQuery.substring(0, 100)}"`);
+
+    return {
+      ...cached.response,
+      cached: true,
+      responseTime: processingTime,
+      metadata: {
+        ...cached.response.metadata,
+        searchTime: 0,
+        generationTime: 0,
+        processingTime,
+        cache: {
+          similarity: cached.similarity,
+          cachedQuery: cached.cachedQuery,
+          cachedAt: cached.cachedAt
+        }
+      }
+    };
+  }
+
+  /**
+   * Count, log and record a cached answer like a generated one (it is not stored as a new cache entry)
+   */
+  private async recordCachedAnswer(request: RAGRequest, response: RAGResponse, standaloneQuery: string): Promise<void> {
+    this.stats.cacheHits++;
+    this.updateStats(response, 0, 0, true);
+    await this.saveQueryToDatabase(request, response);
+    await this.recordConversationTurn(request, response, standaloneQuery);
+  }
+
+  /**
+   * Generate embedding for the user query with the model the user's chunks are embedded with
+   */
+  private async generateQueryEmbedding(query: string, userId: string): Promise<QueryEmbedding> {
+    const embeddingService = this.embeddingService ||
+      await EmbeddingModelService.getInstance().getEmbeddingService(userId);
+
+    const response = await embeddingService.generateEmbedding({
       text: query,
       metadata: { }
     });
     
-    return response.embedding;
+    return { embedding: response.embedding, model: response.model || embeddingService.getModelName() };
   }
 
   /**
    * Search for relevant document chunks
    */
   private async searchRelevantChunks(
-    queryEmbedding: number[],
+    queryEmbedding: QueryEmbedding,
     userId: string,
     documentIds?: string[],
     maxResults: number = 10,
-    queryText?: string
+    queryText?: string,
+    searchMode: SearchMode = this.config.searchMode,
+    revisions?: Record<string, number>,
+    workspaceIds?: string[]
   ) {
-    console.log(`🔍 Searching ${maxResults} chunks (threshold: ${this.config.similarityThreshold})`);
+    // Over-fetch candidates when reranking so the reranker can promote chunks below the cut
+    const shouldRerank = !!this.reranker && !!queryText;
+    const topK = shouldRerank ? Math.min(Math.max(maxResults, this.config.rerankTopN), 50) : maxResults;
+
+    console.log(`🔍 Searching ${topK} chunks (${searchMode}, threshold: ${this.config.similarityThreshold})`);
     
-    return await this.searchService.search(queryEmbedding, userId, {
-      topK: maxResults,
+    const searchResults = await this.searchService.search(queryEmbedding.embedding, userId, {
+      topK,
       similarityThreshold: this.config.similarityThreshold,
       documentIds,
       includeMetadata: true,
-      queryText
+      searchMode,
+      queryText,
+      revisions,
+      workspaceIds,
+      embeddingModel: queryEmbedding.model
     });
+
+    if (!shouldRerank) {
+      return searchResults;
+    }
+
+    return this.rerankResults(queryText!, searchResults, maxResults);
+  }
+
+  /**
+   * Replace matched child chunks with their parent sections for the context, within maxContextTokens
+   * Falls back to the matched chunks if the parents cannot be read
+   */
+  private async expandParents(searchResults: ExtendedSearchResult[]): Promise<ExtendedSearchResult[]> {
+    if (!this.parentExpander) {
+      return searchResults;
+    }
+
+    try {
+      return await this.parentExpander.expand(
+        searchResults,
+        this.config.maxContextTokens,
+        getTokenizer(this.llmService.getModelName())
+      );
+    } catch (error) {
+      console.warn(`⚠️ Parent expansion failed, using matched chunks: ${error instanceof Error ? error.message : error}`);
+      return searchResults;
+    }
+  }
+
+  /**
+   * Rescore search candidates with the configured reranker and keep the best maxResults
+   * Falls back to search order if the reranker fails
+   */
+  private async rerankResults(
+    query: string,
+    searchResults: ExtendedSearchResult[],
+    maxResults: number
+  ): Promise<ExtendedSearchResult[]> {
+    if (!this.reranker || searchResults.length === 0) {
+      return searchResults.slice(0, maxResults);
+    }
+
+    const rerankStart = Date.now();
+
+    try {
+      const scores = await this.reranker.score(query, searchResults);
+
+      const reranked = searchResults
+        .map((result, index) => ({
+          ...result,
+          rerankScore: scores[index],
+          originalRank: index + 1
+        }))
+        .sort((a, b) => b.rerankScore - a.rerankScore)
+        .slice(0, maxResults);
+
+      const promoted = reranked.filter((result, index) => result.originalRank > index + 1).length;
+      console.log(`🎯 Reranked ${searchResults.length} candidates with ${this.reranker.name} in ${Date.now() - rerankStart}ms (${promoted} promoted)`);
+
+      return reranked;
+
+    } catch (error) {
+      console.warn(`⚠️ Reranking failed, using search order: ${error instanceof Error ? error.message : error}`);
+      return searchResults.slice(0, maxResults);
+    }
   }
 
   /**
    * Prepare enhanced context with query-type awareness
+   * Returns the results whose excerpts fit in maxContextTokens, numbered [1]..[n] in the context
    */
   private prepareEnhancedContext(
     searchResults: any[],
     queryClassification?: QueryClassification
-  ): string {
+  ): { context: string; included: ExtendedSearchResult[] } {
     if (searchResults.length === 0) {
-      return 'No relevant information found in the documents.';
+      return { context: 'No relevant information found in the documents.', included: [] };
     }
 
     let contextHeader = 'Relevant information from the documents:\n\n';
@@ -354,8 +824,10 @@ export class RAGService {
     }
 
     let context = contextHeader;
+    const included: ExtendedSearchResult[] = [];
     let tokenCount = 0;
     const maxTokens = this.config.maxContextTokens;
+    const tokenizer = getTokenizer(this.llmService.getModelName());
 
     for (let i = 0; i < searchResults.length; i++) {
       const result = searchResults[i];
@@ -363,19 +835,19 @@ export class RAGService {
       // Enhanced formatting with hierarchy information
       let excerpt = '';
       if (queryClassification?.type === 'procedural') {
-        excerpt = `[PROCEDURE SOURCE]\nDocument: ${result.documentName}\nPage: ${result.pageNumber}`;
+        excerpt = `[${i + 1}] [PROCEDURE SOURCE]\nDocument: ${result.documentName}\nPage: ${result.pageNumber}`;
         if (result.sectionTitle) excerpt += `\nSection: ${result.sectionTitle}`;
-        excerpt += `\nSimilarity: ${(result.similarityScore * 100).toFixed(1)}%\nContent:\n${result.chunkText}\n\n`;
+        excerpt += `\nRelevance: ${(relevanceScore(result) * 100).toFixed(1)}%\nContent:\n${result.parentText || result.chunkText}\n\n`;
       } else if (queryClassification?.type === 'definitional') {
-        excerpt = `[DEFINITION SOURCE]\nDocument: ${result.documentName} (Page ${result.pageNumber})`;
+        excerpt = `[${i + 1}] [DEFINITION SOURCE]\nDocument: ${result.documentName} (Page ${result.pageNumber})`;
         if (result.sectionTitle) excerpt += `\n"${result.sectionTitle}"`;
-        excerpt += `\nContent: ${result.chunkText}\n\n`;
+        excerpt += `\nContent: ${result.parentText || result.chunkText}\n\n`;
       } else {
         // Standard format
-        excerpt = `Document: ${result.documentName}\nPage ${result.pageNumber}${result.sectionTitle ? ` - ${result.sectionTitle}` : ''}\nContent: ${result.chunkText}\n\n`;
+        excerpt = `[${i + 1}] Document: ${result.documentName}\nPage ${result.pageNumber}${result.sectionTitle ? ` - ${result.sectionTitle}` : ''}\nContent: ${result.parentText || result.chunkText}\n\n`;
       }
       
-      const excerptTokens = Math.ceil(excerpt.length / 4);
+      const excerptTokens = countTokens(excerpt, tokenizer);
       
       if (tokenCount + excerptTokens > maxTokens) {
         console.log(`✂️ Enhanced context limit: ${tokenCount} tokens (${i} sources)`);
@@ -384,9 +856,10 @@ export class RAGService {
       
       context += excerpt;
       tokenCount += excerptTokens;
+      included.push(result);
     }
 
-    return context;
+    return { context, included };
   }
 
   /**
@@ -409,7 +882,8 @@ export class RAGService {
       // Optimize prompt length if needed
       const optimizedPrompt = promptTemplateManager.optimizePromptLength(
         promptConfig.userPrompt,
-        this.config.maxContextTokens
+        this.config.maxContextTokens,
+        getTokenizer(this.llmService.getModelName())
       );
 
       // Try structured JSON generation for Ollama/Mistral
@@ -503,24 +977,50 @@ export class RAGService {
 
     // Extract sources from structured data or search results
     let sources: DocumentSource[] = [];
+    const rejected: RejectedCitation[] = [];
+
+    // Structured citations only count when they point at a retrieved page
+    const retrievedCitations = Array.isArray(jsonData.citations)
+      ? jsonData.citations.filter((citation: any) => {
+          const retrieved = searchResults.some(result =>
+            result.documentName === citation.source && result.pageNumber === citation.page
+          );
+          if (!retrieved) {
+            rejected.push({
+              citation: `${citation.source}, Page ${citation.page}`,
+              reason: `Page ${citation.page} of ${citation.source} is not in the retrieved context`
+            });
+          }
+          return retrieved;
+        })
+      : [];
     
-    if (jsonData.citations && Array.isArray(jsonData.citations)) {
-      sources = jsonData.citations.map((citation: any) => ({
-        documentName: citation.source,
-        pageNumber: citation.page,
-        excerpt: '',
-        confidence: this.findSimilarityScore(citation, searchResults),
-        sectionTitle: citation.section
-      }));
+    if (retrievedCitations.length > 0) {
+      sources = retrievedCitations.map((citation: any) => {
+        const ocrMatch = searchResults.find(result =>
+          result.ocr && result.documentName === citation.source && result.pageNumber === citation.page
+        );
+        const pageMatch = searchResults.find(result =>
+          result.documentName === citation.source && result.pageNumber === citation.page
+        );
+        return {
+          documentId: pageMatch?.documentId,
+          chunkId: pageMatch?.chunkId,
+          documentName: citation.source,
+          pageNumber: citation.page,
+          pageStart: pageMatch?.pagePositionStart,
+          pageEnd: pageMatch?.pagePositionEnd,
+          excerpt: '',
+          confidence: this.findSimilarityScore(citation, searchResults),
+          sectionTitle: citation.section,
+          ocr: ocrMatch ? true : undefined,
+          ocrConfidence: ocrMatch?.ocrConfidence,
+          revision: pageMatch?.revision
+        };
+      });
     } else {
       // Fall back to search results
-      sources = searchResults.slice(0, this.config.maxSourcesPerResponse).map(result => ({
-        documentName: result.documentName,
-        pageNumber: result.pageNumber,
-        excerpt: this.config.includeSourceExcerpts ? this.extractExcerpt(result.chunkText) : '',
-        confidence: result.similarityScore,
-        sectionTitle: result.sectionTitle
-      }));
+      sources = this.buildSources(searchResults);
     }
 
     // Use structured confidence or calculate it
@@ -537,12 +1037,18 @@ export class RAGService {
       });
     }
 
-    // Ensure inline citations are present in the response text
-    responseText = this.injectInlineCitations(responseText, sources, searchResults);
+    // Resolve inline [n] markers; an answer without any cites the best retrieved excerpts at the end
+    const resolved = resolveCitations(responseText, searchResults);
+    const cited = resolved.citations.length > 0 || searchResults.length === 0
+      ? resolved
+      : resolveCitations(this.appendTopCitations(resolved.answer, searchResults), searchResults);
+    rejected.push(...resolved.rejected);
+    this.logRejectedCitations(rejected);
 
     return {
-      answer: responseText,
+      answer: cited.answer,
       sources,
+      citations: cited.citations,
       confidence,
       responseTime: timing.totalTime,
       metadata: {
@@ -556,7 +1062,9 @@ export class RAGService {
         queryType: queryClassification?.type,
         queryConfidence: queryClassification?.confidence,
         structuredResponse: true,
-        sectionsReferenced: jsonData.sections
+        sectionsReferenced: jsonData.sections,
+        reranking: this.buildRerankMetadata(searchResults),
+        rejectedCitations: rejected.length > 0 ? rejected : undefined
       }
     };
   }
@@ -577,7 +1085,7 @@ export class RAGService {
       result.documentName === citation.source && 
       result.pageNumber === citation.page
     );
-    return match?.similarityScore || 0.8; // Default similarity
+    return match ? relevanceScore(match) : 0.8; // Default similarity
   }
 
   /**
@@ -631,90 +1139,51 @@ export class RAGService {
   }
 
   /**
-   * Helper method to inject inline citations into response text
-   * Ensures consistent citation formatting across all LLM providers
+   * Cite the one or two most relevant excerpts at the end of an answer that has no citations
    */
-  private injectInlineCitations(
-    responseText: string, 
-    citations: DocumentSource[],
-    searchResults?: any[]
-  ): string {
-    // Clean up the response text first by removing incorrect citations
-    let cleanedText = this.cleanIncorrectCitations(responseText);
-
-    // If response already contains proper inline citations after cleaning, return as-is
-    if (cleanedText.includes('(') && cleanedText.includes(', Page ')) {
-      return cleanedText;
-    }
-
-    // If no citations available, return cleaned text
-    if (!citations || citations.length === 0) {
-      return cleanedText;
-    }
-
-    // Only use the top 1-2 most relevant citations instead of all citations
-    const topCitations = citations
-      .sort((a, b) => (b.confidence || 0) - (a.confidence || 0))
-      .slice(0, Math.min(2, citations.length));
-
-    // Create a map of unique citations with their inline format
-    const citationMap = new Map<string, string>();
-    topCitations.forEach(citation => {
-      const key = `${citation.documentName}:${citation.pageNumber}`;
-      const inlineFormat = `(${citation.documentName}, Page ${citation.pageNumber})`;
-      citationMap.set(key, inlineFormat);
-    });
-
-    // Get unique inline citations
-    const inlineCitations = Array.from(citationMap.values());
-
-    // For simple responses, just add the best citation at the end
-    const trimmed = cleanedText.replace(/\.$/, '');
-    if (inlineCitations.length === 1) {
-      return `${trimmed} ${inlineCitations[0]}.`;
-    } else if (inlineCitations.length === 2) {
-      // For two citations, add both at the end
-      return `${trimmed} ${inlineCitations.join(' ')}.`;
-    } else {
-      // Fallback - no citations
-      return cleanedText;
-    }
+  private appendTopCitations(responseText: string, searchResults: any[]): string {
+    const markers = searchResults
+      .map((result, index) => ({ marker: index + 1, score: relevanceScore(result) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, 2)
+      .map(({ marker }) => marker)
+      .sort((a, b) => a - b)
+      .map(marker => `[${marker}]`)
+      .join('');
+
+    return `${responseText.trimEnd().replace(/\.$/, '')} ${markers}.`;
   }
 
   /**
-   * Clean up incorrect citations from Ollama responses
-   * Removes patterns like (1.2), (1.1), etc. that are not proper document citations
+   * Log citations removed because they pointed outside the retrieved context
    */
-  private cleanIncorrectCitations(text: string): string {
-    // Remove section references like (1.2), (1.1), (2.3.1), etc.
-    // But preserve proper citations like (Document Name, Page X)
-    return text
-      // Remove standalone section references in parentheses
-      .replace(/\s*\(\d+(?:\.\d+)*\)/g, '')
-      // Clean up any double spaces left behind
-      .replace(/\s+/g, ' ')
-      // Clean up any trailing spaces
-      .trim();
+  private logRejectedCitations(rejected: RejectedCitation[]): void {
+    if (rejected.length > 0) {
+      console.warn(`⚠️ Removed ${rejected.length} citation(s) outside the retrieved context: ${rejected.map(r => r.citation).join(', ')}`);
+    }
   }
 
   /**
    * Prepare context from search results for LLM (backward compatibility)
+   * Returns the results whose excerpts fit in maxContextTokens, numbered [1]..[n] in the context
    */
-  private prepareContext(searchResults: any[]): string {
+  private prepareContext(searchResults: any[]): { context: string; included: ExtendedSearchResult[] } {
     if (searchResults.length === 0) {
-      return 'No relevant information found in the documents.';
+      return { context: 'No relevant information found in the documents.', included: [] };
     }
 
     let context = 'Relevant information from the documents:\n\n';
+    const included: ExtendedSearchResult[] = [];
     let tokenCount = 0;
     const maxTokens = this.config.maxContextTokens;
+    const tokenizer = getTokenizer(this.llmService.getModelName());
 
     for (let i = 0; i < searchResults.length; i++) {
       const result = searchResults[i];
-      const excerpt = `Document: ${result.documentName}\nPage ${result.pageNumber}${result.sectionTitle ? ` - ${result.sectionTitle}` : ''}\nContent: ${result.chunkText}\n\n`;
+      // Excerpts are numbered so the answer can cite them as [n]
+      const excerpt = `[${i + 1}] Document: ${result.documentName}\nPage ${result.pageNumber}${result.sectionTitle ? ` - ${result.sectionTitle}` : ''}\nContent: ${result.parentText || result.chunkText}\n\n`;
       
-      // Estimate tokens (rough approximation)
-      const excerptTokens = Math.ceil(excerpt.length / 4);
+      const excerptTokens = countTokens(excerpt, tokenizer);
       
       if (tokenCount + excerptTokens > maxTokens) {
         console.log(`✂️ Context limit: ${tokenCount} tokens (${i} sources)`);
@@ -723,9 +1192,10 @@ export class RAGService {
       
       context += excerpt;
       tokenCount += excerptTokens;
+      included.push(result);
     }
 
-    return context;
+    return { context, included };
   }
 
   /**
@@ -734,10 +1204,11 @@ export class RAGService {
   private async generateResponse(
     query: string,
     context: string,
-    responseStyle?: string
+    responseStyle?: string,
+    history: ConversationMessage[] = []
   ): Promise<{ text: string; usage: any }> {
     const systemPrompt = this.buildSystemPrompt(responseStyle);
-    const prompt = this.buildUserPrompt(query, context);
+    const prompt = this.buildUserPrompt(query, context, history);
 
     const response = await this.llmService.generateCompletion({
       prompt,
@@ -752,6 +1223,37 @@ export class RAGService {
     };
   }
 
+  /**
+   * Stream response from LLM, falling back to a single chunk when the
+   * provider does not implement streaming
+   */
+  private async *streamResponse(
+    query: string,
+    context: string,
+    responseStyle?: string,
+    history: ConversationMessage[] = []
+  ): AsyncGenerator<LLMStreamResponse, void, unknown> {
+    const llmRequest = {
+      prompt: this.buildUserPrompt(query, context, history),
+      systemPrompt: this.buildSystemPrompt(responseStyle),
+      maxTokens: this.config.maxResponseTokens,
+      temperature: this.config.temperature
+    };
+
+    if (!this.llmService.generateStreamingCompletion) {
+      const response = await this.llmService.generateCompletion(llmRequest);
+      yield {
+        text: response.text,
+        isComplete: true,
+        finishReason: response.finishReason,
+        usage: response.usage
+      };
+      return;
+    }
+
+    yield* await this.llmService.generateStreamingCompletion(llmRequest);
+  }
+
   /**
    * Build system prompt for LLM
    */
@@ -760,10 +1262,10 @@ export class RAGService {
 
 Your responsibilities:
 1. Answer questions accurately using only the provided information
-2. Always cite your sources with page numbers when making claims
+2. Always cite your sources when making claims
 3. If information is not in the documents, clearly state that
 4. Be precise and professional in your responses
-5. When referencing information, use the format: "(Document Name, Page X)"
+5. Cite the numbered excerpt a statement comes from right after it, e.g. "[1]" or "[2][3]"
 
 `;
 
@@ -772,25 +1274,30 @@ Your responsibilities:
     }
 
     if (this.config.requireSourceCitations) {
-      systemPrompt += `IMPORTANT: You must include page citations for all factual claims. Use the exact document names and page numbers provided.\n\n`;
+      systemPrompt += `IMPORTANT: You must include a citation for every factual claim. Only use the excerpt numbers given in the context.\n\n`;
     }
 
     return systemPrompt;
   }
 
   /**
-   * Build user prompt combining query and context
+   * Build user prompt combining query, context and recent conversation turns
    */
-  private buildUserPrompt(query: string, context: string): string {
-    return `${context}
+  private buildUserPrompt(query: string, context: string, history: ConversationMessage[] = []): string {
+    const conversation = history.length > 0
+      ? `\n\nPrevious conversation:\n${this.formatConversationHistory(history)}`
+      : '';
+
+    return `${context}${conversation}
 
 Question: ${query}
 
-Please answer the question based on the information provided above. Remember to cite your sources with page numbers.`;
+Please answer the question based on the information provided above. Remember to cite your sources with their [n] excerpt numbers.`;
   }
 
   /**
    * Format the final RAG response
+   * searchResults are the results given to the LLM as context, so markers past them are rejected
    */
   private formatRAGResponse(
     request: RAGRequest,
@@ -799,23 +1306,19 @@ Please answer the question based on the information provided above. Remember to
     timing: { searchTime: number; generationTime: number; embeddingTime: number; totalTime: number }
   ): RAGResponse {
     // Extract source references
-    const sources: DocumentSource[] = searchResults.slice(0, this.config.maxSourcesPerResponse).map(result => ({
-      documentName: result.documentName,
-      pageNumber: result.pageNumber,
-      excerpt: this.config.includeSourceExcerpts ? this.extractExcerpt(result.chunkText) : '',
-      confidence: result.similarityScore,
-      sectionTitle: result.sectionTitle
-    }));
+    const sources = this.buildSources(searchResults);
 
     // Calculate confidence based on source quality and similarity
     const confidence = this.calculateConfidence(searchResults, llmResponse.text);
 
-    // Let the AI handle citations naturally through the system prompt
-    const responseText = llmResponse.text;
+    // Resolve [n] markers to chunks and page spans, dropping any outside the retrieved context
+    const { answer, citations, rejected } = resolveCitations(llmResponse.text, searchResults);
+    this.logRejectedCitations(rejected);
 
     return {
-      answer: responseText,
+      answer,
       sources,
+      citations,
       confidence,
       responseTime: timing.totalTime,
       metadata: {
@@ -825,11 +1328,85 @@ Please answer the question based on the information provided above. Remember to
         embeddingTime: timing.embeddingTime,
         tokensUsed: llmResponse.usage.totalTokens,
         sourcesFound: searchResults.length,
-        model: this.llmService.getStats().totalRequests > 0 ? 'configured' : 'unknown'
+        model: this.llmService.getStats().totalRequests > 0 ? 'configured' : 'unknown',
+        reranking: this.buildRerankMetadata(searchResults),
+        rejectedCitations: rejected.length > 0 ? rejected : undefined
+      }
+    };
+  }
+
+  /**
+   * Attach a per-sentence support map to the response and fold it into confidence
+   * Skipped when disabled; a failing verifier leaves the response unchanged
+   */
+  private async verifyGrounding(response: RAGResponse, searchResults: ExtendedSearchResult[]): Promise<void> {
+    if (!this.groundingVerifier || searchResults.length === 0) {
+      return;
+    }
+
+    try {
+      const verifyStart = Date.now();
+      // Check against what the LLM was given, which is the parent section for expanded matches
+      const grounding = await this.groundingVerifier.verify(
+        response.answer,
+        searchResults.map(result => result.parentText ? { ...result, chunkText: result.parentText } : result)
+      );
+
+      response.metadata = { ...response.metadata, grounding };
+      if (grounding.claims.length > 0) {
+        response.confidence = Math.max(0.1, Math.min(1.0, response.confidence * 0.6 + grounding.supportedRatio * 0.4));
       }
+
+      console.log(`🧾 Grounding (${grounding.verifier}): ${grounding.claims.length - grounding.unsupportedCount}/${grounding.claims.length} claims supported in ${Date.now() - verifyStart}ms`);
+      if (grounding.unsupportedCount > 0) {
+        console.warn(`⚠️ ${grounding.unsupportedCount} answer sentence(s) not found in the retrieved sources`);
+      }
+
+    } catch (error) {
+      console.warn(`⚠️ Grounding verification failed: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  /**
+   * Summarize reranker scores for response metadata (undefined when reranking did not run)
+   */
+  private buildRerankMetadata(searchResults: any[]) {
+    if (!this.reranker || !searchResults.some(result => result.rerankScore !== undefined)) {
+      return undefined;
+    }
+
+    return {
+      reranker: this.reranker.name,
+      scores: searchResults.map(result => ({
+        chunkId: result.chunkId,
+        pageNumber: result.pageNumber,
+        originalRank: result.originalRank,
+        similarity: result.similarityScore,
+        rerankScore: result.rerankScore
+      }))
     };
   }
 
+  /**
+   * Build source references from the top search results
+   */
+  private buildSources(searchResults: any[]): DocumentSource[] {
+    return searchResults.slice(0, this.config.maxSourcesPerResponse).map(result => ({
+      documentId: result.documentId,
+      chunkId: result.chunkId,
+      documentName: result.documentName,
+      pageNumber: result.pageNumber,
+      pageStart: result.pagePositionStart,
+      pageEnd: result.pagePositionEnd,
+      excerpt: this.config.includeSourceExcerpts ? this.extractExcerpt(result.chunkText) : '',
+      confidence: relevanceScore(result),
+      sectionTitle: result.sectionTitle,
+      ocr: result.ocr,
+      ocrConfidence: result.ocrConfidence,
+      revision: result.revision
+    }));
+  }
+
   /**
    * Extract a concise excerpt from chunk text
    */
@@ -857,8 +1434,8 @@ Please answer the question based on the information provided above. Remember to
       return 0.1; // Very low confidence with no sources
     }
 
-    // Average similarity score of top results
-    const avgSimilarity = searchResults.slice(0, 3).reduce((sum, r) => sum + r.similarityScore, 0) / Math.min(3, searchResults.length);
+    // Average relevance of top results (full-text rank for keyword-only matches)
+    const avgSimilarity = searchResults.slice(0, 3).reduce((sum, r) => sum + relevanceScore(r), 0) / Math.min(3, searchResults.length);
     
     // Number of sources factor
     const sourcesFactor = Math.min(searchResults.length / 5, 1); // 0 to 1
@@ -874,19 +1451,40 @@ Please answer the question based on the information provided above. Remember to
 
   /**
    * Save query and response to database for analytics
+   * With the answer cache enabled, a generated answer is stored with its question embedding for reuse.
    */
-  private async saveQueryToDatabase(request: RAGRequest, response: RAGResponse): Promise<void> {
+  private async saveQueryToDatabase(
+    request: RAGRequest,
+    response: RAGResponse,
+    queryEmbedding?: QueryEmbedding,
+    cacheScope?: string,
+    contextResults: ExtendedSearchResult[] = []
+  ): Promise<void> {
     try {
       const db = DatabaseClient.getInstance().getClient();
+      const cacheColumns = this.answerCache && queryEmbedding && cacheScope && !response.cached
+        ? this.answerCache.columnsFor(
+            response,
+            queryEmbedding.embedding,
+            queryEmbedding.model,
+            cacheScope,
+            contextResults.map(result => result.documentId)
+          )
+        : {};
       
-      await (db as any).from('user_queries').insert({
+      const { error } = await (db as any).from('user_queries').insert({
         user_id: request.userId,
         query_text: request.query,
         response_text: response.answer,
         sources: response.sources,
         confidence_score: response.confidence,
-        processing_time_ms: response.metadata?.processingTime || response.responseTime
+        processing_time_ms: response.metadata?.processingTime || response.responseTime,
+        ...cacheColumns
       });
+
+      if (error) {
+        throw new Error(error.message);
+      }
     } catch (error) {
       console.error('Failed to save query to database:', error);
       // Don't throw - this is non-critical
@@ -931,6 +1529,13 @@ Please answer the question based on the information provided above. Remember to
     return { ...this.stats };
   }
 
+  /**
+   * Get the effective configuration, with defaults applied
+   */
+  getConfig(): RAGConfig {
+    return { ...this.config };
+  }
+
   /**
    * Test RAG pipeline end-to-end
    */
@@ -951,7 +1556,8 @@ Please answer the question based on the information provided above. Remember to
 
     try {
       // Test embedding
-      await this.embeddingService.generateEmbedding({ text: 'test query' });
+      const embeddingService = this.embeddingService || await EmbeddingModelService.getInstance().getEmbeddingService();
+      await embeddingService.generateEmbedding({ text: 'test query' });
       stages.embedding = true;
 
       // Test search (may not have data, but should not crash)
@@ -0,0 +1,133 @@
+/**
+ * Rerankers for RAG retrieval
+ *
+ * Rescore search candidates against the query before context assembly, so the
+ * chunks that actually answer the question are not crowded out of the context window.
+ *
+ * @author ARYA RAG Team
+ */
+
+import { LLMService } from '../llm/LLMService';
+import { ExtendedSearchResult, relevanceScore } from '../vector/VectorSearchService';
+
+export type RerankerType = 'llm' | 'lexical';
+
+/**
+ * Scores candidates for a query
+ * Returns one score (0-1, higher is more relevant) per candidate, in candidate order
+ */
+export interface Reranker {
+  readonly name: string;
+  score(query: string, candidates: ExtendedSearchResult[]): Promise<number[]>;
+}
+
+// Common words that carry no signal for overlap scoring
+export const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'do', 'does', 'for', 'from', 'how', 'i',
+  'in', 'is', 'it', 'of', 'on', 'or', 'should', 'that', 'the', 'this', 'to', 'was', 'what',
+  'when', 'where', 'which', 'who', 'why', 'with', 'you'
+]);
+
+/**
+ * Lowercase terms without stop words; keeps dotted identifiers such as "4.2.3" intact
+ */
+export function tokenizeTerms(text: string): Set<string> {
+  const terms = text.toLowerCase().match(/[a-z0-9]+(?:[.-][a-z0-9]+)*/g) || [];
+  return new Set(terms.filter(term => !STOP_WORDS.has(term)));
+}
+
+/**
+ * Deterministic lexical-overlap reranker
+ * Score is the fraction of distinct query terms present in the chunk (section title included).
+ * No model calls, so results are reproducible in tests.
+ */
+export class LexicalOverlapReranker implements Reranker {
+  readonly name = 'lexical';
+
+  async score(query: string, candidates: ExtendedSearchResult[]): Promise<number[]> {
+    const queryTerms = tokenizeTerms(query);
+    if (queryTerms.size === 0) {
+      return candidates.map(() => 0);
+    }
+
+    return candidates.map(candidate => {
+      const chunkTerms = tokenizeTerms(`${candidate.sectionTitle || ''} ${candidate.chunkText}`);
+      let matched = 0;
+      queryTerms.forEach(term => {
+        if (chunkTerms.has(term)) matched++;
+      });
+      return matched / queryTerms.size;
+    });
+  }
+}
+
+/**
+ * LLM-as-judge reranker
+ * Asks the configured LLM to rate each candidate 0-10 for relevance to the query.
+ * Candidates whose rating cannot be parsed keep their retrieval relevance as the score.
+ */
+export class LLMJudgeReranker implements Reranker {
+  readonly name = 'llm';
+  private llmService: LLMService;
+  private concurrency: number;
+  private maxPassageChars: number;
+
+  constructor(llmService: LLMService, concurrency: number = 4, maxPassageChars: number = 1500) {
+    this.llmService = llmService;
+    this.concurrency = concurrency;
+    this.maxPassageChars = maxPassageChars;
+  }
+
+  async score(query: string, candidates: ExtendedSearchResult[]): Promise<number[]> {
+    const scores: number[] = new Array(candidates.length);
+
+    // Score in small batches to avoid flooding a local model
+    for (let i = 0; i < candidates.length; i += this.concurrency) {
+      const batch = candidates.slice(i, i + this.concurrency);
+      const batchScores = await Promise.all(batch.map(candidate => this.judge(query, candidate)));
+      batchScores.forEach((score, j) => {
+        scores[i + j] = score;
+      });
+    }
+
+    return scores;
+  }
+
+  private async judge(query: string, candidate: ExtendedSearchResult): Promise<number> {
+    const passage = candidate.chunkText.substring(0, this.maxPassageChars);
+
+    try {
+      const response = await this.llmService.generateCompletion({
+        systemPrompt: 'You grade search results. Reply with a single integer from 0 to 10 and nothing else.',
+        prompt: `Question: ${query}\n\nPassage (page ${candidate.pageNumber}):\n${passage}\n\nHow relevant is the passage for answering the question? 0 = unrelated, 10 = directly answers it.`,
+        maxTokens: 5,
+        temperature: 0
+      });
+
+      const rating = parseFloat(response.text.match(/\d+(?:\.\d+)?/)?.[0] || '');
+      if (Number.isNaN(rating)) {
+        return relevanceScore(candidate);
+      }
+
+      return Math.min(Math.max(rating, 0), 10) / 10;
+
+    } catch (error) {
+      console.warn(`⚠️ LLM rerank failed for chunk ${candidate.chunkId}: ${error instanceof Error ? error.message : error}`);
+      return relevanceScore(candidate);
+    }
+  }
+}
+
+/**
+ * Create a reranker by type
+ */
+export function createReranker(type: RerankerType, llmService: LLMService): Reranker {
+  switch (type) {
+    case 'llm':
+      return new LLMJudgeReranker(llmService);
+    case 'lexical':
+      return new LexicalOverlapReranker();
+    default:
+      throw new Error(`Unsupported reranker: ${type}`);
+  }
+}
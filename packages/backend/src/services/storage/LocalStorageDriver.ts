@@ -0,0 +1,168 @@
+/**
+ * Local Filesystem Storage Driver
+ *
+ * Stores files in a directory on local disk, for machines without Supabase Storage or an
+ * object store. Files live under <root>/objects/<path>; the MIME type and checksum of each
+ * file are kept in <root>/metadata/<path>.json. Files are written to a temporary name and
+ * renamed into place, so a crash mid-upload never leaves a partial file at the path.
+ *
+ * @author ARYA RAG Team
+ */
+
+import { promises as fs, constants } from 'fs';
+import { dirname, join, resolve, sep } from 'path';
+import { StorageDriver, StorageDriverType, StoredObject, StoredObjectInfo, PutObjectOptions } from './StorageDriver.js';
+
+interface LocalObjectMetadata {
+  mimeType: string;
+  checksum: string;
+}
+
+export class LocalStorageDriver extends StorageDriver {
+  readonly driver: StorageDriverType = 'local';
+  private root: string;
+
+  constructor(root: string = './data/storage') {
+    super();
+    this.root = resolve(root);
+    console.log(`📁 Local file storage: ${this.root}`);
+  }
+
+  async putObject(path: string, buffer: Buffer, options: PutObjectOptions): Promise<void> {
+    const objectPath = this.objectPath(path);
+    if (!options.overwrite && await this.exists(objectPath)) {
+      throw new Error('The resource already exists');
+    }
+
+    const metadata: LocalObjectMetadata = { mimeType: options.mimeType, checksum: options.checksum };
+    await this.writeAtomic(this.metadataPath(path), Buffer.from(JSON.stringify(metadata)));
+    await this.writeAtomic(objectPath, buffer);
+  }
+
+  async getObject(path: string): Promise<StoredObject> {
+    const objectPath = this.objectPath(path);
+
+    let buffer: Buffer;
+    try {
+      buffer = await fs.readFile(objectPath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new Error('Object not found');
+      }
+      throw error;
+    }
+
+    const [stats, metadata] = await Promise.all([fs.stat(objectPath), this.readMetadata(path)]);
+    return {
+      buffer,
+      mimeType: metadata?.mimeType || 'application/pdf',
+      lastModified: stats.mtime,
+      checksum: metadata?.checksum
+    };
+  }
+
+  async deleteObject(path: string): Promise<void> {
+    await fs.rm(this.objectPath(path), { force: true });
+    await fs.rm(this.metadataPath(path), { force: true });
+  }
+
+  async statObject(path: string): Promise<StoredObjectInfo | null> {
+    const objectPath = this.objectPath(path);
+
+    let stats;
+    try {
+      stats = await fs.stat(objectPath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+
+    const metadata = await this.readMetadata(path);
+    return {
+      path,
+      name: path.split('/').pop() || path,
+      size: stats.size,
+      lastModified: stats.mtime,
+      mimeType: metadata?.mimeType || 'application/pdf',
+      checksum: metadata?.checksum
+    };
+  }
+
+  async listObjects(folder: string, limit: number): Promise<StoredObjectInfo[]> {
+    let entries;
+    try {
+      entries = await fs.readdir(this.objectPath(folder), { withFileTypes: true });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const objects = await Promise.all(
+      entries
+        .filter(entry => entry.isFile() && !entry.name.endsWith('.tmp'))
+        .map(entry => this.statObject(`${folder}/${entry.name}`))
+    );
+
+    return objects
+      .filter((object): object is StoredObjectInfo => object !== null)
+      .sort((a, b) => b.lastModified.getTime() - a.lastModified.getTime())
+      .slice(0, limit);
+  }
+
+  async testConnection(): Promise<boolean> {
+    try {
+      await fs.mkdir(join(this.root, 'objects'), { recursive: true });
+      await fs.access(join(this.root, 'objects'), constants.W_OK);
+      return true;
+    } catch (error) {
+      console.error(`❌ Local file storage is not writable: ${error instanceof Error ? error.message : error}`);
+      return false;
+    }
+  }
+
+  private objectPath(path: string): string {
+    return this.resolveUnder('objects', path);
+  }
+
+  private metadataPath(path: string): string {
+    return this.resolveUnder('metadata', `${path}.json`);
+  }
+
+  private resolveUnder(area: string, path: string): string {
+    this.assertValidPath(path);
+    const base = join(this.root, area);
+    const fullPath = resolve(base, path);
+    if (!fullPath.startsWith(base + sep)) {
+      throw new Error(`Invalid storage path: ${path}`);
+    }
+    return fullPath;
+  }
+
+  private async readMetadata(path: string): Promise<LocalObjectMetadata | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.metadataPath(path), 'utf-8'));
+    } catch {
+      return null;
+    }
+  }
+
+  private async exists(fullPath: string): Promise<boolean> {
+    try {
+      await fs.access(fullPath);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private async writeAtomic(fullPath: string, buffer: Buffer): Promise<void> {
+    await fs.mkdir(dirname(fullPath), { recursive: true });
+    const tmpPath = `${fullPath}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(tmpPath, buffer);
+    await fs.rename(tmpPath, fullPath);
+  }
+}
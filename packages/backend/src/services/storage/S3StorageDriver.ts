@@ -0,0 +1,264 @@
+/**
+ * S3-Compatible Storage Driver
+ *
+ * Stores files in a bucket of an S3-compatible object store (MinIO, AWS S3, Ceph RGW...)
+ * through the plain REST API with AWS Signature Version 4. Path-style addressing is the
+ * default since MinIO and most self-hosted stores serve buckets under the endpoint path.
+ * The checksum is kept in the x-amz-meta-sha256 object header.
+ *
+ * @author ARYA RAG Team
+ */
+
+import { createHash, createHmac } from 'crypto';
+import { StorageDriver, StorageDriverType, StoredObject, StoredObjectInfo, PutObjectOptions } from './StorageDriver.js';
+
+export interface S3StorageDriverConfig {
+  endpoint: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  forcePathStyle: boolean;
+  timeoutMs: number;
+}
+
+interface S3Request {
+  method: 'GET' | 'PUT' | 'HEAD' | 'DELETE';
+  key?: string;
+  query?: Record<string, string>;
+  headers?: Record<string, string>;
+  body?: Buffer;
+}
+
+/**
+ * URI encoding as required by SigV4 (RFC 3986 unreserved characters only)
+ */
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function sha256Hex(data: string | Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac('sha256', key).update(data).digest();
+}
+
+function xmlValue(xml: string, tag: string): string | undefined {
+  const match = xml.match(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`));
+  return match?.[1]
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+export class S3StorageDriver extends StorageDriver {
+  readonly driver: StorageDriverType = 's3';
+  private config: S3StorageDriverConfig;
+
+  constructor(config: Partial<S3StorageDriverConfig> = {}) {
+    super();
+    this.config = {
+      endpoint: (config.endpoint || 'http://localhost:9000').replace(/\/$/, ''),
+      region: config.region || 'us-east-1',
+      bucket: config.bucket || 'documents',
+      accessKeyId: config.accessKeyId || '',
+      secretAccessKey: config.secretAccessKey || '',
+      forcePathStyle: config.forcePathStyle ?? true,
+      timeoutMs: config.timeoutMs || 60000
+    };
+
+    if (!this.config.accessKeyId || !this.config.secretAccessKey) {
+      throw new Error('S3 storage requires S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY');
+    }
+
+    console.log(`🪣 S3 storage: ${this.config.endpoint} (bucket ${this.config.bucket})`);
+  }
+
+  async putObject(path: string, buffer: Buffer, options: PutObjectOptions): Promise<void> {
+    this.assertValidPath(path);
+
+    const response = await this.request({
+      method: 'PUT',
+      key: path,
+      body: buffer,
+      headers: {
+        'content-type': options.mimeType,
+        'x-amz-meta-sha256': options.checksum,
+        ...(!options.overwrite && { 'if-none-match': '*' })
+      }
+    });
+
+    if (response.status === 412) {
+      throw new Error('The resource already exists');
+    }
+    await this.assertOk(response, 'PUT', path);
+  }
+
+  async getObject(path: string): Promise<StoredObject> {
+    this.assertValidPath(path);
+
+    const response = await this.request({ method: 'GET', key: path });
+    if (response.status === 404) {
+      throw new Error('Object not found');
+    }
+    await this.assertOk(response, 'GET', path);
+
+    const lastModified = response.headers.get('last-modified');
+    return {
+      buffer: Buffer.from(await response.arrayBuffer()),
+      mimeType: response.headers.get('content-type') || 'application/pdf',
+      lastModified: lastModified ? new Date(lastModified) : undefined,
+      checksum: response.headers.get('x-amz-meta-sha256') || undefined
+    };
+  }
+
+  async deleteObject(path: string): Promise<void> {
+    this.assertValidPath(path);
+
+    const response = await this.request({ method: 'DELETE', key: path });
+    await this.assertOk(response, 'DELETE', path);
+  }
+
+  async statObject(path: string): Promise<StoredObjectInfo | null> {
+    this.assertValidPath(path);
+
+    const response = await this.request({ method: 'HEAD', key: path });
+    if (response.status === 404) {
+      return null;
+    }
+    await this.assertOk(response, 'HEAD', path);
+
+    return {
+      path,
+      name: path.split('/').pop() || path,
+      size: parseInt(response.headers.get('content-length') || '0', 10),
+      lastModified: new Date(response.headers.get('last-modified') || Date.now()),
+      mimeType: response.headers.get('content-type') || 'application/pdf',
+      checksum: response.headers.get('x-amz-meta-sha256') || undefined
+    };
+  }
+
+  async listObjects(folder: string, limit: number): Promise<StoredObjectInfo[]> {
+    // ListObjectsV2 returns keys in name order, so collect the folder before sorting by date
+    const objects: StoredObjectInfo[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const response = await this.request({
+        method: 'GET',
+        query: {
+          'list-type': '2',
+          prefix: `${folder}/`,
+          delimiter: '/',
+          'max-keys': '1000',
+          ...(continuationToken && { 'continuation-token': continuationToken })
+        }
+      });
+      await this.assertOk(response, 'LIST', folder);
+
+      const xml = await response.text();
+      (xml.match(/<Contents>[\s\S]*?<\/Contents>/g) || []).forEach(contents => {
+        const key = xmlValue(contents, 'Key')!;
+        objects.push({
+          path: key,
+          name: key.slice(folder.length + 1),
+          size: parseInt(xmlValue(contents, 'Size') || '0', 10),
+          lastModified: new Date(xmlValue(contents, 'LastModified') || 0),
+          mimeType: 'application/pdf' // Not part of list results
+        });
+      });
+
+      continuationToken = xmlValue(xml, 'IsTruncated') === 'true' ? xmlValue(xml, 'NextContinuationToken') : undefined;
+    } while (continuationToken);
+
+    return objects
+      .sort((a, b) => b.lastModified.getTime() - a.lastModified.getTime())
+      .slice(0, limit);
+  }
+
+  async testConnection(): Promise<boolean> {
+    try {
+      const response = await this.request({ method: 'HEAD' });
+      await this.assertOk(response, 'HEAD', this.config.bucket);
+      return true;
+    } catch (error) {
+      console.error(`❌ S3 storage connection failed: ${error instanceof Error ? error.message : error}`);
+      return false;
+    }
+  }
+
+  private objectUrl(key?: string): URL {
+    const endpoint = new URL(this.config.endpoint);
+    const encodedKey = key ? key.split('/').map(encodeRfc3986).join('/') : '';
+
+    if (this.config.forcePathStyle) {
+      const basePath = endpoint.pathname.replace(/\/$/, '');
+      return new URL(`${endpoint.protocol}//${endpoint.host}${basePath}/${this.config.bucket}/${encodedKey}`);
+    }
+    return new URL(`${endpoint.protocol}//${this.config.bucket}.${endpoint.host}/${encodedKey}`);
+  }
+
+  /**
+   * Send a request signed with AWS Signature Version 4
+   */
+  private async request({ method, key, query = {}, headers = {}, body }: S3Request): Promise<Response> {
+    const url = this.objectUrl(key);
+    const canonicalQuery = Object.keys(query)
+      .sort()
+      .map(name => `${encodeRfc3986(name)}=${encodeRfc3986(query[name])}`)
+      .join('&');
+    if (canonicalQuery) {
+      url.search = canonicalQuery;
+    }
+
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const dateStamp = amzDate.slice(0, 8);
+    const payloadHash = sha256Hex(body || '');
+
+    const signedHeaders: Record<string, string> = {
+      ...headers,
+      host: url.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate
+    };
+    const headerNames = Object.keys(signedHeaders).map(name => name.toLowerCase()).sort();
+    const lowerCased = Object.fromEntries(Object.entries(signedHeaders).map(([name, value]) => [name.toLowerCase(), value.trim()]));
+
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      canonicalQuery,
+      headerNames.map(name => `${name}:${lowerCased[name]}\n`).join(''),
+      headerNames.join(';'),
+      payloadHash
+    ].join('\n');
+
+    const scope = `${dateStamp}/${this.config.region}/s3/aws4_request`;
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+    const signingKey = hmac(hmac(hmac(hmac(`AWS4${this.config.secretAccessKey}`, dateStamp), this.config.region), 's3'), 'aws4_request');
+    const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+    const { host, ...requestHeaders } = lowerCased; // fetch sets Host itself
+    return fetch(url, {
+      method,
+      headers: {
+        ...requestHeaders,
+        authorization: `AWS4-HMAC-SHA256 Credential=${this.config.accessKeyId}/${scope}, SignedHeaders=${headerNames.join(';')}, Signature=${signature}`
+      },
+      body,
+      signal: AbortSignal.timeout(this.config.timeoutMs)
+    });
+  }
+
+  private async assertOk(response: Response, operation: string, path: string): Promise<void> {
+    if (!response.ok) {
+      const text = await response.text().catch(() => '');
+      const message = xmlValue(text, 'Message') || text.substring(0, 200);
+      throw new Error(`S3 ${operation} ${path} failed: ${response.status} ${message}`);
+    }
+  }
+}
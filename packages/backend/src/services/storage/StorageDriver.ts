@@ -0,0 +1,71 @@
+/**
+ * Storage Driver
+ *
+ * Abstract base for the backends that hold uploaded document files. StorageService builds
+ * object paths and checksums and reports results; a driver only moves bytes and the few
+ * metadata fields stored with each object (MIME type and SHA-256 checksum).
+ *
+ * @author ARYA RAG Team
+ */
+
+export type StorageDriverType = 'supabase' | 'local' | 's3';
+
+export interface StoredObjectInfo {
+  path: string;
+  name: string;
+  size: number;
+  lastModified: Date;
+  mimeType: string;
+  checksum?: string; // SHA-256 hex, recorded at upload
+}
+
+export interface StoredObject {
+  buffer: Buffer;
+  mimeType: string;
+  lastModified?: Date;
+  checksum?: string;
+}
+
+export interface PutObjectOptions {
+  mimeType: string;
+  checksum: string;
+  overwrite?: boolean;
+}
+
+export abstract class StorageDriver {
+  abstract readonly driver: StorageDriverType;
+
+  abstract putObject(path: string, buffer: Buffer, options: PutObjectOptions): Promise<void>;
+
+  abstract getObject(path: string): Promise<StoredObject>;
+
+  abstract deleteObject(path: string): Promise<void>;
+
+  /**
+   * Object metadata, or null if there is no object at the path
+   */
+  abstract statObject(path: string): Promise<StoredObjectInfo | null>;
+
+  /**
+   * Objects directly under a folder, newest first
+   */
+  abstract listObjects(folder: string, limit: number): Promise<StoredObjectInfo[]>;
+
+  /**
+   * URL the object can be fetched from, where the backend has one
+   */
+  getObjectUrl(_path: string): string | undefined {
+    return undefined;
+  }
+
+  abstract testConnection(): Promise<boolean>;
+
+  /**
+   * Reject paths that could escape the bucket or storage root
+   */
+  protected assertValidPath(path: string): void {
+    if (!path || path.startsWith('/') || path.split('/').some(segment => segment === '' || segment === '.' || segment === '..')) {
+      throw new Error(`Invalid storage path: ${path}`);
+    }
+  }
+}
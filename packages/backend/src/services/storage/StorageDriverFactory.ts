@@ -0,0 +1,121 @@
+/**
+ * Storage Driver Factory
+ *
+ * Creates the storage driver selected by STORAGE_DRIVER: supabase (Supabase Storage,
+ * default), local (directory on disk) or s3 (S3-compatible object store such as MinIO).
+ * Drivers are cached per configuration.
+ *
+ * @author ARYA RAG Team
+ */
+
+import { StorageDriver, StorageDriverType } from './StorageDriver.js';
+import { SupabaseStorageDriver } from './SupabaseStorageDriver.js';
+import { LocalStorageDriver } from './LocalStorageDriver.js';
+import { S3StorageDriver } from './S3StorageDriver.js';
+
+export interface StorageDriverFactoryConfig {
+  driver: StorageDriverType;
+
+  // Supabase / S3
+  bucket?: string;
+
+  // Local
+  localPath?: string;
+
+  // S3
+  endpoint?: string;
+  region?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  forcePathStyle?: boolean;
+}
+
+const DRIVERS: StorageDriverType[] = ['supabase', 'local', 's3'];
+
+export class StorageDriverFactory {
+  private static instance: StorageDriverFactory;
+  private driverCache: Map<string, StorageDriver> = new Map();
+
+  private constructor() {}
+
+  /**
+   * Get singleton instance of the factory
+   */
+  static getInstance(): StorageDriverFactory {
+    if (!StorageDriverFactory.instance) {
+      StorageDriverFactory.instance = new StorageDriverFactory();
+    }
+    return StorageDriverFactory.instance;
+  }
+
+  /**
+   * Create or get the cached storage driver
+   */
+  createDriver(config?: Partial<StorageDriverFactoryConfig>): StorageDriver {
+    const finalConfig = this.resolveConfig(config);
+    const cacheKey = JSON.stringify(finalConfig);
+
+    const cached = this.driverCache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    let driver: StorageDriver;
+
+    switch (finalConfig.driver) {
+      case 'supabase':
+        driver = new SupabaseStorageDriver(finalConfig.bucket);
+        break;
+
+      case 'local':
+        driver = new LocalStorageDriver(finalConfig.localPath);
+        break;
+
+      case 's3':
+        driver = new S3StorageDriver({
+          endpoint: finalConfig.endpoint,
+          region: finalConfig.region,
+          bucket: finalConfig.bucket,
+          accessKeyId: finalConfig.accessKeyId,
+          secretAccessKey: finalConfig.secretAccessKey,
+          forcePathStyle: finalConfig.forcePathStyle
+        });
+        break;
+
+      default:
+        throw new Error(`Unsupported storage driver: ${finalConfig.driver}`);
+    }
+
+    this.driverCache.set(cacheKey, driver);
+
+    console.log(`✨ Created ${finalConfig.driver} storage driver`);
+    return driver;
+  }
+
+  /**
+   * Resolve configuration from environment variables and defaults
+   */
+  private resolveConfig(config?: Partial<StorageDriverFactoryConfig>): StorageDriverFactoryConfig {
+    const driver = (config?.driver || process.env.STORAGE_DRIVER || 'supabase') as StorageDriverType;
+    if (!DRIVERS.includes(driver)) {
+      throw new Error(`STORAGE_DRIVER must be one of: ${DRIVERS.join(', ')}`);
+    }
+
+    const resolved: StorageDriverFactoryConfig = { driver };
+
+    if (driver === 'supabase') {
+      resolved.bucket = config?.bucket || process.env.SUPABASE_STORAGE_BUCKET || 'documents';
+    } else if (driver === 'local') {
+      resolved.localPath = config?.localPath || process.env.STORAGE_LOCAL_PATH || './data/storage';
+    } else if (driver === 's3') {
+      resolved.endpoint = config?.endpoint || process.env.S3_ENDPOINT || 'http://localhost:9000';
+      resolved.region = config?.region || process.env.S3_REGION || 'us-east-1';
+      resolved.bucket = config?.bucket || process.env.S3_BUCKET || 'documents';
+      resolved.accessKeyId = config?.accessKeyId || process.env.S3_ACCESS_KEY_ID;
+      resolved.secretAccessKey = config?.secretAccessKey || process.env.S3_SECRET_ACCESS_KEY;
+      resolved.forcePathStyle = config?.forcePathStyle ?? process.env.S3_FORCE_PATH_STYLE !== 'false';
+    }
+
+    return resolved;
+  }
+}
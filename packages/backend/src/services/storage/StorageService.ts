@@ -1,19 +1,23 @@
 /**
- * Supabase Storage Service
+ * Storage Service
  * 
- * Handles file upload, download, and management operations with Supabase Storage.
- * Provides secure file storage for PDF documents with proper access controls.
+ * Handles file upload, download, and management operations for uploaded documents.
+ * Files are kept by a pluggable storage driver (Supabase Storage, local filesystem or an
+ * S3-compatible object store, selected by STORAGE_DRIVER); every upload records a SHA-256
+ * checksum that downloads are verified against.
  * 
  * @author ARYA RAG Team
  */
 
-import { DatabaseClient } from '../../config/database.js';
 import { createHash } from 'crypto';
+import { StorageDriver, StorageDriverType } from './StorageDriver.js';
+import { StorageDriverFactory } from './StorageDriverFactory.js';
 
 export interface FileUploadResult {
   success: boolean;
   filePath?: string;
   fileUrl?: string;
+  checksum?: string;
   error?: string;
 }
 
@@ -24,37 +28,61 @@ export interface FileDownloadResult {
     size: number;
     mimeType: string;
     lastModified: Date;
+    checksum: string;
   };
   error?: string;
 }
 
 /**
- * Storage Service for handling file operations with Supabase Storage
+ * SHA-256 hex digest, the checksum recorded for every stored file
+ */
+export function fileChecksum(buffer: Buffer): string {
+  return createHash('sha256').update(buffer).digest('hex');
+}
+
+/**
+ * Storage Service for handling file operations through the configured storage driver
  */
 export class StorageService {
   private static instance: StorageService;
-  private bucketName = 'documents';
+  private driver: StorageDriver;
 
-  private constructor() {}
+  private constructor(driver: StorageDriver) {
+    this.driver = driver;
+  }
 
   /**
    * Get singleton instance of StorageService
    */
   public static getInstance(): StorageService {
     if (!StorageService.instance) {
-      StorageService.instance = new StorageService();
+      StorageService.instance = new StorageService(StorageDriverFactory.getInstance().createDriver());
     }
     return StorageService.instance;
   }
 
   /**
-   * Upload a file to Supabase Storage
+   * A separate service bound to the given driver (used to copy files between drivers)
+   */
+  public static withDriver(driver: StorageDriver): StorageService {
+    return new StorageService(driver);
+  }
+
+  /**
+   * Driver this service stores files with
+   */
+  getDriverType(): StorageDriverType {
+    return this.driver.driver;
+  }
+
+  /**
+   * Upload a file to storage
    * 
    * @param fileBuffer - File content as buffer
    * @param fileName - Original filename
    * @param userId - User ID for path organization
    * @param mimeType - File MIME type
-   * @returns Upload result with file path and URL
+   * @returns Upload result with file path, URL and checksum
    */
   async uploadFile(
     fileBuffer: Buffer,
@@ -63,101 +91,82 @@ export class StorageService {
     mimeType: string = 'application/pdf'
   ): Promise<FileUploadResult> {
     try {
-      const dbClient = DatabaseClient.getInstance();
-      const supabase = dbClient.getClient();
-
       // Generate unique file path
       const fileHash = createHash('md5').update(fileBuffer).digest('hex');
       const timestamp = Date.now();
       const sanitizedFileName = fileName.replace(/[^a-zA-Z0-9.-]/g, '_');
       const filePath = `${userId}/${timestamp}_${fileHash}_${sanitizedFileName}`;
+      const checksum = fileChecksum(fileBuffer);
 
-      console.log(`📤 Uploading file to Supabase Storage: ${filePath}`);
-
-      // Upload file to Supabase Storage
-      const { data, error } = await supabase.storage
-        .from(this.bucketName)
-        .upload(filePath, fileBuffer, {
-          contentType: mimeType,
-          duplex: 'half'
-        });
-
-      if (error) {
-        console.error('❌ File upload failed:', error);
-        return {
-          success: false,
-          error: `File upload failed: ${error.message}`
-        };
-      }
+      console.log(`📤 Uploading file to ${this.driver.driver} storage: ${filePath}`);
 
-      // Get public URL for the file
-      const { data: urlData } = supabase.storage
-        .from(this.bucketName)
-        .getPublicUrl(filePath);
+      await this.driver.putObject(filePath, fileBuffer, { mimeType, checksum });
 
       console.log(`✅ File uploaded successfully: ${filePath}`);
 
       return {
         success: true,
-        filePath: data.path,
-        fileUrl: urlData.publicUrl
+        filePath,
+        fileUrl: this.driver.getObjectUrl(filePath),
+        checksum
       };
 
     } catch (error) {
       console.error('💥 Storage upload error:', error);
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Unknown storage error'
+        error: `File upload failed: ${error instanceof Error ? error.message : 'Unknown storage error'}`
       };
     }
   }
 
   /**
-   * Download a file from Supabase Storage
+   * Download a file from storage and verify its checksum
+   * The content is checked against the checksum recorded at upload and, if given, the
+   * expected SHA-256 (e.g. the document's file_hash). Files uploaded before checksums were
+   * recorded are checked against the MD5 in their path.
    * 
    * @param filePath - Path to the file in storage
+   * @param expectedChecksum - SHA-256 hex the content must match
    * @returns Download result with file buffer and metadata
    */
-  async downloadFile(filePath: string): Promise<FileDownloadResult> {
+  async downloadFile(filePath: string, expectedChecksum?: string): Promise<FileDownloadResult> {
     try {
-      const dbClient = DatabaseClient.getInstance();
-      const supabase = dbClient.getClient();
-
-      console.log(`📥 Downloading file from Supabase Storage: ${filePath}`);
+      console.log(`📥 Downloading file from ${this.driver.driver} storage: ${filePath}`);
 
-      // Download file from Supabase Storage
-      const { data, error } = await supabase.storage
-        .from(this.bucketName)
-        .download(filePath);
+      const object = await this.driver.getObject(filePath);
+      const checksum = fileChecksum(object.buffer);
 
-      if (error) {
-        console.error('❌ File download failed:', error);
+      const mismatch = [expectedChecksum, object.checksum].find(expected => expected && expected !== checksum);
+      if (mismatch) {
+        console.error(`❌ Checksum mismatch for ${filePath}: expected ${mismatch}, got ${checksum}`);
         return {
           success: false,
-          error: `File download failed: ${error.message}`
+          error: `Checksum mismatch: stored file ${filePath} is corrupted or was modified`
         };
       }
 
-      if (!data) {
-        return {
-          success: false,
-          error: 'No file data received'
-        };
+      if (!expectedChecksum && !object.checksum) {
+        const pathMd5 = filePath.split('/').pop()?.match(/^\d+_([a-f0-9]{32})_/)?.[1];
+        if (pathMd5 && pathMd5 !== createHash('md5').update(object.buffer).digest('hex')) {
+          console.error(`❌ Checksum mismatch for ${filePath}: content does not match the MD5 in its path`);
+          return {
+            success: false,
+            error: `Checksum mismatch: stored file ${filePath} is corrupted or was modified`
+          };
+        }
       }
 
-      // Convert blob to buffer
-      const arrayBuffer = await data.arrayBuffer();
-      const buffer = Buffer.from(arrayBuffer);
-
-      console.log(`✅ File downloaded successfully: ${filePath} (${buffer.length} bytes)`);
+      console.log(`✅ File downloaded successfully: ${filePath} (${object.buffer.length} bytes)`);
 
       return {
         success: true,
-        buffer,
+        buffer: object.buffer,
         metadata: {
-          size: buffer.length,
-          mimeType: data.type || 'application/pdf',
-          lastModified: new Date() // Supabase doesn't provide last modified in download
+          size: object.buffer.length,
+          mimeType: object.mimeType,
+          lastModified: object.lastModified || new Date(),
+          checksum
         }
       };
 
@@ -165,35 +174,22 @@ export class StorageService {
       console.error('💥 Storage download error:', error);
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Unknown storage error'
+        error: `File download failed: ${error instanceof Error ? error.message : 'Unknown storage error'}`
       };
     }
   }
 
   /**
-   * Delete a file from Supabase Storage
+   * Delete a file from storage
    * 
    * @param filePath - Path to the file in storage
    * @returns Success status
    */
   async deleteFile(filePath: string): Promise<{ success: boolean; error?: string }> {
     try {
-      const dbClient = DatabaseClient.getInstance();
-      const supabase = dbClient.getClient();
-
-      console.log(`🗑️ Deleting file from Supabase Storage: ${filePath}`);
+      console.log(`🗑️ Deleting file from ${this.driver.driver} storage: ${filePath}`);
 
-      const { error } = await supabase.storage
-        .from(this.bucketName)
-        .remove([filePath]);
-
-      if (error) {
-        console.error('❌ File deletion failed:', error);
-        return {
-          success: false,
-          error: `File deletion failed: ${error.message}`
-        };
-      }
+      await this.driver.deleteObject(filePath);
 
       console.log(`✅ File deleted successfully: ${filePath}`);
       return { success: true };
@@ -202,7 +198,7 @@ export class StorageService {
       console.error('💥 Storage deletion error:', error);
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Unknown storage error'
+        error: `File deletion failed: ${error instanceof Error ? error.message : 'Unknown storage error'}`
       };
     }
   }
@@ -220,34 +216,13 @@ export class StorageService {
       size: number;
       lastModified: Date;
       mimeType: string;
+      checksum?: string;
     };
     error?: string;
   }> {
     try {
-      const dbClient = DatabaseClient.getInstance();
-      const supabase = dbClient.getClient();
-
-      // List files to get metadata
-      const pathParts = filePath.split('/');
-      const folder = pathParts.slice(0, -1).join('/');
-      const fileName = pathParts[pathParts.length - 1];
-
-      const { data, error } = await supabase.storage
-        .from(this.bucketName)
-        .list(folder, {
-          limit: 100,
-          search: fileName
-        });
-
-      if (error) {
-        return {
-          success: false,
-          error: `Failed to get file metadata: ${error.message}`
-        };
-      }
-
-      const fileInfo = data?.find(file => file.name === fileName);
-      if (!fileInfo) {
+      const info = await this.driver.statObject(filePath);
+      if (!info) {
         return {
           success: false,
           error: 'File not found'
@@ -257,10 +232,11 @@ export class StorageService {
       return {
         success: true,
         metadata: {
-          name: fileInfo.name,
-          size: fileInfo.metadata?.size || 0,
-          lastModified: new Date(fileInfo.updated_at || fileInfo.created_at),
-          mimeType: fileInfo.metadata?.mimetype || 'application/pdf'
+          name: info.name,
+          size: info.size,
+          lastModified: info.lastModified,
+          mimeType: info.mimeType,
+          checksum: info.checksum
         }
       };
 
@@ -268,7 +244,7 @@ export class StorageService {
       console.error('💥 Storage metadata error:', error);
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Unknown storage error'
+        error: `Failed to get file metadata: ${error instanceof Error ? error.message : 'Unknown storage error'}`
       };
     }
   }
@@ -291,29 +267,14 @@ export class StorageService {
     error?: string;
   }> {
     try {
-      const dbClient = DatabaseClient.getInstance();
-      const supabase = dbClient.getClient();
-
-      const { data, error } = await supabase.storage
-        .from(this.bucketName)
-        .list(userId, {
-          limit,
-          sortBy: { column: 'updated_at', order: 'desc' }
-        });
+      const objects = await this.driver.listObjects(userId, limit);
 
-      if (error) {
-        return {
-          success: false,
-          error: `Failed to list files: ${error.message}`
-        };
-      }
-
-      const files = data?.map(file => ({
-        path: `${userId}/${file.name}`,
-        name: file.name,
-        size: file.metadata?.size || 0,
-        lastModified: new Date(file.updated_at || file.created_at)
-      })) || [];
+      const files = objects.map(object => ({
+        path: object.path,
+        name: object.name,
+        size: object.size,
+        lastModified: object.lastModified
+      }));
 
       return {
         success: true,
@@ -324,10 +285,17 @@ export class StorageService {
       console.error('💥 Storage list error:', error);
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Unknown storage error'
+        error: `Failed to list files: ${error instanceof Error ? error.message : 'Unknown storage error'}`
       };
     }
   }
+
+  /**
+   * Test that the storage backend is reachable
+   */
+  async testConnection(): Promise<boolean> {
+    return this.driver.testConnection();
+  }
 }
 
 export default StorageService;
\ No newline at end of file
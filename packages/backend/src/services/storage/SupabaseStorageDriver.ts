@@ -0,0 +1,131 @@
+/**
+ * Supabase Storage Driver
+ *
+ * Stores files in a Supabase Storage bucket (default: documents). The checksum is kept
+ * in the object's user metadata.
+ *
+ * @author ARYA RAG Team
+ */
+
+import { DatabaseClient } from '../../config/database.js';
+import { StorageDriver, StorageDriverType, StoredObject, StoredObjectInfo, PutObjectOptions } from './StorageDriver.js';
+
+export class SupabaseStorageDriver extends StorageDriver {
+  readonly driver: StorageDriverType = 'supabase';
+  private bucketName: string;
+
+  constructor(bucketName: string = 'documents') {
+    super();
+    this.bucketName = bucketName;
+  }
+
+  async putObject(path: string, buffer: Buffer, options: PutObjectOptions): Promise<void> {
+    this.assertValidPath(path);
+
+    const { error } = await this.bucket().upload(path, buffer, {
+      contentType: options.mimeType,
+      upsert: !!options.overwrite,
+      metadata: { sha256: options.checksum },
+      duplex: 'half'
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+
+  async getObject(path: string): Promise<StoredObject> {
+    this.assertValidPath(path);
+
+    const [download, info] = await Promise.all([
+      this.bucket().download(path),
+      this.statObject(path).catch(() => null)
+    ]);
+
+    if (download.error) {
+      throw new Error(download.error.message);
+    }
+    if (!download.data) {
+      throw new Error('No file data received');
+    }
+
+    return {
+      buffer: Buffer.from(await download.data.arrayBuffer()),
+      mimeType: info?.mimeType || download.data.type || 'application/pdf',
+      lastModified: info?.lastModified,
+      checksum: info?.checksum
+    };
+  }
+
+  async deleteObject(path: string): Promise<void> {
+    this.assertValidPath(path);
+
+    const { error } = await this.bucket().remove([path]);
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+
+  async statObject(path: string): Promise<StoredObjectInfo | null> {
+    this.assertValidPath(path);
+
+    const { data, error } = await this.bucket().info(path);
+    if (error) {
+      if ((error as any).statusCode === '404' || (error as any).status === 404 || /not found/i.test(error.message)) {
+        return null;
+      }
+      throw new Error(error.message);
+    }
+
+    return {
+      path,
+      name: path.split('/').pop() || path,
+      size: data.size || 0,
+      lastModified: new Date(data.lastModified || data.createdAt),
+      mimeType: data.contentType || 'application/pdf',
+      checksum: data.metadata?.sha256
+    };
+  }
+
+  async listObjects(folder: string, limit: number): Promise<StoredObjectInfo[]> {
+    const { data, error } = await this.bucket().list(folder, {
+      limit,
+      sortBy: { column: 'updated_at', order: 'desc' }
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return (data || [])
+      .filter(file => file.id) // Folders have no ID
+      .map(file => ({
+        path: `${folder}/${file.name}`,
+        name: file.name,
+        size: file.metadata?.size || 0,
+        lastModified: new Date(file.updated_at || file.created_at || Date.now()),
+        mimeType: file.metadata?.mimetype || 'application/pdf'
+      }));
+  }
+
+  getObjectUrl(path: string): string | undefined {
+    return this.bucket().getPublicUrl(path).data.publicUrl;
+  }
+
+  async testConnection(): Promise<boolean> {
+    try {
+      const { error } = await this.bucket().list('', { limit: 1 });
+      if (error) {
+        throw new Error(error.message);
+      }
+      return true;
+    } catch (error) {
+      console.error(`❌ Supabase Storage connection failed: ${error instanceof Error ? error.message : error}`);
+      return false;
+    }
+  }
+
+  private bucket() {
+    return DatabaseClient.getInstance().getClient().storage.from(this.bucketName);
+  }
+}
@@ -0,0 +1,237 @@
+/**
+ * Chroma Vector Store
+ *
+ * Adapter for a self-hosted Chroma server (REST API v2). Vectors of each dimension go to
+ * their own collection (<collection>_<dims>d, cosine space); the chunk text is stored as
+ * the Chroma document and the other chunk fields as metadata.
+ *
+ * @author ARYA RAG Team
+ */
+
+import {
+  VectorStore,
+  VectorStoreBackend,
+  VectorRecord,
+  VectorQuery,
+  VectorMatch,
+  VectorDeleteFilter
+} from './VectorStore';
+
+export interface ChromaVectorStoreConfig {
+  url: string;
+  apiKey?: string;
+  tenant: string;
+  database: string;
+  collection: string; // Collection name prefix
+  timeoutMs: number;
+}
+
+type ChromaWhere = Record<string, any>;
+
+/**
+ * Chroma's $and / $or need at least two operands
+ */
+function combine(operator: '$and' | '$or', conditions: ChromaWhere[]): ChromaWhere | undefined {
+  if (conditions.length === 0) return undefined;
+  if (conditions.length === 1) return conditions[0];
+  return { [operator]: conditions };
+}
+
+export class ChromaVectorStore extends VectorStore {
+  readonly backend: VectorStoreBackend = 'chroma';
+  private config: ChromaVectorStoreConfig;
+  private collections: Map<string, string> | null = null; // name -> collection ID
+
+  constructor(config: Partial<ChromaVectorStoreConfig> = {}) {
+    super();
+    this.config = {
+      url: (config.url || 'http://localhost:8000').replace(/\/$/, ''),
+      apiKey: config.apiKey,
+      tenant: config.tenant || 'default_tenant',
+      database: config.database || 'default_database',
+      collection: config.collection || 'arya_chunks',
+      timeoutMs: config.timeoutMs || 30000
+    };
+
+    console.log(`📦 Chroma vector store: ${this.config.url} (${this.config.collection})`);
+  }
+
+  async upsert(records: VectorRecord[]): Promise<void> {
+    const byDimensions = new Map<number, VectorRecord[]>();
+    records.forEach(record => {
+      const group = byDimensions.get(record.embedding.length) || [];
+      group.push(record);
+      byDimensions.set(record.embedding.length, group);
+    });
+
+    for (const [dimensions, group] of byDimensions) {
+      const collectionId = await this.ensureCollection(dimensions);
+      await this.request('POST', `${this.databasePath()}/collections/${collectionId}/upsert`, {
+        ids: group.map(record => record.chunkId),
+        embeddings: group.map(record => record.embedding),
+        documents: group.map(record => record.chunkText),
+        metadatas: group.map(record => {
+          const { chunk_text, ...metadata } = this.toPayload(record);
+          return metadata;
+        })
+      });
+    }
+  }
+
+  async search(query: VectorQuery): Promise<VectorMatch[]> {
+    const collectionId = (await this.listCollections()).get(this.collectionName(query.embedding.length));
+    if (!collectionId) {
+      return [];
+    }
+
+    const scope = await this.resolveSearchScope(query);
+    if (scope.size === 0) {
+      return [];
+    }
+
+    // Each readable document only in the revision being searched
+    const documents = combine('$or', Array.from(scope.entries()).map(([documentId, { revision }]) => ({
+      $and: [{ document_id: { $eq: documentId } }, { revision: { $eq: revision } }]
+    })));
+    const where = combine('$and', [
+      ...(query.embeddingModel ? [{ embedding_model: { $eq: query.embeddingModel } }] : []),
+      documents!
+    ]);
+
+    const result = await this.request('POST', `${this.databasePath()}/collections/${collectionId}/query`, {
+      query_embeddings: [query.embedding],
+      n_results: query.topK,
+      where,
+      include: ['metadatas', 'documents', 'distances']
+    });
+
+    const ids: string[] = result?.ids?.[0] || [];
+    return ids
+      .map((_, i) => this.fromPayload(
+        { ...result.metadatas[0][i], chunk_text: result.documents[0][i] },
+        1 - result.distances[0][i], // Cosine distance
+        scope
+      ))
+      .filter(match => match.similarity >= query.similarityThreshold);
+  }
+
+  async getEmbeddingsByContentHash(
+    documentId: string,
+    revision: number,
+    contentHashes: string[],
+    embeddingModel: string
+  ): Promise<Map<string, number[]>> {
+    const embeddings = new Map<string, number[]>();
+    if (contentHashes.length === 0) {
+      return embeddings;
+    }
+
+    const where = combine('$and', [
+      { document_id: { $eq: documentId } },
+      { revision: { $eq: revision } },
+      { embedding_model: { $eq: embeddingModel } },
+      { content_hash: { $in: contentHashes } }
+    ]);
+
+    for (const collectionId of (await this.listCollections()).values()) {
+      const result = await this.request('POST', `${this.databasePath()}/collections/${collectionId}/get`, {
+        where,
+        include: ['embeddings', 'metadatas']
+      });
+
+      (result?.ids || []).forEach((_: string, i: number) => {
+        embeddings.set(result.metadatas[i].content_hash, result.embeddings[i]);
+      });
+    }
+
+    return embeddings;
+  }
+
+  async delete(filter: VectorDeleteFilter): Promise<void> {
+    this.assertDeleteFilter(filter);
+
+    const where = combine('$and', [
+      ...(filter.documentId ? [{ document_id: { $eq: filter.documentId } }] : []),
+      ...(filter.userId ? [{ user_id: { $eq: filter.userId } }] : []),
+      ...(filter.embeddingModel ? [{ embedding_model: { $eq: filter.embeddingModel } }] : []),
+      ...(filter.revisions ? [{ revision: { $in: filter.revisions } }] : [])
+    ]);
+
+    for (const collectionId of (await this.listCollections()).values()) {
+      await this.request('POST', `${this.databasePath()}/collections/${collectionId}/delete`, {
+        ...(filter.chunkIds && { ids: filter.chunkIds }),
+        ...(where && { where })
+      });
+    }
+  }
+
+  async testConnection(): Promise<boolean> {
+    try {
+      await this.request('GET', '/api/v2/heartbeat');
+      return true;
+    } catch (error) {
+      console.error(`❌ Chroma connection failed: ${error instanceof Error ? error.message : error}`);
+      return false;
+    }
+  }
+
+  private databasePath(): string {
+    return `/api/v2/tenants/${encodeURIComponent(this.config.tenant)}/databases/${encodeURIComponent(this.config.database)}`;
+  }
+
+  private collectionName(dimensions: number): string {
+    return `${this.config.collection}_${dimensions}d`;
+  }
+
+  /**
+   * This store's collections (one per embedding dimension), by name
+   */
+  private async listCollections(): Promise<Map<string, string>> {
+    if (!this.collections) {
+      const result = await this.request('GET', `${this.databasePath()}/collections`);
+      this.collections = new Map(
+        (result || [])
+          .filter((collection: any) => collection.name.startsWith(`${this.config.collection}_`))
+          .map((collection: any) => [collection.name, collection.id])
+      );
+    }
+    return this.collections;
+  }
+
+  private async ensureCollection(dimensions: number): Promise<string> {
+    const name = this.collectionName(dimensions);
+    const existing = (await this.listCollections()).get(name);
+    if (existing) {
+      return existing;
+    }
+
+    const collection = await this.request('POST', `${this.databasePath()}/collections`, {
+      name,
+      metadata: { 'hnsw:space': 'cosine' },
+      get_or_create: true
+    });
+
+    this.collections!.set(name, collection.id);
+    console.log(`✨ Created Chroma collection ${name}`);
+    return collection.id;
+  }
+
+  private async request(method: string, path: string, body?: unknown): Promise<any> {
+    const response = await fetch(`${this.config.url}${path}`, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.config.apiKey && { 'x-chroma-token': this.config.apiKey })
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+      signal: AbortSignal.timeout(this.config.timeoutMs)
+    });
+
+    if (!response.ok) {
+      const text = await response.text().catch(() => '');
+      throw new Error(`Chroma ${method} ${path} failed: ${response.status} ${text.substring(0, 200)}`);
+    }
+
+    return response.json();
+  }
+}
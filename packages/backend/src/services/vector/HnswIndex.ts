@@ -0,0 +1,214 @@
+/**
+ * HNSW Index
+ *
+ * Hierarchical navigable small world graph for approximate nearest-neighbour search
+ * (Malkov & Yashunin). Nodes are numeric IDs owned by the caller, which also supplies
+ * their vectors; the index only stores the graph, so it can be persisted as JSON next
+ * to the vectors it points into.
+ *
+ * @author ARYA RAG Team
+ */
+
+import { cosineSimilarity } from './VectorStore';
+
+export interface HnswParams {
+  m: number; // Links per node on the upper levels (twice as many on level 0)
+  efConstruction: number; // Candidate list size while inserting
+  efSearch: number; // Minimum candidate list size while searching
+}
+
+export interface SerializedHnswGraph {
+  entryPoint: number;
+  maxLevel: number;
+  nodes: Array<[number, number[][]]>; // Node ID -> neighbour IDs per level
+}
+
+export interface ScoredNode {
+  id: number;
+  similarity: number;
+}
+
+export const DEFAULT_HNSW_PARAMS: HnswParams = {
+  m: 16,
+  efConstruction: 100,
+  efSearch: 64
+};
+
+/**
+ * Insert into a list sorted by descending similarity
+ */
+function insertSorted(list: ScoredNode[], node: ScoredNode): void {
+  let low = 0;
+  let high = list.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (list[mid].similarity >= node.similarity) low = mid + 1;
+    else high = mid;
+  }
+  list.splice(low, 0, node);
+}
+
+export class HnswIndex {
+  private params: HnswParams;
+  private vectorOf: (id: number) => ArrayLike<number>;
+  private neighbors: Map<number, number[][]> = new Map();
+  private entryPoint = -1;
+  private maxLevel = -1;
+  private levelMultiplier: number;
+
+  constructor(vectorOf: (id: number) => ArrayLike<number>, params: Partial<HnswParams> = {}) {
+    this.vectorOf = vectorOf;
+    this.params = { ...DEFAULT_HNSW_PARAMS, ...params };
+    this.levelMultiplier = 1 / Math.log(this.params.m);
+  }
+
+  get size(): number {
+    return this.neighbors.size;
+  }
+
+  /**
+   * Link a node into the graph
+   */
+  add(id: number): void {
+    if (this.neighbors.has(id)) {
+      return;
+    }
+
+    const vector = this.vectorOf(id);
+    const level = Math.floor(-Math.log(Math.random() || Number.MIN_VALUE) * this.levelMultiplier);
+    const links: number[][] = Array.from({ length: level + 1 }, () => []);
+    this.neighbors.set(id, links);
+
+    if (this.entryPoint === -1) {
+      this.entryPoint = id;
+      this.maxLevel = level;
+      return;
+    }
+
+    // Greedy descent through the levels above the new node
+    let entries = [this.entryPoint];
+    for (let l = this.maxLevel; l > level; l--) {
+      entries = [this.searchLayer(vector, entries, 1, l)[0].id];
+    }
+
+    for (let l = Math.min(level, this.maxLevel); l >= 0; l--) {
+      const found = this.searchLayer(vector, entries, this.params.efConstruction, l);
+      const maxLinks = l === 0 ? this.params.m * 2 : this.params.m;
+
+      links[l] = found.slice(0, this.params.m).map(node => node.id);
+
+      for (const neighborId of links[l]) {
+        const neighborLinks = this.neighbors.get(neighborId)![l];
+        neighborLinks.push(id);
+        if (neighborLinks.length > maxLinks) {
+          this.prune(neighborId, l, maxLinks);
+        }
+      }
+
+      entries = found.map(node => node.id);
+    }
+
+    if (level > this.maxLevel) {
+      this.entryPoint = id;
+      this.maxLevel = level;
+    }
+  }
+
+  /**
+   * Approximate k nearest nodes, best first
+   * Nodes rejected by accept are traversed but not returned; the candidate list grows
+   * until k accepted nodes are found or the whole graph has been seen.
+   */
+  search(query: ArrayLike<number>, k: number, accept: (id: number) => boolean = () => true): ScoredNode[] {
+    if (this.entryPoint === -1) {
+      return [];
+    }
+
+    let entries = [this.entryPoint];
+    for (let l = this.maxLevel; l > 0; l--) {
+      entries = [this.searchLayer(query, entries, 1, l)[0].id];
+    }
+
+    let ef = Math.max(this.params.efSearch, k);
+    while (true) {
+      const accepted = this.searchLayer(query, entries, ef, 0).filter(node => accept(node.id));
+      if (accepted.length >= k || ef >= this.size) {
+        return accepted.slice(0, k);
+      }
+      ef *= 4;
+    }
+  }
+
+  serialize(): SerializedHnswGraph {
+    return {
+      entryPoint: this.entryPoint,
+      maxLevel: this.maxLevel,
+      nodes: Array.from(this.neighbors.entries())
+    };
+  }
+
+  static deserialize(
+    graph: SerializedHnswGraph,
+    vectorOf: (id: number) => ArrayLike<number>,
+    params: Partial<HnswParams> = {}
+  ): HnswIndex {
+    const index = new HnswIndex(vectorOf, params);
+    index.entryPoint = graph.entryPoint;
+    index.maxLevel = graph.maxLevel;
+    index.neighbors = new Map(graph.nodes);
+    return index;
+  }
+
+  /**
+   * Best-first search of one level, keeping the ef most similar nodes found
+   */
+  private searchLayer(query: ArrayLike<number>, entries: number[], ef: number, level: number): ScoredNode[] {
+    const visited = new Set<number>(entries);
+    const candidates: ScoredNode[] = [];
+    const results: ScoredNode[] = [];
+
+    for (const id of entries) {
+      const node = { id, similarity: cosineSimilarity(query, this.vectorOf(id)) };
+      insertSorted(candidates, node);
+      insertSorted(results, node);
+    }
+
+    while (candidates.length > 0) {
+      const current = candidates.shift()!;
+      if (results.length >= ef && current.similarity < results[results.length - 1].similarity) {
+        break;
+      }
+
+      for (const neighborId of this.neighbors.get(current.id)?.[level] || []) {
+        if (visited.has(neighborId)) continue;
+        visited.add(neighborId);
+
+        const similarity = cosineSimilarity(query, this.vectorOf(neighborId));
+        if (results.length < ef || similarity > results[results.length - 1].similarity) {
+          const node = { id: neighborId, similarity };
+          insertSorted(candidates, node);
+          insertSorted(results, node);
+          if (results.length > ef) {
+            results.pop();
+          }
+        }
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Keep a node's closest links on one level
+   */
+  private prune(id: number, level: number, maxLinks: number): void {
+    const vector = this.vectorOf(id);
+    const links = this.neighbors.get(id)![level];
+
+    this.neighbors.get(id)![level] = links
+      .map(linkId => ({ id: linkId, similarity: cosineSimilarity(vector, this.vectorOf(linkId)) }))
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, maxLinks)
+      .map(node => node.id);
+  }
+}
@@ -0,0 +1,356 @@
+/**
+ * Local Vector Store
+ *
+ * Embedded, in-process vector store persisted to a directory on local disk, for machines
+ * without pgvector or a vector database. Vectors are kept in memory and searched either
+ * exactly (flat) or through an HNSW graph per embedding model; small scopes are always
+ * searched exactly since a scan of a few thousand vectors is faster than filtering a graph.
+ *
+ * On disk: vectors-<generation>.bin holds the float32 vectors back to back, index.json the
+ * chunk fields, HNSW graphs and the name of its vectors file. Each save writes a new vectors
+ * file first and then renames index.json over the old one, so a crash mid-save leaves the
+ * previous generation intact.
+ *
+ * @author ARYA RAG Team
+ */
+
+import { promises as fs, constants } from 'fs';
+import { join } from 'path';
+import {
+  VectorStore,
+  VectorStoreBackend,
+  VectorRecord,
+  VectorQuery,
+  VectorMatch,
+  VectorDeleteFilter,
+  cosineSimilarity
+} from './VectorStore';
+import { HnswIndex, HnswParams, SerializedHnswGraph, DEFAULT_HNSW_PARAMS } from './HnswIndex';
+
+export type LocalIndexType = 'flat' | 'hnsw';
+
+export interface LocalVectorStoreConfig {
+  path: string;
+  indexType: LocalIndexType;
+  hnsw: HnswParams;
+  exactSearchLimit: number; // Scopes up to this many vectors are scanned instead of searched through the graph
+}
+
+type StoredVector = Omit<VectorRecord, 'embedding'> & {
+  vector: Float32Array;
+  deleted?: boolean;
+};
+
+interface PersistedIndex {
+  version: 1;
+  indexType: LocalIndexType;
+  vectorsFile: string;
+  records: Array<Omit<StoredVector, 'vector'> & { dimensions: number }>;
+  graphs: Record<string, SerializedHnswGraph>;
+}
+
+const INDEX_FILE = 'index.json';
+
+export class LocalVectorStore extends VectorStore {
+  readonly backend: VectorStoreBackend = 'local';
+  private config: LocalVectorStoreConfig;
+  private records: StoredVector[] = [];
+  private positions: Map<string, number> = new Map(); // chunk ID -> live record position
+  private graphs: Map<string, HnswIndex> = new Map(); // partition key -> graph
+  private loading: Promise<void> | null = null;
+  private saving: Promise<void> = Promise.resolve();
+  private generation = 0;
+
+  constructor(config: Partial<LocalVectorStoreConfig> = {}) {
+    super();
+    this.config = {
+      path: config.path || './data/vector-store',
+      indexType: config.indexType || 'hnsw',
+      hnsw: { ...DEFAULT_HNSW_PARAMS, ...config.hnsw },
+      exactSearchLimit: config.exactSearchLimit ?? 2000
+    };
+
+    console.log(`📦 Local vector store: ${this.config.path} (${this.config.indexType})`);
+  }
+
+  async upsert(records: VectorRecord[]): Promise<void> {
+    await this.load();
+
+    for (const record of records) {
+      this.tombstone(record.chunkId);
+
+      const { embedding, ...fields } = record;
+      const position = this.records.length;
+      this.records.push({ ...fields, vector: Float32Array.from(embedding) });
+      this.positions.set(record.chunkId, position);
+      this.graphFor(position)?.add(position);
+    }
+
+    await this.save();
+  }
+
+  async search(query: VectorQuery): Promise<VectorMatch[]> {
+    await this.load();
+
+    const scope = await this.resolveSearchScope(query);
+    if (scope.size === 0) {
+      return [];
+    }
+
+    const accept = (position: number): boolean => {
+      const record = this.records[position];
+      return !record.deleted &&
+        record.vector.length === query.embedding.length &&
+        (!query.embeddingModel || record.embeddingModel === query.embeddingModel) &&
+        scope.get(record.documentId)?.revision === record.revision;
+    };
+
+    const inScope: number[] = [];
+    this.positions.forEach(position => {
+      if (accept(position)) inScope.push(position);
+    });
+
+    let scored: Array<{ id: number; similarity: number }>;
+    if (this.config.indexType === 'flat' || inScope.length <= this.config.exactSearchLimit) {
+      scored = inScope
+        .map(position => ({ id: position, similarity: cosineSimilarity(query.embedding, this.records[position].vector) }))
+        .sort((a, b) => b.similarity - a.similarity)
+        .slice(0, query.topK);
+    } else {
+      // A query without a model can span several graphs; merge their best matches
+      scored = Array.from(this.graphs.entries())
+        .filter(([key]) => this.partitionMatches(key, query))
+        .flatMap(([, graph]) => graph.search(query.embedding, query.topK, accept))
+        .sort((a, b) => b.similarity - a.similarity)
+        .slice(0, query.topK);
+    }
+
+    return scored
+      .filter(({ similarity }) => similarity >= query.similarityThreshold)
+      .map(({ id, similarity }) => {
+        const record = this.records[id];
+        return {
+          chunkId: record.chunkId,
+          documentId: record.documentId,
+          documentName: scope.get(record.documentId)!.filename,
+          chunkText: record.chunkText,
+          pageNumber: record.pageNumber,
+          sectionTitle: record.sectionTitle,
+          isOcr: record.isOcr,
+          ocrConfidence: record.ocrConfidence,
+          revision: record.revision,
+          pagePositionStart: record.pagePositionStart,
+          pagePositionEnd: record.pagePositionEnd,
+          similarity
+        };
+      });
+  }
+
+  async getEmbeddingsByContentHash(
+    documentId: string,
+    revision: number,
+    contentHashes: string[],
+    embeddingModel: string
+  ): Promise<Map<string, number[]>> {
+    await this.load();
+
+    const wanted = new Set(contentHashes);
+    const embeddings = new Map<string, number[]>();
+
+    this.positions.forEach(position => {
+      const record = this.records[position];
+      if (record.documentId === documentId && record.revision === revision &&
+          record.embeddingModel === embeddingModel && record.contentHash && wanted.has(record.contentHash)) {
+        embeddings.set(record.contentHash, Array.from(record.vector));
+      }
+    });
+
+    return embeddings;
+  }
+
+  async delete(filter: VectorDeleteFilter): Promise<void> {
+    this.assertDeleteFilter(filter);
+    await this.load();
+
+    const chunkIds = filter.chunkIds ? new Set(filter.chunkIds) : null;
+    const revisions = filter.revisions ? new Set(filter.revisions) : null;
+    let deleted = 0;
+
+    Array.from(this.positions.entries()).forEach(([chunkId, position]) => {
+      const record = this.records[position];
+      if ((filter.documentId && record.documentId !== filter.documentId) ||
+          (filter.userId && record.userId !== filter.userId) ||
+          (filter.embeddingModel && record.embeddingModel !== filter.embeddingModel) ||
+          (revisions && !revisions.has(record.revision)) ||
+          (chunkIds && !chunkIds.has(chunkId))) {
+        return;
+      }
+      this.tombstone(chunkId);
+      deleted++;
+    });
+
+    if (deleted === 0) {
+      return;
+    }
+
+    // Deleted vectors stay in the graphs as waypoints until they outnumber the live ones
+    if (this.records.length - this.positions.size > this.positions.size) {
+      this.compact();
+    }
+
+    await this.save();
+  }
+
+  async testConnection(): Promise<boolean> {
+    try {
+      await this.load();
+      await fs.mkdir(this.config.path, { recursive: true });
+      await fs.access(this.config.path, constants.W_OK);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Number of live vectors
+   */
+  async count(): Promise<number> {
+    await this.load();
+    return this.positions.size;
+  }
+
+  private tombstone(chunkId: string): void {
+    const position = this.positions.get(chunkId);
+    if (position !== undefined) {
+      this.records[position].deleted = true;
+      this.positions.delete(chunkId);
+    }
+  }
+
+  /**
+   * Graph of the record's model and dimensions (created on first use); none for flat indexes
+   */
+  private graphFor(position: number): HnswIndex | null {
+    if (this.config.indexType !== 'hnsw') {
+      return null;
+    }
+
+    const record = this.records[position];
+    const key = `${record.embeddingModel}:${record.vector.length}`;
+    let graph = this.graphs.get(key);
+    if (!graph) {
+      graph = new HnswIndex(id => this.records[id].vector, this.config.hnsw);
+      this.graphs.set(key, graph);
+    }
+    return graph;
+  }
+
+  private partitionMatches(key: string, query: VectorQuery): boolean {
+    const separator = key.lastIndexOf(':');
+    return Number(key.slice(separator + 1)) === query.embedding.length &&
+      (!query.embeddingModel || key.slice(0, separator) === query.embeddingModel);
+  }
+
+  /**
+   * Drop deleted records and rebuild the graphs from the live ones
+   */
+  private compact(): void {
+    const live = Array.from(this.positions.values()).sort((a, b) => a - b).map(position => this.records[position]);
+    console.log(`🧹 Compacting local vector store: ${this.records.length - live.length} deleted vectors removed`);
+
+    this.records = live;
+    this.positions = new Map(live.map((record, position) => [record.chunkId, position]));
+    this.graphs = new Map();
+    live.forEach((_, position) => this.graphFor(position)?.add(position));
+  }
+
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.readFromDisk().catch(error => {
+        this.loading = null;
+        throw error;
+      });
+    }
+    return this.loading;
+  }
+
+  private async readFromDisk(): Promise<void> {
+    let index: PersistedIndex;
+    let vectors: Buffer;
+    try {
+      index = JSON.parse(await fs.readFile(join(this.config.path, INDEX_FILE), 'utf-8'));
+      vectors = await fs.readFile(join(this.config.path, index.vectorsFile));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        console.log(`📦 Local vector store is empty (${this.config.path})`);
+        return;
+      }
+      throw new Error(`Failed to load local vector store: ${error instanceof Error ? error.message : error}`);
+    }
+
+    this.generation = parseInt(index.vectorsFile.match(/\d+/)?.[0] || '0', 10);
+
+    // Copy out of the file buffer so every vector is 4-byte aligned
+    const floats = new Float32Array(vectors.buffer.slice(vectors.byteOffset, vectors.byteOffset + vectors.byteLength));
+    let offset = 0;
+    this.records = index.records.map(({ dimensions, ...fields }) => {
+      const vector = floats.slice(offset, offset + dimensions);
+      offset += dimensions;
+      return { ...fields, vector };
+    });
+    this.records.forEach((record, position) => {
+      if (!record.deleted) this.positions.set(record.chunkId, position);
+    });
+
+    if (this.config.indexType === 'hnsw') {
+      if (index.indexType === 'hnsw') {
+        Object.entries(index.graphs).forEach(([key, graph]) => {
+          this.graphs.set(key, HnswIndex.deserialize(graph, id => this.records[id].vector, this.config.hnsw));
+        });
+      } else {
+        // Switched from flat to HNSW: build the graphs once
+        this.compact();
+      }
+    }
+
+    console.log(`📦 Loaded ${this.positions.size} vectors from ${this.config.path}`);
+  }
+
+  /**
+   * Write a new generation of the vectors file, then switch index.json to it
+   * Saves run one after another so a slow write never overtakes a newer one.
+   */
+  private save(): Promise<void> {
+    this.saving = this.saving.catch(() => undefined).then(async () => {
+      await fs.mkdir(this.config.path, { recursive: true });
+
+      const dimensions = this.records.reduce((sum, record) => sum + record.vector.length, 0);
+      const floats = new Float32Array(dimensions);
+      let offset = 0;
+      const records = this.records.map(({ vector, ...fields }) => {
+        floats.set(vector, offset);
+        offset += vector.length;
+        return { ...fields, dimensions: vector.length };
+      });
+
+      const previousVectorsFile = `vectors-${this.generation}.bin`;
+      const vectorsFile = `vectors-${++this.generation}.bin`;
+      const index: PersistedIndex = {
+        version: 1,
+        indexType: this.config.indexType,
+        vectorsFile,
+        records,
+        graphs: Object.fromEntries(Array.from(this.graphs.entries()).map(([key, graph]) => [key, graph.serialize()]))
+      };
+
+      const indexPath = join(this.config.path, INDEX_FILE);
+      await fs.writeFile(join(this.config.path, vectorsFile), Buffer.from(floats.buffer));
+      await fs.writeFile(`${indexPath}.tmp`, JSON.stringify(index));
+      await fs.rename(`${indexPath}.tmp`, indexPath);
+      await fs.rm(join(this.config.path, previousVectorsFile), { force: true });
+    });
+
+    return this.saving;
+  }
+}
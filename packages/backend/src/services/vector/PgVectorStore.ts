@@ -0,0 +1,201 @@
+/**
+ * pgvector Vector Store
+ *
+ * Embeddings live in document_chunks.embedding and are searched with the vector_search
+ * RPC (HNSW index, access control and revision pinning in SQL). Vectors are written and
+ * deleted together with their chunk rows, so upsert and delete have nothing left to do.
+ *
+ * @author ARYA RAG Team
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { DatabaseClient, Database } from '../../config/database';
+import {
+  VectorStore,
+  VectorStoreBackend,
+  VectorRecord,
+  VectorQuery,
+  VectorMatch,
+  VectorDeleteFilter
+} from './VectorStore';
+
+export class PgVectorStore extends VectorStore {
+  readonly backend: VectorStoreBackend = 'pgvector';
+  private db: SupabaseClient<Database, 'public'>;
+
+  constructor() {
+    super();
+    this.db = DatabaseClient.getInstance().getClient();
+  }
+
+  get storesEmbeddingsInChunks(): boolean {
+    return true;
+  }
+
+  /**
+   * Embeddings were inserted with the chunk rows
+   */
+  async upsert(_records: VectorRecord[]): Promise<void> {
+    return;
+  }
+
+  /**
+   * Embeddings are deleted with the chunk rows
+   */
+  async delete(_filter: VectorDeleteFilter): Promise<void> {
+    return;
+  }
+
+  /**
+   * Similarity search through the vector_search RPC, with a direct SQL fallback
+   */
+  async search(query: VectorQuery): Promise<VectorMatch[]> {
+    // Never pad or truncate: vector_search only compares chunks with the query's dimensions and embedding model
+    const rpcParams = {
+      query_embedding: query.embedding,
+      user_id_param: query.userId,
+      similarity_threshold: query.similarityThreshold,
+      match_count: query.topK,
+      revision_pins: query.revisions && Object.keys(query.revisions).length > 0 ? query.revisions : null,
+      embedding_model_param: query.embeddingModel || null,
+      document_ids_param: query.documentIds?.length ? query.documentIds : null,
+      // Access control happens in SQL (readable_document_ids), including for workspace documents
+      workspace_ids_param: query.workspaceIds?.length ? query.workspaceIds : null
+    };
+
+    const { data: rpcData, error } = await (this.db as any).rpc('vector_search', rpcParams);
+    let data = rpcData;
+
+    // Log response status
+    if (error) {
+      console.log(`❌ RPC error: ${error.message}`);
+      throw new Error(`Vector search RPC failed: ${error.message}`);
+    }
+    console.log(`📥 RPC returned ${data?.length || 0} results`);
+
+    // Direct SQL fallback if the RPC found nothing
+    if (!data || data.length === 0) {
+      console.log('🔄 Trying direct SQL fallback');
+      try {
+        const sqlQuery = `
+          SELECT
+            dc.chunk_id,
+            dc.document_id,
+            dc.chunk_text,
+            dc.page_number,
+            dc.section_title,
+            ud.filename,
+            dc.page_position_start,
+            dc.page_position_end,
+            (1 - (dc.embedding <=> $1::vector)) as similarity_score
+          FROM document_chunks dc
+          INNER JOIN user_documents ud ON dc.document_id = ud.document_id
+          WHERE
+            dc.document_id IN (SELECT r.document_id FROM readable_document_ids($2, $8::text[]) r)
+            AND ($7::text[] IS NULL OR dc.document_id = ANY($7::text[]))
+            AND dc.embedding IS NOT NULL
+            AND vector_dims(dc.embedding) = vector_dims($1::vector)
+            AND ($6::text IS NULL OR dc.embedding_model = $6)
+            AND dc.revision = COALESCE(($5::jsonb ->> dc.document_id)::int, ud.current_revision)
+            AND (1 - (dc.embedding <=> $1::vector)) >= $3
+          ORDER BY dc.embedding <=> $1::vector
+          LIMIT $4
+        `;
+
+        const { data: sqlData, error: sqlError } = await (this.db as any)
+          .rpc('exec_sql', {
+            sql_query: sqlQuery,
+            params: [
+              query.embedding,
+              query.userId,
+              query.similarityThreshold,
+              query.topK,
+              JSON.stringify(rpcParams.revision_pins),
+              rpcParams.embedding_model_param,
+              rpcParams.document_ids_param,
+              rpcParams.workspace_ids_param
+            ]
+          });
+
+        if (!sqlError && sqlData?.length > 0) {
+          console.log(`✅ SQL fallback found ${sqlData.length} results`);
+          data = sqlData;
+        }
+      } catch (sqlError) {
+        console.log(`❌ SQL fallback failed: ${sqlError instanceof Error ? sqlError.message : sqlError}`);
+      }
+    }
+
+    // Test index usage in development only
+    if (process.env.NODE_ENV === 'development' && data?.length > 0) {
+      try {
+        const { data: explainData } = await (this.db as any).rpc('exec_sql', {
+          sql_query: 'EXPLAIN SELECT 1 FROM document_chunks WHERE user_id = $1 LIMIT 1',
+          params: [query.userId]
+        });
+        const usesIndex = JSON.stringify(explainData).includes('idx_document_chunks_embedding');
+        console.log(`🔍 Index status: ${usesIndex ? 'HNSW' : 'Sequential'}`);
+      } catch {
+        // Ignore index test errors
+      }
+    }
+
+    return (data || []).map((row: any) => ({
+      chunkId: row.chunk_id,
+      documentId: row.document_id,
+      documentName: row.filename || 'Unknown',
+      chunkText: row.chunk_text,
+      pageNumber: row.page_number,
+      sectionTitle: row.section_title,
+      isOcr: row.is_ocr,
+      ocrConfidence: row.ocr_confidence,
+      revision: row.revision,
+      pagePositionStart: row.page_position_start,
+      pagePositionEnd: row.page_position_end,
+      similarity: row.similarity_score
+    }));
+  }
+
+  /**
+   * Read embeddings back from the chunk rows
+   */
+  async getEmbeddingsByContentHash(
+    documentId: string,
+    revision: number,
+    contentHashes: string[],
+    embeddingModel: string
+  ): Promise<Map<string, number[]>> {
+    const embeddings = new Map<string, number[]>();
+    if (contentHashes.length === 0) {
+      return embeddings;
+    }
+
+    const { data, error } = await (this.db as any)
+      .from('document_chunks')
+      .select('content_hash, embedding, embedding_model')
+      .eq('document_id', documentId)
+      .eq('revision', revision)
+      .in('content_hash', contentHashes);
+
+    if (error) {
+      throw new Error(`Failed to fetch stored embeddings: ${error.message}`);
+    }
+
+    for (const row of data || []) {
+      if (!row.embedding || row.embedding_model !== embeddingModel) continue;
+      // PostgREST returns pgvector columns as a "[0.1,0.2,...]" string
+      const embedding = typeof row.embedding === 'string' ? JSON.parse(row.embedding) : row.embedding;
+      embeddings.set(row.content_hash, embedding);
+    }
+
+    return embeddings;
+  }
+
+  async testConnection(): Promise<boolean> {
+    const { error } = await (this.db as any)
+      .from('document_chunks')
+      .select('chunk_id', { count: 'exact', head: true });
+
+    return !error;
+  }
+}
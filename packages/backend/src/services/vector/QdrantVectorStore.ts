@@ -0,0 +1,232 @@
+/**
+ * Qdrant Vector Store
+ *
+ * Adapter for a self-hosted Qdrant server (REST API). Vectors of each dimension go to
+ * their own collection (<collection>_<dims>d, cosine distance); chunk fields are stored
+ * in the point payload, and the point ID is a UUID derived from the chunk ID.
+ *
+ * @author ARYA RAG Team
+ */
+
+import { createHash } from 'crypto';
+import {
+  VectorStore,
+  VectorStoreBackend,
+  VectorRecord,
+  VectorQuery,
+  VectorMatch,
+  VectorDeleteFilter
+} from './VectorStore';
+
+export interface QdrantVectorStoreConfig {
+  url: string;
+  apiKey?: string;
+  collection: string; // Collection name prefix
+  timeoutMs: number;
+}
+
+// Payload fields that search and delete filter on
+const PAYLOAD_INDEXES: Array<[string, 'keyword' | 'integer']> = [
+  ['document_id', 'keyword'],
+  ['user_id', 'keyword'],
+  ['embedding_model', 'keyword'],
+  ['revision', 'integer']
+];
+
+/**
+ * Qdrant point IDs must be unsigned integers or UUIDs
+ */
+function pointId(chunkId: string): string {
+  const hex = createHash('sha1').update(chunkId).digest('hex');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20, 32)}`;
+}
+
+export class QdrantVectorStore extends VectorStore {
+  readonly backend: VectorStoreBackend = 'qdrant';
+  private config: QdrantVectorStoreConfig;
+  private collections: Set<string> | null = null;
+
+  constructor(config: Partial<QdrantVectorStoreConfig> = {}) {
+    super();
+    this.config = {
+      url: (config.url || 'http://localhost:6333').replace(/\/$/, ''),
+      apiKey: config.apiKey,
+      collection: config.collection || 'arya_chunks',
+      timeoutMs: config.timeoutMs || 30000
+    };
+
+    console.log(`📦 Qdrant vector store: ${this.config.url} (${this.config.collection})`);
+  }
+
+  async upsert(records: VectorRecord[]): Promise<void> {
+    const byDimensions = new Map<number, VectorRecord[]>();
+    records.forEach(record => {
+      const group = byDimensions.get(record.embedding.length) || [];
+      group.push(record);
+      byDimensions.set(record.embedding.length, group);
+    });
+
+    for (const [dimensions, group] of byDimensions) {
+      const collection = await this.ensureCollection(dimensions);
+      await this.request('PUT', `/collections/${collection}/points?wait=true`, {
+        points: group.map(record => ({
+          id: pointId(record.chunkId),
+          vector: record.embedding,
+          payload: this.toPayload(record)
+        }))
+      });
+    }
+  }
+
+  async search(query: VectorQuery): Promise<VectorMatch[]> {
+    const collection = this.collectionName(query.embedding.length);
+    if (!(await this.listCollections()).has(collection)) {
+      return [];
+    }
+
+    const scope = await this.resolveSearchScope(query);
+    if (scope.size === 0) {
+      return [];
+    }
+
+    const points = await this.request('POST', `/collections/${collection}/points/search`, {
+      vector: query.embedding,
+      limit: query.topK,
+      score_threshold: query.similarityThreshold,
+      with_payload: true,
+      filter: {
+        must: query.embeddingModel ? [{ key: 'embedding_model', match: { value: query.embeddingModel } }] : [],
+        // Each readable document only in the revision being searched
+        should: Array.from(scope.entries()).map(([documentId, { revision }]) => ({
+          must: [
+            { key: 'document_id', match: { value: documentId } },
+            { key: 'revision', match: { value: revision } }
+          ]
+        }))
+      }
+    });
+
+    return (points || []).map((point: any) => this.fromPayload(point.payload, point.score, scope));
+  }
+
+  async getEmbeddingsByContentHash(
+    documentId: string,
+    revision: number,
+    contentHashes: string[],
+    embeddingModel: string
+  ): Promise<Map<string, number[]>> {
+    const embeddings = new Map<string, number[]>();
+    if (contentHashes.length === 0) {
+      return embeddings;
+    }
+
+    const filter = {
+      must: [
+        { key: 'document_id', match: { value: documentId } },
+        { key: 'revision', match: { value: revision } },
+        { key: 'embedding_model', match: { value: embeddingModel } },
+        { key: 'content_hash', match: { any: contentHashes } }
+      ]
+    };
+
+    for (const collection of await this.listCollections()) {
+      let offset: string | number | null = null;
+      do {
+        const page: any = await this.request('POST', `/collections/${collection}/points/scroll`, {
+          filter,
+          limit: 256,
+          offset,
+          with_payload: ['content_hash'],
+          with_vector: true
+        });
+
+        (page?.points || []).forEach((point: any) => embeddings.set(point.payload.content_hash, point.vector));
+        offset = page?.next_page_offset ?? null;
+      } while (offset !== null);
+    }
+
+    return embeddings;
+  }
+
+  async delete(filter: VectorDeleteFilter): Promise<void> {
+    this.assertDeleteFilter(filter);
+
+    const must: any[] = [];
+    if (filter.documentId) must.push({ key: 'document_id', match: { value: filter.documentId } });
+    if (filter.userId) must.push({ key: 'user_id', match: { value: filter.userId } });
+    if (filter.embeddingModel) must.push({ key: 'embedding_model', match: { value: filter.embeddingModel } });
+    if (filter.revisions) must.push({ key: 'revision', match: { any: filter.revisions } });
+    if (filter.chunkIds) must.push({ has_id: filter.chunkIds.map(pointId) });
+
+    for (const collection of await this.listCollections()) {
+      await this.request('POST', `/collections/${collection}/points/delete?wait=true`, { filter: { must } });
+    }
+  }
+
+  async testConnection(): Promise<boolean> {
+    try {
+      await this.request('GET', '/collections');
+      return true;
+    } catch (error) {
+      console.error(`❌ Qdrant connection failed: ${error instanceof Error ? error.message : error}`);
+      return false;
+    }
+  }
+
+  private collectionName(dimensions: number): string {
+    return `${this.config.collection}_${dimensions}d`;
+  }
+
+  /**
+   * This store's collections (one per embedding dimension)
+   */
+  private async listCollections(): Promise<Set<string>> {
+    if (!this.collections) {
+      const result = await this.request('GET', '/collections');
+      this.collections = new Set(
+        (result?.collections || [])
+          .map((collection: any) => collection.name as string)
+          .filter((name: string) => name.startsWith(`${this.config.collection}_`))
+      );
+    }
+    return this.collections;
+  }
+
+  private async ensureCollection(dimensions: number): Promise<string> {
+    const collection = this.collectionName(dimensions);
+    if ((await this.listCollections()).has(collection)) {
+      return collection;
+    }
+
+    await this.request('PUT', `/collections/${collection}`, {
+      vectors: { size: dimensions, distance: 'Cosine' }
+    });
+    for (const [field, schema] of PAYLOAD_INDEXES) {
+      await this.request('PUT', `/collections/${collection}/index?wait=true`, { field_name: field, field_schema: schema });
+    }
+
+    this.collections!.add(collection);
+    console.log(`✨ Created Qdrant collection ${collection}`);
+    return collection;
+  }
+
+  private async request(method: string, path: string, body?: unknown): Promise<any> {
+    const response = await fetch(`${this.config.url}${path}`, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.config.apiKey && { 'api-key': this.config.apiKey })
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+      signal: AbortSignal.timeout(this.config.timeoutMs)
+    });
+
+    if (!response.ok) {
+      const text = await response.text().catch(() => '');
+      throw new Error(`Qdrant ${method} ${path} failed: ${response.status} ${text.substring(0, 200)}`);
+    }
+
+    const json: any = await response.json();
+    return json.result;
+  }
+}
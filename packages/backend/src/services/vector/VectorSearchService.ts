@@ -1,7 +1,8 @@
 /**
  * Vector Search Service
  * 
- * Performs similarity search on document chunks using pgvector.
+ * Performs similarity search on document chunks through the configured vector store
+ * (pgvector by default), plus full-text keyword search and hybrid fusion in Postgres.
  * Optimized for fast retrieval with user isolation and page citations.
  * 
  * @author ARYA RAG Team
@@ -10,6 +11,8 @@
 import { SupabaseClient } from '@supabase/supabase-js';
 import { DatabaseClient, Database } from '../../config/database';
 import { SearchParams, SearchResult } from '@arya-rag/types';
+import { VectorStore, VectorQuery } from './VectorStore';
+import { VectorStoreFactory } from './VectorStoreFactory';
 
 export interface VectorSearchConfig {
   defaultTopK: number;
@@ -17,17 +20,39 @@ export interface VectorSearchConfig {
   maxTopK: number;
   cacheResults: boolean;
   cacheTTLSeconds: number;
+  defaultSearchMode: SearchMode;
+  rrfK: number; // Reciprocal rank fusion damping constant
 }
 
+/**
+ * Retrieval mode:
+ * - vector: cosine similarity in the vector store only
+ * - keyword: full-text (BM25-style) search only
+ * - hybrid: both in parallel, fused with reciprocal rank fusion
+ */
+export type SearchMode = 'vector' | 'keyword' | 'hybrid';
+
 export interface SearchOptions {
   topK?: number;
   similarityThreshold?: number;
   documentIds?: string[];
   includeMetadata?: boolean;
+  searchMode?: SearchMode;
+  revisions?: Record<string, number>; // documentId -> revision; other documents use their current revision
+  embeddingModel?: string; // Only match chunks embedded with this model (the model that embedded the query)
+  workspaceIds?: string[]; // Only search these workspaces; by default own documents plus every workspace the user belongs to
 }
 
 export interface ExtendedSearchResult extends SearchResult {
-  similarity: number; // Add similarity property for internal use
+  similarity?: number; // Vector similarity (same as similarityScore); absent for keyword-only matches
+  keywordScore?: number; // Normalized full-text rank (keyword/hybrid modes)
+  fusionScore?: number; // Reciprocal rank fusion score (hybrid mode)
+  rerankScore?: number; // Relevance score assigned by a reranker (0-1)
+  originalRank?: number; // Position in search results before reranking (1-based)
+  ocr?: boolean; // Chunk text was recognized by OCR
+  ocrConfidence?: number;
+  parentText?: string; // Parent section the LLM is given instead of this child chunk (parent-child indexing)
+  matchedChildren?: number; // Matched children of that parent merged into this result
   processingMetadata?: {
     searchTimeMs: number;
     totalCandidates: number;
@@ -35,6 +60,14 @@ export interface ExtendedSearchResult extends SearchResult {
   };
 }
 
+/**
+ * Relevance of a result for confidence scores: its vector similarity, or for keyword-only
+ * matches the normalized full-text rank (both 0-1), falling back to the fusion score
+ */
+export function relevanceScore(result: ExtendedSearchResult): number {
+  return result.similarityScore ?? result.keywordScore ?? result.fusionScore ?? 0;
+}
+
 export interface SearchStats {
   totalSearches: number;
   avgSearchTimeMs: number;
@@ -47,15 +80,19 @@ export class VectorSearchService {
   private config: VectorSearchConfig;
   private searchCache: Map<string, { results: ExtendedSearchResult[]; timestamp: number }>;
   private stats: SearchStats;
+  private store: VectorStore;
 
-  constructor(config: Partial<VectorSearchConfig> = {}) {
+  constructor(config: Partial<VectorSearchConfig> = {}, store?: VectorStore) {
     this.db = DatabaseClient.getInstance().getClient();
+    this.store = store || VectorStoreFactory.getInstance().createVectorStore();
     this.config = {
       defaultTopK: config.defaultTopK || 10,
       defaultSimilarityThreshold: config.defaultSimilarityThreshold || 0.65,
       maxTopK: config.maxTopK || 50,
       cacheResults: config.cacheResults ?? true,
-      cacheTTLSeconds: config.cacheTTLSeconds || 300 // 5 minutes
+      cacheTTLSeconds: config.cacheTTLSeconds || 300, // 5 minutes
+      defaultSearchMode: config.defaultSearchMode || 'vector',
+      rrfK: config.rrfK || 60
     };
     
     this.searchCache = new Map();
@@ -92,6 +129,15 @@ export class VectorSearchService {
       return cachedResults;
     }
 
+    // Keyword and hybrid modes are handled separately; the rest of this method is pure vector search
+    const searchMode = options.searchMode || this.config.defaultSearchMode;
+    if (searchMode !== 'vector') {
+      if (options.queryText?.trim()) {
+        return this.hybridSearch(queryEmbedding, userId, { ...options, queryText: options.queryText }, searchMode, cacheKey, startTime);
+      }
+      console.log(`⚠️ ${searchMode} search requested without query text, using vector search`);
+    }
+
     // Prepare search parameters
     const topK = Math.min(options.topK || this.config.defaultTopK, this.config.maxTopK);
     const similarityThreshold = options.similarityThreshold || this.config.defaultSimilarityThreshold;
@@ -104,7 +150,7 @@ export class VectorSearchService {
         console.log(`📡 Starting vector search (${queryEmbedding.length}D embedding)`);
       }
       
-      // Ensure embedding is an array (not a string) for RPC
+      // Ensure embedding is an array (not a string)
       let embeddingArray = queryEmbedding;
       if (typeof queryEmbedding === 'string') {
         try {
@@ -115,122 +161,38 @@ export class VectorSearchService {
         }
       }
       
-      // Fix dimension mismatch - ensure exactly 768 dimensions
-      if (embeddingArray.length !== 768) {
-        console.log(`⚠️ Dimension mismatch: got ${embeddingArray.length}, expected 768`);
-        if (embeddingArray.length > 768) {
-          // Truncate to 768
-          embeddingArray = embeddingArray.slice(0, 768);
-          console.log('✂️ Truncated embedding to 768 dimensions');
-        } else {
-          // Pad with zeros to 768
-          const padding = new Array(768 - embeddingArray.length).fill(0);
-          embeddingArray = [...embeddingArray, ...padding];
-          console.log(`➕ Padded embedding with ${padding.length} zeros to 768 dimensions`);
-        }
-      }
-      
-      const rpcParams = {
-        query_embedding: embeddingArray,
-        user_id_param: userId,
-        similarity_threshold: similarityThreshold,
-        match_count: topK
+      // Never pad or truncate: stores only compare vectors with the query's dimensions and embedding model
+      const vectorQuery: VectorQuery = {
+        embedding: embeddingArray,
+        userId,
+        topK,
+        similarityThreshold,
+        embeddingModel: options.embeddingModel,
+        documentIds: options.documentIds,
+        revisions: options.revisions,
+        workspaceIds: options.workspaceIds
       };
-      // Log dimension fix if applied
-      if (embeddingArray.length !== queryEmbedding.length) {
-        console.log(`⚙️ Adjusted embedding dimensions: ${queryEmbedding.length} → ${embeddingArray.length}`);
-      }
       
-      // Try the RPC call with the embedding as-is
-      let { data, error } = await this.db.rpc('vector_search', rpcParams);
+      let data = await this.store.search(vectorQuery);
       
       // If no results, try with lower threshold
-      if (!error && (!data || data.length === 0) && similarityThreshold > 0.5) {
+      if (data.length === 0 && similarityThreshold > 0.5) {
         console.log('🔄 Retrying with lower threshold (0.5)');
-        const { data: lowThresholdData, error: lowThresholdError } = await this.db.rpc('vector_search', {
-          ...rpcParams,
-          similarity_threshold: 0.5
-        });
+        const lowThresholdData = await this.store.search({ ...vectorQuery, similarityThreshold: 0.5 });
         
-        if (!lowThresholdError && lowThresholdData?.length > 0) {
-          const filteredData = lowThresholdData.filter(r => r.similarity_score >= similarityThreshold);
-          data = filteredData.length > 0 ? filteredData : lowThresholdData;
+        if (lowThresholdData.length > 0) {
+          data = lowThresholdData;
           console.log(`✅ Fallback found ${data.length} results`);
         }
       }
 
-      // Log response status
-      if (error) {
-        console.log(`❌ RPC error: ${error.message}`);
-      } else {
-        console.log(`📥 RPC returned ${data?.length || 0} results`);
-      }
-      
-      // Direct SQL fallback if RPC fails
-      if (!error && (!data || data.length === 0)) {
-        console.log('🔄 Trying direct SQL fallback');
-        // SQL fallback code remains the same but with simplified logging
-        try {
-          const sqlQuery = `
-            SELECT 
-              dc.chunk_id,
-              dc.document_id,
-              dc.chunk_text,
-              dc.page_number,
-              dc.section_title,
-              ud.filename,
-              (1 - (dc.embedding <=> $1::vector(768))) as similarity_score
-            FROM document_chunks dc
-            INNER JOIN user_documents ud ON dc.document_id = ud.document_id
-            WHERE 
-              dc.user_id = $2
-              AND dc.embedding IS NOT NULL
-              AND (1 - (dc.embedding <=> $1::vector(768))) >= $3
-            ORDER BY dc.embedding <=> $1::vector(768)
-            LIMIT $4
-          `;
-          
-          const { data: sqlData, error: sqlError } = await this.db
-            .rpc('exec_sql', {
-              sql_query: sqlQuery,
-              params: [embeddingArray, userId, similarityThreshold, topK]
-            });
-            
-          if (!sqlError && sqlData?.length > 0) {
-            console.log(`✅ SQL fallback found ${sqlData.length} results`);
-            Object.assign(data, sqlData);
-          }
-        } catch (sqlError) {
-          console.log(`❌ SQL fallback failed: ${sqlError.message}`);
-        }
-      }
-      
-      // Test index usage in development only
-      if (process.env.NODE_ENV === 'development' && data?.length > 0) {
-        try {
-          const { data: explainData } = await this.db.rpc('exec_sql', {
-            sql_query: 'EXPLAIN SELECT 1 FROM document_chunks WHERE user_id = $1 LIMIT 1',
-            params: [userId]
-          });
-          const usesIndex = JSON.stringify(explainData).includes('idx_document_chunks_embedding');
-          console.log(`🔍 Index status: ${usesIndex ? 'HNSW' : 'Sequential'}`);
-        } catch {
-          // Ignore index test errors
-        }
-      }
-
-      if (error) {
-        console.error(`❌ Vector search failed: ${error.message}`);
-        throw new Error(`Vector search RPC failed: ${error.message}`);
-      }
-
-      if (!data || data.length === 0) {
+      if (data.length === 0) {
         console.log('⚠️ No results found (empty database or similarity < threshold)');
         return [];
       }
 
       // Log search results summary
-      const similarities = data.map((row: any) => row.similarity_score);
+      const similarities = data.map(match => match.similarity);
       const avgSimilarity = similarities.reduce((a, b) => a + b, 0) / similarities.length;
       const maxSimilarity = Math.max(...similarities);
       const minSimilarity = Math.min(...similarities);
@@ -239,21 +201,26 @@ export class VectorSearchService {
       
       // Show top results briefly
       if (data.length > 0 && process.env.NODE_ENV === 'development') {
-        data.slice(0, 3).forEach((row: any, i: number) => {
-          console.log(`  ${i + 1}. Page ${row.page_number}: ${row.similarity_score.toFixed(3)} - "${row.chunk_text?.substring(0, 80)}..."`);
+        data.slice(0, 3).forEach((match, i) => {
+          console.log(`  ${i + 1}. Page ${match.pageNumber}: ${match.similarity.toFixed(3)} - "${match.chunkText?.substring(0, 80)}..."`);
         });
         if (data.length > 3) console.log(`  ... and ${data.length - 3} more`);
       }
 
       // Convert results to our expected format
-      const resultsWithSimilarity = data.map((row: any) => ({
-        id: row.chunk_id,
-        document_id: row.document_id,
-        document_name: row.filename || 'Unknown',
-        chunk_text: row.chunk_text,
-        page_number: row.page_number,
-        section_title: row.section_title,
-        similarity: row.similarity_score
+      const resultsWithSimilarity = data.map(match => ({
+        id: match.chunkId,
+        document_id: match.documentId,
+        document_name: match.documentName,
+        chunk_text: match.chunkText,
+        page_number: match.pageNumber,
+        section_title: match.sectionTitle,
+        is_ocr: match.isOcr,
+        ocr_confidence: match.ocrConfidence,
+        revision: match.revision,
+        page_position_start: match.pagePositionStart,
+        page_position_end: match.pagePositionEnd,
+        similarity: match.similarity
       }));
 
       console.log(`\n📊 FINAL RESULT: ${resultsWithSimilarity.length} results above threshold ${similarityThreshold}`);
@@ -265,7 +232,7 @@ export class VectorSearchService {
       const results = this.formatSearchResults(resultsWithSimilarity, {
         searchTimeMs: Date.now() - startTime,
         totalCandidates: resultsWithSimilarity.length,
-        model: 'pgvector_cosine_real'
+        model: `${this.store.backend}_cosine`
       });
 
       // Cache results if enabled
@@ -347,6 +314,111 @@ export class VectorSearchService {
     }
   }
 
+  /**
+   * Keyword or hybrid search
+   * Hybrid runs vector and keyword search in parallel and fuses the ranked lists with RRF
+   */
+  private async hybridSearch(
+    queryEmbedding: number[],
+    userId: string,
+    options: SearchOptions & { queryText: string },
+    searchMode: Exclude<SearchMode, 'vector'>,
+    cacheKey: string,
+    startTime: number
+  ): Promise<ExtendedSearchResult[]> {
+    const topK = Math.min(options.topK || this.config.defaultTopK, this.config.maxTopK);
+    // Fetch extra candidates from each retriever so fusion has overlap to work with
+    const candidateCount = Math.min(topK * 2, this.config.maxTopK);
+
+    console.log(`🔍 ${searchMode === 'hybrid' ? 'Hybrid' : 'Keyword'} search: ${topK} results`);
+
+    const [vectorResults, keywordResults] = await Promise.all([
+      searchMode === 'hybrid'
+        ? this.search(queryEmbedding, userId, { ...options, searchMode: 'vector', topK: candidateCount })
+        : Promise.resolve([]),
+      this.keywordSearch(options.queryText, userId, candidateCount, options.documentIds, options.revisions, options.workspaceIds)
+    ]);
+
+    console.log(`📥 Vector: ${vectorResults.length}, keyword: ${keywordResults.length} candidates`);
+
+    const fused = this.mergeSearchResults([vectorResults, keywordResults], this.config.rrfK);
+    const results = fused.slice(0, topK).map(result => ({
+      ...result,
+      processingMetadata: {
+        searchTimeMs: Date.now() - startTime,
+        totalCandidates: fused.length,
+        model: searchMode === 'hybrid' ? 'hybrid_rrf' : 'postgres_fulltext'
+      }
+    }));
+
+    if (this.config.cacheResults) {
+      this.cacheResults(cacheKey, results);
+    }
+
+    this.updateStats(results.length, Date.now() - startTime, false);
+
+    console.log(`✅ ${searchMode} search complete: ${results.length} results in ${Date.now() - startTime}ms`);
+
+    return results;
+  }
+
+  /**
+   * Full-text keyword search through the keyword_search RPC
+   * Returns an empty list on failure so hybrid search degrades to vector-only
+   */
+  private async keywordSearch(
+    queryText: string,
+    userId: string,
+    topK: number,
+    documentIds?: string[],
+    revisions?: Record<string, number>,
+    workspaceIds?: string[]
+  ): Promise<ExtendedSearchResult[]> {
+    const startTime = Date.now();
+
+    try {
+      const { data, error } = await (this.db as any).rpc('keyword_search', {
+        query_text: queryText,
+        user_id_param: userId,
+        match_count: topK,
+        document_ids_param: documentIds?.length ? documentIds : null,
+        revision_pins: revisions && Object.keys(revisions).length > 0 ? revisions : null,
+        workspace_ids_param: workspaceIds?.length ? workspaceIds : null
+      });
+
+      if (error) {
+        console.log(`❌ Keyword search RPC error: ${error.message}`);
+        return [];
+      }
+
+      const rows = (data || []).map((row: any) => ({
+        id: row.chunk_id,
+        document_id: row.document_id,
+        document_name: row.filename || 'Unknown',
+        chunk_text: row.chunk_text,
+        page_number: row.page_number,
+        section_title: row.section_title,
+        is_ocr: row.is_ocr,
+        ocr_confidence: row.ocr_confidence,
+        revision: row.revision,
+        page_position_start: row.page_position_start,
+        page_position_end: row.page_position_end,
+        keyword_score: row.keyword_score
+      }));
+
+      // The full-text rank is not a vector similarity, so it is kept apart from it
+      return this.formatSearchResults(rows, {
+        searchTimeMs: Date.now() - startTime,
+        totalCandidates: rows.length,
+        model: 'postgres_fulltext'
+      });
+
+    } catch (error) {
+      console.log(`❌ Keyword search failed: ${error instanceof Error ? error.message : error}`);
+      return [];
+    }
+  }
+
   /**
    * Search with multiple queries (useful for query expansion)
    */
@@ -368,7 +440,7 @@ export class VectorSearchService {
     const mergedResults = this.mergeSearchResults(allResults);
 
     // Re-sort by highest similarity
-    mergedResults.sort((a, b) => b.similarity - a.similarity);
+    mergedResults.sort((a, b) => (b.similarity ?? 0) - (a.similarity ?? 0));
 
     // Apply top-k limit
     const topK = Math.min(options.topK || this.config.defaultTopK, this.config.maxTopK);
@@ -403,6 +475,60 @@ export class VectorSearchService {
     return rerankedResults.slice(0, options.topK || this.config.defaultTopK);
   }
 
+  /**
+   * Parents of matched chunks, for documents indexed parent-child (stored by VectorStorageService.storeParentChunks)
+   * @returns parentKeys: chunkId -> parent key, for children; parents: parent key -> parent text
+   */
+  async getChunkParents(chunkIds: string[]): Promise<{ parentKeys: Map<string, string>; parents: Map<string, string> }> {
+    const parentKeys = new Map<string, string>();
+    const parents = new Map<string, string>();
+    if (chunkIds.length === 0) {
+      return { parentKeys, parents };
+    }
+
+    const { data: children, error } = await (this.db as any)
+      .from('document_chunks')
+      .select('chunk_id, document_id, revision, parent_index')
+      .in('chunk_id', chunkIds)
+      .not('parent_index', 'is', null);
+
+    if (error) {
+      throw new Error(`Failed to fetch chunk parents: ${error.message}`);
+    }
+
+    const parentKey = (documentId: string, revision: number, parentIndex: number) => `${documentId}:${revision}:${parentIndex}`;
+    const wanted = new Map<string, { documentId: string; revision: number; indexes: Set<number> }>();
+    (children || []).forEach((row: any) => {
+      const revision = row.revision || 1;
+      parentKeys.set(row.chunk_id, parentKey(row.document_id, revision, row.parent_index));
+
+      const group = `${row.document_id}:${revision}`;
+      if (!wanted.has(group)) {
+        wanted.set(group, { documentId: row.document_id, revision, indexes: new Set() });
+      }
+      wanted.get(group)!.indexes.add(row.parent_index);
+    });
+
+    for (const { documentId, revision, indexes } of wanted.values()) {
+      const { data, error: parentError } = await (this.db as any)
+        .from('document_chunk_parents')
+        .select('parent_index, parent_text')
+        .eq('document_id', documentId)
+        .eq('revision', revision)
+        .in('parent_index', Array.from(indexes));
+
+      if (parentError) {
+        throw new Error(`Failed to fetch parent chunks: ${parentError.message}`);
+      }
+
+      (data || []).forEach((row: any) => {
+        parents.set(parentKey(documentId, revision, row.parent_index), row.parent_text);
+      });
+    }
+
+    return { parentKeys, parents };
+  }
+
   /**
    * Get search statistics for a user
    */
@@ -483,26 +609,52 @@ export class VectorSearchService {
       sectionTitle: result.section_title,
       similarity: result.similarity,
       similarityScore: result.similarity,
+      keywordScore: result.keyword_score ?? undefined,
+      ocr: result.is_ocr || undefined,
+      ocrConfidence: result.ocr_confidence ?? undefined,
+      revision: result.revision ?? undefined,
+      pagePositionStart: result.page_position_start ?? undefined,
+      pagePositionEnd: result.page_position_end ?? undefined,
       processingMetadata: metadata
     }));
   }
 
   /**
    * Merge multiple search results and deduplicate
+   * When rrfK is given, results are fused with reciprocal rank fusion
+   * (score = sum of 1 / (rrfK + rank) over every list a chunk appears in) and sorted by that score
    */
-  private mergeSearchResults(resultSets: ExtendedSearchResult[][]): ExtendedSearchResult[] {
+  private mergeSearchResults(resultSets: ExtendedSearchResult[][], rrfK?: number): ExtendedSearchResult[] {
     const merged = new Map<string, ExtendedSearchResult>();
+    const fusionScores = new Map<string, number>();
 
     resultSets.forEach(results => {
-      results.forEach(result => {
+      results.forEach((result, rank) => {
         const existing = merged.get(result.chunkId);
-        if (!existing || result.similarity > existing.similarity) {
+        if (!existing) {
           merged.set(result.chunkId, result);
+        } else {
+          // Prefer the higher vector similarity but keep scores contributed by the other retriever
+          const [best, other] = (result.similarity ?? -1) > (existing.similarity ?? -1) ? [result, existing] : [existing, result];
+          merged.set(result.chunkId, {
+            ...best,
+            keywordScore: best.keywordScore ?? other.keywordScore
+          });
+        }
+
+        if (rrfK !== undefined) {
+          fusionScores.set(result.chunkId, (fusionScores.get(result.chunkId) || 0) + 1 / (rrfK + rank + 1));
         }
       });
     });
 
-    return Array.from(merged.values());
+    if (rrfK === undefined) {
+      return Array.from(merged.values());
+    }
+
+    return Array.from(merged.values())
+      .map(result => ({ ...result, fusionScore: fusionScores.get(result.chunkId) }))
+      .sort((a, b) => (b.fusionScore || 0) - (a.fusionScore || 0));
   }
 
   /**
@@ -511,14 +663,21 @@ export class VectorSearchService {
   private generateCacheKey(
     queryEmbedding: number[],
     userId: string,
-    options: SearchOptions
+    options: SearchOptions & { queryText?: string }
   ): string {
     // Use first few embedding values for cache key (full embedding would be too long)
     const embeddingPrefix = queryEmbedding.slice(0, 5).map(v => v.toFixed(4)).join(',');
+    const searchMode = options.searchMode || this.config.defaultSearchMode;
     const optionsKey = JSON.stringify({
       topK: options.topK,
       threshold: options.similarityThreshold,
-      docs: options.documentIds?.sort()
+      docs: options.documentIds?.sort(),
+      mode: searchMode,
+      revisions: options.revisions,
+      model: options.embeddingModel,
+      workspaces: options.workspaceIds?.slice().sort(),
+      // Keyword results depend on the exact query text, not just the embedding
+      text: searchMode === 'vector' ? undefined : options.queryText
     });
     
     return `${userId}:${embeddingPrefix}:${optionsKey}`;
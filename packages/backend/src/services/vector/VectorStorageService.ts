@@ -1,7 +1,10 @@
 /**
  * Vector Storage Service
  * 
- * Handles storage of document chunks with vector embeddings in Supabase.
+ * Handles storage of document chunks in Supabase and their embeddings in the configured
+ * vector store (pgvector keeps them in the chunk rows; other stores in their own index).
+ * Parent sections of parent-child indexed documents are stored next to the chunk rows;
+ * VectorSearchService reads both back.
  * Optimized for batch operations and large-scale document collections.
  * 
  * @author ARYA RAG Team
@@ -18,6 +21,9 @@ import {
 } from '../../config/database';
 import { DocumentChunk } from '@arya-rag/types';
 import { ChunkWithEmbedding } from '@arya-rag/types';
+import { VectorStore, VectorRecord } from './VectorStore';
+import { ParentChunk } from '../chunking/ChunkingService';
+import { VectorStoreFactory } from './VectorStoreFactory';
 
 export interface VectorStorageConfig {
   batchSize: number;
@@ -50,9 +56,11 @@ export interface DocumentStorageStats {
 export class VectorStorageService {
   private db: SupabaseClient<Database, 'public'>;
   private config: VectorStorageConfig;
+  private store: VectorStore;
   
-  constructor(config: Partial<VectorStorageConfig> = {}) {
+  constructor(config: Partial<VectorStorageConfig> = {}, store?: VectorStore) {
     this.db = DatabaseClient.getInstance().getClient();
+    this.store = store || VectorStoreFactory.getInstance().createVectorStore();
     this.config = {
       batchSize: config.batchSize || 100, // Supabase handles batches well
       maxRetries: config.maxRetries || 3,
@@ -62,6 +70,7 @@ export class VectorStorageService {
     console.log('📦 Initialized Vector Storage Service');
     console.log(`   Batch size: ${this.config.batchSize}`);
     console.log(`   Max retries: ${this.config.maxRetries}`);
+    console.log(`   Vector store: ${this.store.backend}`);
   }
 
   /**
@@ -72,7 +81,8 @@ export class VectorStorageService {
     chunks: ChunkWithEmbedding[],
     documentId: string,
     userId: string,
-    embeddingModel: string
+    embeddingModel: string,
+    updateDocumentStats: boolean = true
   ): Promise<StorageResult> {
     const startTime = Date.now();
     const errors: StorageError[] = [];
@@ -129,8 +139,8 @@ export class VectorStorageService {
       }
     }
 
-    // Update document stats
-    if (storedCount > 0) {
+    // Update document stats (skipped when the caller stores a document in several calls)
+    if (updateDocumentStats && storedCount > 0) {
       await this.updateDocumentStats(documentId, storedCount);
     }
 
@@ -182,14 +192,23 @@ export class VectorStorageService {
       return { successCount: 0, errors };
     }
 
+    // Stores other than pgvector keep the vectors; the chunk rows are stored without them
+    const records = dbChunks.map(chunk => this.toVectorRecord(chunk));
+    const rows = this.store.storesEmbeddingsInChunks
+      ? dbChunks
+      : dbChunks.map(chunk => ({ ...chunk, embedding: null }));
+
     // Attempt to insert with retries
     let lastError: Error | null = null;
     
     for (let attempt = 0; attempt <= this.config.maxRetries; attempt++) {
       try {
+        // Vectors first: the upsert is idempotent, so a retried insert never duplicates them
+        await this.store.upsert(records);
+
         const { data, error } = await this.db
           .from('document_chunks' as any)
-          .insert(dbChunks as any)
+          .insert(rows as any)
           .select('document_id, chunk_index');
 
         if (error) {
@@ -228,10 +247,38 @@ export class VectorStorageService {
       }
     }
 
-    // All retries failed
+    // All retries failed: don't leave vectors behind for chunks that were never stored
+    await this.store.delete({ chunkIds: records.map(record => record.chunkId) }).catch(error => {
+      console.warn(`   ⚠️ Failed to remove vectors of the failed batch: ${error instanceof Error ? error.message : error}`);
+    });
+
     throw lastError || new Error('Batch insert failed after all retries');
   }
 
+  /**
+   * Vector store record for a chunk row
+   */
+  private toVectorRecord(chunk: InsertDocumentChunk): VectorRecord {
+    return {
+      chunkId: chunk.chunk_id,
+      documentId: chunk.document_id,
+      userId: chunk.user_id,
+      revision: chunk.revision || 1,
+      chunkIndex: chunk.chunk_index,
+      chunkText: chunk.chunk_text,
+      pageNumber: chunk.page_number,
+      sectionTitle: chunk.section_title,
+      pagePositionStart: chunk.page_position_start,
+      pagePositionEnd: chunk.page_position_end,
+      isOcr: chunk.is_ocr,
+      ocrConfidence: chunk.ocr_confidence,
+      containsTable: chunk.contains_table,
+      contentHash: chunk.content_hash,
+      embedding: chunk.embedding!,
+      embeddingModel: chunk.embedding_model
+    };
+  }
+
   /**
    * Convert application chunk to database format
    */
@@ -265,6 +312,13 @@ export class VectorStorageService {
       page_position_start: chunk.pagePositionStart || 0,
       page_position_end: chunk.pagePositionEnd || chunk.chunkText.length,
       section_title: chunk.sectionTitle,
+      is_ocr: chunk.ocr || false,
+      ocr_confidence: chunk.ocrConfidence ?? null,
+      contains_table: chunk.containsTable || false,
+      section_hierarchy: chunk.sectionHierarchy ?? null,
+      parent_index: chunk.parentIndex ?? null,
+      revision: chunk.revision || 1,
+      content_hash: chunk.contentHash,
       embedding: chunk.embedding, // Use array directly for pgvector
       embedding_model: embeddingModel
     };
@@ -328,6 +382,121 @@ export class VectorStorageService {
     }
   }
 
+  /**
+   * Get the chunk indexes already stored for a document revision
+   * Lets interrupted ingestion skip chunks that were embedded before the restart
+   */
+  async getStoredChunkIndexes(documentId: string, revision: number = 1): Promise<Set<number>> {
+    const { data, error } = await (this.db as any)
+      .from('document_chunks')
+      .select('chunk_index')
+      .eq('document_id', documentId)
+      .eq('revision', revision);
+
+    if (error) {
+      throw new Error(`Failed to fetch stored chunks: ${error.message}`);
+    }
+
+    return new Set((data || []).map((row: any) => row.chunk_index));
+  }
+
+  /**
+   * Find stored embeddings for chunk content hashes in one revision of a document
+   * Used to copy embeddings of unchanged chunks into a new revision instead of re-embedding them
+   * @returns Map of content hash -> embedding, for chunks embedded with embeddingModel
+   */
+  async getEmbeddingsByContentHash(
+    documentId: string,
+    revision: number,
+    contentHashes: string[],
+    embeddingModel: string
+  ): Promise<Map<string, number[]>> {
+    return this.store.getEmbeddingsByContentHash(documentId, revision, contentHashes, embeddingModel);
+  }
+
+  /**
+   * Store the parents of a revision's child chunks (parent-child indexing)
+   * Upserted by parent index, so a resumed ingestion can store them again
+   */
+  async storeParentChunks(parents: ParentChunk[], documentId: string, userId: string, revision: number = 1): Promise<void> {
+    for (const batch of this.createBatches(parents, this.config.batchSize)) {
+      const { error } = await (this.db as any)
+        .from('document_chunk_parents')
+        .upsert(batch.map(parent => ({
+          document_id: documentId,
+          revision,
+          parent_index: parent.parentIndex,
+          user_id: userId,
+          parent_text: parent.text,
+          token_count: parent.tokenCount,
+          page_start: parent.pageStart,
+          page_end: parent.pageEnd,
+          section_title: parent.sectionTitle ?? null,
+          section_hierarchy: parent.sectionHierarchy ?? null,
+          created_at: new Date().toISOString()
+        })), { onConflict: 'document_id,revision,parent_index' });
+
+      if (error) {
+        throw new Error(`Failed to store parent chunks: ${error.message}`);
+      }
+    }
+
+    console.log(`👪 Stored ${parents.length} parent chunks for document ${documentId} (revision ${revision})`);
+  }
+
+  /**
+   * Delete the chunks of specific revisions (superseded, failed or past retention)
+   */
+  async deleteRevisionChunks(documentId: string, revisions: number[]): Promise<void> {
+    if (revisions.length === 0) {
+      return;
+    }
+
+    const { error } = await (this.db as any)
+      .from('document_chunks')
+      .delete()
+      .eq('document_id', documentId)
+      .in('revision', revisions);
+
+    if (error) {
+      throw new Error(`Failed to delete revision chunks: ${error.message}`);
+    }
+
+    const { error: parentError } = await (this.db as any)
+      .from('document_chunk_parents')
+      .delete()
+      .eq('document_id', documentId)
+      .in('revision', revisions);
+
+    if (parentError) {
+      throw new Error(`Failed to delete revision parent chunks: ${parentError.message}`);
+    }
+
+    await this.store.delete({ documentId, revisions });
+
+    console.log(`🗑️  Deleted chunks of revision(s) ${revisions.join(', ')} for document ${documentId}`);
+  }
+
+  /**
+   * Delete a revision's chunks that were embedded with a given model
+   */
+  async deleteChunksByModel(documentId: string, revision: number, embeddingModel: string): Promise<void> {
+    const { error } = await (this.db as any)
+      .from('document_chunks')
+      .delete()
+      .eq('document_id', documentId)
+      .eq('revision', revision)
+      .eq('embedding_model', embeddingModel);
+
+    if (error) {
+      throw new Error(`Failed to delete chunks for model ${embeddingModel}: ${error.message}`);
+    }
+
+    await this.store.delete({ documentId, revisions: [revision], embeddingModel });
+
+    console.log(`🗑️  Deleted revision ${revision} chunks embedded with ${embeddingModel} for document ${documentId}`);
+  }
+
   /**
    * Delete all chunks for a document
    */
@@ -351,6 +520,18 @@ export class VectorStorageService {
         return false;
       }
 
+      const { error: parentError } = await (this.db as any)
+        .from('document_chunk_parents')
+        .delete()
+        .eq('document_id', documentId);
+
+      if (parentError) {
+        console.error('Failed to delete parent chunks:', parentError);
+        return false;
+      }
+
+      await this.store.delete({ documentId, userId });
+
       console.log(`🗑️  Deleted all chunks for document ${documentId}`);
       return true;
 
@@ -424,8 +605,10 @@ export class VectorStorageService {
         return { valid: false, issues };
       }
 
-      // Check for missing embeddings
-      const missingEmbeddings = chunks.filter((c: any) => !c.embedding || c.embedding.length === 0);
+      // Check for missing embeddings (only pgvector keeps them in the chunk rows)
+      const missingEmbeddings = this.store.storesEmbeddingsInChunks
+        ? chunks.filter((c: any) => !c.embedding || c.embedding.length === 0)
+        : [];
       if (missingEmbeddings.length > 0) {
         issues.push(`${missingEmbeddings.length} chunks missing embeddings`);
       }
@@ -0,0 +1,236 @@
+/**
+ * Vector Store
+ *
+ * Abstract base for the backends that hold chunk embeddings and answer similarity queries.
+ * Chunk rows (text, pages, revisions) always live in document_chunks, which keyword search,
+ * page text and revisions read; a store only owns the vectors. pgvector keeps them in the
+ * chunk rows themselves, the other backends keep them in their own index together with the
+ * chunk fields a search result needs.
+ *
+ * Every backend still depends on the database: chunk rows are written by VectorStorageService
+ * and search scope (read access and current revisions) comes from readable_document_ids and
+ * user_documents. Swapping the store removes pgvector from the search path, not Supabase.
+ *
+ * @author ARYA RAG Team
+ */
+
+import { DatabaseClient } from '../../config/database';
+
+export type VectorStoreBackend = 'pgvector' | 'local' | 'qdrant' | 'chroma';
+
+export interface VectorRecord {
+  chunkId: string;
+  documentId: string;
+  userId: string;
+  revision: number;
+  chunkIndex: number;
+  chunkText: string;
+  pageNumber: number;
+  sectionTitle?: string;
+  pagePositionStart?: number;
+  pagePositionEnd?: number;
+  isOcr?: boolean;
+  ocrConfidence?: number | null;
+  containsTable?: boolean;
+  contentHash?: string;
+  embedding: number[];
+  embeddingModel: string;
+}
+
+export interface VectorQuery {
+  embedding: number[];
+  userId: string;
+  topK: number;
+  similarityThreshold: number;
+  embeddingModel?: string; // Only match vectors from this model
+  documentIds?: string[]; // Restrict to these documents (still subject to read access)
+  revisions?: Record<string, number>; // documentId -> revision; other documents use their current revision
+  workspaceIds?: string[]; // Only these workspaces; by default own documents plus every workspace the user belongs to
+}
+
+export interface VectorMatch {
+  chunkId: string;
+  documentId: string;
+  documentName: string;
+  chunkText: string;
+  pageNumber: number;
+  sectionTitle?: string;
+  isOcr?: boolean;
+  ocrConfidence?: number | null;
+  revision: number;
+  pagePositionStart?: number;
+  pagePositionEnd?: number;
+  similarity: number;
+}
+
+/**
+ * Vectors to delete; every given field must match
+ */
+export interface VectorDeleteFilter {
+  documentId?: string;
+  userId?: string;
+  revisions?: number[];
+  embeddingModel?: string;
+  chunkIds?: string[];
+}
+
+/**
+ * A searchable document: the revision whose chunks are searched and its filename
+ */
+export interface SearchScopeEntry {
+  revision: number;
+  filename: string;
+}
+
+export abstract class VectorStore {
+  abstract readonly backend: VectorStoreBackend;
+
+  /**
+   * Whether vectors are stored in document_chunks.embedding (pgvector) instead of a separate index
+   */
+  get storesEmbeddingsInChunks(): boolean {
+    return false;
+  }
+
+  /**
+   * Insert or replace vectors, keyed by chunk ID
+   */
+  abstract upsert(records: VectorRecord[]): Promise<void>;
+
+  /**
+   * Most similar chunks the user may read, above the threshold, best first
+   */
+  abstract search(query: VectorQuery): Promise<VectorMatch[]>;
+
+  /**
+   * Stored embeddings of one document revision, by content hash
+   * Used to copy embeddings of unchanged chunks into a new revision instead of re-embedding them
+   */
+  abstract getEmbeddingsByContentHash(
+    documentId: string,
+    revision: number,
+    contentHashes: string[],
+    embeddingModel: string
+  ): Promise<Map<string, number[]>>;
+
+  abstract delete(filter: VectorDeleteFilter): Promise<void>;
+
+  abstract testConnection(): Promise<boolean>;
+
+  /**
+   * Reject a delete filter without conditions, which would match every vector
+   */
+  protected assertDeleteFilter(filter: VectorDeleteFilter): void {
+    if (!filter.documentId && !filter.userId && !filter.embeddingModel && !filter.revisions && !filter.chunkIds) {
+      throw new Error('Vector delete needs at least one filter condition');
+    }
+  }
+
+  /**
+   * Chunk fields stored next to a vector in an external index (snake_case, no empty values)
+   */
+  protected toPayload(record: VectorRecord): Record<string, string | number | boolean> {
+    const payload: Record<string, string | number | boolean | null | undefined> = {
+      chunk_id: record.chunkId,
+      document_id: record.documentId,
+      user_id: record.userId,
+      revision: record.revision,
+      chunk_index: record.chunkIndex,
+      chunk_text: record.chunkText,
+      page_number: record.pageNumber,
+      section_title: record.sectionTitle,
+      page_position_start: record.pagePositionStart,
+      page_position_end: record.pagePositionEnd,
+      is_ocr: record.isOcr,
+      ocr_confidence: record.ocrConfidence,
+      contains_table: record.containsTable,
+      content_hash: record.contentHash,
+      embedding_model: record.embeddingModel
+    };
+
+    return Object.fromEntries(
+      Object.entries(payload).filter(([, value]) => value !== undefined && value !== null)
+    ) as Record<string, string | number | boolean>;
+  }
+
+  /**
+   * Search result from a stored payload; the filename comes from the search scope
+   */
+  protected fromPayload(payload: Record<string, any>, similarity: number, scope: Map<string, SearchScopeEntry>): VectorMatch {
+    return {
+      chunkId: payload.chunk_id,
+      documentId: payload.document_id,
+      documentName: scope.get(payload.document_id)?.filename || 'Unknown',
+      chunkText: payload.chunk_text,
+      pageNumber: payload.page_number,
+      sectionTitle: payload.section_title,
+      isOcr: payload.is_ocr,
+      ocrConfidence: payload.ocr_confidence,
+      revision: payload.revision,
+      pagePositionStart: payload.page_position_start,
+      pagePositionEnd: payload.page_position_end,
+      similarity
+    };
+  }
+
+  /**
+   * Documents a query may match, with the revision to search in each
+   * Access uses the same readable_document_ids function as SQL search, so stores
+   * outside Postgres apply the same rules before looking at any vector.
+   */
+  protected async resolveSearchScope(query: VectorQuery): Promise<Map<string, SearchScopeEntry>> {
+    const db = DatabaseClient.getInstance().getClient();
+
+    let readable = (db as any).rpc('readable_document_ids', {
+      user_id_param: query.userId,
+      workspace_ids_param: query.workspaceIds?.length ? query.workspaceIds : null
+    });
+    if (query.documentIds?.length) {
+      readable = readable.in('document_id', query.documentIds);
+    }
+
+    const { data: readableRows, error: readableError } = await readable;
+    if (readableError) {
+      throw new Error(`Failed to resolve readable documents: ${readableError.message}`);
+    }
+
+    const documentIds = (readableRows || []).map((row: any) => row.document_id);
+    const scope = new Map<string, SearchScopeEntry>();
+    if (documentIds.length === 0) {
+      return scope;
+    }
+
+    const { data: documents, error } = await (db as any)
+      .from('user_documents')
+      .select('document_id, filename, current_revision')
+      .in('document_id', documentIds);
+
+    if (error) {
+      throw new Error(`Failed to resolve document revisions: ${error.message}`);
+    }
+
+    for (const document of documents || []) {
+      scope.set(document.document_id, {
+        revision: query.revisions?.[document.document_id] ?? document.current_revision ?? 1,
+        filename: document.filename || 'Unknown'
+      });
+    }
+
+    return scope;
+  }
+}
+
+/**
+ * Cosine similarity of two vectors of the same length
+ */
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
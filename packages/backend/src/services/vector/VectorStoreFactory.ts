@@ -0,0 +1,148 @@
+/**
+ * Vector Store Factory
+ *
+ * Creates the vector store backend selected by VECTOR_STORE: pgvector (Supabase,
+ * default), local (embedded, persisted to disk), qdrant or chroma (self-hosted servers).
+ * Instances are cached so every service in the process shares one store; the local
+ * store in particular must not be loaded twice.
+ *
+ * @author ARYA RAG Team
+ */
+
+import { VectorStore, VectorStoreBackend } from './VectorStore';
+import { PgVectorStore } from './PgVectorStore';
+import { LocalVectorStore, LocalIndexType } from './LocalVectorStore';
+import { QdrantVectorStore } from './QdrantVectorStore';
+import { ChromaVectorStore } from './ChromaVectorStore';
+
+export interface VectorStoreFactoryConfig {
+  backend: VectorStoreBackend;
+
+  // Local store
+  localPath?: string;
+  localIndexType?: LocalIndexType;
+  hnswM?: number;
+  hnswEfConstruction?: number;
+  hnswEfSearch?: number;
+
+  // Qdrant / Chroma
+  url?: string;
+  apiKey?: string;
+  collection?: string;
+  chromaTenant?: string;
+  chromaDatabase?: string;
+}
+
+const BACKENDS: VectorStoreBackend[] = ['pgvector', 'local', 'qdrant', 'chroma'];
+
+export class VectorStoreFactory {
+  private static instance: VectorStoreFactory;
+  private storeCache: Map<string, VectorStore> = new Map();
+
+  private constructor() {}
+
+  /**
+   * Get singleton instance of the factory
+   */
+  static getInstance(): VectorStoreFactory {
+    if (!VectorStoreFactory.instance) {
+      VectorStoreFactory.instance = new VectorStoreFactory();
+    }
+    return VectorStoreFactory.instance;
+  }
+
+  /**
+   * Create or get the cached vector store
+   */
+  createVectorStore(config?: Partial<VectorStoreFactoryConfig>): VectorStore {
+    const finalConfig = this.resolveConfig(config);
+    const cacheKey = JSON.stringify(finalConfig);
+
+    const cached = this.storeCache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    let store: VectorStore;
+
+    switch (finalConfig.backend) {
+      case 'pgvector':
+        store = new PgVectorStore();
+        break;
+
+      case 'local':
+        store = new LocalVectorStore({
+          path: finalConfig.localPath,
+          indexType: finalConfig.localIndexType,
+          hnsw: {
+            m: finalConfig.hnswM || 16,
+            efConstruction: finalConfig.hnswEfConstruction || 100,
+            efSearch: finalConfig.hnswEfSearch || 64
+          }
+        });
+        break;
+
+      case 'qdrant':
+        store = new QdrantVectorStore({
+          url: finalConfig.url,
+          apiKey: finalConfig.apiKey,
+          collection: finalConfig.collection
+        });
+        break;
+
+      case 'chroma':
+        store = new ChromaVectorStore({
+          url: finalConfig.url,
+          apiKey: finalConfig.apiKey,
+          collection: finalConfig.collection,
+          tenant: finalConfig.chromaTenant,
+          database: finalConfig.chromaDatabase
+        });
+        break;
+
+      default:
+        throw new Error(`Unsupported vector store: ${finalConfig.backend}`);
+    }
+
+    this.storeCache.set(cacheKey, store);
+
+    console.log(`✨ Created ${finalConfig.backend} vector store`);
+    return store;
+  }
+
+  /**
+   * Resolve configuration from environment variables and defaults
+   */
+  private resolveConfig(config?: Partial<VectorStoreFactoryConfig>): VectorStoreFactoryConfig {
+    const backend = (config?.backend || process.env.VECTOR_STORE || 'pgvector') as VectorStoreBackend;
+    if (!BACKENDS.includes(backend)) {
+      throw new Error(`VECTOR_STORE must be one of: ${BACKENDS.join(', ')}`);
+    }
+
+    const resolved: VectorStoreFactoryConfig = { backend };
+
+    if (backend === 'local') {
+      resolved.localPath = config?.localPath || process.env.VECTOR_STORE_PATH || './data/vector-store';
+      resolved.localIndexType = (config?.localIndexType || process.env.VECTOR_STORE_INDEX || 'hnsw') as LocalIndexType;
+      resolved.hnswM = config?.hnswM || parseInt(process.env.VECTOR_STORE_HNSW_M || '16');
+      resolved.hnswEfConstruction = config?.hnswEfConstruction || parseInt(process.env.VECTOR_STORE_HNSW_EF_CONSTRUCTION || '100');
+      resolved.hnswEfSearch = config?.hnswEfSearch || parseInt(process.env.VECTOR_STORE_HNSW_EF_SEARCH || '64');
+
+      if (resolved.localIndexType !== 'flat' && resolved.localIndexType !== 'hnsw') {
+        throw new Error('VECTOR_STORE_INDEX must be flat or hnsw');
+      }
+    } else if (backend === 'qdrant') {
+      resolved.url = config?.url || process.env.QDRANT_URL || 'http://localhost:6333';
+      resolved.apiKey = config?.apiKey || process.env.QDRANT_API_KEY;
+      resolved.collection = config?.collection || process.env.QDRANT_COLLECTION || 'arya_chunks';
+    } else if (backend === 'chroma') {
+      resolved.url = config?.url || process.env.CHROMA_URL || 'http://localhost:8000';
+      resolved.apiKey = config?.apiKey || process.env.CHROMA_API_KEY;
+      resolved.collection = config?.collection || process.env.CHROMA_COLLECTION || 'arya_chunks';
+      resolved.chromaTenant = config?.chromaTenant || process.env.CHROMA_TENANT || 'default_tenant';
+      resolved.chromaDatabase = config?.chromaDatabase || process.env.CHROMA_DATABASE || 'default_database';
+    }
+
+    return resolved;
+  }
+}
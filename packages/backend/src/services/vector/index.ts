@@ -1,13 +1,19 @@
 /**
  * Vector Services Export Index
  * 
- * Central export for vector storage and search services.
+ * Central export for vector storage and search services and the vector store backends.
  * 
  * @author ARYA RAG Team
  */
 
 export { VectorStorageService } from './VectorStorageService';
 export { VectorSearchService } from './VectorSearchService';
+export { VectorStore } from './VectorStore';
+export { VectorStoreFactory } from './VectorStoreFactory';
+export { PgVectorStore } from './PgVectorStore';
+export { LocalVectorStore } from './LocalVectorStore';
+export { QdrantVectorStore } from './QdrantVectorStore';
+export { ChromaVectorStore } from './ChromaVectorStore';
 
 export type {
   VectorStorageConfig,
@@ -19,6 +25,18 @@ export type {
 export type {
   VectorSearchConfig,
   SearchOptions,
+  SearchMode,
   ExtendedSearchResult,
   SearchStats
-} from './VectorSearchService';
\ No newline at end of file
+} from './VectorSearchService';
+
+export type {
+  VectorStoreBackend,
+  VectorRecord,
+  VectorQuery,
+  VectorMatch,
+  VectorDeleteFilter
+} from './VectorStore';
+
+export type { VectorStoreFactoryConfig } from './VectorStoreFactory';
+export type { LocalVectorStoreConfig, LocalIndexType } from './LocalVectorStore';
\ No newline at end of file
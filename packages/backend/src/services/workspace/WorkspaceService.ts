@@ -0,0 +1,371 @@
+/**
+ * Workspace Service
+ *
+ * Shared document collections. Members are owners, editors or viewers; documents
+ * stay owned by their uploader and are attached to workspaces instead of copied.
+ * Search access is enforced in SQL (readable_document_ids); the role checks here
+ * guard changes to workspaces, members and attachments.
+ *
+ * @author ARYA RAG Team
+ */
+
+import { randomUUID } from 'crypto';
+import { DatabaseClient } from '../../config/database';
+import { Workspace, WorkspaceDocument, WorkspaceMember, WorkspaceRole, WorkspaceWithDetails } from '@arya-rag/types';
+
+// Higher ranks include everything lower ranks may do
+const ROLE_RANK: Record<WorkspaceRole, number> = {
+  viewer: 1,
+  editor: 2,
+  owner: 3
+};
+
+/**
+ * Whether a role grants at least the required role
+ */
+export function hasWorkspaceRole(role: WorkspaceRole | null | undefined, required: WorkspaceRole): boolean {
+  return !!role && ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+export class WorkspaceService {
+  private static instance: WorkspaceService;
+
+  private constructor() {}
+
+  /**
+   * Get singleton instance of WorkspaceService
+   */
+  public static getInstance(): WorkspaceService {
+    if (!WorkspaceService.instance) {
+      WorkspaceService.instance = new WorkspaceService();
+    }
+    return WorkspaceService.instance;
+  }
+
+  /**
+   * Create a workspace with the creator as its owner
+   */
+  async createWorkspace(userId: string, name: string, description?: string): Promise<Workspace> {
+    const db = DatabaseClient.getInstance().getClient();
+    const now = new Date().toISOString();
+
+    const { data, error } = await (db as any)
+      .from('workspaces')
+      .insert({
+        workspace_id: `ws_${randomUUID()}`,
+        name: name.trim(),
+        description: description?.trim() || null,
+        created_by: userId,
+        created_at: now,
+        updated_at: now
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create workspace: ${error.message}`);
+    }
+
+    const { error: memberError } = await (db as any)
+      .from('workspace_members')
+      .insert({
+        workspace_id: data.workspace_id,
+        user_id: userId,
+        role: 'owner',
+        added_by: userId
+      });
+
+    if (memberError) {
+      await (db as any).from('workspaces').delete().eq('workspace_id', data.workspace_id);
+      throw new Error(`Failed to add workspace owner: ${memberError.message}`);
+    }
+
+    console.log(`🗂️ Created workspace ${data.workspace_id} for ${userId}`);
+    return { ...this.mapWorkspace(data), role: 'owner' };
+  }
+
+  /**
+   * Workspaces the user belongs to, with their role in each
+   */
+  async listWorkspaces(userId: string): Promise<Workspace[]> {
+    const db = DatabaseClient.getInstance().getClient();
+
+    const { data, error } = await (db as any)
+      .from('workspace_members')
+      .select('role, workspaces(*)')
+      .eq('user_id', userId);
+
+    if (error) {
+      throw new Error(`Failed to list workspaces: ${error.message}`);
+    }
+
+    return (data || [])
+      .filter((row: any) => row.workspaces)
+      .map((row: any) => ({ ...this.mapWorkspace(row.workspaces), role: row.role }))
+      .sort((a: Workspace, b: Workspace) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  /**
+   * Get a workspace with its members and documents, or null if the user is not a member
+   */
+  async getWorkspace(workspaceId: string, userId: string): Promise<WorkspaceWithDetails | null> {
+    const db = DatabaseClient.getInstance().getClient();
+
+    const role = await this.getMemberRole(workspaceId, userId);
+    if (!role) {
+      return null;
+    }
+
+    const [workspaceResult, membersResult, documentsResult] = await Promise.all([
+      (db as any).from('workspaces').select('*').eq('workspace_id', workspaceId).single(),
+      (db as any).from('workspace_members').select('*').eq('workspace_id', workspaceId).order('added_at', { ascending: true }),
+      (db as any)
+        .from('workspace_documents')
+        .select('document_id, added_by, added_at, user_documents(user_id, filename, status, total_pages)')
+        .eq('workspace_id', workspaceId)
+        .order('added_at', { ascending: false })
+    ]);
+
+    const failed = workspaceResult.error || membersResult.error || documentsResult.error;
+    if (failed) {
+      throw new Error(`Failed to fetch workspace: ${failed.message}`);
+    }
+
+    return {
+      ...this.mapWorkspace(workspaceResult.data),
+      role,
+      members: (membersResult.data || []).map((row: any) => this.mapMember(row)),
+      documents: (documentsResult.data || []).map((row: any) => this.mapDocument(row))
+    };
+  }
+
+  /**
+   * The user's role in a workspace, or null if they are not a member
+   */
+  async getMemberRole(workspaceId: string, userId: string): Promise<WorkspaceRole | null> {
+    const db = DatabaseClient.getInstance().getClient();
+
+    const { data, error } = await (db as any)
+      .from('workspace_members')
+      .select('role')
+      .eq('workspace_id', workspaceId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to check workspace membership: ${error.message}`);
+    }
+
+    return data ? data.role : null;
+  }
+
+  async updateWorkspace(workspaceId: string, updates: { name?: string; description?: string }): Promise<Workspace> {
+    const db = DatabaseClient.getInstance().getClient();
+
+    const { data, error } = await (db as any)
+      .from('workspaces')
+      .update({
+        ...(updates.name !== undefined && { name: updates.name.trim() }),
+        ...(updates.description !== undefined && { description: updates.description.trim() || null }),
+        updated_at: new Date().toISOString()
+      })
+      .eq('workspace_id', workspaceId)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to update workspace: ${error.message}`);
+    }
+
+    return this.mapWorkspace(data);
+  }
+
+  /**
+   * Delete a workspace; members and attachments cascade, the documents themselves are kept
+   */
+  async deleteWorkspace(workspaceId: string): Promise<void> {
+    const db = DatabaseClient.getInstance().getClient();
+
+    const { error } = await (db as any)
+      .from('workspaces')
+      .delete()
+      .eq('workspace_id', workspaceId);
+
+    if (error) {
+      throw new Error(`Failed to delete workspace: ${error.message}`);
+    }
+
+    console.log(`🗑️ Deleted workspace ${workspaceId}`);
+  }
+
+  // ===== Members =====
+
+  /**
+   * Add a member or change their role
+   */
+  async setMember(workspaceId: string, memberId: string, role: WorkspaceRole, addedBy: string): Promise<WorkspaceMember> {
+    const db = DatabaseClient.getInstance().getClient();
+
+    const { data, error } = await (db as any)
+      .from('workspace_members')
+      .upsert({
+        workspace_id: workspaceId,
+        user_id: memberId,
+        role,
+        added_by: addedBy
+      }, { onConflict: 'workspace_id,user_id' })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to update workspace member: ${error.message}`);
+    }
+
+    await this.touch(workspaceId);
+    return this.mapMember(data);
+  }
+
+  /**
+   * Remove a member; false if they were not a member
+   */
+  async removeMember(workspaceId: string, memberId: string): Promise<boolean> {
+    const db = DatabaseClient.getInstance().getClient();
+
+    const { data, error } = await (db as any)
+      .from('workspace_members')
+      .delete()
+      .eq('workspace_id', workspaceId)
+      .eq('user_id', memberId)
+      .select('user_id');
+
+    if (error) {
+      throw new Error(`Failed to remove workspace member: ${error.message}`);
+    }
+
+    await this.touch(workspaceId);
+    return (data || []).length > 0;
+  }
+
+  /**
+   * Number of owners, so the last one cannot leave or be demoted
+   */
+  async countOwners(workspaceId: string): Promise<number> {
+    const db = DatabaseClient.getInstance().getClient();
+
+    const { count, error } = await (db as any)
+      .from('workspace_members')
+      .select('user_id', { count: 'exact', head: true })
+      .eq('workspace_id', workspaceId)
+      .eq('role', 'owner');
+
+    if (error) {
+      throw new Error(`Failed to count workspace owners: ${error.message}`);
+    }
+
+    return count || 0;
+  }
+
+  // ===== Documents =====
+
+  /**
+   * Attach a document to a workspace; attaching it again is a no-op
+   */
+  async addDocument(workspaceId: string, documentId: string, addedBy: string): Promise<void> {
+    const db = DatabaseClient.getInstance().getClient();
+
+    const { error } = await (db as any)
+      .from('workspace_documents')
+      .upsert({
+        workspace_id: workspaceId,
+        document_id: documentId,
+        added_by: addedBy
+      }, { onConflict: 'workspace_id,document_id', ignoreDuplicates: true });
+
+    if (error) {
+      throw new Error(`Failed to add document to workspace: ${error.message}`);
+    }
+
+    await this.touch(workspaceId);
+    console.log(`📎 Attached ${documentId} to workspace ${workspaceId}`);
+  }
+
+  /**
+   * Detach a document; false if it was not in the workspace
+   */
+  async removeDocument(workspaceId: string, documentId: string): Promise<boolean> {
+    const db = DatabaseClient.getInstance().getClient();
+
+    const { data, error } = await (db as any)
+      .from('workspace_documents')
+      .delete()
+      .eq('workspace_id', workspaceId)
+      .eq('document_id', documentId)
+      .select('document_id');
+
+    if (error) {
+      throw new Error(`Failed to remove document from workspace: ${error.message}`);
+    }
+
+    await this.touch(workspaceId);
+    return (data || []).length > 0;
+  }
+
+  /**
+   * Which of the given documents the user may read (own or shared through a workspace)
+   * Uses the same readable_document_ids function as search
+   */
+  async filterReadableDocuments(userId: string, documentIds: string[]): Promise<string[]> {
+    const db = DatabaseClient.getInstance().getClient();
+
+    const { data, error } = await (db as any)
+      .rpc('readable_document_ids', { user_id_param: userId, workspace_ids_param: null })
+      .in('document_id', documentIds);
+
+    if (error) {
+      throw new Error(`Failed to check document access: ${error.message}`);
+    }
+
+    return (data || []).map((row: any) => row.document_id);
+  }
+
+  private async touch(workspaceId: string): Promise<void> {
+    const db = DatabaseClient.getInstance().getClient();
+
+    await (db as any)
+      .from('workspaces')
+      .update({ updated_at: new Date().toISOString() })
+      .eq('workspace_id', workspaceId);
+  }
+
+  private mapWorkspace(row: any): Workspace {
+    return {
+      workspaceId: row.workspace_id,
+      name: row.name,
+      description: row.description || undefined,
+      createdBy: row.created_by,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+
+  private mapMember(row: any): WorkspaceMember {
+    return {
+      userId: row.user_id,
+      role: row.role,
+      addedBy: row.added_by || undefined,
+      addedAt: row.added_at
+    };
+  }
+
+  private mapDocument(row: any): WorkspaceDocument {
+    return {
+      documentId: row.document_id,
+      filename: row.user_documents?.filename || 'Unknown',
+      ownerId: row.user_documents?.user_id,
+      status: row.user_documents?.status,
+      totalPages: row.user_documents?.total_pages || 0,
+      addedBy: row.added_by,
+      addedAt: row.added_at
+    };
+  }
+}
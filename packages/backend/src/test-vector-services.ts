@@ -163,7 +163,7 @@ async function testVectorServices() {
     console.log(`   Found ${searchResults.length} results:`);
     searchResults.forEach((result, i) => {
       console.log(`   ${i + 1}. Page ${result.pageNumber}: "${result.chunkText.substring(0, 50)}..."`);
-      console.log(`      Similarity: ${(result.similarityScore * 100).toFixed(1)}%`);
+      console.log(`      Similarity: ${((result.similarityScore ?? 0) * 100).toFixed(1)}%`);
       console.log(`      Section: ${result.sectionTitle || 'N/A'}`);
     });
 
@@ -388,7 +388,7 @@ class RAGEndToEndTest {
         details: {
           chunksStored: testChunks.length,
           searchResults: searchResults.length,
-          avgSimilarity: searchResults.reduce((sum, r) => sum + r.similarityScore, 0) / searchResults.length,
+          avgSimilarity: searchResults.reduce((sum, r) => sum + (r.similarityScore ?? 0), 0) / searchResults.length,
           sampleResult: searchResults[0]
         }
       };
@@ -498,7 +498,7 @@ class RAGEndToEndTest {
         );
 
         // Check citation format in response text
-        const hasCitationFormat = /\(.*[Pp]age \d+.*\)/.test(response.response) || 
+        const hasCitationFormat = /\(.*[Pp]age \d+.*\)|\[\d+\]/.test(response.response) || 
                                  response.sources.length > 0;
 
         citationResults.push({
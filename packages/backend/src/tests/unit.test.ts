@@ -6,6 +6,8 @@
  * - Document Processor
  * - Chunking Service
  * - Database Client
+ * - Lexical Reranker
+ * - Grounding Verifier
  * 
  * Run with: npm run test:unit
  * 
@@ -15,6 +17,7 @@
 import { readFileSync } from 'fs';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
+import { DocumentChunk } from '@arya-rag/types';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -350,6 +353,968 @@ async function testEnvironmentConfig() {
   }
 }
 
+/**
+ * Unit Test 8: Lexical Reranker
+ */
+async function testLexicalReranker() {
+  const startTime = Date.now();
+  try {
+    const { LexicalOverlapReranker } = await import('../services/rag/Reranker.js');
+    const reranker = new LexicalOverlapReranker();
+    
+    const candidate = (chunkId: string, chunkText: string) => ({
+      chunkId,
+      documentId: 'test_doc',
+      documentName: 'test.pdf',
+      pageNumber: 1,
+      chunkText,
+      similarityScore: 0.7,
+      similarity: 0.7
+    });
+    
+    // Chunk "b" contains every query term, "a" only some, "c" none
+    const scores = await reranker.score('step 4.2.3 valve inspection', [
+      candidate('a', 'General valve maintenance guidance.'),
+      candidate('b', 'Step 4.2.3: perform the valve inspection before startup.'),
+      candidate('c', 'Fire safety overview.')
+    ]);
+    
+    if (scores[1] === 1 && scores[0] > scores[2] && scores[2] === 0) {
+      logUnitTest('Lexical Reranker', 'PASS', { scores }, Date.now() - startTime);
+      return true;
+    } else {
+      logUnitTest('Lexical Reranker', 'FAIL', {
+        error: 'Unexpected overlap scores',
+        scores
+      }, Date.now() - startTime);
+      return false;
+    }
+  } catch (error) {
+    logUnitTest('Lexical Reranker', 'FAIL', { error: error instanceof Error ? error.message : String(error) }, Date.now() - startTime);
+    return false;
+  }
+}
+
+/**
+ * Test Markdown extraction into logical pages
+ */
+async function testMarkdownExtraction() {
+  const startTime = Date.now();
+  try {
+    const { DocumentProcessor } = await import('../services/document/DocumentProcessor.js');
+    const processor = new DocumentProcessor();
+    
+    const markdown = '# Overview\n\nIntro text.\n\n## Installation\n\nRun the installer.\n';
+    const result = await processor.extractPagesFromBuffer(Buffer.from(markdown), 'guide.md', 'application/octet-stream');
+    
+    const titles = result.pages.map(page => page.sectionTitle);
+    if (result.success && result.pages.length === 2 && titles[1] === 'Installation' && result.pages[1].pageNumber === 2) {
+      logUnitTest('Markdown Extraction', 'PASS', { pages: result.pages.length, titles }, Date.now() - startTime);
+      return true;
+    } else {
+      logUnitTest('Markdown Extraction', 'FAIL', {
+        error: result.error || 'Unexpected logical pages',
+        titles
+      }, Date.now() - startTime);
+      return false;
+    }
+  } catch (error) {
+    logUnitTest('Markdown Extraction', 'FAIL', { error: error instanceof Error ? error.message : String(error) }, Date.now() - startTime);
+    return false;
+  }
+}
+
+/**
+ * Test revision page diff by content hash
+ */
+async function testRevisionPageDiff() {
+  const startTime = Date.now();
+  try {
+    const { countChangedPages, hashContent } = await import('../services/document/DocumentRevisionService.js');
+    
+    const previous = ['Intro', 'Setup', 'Usage', 'FAQ'].map(hashContent);
+    // A page inserted after the intro and a typo fixed in the FAQ
+    const revised = ['Intro', 'Safety notice', 'Setup', 'Usage', 'FAQ (fixed)'].map(hashContent);
+    const changed = countChangedPages(previous, revised);
+    
+    if (changed === 2) {
+      logUnitTest('Revision Page Diff', 'PASS', { pages: revised.length, changed }, Date.now() - startTime);
+      return true;
+    } else {
+      logUnitTest('Revision Page Diff', 'FAIL', { error: `Expected 2 changed pages, got ${changed}` }, Date.now() - startTime);
+      return false;
+    }
+  } catch (error) {
+    logUnitTest('Revision Page Diff', 'FAIL', { error: error instanceof Error ? error.message : String(error) }, Date.now() - startTime);
+    return false;
+  }
+}
+
+/**
+ * Test session token signing and tamper detection
+ */
+async function testJwtVerification() {
+  const startTime = Date.now();
+  try {
+    const { signJwt, verifyHmacJwt } = await import('../utils/jwt.js');
+    const { OidcVerifier } = await import('../services/auth/OidcVerifier.js');
+    const { generateKeyPairSync, sign } = await import('crypto');
+    
+    const now = Math.floor(Date.now() / 1000);
+    const token = signJwt({ sub: 'unit-test-user', iss: 'arya-rag', exp: now + 60 }, 'unit-test-secret');
+    const payload = verifyHmacJwt(token, 'unit-test-secret', { issuer: 'arya-rag' });
+    
+    // Swap in another user's claims while keeping the original signature
+    const [header, , signature] = token.split('.');
+    const forgedBody = Buffer.from(JSON.stringify({ sub: 'someone-else', iss: 'arya-rag', exp: now + 60 })).toString('base64url');
+    const rejected = (fn: () => unknown) => {
+      try {
+        fn();
+        return false;
+      } catch {
+        return true;
+      }
+    };
+    
+    const forgedRejected = rejected(() => verifyHmacJwt(`${header}.${forgedBody}.${signature}`, 'unit-test-secret'));
+    const expiredRejected = rejected(() => verifyHmacJwt(signJwt({ sub: 'unit-test-user', exp: now - 3600 }, 'unit-test-secret'), 'unit-test-secret'));
+    const noExpRejected = rejected(() => verifyHmacJwt(signJwt({ sub: 'unit-test-user', iss: 'arya-rag' }, 'unit-test-secret'), 'unit-test-secret', { requireExp: true }));
+    
+    // OIDC: tokens with an unknown kid must not refetch the JWKS while the refresh cooldown runs
+    const { publicKey, privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+    const signRs256 = (kid: string, claims: object) => {
+      const input = `${Buffer.from(JSON.stringify({ alg: 'RS256', kid })).toString('base64url')}.${Buffer.from(JSON.stringify(claims)).toString('base64url')}`;
+      return `${input}.${sign('sha256', Buffer.from(input), privateKey).toString('base64url')}`;
+    };
+    const originalFetch = globalThis.fetch;
+    let jwksFetches = 0;
+    globalThis.fetch = (async () => {
+      jwksFetches++;
+      return new Response(JSON.stringify({ keys: [{ ...publicKey.export({ format: 'jwk' }), kid: 'key-1', use: 'sig' }] }));
+    }) as typeof fetch;
+    
+    const oidc = new OidcVerifier({ issuer: 'https://idp.example.com', jwksUri: 'https://idp.example.com/jwks' });
+    const oidcRejected = async (token: string) => oidc.verify(token).then(() => false, () => true);
+    let oidcAccepted = false;
+    let oidcNoExpRejected = false;
+    let unknownKidRejected = false;
+    try {
+      oidcAccepted = (await oidc.verify(signRs256('key-1', { sub: 'oidc-user', iss: 'https://idp.example.com', exp: now + 60 }))).userId === 'oidc-user';
+      oidcNoExpRejected = await oidcRejected(signRs256('key-1', { sub: 'oidc-user', iss: 'https://idp.example.com' }));
+      unknownKidRejected = await oidcRejected(signRs256('made-up-1', { sub: 'oidc-user', iss: 'https://idp.example.com', exp: now + 60 })) &&
+        await oidcRejected(signRs256('made-up-2', { sub: 'oidc-user', iss: 'https://idp.example.com', exp: now + 60 }));
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+    
+    if (payload.sub === 'unit-test-user' && forgedRejected && expiredRejected && noExpRejected &&
+        oidcAccepted && oidcNoExpRejected && unknownKidRejected && jwksFetches === 1) {
+      logUnitTest('JWT Verification', 'PASS', { forgedRejected, expiredRejected, noExpRejected, jwksFetches }, Date.now() - startTime);
+      return true;
+    } else {
+      logUnitTest('JWT Verification', 'FAIL', { error: 'Forged, expired or unverifiable token was accepted', sub: payload.sub, noExpRejected, oidcAccepted, oidcNoExpRejected, unknownKidRejected, jwksFetches }, Date.now() - startTime);
+      return false;
+    }
+  } catch (error) {
+    logUnitTest('JWT Verification', 'FAIL', { error: error instanceof Error ? error.message : String(error) }, Date.now() - startTime);
+    return false;
+  }
+}
+
+/**
+ * Test that every userId schema accepts the same IDs as registration, and OIDC subjects map onto them
+ */
+async function testUserIdFormat() {
+  const startTime = Date.now();
+  try {
+    const { schemas } = await import('../middleware/validation.js');
+    const { isValidUserId, userIdFromOidcSubject } = await import('../utils/userId.js');
+    
+    const accepts = (userId: string) => [
+      schemas.userId.validate({ userId }),
+      schemas.documentUpload.validate({ userId }),
+      schemas.ragQuery.validate({ userId, query: 'What is this?' }),
+      schemas.createConversation.validate({ userId }),
+      schemas.credentials.validate({ userId, password: 'unit-test-password' })
+    ].every(result => !result.error?.details.some(detail => detail.path[0] === 'userId'));
+    
+    const underscoreAccepted = accepts('john_doe');
+    const uuidAccepted = accepts('0f8fad5b-d9cb-469f-a165-70867728950e');
+    const pipeRejected = !accepts('auth0|abc') && !isValidUserId('auth0|abc');
+    
+    const mapped = userIdFromOidcSubject('https://idp.example.com', 'auth0|abc');
+    const mappedAccepted = accepts(mapped);
+    const mappingStable = mapped === userIdFromOidcSubject('https://idp.example.com', 'auth0|abc');
+    const mappingPerIssuer = mapped !== userIdFromOidcSubject('https://other.example.com', 'auth0|abc');
+    const fittingSubjectKept = userIdFromOidcSubject('https://idp.example.com', 'john_doe') === 'john_doe';
+    
+    if (underscoreAccepted && uuidAccepted && pipeRejected && mappedAccepted && mappingStable && mappingPerIssuer && fittingSubjectKept) {
+      logUnitTest('User ID Format', 'PASS', { mapped }, Date.now() - startTime);
+      return true;
+    } else {
+      logUnitTest('User ID Format', 'FAIL', { error: 'User ID schemas disagree or OIDC subject was not mapped', underscoreAccepted, uuidAccepted, pipeRejected, mapped, mappedAccepted, mappingStable, mappingPerIssuer, fittingSubjectKept }, Date.now() - startTime);
+      return false;
+    }
+  } catch (error) {
+    logUnitTest('User ID Format', 'FAIL', { error: error instanceof Error ? error.message : String(error) }, Date.now() - startTime);
+    return false;
+  }
+}
+
+/**
+ * Test that ?access_token= only opens the progress stream, and only with a stream token
+ */
+async function testStreamTokenScope() {
+  const startTime = Date.now();
+  const { AuthService } = await import('../services/auth/AuthService.js');
+  const authService = AuthService.getInstance() as any;
+  const wasEnabled = authService.config.enabled;
+  authService.config.enabled = true;
+  
+  try {
+    const { default: express } = await import('express');
+    const { default: request } = await import('supertest');
+    const { authenticate } = await import('../middleware/auth.js');
+    const { errorHandler } = await import('../middleware/errorHandler.js');
+    
+    const app = express();
+    app.use(authenticate());
+    app.get('/documents/events', (req, res) => res.json({ userId: req.auth?.userId }));
+    app.get('/documents', (req, res) => res.json({ userId: req.auth?.userId }));
+    app.use(errorHandler);
+    
+    const sessionToken = authService.issueSession({ userId: 'stream_user', role: 'user' }).token;
+    const streamToken = authService.issueStreamToken({ userId: 'stream_user', role: 'user', method: 'api_key' }, 'document-events').token;
+    
+    const statuses = {
+      streamTokenOnStream: (await request(app).get(`/documents/events?access_token=${streamToken}`)).status, // 200
+      sessionTokenOnStream: (await request(app).get(`/documents/events?access_token=${sessionToken}`)).status, // 401: session tokens stay out of URLs
+      streamTokenElsewhere: (await request(app).get(`/documents?access_token=${streamToken}`)).status, // 401
+      streamTokenAsBearer: (await request(app).get('/documents').set('Authorization', `Bearer ${streamToken}`)).status, // 401
+      sessionTokenAsBearer: (await request(app).get('/documents').set('Authorization', `Bearer ${sessionToken}`)).status // 200
+    };
+    
+    const expected = { streamTokenOnStream: 200, sessionTokenOnStream: 401, streamTokenElsewhere: 401, streamTokenAsBearer: 401, sessionTokenAsBearer: 200 };
+    
+    if (JSON.stringify(statuses) === JSON.stringify(expected)) {
+      logUnitTest('Stream Token Scope', 'PASS', statuses, Date.now() - startTime);
+      return true;
+    } else {
+      logUnitTest('Stream Token Scope', 'FAIL', { error: 'Query token accepted outside its stream', statuses, expected }, Date.now() - startTime);
+      return false;
+    }
+  } catch (error) {
+    logUnitTest('Stream Token Scope', 'FAIL', { error: error instanceof Error ? error.message : String(error) }, Date.now() - startTime);
+    return false;
+  } finally {
+    authService.config.enabled = wasEnabled;
+  }
+}
+
+/**
+ * Test that self-registration never creates admins or claims existing data, and only admins create accounts
+ */
+async function testAccountCreation() {
+  const startTime = Date.now();
+  const { AuthService } = await import('../services/auth/AuthService.js');
+  const authService = AuthService.getInstance() as any;
+  const originalConfig = { ...authService.config };
+  
+  // Accounts kept in memory in place of the auth_users table
+  const accounts = new Map<string, string>();
+  authService.getUser = async (userId: string) => accounts.has(userId) ? { userId, role: accounts.get(userId) } : null;
+  authService.hasExistingData = async (userId: string) => userId === 'legacy_user';
+  authService.register = async (userId: string, _password: string, role = 'user') => {
+    accounts.set(userId, role);
+    return { userId, role };
+  };
+  authService.config.adminUsers = ['wants_admin'];
+  
+  try {
+    const { default: express } = await import('express');
+    const { default: request } = await import('supertest');
+    const { default: authRoutes } = await import('../routes/auth.js');
+    const { errorHandler } = await import('../middleware/errorHandler.js');
+    
+    const app = express();
+    app.use(express.json());
+    app.use((req, _res, next) => {
+      const role = req.headers['x-test-role'] as 'user' | 'admin' | undefined;
+      req.auth = role ? { userId: `${role}_caller`, role, method: 'password' } : undefined;
+      next();
+    });
+    app.use('/api/auth', authRoutes);
+    app.use(errorHandler);
+    
+    const register = (userId: string) =>
+      request(app).post('/api/auth/register').send({ userId, password: 'unit-test-password' }).then(res => res.status);
+    const createAccount = (callerRole: string, userId: string) =>
+      request(app).post('/api/auth/accounts').set('X-Test-Role', callerRole).send({ userId, password: 'unit-test-password', role: 'admin' }).then(res => res.status);
+    
+    authService.config.allowRegistration = false;
+    const closedRegistration = await register('first_user'); // 403: the first account is not special
+    authService.config.allowRegistration = true;
+    
+    const statuses = {
+      closedRegistration,
+      legacyUserClaimed: await register('legacy_user'), // 409: has data from before sign-in
+      adminNameRegistered: await register('wants_admin'), // 201, as a regular user
+      userCreatesAccount: await createAccount('user', 'new_admin'), // 403
+      adminCreatesAccount: await createAccount('admin', 'new_admin') // 201
+    };
+    
+    const expected = { closedRegistration: 403, legacyUserClaimed: 409, adminNameRegistered: 201, userCreatesAccount: 403, adminCreatesAccount: 201 };
+    const roles = { wants_admin: accounts.get('wants_admin'), new_admin: accounts.get('new_admin') };
+    
+    if (JSON.stringify(statuses) === JSON.stringify(expected) && roles.wants_admin === 'user' && roles.new_admin === 'admin' && !accounts.has('first_user')) {
+      logUnitTest('Account Creation', 'PASS', statuses, Date.now() - startTime);
+      return true;
+    } else {
+      logUnitTest('Account Creation', 'FAIL', { error: 'Unexpected account creation outcome', statuses, expected, roles }, Date.now() - startTime);
+      return false;
+    }
+  } catch (error) {
+    logUnitTest('Account Creation', 'FAIL', { error: error instanceof Error ? error.message : String(error) }, Date.now() - startTime);
+    return false;
+  } finally {
+    ['getUser', 'hasExistingData', 'register'].forEach(method => delete authService[method]);
+    authService.config = originalConfig;
+  }
+}
+
+/**
+ * Test workspace role ranks and the owner checks on member changes
+ */
+async function testWorkspaceRoles() {
+  const startTime = Date.now();
+  const { WorkspaceService, hasWorkspaceRole } = await import('../services/workspace/WorkspaceService.js');
+  const workspaces = WorkspaceService.getInstance() as any;
+  
+  // Members kept in memory in place of the workspace_members table
+  const roles = new Map<string, string>([['owner1', 'owner'], ['editor1', 'editor'], ['viewer1', 'viewer']]);
+  workspaces.getMemberRole = async (_workspaceId: string, userId: string) => roles.get(userId) || null;
+  workspaces.countOwners = async () => Array.from(roles.values()).filter(role => role === 'owner').length;
+  workspaces.setMember = async (workspaceId: string, userId: string, role: string) => {
+    roles.set(userId, role);
+    return { workspaceId, userId, role };
+  };
+  workspaces.removeMember = async (_workspaceId: string, userId: string) => roles.delete(userId);
+  
+  try {
+    const { default: express } = await import('express');
+    const { default: request } = await import('supertest');
+    const { default: workspaceRoutes } = await import('../routes/workspaces.js');
+    const { errorHandler } = await import('../middleware/errorHandler.js');
+    
+    const app = express();
+    app.use(express.json());
+    app.use('/api/workspaces', workspaceRoutes);
+    app.use(errorHandler);
+    
+    const setRole = (userId: string, memberId: string, role: string) =>
+      request(app).put(`/api/workspaces/ws1/members/${memberId}`).send({ userId, role }).then(res => res.status);
+    const remove = (userId: string, memberId: string) =>
+      request(app).delete(`/api/workspaces/ws1/members/${memberId}?userId=${userId}`).then(res => res.status);
+    
+    const ranks = hasWorkspaceRole('owner', 'editor') && hasWorkspaceRole('editor', 'viewer') &&
+      !hasWorkspaceRole('viewer', 'editor') && !hasWorkspaceRole('editor', 'owner') && !hasWorkspaceRole(null, 'viewer');
+    
+    const statuses = {
+      editorAddsMember: await setRole('editor1', 'newcomer', 'viewer'), // 403: only owners manage members
+      outsiderAddsMember: await setRole('outsider', 'newcomer', 'viewer'), // 404: non-members do not see the workspace
+      lastOwnerDemoted: await setRole('owner1', 'owner1', 'editor'), // 409
+      lastOwnerLeaves: await remove('owner1', 'owner1'), // 409
+      viewerRemovesOther: await remove('viewer1', 'editor1'), // 403
+      viewerLeaves: await remove('viewer1', 'viewer1'), // 200
+      ownerPromotes: await setRole('owner1', 'editor1', 'owner'), // 200
+      ownerStepsDown: await setRole('owner1', 'owner1', 'editor') // 200: another owner remains
+    };
+    
+    const expected = {
+      editorAddsMember: 403, outsiderAddsMember: 404, lastOwnerDemoted: 409, lastOwnerLeaves: 409,
+      viewerRemovesOther: 403, viewerLeaves: 200, ownerPromotes: 200, ownerStepsDown: 200
+    };
+    
+    if (ranks && JSON.stringify(statuses) === JSON.stringify(expected) && roles.get('editor1') === 'owner' && !roles.has('viewer1')) {
+      logUnitTest('Workspace Roles', 'PASS', statuses, Date.now() - startTime);
+      return true;
+    } else {
+      logUnitTest('Workspace Roles', 'FAIL', { error: 'Unexpected role check outcome', ranks, statuses, expected }, Date.now() - startTime);
+      return false;
+    }
+  } catch (error) {
+    logUnitTest('Workspace Roles', 'FAIL', { error: error instanceof Error ? error.message : String(error) }, Date.now() - startTime);
+    return false;
+  } finally {
+    ['getMemberRole', 'countOwners', 'setMember', 'removeMember'].forEach(method => delete workspaces[method]);
+  }
+}
+
+/**
+ * Test grounding verification flags sentences the sources do not support
+ */
+async function testGroundingVerifier() {
+  const startTime = Date.now();
+  try {
+    const { LexicalGroundingVerifier } = await import('../services/rag/GroundingVerifier.js');
+    const verifier = new LexicalGroundingVerifier();
+    
+    const chunk = {
+      chunkId: 'fire_1',
+      documentId: 'test_doc',
+      documentName: 'Fire_Safety_QA.pdf',
+      pageNumber: 3,
+      chunkText: 'Pull the pin, aim the extinguisher nozzle at the base of the fire and squeeze the handle. Keep 2 metres away from the flames.',
+      similarityScore: 0.8,
+      similarity: 0.8
+    };
+    
+    const answer = [
+      '## Using an extinguisher',
+      '- Aim the nozzle at the base of the fire (Page 3).',
+      '- Keep 5 metres away from the flames.',
+      '- Open all windows to ventilate the room before leaving.'
+    ].join('\n');
+    
+    const report = await verifier.verify(answer, [chunk]);
+    const statuses = report.claims.map(claim => claim.status);
+    const offsetsMatch = report.claims.every(claim => answer.slice(claim.start, claim.end) === claim.text);
+    
+    // Heading is skipped; the wrong distance and the invented step are not supported
+    if (report.claims.length === 3 && statuses[0] === 'supported' && statuses[1] !== 'supported' &&
+        statuses[2] === 'unsupported' && offsetsMatch && report.claims[0].sources[0]?.chunkId === 'fire_1') {
+      logUnitTest('Grounding Verifier', 'PASS', { statuses, supportedRatio: report.supportedRatio }, Date.now() - startTime);
+      return true;
+    } else {
+      logUnitTest('Grounding Verifier', 'FAIL', { error: 'Unexpected claim support', statuses, offsetsMatch }, Date.now() - startTime);
+      return false;
+    }
+  } catch (error) {
+    logUnitTest('Grounding Verifier', 'FAIL', { error: error instanceof Error ? error.message : String(error) }, Date.now() - startTime);
+    return false;
+  }
+}
+
+async function testCitationPageSpans() {
+  const startTime = Date.now();
+  try {
+    const { resolveCitations, reconstructPageText } = await import('../services/rag/CitationResolver.js');
+    
+    const page = 'Fire doors must stay closed at all times. Extinguishers are inspected every 6 months by the warden.';
+    const secondStart = page.indexOf('Extinguishers');
+    const chunk = (chunkId: string, chunkText: string, pagePositionStart: number, pagePositionEnd: number) => ({
+      chunkId,
+      documentId: 'test_doc',
+      documentName: 'Fire_Safety_QA.pdf',
+      pageNumber: 2,
+      chunkText,
+      pagePositionStart,
+      pagePositionEnd,
+      similarityScore: 0.8,
+      similarity: 0.8
+    });
+    
+    // The second chunk starts with overlap carried over from the first
+    const chunks = [
+      chunk('fire_1', page.slice(0, secondStart - 1), 0, secondStart - 1),
+      chunk('fire_2', page.slice(page.indexOf('at all times')), secondStart, page.length)
+    ];
+    
+    const { citations, rejected } = resolveCitations('Extinguishers are checked every 6 months [2]. Doors stay shut [5].', chunks);
+    const rebuilt = reconstructPageText(chunks);
+    const cited = citations[0];
+    
+    if (rebuilt.aligned && rebuilt.text === page && citations.length === 1 && rejected.length === 1 &&
+        cited.pageStart !== undefined && page.slice(cited.pageStart, cited.pageEnd) === page.slice(secondStart)) {
+      logUnitTest('Citation Page Spans', 'PASS', { pageStart: cited.pageStart, pageEnd: cited.pageEnd }, Date.now() - startTime);
+      return true;
+    } else {
+      logUnitTest('Citation Page Spans', 'FAIL', { error: 'Citation span does not match the page', citations, rebuilt }, Date.now() - startTime);
+      return false;
+    }
+  } catch (error) {
+    logUnitTest('Citation Page Spans', 'FAIL', { error: error instanceof Error ? error.message : String(error) }, Date.now() - startTime);
+    return false;
+  }
+}
+
+async function testCitationContextBudget() {
+  const startTime = Date.now();
+  try {
+    const { RAGService } = await import('../services/rag/RAGService.js');
+    const { MockEmbeddingService } = await import('../services/embedding/MockEmbeddingService.js');
+    const { MockLLMService } = await import('../services/llm/MockLLMService.js');
+    
+    const result = (n: number, chunkText: string) => ({
+      chunkId: `budget_${n}`,
+      documentId: 'test_doc',
+      documentName: 'Fire_Safety_QA.pdf',
+      pageNumber: n,
+      chunkText,
+      similarityScore: 0.9 - n * 0.1,
+      similarity: 0.9 - n * 0.1
+    });
+    const results = [
+      result(1, 'A CO2 extinguisher should be used on electrical fires.'),
+      result(2, 'Water extinguishers must never be used on electrical equipment. '.repeat(8)),
+      result(3, 'Fire doors must stay closed at all times. '.repeat(8))
+    ];
+    
+    // Only the first excerpt fits the context budget; the answer also cites the third
+    const llm = new MockLLMService({
+      script: [{ match: 'electrical fires', response: 'Use a CO2 extinguisher [1]. Keep fire doors closed [3].' }]
+    });
+    const rag = new RAGService(
+      { maxContextTokens: 60, searchMode: 'vector' },
+      llm,
+      new MockEmbeddingService({ dimensions: 64 }),
+      { search: async () => results } as any
+    );
+    
+    const response = await rag.processQuery({ query: 'Which extinguisher is used on electrical fires?', userId: UNIT_TEST_CONFIG.userId });
+    const rejected = response.metadata?.rejectedCitations || [];
+    
+    if (response.citations?.length === 1 && response.citations[0].chunkId === 'budget_1' &&
+        rejected.length === 1 && rejected[0].citation === '[3]' &&
+        response.sources.length === 1 && !response.answer.includes('[3]')) {
+      logUnitTest('Citation Context Budget', 'PASS', { answer: response.answer, rejected: rejected.map(r => r.citation) }, Date.now() - startTime);
+      return true;
+    } else {
+      logUnitTest('Citation Context Budget', 'FAIL', { error: 'Citation past the context budget was accepted', answer: response.answer, citations: response.citations, rejected }, Date.now() - startTime);
+      return false;
+    }
+  } catch (error) {
+    logUnitTest('Citation Context Budget', 'FAIL', { error: error instanceof Error ? error.message : String(error) }, Date.now() - startTime);
+    return false;
+  }
+}
+
+async function testEvaluationMetrics() {
+  const startTime = Date.now();
+  try {
+    const { recallAtK, reciprocalRank, scoreCitations, answerSimilarity } = await import('../services/evaluation/EvaluationMetrics.js');
+    
+    const expected = [{ document: 'Fire_Safety_QA.pdf', page: 4 }, { document: 'Fire_Safety_QA.pdf', page: 1 }];
+    const ranked = [
+      { documentName: 'Fire_Safety_QA.pdf', pageNumber: 2 },
+      { documentName: 'fire_safety_qa.PDF', pageNumber: 4 },
+      { documentName: 'Fire_Safety_QA.pdf', pageNumber: 3 },
+      { documentName: 'Fire_Safety_QA.pdf', pageNumber: 1 }
+    ];
+    
+    const recall = recallAtK(ranked, expected, 3);
+    const rr = reciprocalRank(ranked, expected);
+    const citations = scoreCitations([ranked[0], ranked[1]], expected);
+    const similarity = answerSimilarity('Use a CO2 extinguisher [1].', 'CO2 (carbon dioxide) extinguisher.');
+    
+    // Page 1 is only ranked 4th, so recall@3 finds one of the two expected pages
+    if (recall === 0.5 && rr === 0.5 && citations.correct === 1 && citations.total === 2 &&
+        similarity.recall === 0.5 && similarity.f1 > 0.5) {
+      logUnitTest('Evaluation Metrics', 'PASS', { recall, rr, similarity }, Date.now() - startTime);
+      return true;
+    } else {
+      logUnitTest('Evaluation Metrics', 'FAIL', { error: 'Unexpected metric values', recall, rr, citations, similarity }, Date.now() - startTime);
+      return false;
+    }
+  } catch (error) {
+    logUnitTest('Evaluation Metrics', 'FAIL', { error: error instanceof Error ? error.message : String(error) }, Date.now() - startTime);
+    return false;
+  }
+}
+
+async function testMockProviders() {
+  const startTime = Date.now();
+  try {
+    const { MockEmbeddingService } = await import('../services/embedding/MockEmbeddingService.js');
+    const { MockLLMService } = await import('../services/llm/MockLLMService.js');
+    
+    const embeddings = new MockEmbeddingService({ dimensions: 256 });
+    const cosine = (a: number[], b: number[]) => a.reduce((sum, value, i) => sum + value * b[i], 0);
+    const question = (await embeddings.generateEmbedding({ text: 'Which extinguisher is used on electrical fires?' })).embedding;
+    const related = (await embeddings.generateEmbedding({ text: 'Electrical fires need a CO2 extinguisher.' })).embedding;
+    const unrelated = (await embeddings.generateEmbedding({ text: 'Quarterly revenue grew in the retail segment.' })).embedding;
+    const repeated = (await embeddings.generateEmbedding({ text: 'Which extinguisher is used on electrical fires?' })).embedding;
+    
+    const llm = new MockLLMService({ script: [] });
+    const prompt = 'Context from documents:\n\n[1] Document: Fire_Safety_QA.pdf\nPage 4\nContent: ' +
+      'Which extinguisher should be used on electrical fires? A CO2 extinguisher should be used on electrical fires. Never use water.' +
+      '\n\nQuestion: Which extinguisher is used on electrical fires?';
+    const answer = (await llm.generateCompletion({ prompt })).text;
+    
+    const deterministic = question.every((value, i) => value === repeated[i]);
+    if (deterministic && cosine(question, related) > cosine(question, unrelated) &&
+        answer.includes('CO2 extinguisher') && answer.includes('[1]')) {
+      logUnitTest('Mock Providers', 'PASS', { related: cosine(question, related), unrelated: cosine(question, unrelated), answer }, Date.now() - startTime);
+      return true;
+    } else {
+      logUnitTest('Mock Providers', 'FAIL', { error: 'Unexpected mock output', deterministic, answer }, Date.now() - startTime);
+      return false;
+    }
+  } catch (error) {
+    logUnitTest('Mock Providers', 'FAIL', { error: error instanceof Error ? error.message : String(error) }, Date.now() - startTime);
+    return false;
+  }
+}
+
+async function testHnswIndex() {
+  const startTime = Date.now();
+  try {
+    const { HnswIndex } = await import('../services/vector/HnswIndex.js');
+    const { cosineSimilarity } = await import('../services/vector/VectorStore.js');
+    
+    // Seeded random vectors so the recall figure is reproducible
+    let seed = 42;
+    const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647 - 0.5;
+    const vectors = Array.from({ length: 2000 }, () => Float32Array.from({ length: 32 }, random));
+    const index = new HnswIndex(id => vectors[id]);
+    vectors.forEach((_, id) => index.add(id));
+    
+    let hits = 0;
+    for (let q = 0; q < 20; q++) {
+      const query = Array.from({ length: 32 }, random);
+      const exact = vectors
+        .map((vector, id) => ({ id, similarity: cosineSimilarity(query, vector) }))
+        .sort((a, b) => b.similarity - a.similarity)
+        .slice(0, 10);
+      const found = new Set(index.search(query, 10).map(result => result.id));
+      hits += exact.filter(result => found.has(result.id)).length;
+    }
+    const recall = hits / 200;
+    
+    // Filtered search must only return accepted nodes
+    const filtered = index.search(vectors[7], 5, id => id % 50 === 7);
+    
+    if (recall >= 0.9 && filtered.length === 5 && filtered[0].id === 7 && filtered.every(result => result.id % 50 === 7)) {
+      logUnitTest('HNSW Index', 'PASS', { recall }, Date.now() - startTime);
+      return true;
+    } else {
+      logUnitTest('HNSW Index', 'FAIL', { error: 'Low recall or unfiltered results', recall, filtered: filtered.map(result => result.id) }, Date.now() - startTime);
+      return false;
+    }
+  } catch (error) {
+    logUnitTest('HNSW Index', 'FAIL', { error: error instanceof Error ? error.message : String(error) }, Date.now() - startTime);
+    return false;
+  }
+}
+
+async function testLocalStorageDriver() {
+  const startTime = Date.now();
+  const { tmpdir } = await import('os');
+  const { promises: fs } = await import('fs');
+  const root = join(tmpdir(), `arya-storage-${Date.now()}`);
+  try {
+    const { LocalStorageDriver } = await import('../services/storage/LocalStorageDriver.js');
+    const { StorageService } = await import('../services/storage/StorageService.js');
+    const storage = StorageService.withDriver(new LocalStorageDriver(root));
+    
+    const upload = await storage.uploadFile(Buffer.from(UNIT_TEST_CONFIG.sampleText), 'sample.txt', UNIT_TEST_CONFIG.userId, 'text/plain');
+    const download = await storage.downloadFile(upload.filePath!, upload.checksum);
+    const listed = await storage.listUserFiles(UNIT_TEST_CONFIG.userId);
+    
+    // A file changed behind the driver's back must fail verification
+    await fs.writeFile(join(root, 'objects', upload.filePath!), 'tampered');
+    const tampered = await storage.downloadFile(upload.filePath!);
+    const escaped = await storage.downloadFile('../outside.pdf');
+    
+    if (download.success && download.buffer?.toString() === UNIT_TEST_CONFIG.sampleText &&
+        download.metadata?.mimeType === 'text/plain' && listed.files?.length === 1 &&
+        !tampered.success && !escaped.success) {
+      logUnitTest('Local Storage Driver', 'PASS', { filePath: upload.filePath, checksum: upload.checksum }, Date.now() - startTime);
+      return true;
+    } else {
+      logUnitTest('Local Storage Driver', 'FAIL', { error: 'Unexpected storage behaviour', download: download.error, tampered: tampered.error }, Date.now() - startTime);
+      return false;
+    }
+  } catch (error) {
+    logUnitTest('Local Storage Driver', 'FAIL', { error: error instanceof Error ? error.message : String(error) }, Date.now() - startTime);
+    return false;
+  } finally {
+    await fs.rm(root, { recursive: true, force: true });
+  }
+}
+
+async function testAnswerCacheScope() {
+  const startTime = Date.now();
+  try {
+    const { AnswerCache } = await import('../services/rag/AnswerCache.js');
+    const cache = new AnswerCache();
+    
+    const base = { query: 'q', userId: 'u', documentIds: ['doc_a', 'doc_b'], revisions: { doc_a: 2, doc_b: 1 } };
+    const reordered = { query: 'other', userId: 'u', documentIds: ['doc_b', 'doc_a'], revisions: { doc_b: 1, doc_a: 2 } };
+    const concise = { ...base, responseStyle: 'concise' as const };
+    
+    const sameScope = cache.scopeFor(base, 'standard') === cache.scopeFor(reordered, 'standard');
+    const styleMatters = cache.scopeFor(base, 'standard') !== cache.scopeFor(concise, 'standard');
+    const variantMatters = cache.scopeFor(base, 'standard') !== cache.scopeFor(base, 'structured');
+    
+    const source = { documentId: 'doc_a', documentName: 'a.pdf', pageNumber: 1, excerpt: '', confidence: 0.9 };
+    const answered = cache.columnsFor({ answer: 'a', sources: [source, source], confidence: 0.8, responseTime: 1 }, [0.1], 'm', 'scope');
+    const unsourced = cache.columnsFor({ answer: 'a', sources: [], confidence: 0.1, responseTime: 1 }, [0.1], 'm', 'scope');
+    
+    // Sources stop at maxSourcesPerResponse; a citation or excerpt past them still makes the entry depend on its document
+    const citation = { marker: 7, start: 0, end: 3, chunkId: 'c7', documentId: 'doc_c', documentName: 'c.pdf', pageNumber: 2, quote: '' };
+    const citedPastSources = cache.columnsFor({ answer: 'a [7]', sources: [source], citations: [citation], confidence: 0.8, responseTime: 1 }, [0.1], 'm', 'scope');
+    const fromContext = cache.columnsFor({ answer: 'a', sources: [source], confidence: 0.8, responseTime: 1 }, [0.1], 'm', 'scope', ['doc_a', 'doc_b', 'doc_a']);
+    
+    if (sameScope && styleMatters && variantMatters &&
+        answered.cached_response !== null && answered.cited_document_ids.join() === 'doc_a' &&
+        unsourced.cached_response === null &&
+        [...citedPastSources.cited_document_ids].sort().join() === 'doc_a,doc_c' &&
+        [...fromContext.cited_document_ids].sort().join() === 'doc_a,doc_b') {
+      logUnitTest('Answer Cache Scope', 'PASS', { scope: cache.scopeFor(base, 'standard') }, Date.now() - startTime);
+      return true;
+    } else {
+      logUnitTest('Answer Cache Scope', 'FAIL', { error: 'Unexpected cache scope or columns', sameScope, styleMatters, variantMatters, cited: citedPastSources.cited_document_ids, context: fromContext.cited_document_ids }, Date.now() - startTime);
+      return false;
+    }
+  } catch (error) {
+    logUnitTest('Answer Cache Scope', 'FAIL', { error: error instanceof Error ? error.message : String(error) }, Date.now() - startTime);
+    return false;
+  }
+}
+
+async function testTokenizerRegistry() {
+  const startTime = Date.now();
+  const { tmpdir } = await import('os');
+  const { promises: fs } = await import('fs');
+  const dir = join(tmpdir(), `arya-tokenizers-${Date.now()}`);
+  const previousDir = process.env.TOKENIZER_DIR;
+  try {
+    // A minimal BERT-style tokenizer.json, as shipped with WordPiece embedding models
+    const vocab = ['[UNK]', 'hello', 'world', '##s', 'un', '##believ', '##able', ',', '!'];
+    await fs.mkdir(join(dir, 'unit-wordpiece'), { recursive: true });
+    await fs.writeFile(join(dir, 'unit-wordpiece', 'tokenizer.json'), JSON.stringify({
+      normalizer: { type: 'BertNormalizer', lowercase: true },
+      pre_tokenizer: { type: 'BertPreTokenizer' },
+      model: { type: 'WordPiece', unk_token: '[UNK]', vocab: Object.fromEntries(vocab.map((token, id) => [token, id])) }
+    }));
+    process.env.TOKENIZER_DIR = dir;
+    
+    const { getTokenizer } = await import('../utils/tokenizers/TokenizerRegistry.js');
+    const { ChunkingService } = await import('../services/chunking/ChunkingService.js');
+    const tokenizer = getTokenizer('unit-wordpiece:latest');
+    const sentenceTokens = tokenizer.countTokens('Hello worlds, unbelievable!');
+    
+    // Chunks are sized in the embedding model's own tokens
+    const result = await new ChunkingService('unit-wordpiece').processPages(
+      [{ pageNumber: 1, text: 'Hello worlds, unbelievable! '.repeat(12) }],
+      'tokenizer_doc_' + Date.now(),
+      { chunkSizeTokens: 20, chunkOverlapTokens: 0 }
+    );
+    const oversized = result.chunks.filter(chunk => tokenizer.countTokens(chunk.chunkText) > 20);
+    
+    if (tokenizer.source === 'huggingface' && sentenceTokens === 8 &&
+        result.chunks.length > 1 && oversized.length === 0 &&
+        getTokenizer('text-embedding-3-small').name === 'cl100k_base') {
+      logUnitTest('Tokenizer Registry', 'PASS', { sentenceTokens, chunks: result.chunks.length }, Date.now() - startTime);
+      return true;
+    } else {
+      logUnitTest('Tokenizer Registry', 'FAIL', { error: 'Unexpected token counts', source: tokenizer.source, sentenceTokens, oversized: oversized.length }, Date.now() - startTime);
+      return false;
+    }
+  } catch (error) {
+    logUnitTest('Tokenizer Registry', 'FAIL', { error: error instanceof Error ? error.message : String(error) }, Date.now() - startTime);
+    return false;
+  } finally {
+    if (previousDir === undefined) {
+      delete process.env.TOKENIZER_DIR;
+    } else {
+      process.env.TOKENIZER_DIR = previousDir;
+    }
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
+
+async function testPdfTableLayout() {
+  const startTime = Date.now();
+  try {
+    const { analyzePage, layoutPageText } = await import('../services/document/PdfLayout.js');
+    const { ChunkingService } = await import('../services/chunking/ChunkingService.js');
+    
+    // pdf.js-style text items: a sentence, then a three-column table, in content-stream order
+    const item = (str: string, x: number, y: number) => ({ str, transform: [10, 0, 0, 10, x, y], width: str.length * 5, height: 10 });
+    const items = [
+      item('Tightening torques:', 50, 700),
+      item('Part', 50, 680), item('Torque', 200, 680), item('Notes', 300, 680),
+      ...Array.from({ length: 30 }, (_, i) => [
+        item(`M${i + 4} bolt`, 50, 665 - i * 14), item(`${(i + 1) * 5} Nm`, 200, 665 - i * 14), item('Dry', 300, 665 - i * 14)
+      ]).flat()
+    ];
+    const page = layoutPageText(analyzePage(items), { tableFormat: 'markdown', readingOrder: 'columns' });
+    const header = '| Part | Torque | Notes |\n| --- | --- | --- |\n';
+    
+    const result = await new ChunkingService('mock-embed').processPages(
+      [{ pageNumber: 1, text: page.text, tables: page.tables }],
+      'table_doc_' + Date.now(),
+      { chunkSizeTokens: 80, chunkOverlapTokens: 0 }
+    );
+    const tableChunks = result.chunks.filter(chunk => chunk.containsTable);
+    
+    if (page.tables.length === 1 && page.text.includes('| M4 bolt | 5 Nm | Dry |') &&
+        tableChunks.length > 1 && tableChunks.every(chunk => chunk.chunkText.startsWith(header))) {
+      logUnitTest('PDF Table Layout', 'PASS', { tableChunks: tableChunks.length, chunks: result.chunks.length }, Date.now() - startTime);
+      return true;
+    } else {
+      logUnitTest('PDF Table Layout', 'FAIL', { error: 'Table not kept with its header', tables: page.tables.length, tableChunks: tableChunks.length }, Date.now() - startTime);
+      return false;
+    }
+  } catch (error) {
+    logUnitTest('PDF Table Layout', 'FAIL', { error: error instanceof Error ? error.message : String(error) }, Date.now() - startTime);
+    return false;
+  }
+}
+
+async function testPdfReadingOrder() {
+  const startTime = Date.now();
+  try {
+    const { analyzePage, findRunningText, layoutPageText } = await import('../services/document/PdfLayout.js');
+    
+    // Two-column pages whose content stream interleaves the columns line by line,
+    // under a running header with the page number and over a "Page n of m" footer
+    const item = (str: string, x: number, y: number) => ({ str, transform: [10, 0, 0, 10, x, y], width: str.length * 5, height: 10 });
+    const pages = [1, 2, 3].map(pageNumber => analyzePage([
+      item('Chapter 4: Maintenance', 50, 770), item(String(pageNumber + 40), 540, 770),
+      ...Array.from({ length: 8 }, (_, i) => [
+        item(`Left column sentence ${i} about the pump`, 50, 700 - i * 12),
+        item(`Right column sentence ${i} about the valve`, 320, 700 - i * 12)
+      ]).flat(),
+      item(`Page ${pageNumber + 40} of 90`, 280, 30)
+    ], [0, 0, 612, 792]));
+    
+    const running = findRunningText(pages);
+    const { text } = layoutPageText(pages[1], { tableFormat: 'markdown', readingOrder: 'columns', skip: running[1].items });
+    const lastLeft = text.indexOf('Left column sentence 7');
+    const firstRight = text.indexOf('Right column sentence 0');
+    
+    if (running[1].title === 'Chapter 4: Maintenance' && running[1].footer === 'Page 42 of 90' &&
+        !text.includes('Chapter 4') && !text.includes('Page 42') && lastLeft >= 0 && lastLeft < firstRight) {
+      logUnitTest('PDF Reading Order', 'PASS', { title: running[1].title, characters: text.length }, Date.now() - startTime);
+      return true;
+    } else {
+      logUnitTest('PDF Reading Order', 'FAIL', { error: 'Columns interleaved or running text kept', title: running[1].title, text: text.substring(0, 120) }, Date.now() - startTime);
+      return false;
+    }
+  } catch (error) {
+    logUnitTest('PDF Reading Order', 'FAIL', { error: error instanceof Error ? error.message : String(error) }, Date.now() - startTime);
+    return false;
+  }
+}
+
+/**
+ * Test the section tree from a contents page and chunk section paths
+ */
+async function testDocumentOutline() {
+  const startTime = Date.now();
+  try {
+    const { analyzePage } = await import('../services/document/PdfLayout.js');
+    const { parseTableOfContents, buildOutline, assignSectionHierarchy } = await import('../services/document/DocumentOutline.js');
+    
+    // A contents page numbered from the first body page, which is physical page 2
+    const item = (str: string, x: number, y: number) => ({ str, transform: [10, 0, 0, 10, x, y], width: str.length * 5, height: 10 });
+    const toc = analyzePage([
+      item('Contents', 50, 740),
+      item('1 Introduction ........ 1', 50, 700),
+      item('1.1 Scope ........ 1', 70, 686),
+      item('2 Operation ........ 2', 50, 672)
+    ], [0, 0, 612, 792]);
+    const pages = [
+      { pageNumber: 1, text: 'Contents 1 Introduction 1 1.1 Scope 1 2 Operation 2' },
+      { pageNumber: 2, text: '1 Introduction This manual covers the pump. 1.1 Scope It applies to all ships.' },
+      { pageNumber: 3, text: '2 Operation Open the valve before starting.' }
+    ];
+    
+    const sections = buildOutline(parseTableOfContents([toc], pages), pages.length);
+    const chunk = (pageNumber: number, start: number, end: number): DocumentChunk => ({
+      id: `c${pageNumber}-${start}`, documentId: 'doc', userId: UNIT_TEST_CONFIG.userId,
+      chunkText: pages[pageNumber - 1].text.slice(start, end), chunkTokens: 0, pageNumber, chunkIndex: 0,
+      pagePositionStart: start, pagePositionEnd: end, embeddingModel: '', createdAt: new Date().toISOString()
+    });
+    const chunks = [chunk(2, 0, 40), chunk(2, 45, 80), chunk(3, 0, 40)];
+    assignSectionHierarchy(chunks, sections, pages);
+    
+    const paths = chunks.map(c => (c.sectionHierarchy || []).map(section => section.title).join(' > '));
+    const introduction = sections[0];
+    
+    if (sections.length === 2 && introduction.pageStart === 2 && introduction.pageEnd === 2 &&
+        introduction.children[0]?.id === '1.1' && sections[1].pageStart === 3 && sections[1].pageEnd === 3 &&
+        paths[0] === '1 Introduction' && paths[1] === '1 Introduction > 1.1 Scope' && paths[2] === '2 Operation') {
+      logUnitTest('Document Outline', 'PASS', { sections: sections.length, paths }, Date.now() - startTime);
+      return true;
+    } else {
+      logUnitTest('Document Outline', 'FAIL', { error: 'Unexpected outline', sections: JSON.stringify(sections), paths }, Date.now() - startTime);
+      return false;
+    }
+  } catch (error) {
+    logUnitTest('Document Outline', 'FAIL', { error: error instanceof Error ? error.message : String(error) }, Date.now() - startTime);
+    return false;
+  }
+}
+
+/**
+ * Test parent-child chunking and expansion of matched children to their parents
+ */
+async function testParentChildRetrieval() {
+  const startTime = Date.now();
+  try {
+    const { ChunkingService } = await import('../services/chunking/ChunkingService.js');
+    const { expandToParents } = await import('../services/rag/ParentExpander.js');
+    const { resolveCitations } = await import('../services/rag/CitationResolver.js');
+    
+    // Two numbered procedures, each longer than one regular chunk
+    const steps = Array.from({ length: 30 }, (_, i) => `Step ${i + 1}. Open valve ${i + 1} and check the gauge reads normal pressure.`).join(' ');
+    const pages = [
+      { pageNumber: 1, text: `3.1 Startup ${steps}`, sectionTitle: '3.1 Startup' },
+      { pageNumber: 2, text: `3.2 Shutdown ${steps.replace(/Open/g, 'Close')}`, sectionTitle: '3.2 Shutdown' }
+    ];
+    const chunking = new ChunkingService('mock-embed');
+    const { chunks } = await chunking.processPages(pages, 'doc', { chunkSizeTokens: 300, chunkOverlapTokens: 30 });
+    const { parents, children } = await chunking.createParentChildChunks(chunks, pages, 'doc', {
+      childSizeTokens: 60,
+      childOverlapTokens: 10,
+      maxParentTokens: 1500
+    });
+    
+    // Three matches in the startup procedure and one in the shutdown procedure
+    const matches = [children[2], children[3], children[5], children[children.length - 1]].map((child, i) => ({
+      chunkId: child.id, documentId: 'doc', documentName: 'manual.pdf', pageNumber: child.pageNumber,
+      chunkText: child.chunkText, similarityScore: 0.9 - i * 0.1, similarity: 0.9 - i * 0.1,
+      pagePositionStart: child.pagePositionStart, pagePositionEnd: child.pagePositionEnd
+    }));
+    const parentKeys = new Map(children.map(child => [child.id, String(child.parentIndex)]));
+    const parentTexts = new Map(parents.map(parent => [String(parent.parentIndex), parent.text]));
+    
+    const roomy = expandToParents(matches, parentKeys, parentTexts, 3000);
+    const tight = expandToParents(matches, parentKeys, parentTexts, 200);
+    
+    // Citations of an expanded match quote the parent; only sentences inside the matched child get a page span
+    const valve = [...matches[0].chunkText.matchAll(/Open valve (\d+) and check/g)].pop()?.[1];
+    const { citations } = resolveCitations(`Open valve ${valve} and check the gauge [1]. Open valve 30 and check the gauge [1].`, roomy);
+    const [inside, outside] = citations;
+    const insideSpan = inside?.pageStart !== undefined && pages[0].text.slice(inside.pageStart, inside.pageEnd) === inside.quote;
+    const outsideUnplaced = outside?.quote.includes('valve 30') && outside.pageStart === undefined;
+    
+    if (chunks.length > 2 && parents.length === 2 && parents[0].text.includes('Step 30.') &&
+        roomy.length === 2 && roomy[0].parentText === parents[0].text && roomy[0].matchedChildren === 3 &&
+        tight.length === 4 && tight.every(result => !result.parentText) &&
+        insideSpan && outsideUnplaced) {
+      logUnitTest('Parent-Child Retrieval', 'PASS', { chunks: chunks.length, children: children.length, parents: parents.length }, Date.now() - startTime);
+      return true;
+    } else {
+      logUnitTest('Parent-Child Retrieval', 'FAIL', {
+        error: 'Unexpected parents or expansion',
+        parents: parents.length,
+        roomy: roomy.map(result => [result.chunkId, !!result.parentText, result.matchedChildren]),
+        tight: tight.length,
+        citations
+      }, Date.now() - startTime);
+      return false;
+    }
+  } catch (error) {
+    logUnitTest('Parent-Child Retrieval', 'FAIL', { error: error instanceof Error ? error.message : String(error) }, Date.now() - startTime);
+    return false;
+  }
+}
+
 /**
  * Generate unit test report
  */
@@ -401,7 +1366,28 @@ async function runUnitTests() {
     { name: 'Chunking Service', fn: testChunkingService },
     { name: 'Embedding Service', fn: testEmbeddingService },
     { name: 'Vector Storage', fn: testVectorStorageService },
-    { name: 'Environment Config', fn: testEnvironmentConfig }
+    { name: 'Environment Config', fn: testEnvironmentConfig },
+    { name: 'Lexical Reranker', fn: testLexicalReranker },
+    { name: 'Markdown Extraction', fn: testMarkdownExtraction },
+    { name: 'Revision Page Diff', fn: testRevisionPageDiff },
+    { name: 'JWT Verification', fn: testJwtVerification },
+    { name: 'User ID Format', fn: testUserIdFormat },
+    { name: 'Stream Token Scope', fn: testStreamTokenScope },
+    { name: 'Account Creation', fn: testAccountCreation },
+    { name: 'Workspace Roles', fn: testWorkspaceRoles },
+    { name: 'Grounding Verifier', fn: testGroundingVerifier },
+    { name: 'Citation Page Spans', fn: testCitationPageSpans },
+    { name: 'Citation Context Budget', fn: testCitationContextBudget },
+    { name: 'Evaluation Metrics', fn: testEvaluationMetrics },
+    { name: 'Mock Providers', fn: testMockProviders },
+    { name: 'HNSW Index', fn: testHnswIndex },
+    { name: 'Local Storage Driver', fn: testLocalStorageDriver },
+    { name: 'Answer Cache Scope', fn: testAnswerCacheScope },
+    { name: 'Tokenizer Registry', fn: testTokenizerRegistry },
+    { name: 'PDF Table Layout', fn: testPdfTableLayout },
+    { name: 'PDF Reading Order', fn: testPdfReadingOrder },
+    { name: 'Document Outline', fn: testDocumentOutline },
+    { name: 'Parent-Child Retrieval', fn: testParentChildRetrieval }
   ];
   
   // Run tests sequentially
@@ -0,0 +1,172 @@
+/**
+ * JWT Utilities
+ *
+ * Minimal JSON Web Token encoding and verification on top of node:crypto.
+ * HS256 is used for tokens this API issues itself; asymmetric algorithms
+ * (RS*, ES*) are verified against an identity provider's public keys.
+ *
+ * @author ARYA RAG Team
+ */
+
+import { createHmac, createPublicKey, timingSafeEqual, verify as verifySignature, JsonWebKey } from 'crypto';
+
+export interface JwtHeader {
+  alg: string;
+  typ?: string;
+  kid?: string;
+}
+
+export interface JwtPayload {
+  sub?: string;
+  iss?: string;
+  aud?: string | string[];
+  exp?: number;
+  nbf?: number;
+  iat?: number;
+  [claim: string]: any;
+}
+
+export interface DecodedJwt {
+  header: JwtHeader;
+  payload: JwtPayload;
+  signingInput: string;
+  signature: Buffer;
+}
+
+export interface JwtClaimOptions {
+  issuer?: string;
+  audience?: string;
+  clockSkewSeconds?: number;
+  requireExp?: boolean; // Reject tokens without an exp claim instead of treating them as never expiring
+}
+
+/**
+ * Thrown for malformed, badly signed or expired tokens
+ */
+export class JwtError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JwtError';
+  }
+}
+
+// Node digest and signature encoding for each supported asymmetric algorithm
+const ASYMMETRIC_ALGORITHMS: Record<string, { digest: string; dsaEncoding?: 'ieee-p1363' }> = {
+  RS256: { digest: 'sha256' },
+  RS384: { digest: 'sha384' },
+  RS512: { digest: 'sha512' },
+  ES256: { digest: 'sha256', dsaEncoding: 'ieee-p1363' },
+  ES384: { digest: 'sha384', dsaEncoding: 'ieee-p1363' }
+};
+
+function base64UrlEncode(input: Buffer | string): string {
+  return Buffer.from(input).toString('base64url');
+}
+
+function base64UrlDecodeJson(segment: string): any {
+  try {
+    return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+  } catch {
+    throw new JwtError('Malformed token');
+  }
+}
+
+/**
+ * Sign a payload as an HS256 token
+ */
+export function signJwt(payload: JwtPayload, secret: string): string {
+  const header = base64UrlEncode(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+  const body = base64UrlEncode(JSON.stringify(payload));
+  const signature = createHmac('sha256', secret).update(`${header}.${body}`).digest('base64url');
+  return `${header}.${body}.${signature}`;
+}
+
+/**
+ * Split a token into its parts without verifying it
+ */
+export function decodeJwt(token: string): DecodedJwt {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    throw new JwtError('Malformed token');
+  }
+
+  const header = base64UrlDecodeJson(parts[0]);
+  const payload = base64UrlDecodeJson(parts[1]);
+  if (!header || typeof header.alg !== 'string' || !payload || typeof payload !== 'object') {
+    throw new JwtError('Malformed token');
+  }
+
+  return {
+    header,
+    payload,
+    signingInput: `${parts[0]}.${parts[1]}`,
+    signature: Buffer.from(parts[2], 'base64url')
+  };
+}
+
+/**
+ * Verify an HS256 token and its claims
+ */
+export function verifyHmacJwt(token: string, secret: string, options: JwtClaimOptions = {}): JwtPayload {
+  const decoded = decodeJwt(token);
+  if (decoded.header.alg !== 'HS256') {
+    throw new JwtError(`Unexpected token algorithm: ${decoded.header.alg}`);
+  }
+
+  const expected = createHmac('sha256', secret).update(decoded.signingInput).digest();
+  if (expected.length !== decoded.signature.length || !timingSafeEqual(expected, decoded.signature)) {
+    throw new JwtError('Invalid token signature');
+  }
+
+  verifyJwtClaims(decoded.payload, options);
+  return decoded.payload;
+}
+
+/**
+ * Verify an RSA or ECDSA signature against a JSON Web Key
+ */
+export function verifyAsymmetricSignature(decoded: DecodedJwt, jwk: JsonWebKey): void {
+  const algorithm = ASYMMETRIC_ALGORITHMS[decoded.header.alg];
+  if (!algorithm) {
+    throw new JwtError(`Unsupported token algorithm: ${decoded.header.alg}`);
+  }
+
+  const key = createPublicKey({ key: jwk, format: 'jwk' });
+  const valid = verifySignature(
+    algorithm.digest,
+    Buffer.from(decoded.signingInput),
+    algorithm.dsaEncoding ? { key, dsaEncoding: algorithm.dsaEncoding } : key,
+    decoded.signature
+  );
+
+  if (!valid) {
+    throw new JwtError('Invalid token signature');
+  }
+}
+
+/**
+ * Check expiry, not-before, issuer and audience
+ */
+export function verifyJwtClaims(payload: JwtPayload, options: JwtClaimOptions = {}): void {
+  const now = Math.floor(Date.now() / 1000);
+  const skew = options.clockSkewSeconds ?? 60;
+
+  if (options.requireExp && typeof payload.exp !== 'number') {
+    throw new JwtError('Token has no expiry');
+  }
+  if (typeof payload.exp === 'number' && payload.exp + skew < now) {
+    throw new JwtError('Token has expired');
+  }
+  if (typeof payload.nbf === 'number' && payload.nbf - skew > now) {
+    throw new JwtError('Token is not yet valid');
+  }
+  if (options.issuer && payload.iss !== options.issuer) {
+    throw new JwtError('Token issuer is not trusted');
+  }
+  if (options.audience) {
+    const audiences = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+    if (!audiences.includes(options.audience)) {
+      throw new JwtError('Token audience does not match');
+    }
+  }
+}
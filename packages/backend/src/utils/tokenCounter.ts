@@ -3,24 +3,28 @@
  * 
  * Provides accurate token counting for text chunking.
  * Essential for staying within model context limits and consistent chunk sizes.
+ * Counts use the tokenizer of a specific model (see tokenizers/TokenizerRegistry);
+ * without one, the tokenizer of the configured embedding model.
  * 
  * @author ARYA RAG Team
  */
 
-import { encode } from 'gpt-tokenizer';
+import { Tokenizer } from './tokenizers/Tokenizer';
+import { getTokenizer } from './tokenizers/TokenizerRegistry';
+
+export type { Tokenizer } from './tokenizers/Tokenizer';
+export { getTokenizer } from './tokenizers/TokenizerRegistry';
 
 /**
- * Count tokens in a text string using GPT tokenizer
- * This is compatible with most models including OpenAI and approximates well for others
+ * Count tokens in a text string with a model's tokenizer
  * 
  * @param text - The text to count tokens for
+ * @param tokenizer - Tokenizer of the model the text is for (default: embedding model)
  * @returns Number of tokens
  */
-export function countTokens(text: string): number {
+export function countTokens(text: string, tokenizer: Tokenizer = getTokenizer()): number {
   try {
-    // Using gpt-tokenizer which is compatible with GPT-3/4 tokenization
-    const tokens = encode(text);
-    return tokens.length;
+    return tokenizer.countTokens(text);
   } catch (error) {
     // Fallback to simple word-based estimation if tokenizer fails
     // Roughly 1 token = 0.75 words on average
@@ -48,30 +52,32 @@ export function estimateTokens(text: string): number {
  * 
  * @param text - The text to split
  * @param maxTokens - Maximum tokens for the first part
+ * @param tokenizer - Tokenizer of the model the text is for (default: embedding model)
  * @returns Tuple of [firstPart, remainingPart]
  */
 export function splitTextAtTokenCount(
   text: string, 
-  maxTokens: number
+  maxTokens: number,
+  tokenizer: Tokenizer = getTokenizer()
 ): [string, string] {
   // Quick check if text is likely under limit
   if (estimateTokens(text) <= maxTokens) {
-    const actualTokens = countTokens(text);
+    const actualTokens = countTokens(text, tokenizer);
     if (actualTokens <= maxTokens) {
       return [text, ''];
     }
   }
 
-  // Binary search to find the split point
-  const words = text.split(/\s+/);
+  // Binary search over word ends to find the split point; the first part keeps the text's own whitespace
+  const wordEnds = Array.from(text.matchAll(/\S+/g), match => match.index! + match[0].length);
   let left = 0;
-  let right = words.length;
+  let right = wordEnds.length;
   let bestSplit = 0;
 
   while (left < right) {
     const mid = Math.floor((left + right) / 2);
-    const testText = words.slice(0, mid + 1).join(' ');
-    const tokenCount = countTokens(testText);
+    const testText = text.substring(0, wordEnds[mid]);
+    const tokenCount = countTokens(testText, tokenizer);
 
     if (tokenCount <= maxTokens) {
       bestSplit = mid + 1;
@@ -81,8 +87,9 @@ export function splitTextAtTokenCount(
     }
   }
 
-  const firstPart = words.slice(0, bestSplit).join(' ');
-  const remainingPart = words.slice(bestSplit).join(' ');
+  const splitPoint = bestSplit > 0 ? wordEnds[bestSplit - 1] : 0;
+  const firstPart = text.substring(0, splitPoint);
+  const remainingPart = text.substring(splitPoint).trimStart();
 
   return [firstPart, remainingPart];
 }
@@ -142,10 +149,11 @@ export interface TokenStats {
  * Useful for debugging and optimizing chunk sizes
  * 
  * @param text - The text to analyze
+ * @param tokenizer - Tokenizer of the model the text is for (default: embedding model)
  * @returns Token statistics
  */
-export function getTokenStats(text: string): TokenStats {
-  const tokens = countTokens(text);
+export function getTokenStats(text: string, tokenizer: Tokenizer = getTokenizer()): TokenStats {
+  const tokens = countTokens(text, tokenizer);
   const words = text.split(/\s+/).filter(word => word.length > 0);
   const chars = text.length;
 
@@ -163,8 +171,9 @@ export function getTokenStats(text: string): TokenStats {
  * 
  * @param text - The text to validate
  * @param maxTokens - Maximum allowed tokens
+ * @param tokenizer - Tokenizer of the model the text is for (default: embedding model)
  * @returns True if within limit
  */
-export function isWithinTokenLimit(text: string, maxTokens: number): boolean {
-  return countTokens(text) <= maxTokens;
+export function isWithinTokenLimit(text: string, maxTokens: number, tokenizer: Tokenizer = getTokenizer()): boolean {
+  return countTokens(text, tokenizer) <= maxTokens;
 }
\ No newline at end of file
@@ -0,0 +1,34 @@
+/**
+ * GPT Tokenizer
+ *
+ * OpenAI's tiktoken encodings via gpt-tokenizer. Exact for OpenAI models; also the stand-in
+ * for models whose own vocabulary is not available locally.
+ *
+ * @author ARYA RAG Team
+ */
+
+import { countTokens as countO200k } from 'gpt-tokenizer';
+import { countTokens as countCl100k } from 'gpt-tokenizer/esm/encoding/cl100k_base';
+import { Tokenizer, TokenizerSource } from './Tokenizer';
+
+export type GptEncodingName = 'o200k_base' | 'cl100k_base';
+
+const ENCODINGS: Record<GptEncodingName, (text: string) => number> = {
+  o200k_base: countO200k,
+  cl100k_base: countCl100k
+};
+
+export class GptTokenizer implements Tokenizer {
+  readonly source: TokenizerSource = 'gpt';
+  readonly name: GptEncodingName;
+  readonly exact: boolean;
+
+  constructor(encoding: GptEncodingName = 'o200k_base', exact: boolean = true) {
+    this.name = encoding;
+    this.exact = exact;
+  }
+
+  countTokens(text: string): number {
+    return ENCODINGS[this.name](text);
+  }
+}
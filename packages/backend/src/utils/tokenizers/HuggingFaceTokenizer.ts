@@ -0,0 +1,351 @@
+/**
+ * Hugging Face Tokenizer
+ *
+ * Counts tokens with a model's tokenizer.json (the format of the Hugging Face tokenizers
+ * library): normalizer, pre-tokenizer and a BPE, WordPiece, Unigram or WordLevel model.
+ * Covers the components used by common embedding and chat models (nomic-embed, BERT family,
+ * Mistral, Llama, Qwen); a file using anything else is rejected rather than miscounted.
+ *
+ * @author ARYA RAG Team
+ */
+
+import { readFileSync } from 'fs';
+import { TokenizerSource, WordTokenizer, escapeRegExp } from './Tokenizer';
+import {
+  UNKNOWN_PENALTY,
+  countRankedMerges,
+  countUnigram,
+  countWordPiece,
+  initialSymbols,
+  mergeKey
+} from './subword';
+
+type Normalizer = (text: string) => string;
+type PreTokenizer = (text: string, isFirst: boolean) => string[];
+type SubwordModel = (word: string) => number;
+type SplitBehavior = 'Isolated' | 'Removed' | 'MergedWithPrevious' | 'MergedWithNext' | 'Contiguous';
+
+const ASCII_PUNCTUATION = '\\x21-\\x2F\\x3A-\\x40\\x5B-\\x60\\x7B-\\x7E';
+const PUNCTUATION = new RegExp(`[\\p{P}${ASCII_PUNCTUATION}]`, 'gu');
+const BERT_WORD = new RegExp(`[\\p{P}${ASCII_PUNCTUATION}]|[^\\s\\p{P}${ASCII_PUNCTUATION}]+`, 'gu');
+const WHITESPACE_WORD = /[\p{L}\p{N}\p{M}_]+|[^\p{L}\p{N}\p{M}_\s]+/gu;
+const GPT2_WORD = /'s|'t|'re|'ve|'m|'ll|'d| ?\p{L}+| ?\p{N}+| ?[^\s\p{L}\p{N}]+|\s+(?!\S)|\s+/gu;
+const CJK_CHARACTER = /[\u4E00-\u9FFF\u3400-\u4DBF\uF900-\uFAFF\u{20000}-\u{2A6DF}\u{2A700}-\u{2B73F}\u{2B740}-\u{2B81F}\u{2B820}-\u{2CEAF}\u{2F800}-\u{2FA1F}]/gu;
+const BYTE_TOKEN = /^<0x[0-9A-F]{2}>$/;
+
+// Without a pre-tokenizer (SentencePiece conversions) words start at the ▁ that marks a space
+const METASPACE_WORD_START = /(?<=[^▁])(?=▁)/u;
+
+/**
+ * GPT-2 byte-to-unicode table: every byte maps to a printable character
+ */
+const BYTE_TO_UNICODE: string[] = (() => {
+  const printable: number[] = [];
+  for (let byte = 33; byte <= 126; byte++) printable.push(byte);
+  for (let byte = 161; byte <= 172; byte++) printable.push(byte);
+  for (let byte = 174; byte <= 255; byte++) printable.push(byte);
+
+  const table: string[] = [];
+  let shifted = 0;
+  for (let byte = 0; byte < 256; byte++) {
+    table[byte] = printable.includes(byte)
+      ? String.fromCharCode(byte)
+      : String.fromCharCode(256 + shifted++);
+  }
+  return table;
+})();
+
+export class HuggingFaceTokenizer extends WordTokenizer {
+  readonly source: TokenizerSource = 'huggingface';
+  readonly name: string;
+  private normalize: Normalizer;
+  private preTokenize: PreTokenizer;
+  private countSubwords: SubwordModel;
+
+  /**
+   * @param json - Parsed tokenizer.json
+   * @param name - Where the vocabulary came from, for logs
+   */
+  constructor(json: any, name: string) {
+    super((json?.added_tokens || []).map((token: { content: string }) => token.content));
+
+    if (!json?.model) {
+      throw new Error('tokenizer.json has no model');
+    }
+
+    this.name = name;
+    this.normalize = buildNormalizer(json.normalizer);
+    this.preTokenize = buildPreTokenizer(json.pre_tokenizer);
+    this.countSubwords = buildModel(json.model);
+  }
+
+  static fromFile(path: string): HuggingFaceTokenizer {
+    return new HuggingFaceTokenizer(JSON.parse(readFileSync(path, 'utf8')), path);
+  }
+
+  protected splitWords(text: string, isFirst: boolean): string[] {
+    return this.preTokenize(this.normalize(text), isFirst).filter(word => word.length > 0);
+  }
+
+  protected countWord(word: string): number {
+    return this.countSubwords(word);
+  }
+}
+
+function buildNormalizer(config: any): Normalizer {
+  if (!config) {
+    return text => text;
+  }
+
+  switch (config.type) {
+    case 'Sequence': {
+      const steps: Normalizer[] = config.normalizers.map(buildNormalizer);
+      return text => steps.reduce((result, step) => step(result), text);
+    }
+    case 'NFC':
+    case 'NFD':
+    case 'NFKC':
+    case 'NFKD':
+      return text => text.normalize(config.type);
+    case 'Precompiled':
+      // SentencePiece's compiled normalization table is close to NFKC
+      return text => text.normalize('NFKC');
+    case 'Lowercase':
+      return text => text.toLowerCase();
+    case 'StripAccents':
+      return text => text.replace(/\p{Mn}/gu, '');
+    case 'Strip':
+      return text => {
+        let result = config.strip_left ? text.trimStart() : text;
+        result = config.strip_right ? result.trimEnd() : result;
+        return result;
+      };
+    case 'Prepend':
+      return text => (text ? config.prepend + text : text);
+    case 'Replace': {
+      const pattern = toRegExp(config.pattern);
+      return text => text.replace(pattern, config.content);
+    }
+    case 'BertNormalizer':
+      return bertNormalizer(config);
+    default:
+      throw new Error(`Unsupported normalizer: ${config.type}`);
+  }
+}
+
+function bertNormalizer(config: any): Normalizer {
+  const lowercase = config.lowercase ?? true;
+  const stripAccents = config.strip_accents ?? lowercase;
+
+  return text => {
+    let result = text;
+    if (config.clean_text ?? true) {
+      result = result.replace(/[\u0000\uFFFD]|(?![\t\n\r])\p{C}/gu, '').replace(/\s/gu, ' ');
+    }
+    if (config.handle_chinese_chars ?? true) {
+      result = result.replace(CJK_CHARACTER, ' $& ');
+    }
+    if (stripAccents) {
+      result = result.normalize('NFD').replace(/\p{Mn}/gu, '');
+    }
+    return lowercase ? result.toLowerCase() : result;
+  };
+}
+
+function buildPreTokenizer(config: any): PreTokenizer {
+  if (!config) {
+    return text => text.split(METASPACE_WORD_START);
+  }
+
+  switch (config.type) {
+    case 'Sequence': {
+      const steps: PreTokenizer[] = config.pretokenizers.map(buildPreTokenizer);
+      return (text, isFirst) => steps.reduce(
+        (words, step) => words.flatMap((word, index) => step(word, isFirst && index === 0)),
+        [text]
+      );
+    }
+    case 'BertPreTokenizer':
+      return text => text.match(BERT_WORD) || [];
+    case 'Whitespace':
+      return text => text.match(WHITESPACE_WORD) || [];
+    case 'WhitespaceSplit':
+      return text => text.split(/\s+/u);
+    case 'CharDelimiterSplit':
+      return text => text.split(config.delimiter);
+    case 'Punctuation':
+      return text => splitOnPattern(text, PUNCTUATION, config.behavior || 'Isolated', false);
+    case 'Digits': {
+      const digits = config.individual_digits ? /\p{N}/gu : /\p{N}+/gu;
+      return text => splitOnPattern(text, digits, 'Isolated', false);
+    }
+    case 'Split': {
+      const pattern = toRegExp(config.pattern);
+      return text => splitOnPattern(text, pattern, config.behavior, !!config.invert);
+    }
+    case 'Metaspace':
+      return metaspace(config);
+    case 'ByteLevel':
+      return byteLevel(config);
+    default:
+      throw new Error(`Unsupported pre-tokenizer: ${config.type}`);
+  }
+}
+
+/**
+ * SentencePiece-style whitespace: spaces become ▁ and each word starts at one
+ */
+function metaspace(config: any): PreTokenizer {
+  const replacement: string = config.replacement || '▁';
+  const prependScheme: string = config.prepend_scheme || (config.add_prefix_space === false ? 'never' : 'always');
+  const marker = new RegExp(escapeRegExp(replacement), 'gu');
+
+  return (text, isFirst) => {
+    let result = text.replace(/ /g, replacement);
+    const prepend = prependScheme === 'always' || (prependScheme === 'first' && isFirst);
+    if (prepend && !result.startsWith(replacement)) {
+      result = replacement + result;
+    }
+    return config.split === false ? [result] : splitOnPattern(result, marker, 'MergedWithNext', false);
+  };
+}
+
+/**
+ * GPT-2 style byte-level words: split with the GPT-2 pattern, then map every UTF-8 byte to a character
+ */
+function byteLevel(config: any): PreTokenizer {
+  const addPrefixSpace = config.add_prefix_space ?? true;
+  const useRegex = config.use_regex ?? true;
+
+  return text => {
+    const prefixed = addPrefixSpace && !text.startsWith(' ') ? ` ${text}` : text;
+    const words = useRegex ? prefixed.match(GPT2_WORD) || [] : [prefixed];
+    return words.map(word => Array.from(Buffer.from(word, 'utf8'), byte => BYTE_TO_UNICODE[byte]).join(''));
+  };
+}
+
+function buildModel(config: any): SubwordModel {
+  const type = config.type || (config.merges ? 'BPE' : undefined);
+
+  switch (type) {
+    case 'BPE':
+      return bpeModel(config);
+    case 'WordPiece': {
+      const vocab = new Set(Object.keys(config.vocab));
+      const prefix = config.continuing_subword_prefix ?? '##';
+      const maxInputChars = config.max_input_chars_per_word ?? 100;
+      return word => countWordPiece(word, vocab, prefix, maxInputChars);
+    }
+    case 'Unigram':
+      return unigramModel(config);
+    case 'WordLevel':
+      return () => 1;
+    default:
+      throw new Error(`Unsupported tokenizer model: ${type}`);
+  }
+}
+
+function bpeModel(config: any): SubwordModel {
+  const vocab = new Set(Object.keys(config.vocab));
+  const ranks = new Map<string, number>();
+  (config.merges || []).forEach((merge: string | [string, string], rank: number) => {
+    const [left, right] = Array.isArray(merge)
+      ? merge
+      : [merge.slice(0, merge.indexOf(' ')), merge.slice(merge.indexOf(' ') + 1)];
+    ranks.set(mergeKey(left, right), rank);
+  });
+
+  const prefix: string = config.continuing_subword_prefix || '';
+  const suffix: string = config.end_of_word_suffix || '';
+  const isUnknown = (symbol: string) => symbol.startsWith('\u0000') && !symbol.startsWith('\u0000<0x');
+
+  return word => {
+    if (config.ignore_merges && vocab.has(word)) {
+      return 1;
+    }
+
+    let symbols = initialSymbols(word, symbol => vocab.has(symbol), !!config.byte_fallback, prefix, suffix);
+    if (config.fuse_unk) {
+      symbols = symbols.filter((symbol, index) => !(index > 0 && isUnknown(symbol) && isUnknown(symbols[index - 1])));
+    }
+    return countRankedMerges(symbols, ranks, prefix);
+  };
+}
+
+function unigramModel(config: any): SubwordModel {
+  const byteFallback = !!config.byte_fallback;
+  const scores = new Map<string, number>();
+  let maxPieceLength = 1;
+  let minScore = 0;
+
+  (config.vocab as Array<[string, number]>).forEach(([piece, score], id) => {
+    if (id === config.unk_id || (byteFallback && BYTE_TOKEN.test(piece))) return;
+    scores.set(piece, score);
+    maxPieceLength = Math.max(maxPieceLength, Array.from(piece).length);
+    minScore = Math.min(minScore, score);
+  });
+
+  return word => countUnigram(word, scores, maxPieceLength, minScore - UNKNOWN_PENALTY, byteFallback);
+}
+
+/**
+ * Split text on a pattern, keeping or merging the matches as the Hugging Face Split behaviors do
+ */
+function splitOnPattern(text: string, pattern: RegExp, behavior: SplitBehavior, invert: boolean): string[] {
+  const pieces: Array<{ text: string; match: boolean }> = [];
+  let last = 0;
+
+  for (const found of text.matchAll(pattern)) {
+    if (!found[0]) continue;
+    if (found.index! > last) {
+      pieces.push({ text: text.slice(last, found.index), match: invert });
+    }
+    pieces.push({ text: found[0], match: !invert });
+    last = found.index! + found[0].length;
+  }
+  if (last < text.length) {
+    pieces.push({ text: text.slice(last), match: invert });
+  }
+
+  const words: string[] = [];
+  pieces.forEach((piece, index) => {
+    const previous = pieces[index - 1];
+    const append =
+      (behavior === 'MergedWithPrevious' && piece.match && previous && !previous.match) ||
+      (behavior === 'MergedWithNext' && !piece.match && previous?.match) ||
+      (behavior === 'Contiguous' && piece.match && previous?.match);
+
+    if (behavior === 'Removed' && piece.match) return;
+    if (append) {
+      words[words.length - 1] += piece.text;
+    } else {
+      words.push(piece.text);
+    }
+  });
+
+  return words;
+}
+
+function toRegExp(pattern: { String?: string; Regex?: string }): RegExp {
+  if (pattern.String !== undefined) {
+    return new RegExp(escapeRegExp(pattern.String), 'gu');
+  }
+  return compileRegex(pattern.Regex || '');
+}
+
+/**
+ * Compile a tokenizer regex; JavaScript lacks the possessive quantifiers and scoped
+ * case-insensitive groups that some tokenizer.json patterns (Llama 3, Qwen) use
+ */
+function compileRegex(source: string): RegExp {
+  try {
+    return new RegExp(source, 'gu');
+  } catch {
+    const translated = source
+      .replace(/(\{\d+(?:,\d*)?\}|[^\\][+*?])\+/g, '$1')
+      .replace(/\(\?i:((?:[^()\\]|\\.)*)\)/g, (_, body: string) =>
+        `(?:${body.replace(/\\.|[a-z]/gi, char => (char.length === 1 ? `[${char.toLowerCase()}${char.toUpperCase()}]` : char))})`
+      );
+    return new RegExp(translated, 'gu');
+  }
+}
@@ -0,0 +1,224 @@
+/**
+ * SentencePiece Tokenizer
+ *
+ * Counts tokens with a SentencePiece model file (tokenizer.model, as shipped with Mistral,
+ * Llama 2 and many multilingual models). The protobuf is read directly: pieces with their
+ * scores, the model type (Unigram or BPE), byte fallback and the whitespace options of the
+ * normalizer. The compiled normalization table is approximated with NFKC.
+ *
+ * @author ARYA RAG Team
+ */
+
+import { readFileSync } from 'fs';
+import { TokenizerSource, WordTokenizer } from './Tokenizer';
+import { UNKNOWN_PENALTY, countScoredMerges, countUnigram, initialSymbols } from './subword';
+
+const WHITESPACE = '▁';
+const WORD_START = /(?<=[^▁])(?=▁)/u;
+
+// sentencepiece_model.proto
+enum PieceType {
+  NORMAL = 1,
+  UNKNOWN = 2,
+  CONTROL = 3,
+  USER_DEFINED = 4,
+  UNUSED = 5,
+  BYTE = 6
+}
+
+enum ModelType {
+  UNIGRAM = 1,
+  BPE = 2,
+  WORD = 3,
+  CHAR = 4
+}
+
+interface ProtoField {
+  field: number;
+  value: number | Buffer;
+}
+
+interface SentencePieceModel {
+  pieces: Array<{ piece: string; score: number; type: PieceType }>;
+  modelType: ModelType;
+  byteFallback: boolean;
+  normalizerName: string;
+  addDummyPrefix: boolean;
+  removeExtraWhitespaces: boolean;
+}
+
+export class SentencePieceTokenizer extends WordTokenizer {
+  readonly source: TokenizerSource = 'sentencepiece';
+  readonly name: string;
+  private model: SentencePieceModel;
+  private scores = new Map<string, number>();
+  private maxPieceLength = 1;
+  private unknownScore: number;
+
+  /**
+   * @param buffer - Contents of a SentencePiece .model file
+   * @param name - Where the vocabulary came from, for logs
+   */
+  constructor(buffer: Buffer, name: string) {
+    const model = parseModel(buffer);
+    super(model.pieces.filter(piece => piece.type === PieceType.USER_DEFINED).map(piece => piece.piece));
+
+    if (model.pieces.length === 0) {
+      throw new Error('SentencePiece model has no pieces');
+    }
+    if (model.modelType !== ModelType.UNIGRAM && model.modelType !== ModelType.BPE &&
+        model.modelType !== ModelType.WORD && model.modelType !== ModelType.CHAR) {
+      throw new Error(`Unsupported SentencePiece model type: ${model.modelType}`);
+    }
+
+    this.name = name;
+    this.model = model;
+
+    let minScore = 0;
+    model.pieces
+      .filter(piece => piece.type === PieceType.NORMAL || piece.type === PieceType.USER_DEFINED)
+      .forEach(({ piece, score }) => {
+        this.scores.set(piece, score);
+        this.maxPieceLength = Math.max(this.maxPieceLength, Array.from(piece).length);
+        minScore = Math.min(minScore, score);
+      });
+    this.unknownScore = minScore - UNKNOWN_PENALTY;
+  }
+
+  static fromFile(path: string): SentencePieceTokenizer {
+    return new SentencePieceTokenizer(readFileSync(path), path);
+  }
+
+  protected splitWords(text: string, isFirst: boolean): string[] {
+    let normalized = /nfkc/i.test(this.model.normalizerName) ? text.normalize('NFKC') : text;
+
+    if (this.model.removeExtraWhitespaces) {
+      normalized = normalized.replace(/ +/g, ' ');
+      normalized = isFirst ? normalized.trim() : normalized.trimEnd();
+    }
+    if (!normalized) {
+      return [];
+    }
+    if (this.model.addDummyPrefix && isFirst && !normalized.startsWith(' ')) {
+      normalized = ` ${normalized}`;
+    }
+
+    return normalized.replace(/ /g, WHITESPACE).split(WORD_START);
+  }
+
+  protected countWord(word: string): number {
+    switch (this.model.modelType) {
+      case ModelType.UNIGRAM:
+        return countUnigram(word, this.scores, this.maxPieceLength, this.unknownScore, this.model.byteFallback);
+      case ModelType.BPE:
+        return countScoredMerges(
+          initialSymbols(word, symbol => this.scores.has(symbol), this.model.byteFallback),
+          this.scores
+        );
+      case ModelType.WORD:
+        return 1;
+      default:
+        return Array.from(word).length;
+    }
+  }
+}
+
+/**
+ * Read the parts of a ModelProto that affect segmentation
+ */
+function parseModel(buffer: Buffer): SentencePieceModel {
+  const model: SentencePieceModel = {
+    pieces: [],
+    modelType: ModelType.UNIGRAM,
+    byteFallback: false,
+    normalizerName: 'nmt_nfkc',
+    addDummyPrefix: true,
+    removeExtraWhitespaces: true
+  };
+
+  for (const { field, value } of readFields(buffer)) {
+    if (!Buffer.isBuffer(value)) continue;
+
+    if (field === 1) {
+      const piece = { piece: '', score: 0, type: PieceType.NORMAL };
+      for (const pieceField of readFields(value)) {
+        if (pieceField.field === 1 && Buffer.isBuffer(pieceField.value)) piece.piece = pieceField.value.toString('utf8');
+        if (pieceField.field === 2 && typeof pieceField.value === 'number') piece.score = pieceField.value;
+        if (pieceField.field === 3 && typeof pieceField.value === 'number') piece.type = pieceField.value;
+      }
+      model.pieces.push(piece);
+    } else if (field === 2) {
+      // TrainerSpec
+      for (const trainerField of readFields(value)) {
+        if (trainerField.field === 3) model.modelType = trainerField.value as number;
+        if (trainerField.field === 35) model.byteFallback = trainerField.value === 1;
+      }
+    } else if (field === 3) {
+      // NormalizerSpec
+      for (const normalizerField of readFields(value)) {
+        if (normalizerField.field === 1 && Buffer.isBuffer(normalizerField.value)) {
+          model.normalizerName = normalizerField.value.toString('utf8');
+        }
+        if (normalizerField.field === 3) model.addDummyPrefix = normalizerField.value === 1;
+        if (normalizerField.field === 4) model.removeExtraWhitespaces = normalizerField.value === 1;
+      }
+    }
+  }
+
+  return model;
+}
+
+/**
+ * Decode one level of protobuf fields; varints and 32-bit floats become numbers,
+ * length-delimited fields stay buffers
+ */
+function readFields(buffer: Buffer): ProtoField[] {
+  const fields: ProtoField[] = [];
+  let offset = 0;
+
+  const readVarint = (): number => {
+    let result = 0;
+    let multiplier = 1;
+    for (;;) {
+      if (offset >= buffer.length) {
+        throw new Error('Truncated SentencePiece model');
+      }
+      const byte = buffer[offset++];
+      result += (byte & 0x7f) * multiplier;
+      if (byte < 0x80) return result;
+      multiplier *= 128;
+    }
+  };
+
+  while (offset < buffer.length) {
+    const key = readVarint();
+    const field = Math.floor(key / 8);
+    const wireType = key % 8;
+
+    switch (wireType) {
+      case 0:
+        fields.push({ field, value: readVarint() });
+        break;
+      case 1:
+        offset += 8;
+        break;
+      case 2: {
+        const length = readVarint();
+        if (offset + length > buffer.length) {
+          throw new Error('Truncated SentencePiece model');
+        }
+        fields.push({ field, value: buffer.subarray(offset, offset + length) });
+        offset += length;
+        break;
+      }
+      case 5:
+        fields.push({ field, value: buffer.readFloatLE(offset) });
+        offset += 4;
+        break;
+      default:
+        throw new Error(`Not a SentencePiece model (wire type ${wireType})`);
+    }
+  }
+
+  return fields;
+}
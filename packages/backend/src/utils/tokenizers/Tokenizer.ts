@@ -0,0 +1,108 @@
+/**
+ * Tokenizer Interface
+ *
+ * A tokenizer counts tokens the way one model's vocabulary splits text, so chunk sizes and
+ * context budgets match the model that consumes them. Counts exclude the special tokens a
+ * model adds around its input (BOS/EOS, [CLS]/[SEP]).
+ *
+ * @author ARYA RAG Team
+ */
+
+export type TokenizerSource = 'gpt' | 'huggingface' | 'sentencepiece';
+
+export interface Tokenizer {
+  readonly name: string;          // Encoding name or vocabulary file
+  readonly source: TokenizerSource;
+  readonly exact: boolean;        // False when another vocabulary stands in for the model's own
+  countTokens(text: string): number;
+}
+
+const MAX_CACHED_WORDS = 100000;
+
+/**
+ * Base class for vocabulary tokenizers that split text into words before segmenting each
+ * word into subword pieces. Words repeat a lot across a document, so their counts are cached.
+ */
+export abstract class WordTokenizer implements Tokenizer {
+  abstract readonly name: string;
+  abstract readonly source: TokenizerSource;
+  readonly exact = true;
+
+  private wordCounts = new Map<string, number>();
+  private specialPattern?: RegExp;
+
+  /**
+   * @param specialTokens - Strings that are always a single token and never split (added or user-defined tokens)
+   */
+  constructor(specialTokens: string[] = []) {
+    const tokens = specialTokens.filter(token => token.length > 0).sort((a, b) => b.length - a.length);
+    if (tokens.length > 0) {
+      this.specialPattern = new RegExp(tokens.map(escapeRegExp).join('|'), 'gu');
+    }
+  }
+
+  countTokens(text: string): number {
+    let count = 0;
+
+    this.splitSpecialTokens(text).forEach(({ segment, special }, index) => {
+      if (special) {
+        count++;
+        return;
+      }
+      for (const word of this.splitWords(segment, index === 0)) {
+        count += this.cachedWordCount(word);
+      }
+    });
+
+    return count;
+  }
+
+  /**
+   * Normalize a segment of text and split it into the words the subword model segments
+   *
+   * @param text - Text between special tokens
+   * @param isFirst - Whether the segment starts the input (prefix space handling)
+   */
+  protected abstract splitWords(text: string, isFirst: boolean): string[];
+
+  /**
+   * Number of subword pieces in one word
+   */
+  protected abstract countWord(word: string): number;
+
+  private cachedWordCount(word: string): number {
+    let count = this.wordCounts.get(word);
+    if (count === undefined) {
+      count = this.countWord(word);
+      if (this.wordCounts.size >= MAX_CACHED_WORDS) {
+        this.wordCounts.clear();
+      }
+      this.wordCounts.set(word, count);
+    }
+    return count;
+  }
+
+  private splitSpecialTokens(text: string): Array<{ segment: string; special: boolean }> {
+    if (!this.specialPattern) {
+      return [{ segment: text, special: false }];
+    }
+
+    const segments: Array<{ segment: string; special: boolean }> = [];
+    let last = 0;
+    for (const match of text.matchAll(this.specialPattern)) {
+      if (match.index! > last) {
+        segments.push({ segment: text.slice(last, match.index), special: false });
+      }
+      segments.push({ segment: match[0], special: true });
+      last = match.index! + match[0].length;
+    }
+    if (last < text.length) {
+      segments.push({ segment: text.slice(last), special: false });
+    }
+    return segments;
+  }
+}
+
+export function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
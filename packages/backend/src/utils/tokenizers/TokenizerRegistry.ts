@@ -0,0 +1,116 @@
+/**
+ * Tokenizer Registry
+ *
+ * Resolves the tokenizer for a model name, once per model:
+ * 1. A local vocabulary in TOKENIZER_DIR (default ./data/tokenizers), looked up by model name
+ *    with and without its Ollama tag: <dir>/<model>/tokenizer.json, <dir>/<model>/tokenizer.model,
+ *    <dir>/<model>.json or <dir>/<model>.model
+ * 2. The tiktoken encoding of OpenAI models
+ * 3. The o200k_base encoding as an approximation, with a warning
+ *
+ * @author ARYA RAG Team
+ */
+
+import { existsSync } from 'fs';
+import { join, resolve } from 'path';
+import { Tokenizer } from './Tokenizer';
+import { GptEncodingName, GptTokenizer } from './GptTokenizer';
+import { HuggingFaceTokenizer } from './HuggingFaceTokenizer';
+import { SentencePieceTokenizer } from './SentencePieceTokenizer';
+
+const OPENAI_ENCODINGS: Array<[RegExp, GptEncodingName]> = [
+  [/^(gpt-4o|gpt-4\.1|gpt-4\.5|gpt-5|o\d)/, 'o200k_base'],
+  [/^(gpt-4|gpt-3\.5|text-embedding-3|text-embedding-ada-002)/, 'cl100k_base']
+];
+
+export class TokenizerRegistry {
+  private static instance: TokenizerRegistry;
+  private tokenizers = new Map<string, Tokenizer>();
+  private approximate = new GptTokenizer('o200k_base', false);
+
+  private constructor() {}
+
+  static getInstance(): TokenizerRegistry {
+    if (!TokenizerRegistry.instance) {
+      TokenizerRegistry.instance = new TokenizerRegistry();
+    }
+    return TokenizerRegistry.instance;
+  }
+
+  /**
+   * Tokenizer for a model
+   *
+   * @param model - Embedding or LLM model name; defaults to EMBEDDING_MODEL, the model chunks are sized for
+   */
+  getTokenizer(model: string = process.env.EMBEDDING_MODEL || ''): Tokenizer {
+    let tokenizer = this.tokenizers.get(model);
+    if (!tokenizer) {
+      tokenizer = this.resolve(model);
+      this.tokenizers.set(model, tokenizer);
+    }
+    return tokenizer;
+  }
+
+  private resolve(model: string): Tokenizer {
+    if (!model) {
+      return this.approximate;
+    }
+
+    const file = this.findVocabulary(model);
+    if (file) {
+      try {
+        const tokenizer = file.endsWith('.json')
+          ? HuggingFaceTokenizer.fromFile(file)
+          : SentencePieceTokenizer.fromFile(file);
+        console.log(`🔤 Tokenizer for ${model}: ${file}`);
+        return tokenizer;
+      } catch (error) {
+        console.warn(`⚠️ Could not load tokenizer ${file}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    const baseName = model.split('/').pop()!;
+    const openai = OPENAI_ENCODINGS.find(([pattern]) => pattern.test(baseName));
+    if (openai) {
+      return new GptTokenizer(openai[1]);
+    }
+
+    // Mock models have no vocabulary of their own
+    if (!baseName.startsWith('mock-')) {
+      console.warn(`⚠️ No tokenizer vocabulary for ${model} in ${this.tokenizerDir()}; token counts are approximate (o200k_base)`);
+    }
+    return this.approximate;
+  }
+
+  private findVocabulary(model: string): string | undefined {
+    const dir = this.tokenizerDir();
+    const names = Array.from(new Set([model, model.split(':')[0]]));
+
+    for (const name of names) {
+      const candidates = [
+        join(dir, name, 'tokenizer.json'),
+        join(dir, name, 'tokenizer.model'),
+        join(dir, `${name}.json`),
+        join(dir, `${name}.model`)
+      ];
+      const found = candidates.find(candidate => existsSync(candidate));
+      if (found) {
+        return found;
+      }
+    }
+    return undefined;
+  }
+
+  private tokenizerDir(): string {
+    return resolve(process.env.TOKENIZER_DIR || './data/tokenizers');
+  }
+}
+
+/**
+ * Tokenizer for a model from the shared registry
+ *
+ * @param model - Embedding or LLM model name; defaults to EMBEDDING_MODEL
+ */
+export function getTokenizer(model?: string): Tokenizer {
+  return TokenizerRegistry.getInstance().getTokenizer(model);
+}
@@ -0,0 +1,188 @@
+/**
+ * Subword Segmentation
+ *
+ * Token counting for the three subword algorithms found in local vocabularies: Unigram
+ * (best-scoring segmentation), BPE (repeated pair merges) and WordPiece (greedy longest match).
+ * Shared by the Hugging Face and SentencePiece tokenizers.
+ *
+ * @author ARYA RAG Team
+ */
+
+/**
+ * Penalty SentencePiece gives the unknown piece below the lowest piece score
+ */
+export const UNKNOWN_PENALTY = 10;
+
+export function utf8Length(text: string): number {
+  return Buffer.byteLength(text, 'utf8');
+}
+
+/**
+ * Number of pieces in the highest-scoring segmentation of a word (Viterbi over the piece scores)
+ * A character no piece covers becomes one unknown token, or one token per UTF-8 byte with byte fallback.
+ */
+export function countUnigram(
+  word: string,
+  scores: Map<string, number>,
+  maxPieceLength: number,
+  unknownScore: number,
+  byteFallback: boolean
+): number {
+  const chars = Array.from(word);
+  const offsets = [0];
+  chars.forEach(char => offsets.push(offsets[offsets.length - 1] + char.length));
+
+  const best = new Array<number>(chars.length + 1).fill(-Infinity);
+  const counts = new Array<number>(chars.length + 1).fill(0);
+  best[0] = 0;
+
+  for (let end = 1; end <= chars.length; end++) {
+    for (let start = Math.max(0, end - maxPieceLength); start < end; start++) {
+      if (best[start] === -Infinity) continue;
+
+      const score = scores.get(word.slice(offsets[start], offsets[end]));
+      if (score !== undefined && best[start] + score > best[end]) {
+        best[end] = best[start] + score;
+        counts[end] = counts[start] + 1;
+      }
+    }
+
+    const char = chars[end - 1];
+    if (!scores.has(char) && best[end - 1] + unknownScore > best[end]) {
+      best[end] = best[end - 1] + unknownScore;
+      counts[end] = counts[end - 1] + (byteFallback ? utf8Length(char) : 1);
+    }
+  }
+
+  return counts[chars.length];
+}
+
+/**
+ * Number of symbols left after merging adjacent pairs, lowest rank first (Hugging Face BPE)
+ *
+ * @param symbols - Initial symbols; ones that are not in the vocabulary never merge
+ * @param ranks - Merge rank keyed by mergeKey(left, right)
+ * @param continuingPrefix - Prefix marking non-initial symbols, dropped from the right side of a merge
+ */
+export function countRankedMerges(symbols: string[], ranks: Map<string, number>, continuingPrefix: string = ''): number {
+  const parts = [...symbols];
+
+  while (parts.length > 1) {
+    let bestIndex = -1;
+    let bestRank = Infinity;
+    for (let i = 0; i < parts.length - 1; i++) {
+      const rank = ranks.get(mergeKey(parts[i], parts[i + 1]));
+      if (rank !== undefined && rank < bestRank) {
+        bestRank = rank;
+        bestIndex = i;
+      }
+    }
+    if (bestIndex < 0) break;
+
+    const right = parts[bestIndex + 1];
+    const merged = parts[bestIndex] + (continuingPrefix && right.startsWith(continuingPrefix) ? right.slice(continuingPrefix.length) : right);
+    parts.splice(bestIndex, 2, merged);
+  }
+
+  return parts.length;
+}
+
+/**
+ * Number of symbols left after merging adjacent pairs whose concatenation is the
+ * highest-scoring vocabulary piece (SentencePiece BPE)
+ */
+export function countScoredMerges(symbols: string[], scores: Map<string, number>): number {
+  const parts = [...symbols];
+
+  while (parts.length > 1) {
+    let bestIndex = -1;
+    let bestScore = -Infinity;
+    for (let i = 0; i < parts.length - 1; i++) {
+      const score = scores.get(parts[i] + parts[i + 1]);
+      if (score !== undefined && score > bestScore) {
+        bestScore = score;
+        bestIndex = i;
+      }
+    }
+    if (bestIndex < 0) break;
+
+    parts.splice(bestIndex, 2, parts[bestIndex] + parts[bestIndex + 1]);
+  }
+
+  return parts.length;
+}
+
+/**
+ * Number of pieces from greedy longest-match-first segmentation (WordPiece)
+ * A word that cannot be fully segmented is a single unknown token.
+ */
+export function countWordPiece(
+  word: string,
+  vocab: Set<string>,
+  continuingPrefix: string,
+  maxInputChars: number
+): number {
+  const chars = Array.from(word);
+  if (chars.length > maxInputChars) {
+    return 1;
+  }
+
+  let count = 0;
+  let start = 0;
+  while (start < chars.length) {
+    let end = chars.length;
+    let found = false;
+
+    while (start < end) {
+      const piece = (start > 0 ? continuingPrefix : '') + chars.slice(start, end).join('');
+      if (vocab.has(piece)) {
+        found = true;
+        break;
+      }
+      end--;
+    }
+
+    if (!found) {
+      return 1;
+    }
+    count++;
+    start = end;
+  }
+
+  return count;
+}
+
+/**
+ * Initial BPE symbols for a word: its characters, with characters outside the vocabulary
+ * replaced by their UTF-8 byte tokens (byte fallback) or an unknown symbol
+ */
+export function initialSymbols(
+  word: string,
+  inVocab: (symbol: string) => boolean,
+  byteFallback: boolean,
+  continuingPrefix: string = '',
+  endOfWordSuffix: string = ''
+): string[] {
+  const symbols: string[] = [];
+  const chars = Array.from(word);
+
+  for (const [index, char] of chars.entries()) {
+    const symbol = (index > 0 ? continuingPrefix : '') + char + (index === chars.length - 1 ? endOfWordSuffix : '');
+    if (inVocab(symbol)) {
+      symbols.push(symbol);
+    } else if (byteFallback) {
+      // Byte tokens never take part in merges
+      for (const byte of Buffer.from(char, 'utf8')) {
+        symbols.push(`\u0000<0x${byte.toString(16).toUpperCase().padStart(2, '0')}>`);
+      }
+    } else {
+      symbols.push(`\u0000${char}`);
+    }
+  }
+
+  return symbols;
+}
+
+export function mergeKey(left: string, right: string): string {
+  return `${left}\u0001${right}`;
+}
@@ -0,0 +1,38 @@
+/**
+ * User ID Format
+ *
+ * One format for every userId the API accepts: route parameters, request bodies,
+ * registration and OIDC sign-in. An account that can sign in can therefore also
+ * upload, query and hold conversations.
+ *
+ * @author ARYA RAG Team
+ */
+
+import { createHash } from 'crypto';
+
+export const USER_ID_PATTERN = /^[a-zA-Z0-9_-]+$/;
+export const MAX_USER_ID_LENGTH = 50;
+
+export const USER_ID_FORMAT_MESSAGE = 'User ID can only contain letters, numbers, hyphens, and underscores';
+
+export function isValidUserId(userId: unknown): userId is string {
+  return typeof userId === 'string'
+    && userId.length > 0
+    && userId.length <= MAX_USER_ID_LENGTH
+    && USER_ID_PATTERN.test(userId);
+}
+
+/**
+ * Map an OIDC subject onto the userId format
+ * Subjects that already fit (including UUIDs) are used as they are; others, such as
+ * "auth0|abc" or email addresses, become oidc-<hash of issuer and subject>, which is
+ * the same on every sign-in and differs between providers
+ */
+export function userIdFromOidcSubject(issuer: string, subject: string): string {
+  if (isValidUserId(subject)) {
+    return subject;
+  }
+
+  const digest = createHash('sha256').update(`${issuer}\n${subject}`).digest('hex');
+  return `oidc-${digest.slice(0, 40)}`;
+}
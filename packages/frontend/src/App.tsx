@@ -94,7 +94,7 @@ function AppContent() {
                   </CardHeader>
                   <CardContent>
                     <p className="text-sm text-GreatifyNeutral-600 mb-4">
-                      Please enter a username to get started. This will be used to manage your documents.
+                      Sign in or create an account to get started. Your documents are only visible to you.
                     </p>
                     <UsernameInput />
                   </CardContent>
@@ -2,20 +2,22 @@
  * Document List Component
  * 
  * Displays user's uploaded documents with status, metadata, and actions.
- * Shows processing progress for pending documents.
+ * Shows live processing progress for pending documents, streamed from the backend.
+ * Completed documents can show their section outline; a section opens the file at its first page.
  * 
  * @author ARYA RAG Team
  */
 
 import React, { useEffect, useState } from 'react';
-import { FileText, Trash2, Clock, CheckCircle, AlertCircle, Loader2 } from 'lucide-react';
+import { FileText, Trash2, Clock, CheckCircle, AlertCircle, Loader2, ListTree } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
 import { documentsApi } from '@/services/api';
 import { useUsername } from '@/contexts/UsernameContext';
-import { UserDocument, ProcessingStatusResponse } from '@arya-rag/types';
-import { cn } from '@/lib/utils';
+import { UserDocument, IngestionProgressEvent, OutlineSection } from '@arya-rag/types';
+import { cn, formatEta } from '@/lib/utils';
+import { DocumentOutline } from './DocumentOutline';
 
 interface DocumentListProps {
   refreshTrigger?: number;
@@ -30,7 +32,8 @@ export const DocumentList: React.FC<DocumentListProps> = ({
   const [documents, setDocuments] = useState<UserDocument[]>([]);
   const [loading, setLoading] = useState(true);
   const [deletingId, setDeletingId] = useState<string | null>(null);
-  const [statusMap, setStatusMap] = useState<Map<string, ProcessingStatusResponse>>(new Map());
+  const [progressMap, setProgressMap] = useState<Map<string, IngestionProgressEvent>>(new Map());
+  const [outlineId, setOutlineId] = useState<string | null>(null);
 
   // Fetch documents
   const fetchDocuments = async () => {
@@ -43,13 +46,13 @@ export const DocumentList: React.FC<DocumentListProps> = ({
       if (response.success && response.data) {
         setDocuments(response.data);
         
-        // Start polling for processing documents
+        // Seed progress for documents already processing; live events take over from here
         const processingDocs = response.data.filter(
           doc => doc.status === 'pending' || doc.status === 'processing'
         );
         
         processingDocs.forEach(doc => {
-          pollDocumentStatus(doc.document_id);
+          loadDocumentStatus(doc.document_id);
         });
       }
     } catch (error) {
@@ -59,32 +62,32 @@ export const DocumentList: React.FC<DocumentListProps> = ({
     }
   };
 
-  // Poll document status for processing documents
-  const pollDocumentStatus = async (documentId: string) => {
+  // Load the current status once, for documents that started before this page was opened
+  const loadDocumentStatus = async (documentId: string) => {
     if (!username) return;
 
-    const pollInterval = setInterval(async () => {
-      try {
-        const response = await documentsApi.getStatus(documentId, username);
-        
-        if (response.success && response.data) {
-          setStatusMap(prev => new Map(prev).set(documentId, response.data));
-          
-          // Stop polling if completed or failed
-          if (response.data.status === 'completed' || response.data.status === 'failed') {
-            clearInterval(pollInterval);
-            // Refresh document list to get updated metadata
-            fetchDocuments();
-          }
-        }
-      } catch (error) {
-        console.error('Failed to fetch document status:', error);
-        clearInterval(pollInterval);
-      }
-    }, 2000); // Poll every 2 seconds
+    try {
+      const response = await documentsApi.getStatus(documentId, username);
 
-    // Clean up on unmount
-    return () => clearInterval(pollInterval);
+      if (response.success && response.data) {
+        const { progress } = response.data;
+        setProgressMap(prev => {
+          // Don't overwrite a live event that arrived first
+          if (prev.has(documentId)) return prev;
+          return new Map(prev).set(documentId, {
+            type: 'progress',
+            documentId,
+            stage: progress.stage,
+            percentage: progress.percentage,
+            message: progress.message,
+            etaSeconds: progress.etaSeconds,
+            timestamp: new Date().toISOString()
+          });
+        });
+      }
+    } catch (error) {
+      console.error('Failed to fetch document status:', error);
+    }
   };
 
   // Delete document
@@ -113,6 +116,28 @@ export const DocumentList: React.FC<DocumentListProps> = ({
     }
   };
 
+  // Open the document at a section's first page; browsers' PDF viewers honour #page=
+  const handleSelectSection = async (documentId: string, section: OutlineSection) => {
+    if (!username) return;
+
+    // Opened before the download so the popup blocker sees a user action
+    const tab = window.open('', '_blank');
+
+    try {
+      const blob = await documentsApi.getFile(documentId, username);
+      const url = URL.createObjectURL(blob);
+      const target = blob.type === 'application/pdf' ? `${url}#page=${section.pageStart}` : url;
+      if (tab) {
+        tab.location.href = target;
+      } else {
+        window.open(target, '_blank');
+      }
+    } catch (error) {
+      tab?.close();
+      console.error('Failed to open document:', error);
+    }
+  };
+
   // Format file size
   const formatFileSize = (bytes: number) => {
     if (bytes < 1024) return `${bytes} B`;
@@ -158,6 +183,19 @@ export const DocumentList: React.FC<DocumentListProps> = ({
     fetchDocuments();
   }, [username, refreshTrigger]);
 
+  // Live ingestion progress; refresh metadata when a document finishes
+  useEffect(() => {
+    if (!username) return;
+
+    return documentsApi.subscribeToProgress(username, (event) => {
+      setProgressMap(prev => new Map(prev).set(event.documentId, event));
+
+      if (event.type !== 'progress') {
+        fetchDocuments();
+      }
+    });
+  }, [username]);
+
   if (loading) {
     return (
       <Card>
@@ -186,7 +224,8 @@ export const DocumentList: React.FC<DocumentListProps> = ({
       </CardHeader>
       <CardContent className="space-y-4">
         {documents.map((doc) => {
-          const status = statusMap.get(doc.document_id);
+          const documentId = doc.document_id;
+          const progress = progressMap.get(documentId);
           const isProcessing = doc.status === 'pending' || doc.status === 'processing';
           
           return (
@@ -213,32 +252,53 @@ export const DocumentList: React.FC<DocumentListProps> = ({
                     "text-xs px-2 py-1 rounded-full",
                     getStatusColor(doc.status)
                   )}>
-                    {doc.status === 'failed' && status?.progress?.stage
-                      ? `Failed: ${status.progress.stage.replace('failed_', '')}`
+                    {doc.status === 'failed' && progress?.stage
+                      ? `Failed: ${progress.stage.replace('failed_', '')}`
                       : doc.status.charAt(0).toUpperCase() + doc.status.slice(1)}
                   </span>
                   
-                  {isProcessing && status?.progress && (
+                  {isProcessing && progress && (
                     <div className="flex items-center space-x-2 flex-1 max-w-xs">
-                      <Progress value={status.progress.percentage} className="h-2" />
+                      <Progress value={progress.percentage} className="h-2" />
                       <span className="text-xs text-muted-foreground whitespace-nowrap">
-                        {status.progress.percentage}%
+                        {progress.percentage}%
                       </span>
                     </div>
                   )}
                 </div>
                 
-                {status?.progress?.message && (isProcessing || doc.status === 'failed') && (
+                {progress?.message && (isProcessing || doc.status === 'failed') && (
                   <p className="text-xs text-muted-foreground mt-1">
-                    {status.progress.message}
+                    {progress.message}
+                    {isProcessing && progress.etaSeconds !== undefined && ` · ${formatEta(progress.etaSeconds)}`}
                   </p>
                 )}
                 
                 <p className="text-xs text-muted-foreground mt-2">
                   Uploaded {formatDate(doc.uploaded_at)}
                 </p>
+
+                {outlineId === documentId && username && (
+                  <DocumentOutline
+                    documentId={documentId}
+                    userId={username}
+                    onSelectSection={(section) => handleSelectSection(documentId, section)}
+                  />
+                )}
               </div>
               
+              {doc.status === 'completed' && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setOutlineId(outlineId === documentId ? null : documentId)}
+                  className="flex-shrink-0"
+                  aria-label="Show outline"
+                >
+                  <ListTree className="w-4 h-4" />
+                </Button>
+              )}
+
               <Button
                 variant="ghost"
                 size="icon"
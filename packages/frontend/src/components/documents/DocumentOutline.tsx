@@ -0,0 +1,123 @@
+/**
+ * Document Outline Component
+ *
+ * Navigable section tree of a document, read from its bookmarks or table of contents.
+ * Sections expand and collapse; selecting one reports its first page.
+ *
+ * @author ARYA RAG Team
+ */
+
+import React, { useEffect, useState } from 'react';
+import { ChevronDown, ChevronRight, Loader2 } from 'lucide-react';
+import { documentsApi } from '@/services/api';
+import { DocumentOutline as DocumentOutlineData, OutlineSection } from '@arya-rag/types';
+import { cn } from '@/lib/utils';
+
+interface DocumentOutlineProps {
+  documentId: string;
+  userId: string;
+  onSelectSection?: (section: OutlineSection) => void;
+}
+
+export const DocumentOutline: React.FC<DocumentOutlineProps> = ({
+  documentId,
+  userId,
+  onSelectSection
+}) => {
+  const [outline, setOutline] = useState<DocumentOutlineData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+
+    documentsApi.getOutline(documentId, userId)
+      .then(response => {
+        if (!cancelled && response.success && response.data) {
+          setOutline(response.data);
+          // Top-level sections start open
+          setExpanded(new Set(response.data.sections.map(section => section.id)));
+        }
+      })
+      .catch(error => console.error('Failed to fetch document outline:', error))
+      .finally(() => !cancelled && setLoading(false));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [documentId, userId]);
+
+  const toggle = (id: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const formatPages = (section: OutlineSection) =>
+    section.pageEnd > section.pageStart ? `p. ${section.pageStart}–${section.pageEnd}` : `p. ${section.pageStart}`;
+
+  const renderSections = (sections: OutlineSection[]) => (
+    <ul className="space-y-0.5">
+      {sections.map(section => {
+        const hasChildren = section.children.length > 0;
+        const isExpanded = expanded.has(section.id);
+
+        return (
+          <li key={section.id}>
+            <div
+              className="flex items-center text-sm rounded hover:bg-muted/50"
+              style={{ paddingLeft: `${section.level * 16}px` }}
+            >
+              <button
+                type="button"
+                onClick={() => toggle(section.id)}
+                className={cn('p-1 text-muted-foreground', !hasChildren && 'invisible')}
+                aria-label={isExpanded ? 'Collapse section' : 'Expand section'}
+              >
+                {isExpanded ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+              </button>
+              <button
+                type="button"
+                onClick={() => onSelectSection?.(section)}
+                className="flex-1 min-w-0 flex items-center justify-between py-1 pr-2 text-left"
+              >
+                <span className="truncate">{section.title}</span>
+                <span className="ml-2 text-xs text-muted-foreground whitespace-nowrap">{formatPages(section)}</span>
+              </button>
+            </div>
+            {hasChildren && isExpanded && renderSections(section.children)}
+          </li>
+        );
+      })}
+    </ul>
+  );
+
+  if (loading) {
+    return (
+      <div className="flex items-center py-2 text-xs text-muted-foreground">
+        <Loader2 className="w-3 h-3 mr-2 animate-spin" />
+        Loading outline...
+      </div>
+    );
+  }
+
+  if (!outline || outline.sections.length === 0) {
+    return <p className="py-2 text-xs text-muted-foreground">No outline found in this document</p>;
+  }
+
+  return (
+    <div className="mt-2">
+      <p className="mb-1 text-xs text-muted-foreground">
+        From {outline.source === 'bookmarks' ? 'bookmarks' : 'table of contents'}
+      </p>
+      {renderSections(outline.sections)}
+    </div>
+  );
+};
@@ -1,21 +1,34 @@
 /**
  * Document Uploader Component
  * 
- * Provides drag-and-drop interface for uploading PDF documents.
- * Shows upload progress and handles file validation.
+ * Provides drag-and-drop interface for uploading PDF, DOCX, HTML, Markdown and text documents.
+ * Shows upload progress, then live processing progress for the uploaded document,
+ * and handles file validation.
  * 
  * @author ARYA RAG Team
  */
 
-import React, { useCallback, useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import { useDropzone } from 'react-dropzone';
-import { Upload, FileText, X, AlertCircle } from 'lucide-react';
+import { Upload, FileText, X, AlertCircle, Loader2 } from 'lucide-react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
 import { documentsApi } from '@/services/api';
 import { useUsername } from '@/contexts/UsernameContext';
-import { cn } from '@/lib/utils';
+import { IngestionProgressEvent } from '@arya-rag/types';
+import { cn, formatEta } from '@/lib/utils';
+
+// MIME types and extensions the backend can extract text from
+const ACCEPTED_FILE_TYPES: Record<string, string[]> = {
+  'application/pdf': ['.pdf'],
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': ['.docx'],
+  'text/html': ['.html', '.htm'],
+  'text/markdown': ['.md', '.markdown'],
+  'text/plain': ['.txt']
+};
+
+const ACCEPTED_EXTENSIONS = Object.values(ACCEPTED_FILE_TYPES).flat();
 
 interface DocumentUploaderProps {
   onUploadComplete: () => void;
@@ -31,6 +44,26 @@ export const DocumentUploader: React.FC<DocumentUploaderProps> = ({
   const [uploadProgress, setUploadProgress] = useState(0);
   const [error, setError] = useState<string | null>(null);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [processingDoc, setProcessingDoc] = useState<{
+    documentId: string;
+    name: string;
+    progress?: IngestionProgressEvent;
+  } | null>(null);
+
+  // Follow the uploaded document through ingestion
+  useEffect(() => {
+    if (!username || !processingDoc) return;
+
+    return documentsApi.subscribeToProgress(username, (event) => {
+      if (event.documentId !== processingDoc.documentId) return;
+
+      if (event.type === 'completed') {
+        setProcessingDoc(null);
+      } else {
+        setProcessingDoc(prev => prev && { ...prev, progress: event });
+      }
+    });
+  }, [username, processingDoc?.documentId]);
 
   // Handle file drop/selection
   const onDrop = useCallback((acceptedFiles: File[]) => {
@@ -48,9 +81,10 @@ export const DocumentUploader: React.FC<DocumentUploaderProps> = ({
       return;
     }
 
-    // Validate file type
-    if (file.type !== 'application/pdf') {
-      setError('Only PDF files are allowed');
+    // Validate file type by extension; browsers report Markdown inconsistently
+    const extension = file.name.toLowerCase().match(/\.[a-z0-9]+$/)?.[0];
+    if (!extension || !ACCEPTED_EXTENSIONS.includes(extension)) {
+      setError('Only PDF, DOCX, HTML, Markdown and text files are allowed');
       return;
     }
 
@@ -59,9 +93,7 @@ export const DocumentUploader: React.FC<DocumentUploaderProps> = ({
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
-    accept: {
-      'application/pdf': ['.pdf']
-    },
+    accept: ACCEPTED_FILE_TYPES,
     maxFiles: 1,
     disabled: uploading
   });
@@ -75,21 +107,21 @@ export const DocumentUploader: React.FC<DocumentUploaderProps> = ({
     setError(null);
 
     try {
-      // Simulate progress for better UX
-      const progressInterval = setInterval(() => {
-        setUploadProgress(prev => Math.min(prev + 10, 90));
-      }, 200);
-
       const response = await documentsApi.upload(
         selectedFile,
         username,
-        selectedFile.name.replace('.pdf', '')
+        selectedFile.name.replace(/\.[^.]+$/, ''),
+        undefined,
+        setUploadProgress
       );
 
-      clearInterval(progressInterval);
       setUploadProgress(100);
 
       if (response.success) {
+        if (response.data?.documentId) {
+          setProcessingDoc({ documentId: response.data.documentId, name: selectedFile.name });
+        }
+
         // Success - reset state and notify parent
         setTimeout(() => {
           setSelectedFile(null);
@@ -133,7 +165,7 @@ export const DocumentUploader: React.FC<DocumentUploaderProps> = ({
             <Upload className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
             
             <p className="text-lg font-medium mb-2">
-              {isDragActive ? "Drop your PDF here" : "Drag & drop a PDF file here"}
+              {isDragActive ? "Drop your document here" : "Drag & drop a document here"}
             </p>
             
             <p className="text-sm text-muted-foreground mb-4">
@@ -141,7 +173,7 @@ export const DocumentUploader: React.FC<DocumentUploaderProps> = ({
             </p>
             
             <p className="text-xs text-muted-foreground">
-              Maximum file size: {maxFileSizeMB}MB
+              PDF, DOCX, HTML, Markdown or TXT · Maximum file size: {maxFileSizeMB}MB
             </p>
           </div>
         ) : (
@@ -200,6 +232,46 @@ export const DocumentUploader: React.FC<DocumentUploaderProps> = ({
             )}
           </div>
         )}
+
+        {/* Processing progress for the last upload */}
+        {processingDoc && (
+          <div className="mt-4 space-y-2 p-4 border rounded-lg">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-2 min-w-0">
+                {processingDoc.progress?.type === 'failed' ? (
+                  <AlertCircle className="w-4 h-4 flex-shrink-0 text-destructive" />
+                ) : (
+                  <Loader2 className="w-4 h-4 flex-shrink-0 animate-spin text-primary" />
+                )}
+                <p className="text-sm font-medium truncate">{processingDoc.name}</p>
+              </div>
+
+              {processingDoc.progress?.type === 'failed' && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setProcessingDoc(null)}
+                  className="h-8 w-8"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+
+            {processingDoc.progress?.type !== 'failed' && (
+              <Progress value={processingDoc.progress?.percentage || 0} className="h-2" />
+            )}
+
+            <p className={cn(
+              "text-xs",
+              processingDoc.progress?.type === 'failed' ? "text-destructive" : "text-muted-foreground"
+            )}>
+              {processingDoc.progress?.message || 'Queued for processing'}
+              {processingDoc.progress?.type === 'progress' && processingDoc.progress.etaSeconds !== undefined &&
+                ` · ${formatEta(processingDoc.progress.etaSeconds)}`}
+            </p>
+          </div>
+        )}
       </CardContent>
     </Card>
   );
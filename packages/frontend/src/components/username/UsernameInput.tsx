@@ -1,14 +1,14 @@
 /**
  * Username Input Component
- * 
- * Simple username input with localStorage persistence.
- * Shows current username and allows editing.
- * 
+ *
+ * Sign-in / registration form for local accounts.
+ * Shows the signed-in username with a sign-out button.
+ *
  * @author ARYA RAG Team
  */
 
 import React, { useState } from 'react';
-import { User, Edit2, Check, X } from 'lucide-react';
+import { User, LogIn, LogOut, Loader2 } from 'lucide-react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
@@ -16,15 +16,17 @@ import { Label } from '@/components/ui/label';
 import { useUsername } from '@/contexts/UsernameContext';
 
 export const UsernameInput: React.FC = () => {
-  const { username, setUsername, isUsernameSet } = useUsername();
-  const [isEditing, setIsEditing] = useState(!isUsernameSet);
+  const { username, isUsernameSet, signIn, register, signOut } = useUsername();
+  const [mode, setMode] = useState<'signIn' | 'register'>('signIn');
   const [tempUsername, setTempUsername] = useState(username);
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState('');
 
-  // Handle save
-  const handleSave = () => {
+  // Handle submit
+  const handleSubmit = async () => {
     const trimmed = tempUsername.trim();
-    
+
     if (!trimmed) {
       setError('Username is required');
       return;
@@ -46,24 +48,32 @@ export const UsernameInput: React.FC = () => {
       return;
     }
 
-    setError('');
-    setUsername(trimmed);
-    setIsEditing(false);
-  };
+    if (password.length < 8) {
+      setError('Password must be at least 8 characters');
+      return;
+    }
 
-  // Handle cancel
-  const handleCancel = () => {
-    setTempUsername(username);
     setError('');
-    setIsEditing(false);
+    setIsSubmitting(true);
+
+    try {
+      if (mode === 'signIn') {
+        await signIn(trimmed, password);
+      } else {
+        await register(trimmed, password);
+      }
+      setPassword('');
+    } catch (err: any) {
+      setError(err?.response?.data?.error?.message || (err instanceof Error ? err.message : 'Sign-in failed'));
+    } finally {
+      setIsSubmitting(false);
+    }
   };
 
   // Handle enter key
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter') {
-      handleSave();
-    } else if (e.key === 'Escape') {
-      handleCancel();
+      handleSubmit();
     }
   };
 
@@ -72,60 +82,73 @@ export const UsernameInput: React.FC = () => {
       <CardContent className="p-4">
         <div className="flex items-center space-x-3">
           <User className="w-5 h-5 text-muted-foreground" />
-          
-          {isEditing ? (
+
+          {!isUsernameSet ? (
             <div className="flex-1 space-y-2">
-              <div className="flex items-center space-x-2">
-                <Input
-                  value={tempUsername}
-                  onChange={(e) => {
-                    setTempUsername(e.target.value);
-                    setError('');
-                  }}
-                  onKeyDown={handleKeyPress}
-                  placeholder="Enter username"
-                  className="flex-1"
-                  autoFocus
-                />
+              <Input
+                value={tempUsername}
+                onChange={(e) => {
+                  setTempUsername(e.target.value);
+                  setError('');
+                }}
+                onKeyDown={handleKeyPress}
+                placeholder="Username"
+                autoComplete="username"
+                autoFocus
+              />
+              <Input
+                type="password"
+                value={password}
+                onChange={(e) => {
+                  setPassword(e.target.value);
+                  setError('');
+                }}
+                onKeyDown={handleKeyPress}
+                placeholder="Password"
+                autoComplete={mode === 'signIn' ? 'current-password' : 'new-password'}
+              />
+              {error && (
+                <p className="text-xs text-destructive">{error}</p>
+              )}
+              <div className="flex items-center justify-between">
+                <Button
+                  size="sm"
+                  onClick={handleSubmit}
+                  disabled={isSubmitting}
+                >
+                  {isSubmitting ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <LogIn className="h-4 w-4 mr-2" />
+                  )}
+                  {mode === 'signIn' ? 'Sign in' : 'Create account'}
+                </Button>
                 <Button
-                  size="icon"
+                  size="sm"
                   variant="ghost"
-                  onClick={handleSave}
-                  className="h-8 w-8"
+                  onClick={() => {
+                    setMode(mode === 'signIn' ? 'register' : 'signIn');
+                    setError('');
+                  }}
                 >
-                  <Check className="h-4 w-4" />
+                  {mode === 'signIn' ? 'Create an account' : 'I already have an account'}
                 </Button>
-                {isUsernameSet && (
-                  <Button
-                    size="icon"
-                    variant="ghost"
-                    onClick={handleCancel}
-                    className="h-8 w-8"
-                  >
-                    <X className="h-4 w-4" />
-                  </Button>
-                )}
               </div>
-              {error && (
-                <p className="text-xs text-destructive">{error}</p>
-              )}
             </div>
           ) : (
             <>
               <div className="flex-1">
-                <Label className="text-xs text-muted-foreground">Username</Label>
+                <Label className="text-xs text-muted-foreground">Signed in as</Label>
                 <p className="font-medium">{username}</p>
               </div>
               <Button
                 size="icon"
                 variant="ghost"
-                onClick={() => {
-                  setIsEditing(true);
-                  setTempUsername(username);
-                }}
+                onClick={signOut}
                 className="h-8 w-8"
+                title="Sign out"
               >
-                <Edit2 className="h-4 w-4" />
+                <LogOut className="h-4 w-4" />
               </Button>
             </>
           )}
@@ -133,4 +156,4 @@ export const UsernameInput: React.FC = () => {
       </CardContent>
     </Card>
   );
-};
\ No newline at end of file
+};
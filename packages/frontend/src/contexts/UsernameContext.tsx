@@ -1,26 +1,35 @@
 /**
  * Username Context Provider
- * 
- * Manages username state with localStorage persistence.
- * Provides username to all components throughout the app.
- * 
+ *
+ * Manages the signed-in user's session with localStorage persistence.
+ * Provides username to all components throughout the app and keeps the
+ * API client's session token in sync.
+ *
  * @author ARYA RAG Team
  */
 
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { AuthSession } from '@arya-rag/types';
+import { authApi, setAuthToken, onUnauthorized } from '@/services/api';
+
+const SESSION_STORAGE_KEY = 'arya-rag-session';
 
 // Context type definition
 interface UsernameContextType {
   username: string;
-  setUsername: (username: string) => void;
   isUsernameSet: boolean;
+  signIn: (username: string, password: string) => Promise<void>;
+  register: (username: string, password: string) => Promise<void>;
+  signOut: () => void;
 }
 
 // Create context with default values
 const UsernameContext = createContext<UsernameContextType>({
   username: '',
-  setUsername: () => {},
   isUsernameSet: false,
+  signIn: async () => {},
+  register: async () => {},
+  signOut: () => {},
 });
 
 // Custom hook to use username context
@@ -36,37 +45,79 @@ interface UsernameProviderProps {
   children: ReactNode;
 }
 
+// Load a stored session, dropping it once it has expired
+function loadSession(): AuthSession | null {
+  try {
+    const stored = localStorage.getItem(SESSION_STORAGE_KEY);
+    const session = stored ? JSON.parse(stored) as AuthSession : null;
+
+    if (!session || new Date(session.expiresAt).getTime() <= Date.now()) {
+      return null;
+    }
+    return session;
+  } catch {
+    return null;
+  }
+}
+
 // Username Provider Component
 export const UsernameProvider: React.FC<UsernameProviderProps> = ({ children }) => {
-  // Initialize username from localStorage or empty string
-  const [username, setUsernameState] = useState<string>(() => {
-    const stored = localStorage.getItem('arya-rag-username');
-    return stored || '';
+  // Restore the session before the first render so child requests carry the token
+  const [session, setSession] = useState<AuthSession | null>(() => {
+    const restored = loadSession();
+    setAuthToken(restored?.token || null);
+    return restored;
   });
 
-  // Update localStorage whenever username changes
+  // Update localStorage and the API client whenever the session changes
   useEffect(() => {
-    if (username) {
-      localStorage.setItem('arya-rag-username', username);
+    setAuthToken(session?.token || null);
+    if (session) {
+      localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
     } else {
-      localStorage.removeItem('arya-rag-username');
+      localStorage.removeItem(SESSION_STORAGE_KEY);
     }
-  }, [username]);
+  }, [session]);
+
+  // An expired or revoked session signs the user out
+  useEffect(() => {
+    onUnauthorized(() => setSession(null));
+    return () => onUnauthorized(null);
+  }, []);
 
-  // Wrapper function to update username
-  const setUsername = (newUsername: string) => {
-    // Trim whitespace and validate
-    const trimmed = newUsername.trim();
-    setUsernameState(trimmed);
+  const startSession = (newSession?: AuthSession) => {
+    if (!newSession) {
+      throw new Error('Server did not return a session');
+    }
+    setAuthToken(newSession.token);
+    setSession(newSession);
   };
 
+  const signIn = async (username: string, password: string) => {
+    const response = await authApi.login(username.trim(), password);
+    startSession(response.data);
+  };
+
+  const register = async (username: string, password: string) => {
+    const response = await authApi.register(username.trim(), password);
+    startSession(response.data);
+  };
+
+  const signOut = () => {
+    setSession(null);
+  };
+
+  const username = session?.user.userId || '';
+
   // Check if username is set
   const isUsernameSet = username.length > 0;
 
   const value: UsernameContextType = {
     username,
-    setUsername,
     isUsernameSet,
+    signIn,
+    register,
+    signOut,
   };
 
   return (
@@ -74,4 +125,4 @@ export const UsernameProvider: React.FC<UsernameProviderProps> = ({ children })
       {children}
     </UsernameContext.Provider>
   );
-};
\ No newline at end of file
+};
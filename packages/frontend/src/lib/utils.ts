@@ -12,4 +12,13 @@ import { twMerge } from "tailwind-merge"
  */
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
-}
\ No newline at end of file
+}
+
+/**
+ * Formats a remaining-time estimate in seconds, e.g. "~3 min left"
+ */
+export function formatEta(seconds: number) {
+  if (seconds < 60) return `~${seconds}s left`
+  if (seconds < 3600) return `~${Math.round(seconds / 60)} min left`
+  return `~${Math.floor(seconds / 3600)}h ${Math.round((seconds % 3600) / 60)}m left`
+}
@@ -10,10 +10,21 @@
 import axios, { AxiosInstance, AxiosError } from 'axios';
 import { 
   ApiResponse,
+  AuthConfig,
+  AuthSession,
+  Conversation,
+  ConversationWithMessages,
   UserDocument,
+  DocumentOutline,
+  DocumentPageText,
+  DocumentRevision,
   DocumentUploadResponse,
+  IngestionProgressEvent,
   ProcessingStatusResponse,
   RAGResponse,
+  RAGStreamEvent,
+  RAGStreamRetrievalEvent,
+  StreamToken,
   UserQuery
 } from '@arya-rag/types';
 
@@ -29,10 +40,34 @@ const apiClient: AxiosInstance = axios.create({
   },
 });
 
+// Session token sent with every request (set by the UsernameProvider after sign-in)
+let authToken: string | null = null;
+let unauthorizedHandler: (() => void) | null = null;
+
+/**
+ * Set or clear the session token used for API requests
+ */
+export function setAuthToken(token: string | null): void {
+  authToken = token;
+}
+
+/**
+ * Register a callback for 401 responses (expired or revoked session)
+ */
+export function onUnauthorized(handler: (() => void) | null): void {
+  unauthorizedHandler = handler;
+}
+
+function authHeaders(): Record<string, string> {
+  return authToken ? { Authorization: `Bearer ${authToken}` } : {};
+}
+
 // Request interceptor for adding authentication or other headers
 apiClient.interceptors.request.use(
   (config) => {
-    // Add any auth tokens or custom headers here
+    if (authToken) {
+      config.headers.Authorization = `Bearer ${authToken}`;
+    }
     return config;
   },
   (error) => {
@@ -51,6 +86,10 @@ apiClient.interceptors.response.use(
       switch (status) {
         case 401:
           console.error('Unauthorized access');
+          // Sign-in attempts report their own errors; anything else means the session is gone
+          if (!error.config?.url?.startsWith('/auth/')) {
+            unauthorizedHandler?.();
+          }
           break;
         case 413:
           console.error('File too large');
@@ -68,6 +107,61 @@ apiClient.interceptors.response.use(
   }
 );
 
+// Open progress streams, one per user (EventSource reconnects on its own after network errors)
+interface ProgressChannel {
+  source: EventSource | null;
+  listeners: Set<(event: IngestionProgressEvent) => void>;
+}
+
+const progressChannels = new Map<string, ProgressChannel>();
+const PROGRESS_REOPEN_DELAY_MS = 5000;
+
+/**
+ * Open a user's progress stream
+ * EventSource cannot send headers, so signed-in users pass a short-lived stream token in the
+ * query string. Reconnects with an expired token are rejected and EventSource gives up, so the
+ * stream is then reopened with a fresh token.
+ */
+async function openProgressStream(userId: string, channel: ProgressChannel): Promise<void> {
+  const reopenLater = () => setTimeout(() => {
+    if (progressChannels.get(userId) === channel) {
+      openProgressStream(userId, channel);
+    }
+  }, PROGRESS_REOPEN_DELAY_MS);
+
+  let tokenParam = '';
+  if (authToken) {
+    try {
+      const response = await authApi.getStreamToken();
+      tokenParam = `&access_token=${encodeURIComponent(response.data!.token)}`;
+    } catch (error) {
+      console.error('Failed to get a progress stream token:', error);
+      reopenLater();
+      return;
+    }
+  }
+
+  // Unsubscribed while the token was being fetched
+  if (progressChannels.get(userId) !== channel) return;
+
+  const source = new EventSource(`${API_BASE_URL}/documents/events?userId=${encodeURIComponent(userId)}${tokenParam}`);
+  const dispatch = (message: MessageEvent) => {
+    const event = JSON.parse(message.data) as IngestionProgressEvent;
+    channel.listeners.forEach(notify => notify(event));
+  };
+
+  source.addEventListener('progress', dispatch);
+  source.addEventListener('completed', dispatch);
+  source.addEventListener('failed', dispatch);
+  source.addEventListener('error', () => {
+    if (source.readyState === EventSource.CLOSED) {
+      reopenLater();
+    }
+  });
+
+  channel.source = source;
+}
+
 /**
  * Document Management API Methods
  */
@@ -78,12 +172,14 @@ export const documentsApi = {
    * @param userId - User identifier
    * @param title - Optional document title
    * @param description - Optional document description
+   * @param onUploadProgress - Called with the percentage of bytes sent
    */
   async upload(
     file: File,
     userId: string,
     title?: string,
-    description?: string
+    description?: string,
+    onUploadProgress?: (percentage: number) => void
   ): Promise<ApiResponse<DocumentUploadResponse>> {
     const formData = new FormData();
     formData.append('document', file);
@@ -95,11 +191,67 @@ export const documentsApi = {
       headers: {
         'Content-Type': 'multipart/form-data',
       },
+      // Large uploads can outlast the default timeout
+      timeout: 0,
+      onUploadProgress: (event) => {
+        if (onUploadProgress && event.total) {
+          onUploadProgress(Math.round((event.loaded / event.total) * 100));
+        }
+      },
     });
     
     return response.data;
   },
 
+  /**
+   * Upload a new revision of an existing document
+   * Only changed chunks are re-embedded; queries use the previous revision until it finishes
+   * @param documentId - Document to replace
+   * @param file - Revised file
+   * @param userId - User identifier
+   * @param onUploadProgress - Called with the percentage of bytes sent
+   */
+  async uploadRevision(
+    documentId: string,
+    file: File,
+    userId: string,
+    onUploadProgress?: (percentage: number) => void
+  ): Promise<ApiResponse<{ documentId: string; revision: number; currentRevision: number; jobId?: string }>> {
+    const formData = new FormData();
+    formData.append('document', file);
+    formData.append('userId', userId);
+
+    const response = await apiClient.post(`/documents/${documentId}/revisions`, formData, {
+      headers: {
+        'Content-Type': 'multipart/form-data',
+      },
+      timeout: 0,
+      onUploadProgress: (event) => {
+        if (onUploadProgress && event.total) {
+          onUploadProgress(Math.round((event.loaded / event.total) * 100));
+        }
+      },
+    });
+
+    return response.data;
+  },
+
+  /**
+   * Get a document's revision history, newest first
+   * @param documentId - Document identifier
+   * @param userId - User identifier
+   */
+  async listRevisions(
+    documentId: string,
+    userId: string
+  ): Promise<ApiResponse<DocumentRevision[]>> {
+    const response = await apiClient.get(`/documents/${documentId}/revisions`, {
+      params: { userId },
+    });
+
+    return response.data;
+  },
+
   /**
    * Get list of user's documents
    * @param userId - User identifier
@@ -140,6 +292,39 @@ export const documentsApi = {
     return response.data;
   },
 
+  /**
+   * Subscribe to live ingestion progress for all of a user's documents
+   * Components share one EventSource per user; it closes when the last listener unsubscribes
+   * @param userId - User identifier
+   * @param listener - Called for every progress, completed or failed event
+   * @returns Function that removes the listener
+   */
+  subscribeToProgress(
+    userId: string,
+    listener: (event: IngestionProgressEvent) => void
+  ): () => void {
+    let channel = progressChannels.get(userId);
+
+    if (!channel) {
+      channel = { source: null, listeners: new Set() };
+      progressChannels.set(userId, channel);
+      openProgressStream(userId, channel);
+    }
+
+    channel.listeners.add(listener);
+
+    return () => {
+      const current = progressChannels.get(userId);
+      if (!current) return;
+
+      current.listeners.delete(listener);
+      if (current.listeners.size === 0) {
+        current.source?.close();
+        progressChannels.delete(userId);
+      }
+    };
+  },
+
   /**
    * Delete a document and its chunks
    * @param documentId - Document identifier
@@ -171,6 +356,64 @@ export const documentsApi = {
     
     return response.data;
   },
+
+  /**
+   * Download a document's file, e.g. to show it in the source viewer
+   * @param documentId - Document identifier
+   * @param userId - User identifier
+   * @param revision - Revision to fetch (defaults to the current one)
+   */
+  async getFile(
+    documentId: string,
+    userId: string,
+    revision?: number
+  ): Promise<Blob> {
+    const response = await apiClient.get(`/documents/${documentId}/download`, {
+      params: { userId, revision },
+      responseType: 'blob',
+      timeout: 0, // Large files can take longer than the default timeout
+    });
+
+    return response.data;
+  },
+
+  /**
+   * Get the indexed text of one page; citation pageStart/pageEnd offsets index into it
+   * @param documentId - Document identifier
+   * @param pageNumber - Page number (1-based)
+   * @param userId - User identifier
+   * @param revision - Revision the citation came from (defaults to the current one)
+   */
+  async getPageText(
+    documentId: string,
+    pageNumber: number,
+    userId: string,
+    revision?: number
+  ): Promise<ApiResponse<DocumentPageText>> {
+    const response = await apiClient.get(`/documents/${documentId}/pages/${pageNumber}`, {
+      params: { userId, revision },
+    });
+
+    return response.data;
+  },
+
+  /**
+   * Get a document's section tree with page ranges
+   * @param documentId - Document identifier
+   * @param userId - User identifier
+   * @param revision - Revision to read (defaults to the current one)
+   */
+  async getOutline(
+    documentId: string,
+    userId: string,
+    revision?: number
+  ): Promise<ApiResponse<DocumentOutline>> {
+    const response = await apiClient.get(`/documents/${documentId}/outline`, {
+      params: { userId, revision },
+    });
+
+    return response.data;
+  },
 };
 
 /**
@@ -190,6 +433,8 @@ export const queriesApi = {
       documentIds?: string[];
       maxResults?: number;
       responseStyle?: 'detailed' | 'concise';
+      conversationId?: string;
+      revisions?: Record<string, number>;
     }
   ): Promise<ApiResponse<RAGResponse>> {
     const response = await apiClient.post('/queries/process', {
@@ -201,6 +446,93 @@ export const queriesApi = {
     return response.data;
   },
 
+  /**
+   * Process a RAG query and stream the answer as it is generated
+   * Uses fetch instead of axios because the browser XHR adapter cannot read a streamed body
+   * @param query - Question text
+   * @param userId - User identifier
+   * @param handlers - Callbacks for retrieval results and answer tokens
+   * @param options - Query options
+   * @returns The final RAG response once generation completes
+   */
+  async processStream(
+    query: string,
+    userId: string,
+    handlers: {
+      onRetrieval?: (event: RAGStreamRetrievalEvent) => void;
+      onToken?: (text: string) => void;
+    },
+    options?: {
+      documentIds?: string[];
+      maxResults?: number;
+      responseStyle?: 'detailed' | 'concise';
+      conversationId?: string;
+      revisions?: Record<string, number>;
+      signal?: AbortSignal;
+    }
+  ): Promise<RAGResponse> {
+    const { signal, ...queryOptions } = options || {};
+
+    const response = await fetch(`${API_BASE_URL}/queries/stream`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'text/event-stream',
+        ...authHeaders(),
+      },
+      body: JSON.stringify({ query, userId, ...queryOptions }),
+      signal,
+    });
+
+    if (!response.ok || !response.body) {
+      const errorBody = await response.json().catch(() => null);
+      throw new Error(errorBody?.error?.message || `Query stream failed (${response.status})`);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+
+      // SSE frames are separated by a blank line
+      const frames = buffer.split('\n\n');
+      buffer = frames.pop() || '';
+
+      for (const frame of frames) {
+        const data = frame
+          .split('\n')
+          .filter(line => line.startsWith('data: '))
+          .map(line => line.slice(6))
+          .join('\n');
+        if (!data) continue;
+
+        const event = JSON.parse(data) as RAGStreamEvent;
+
+        switch (event.type) {
+          case 'retrieval':
+            handlers.onRetrieval?.(event);
+            break;
+          case 'token':
+            handlers.onToken?.(event.text);
+            break;
+          case 'complete':
+            reader.cancel();
+            return event.response;
+          case 'error':
+            reader.cancel();
+            throw new Error(event.message);
+        }
+      }
+    }
+
+    throw new Error('Query stream ended before the answer was complete');
+  },
+
   /**
    * Get query history
    * @param userId - User identifier
@@ -245,6 +577,119 @@ export const queriesApi = {
   },
 };
 
+/**
+ * Conversation API Methods
+ */
+export const conversationsApi = {
+  /**
+   * Start a new conversation thread
+   * @param userId - User identifier
+   * @param title - Optional title (defaults to the first question)
+   */
+  async create(
+    userId: string,
+    title?: string
+  ): Promise<ApiResponse<Conversation>> {
+    const response = await apiClient.post('/conversations', {
+      userId,
+      title,
+    });
+
+    return response.data;
+  },
+
+  /**
+   * List user's conversations, most recent first
+   * @param userId - User identifier
+   * @param params - Pagination parameters
+   */
+  async list(
+    userId: string,
+    params?: {
+      page?: number;
+      limit?: number;
+    }
+  ): Promise<ApiResponse<Conversation[]>> {
+    const response = await apiClient.get('/conversations', {
+      params: {
+        userId,
+        ...params,
+      },
+    });
+
+    return response.data;
+  },
+
+  /**
+   * Get a conversation with its messages
+   * @param conversationId - Conversation identifier
+   * @param userId - User identifier
+   */
+  async get(
+    conversationId: string,
+    userId: string
+  ): Promise<ApiResponse<ConversationWithMessages>> {
+    const response = await apiClient.get(`/conversations/${conversationId}`, {
+      params: { userId },
+    });
+
+    return response.data;
+  },
+
+  /**
+   * Delete a conversation and its messages
+   * @param conversationId - Conversation identifier
+   * @param userId - User identifier
+   */
+  async delete(
+    conversationId: string,
+    userId: string
+  ): Promise<ApiResponse<{ deleted: boolean }>> {
+    const response = await apiClient.delete(`/conversations/${conversationId}`, {
+      params: { userId },
+    });
+
+    return response.data;
+  },
+};
+
+/**
+ * Authentication API Methods
+ */
+export const authApi = {
+  /**
+   * Which sign-in methods the server offers
+   */
+  async getConfig(): Promise<ApiResponse<AuthConfig>> {
+    const response = await apiClient.get('/auth/config');
+    return response.data;
+  },
+
+  /**
+   * Sign in with a username and password
+   */
+  async login(userId: string, password: string): Promise<ApiResponse<AuthSession>> {
+    const response = await apiClient.post('/auth/login', { userId, password });
+    return response.data;
+  },
+
+  /**
+   * Create an account and sign in
+   */
+  async register(userId: string, password: string): Promise<ApiResponse<AuthSession>> {
+    const response = await apiClient.post('/auth/register', { userId, password });
+    return response.data;
+  },
+
+  /**
+   * Short-lived token for opening the progress stream
+   */
+  async getStreamToken(): Promise<ApiResponse<StreamToken>> {
+    const response = await apiClient.post('/auth/stream-token');
+    return response.data;
+  },
+};
+
 /**
  * System API Methods
  */
@@ -1,13 +1,18 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { createPortal } from 'react-dom';
 import Draggable from 'react-draggable';
 import { 
   XMarkIcon, 
   PaperAirplaneIcon, 
-  ChatBubbleLeftIcon
+  ChatBubbleLeftIcon,
+  ClockIcon,
+  ExclamationTriangleIcon
 } from '@heroicons/react/24/outline';
 import { v4 as uuidv4 } from 'uuid';
 import { OpenAIService } from './services/OpenAIService';
-import { Message, ContentItem, AIChatProps, SourceItem } from './types';
+import { Message, AIChatProps, SourceItem } from './types';
+import { Conversation, ConversationMessage, DocumentSource, GroundingReport, InlineCitation } from '@arya-rag/types';
+import SourceViewer, { SourceViewerItem } from './components/SourceViewer';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 
@@ -159,12 +164,19 @@ const AIchat: React.FC<AIChatProps> = (props) => {
   const [initError, setInitError] = useState<string | null>(null);
   const [lastContextContent, setLastContextContent] = useState<string>('');
   const [isInitialized, setIsInitialized] = useState(false);
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [showHistory, setShowHistory] = useState(false);
+  const [sourceViewer, setSourceViewer] = useState<{ items: SourceViewerItem[]; index: number } | null>(null);
+  
+  // Last active conversation is remembered per user so reopening the chat resumes it
+  const conversationStorageKey = `arya-rag-conversation:${username}`;
   
   // Refs
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const messagesContainerRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLTextAreaElement>(null);
-  const typingIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  const streamAbortRef = useRef<AbortController | null>(null);
 
   // Auto-scroll functionality exactly like ExamX
   const scrollToBottom = useCallback((smooth: boolean = true) => {
@@ -317,8 +329,12 @@ const AIchat: React.FC<AIChatProps> = (props) => {
           sendMessage('__ANALYZE_EXAM_CONTEXT__', 'text', undefined, false);
         }, 100);
       } else {
-        // Regular initialization with default welcome
+        // Regular initialization with default welcome, then resume the last conversation if any
         initializeChat();
+        const storedConversationId = localStorage.getItem(conversationStorageKey);
+        if (storedConversationId) {
+          loadConversation(storedConversationId);
+        }
       }
     }
   }, [serviceType, initError, isInitialized, chatContext, chatContextContent, initializeChat]);
@@ -347,7 +363,8 @@ const AIchat: React.FC<AIChatProps> = (props) => {
   useEffect(() => {
     if (closeOnEscape) {
       const handleEscKey = (event: KeyboardEvent) => {
-        if (event.key === 'Escape') {
+        // The source viewer handles Escape itself
+        if (event.key === 'Escape' && !sourceViewer) {
           onClose();
         }
       };
@@ -355,7 +372,7 @@ const AIchat: React.FC<AIChatProps> = (props) => {
       document.addEventListener('keydown', handleEscKey);
       return () => document.removeEventListener('keydown', handleEscKey);
     }
-  }, [closeOnEscape, onClose]);
+  }, [closeOnEscape, onClose, sourceViewer]);
 
   // Prevent body scroll when hovering over modal
   useEffect(() => {
@@ -392,213 +409,206 @@ const AIchat: React.FC<AIChatProps> = (props) => {
   };
 
 
-  // Helper function to detect markdown blocks that need to be rendered as complete units
-  const isMarkdownBlock = (text: string, startIndex: number): { isBlock: boolean; endIndex: number } => {
-    const remainingText = text.slice(startIndex);
-    
-    // Table detection (starts with |)
-    if (remainingText.startsWith('|')) {
-      // Enhanced table detection - find the complete table including headers, separators, and all rows
-      const lines = remainingText.split('\n');
-      let tableEndIndex = 0;
-      let foundSeparator = false;
-      
-      for (let i = 0; i < lines.length; i++) {
-        const line = lines[i].trim();
-        
-        // If it's a table row (starts and ends with |)
-        if (line.match(/^\|.*\|$/)) {
-          tableEndIndex += lines[i].length + 1; // +1 for newline
-          
-          // Check if this is a separator line (contains only |, -, :, spaces)
-          if (line.match(/^\|[\s\-:]+\|$/)) {
-            foundSeparator = true;
-          }
-        } 
-        // If we found a separator and this line doesn't look like a table row, end the table
-        else if (foundSeparator && line.length > 0) {
-          break;
-        }
-        // If no separator found yet and this line doesn't look like a table row, not a valid table
-        else if (!foundSeparator && line.length > 0) {
-          return { isBlock: false, endIndex: startIndex };
-        }
-        // Empty line - could be end of table
-        else if (line.length === 0) {
-          tableEndIndex += lines[i].length + 1;
-          break;
-        }
+  // Update the trailing assistant message in place while its answer streams in
+  const updateLastAssistantMessage = (update: Partial<Message>) => {
+    setMessages(prev => {
+      const newMessages = [...prev];
+      const lastIndex = newMessages.length - 1;
+      if (lastIndex >= 0 && newMessages[lastIndex].type === 'assistant') {
+        newMessages[lastIndex] = {
+          ...newMessages[lastIndex],
+          ...update
+        };
       }
-      
-      // Only consider it a table if we found at least a header and separator
-      if (foundSeparator && tableEndIndex > 0) {
-        return { isBlock: true, endIndex: startIndex + tableEndIndex - 1 }; // -1 to not include the last newline
-      }
-    }
-    
-    // Code block detection (```)
-    if (remainingText.startsWith('```')) {
-      const codeBlockMatch = remainingText.match(/^```[\s\S]*?```/);
-      if (codeBlockMatch) {
-        return { isBlock: true, endIndex: startIndex + codeBlockMatch[0].length };
+      return newMessages;
+    });
+  };
+
+  // Convert RAG sources to chat sources format
+  const toSourceItems = (ragSources: DocumentSource[]): SourceItem[] => {
+    return ragSources.map(source => ({
+      type: 'document' as const,
+      content: source.excerpt,
+      metadata: {
+        title: source.documentName,
+        page: source.pageNumber,
+        documentId: source.documentId,
+        chunkId: source.chunkId,
+        revision: source.revision,
+        pageStart: source.pageStart,
+        pageEnd: source.pageEnd,
+        // Scanned pages are OCR text and may contain recognition errors
+        source: `${source.documentName} (Page ${source.pageNumber}${source.ocr ? `, OCR ${Math.round((source.ocrConfidence ?? 0) * 100)}% confidence` : ''})`,
+        confidence: source.confidence
       }
-    }
-    
-    // No markdown block found
-    return { isBlock: false, endIndex: startIndex };
+    }));
   };
 
-  // Enhanced typing animation that handles markdown blocks
-  const simulateTyping = (content: ContentItem[]) => {
-    // Check if content contains tables - if so, skip typing animation for better UX
-    const hasTable = content.some(item => 
-      item.type === 'text' && item.content.includes('|') && item.content.includes('---')
-    );
-    
-    if (hasTable) {
-      // Skip typing animation for tables, show content immediately
-      setMessages((prevMessages) => {
-        const newMessages = [...prevMessages];
-        const lastMessageIndex = newMessages.length - 1;
-        
-        if (newMessages[lastMessageIndex]) {
-          newMessages[lastMessageIndex] = {
-            ...newMessages[lastMessageIndex],
-            content: content,
-            isComplete: true
-          };
+  // Link targets for answer decorations: unsupported sentences and [n] citation markers
+  const UNSUPPORTED_CLAIM_HREF = '#unsupported-claim';
+  const CITATION_HREF_PREFIX = '#citation-';
+
+  // Turn citation markers and unsupported sentences into marker links the markdown renderer styles
+  // Sentences inside tables or across emphasis/code boundaries are left unmarked to keep the markdown intact
+  const decorateAnswer = (answer: string, grounding?: GroundingReport, citations: InlineCitation[] = []): string => {
+    const edits: Array<{ start: number; end: number; text: string }> = [];
+
+    citations.forEach((citation, index) => {
+      if (answer.slice(citation.start, citation.end) === `[${citation.marker}]`) {
+        edits.push({ start: citation.start, end: citation.end, text: `[${citation.marker}](${CITATION_HREF_PREFIX}${index})` });
+      }
+    });
+
+    grounding?.claims
+      .filter(claim => claim.status === 'unsupported')
+      .forEach(claim => {
+        // Links cannot nest, so the highlight stops before the sentence's first citation
+        const firstCitation = citations.find(citation => citation.start >= claim.start && citation.start < claim.end);
+        const text = answer.slice(claim.start, firstCitation ? firstCitation.start : claim.end).trimEnd();
+        const unbalanced = (text.match(/\*/g) || []).length % 2 !== 0 || (text.match(/`/g) || []).length % 2 !== 0;
+        if (!text || !claim.text.startsWith(text) || text.includes('|') || unbalanced) {
+          return;
         }
-        return newMessages;
+        edits.push({ start: claim.start, end: claim.start + text.length, text: `[${text}](${UNSUPPORTED_CLAIM_HREF})` });
       });
-      setLoading(false);
-      return Promise.resolve();
+
+    // Last edit first so earlier offsets stay valid
+    return edits
+      .sort((a, b) => b.start - a.start)
+      .reduce((marked, edit) => `${marked.slice(0, edit.start)}${edit.text}${marked.slice(edit.end)}`, answer);
+  };
+
+  // Pages the source viewer steps through: each distinct citation, then retrieved sources nothing cites
+  const toViewerItems = (message: Message): SourceViewerItem[] => {
+    const items: SourceViewerItem[] = [];
+    const cited = new Set<string>();
+
+    (message.citations || []).forEach(citation => {
+      const key = `${citation.chunkId}:${citation.pageStart ?? ''}`;
+      if (cited.has(key)) return;
+      cited.add(key);
+      cited.add(citation.chunkId);
+      items.push({
+        documentId: citation.documentId,
+        documentName: citation.documentName,
+        pageNumber: citation.pageNumber,
+        revision: citation.revision,
+        pageStart: citation.pageStart,
+        pageEnd: citation.pageEnd,
+        quote: citation.quote
+      });
+    });
+
+    (message.sources || []).forEach(source => {
+      const metadata = source.metadata;
+      // Sources saved before documents could be opened carry no documentId
+      if (!metadata?.documentId || !metadata.page || (metadata.chunkId && cited.has(metadata.chunkId))) return;
+      items.push({
+        documentId: metadata.documentId,
+        documentName: metadata.title || metadata.filename || 'Document',
+        pageNumber: metadata.page,
+        revision: metadata.revision,
+        pageStart: metadata.pageStart,
+        pageEnd: metadata.pageEnd,
+        quote: source.content
+      });
+    });
+
+    return items;
+  };
+
+  const openSourceViewer = (message: Message, citation?: InlineCitation) => {
+    const items = toViewerItems(message);
+    if (items.length === 0) return;
+
+    const index = citation
+      ? items.findIndex(item => item.documentId === citation.documentId && item.pageNumber === citation.pageNumber && item.pageStart === citation.pageStart)
+      : 0;
+    setSourceViewer({ items, index: Math.max(0, index) });
+  };
+
+  // Convert stored conversation messages to chat messages
+  const toChatMessages = (conversationMessages: ConversationMessage[]): Message[] => {
+    return conversationMessages.map(message => ({
+      id: message.messageId,
+      type: message.role,
+      content: [{
+        type: 'text',
+        content: message.content
+      }],
+      isComplete: true,
+      timestamp: new Date(message.createdAt).getTime(),
+      chatContext,
+      chatContextContent,
+      sources: message.role === 'assistant' ? toSourceItems(message.sources || []) : undefined
+    }));
+  };
+
+  // Load a conversation thread from the server and make it the active one
+  const loadConversation = async (id: string) => {
+    try {
+      const { conversationsApi } = await import('../../services/api');
+      const result = await conversationsApi.get(id, username);
+
+      if (result.success && result.data) {
+        setConversationId(id);
+        localStorage.setItem(conversationStorageKey, id);
+        if (result.data.messages.length > 0) {
+          setMessages(toChatMessages(result.data.messages));
+          setTimeout(() => {
+            scrollToBottom(false);
+          }, 100);
+        }
+      }
+    } catch (error) {
+      // Thread was deleted or belongs to another user - start fresh
+      console.warn('[AIChat] Could not load conversation:', id, error);
+      localStorage.removeItem(conversationStorageKey);
+      setConversationId(null);
     }
-    
-    // Calculate total content length for adaptive speed
-    const totalLength = content.reduce((sum, item) => {
-      return sum + (item.type === 'text' ? item.content.length : 0);
-    }, 0);
-
-    // Adaptive speed based on content length
-    let baseSpeed: number;
-    let charsPerInterval: number;
-
-    if (totalLength < 100) {
-      baseSpeed = 50; // Slower for short messages to be readable
-      charsPerInterval = 1;
-    } else if (totalLength < 300) {
-      baseSpeed = 30; // Medium speed
-      charsPerInterval = 2;
-    } else if (totalLength < 600) {
-      baseSpeed = 20; // Faster for long messages
-      charsPerInterval = 3;
-    } else {
-      baseSpeed = 15; // Very fast for very long messages
-      charsPerInterval = 4;
+  };
+
+  // Create a conversation for the first question of a new chat
+  const startConversation = async (): Promise<string | null> => {
+    try {
+      const { conversationsApi } = await import('../../services/api');
+      const result = await conversationsApi.create(username);
+
+      if (result.success && result.data) {
+        setConversationId(result.data.conversationId);
+        localStorage.setItem(conversationStorageKey, result.data.conversationId);
+        return result.data.conversationId;
+      }
+    } catch (error) {
+      // Answer without a thread rather than failing the question
+      console.warn('[AIChat] Could not start conversation:', error);
     }
+    return null;
+  };
 
-    return new Promise<void>((resolve) => {
-      let currentItemIndex = 0;
-      let currentCharIndex = 0;
-      let displayedText = '';
-
-      typingIntervalRef.current = setInterval(() => {
-        if (currentItemIndex < content.length) {
-          const currentItem = content[currentItemIndex];
-
-          if (currentItem.type === 'text') {
-            if (currentCharIndex < currentItem.content.length) {
-              // Check if we're at the start of a markdown block
-              const blockCheck = isMarkdownBlock(currentItem.content, currentCharIndex);
-              
-              let endIndex: number;
-              if (blockCheck.isBlock) {
-                // Add the entire markdown block at once
-                endIndex = blockCheck.endIndex;
-              } else {
-                // Add characters normally
-                endIndex = Math.min(currentCharIndex + charsPerInterval, currentItem.content.length);
-              }
-              
-              const newChars = currentItem.content.slice(currentCharIndex, endIndex);
-              displayedText += newChars;
-              currentCharIndex = endIndex;
-
-              // Update the message with current displayed text
-              setMessages((prevMessages) => {
-                const newMessages = [...prevMessages];
-                const lastMessageIndex = newMessages.length - 1;
-                
-                if (newMessages[lastMessageIndex]) {
-                  newMessages[lastMessageIndex] = {
-                    ...newMessages[lastMessageIndex],
-                    content: [{
-                      type: 'text',
-                      content: displayedText
-                    }],
-                    isComplete: false
-                  };
-                }
-
-                return newMessages;
-              });
-            } else {
-              // Move to next item
-              currentItemIndex++;
-              currentCharIndex = 0;
-            }
-          } else if (currentItem.type === 'button') {
-            // Add button items immediately
-            setMessages((prevMessages) => {
-              const newMessages = [...prevMessages];
-              const lastMessageIndex = newMessages.length - 1;
-              
-              if (newMessages[lastMessageIndex]) {
-                const currentContent = [...(newMessages[lastMessageIndex].content || [])];
-                currentContent.push(currentItem);
-                
-                newMessages[lastMessageIndex] = {
-                  ...newMessages[lastMessageIndex],
-                  content: currentContent,
-                  isComplete: false
-                };
-              }
-
-              return newMessages;
-            });
-            currentItemIndex++;
-          }
-        } else {
-          // Typing complete
-          setMessages((prevMessages) => {
-            const newMessages = [...prevMessages];
-            const lastMessageIndex = newMessages.length - 1;
-            
-            if (newMessages[lastMessageIndex]) {
-              newMessages[lastMessageIndex] = {
-                ...newMessages[lastMessageIndex],
-                isComplete: true
-              };
-            }
-
-            return newMessages;
-          });
+  // Toggle the list of previous conversations
+  const toggleHistory = async () => {
+    if (showHistory) {
+      setShowHistory(false);
+      return;
+    }
 
-          clearInterval(typingIntervalRef.current!);
-          setLoading(false);
-          resolve();
-        }
-      }, baseSpeed);
-    });
+    setShowHistory(true);
+    try {
+      const { conversationsApi } = await import('../../services/api');
+      const result = await conversationsApi.list(username, { limit: 20 });
+      setConversations(result.data || []);
+    } catch (error) {
+      console.warn('[AIChat] Could not list conversations:', error);
+      setConversations([]);
+    }
   };
 
-  // Cleanup typing animation
+  // Abort an in-flight answer stream
   useEffect(() => {
     return () => {
-      if (typingIntervalRef.current) {
-        clearInterval(typingIntervalRef.current);
-        typingIntervalRef.current = null;
-      }
+      streamAbortRef.current?.abort();
+      streamAbortRef.current = null;
     };
   }, []);
 
@@ -611,10 +621,10 @@ const AIchat: React.FC<AIChatProps> = (props) => {
     const messageText = message || input.trim();
     if (!messageText || loading) return;
 
-    // Clear any ongoing typing simulation
-    if (typingIntervalRef.current) {
-      clearInterval(typingIntervalRef.current);
-      typingIntervalRef.current = null;
+    // Abort any answer that is still streaming
+    if (streamAbortRef.current) {
+      streamAbortRef.current.abort();
+      streamAbortRef.current = null;
     }
 
     // Check if this is the special exam context analysis message
@@ -697,70 +707,76 @@ const AIchat: React.FC<AIChatProps> = (props) => {
       
       // Import the queriesApi from the API service
       const { queriesApi } = await import('../../services/api');
+
+      // Follow-up questions are answered in the context of the active conversation
+      const activeConversationId = isExamContextAnalysis
+        ? null
+        : conversationId || await startConversation();
       
-      // Use RAG query API instead of chat_bot_v3
-      const result = await queriesApi.process(messageText, username, {
+      // Stream the RAG answer so tokens render as soon as they are generated
+      const abortController = new AbortController();
+      streamAbortRef.current = abortController;
+
+      let streamedText = '';
+      const ragResponse = await queriesApi.processStream(messageText, username, {
+        onRetrieval: (event) => {
+          // Show sources as soon as retrieval finishes
+          updateLastAssistantMessage({ sources: toSourceItems(event.sources) });
+        },
+        onToken: (text) => {
+          streamedText += text;
+          updateLastAssistantMessage({
+            content: [{
+              type: 'text',
+              content: streamedText
+            }],
+            isComplete: false
+          });
+        }
+      }, {
         maxResults: 5,
-        responseStyle: 'detailed'
+        responseStyle: 'detailed',
+        conversationId: activeConversationId || undefined,
+        signal: abortController.signal
       });
-      
-      if (result.success && result.data) {
-        const ragResponse = result.data;
-        
-        // Create message content from RAG response
-        const messageContent: ContentItem[] = [{
-          type: 'text' as const,
+
+      streamAbortRef.current = null;
+
+      // Replace streamed text with the final answer and sources
+      updateLastAssistantMessage({
+        id: uuidv4(),
+        timestamp: Date.now(),
+        content: [{
+          type: 'text',
           content: ragResponse.answer
-        }];
-        
-        // Convert RAG sources to chat sources format
-        const ragSources: SourceItem[] = ragResponse.sources.map(source => ({
-          type: 'document' as const,
-          content: source.excerpt,
-          metadata: {
-            title: source.documentName,
-            page: source.pageNumber,
-            source: `${source.documentName} (Page ${source.pageNumber})`,
-            confidence: source.confidence
-          }
-        }));
-
-        // Update the placeholder message with actual content
-        setMessages(prev => {
-          const newMessages = [...prev];
-          const lastIndex = newMessages.length - 1;
-          if (lastIndex >= 0 && newMessages[lastIndex].type === 'assistant') {
-            newMessages[lastIndex].id = uuidv4();
-            newMessages[lastIndex].timestamp = Date.now();
-            newMessages[lastIndex].sources = ragSources;
-          }
-          return newMessages;
-        });
+        }],
+        sources: toSourceItems(ragResponse.sources),
+        grounding: ragResponse.metadata?.grounding,
+        citations: ragResponse.citations,
+        cache: ragResponse.cached ? ragResponse.metadata?.cache : undefined,
+        isComplete: true
+      });
+      setLoading(false);
 
-        // Start typing animation with the RAG answer
-        await simulateTyping(messageContent);
-        
-        // Capture metrics (always enabled) - convert RAG metrics to expected format
-        if (onMetrics) {
-          const metrics = {
-            responseTime: ragResponse.responseTime,
-            confidence: ragResponse.confidence,
-            sourcesFound: ragResponse.totalSourcesFound || ragResponse.sources.length,
-            processingTime: ragResponse.processingTime,
-            searchTime: ragResponse.metadata?.searchTime,
-            generationTime: ragResponse.metadata?.generationTime,
-            model: ragResponse.metadata?.model
-          };
-          onMetrics(metrics);
-        }
-      } else if (result.success && noReply) {
-        // NoReply case - just finish, no UI updates needed
-        setLoading(false);
-      } else {
-        setLoading(false);
-        throw new Error(result.message || 'Failed to get response');
+      // Capture metrics (always enabled) - convert RAG metrics to expected format
+      if (onMetrics) {
+        const metrics = {
+          responseTime: ragResponse.responseTime,
+          confidence: ragResponse.confidence,
+          sourcesFound: ragResponse.totalSourcesFound || ragResponse.sources.length,
+          processingTime: ragResponse.processingTime,
+          searchTime: ragResponse.metadata?.searchTime,
+          generationTime: ragResponse.metadata?.generationTime,
+          model: ragResponse.metadata?.model
+        };
+        onMetrics(metrics);
       }
     } catch (error) {
+      // Stream was cancelled by New Chat or unmount - nothing to report
+      if (error instanceof DOMException && error.name === 'AbortError') {
+        return;
+      }
+
       console.error('Error sending message:', {
         error,
         errorMessage: error instanceof Error ? error.message : 'Unknown error',
@@ -800,10 +816,10 @@ const AIchat: React.FC<AIChatProps> = (props) => {
 
   // Handle New Chat
   const handleNewChat = () => {
-    // Clear any ongoing typing simulation
-    if (typingIntervalRef.current) {
-      clearInterval(typingIntervalRef.current);
-      typingIntervalRef.current = null;
+    // Abort any answer that is still streaming
+    if (streamAbortRef.current) {
+      streamAbortRef.current.abort();
+      streamAbortRef.current = null;
     }
 
 
@@ -812,6 +828,11 @@ const AIchat: React.FC<AIChatProps> = (props) => {
     setInput('');
     setLoading(false);
     
+    // Next question starts a new conversation thread
+    setConversationId(null);
+    localStorage.removeItem(conversationStorageKey);
+    setShowHistory(false);
+    
     // Reset context tracking to allow fresh context to be sent
     setLastContextContent('');
     
@@ -898,6 +919,15 @@ const AIchat: React.FC<AIChatProps> = (props) => {
                   </div>
                 </div>
                 <div className="flex items-center gap-2">
+                  {chatContext !== 'liveexam' && (
+                    <button
+                      onClick={toggleHistory}
+                      title="Previous conversations"
+                      className="w-7 h-7 flex items-center justify-center rounded-lg hover:bg-white/10 transition-all duration-200 no-drag"
+                    >
+                      <ClockIcon className="h-5 w-5 text-white" />
+                    </button>
+                  )}
                   {showNewChatButton && messages.length > 0 && (
                     <button
                       onClick={handleNewChat}
@@ -929,6 +959,36 @@ const AIchat: React.FC<AIChatProps> = (props) => {
               </div>
             )}
 
+            {/* Previous conversations */}
+            {showHistory && (
+              <div className="border-b border-GreatifyNeutral-200/50 bg-white max-h-60 overflow-y-auto no-drag">
+                {conversations.length === 0 ? (
+                  <div className="px-4 py-3 text-xs" style={{ color: cssVariables['--chat-text-secondary'] }}>
+                    No previous conversations
+                  </div>
+                ) : (
+                  conversations.map(conversation => (
+                    <button
+                      key={conversation.conversationId}
+                      onClick={() => {
+                        setShowHistory(false);
+                        loadConversation(conversation.conversationId);
+                      }}
+                      disabled={loading}
+                      className={`w-full text-left px-4 py-2 text-sm hover:bg-gray-50 transition-colors duration-200 disabled:opacity-50 ${conversation.conversationId === conversationId ? 'bg-gray-50 font-medium' : ''}`}
+                    >
+                      <div className="truncate" style={{ color: cssVariables['--chat-text'] }}>
+                        {conversation.title || 'Untitled conversation'}
+                      </div>
+                      <div className="text-[10px]" style={{ color: cssVariables['--chat-text-secondary'] }}>
+                        {new Date(conversation.updatedAt).toLocaleString()}
+                      </div>
+                    </button>
+                  ))
+                )}
+              </div>
+            )}
+
             {/* Messages - Exact ExamX layout */}
             <div 
               ref={messagesContainerRef}
@@ -1007,9 +1067,34 @@ const AIchat: React.FC<AIChatProps> = (props) => {
                                               tr: ({children}) => <tr className="border-b border-gray-300 hover:bg-gray-50">{children}</tr>,
                                               th: ({children}) => <th className="text-left p-3 font-bold text-gray-800 border-r border-gray-300 last:border-r-0">{children}</th>,
                                               td: ({children}) => <td className="p-3 border-r border-gray-300 last:border-r-0 text-gray-700">{children}</td>,
+                                              a: ({href, children}) => {
+                                                if (href === UNSUPPORTED_CLAIM_HREF) {
+                                                  return (
+                                                    <span
+                                                      className="underline decoration-wavy decoration-amber-500 underline-offset-2"
+                                                      title="Not found in the retrieved sources - check the document before relying on this"
+                                                    >
+                                                      {children}
+                                                    </span>
+                                                  );
+                                                }
+                                                if (href?.startsWith(CITATION_HREF_PREFIX)) {
+                                                  const citation = message.citations?.[parseInt(href.slice(CITATION_HREF_PREFIX.length), 10)];
+                                                  return (
+                                                    <sup
+                                                      className="ml-0.5 px-1 rounded bg-GreatifyGreen-50 text-GreatifyGreen-700 text-[10px] font-semibold cursor-pointer hover:bg-GreatifyGreen-100"
+                                                      title={citation ? `${citation.documentName}, Page ${citation.pageNumber}: "${citation.quote.substring(0, 300)}"` : undefined}
+                                                      onClick={() => citation && openSourceViewer(message, citation)}
+                                                    >
+                                                      {citation?.marker ?? children}
+                                                    </sup>
+                                                  );
+                                                }
+                                                return <a href={href}>{children}</a>;
+                                              },
                                             }}
                                           >
-                                            {item.content}
+                                            {message.isComplete ? decorateAnswer(item.content, message.grounding, message.citations) : item.content}
                                           </ReactMarkdown>
                                         </div>
                                       )}
@@ -1023,6 +1108,40 @@ const AIchat: React.FC<AIChatProps> = (props) => {
                                       )}
                                     </React.Fragment>
                                   ))}
+                                  {message.isComplete && message.cache && (
+                                    <div
+                                      className="flex items-center gap-1.5 mt-2 pt-2 border-t border-GreatifyNeutral-200/50 text-xs text-GreatifyNeutral-500"
+                                      title={`Similarity ${Math.round(message.cache.similarity * 100)}%`}
+                                    >
+                                      <ClockIcon className="h-4 w-4 flex-shrink-0" />
+                                      <span className="truncate">Answer reused from an earlier question: "{message.cache.cachedQuery}"</span>
+                                    </div>
+                                  )}
+                                  {message.isComplete && !!message.grounding?.unsupportedCount && (
+                                    <div className="flex items-start gap-1.5 mt-2 pt-2 border-t border-GreatifyNeutral-200/50 text-xs text-amber-700">
+                                      <ExclamationTriangleIcon className="h-4 w-4 flex-shrink-0" />
+                                      <span>
+                                        {message.grounding.unsupportedCount === 1
+                                          ? '1 statement could not be matched to the sources and is underlined.'
+                                          : `${message.grounding.unsupportedCount} statements could not be matched to the sources and are underlined.`}
+                                        {' '}Verify them in the document before acting on them.
+                                      </span>
+                                    </div>
+                                  )}
+                                  {message.isComplete && toViewerItems(message).length > 0 && (
+                                    <div className="flex flex-wrap gap-1 mt-2 pt-2 border-t border-GreatifyNeutral-200/50">
+                                      {toViewerItems(message).map((item, sourceIndex) => (
+                                        <button
+                                          key={sourceIndex}
+                                          onClick={() => setSourceViewer({ items: toViewerItems(message), index: sourceIndex })}
+                                          className="px-2 py-0.5 rounded-full bg-GreatifyNeutral-100 hover:bg-GreatifyGreen-50 text-[11px] text-GreatifyNeutral-700 truncate max-w-full"
+                                          title="Open this page"
+                                        >
+                                          {item.documentName} • p. {item.pageNumber}
+                                        </button>
+                                      ))}
+                                    </div>
+                                  )}
                                 </div>
                               )}
                             </div>
@@ -1051,6 +1170,17 @@ const AIchat: React.FC<AIChatProps> = (props) => {
                   ref={messagesEndRef}
                   style={{ height: '1px' }} 
                 />
+
+                {/* Rendered outside the draggable window, whose transform would break fixed positioning */}
+                {sourceViewer && createPortal(
+                  <SourceViewer
+                    items={sourceViewer.items}
+                    initialIndex={sourceViewer.index}
+                    userId={username}
+                    onClose={() => setSourceViewer(null)}
+                  />,
+                  document.body
+                )}
               </div>
             </div>
 
@@ -0,0 +1,158 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { getDocumentProxy, getResolvedPDFJS } from 'unpdf';
+
+type PdfDocument = Awaited<ReturnType<typeof getDocumentProxy>>;
+
+export interface PdfPageViewProps {
+  data: ArrayBuffer;
+  pageNumber: number;
+  passage?: string; // Text to highlight on the page
+  title: string;
+}
+
+const normalize = (text: string) => text.replace(/\s+/g, '').toLowerCase();
+
+// Items shorter than this are too common to highlight on their own (see findPassageItems)
+const MIN_FALLBACK_ITEM_LENGTH = 8;
+
+/**
+ * Indexes of the page's text items that hold the passage
+ * Whitespace is ignored on both sides, since the indexed text and pdf.js break lines differently.
+ * When the passage does not appear in pdf.js order (columns, tables), items found inside it are used.
+ */
+const findPassageItems = (items: string[], passage: string): number[] => {
+  const target = normalize(passage);
+  if (!target) {
+    return [];
+  }
+
+  let joined = '';
+  const owners: number[] = [];
+  items.forEach((str, i) => {
+    const text = normalize(str);
+    joined += text;
+    for (let k = 0; k < text.length; k++) owners.push(i);
+  });
+
+  const start = joined.indexOf(target);
+  if (start !== -1) {
+    return Array.from(new Set(owners.slice(start, start + target.length)));
+  }
+
+  return items
+    .map((str, i) => ({ text: normalize(str), i }))
+    .filter(({ text }) => text.length >= MIN_FALLBACK_ITEM_LENGTH && target.includes(text))
+    .map(({ i }) => i);
+};
+
+/**
+ * One PDF page rendered with pdf.js: a canvas with a text layer on top, in which the
+ * cited passage is highlighted and scrolled into view
+ */
+const PdfPageView: React.FC<PdfPageViewProps> = ({ data, pageNumber, passage, title }) => {
+  const [pdf, setPdf] = useState<PdfDocument | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const textLayerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let loaded: PdfDocument | null = null;
+    setPdf(null);
+    setError(null);
+
+    // pdf.js takes ownership of the buffer it is given; pass a copy so the cached file stays usable
+    getDocumentProxy(new Uint8Array(data.slice(0)))
+      .then(opened => {
+        loaded = opened;
+        if (cancelled) {
+          opened.destroy();
+        } else {
+          setPdf(opened);
+        }
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'The PDF could not be opened');
+      });
+
+    return () => {
+      cancelled = true;
+      loaded?.destroy();
+    };
+  }, [data]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    const canvas = canvasRef.current;
+    const textLayerDiv = textLayerRef.current;
+    if (!pdf || !container || !canvas || !textLayerDiv) return;
+
+    let cancelled = false;
+    let renderTask: { cancel: () => void } | null = null;
+    let textLayer: { cancel: () => void } | null = null;
+
+    const render = async () => {
+      const { TextLayer } = await getResolvedPDFJS();
+      const page = await pdf.getPage(Math.min(Math.max(pageNumber, 1), pdf.numPages));
+      if (cancelled) return;
+
+      // Fit the page to the pane's width
+      const scale = Math.max(container.clientWidth - 32, 200) / page.getViewport({ scale: 1 }).width;
+      const viewport = page.getViewport({ scale });
+      const outputScale = window.devicePixelRatio || 1;
+
+      canvas.width = Math.floor(viewport.width * outputScale);
+      canvas.height = Math.floor(viewport.height * outputScale);
+      canvas.style.width = `${Math.floor(viewport.width)}px`;
+      canvas.style.height = `${Math.floor(viewport.height)}px`;
+
+      const task = page.render({
+        canvas,
+        viewport,
+        transform: outputScale !== 1 ? [outputScale, 0, 0, outputScale, 0, 0] : undefined
+      });
+      renderTask = task;
+
+      textLayerDiv.replaceChildren();
+      textLayerDiv.parentElement?.style.setProperty('--total-scale-factor', String(scale));
+      const layer = new TextLayer({
+        textContentSource: await page.getTextContent(),
+        container: textLayerDiv,
+        viewport
+      });
+      textLayer = layer;
+
+      await Promise.all([task.promise, layer.render()]);
+      if (cancelled) return;
+
+      const highlighted = passage ? findPassageItems(layer.textContentItemsStr, passage) : [];
+      highlighted.forEach(i => layer.textDivs[i]?.classList.add('highlight'));
+      layer.textDivs[highlighted[0]]?.scrollIntoView({ block: 'center' });
+    };
+
+    render().catch(err => {
+      // Cancelled renders reject; only report real failures
+      if (!cancelled) setError(err instanceof Error ? err.message : 'The page could not be rendered');
+    });
+
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+      textLayer?.cancel();
+    };
+  }, [pdf, pageNumber, passage]);
+
+  return (
+    <div ref={containerRef} className="flex-1 overflow-auto bg-gray-100 p-4" aria-label={title}>
+      {error && <div className="text-sm text-red-600">{error}</div>}
+      {!pdf && !error && <div className="text-sm text-GreatifyNeutral-500">Loading PDF...</div>}
+      <div className={`pdfPage relative mx-auto w-fit shadow ${pdf && !error ? '' : 'hidden'}`}>
+        <canvas ref={canvasRef} className="block" />
+        <div ref={textLayerRef} className="textLayer" />
+      </div>
+    </div>
+  );
+};
+
+export default PdfPageView;
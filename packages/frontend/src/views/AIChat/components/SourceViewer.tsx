@@ -0,0 +1,215 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  XMarkIcon,
+  ChevronLeftIcon,
+  ChevronRightIcon
+} from '@heroicons/react/24/outline';
+import { DocumentPageText } from '@arya-rag/types';
+import { documentsApi } from '../../../services/api';
+import PdfPageView from './PdfPageView';
+
+export interface SourceViewerItem {
+  documentId: string;
+  documentName: string;
+  pageNumber: number;
+  revision?: number;
+  pageStart?: number; // Offsets of the cited passage in the page text
+  pageEnd?: number;
+  quote?: string; // Cited passage, used to find it when offsets are not available
+}
+
+export interface SourceViewerProps {
+  items: SourceViewerItem[];
+  initialIndex?: number;
+  userId: string;
+  onClose: () => void;
+}
+
+interface PageState {
+  loading: boolean;
+  page?: DocumentPageText;
+  error?: string;
+}
+
+// Locate the cited passage in the page text: stored offsets first, then the quote itself
+const findHighlight = (item: SourceViewerItem, page: DocumentPageText): { start: number; end: number } | null => {
+  if (page.aligned && item.pageStart !== undefined && item.pageEnd !== undefined
+    && item.pageStart < item.pageEnd && item.pageEnd <= page.text.length) {
+    return { start: item.pageStart, end: item.pageEnd };
+  }
+
+  const quote = item.quote?.trim();
+  if (!quote) {
+    return null;
+  }
+
+  const start = page.text.indexOf(quote);
+  return start === -1 ? null : { start, end: start + quote.length };
+};
+
+/**
+ * Shows the pages an answer cites: the cited page of the original PDF, rendered with pdf.js,
+ * next to the page's indexed text, with the cited passage highlighted in both. Arrow keys
+ * step through sources.
+ */
+const SourceViewer: React.FC<SourceViewerProps> = ({ items, initialIndex = 0, userId, onClose }) => {
+  const [index, setIndex] = useState(Math.min(initialIndex, items.length - 1));
+  const [pageState, setPageState] = useState<PageState>({ loading: true });
+  const [pdfData, setPdfData] = useState<ArrayBuffer | null>(null);
+  const fileCache = useRef(new Map<string, ArrayBuffer | null>()); // null: not a PDF
+  const highlightRef = useRef<HTMLElement>(null);
+
+  const item = items[index];
+  const fileKey = `${item.documentId}:${item.revision ?? 'current'}`;
+
+  // Download each document once; stepping between pages of the same file reuses it
+  useEffect(() => {
+    const cached = fileCache.current.get(fileKey);
+    if (cached !== undefined) {
+      setPdfData(cached);
+      return;
+    }
+
+    let cancelled = false;
+    setPdfData(null);
+
+    documentsApi.getFile(item.documentId, userId, item.revision)
+      .then(async blob => {
+        const loaded = blob.type === 'application/pdf' ? await blob.arrayBuffer() : null;
+        fileCache.current.set(fileKey, loaded);
+        if (!cancelled) setPdfData(loaded);
+      })
+      .catch(error => {
+        // The page text below still shows the passage
+        console.warn('Failed to load source document:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [fileKey, userId]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setPageState({ loading: true });
+
+    documentsApi.getPageText(item.documentId, item.pageNumber, userId, item.revision)
+      .then(result => {
+        if (cancelled) return;
+        setPageState(result.success && result.data
+          ? { loading: false, page: result.data }
+          : { loading: false, error: result.error || 'Page text is not available' });
+      })
+      .catch((err: any) => {
+        if (cancelled) return;
+        setPageState({ loading: false, error: err?.response?.data?.error?.message || (err instanceof Error ? err.message : 'Page text is not available') });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [item.documentId, item.pageNumber, item.revision, userId]);
+
+  useEffect(() => {
+    highlightRef.current?.scrollIntoView({ block: 'center' });
+  }, [pageState.page, index]);
+
+  useEffect(() => {
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        onClose();
+      } else if (event.key === 'ArrowLeft') {
+        setIndex(current => Math.max(0, current - 1));
+      } else if (event.key === 'ArrowRight') {
+        setIndex(current => Math.min(items.length - 1, current + 1));
+      }
+    };
+
+    document.addEventListener('keydown', handleKey);
+    return () => document.removeEventListener('keydown', handleKey);
+  }, [items.length, onClose]);
+
+  const page = pageState.page;
+  const highlight = page ? findHighlight(item, page) : null;
+  const passage = page && highlight ? page.text.slice(highlight.start, highlight.end) : item.quote;
+
+  return (
+    <div
+      className="fixed inset-0 z-[1000000] flex items-center justify-center bg-black/50"
+      onClick={onClose}
+    >
+      <div
+        className="flex flex-col w-[90vw] h-[85vh] bg-white rounded-lg shadow-xl overflow-hidden"
+        onClick={event => event.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-4 py-2 border-b border-GreatifyNeutral-200">
+          <div className="min-w-0">
+            <div className="text-sm font-semibold text-gray-800 truncate">{item.documentName}</div>
+            <div className="text-xs text-GreatifyNeutral-500">
+              Page {item.pageNumber}{item.revision ? ` • Revision ${item.revision}` : ''}
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setIndex(index - 1)}
+              disabled={index === 0}
+              className="p-1 rounded hover:bg-gray-100 disabled:opacity-30"
+              title="Previous source"
+            >
+              <ChevronLeftIcon className="h-5 w-5" />
+            </button>
+            <span className="text-xs text-GreatifyNeutral-500">Source {index + 1} of {items.length}</span>
+            <button
+              onClick={() => setIndex(index + 1)}
+              disabled={index === items.length - 1}
+              className="p-1 rounded hover:bg-gray-100 disabled:opacity-30"
+              title="Next source"
+            >
+              <ChevronRightIcon className="h-5 w-5" />
+            </button>
+            <button onClick={onClose} className="p-1 rounded hover:bg-gray-100" title="Close">
+              <XMarkIcon className="h-5 w-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          {pdfData && (
+            <div className="flex flex-1 min-w-0 border-r border-GreatifyNeutral-200">
+              <PdfPageView
+                data={pdfData}
+                pageNumber={item.pageNumber}
+                passage={passage}
+                title={`${item.documentName}, page ${item.pageNumber}`}
+              />
+            </div>
+          )}
+          <div className={`${pdfData ? 'w-2/5' : 'flex-1'} overflow-y-auto p-4 text-sm leading-relaxed text-gray-700`}>
+            {pageState.loading && <div className="text-GreatifyNeutral-500">Loading page text...</div>}
+            {pageState.error && <div className="text-red-600">{pageState.error}</div>}
+            {page && (
+              <>
+                {!highlight && (
+                  <div className="mb-2 text-xs text-amber-700">The cited passage could not be located on this page.</div>
+                )}
+                <div className="whitespace-pre-wrap">
+                  {highlight ? (
+                    <>
+                      {page.text.slice(0, highlight.start)}
+                      <mark ref={highlightRef} className="bg-yellow-200 rounded px-0.5">
+                        {page.text.slice(highlight.start, highlight.end)}
+                      </mark>
+                      {page.text.slice(highlight.end)}
+                    </>
+                  ) : page.text}
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SourceViewer;
@@ -1,3 +1,5 @@
+import type { AnswerCacheHit, GroundingReport, InlineCitation } from '@arya-rag/types';
+
 // Exact interfaces from ExamX
 export interface Message {
   id: string;
@@ -9,6 +11,9 @@ export interface Message {
   chatContext?: string;
   chatContextContent?: string;
   sources?: SourceItem[];
+  grounding?: GroundingReport; // Per-sentence source support for RAG answers
+  citations?: InlineCitation[]; // Resolved [n] markers in the answer
+  cache?: AnswerCacheHit; // Set when the answer was reused from an earlier question
 }
 
 export interface VoiceData {
@@ -34,6 +39,12 @@ export interface SourceItem {
     filename?: string;
     page?: number;
     source?: string;
+    documentId?: string;
+    chunkId?: string;
+    revision?: number;
+    pageStart?: number; // Character span of the excerpt's chunk on the page
+    pageEnd?: number;
+    confidence?: number;
   };
 }
 
@@ -34,6 +34,10 @@ export interface UserDocument {
   embeddingModel: string;
   errorMessage?: string;
   tags?: string[];
+  ocrPageCount?: number;
+  emptyPageCount?: number;
+  currentRevision?: number; // Revision served to queries
+  latestRevision?: number; // Newest uploaded revision (may still be processing)
   // Storage fields for Supabase Storage integration
   storagePath?: string;
   storageUrl?: string;
@@ -54,6 +58,67 @@ export interface DocumentChunk {
   embedding?: number[];
   embeddingModel: string;
   createdAt: string;
+  ocr?: boolean; // Text came from OCR of a scanned page
+  ocrConfidence?: number; // 0-1
+  revision?: number; // Document revision this chunk belongs to
+  contentHash?: string; // sha256 of chunkText, used to reuse embeddings across revisions
+  containsTable?: boolean; // Chunk holds a table, or rows of one under its repeated header
+  sectionHierarchy?: SectionRef[]; // Enclosing sections from the document outline, outermost first
+  parentIndex?: number; // Parent chunk this child was split from, when indexed parent-child
+}
+
+export type DocumentRevisionStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'archived';
+
+export interface DocumentRevision {
+  documentId: string;
+  revision: number;
+  filename: string;
+  fileSize: number;
+  fileHash: string;
+  status: DocumentRevisionStatus; // archived revisions keep their history but no longer have chunks
+  totalPages: number;
+  totalChunks: number;
+  pagesChanged?: number; // Pages whose text is not in the previous revision
+  chunksReused?: number; // Embeddings copied from the previous revision
+  chunksEmbedded?: number; // Embeddings generated for this revision
+  errorMessage?: string;
+  createdAt: string;
+  completedAt?: string;
+}
+
+// Text of one page as indexed, for showing a cited passage in context (GET /api/documents/:id/pages/:page)
+export interface DocumentPageText {
+  documentId: string;
+  pageNumber: number;
+  revision: number;
+  text: string;
+  aligned: boolean; // Offsets match InlineCitation.pageStart/pageEnd; false for chunks without stored positions
+}
+
+// A section a chunk belongs to
+export interface SectionRef {
+  number?: string; // Section number from the title ("3.2", "A", "IV")
+  title: string;
+  level: number; // 0 = top level
+}
+
+// A node of a document's section tree
+export interface OutlineSection extends SectionRef {
+  id: string; // Position in the tree ("2.1.3"), stable within a revision
+  pageStart: number;
+  pageEnd: number; // Inclusive
+  children: OutlineSection[];
+}
+
+export type DocumentOutlineSource = 'bookmarks' | 'toc' | 'none';
+
+// Section tree of a document revision, from PDF bookmarks or table-of-contents pages
+// (GET /api/documents/:id/outline)
+export interface DocumentOutline {
+  documentId: string;
+  revision: number;
+  source: DocumentOutlineSource;
+  sections: OutlineSection[];
 }
 
 // Processing Types
@@ -61,6 +126,18 @@ export interface PageContent {
   pageNumber: number;
   text: string;
   sectionTitle?: string;
+  ocr?: boolean; // Page had no text layer and was recognized by OCR
+  ocrConfidence?: number; // 0-1
+  tables?: PageTable[]; // Tables rendered into the text, kept whole by the chunker
+  runningHeader?: string; // Repeating header/footer lines stripped from the text (page numbers included)
+  runningFooter?: string;
+}
+
+// A table in a page's text
+export interface PageTable {
+  start: number; // Character offsets in the page text
+  end: number;
+  header: string; // Lines to repeat when the table is split across chunks ('' if rows stand alone)
 }
 
 export interface ChunkWithEmbedding extends DocumentChunk {
@@ -82,8 +159,11 @@ export interface SearchResult {
   documentName: string;
   pageNumber: number;
   chunkText: string;
-  similarityScore: number;
+  similarityScore?: number; // Vector similarity; absent for matches found only by keyword search
   sectionTitle?: string;
+  revision?: number;
+  pagePositionStart?: number; // Character span of the chunk on its page
+  pagePositionEnd?: number;
 }
 
 // RAG Types
@@ -106,6 +186,10 @@ export interface RAGRequest {
   documentIds?: string[];
   maxResults?: number;
   responseStyle?: 'detailed' | 'concise';
+  searchMode?: 'vector' | 'keyword' | 'hybrid';
+  conversationId?: string;
+  revisions?: Record<string, number>; // documentId -> revision to search instead of the current one
+  workspaceIds?: string[]; // Limit the search to these workspaces; by default own and shared documents are searched
 }
 
 export interface SourceReference {
@@ -119,29 +203,168 @@ export interface SourceReference {
 }
 
 export interface DocumentSource {
+  documentId?: string;
+  chunkId?: string;
   documentName: string;
   pageNumber: number;
+  pageStart?: number; // Character span of the excerpt's chunk on the page
+  pageEnd?: number;
   excerpt: string;
   confidence: number;
   sectionTitle?: string;
+  ocr?: boolean; // Excerpt comes from OCR text and may contain recognition errors
+  ocrConfidence?: number;
+  revision?: number; // Document revision the excerpt was taken from
+}
+
+// An inline [n] marker in an answer, resolved to the text that supports it
+export interface InlineCitation {
+  marker: number; // n in [n]; the nth excerpt of the retrieved context
+  start: number; // Character offsets of the marker in the answer
+  end: number;
+  chunkId: string;
+  documentId: string;
+  documentName: string;
+  pageNumber: number;
+  revision?: number;
+  quote: string; // Sentence of the chunk that best supports the cited statement
+  pageStart?: number; // Character span of the quote on the page (absent for chunks without stored positions)
+  pageEnd?: number;
+}
+
+// A citation removed from an answer because it pointed outside the retrieved context
+export interface RejectedCitation {
+  citation: string;
+  reason: string;
 }
 
 export interface RAGResponse {
   answer: string;
   sources: DocumentSource[];
+  citations?: InlineCitation[];
   confidence: number;
   responseTime: number;
   totalSourcesFound?: number;
   processingTime?: number;
+  cached?: boolean; // Answer reused from an equivalent earlier question
   metadata?: {
     searchTime?: number;
     generationTime?: number;
     totalChunksSearched?: number;
     model?: string;
+    grounding?: GroundingReport;
+    rejectedCitations?: RejectedCitation[];
+    cache?: AnswerCacheHit;
     [key: string]: any;
   };
 }
 
+// Where a cached answer came from
+export interface AnswerCacheHit {
+  similarity: number; // Similarity between the new question and the cached one
+  cachedQuery: string;
+  cachedAt: string;
+}
+
+// Grounding verification: whether each answer sentence is backed by the retrieved chunks
+export type ClaimSupportStatus = 'supported' | 'partial' | 'unsupported';
+
+export interface ClaimSupport {
+  index: number;
+  text: string;
+  start: number; // Character offsets of the claim in the answer
+  end: number;
+  status: ClaimSupportStatus;
+  score: number; // 0-1, share of the claim's terms found in the best chunk
+  sources: Array<{
+    chunkId: string;
+    documentName: string;
+    pageNumber: number;
+    score: number;
+  }>;
+}
+
+export interface GroundingReport {
+  verifier: 'lexical' | 'llm';
+  supportedRatio: number; // Supported claims (partial counts half) over all claims
+  unsupportedCount: number;
+  claims: ClaimSupport[];
+}
+
+// Streaming RAG Types (Server-Sent Events from POST /api/queries/stream)
+export interface RAGStreamRetrievalEvent {
+  type: 'retrieval';
+  sources: DocumentSource[];
+  totalSourcesFound: number;
+  searchTime: number;
+}
+
+export interface RAGStreamTokenEvent {
+  type: 'token';
+  text: string;
+}
+
+export interface RAGStreamCompleteEvent {
+  type: 'complete';
+  response: RAGResponse;
+}
+
+export interface RAGStreamErrorEvent {
+  type: 'error';
+  message: string;
+}
+
+export type RAGStreamEvent =
+  | RAGStreamRetrievalEvent
+  | RAGStreamTokenEvent
+  | RAGStreamCompleteEvent
+  | RAGStreamErrorEvent;
+
+// Conversation Types
+export interface Conversation {
+  conversationId: string;
+  userId: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ConversationMessage {
+  messageId: string;
+  conversationId: string;
+  role: 'user' | 'assistant';
+  content: string;
+  sources?: DocumentSource[];
+  rewrittenQuery?: string;
+  createdAt: string;
+}
+
+export interface ConversationWithMessages extends Conversation {
+  messages: ConversationMessage[];
+}
+
+// Ingestion Job Types
+export type IngestionJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface IngestionJob {
+  jobId: string;
+  jobType: string;
+  documentId: string;
+  userId: string;
+  status: IngestionJobStatus;
+  stage?: string; // Stage currently (or last) running
+  stageAttempts: Record<string, number>; // Failed attempts per stage
+  maxAttempts: number; // Per stage
+  lastError?: string;
+  nextRunAt: string;
+  lockedBy?: string;
+  heartbeatAt?: string;
+  startedAt?: string;
+  completedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
 // API Response Types
 export interface ApiResponse<T> {
   success: boolean;
@@ -151,6 +374,8 @@ export interface ApiResponse<T> {
 }
 
 export interface DocumentUploadResponse {
+  documentId?: string;
+  jobId?: string; // Ingestion job, when the durable queue is available
   success: boolean;
   documents: Array<{
     id: string;
@@ -181,6 +406,7 @@ export interface ProcessingStatusResponse {
     percentage: number;
     stage: string;
     message: string;
+    etaSeconds?: number;
   };
   processingStartedAt?: string;
   processingCompletedAt?: string;
@@ -189,9 +415,133 @@ export interface ProcessingStatusResponse {
   totalChunks?: number;
 }
 
+// Ingestion Progress Types (Server-Sent Events from GET /api/documents/events)
+export interface IngestionProgressEvent {
+  type: 'progress' | 'completed' | 'failed';
+  documentId: string;
+  jobId?: string;
+  stage: string;
+  percentage: number;
+  message: string;
+  pagesExtracted?: number;
+  totalPages?: number;
+  chunksCreated?: number;
+  embeddingsDone?: number;
+  totalChunks?: number;
+  etaSeconds?: number; // Estimated time to completion, once enough work is done to measure a rate
+  timestamp: string;
+}
+
+// Embedding Model Migration Types
+export interface ActiveEmbeddingModel {
+  provider: 'ollama' | 'openai' | 'mock';
+  model: string;
+  dimensions?: number; // Unknown until a migration or probe records it
+  scope: 'user' | 'system' | 'environment'; // Where the setting came from
+  activatedAt?: string;
+}
+
+export type EmbeddingMigrationStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface EmbeddingMigration {
+  migrationId: string;
+  userId?: string; // Unset for a system-wide migration
+  sourceModel?: string;
+  targetProvider: 'ollama' | 'openai' | 'mock';
+  targetModel: string;
+  targetDimensions?: number;
+  status: EmbeddingMigrationStatus;
+  totalChunks: number;
+  processedChunks: number;
+  percentage: number;
+  etaSeconds?: number;
+  errorMessage?: string;
+  startedAt?: string;
+  completedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Authentication Types
+export type AuthRole = 'user' | 'admin';
+export type AuthMethod = 'password' | 'api_key' | 'oidc';
+
+export interface AuthUser {
+  userId: string;
+  role: AuthRole;
+  createdAt?: string;
+  lastLoginAt?: string;
+}
+
+export interface AuthSession {
+  token: string;
+  expiresAt: string;
+  user: AuthUser;
+}
+
+export interface StreamToken {
+  token: string; // Only opens GET /api/documents/events; sent as ?access_token=
+  expiresAt: string;
+}
+
+export interface ApiKeyInfo {
+  keyId: string;
+  name: string;
+  keyPrefix: string;
+  createdAt: string;
+  lastUsedAt?: string;
+  revokedAt?: string;
+}
+
+export interface CreatedApiKey extends ApiKeyInfo {
+  key: string; // Only returned once, when the key is created
+}
+
+export interface AuthConfig {
+  enabled: boolean;
+  methods: AuthMethod[];
+  registrationOpen: boolean;
+  oidcIssuer?: string;
+}
+
+// Workspace Types
+export type WorkspaceRole = 'owner' | 'editor' | 'viewer';
+
+export interface Workspace {
+  workspaceId: string;
+  name: string;
+  description?: string;
+  createdBy: string;
+  role?: WorkspaceRole; // The requesting user's role
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WorkspaceMember {
+  userId: string;
+  role: WorkspaceRole;
+  addedBy?: string;
+  addedAt: string;
+}
+
+export interface WorkspaceDocument {
+  documentId: string;
+  filename: string;
+  ownerId: string; // Uploader; chunks stay owned by them
+  status: string;
+  totalPages: number;
+  addedBy: string;
+  addedAt: string;
+}
+
+export interface WorkspaceWithDetails extends Workspace {
+  members: WorkspaceMember[];
+  documents: WorkspaceDocument[];
+}
+
 // Configuration Types
 export interface EmbeddingConfig {
-  provider: 'ollama' | 'openai';
+  provider: 'ollama' | 'openai' | 'mock';
   model: string;
   dimensions: number;
   baseUrl?: string;
@@ -199,7 +549,7 @@ export interface EmbeddingConfig {
 }
 
 export interface LLMConfig {
-  provider: 'ollama' | 'openai';
+  provider: 'ollama' | 'openai' | 'mock';
   model: string;
   temperature: number;
   maxTokens: number;